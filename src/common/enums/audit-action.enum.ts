@@ -44,4 +44,8 @@ export enum AuditAction {
 
   // Settings
   SETTINGS_CHANGED = 'SETTINGS_CHANGED',
+
+  // Chatbot guardrails
+  PROMPT_INJECTION_BLOCKED = 'PROMPT_INJECTION_BLOCKED',
+  PII_REDACTED = 'PII_REDACTED',
 }
@@ -0,0 +1,138 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableForeignKey, TableIndex } from 'typeorm';
+
+export class AddWeakSignalFingerprintAndHistory1771000000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Add deduplication columns to weak_signals
+    await queryRunner.addColumns('weak_signals', [
+      new TableColumn({
+        name: 'fingerprint',
+        type: 'varchar',
+        length: '64',
+        isNullable: true,
+        comment: 'Stable identity used to merge re-detections across runs',
+      }),
+      new TableColumn({
+        name: 'lastDetectedAt',
+        type: 'timestamp',
+        isNullable: true,
+        comment: 'When the signal was most recently re-detected',
+      }),
+      new TableColumn({
+        name: 'detectionCount',
+        type: 'integer',
+        default: 1,
+        isNullable: false,
+        comment: 'Number of detection passes that produced this signal',
+      }),
+    ]);
+
+    await queryRunner.createIndex(
+      'weak_signals',
+      new TableIndex({
+        name: 'IDX_weak_signals_tenant_fingerprint',
+        columnNames: ['tenantId', 'fingerprint'],
+      }),
+    );
+
+    // Create weak_signal_history table
+    await queryRunner.createTable(
+      new Table({
+        name: 'weak_signal_history',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          {
+            name: 'tenantId',
+            type: 'integer',
+            isNullable: false,
+          },
+          {
+            name: 'weakSignalId',
+            type: 'integer',
+            isNullable: false,
+          },
+          {
+            name: 'detectionRunId',
+            type: 'integer',
+            isNullable: true,
+            comment: 'Detection run that produced this entry; null for manual detections',
+          },
+          {
+            name: 'changeType',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+          },
+          {
+            name: 'snapshot',
+            type: 'json',
+            isNullable: false,
+            comment: 'State of the signal after this detection pass',
+          },
+          {
+            name: 'changes',
+            type: 'json',
+            isNullable: false,
+            comment: 'Fields that changed compared to the previous detection pass',
+          },
+          {
+            name: 'recordedAt',
+            type: 'timestamp',
+            isNullable: false,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKey(
+      'weak_signal_history',
+      new TableForeignKey({
+        name: 'FK_weak_signal_history_signal',
+        columnNames: ['weakSignalId'],
+        referencedTableName: 'weak_signals',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    // Note: tenantId index is created automatically by TypeORM from @Index() decorators
+
+    await queryRunner.createIndex(
+      'weak_signal_history',
+      new TableIndex({
+        name: 'IDX_weak_signal_history_tenant_signal_recorded',
+        columnNames: ['tenantId', 'weakSignalId', 'recordedAt'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'weak_signal_history',
+      new TableIndex({
+        name: 'IDX_weak_signal_history_tenant_run',
+        columnNames: ['tenantId', 'detectionRunId'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropForeignKey('weak_signal_history', 'FK_weak_signal_history_signal');
+    await queryRunner.dropTable('weak_signal_history');
+
+    await queryRunner.dropIndex('weak_signals', 'IDX_weak_signals_tenant_fingerprint');
+    await queryRunner.dropColumn('weak_signals', 'detectionCount');
+    await queryRunner.dropColumn('weak_signals', 'lastDetectedAt');
+    await queryRunner.dropColumn('weak_signals', 'fingerprint');
+  }
+}
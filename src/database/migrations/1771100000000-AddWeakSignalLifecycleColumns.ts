@@ -0,0 +1,57 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddWeakSignalLifecycleColumns1771100000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('weak_signals', [
+      new TableColumn({
+        name: 'detectedConfidenceScore',
+        type: 'decimal',
+        precision: 5,
+        scale: 2,
+        isNullable: true,
+        comment: 'Confidence at the most recent detection, before decay',
+      }),
+      new TableColumn({
+        name: 'missedRuns',
+        type: 'integer',
+        default: 0,
+        isNullable: false,
+        comment: 'Consecutive detection runs in which the signal was not re-detected',
+      }),
+      new TableColumn({
+        name: 'resolvedAt',
+        type: 'timestamp',
+        isNullable: true,
+        comment: 'When the signal was auto-resolved or expired',
+      }),
+    ]);
+
+    await queryRunner.addColumn(
+      'weak_signal_history',
+      new TableColumn({
+        name: 'reason',
+        type: 'text',
+        isNullable: true,
+        comment: 'Why a lifecycle transition happened',
+      }),
+    );
+
+    await queryRunner.addColumn(
+      'weak_signal_detection_runs',
+      new TableColumn({
+        name: 'lifecycleSummary',
+        type: 'json',
+        isNullable: true,
+        comment: 'Lifecycle transitions applied after detection',
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('weak_signal_detection_runs', 'lifecycleSummary');
+    await queryRunner.dropColumn('weak_signal_history', 'reason');
+    await queryRunner.dropColumn('weak_signals', 'resolvedAt');
+    await queryRunner.dropColumn('weak_signals', 'missedRuns');
+    await queryRunner.dropColumn('weak_signals', 'detectedConfidenceScore');
+  }
+}
@@ -0,0 +1,94 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+export class CreateWeakSignalDetectionProfiles1771200000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'weak_signal_detection_profiles',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          {
+            name: 'tenantId',
+            type: 'integer',
+            isNullable: false,
+          },
+          {
+            name: 'enabledDetectors',
+            type: 'json',
+            isNullable: true,
+            comment: 'Detectors that run for this tenant',
+          },
+          {
+            name: 'patternThresholds',
+            type: 'json',
+            isNullable: true,
+            comment: 'Minimum occurrences and spike ratios for recurring patterns',
+          },
+          {
+            name: 'keywords',
+            type: 'json',
+            isNullable: true,
+            comment: 'Keywords tracked for communication spikes',
+          },
+          {
+            name: 'severityScoring',
+            type: 'json',
+            isNullable: true,
+            comment: 'Score thresholds used to grade pattern severity',
+          },
+          {
+            name: 'accelerationFactors',
+            type: 'json',
+            isNullable: true,
+            comment: 'Acceleration factors used to report and grade trends',
+          },
+          {
+            name: 'similarityThresholds',
+            type: 'json',
+            isNullable: true,
+            comment: 'Similarity thresholds per source for grouping recurring items',
+          },
+          {
+            name: 'updatedBy',
+            type: 'integer',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            onUpdate: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'weak_signal_detection_profiles',
+      new TableIndex({
+        name: 'IDX_weak_signal_detection_profiles_tenant',
+        columnNames: ['tenantId'],
+        isUnique: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('weak_signal_detection_profiles', 'IDX_weak_signal_detection_profiles_tenant');
+    await queryRunner.dropTable('weak_signal_detection_profiles');
+  }
+}
@@ -0,0 +1,130 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+export class CreateWeakSignalBacktestRuns1771300000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'weak_signal_backtest_runs',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          {
+            name: 'tenantId',
+            type: 'integer',
+            isNullable: false,
+          },
+          {
+            name: 'status',
+            type: 'varchar',
+            length: '20',
+            default: "'running'",
+            isNullable: false,
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+            length: '255',
+            isNullable: true,
+          },
+          {
+            name: 'fromDate',
+            type: 'timestamp',
+            isNullable: false,
+            comment: 'First date detection is replayed as of',
+          },
+          {
+            name: 'toDate',
+            type: 'timestamp',
+            isNullable: false,
+            comment: 'Last date detection is replayed as of',
+          },
+          {
+            name: 'stepDays',
+            type: 'integer',
+            isNullable: false,
+            comment: 'Days between replay dates',
+          },
+          {
+            name: 'daysAnalyzed',
+            type: 'integer',
+            isNullable: false,
+            comment: 'Number of days analyzed backwards from each replay date',
+          },
+          {
+            name: 'settings',
+            type: 'json',
+            isNullable: false,
+            comment: 'Detection settings used for the replay',
+          },
+          {
+            name: 'labelCount',
+            type: 'integer',
+            default: 0,
+            isNullable: false,
+          },
+          {
+            name: 'results',
+            type: 'json',
+            isNullable: true,
+            comment: 'Precision, recall and lead time overall, per detector and per source',
+          },
+          {
+            name: 'errorMessage',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'durationMs',
+            type: 'integer',
+            isNullable: true,
+            comment: 'Duration in milliseconds',
+          },
+          {
+            name: 'createdBy',
+            type: 'integer',
+            isNullable: true,
+          },
+          {
+            name: 'completedAt',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            onUpdate: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Note: tenantId index is created automatically by TypeORM from @Index() decorators
+
+    await queryRunner.createIndex(
+      'weak_signal_backtest_runs',
+      new TableIndex({
+        name: 'IDX_weak_signal_backtest_runs_tenant_created',
+        columnNames: ['tenantId', 'createdAt'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('weak_signal_backtest_runs', 'IDX_weak_signal_backtest_runs_tenant_created');
+    await queryRunner.dropTable('weak_signal_backtest_runs');
+  }
+}
@@ -0,0 +1,95 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+export class CreateWeakSignalFeedbackWeights1771400000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'weak_signal_feedback_weights',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          {
+            name: 'tenantId',
+            type: 'integer',
+            isNullable: false,
+          },
+          {
+            name: 'dimension',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+          },
+          {
+            name: 'key',
+            type: 'varchar',
+            length: '128',
+            isNullable: false,
+          },
+          {
+            name: 'validatedCount',
+            type: 'integer',
+            default: 0,
+            isNullable: false,
+          },
+          {
+            name: 'dismissedCount',
+            type: 'integer',
+            default: 0,
+            isNullable: false,
+          },
+          {
+            name: 'weight',
+            type: 'decimal',
+            precision: 5,
+            scale: 3,
+            default: 1,
+            isNullable: false,
+            comment: 'Multiplier applied to the confidence of matching signals',
+          },
+          {
+            name: 'suppressed',
+            type: 'boolean',
+            default: false,
+            isNullable: false,
+            comment: 'Whether matching signals are no longer surfaced',
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            onUpdate: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Note: tenantId index is created automatically by TypeORM from @Index() decorators
+
+    await queryRunner.createIndex(
+      'weak_signal_feedback_weights',
+      new TableIndex({
+        name: 'IDX_weak_signal_feedback_weights_tenant_dimension_key',
+        columnNames: ['tenantId', 'dimension', 'key'],
+        isUnique: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('weak_signal_feedback_weights', 'IDX_weak_signal_feedback_weights_tenant_dimension_key');
+    await queryRunner.dropTable('weak_signal_feedback_weights');
+  }
+}
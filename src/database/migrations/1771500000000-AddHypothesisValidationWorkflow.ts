@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddHypothesisValidationWorkflow1771500000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('hypotheses', [
+      new TableColumn({
+        name: 'validationProgress',
+        type: 'json',
+        isNullable: true,
+        comment: 'Progress through each validation step',
+      }),
+      new TableColumn({
+        name: 'evidenceAttachments',
+        type: 'json',
+        isNullable: true,
+        comment: 'Evidence attached by analysts during validation',
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('hypotheses', 'evidenceAttachments');
+    await queryRunner.dropColumn('hypotheses', 'validationProgress');
+  }
+}
@@ -0,0 +1,177 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableIndex } from 'typeorm';
+
+export class AddIncrementalWeakSignalDetection1771600000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'weak_signal_detection_aggregates',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          {
+            name: 'tenantId',
+            type: 'integer',
+            isNullable: false,
+          },
+          {
+            name: 'day',
+            type: 'varchar',
+            length: '10',
+            isNullable: false,
+            comment: 'UTC day of the source date (YYYY-MM-DD)',
+          },
+          {
+            name: 'series',
+            type: 'varchar',
+            length: '32',
+            isNullable: false,
+          },
+          {
+            name: 'keyword',
+            type: 'varchar',
+            length: '64',
+            default: "''",
+            isNullable: false,
+          },
+          {
+            name: 'count',
+            type: 'integer',
+            default: 0,
+            isNullable: false,
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            onUpdate: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Note: tenantId index is created automatically by TypeORM from @Index() decorators
+
+    await queryRunner.createIndex(
+      'weak_signal_detection_aggregates',
+      new TableIndex({
+        name: 'IDX_weak_signal_detection_aggregates_tenant_series_keyword_day',
+        columnNames: ['tenantId', 'series', 'keyword', 'day'],
+        isUnique: true,
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'weak_signal_detection_aggregates',
+      new TableIndex({
+        name: 'IDX_weak_signal_detection_aggregates_tenant_day',
+        columnNames: ['tenantId', 'day'],
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'weak_signal_detection_state',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          {
+            name: 'tenantId',
+            type: 'integer',
+            isNullable: false,
+            isUnique: true,
+          },
+          {
+            name: 'watermark',
+            type: 'timestamp',
+            isNullable: false,
+            comment: 'Ingestion time (createdAt) up to which source rows are aggregated',
+          },
+          {
+            name: 'daysBack',
+            type: 'integer',
+            isNullable: false,
+            comment: 'Window the aggregates were built for',
+          },
+          {
+            name: 'keywords',
+            type: 'json',
+            isNullable: false,
+            comment: 'Keywords the mention counts were built for',
+          },
+          {
+            name: 'patternItems',
+            type: 'json',
+            isNullable: false,
+            comment: 'Jira, ServiceNow and timeline items in the window, regrouped on every run',
+          },
+          {
+            name: 'rebuiltAt',
+            type: 'timestamp',
+            isNullable: false,
+            comment: 'Last full rebuild from the source tables',
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            onUpdate: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.addColumns('weak_signal_detection_runs', [
+      new TableColumn({
+        name: 'mode',
+        type: 'varchar',
+        length: '20',
+        default: "'full'",
+        isNullable: false,
+        comment: 'Whether source data was rescanned or read from the rolling aggregates',
+      }),
+      new TableColumn({
+        name: 'watermark',
+        type: 'timestamp',
+        isNullable: true,
+        comment: 'Ingestion watermark the aggregates were advanced to (incremental runs)',
+      }),
+      new TableColumn({
+        name: 'recordsProcessed',
+        type: 'integer',
+        default: 0,
+        isNullable: false,
+        comment: 'Source rows read by this run',
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('weak_signal_detection_runs', 'recordsProcessed');
+    await queryRunner.dropColumn('weak_signal_detection_runs', 'watermark');
+    await queryRunner.dropColumn('weak_signal_detection_runs', 'mode');
+    await queryRunner.dropTable('weak_signal_detection_state');
+    await queryRunner.dropIndex('weak_signal_detection_aggregates', 'IDX_weak_signal_detection_aggregates_tenant_day');
+    await queryRunner.dropIndex('weak_signal_detection_aggregates', 'IDX_weak_signal_detection_aggregates_tenant_series_keyword_day');
+    await queryRunner.dropTable('weak_signal_detection_aggregates');
+  }
+}
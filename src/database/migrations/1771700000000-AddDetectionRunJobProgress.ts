@@ -0,0 +1,47 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddDetectionRunJobProgress1771700000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('weak_signal_detection_runs', [
+      new TableColumn({
+        name: 'jobId',
+        type: 'varchar',
+        length: '64',
+        isNullable: true,
+        comment: 'Queue job currently executing this run',
+      }),
+      new TableColumn({
+        name: 'progress',
+        type: 'integer',
+        default: 0,
+        isNullable: false,
+        comment: 'Progress in percent',
+      }),
+      new TableColumn({
+        name: 'stage',
+        type: 'varchar',
+        length: '32',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'attempts',
+        type: 'integer',
+        default: 0,
+        isNullable: false,
+      }),
+      new TableColumn({
+        name: 'cancelRequestedAt',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('weak_signal_detection_runs', 'cancelRequestedAt');
+    await queryRunner.dropColumn('weak_signal_detection_runs', 'attempts');
+    await queryRunner.dropColumn('weak_signal_detection_runs', 'stage');
+    await queryRunner.dropColumn('weak_signal_detection_runs', 'progress');
+    await queryRunner.dropColumn('weak_signal_detection_runs', 'jobId');
+  }
+}
@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddWeakSignalForecasts1771800000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('weak_signals', [
+      new TableColumn({
+        name: 'forecast',
+        type: 'json',
+        isNullable: true,
+        comment: 'Forecast bands and threshold breach estimate of the series behind the signal',
+      }),
+      new TableColumn({
+        name: 'breachProbability',
+        type: 'decimal',
+        precision: 5,
+        scale: 4,
+        isNullable: true,
+        comment: 'Probability 0-1 that the metric reaches its critical threshold within the forecast horizon',
+      }),
+      new TableColumn({
+        name: 'expectedBreachAt',
+        type: 'timestamp',
+        isNullable: true,
+        comment: 'When the forecast expects the metric to reach its critical threshold',
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('weak_signals', 'expectedBreachAt');
+    await queryRunner.dropColumn('weak_signals', 'breachProbability');
+    await queryRunner.dropColumn('weak_signals', 'forecast');
+  }
+}
@@ -0,0 +1,111 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+export class CreateWeakSignalSeriesRelationships1771900000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'weak_signal_series_relationships',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          {
+            name: 'tenantId',
+            type: 'integer',
+            isNullable: false,
+          },
+          {
+            name: 'leaderSeries',
+            type: 'varchar',
+            length: '128',
+            isNullable: false,
+          },
+          {
+            name: 'followerSeries',
+            type: 'varchar',
+            length: '128',
+            isNullable: false,
+          },
+          {
+            name: 'lagDays',
+            type: 'integer',
+            isNullable: false,
+            comment: 'Days by which the follower series trails the leader series',
+          },
+          {
+            name: 'correlation',
+            type: 'decimal',
+            precision: 5,
+            scale: 4,
+            isNullable: false,
+            comment: 'Cross-correlation of the differenced series at lagDays',
+          },
+          {
+            name: 'grangerFStatistic',
+            type: 'decimal',
+            precision: 12,
+            scale: 4,
+            isNullable: false,
+          },
+          {
+            name: 'grangerPValue',
+            type: 'decimal',
+            precision: 10,
+            scale: 8,
+            isNullable: false,
+            comment: 'Probability that the leader adds no predictive power over the follower history',
+          },
+          {
+            name: 'sampleDays',
+            type: 'integer',
+            isNullable: false,
+          },
+          {
+            name: 'windowStart',
+            type: 'timestamp',
+            isNullable: false,
+          },
+          {
+            name: 'windowEnd',
+            type: 'timestamp',
+            isNullable: false,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            onUpdate: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Note: tenantId index is created automatically by TypeORM from @Index() decorators
+
+    await queryRunner.createIndex(
+      'weak_signal_series_relationships',
+      new TableIndex({
+        name: 'IDX_weak_signal_series_relationships_tenant_leader_follower',
+        columnNames: ['tenantId', 'leaderSeries', 'followerSeries'],
+        isUnique: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('weak_signal_series_relationships', 'IDX_weak_signal_series_relationships_tenant_leader_follower');
+    await queryRunner.dropTable('weak_signal_series_relationships');
+  }
+}
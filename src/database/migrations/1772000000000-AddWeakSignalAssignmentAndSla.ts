@@ -0,0 +1,100 @@
+import { MigrationInterface, QueryRunner, TableColumn, TableIndex } from 'typeorm';
+
+export class AddWeakSignalAssignmentAndSla1772000000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('weak_signals', [
+      new TableColumn({
+        name: 'assigneeId',
+        type: 'integer',
+        isNullable: true,
+        comment: 'User responsible for triaging the signal',
+      }),
+      new TableColumn({
+        name: 'assignedTeam',
+        type: 'varchar',
+        length: '100',
+        isNullable: true,
+        comment: 'Team responsible for triaging the signal',
+      }),
+      new TableColumn({
+        name: 'assignedAt',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'assignedBy',
+        type: 'integer',
+        isNullable: true,
+        comment: 'User who made the current assignment',
+      }),
+      new TableColumn({
+        name: 'triagedAt',
+        type: 'timestamp',
+        isNullable: true,
+        comment: 'When the signal last left the new status',
+      }),
+      new TableColumn({
+        name: 'slaDueAt',
+        type: 'timestamp',
+        isNullable: true,
+        comment: 'Deadline for the signal to leave the new status, from the triage SLA of its severity',
+      }),
+      new TableColumn({
+        name: 'slaBreachedAt',
+        type: 'timestamp',
+        isNullable: true,
+        comment: 'When the signal was found still new after its SLA deadline',
+      }),
+    ]);
+
+    await queryRunner.createIndex(
+      'weak_signals',
+      new TableIndex({
+        name: 'IDX_weak_signals_tenant_assignee',
+        columnNames: ['tenantId', 'assigneeId'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'weak_signals',
+      new TableIndex({
+        name: 'IDX_weak_signals_tenant_status_sla_due',
+        columnNames: ['tenantId', 'status', 'slaDueAt'],
+      }),
+    );
+
+    // Alert rules can now watch SLA breaches of weak signals
+    await queryRunner.changeColumn(
+      'alert_rules',
+      'sourceType',
+      new TableColumn({
+        name: 'sourceType',
+        type: 'enum',
+        enum: ['weak_signal', 'weak_signal_sla_breach', 'metric', 'incident', 'action_item', 'timeline_event'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DELETE FROM alert_rules WHERE sourceType = 'weak_signal_sla_breach'`);
+    await queryRunner.changeColumn(
+      'alert_rules',
+      'sourceType',
+      new TableColumn({
+        name: 'sourceType',
+        type: 'enum',
+        enum: ['weak_signal', 'metric', 'incident', 'action_item', 'timeline_event'],
+      }),
+    );
+
+    await queryRunner.dropIndex('weak_signals', 'IDX_weak_signals_tenant_status_sla_due');
+    await queryRunner.dropIndex('weak_signals', 'IDX_weak_signals_tenant_assignee');
+    await queryRunner.dropColumn('weak_signals', 'slaBreachedAt');
+    await queryRunner.dropColumn('weak_signals', 'slaDueAt');
+    await queryRunner.dropColumn('weak_signals', 'triagedAt');
+    await queryRunner.dropColumn('weak_signals', 'assignedBy');
+    await queryRunner.dropColumn('weak_signals', 'assignedAt');
+    await queryRunner.dropColumn('weak_signals', 'assignedTeam');
+    await queryRunner.dropColumn('weak_signals', 'assigneeId');
+  }
+}
@@ -0,0 +1,195 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableIndex } from 'typeorm';
+
+export class CreateWeakSignalCommentsAndActivities1772100000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'weak_signal_comments',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          {
+            name: 'tenantId',
+            type: 'integer',
+            isNullable: false,
+          },
+          {
+            name: 'weakSignalId',
+            type: 'integer',
+            isNullable: true,
+            comment: 'Signal the comment belongs to; also set for comments on its hypotheses',
+          },
+          {
+            name: 'hypothesisId',
+            type: 'integer',
+            isNullable: true,
+          },
+          {
+            name: 'parentId',
+            type: 'integer',
+            isNullable: true,
+            comment: 'Comment this one replies to',
+          },
+          {
+            name: 'authorId',
+            type: 'integer',
+            isNullable: false,
+          },
+          {
+            name: 'body',
+            type: 'text',
+            isNullable: false,
+          },
+          {
+            name: 'mentionedUserIds',
+            type: 'json',
+            isNullable: true,
+            comment: 'Users of the tenant mentioned in the body',
+          },
+          {
+            name: 'editedAt',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            onUpdate: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'weak_signal_activities',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          {
+            name: 'tenantId',
+            type: 'integer',
+            isNullable: false,
+          },
+          {
+            name: 'weakSignalId',
+            type: 'integer',
+            isNullable: true,
+          },
+          {
+            name: 'hypothesisId',
+            type: 'integer',
+            isNullable: true,
+          },
+          {
+            name: 'activityType',
+            type: 'varchar',
+            length: '50',
+            isNullable: false,
+          },
+          {
+            name: 'actorId',
+            type: 'integer',
+            isNullable: true,
+            comment: 'User who caused the activity; null for automated changes',
+          },
+          {
+            name: 'details',
+            type: 'json',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Note: tenantId indexes are created automatically by TypeORM from @Index() decorators
+
+    await queryRunner.createIndex(
+      'weak_signal_comments',
+      new TableIndex({
+        name: 'IDX_weak_signal_comments_tenant_signal_created',
+        columnNames: ['tenantId', 'weakSignalId', 'createdAt'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'weak_signal_comments',
+      new TableIndex({
+        name: 'IDX_weak_signal_comments_tenant_hypothesis_created',
+        columnNames: ['tenantId', 'hypothesisId', 'createdAt'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'weak_signal_activities',
+      new TableIndex({
+        name: 'IDX_weak_signal_activities_tenant_signal_created',
+        columnNames: ['tenantId', 'weakSignalId', 'createdAt'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'weak_signal_activities',
+      new TableIndex({
+        name: 'IDX_weak_signal_activities_tenant_hypothesis_created',
+        columnNames: ['tenantId', 'hypothesisId', 'createdAt'],
+      }),
+    );
+
+    // Mention notifications are delivered to users directly, without an alert rule
+    await queryRunner.changeColumn(
+      'alert_history',
+      'ruleId',
+      new TableColumn({
+        name: 'ruleId',
+        type: 'int',
+        isNullable: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DELETE FROM alert_history WHERE ruleId IS NULL`);
+    await queryRunner.changeColumn(
+      'alert_history',
+      'ruleId',
+      new TableColumn({
+        name: 'ruleId',
+        type: 'int',
+      }),
+    );
+
+    await queryRunner.dropIndex('weak_signal_activities', 'IDX_weak_signal_activities_tenant_hypothesis_created');
+    await queryRunner.dropIndex('weak_signal_activities', 'IDX_weak_signal_activities_tenant_signal_created');
+    await queryRunner.dropIndex('weak_signal_comments', 'IDX_weak_signal_comments_tenant_hypothesis_created');
+    await queryRunner.dropIndex('weak_signal_comments', 'IDX_weak_signal_comments_tenant_signal_created');
+    await queryRunner.dropTable('weak_signal_activities');
+    await queryRunner.dropTable('weak_signal_comments');
+  }
+}
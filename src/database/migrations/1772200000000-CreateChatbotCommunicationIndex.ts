@@ -0,0 +1,250 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+export class CreateChatbotCommunicationIndex1772200000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'chatbot_communication_chunks',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          {
+            name: 'tenantId',
+            type: 'integer',
+            isNullable: false,
+          },
+          {
+            name: 'sourceType',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+            comment: 'slack, teams, gmail or outlook',
+          },
+          {
+            name: 'sourceId',
+            type: 'integer',
+            isNullable: false,
+            comment: 'Id of the message in the table of its source',
+          },
+          {
+            name: 'chunkIndex',
+            type: 'integer',
+            default: 0,
+            isNullable: false,
+          },
+          {
+            name: 'channel',
+            type: 'varchar',
+            length: '255',
+            isNullable: true,
+            comment: 'Channel name, or mailbox folder of an email',
+          },
+          {
+            name: 'title',
+            type: 'varchar',
+            length: '500',
+            isNullable: true,
+          },
+          {
+            name: 'text',
+            type: 'text',
+            isNullable: false,
+            comment: 'Passage of the message with PII redacted',
+          },
+          {
+            name: 'termCount',
+            type: 'integer',
+            default: 0,
+            isNullable: false,
+          },
+          {
+            name: 'embedding',
+            type: 'json',
+            isNullable: true,
+          },
+          {
+            name: 'url',
+            type: 'varchar',
+            length: '1000',
+            isNullable: true,
+          },
+          {
+            name: 'occurredAt',
+            type: 'timestamp',
+            isNullable: false,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            onUpdate: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'deletedAt',
+            type: 'timestamp',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'chatbot_communication_chunk_terms',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          {
+            name: 'tenantId',
+            type: 'integer',
+            isNullable: false,
+          },
+          {
+            name: 'chunkId',
+            type: 'integer',
+            isNullable: false,
+          },
+          {
+            name: 'term',
+            type: 'varchar',
+            length: '64',
+            isNullable: false,
+          },
+          {
+            name: 'frequency',
+            type: 'integer',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'chatbot_communication_index_cursors',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          {
+            name: 'tenantId',
+            type: 'integer',
+            isNullable: false,
+          },
+          {
+            name: 'sourceType',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+          },
+          {
+            name: 'lastUpdatedAt',
+            type: 'timestamp',
+            isNullable: true,
+            comment: 'Update time of the last message indexed',
+          },
+          {
+            name: 'lastSourceId',
+            type: 'integer',
+            default: 0,
+            isNullable: false,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            onUpdate: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'deletedAt',
+            type: 'timestamp',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'chatbot_communication_chunks',
+      new TableIndex({
+        name: 'IDX_chatbot_communication_chunks_tenant_source',
+        columnNames: ['tenantId', 'sourceType', 'sourceId'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'chatbot_communication_chunks',
+      new TableIndex({
+        name: 'IDX_chatbot_communication_chunks_tenant_occurred',
+        columnNames: ['tenantId', 'occurredAt'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'chatbot_communication_chunk_terms',
+      new TableIndex({
+        name: 'IDX_chatbot_communication_chunk_terms_tenant_term',
+        columnNames: ['tenantId', 'term'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'chatbot_communication_chunk_terms',
+      new TableIndex({
+        name: 'IDX_chatbot_communication_chunk_terms_chunk',
+        columnNames: ['chunkId'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'chatbot_communication_index_cursors',
+      new TableIndex({
+        name: 'IDX_chatbot_communication_index_cursors_tenant_source',
+        columnNames: ['tenantId', 'sourceType'],
+        isUnique: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('chatbot_communication_index_cursors', 'IDX_chatbot_communication_index_cursors_tenant_source');
+    await queryRunner.dropIndex('chatbot_communication_chunk_terms', 'IDX_chatbot_communication_chunk_terms_chunk');
+    await queryRunner.dropIndex('chatbot_communication_chunk_terms', 'IDX_chatbot_communication_chunk_terms_tenant_term');
+    await queryRunner.dropIndex('chatbot_communication_chunks', 'IDX_chatbot_communication_chunks_tenant_occurred');
+    await queryRunner.dropIndex('chatbot_communication_chunks', 'IDX_chatbot_communication_chunks_tenant_source');
+    await queryRunner.dropTable('chatbot_communication_index_cursors');
+    await queryRunner.dropTable('chatbot_communication_chunk_terms');
+    await queryRunner.dropTable('chatbot_communication_chunks');
+  }
+}
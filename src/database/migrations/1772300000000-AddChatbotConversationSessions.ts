@@ -0,0 +1,62 @@
+import { MigrationInterface, QueryRunner, TableColumn, TableIndex } from 'typeorm';
+
+export class AddChatbotConversationSessions1772300000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('chatbot_conversations', [
+      new TableColumn({
+        name: 'title',
+        type: 'varchar',
+        length: '255',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'isPinned',
+        type: 'boolean',
+        default: false,
+        isNullable: false,
+      }),
+      new TableColumn({
+        name: 'archivedAt',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'summary',
+        type: 'text',
+        isNullable: true,
+        comment: 'Summary of the older messages, sent to the model in their place',
+      }),
+      new TableColumn({
+        name: 'summarizedMessages',
+        type: 'integer',
+        default: 0,
+        isNullable: false,
+        comment: 'Number of leading messages covered by the summary',
+      }),
+    ]);
+
+    // Sessions created before titles existed are named after their first question
+    await queryRunner.query(
+      `UPDATE chatbot_conversations
+       SET title = LEFT(JSON_UNQUOTE(JSON_EXTRACT(messages, '$[0].content')), 80)
+       WHERE title IS NULL`,
+    );
+
+    await queryRunner.createIndex(
+      'chatbot_conversations',
+      new TableIndex({
+        name: 'IDX_chatbot_conversations_tenant_user_last_message',
+        columnNames: ['tenantId', 'userId', 'lastMessageAt'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('chatbot_conversations', 'IDX_chatbot_conversations_tenant_user_last_message');
+    await queryRunner.dropColumn('chatbot_conversations', 'summarizedMessages');
+    await queryRunner.dropColumn('chatbot_conversations', 'summary');
+    await queryRunner.dropColumn('chatbot_conversations', 'archivedAt');
+    await queryRunner.dropColumn('chatbot_conversations', 'isPinned');
+    await queryRunner.dropColumn('chatbot_conversations', 'title');
+  }
+}
@@ -0,0 +1,102 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+export class CreateChatbotLlmProviderSettings1772400000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'chatbot_llm_provider_settings',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          {
+            name: 'tenantId',
+            type: 'integer',
+            isNullable: false,
+          },
+          {
+            name: 'provider',
+            type: 'varchar',
+            length: '30',
+            isNullable: false,
+            comment: 'openai, azure-openai, openai-compatible or fake',
+          },
+          {
+            name: 'model',
+            type: 'varchar',
+            length: '255',
+            isNullable: true,
+            comment: 'Chat model, or deployment name for Azure OpenAI',
+          },
+          {
+            name: 'embeddingModel',
+            type: 'varchar',
+            length: '255',
+            isNullable: true,
+          },
+          {
+            name: 'endpoint',
+            type: 'varchar',
+            length: '500',
+            isNullable: true,
+            comment: 'Azure resource endpoint, or base URL of an OpenAI-compatible server',
+          },
+          {
+            name: 'apiKey',
+            type: 'varchar',
+            length: '500',
+            isNullable: true,
+          },
+          {
+            name: 'apiVersion',
+            type: 'varchar',
+            length: '30',
+            isNullable: true,
+          },
+          {
+            name: 'updatedBy',
+            type: 'integer',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            onUpdate: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'deletedAt',
+            type: 'timestamp',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'chatbot_llm_provider_settings',
+      new TableIndex({
+        name: 'IDX_chatbot_llm_provider_settings_tenant',
+        columnNames: ['tenantId'],
+        isUnique: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('chatbot_llm_provider_settings', 'IDX_chatbot_llm_provider_settings_tenant');
+    await queryRunner.dropTable('chatbot_llm_provider_settings');
+  }
+}
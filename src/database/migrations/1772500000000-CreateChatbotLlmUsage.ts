@@ -0,0 +1,131 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+export class CreateChatbotLlmUsage1772500000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'chatbot_llm_usage',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          {
+            name: 'tenantId',
+            type: 'integer',
+            isNullable: false,
+          },
+          {
+            name: 'userId',
+            type: 'integer',
+            isNullable: true,
+            comment: 'Null for calls made by background jobs',
+          },
+          {
+            name: 'feature',
+            type: 'varchar',
+            length: '40',
+            isNullable: false,
+            comment: 'chat, conversation_summary, retrieval, weak_signal_hypothesis or weak_signal_similarity',
+          },
+          {
+            name: 'provider',
+            type: 'varchar',
+            length: '30',
+            isNullable: false,
+          },
+          {
+            name: 'model',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+          },
+          {
+            name: 'operation',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+            comment: 'chat or embedding',
+          },
+          {
+            name: 'promptTokens',
+            type: 'integer',
+            default: 0,
+            isNullable: false,
+          },
+          {
+            name: 'completionTokens',
+            type: 'integer',
+            default: 0,
+            isNullable: false,
+          },
+          {
+            name: 'totalTokens',
+            type: 'integer',
+            default: 0,
+            isNullable: false,
+          },
+          {
+            name: 'tokensEstimated',
+            type: 'boolean',
+            default: false,
+            isNullable: false,
+            comment: 'Tokens estimated from the text length when the provider reported no usage',
+          },
+          {
+            name: 'latencyMs',
+            type: 'integer',
+            default: 0,
+            isNullable: false,
+          },
+          {
+            name: 'estimatedCost',
+            type: 'decimal',
+            precision: 12,
+            scale: 6,
+            isNullable: true,
+            comment: 'USD, null when the price of the model is unknown',
+          },
+          {
+            name: 'success',
+            type: 'boolean',
+            default: true,
+            isNullable: false,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'chatbot_llm_usage',
+      new TableIndex({
+        name: 'IDX_chatbot_llm_usage_tenant_created',
+        columnNames: ['tenantId', 'createdAt'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'chatbot_llm_usage',
+      new TableIndex({
+        name: 'IDX_chatbot_llm_usage_tenant_user_created',
+        columnNames: ['tenantId', 'userId', 'createdAt'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('chatbot_llm_usage', 'IDX_chatbot_llm_usage_tenant_user_created');
+    await queryRunner.dropIndex('chatbot_llm_usage', 'IDX_chatbot_llm_usage_tenant_created');
+    await queryRunner.dropTable('chatbot_llm_usage');
+  }
+}
@@ -0,0 +1,220 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+export class CreateChatbotFeedbackAndEvaluations1772600000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'chatbot_message_feedback',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          {
+            name: 'tenantId',
+            type: 'integer',
+            isNullable: false,
+          },
+          {
+            name: 'conversationId',
+            type: 'integer',
+            isNullable: false,
+          },
+          {
+            name: 'userId',
+            type: 'integer',
+            isNullable: false,
+          },
+          {
+            name: 'messageIndex',
+            type: 'integer',
+            isNullable: false,
+            comment: 'Position of the assistant message in the conversation messages',
+          },
+          {
+            name: 'rating',
+            type: 'varchar',
+            length: '10',
+            isNullable: false,
+            comment: 'up or down',
+          },
+          {
+            name: 'comment',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            onUpdate: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'deletedAt',
+            type: 'timestamp',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'chatbot_message_feedback',
+      new TableIndex({
+        name: 'IDX_chatbot_message_feedback_conversation_message',
+        columnNames: ['conversationId', 'messageIndex'],
+        isUnique: true,
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'chatbot_message_feedback',
+      new TableIndex({
+        name: 'IDX_chatbot_message_feedback_tenant_created',
+        columnNames: ['tenantId', 'createdAt'],
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'chatbot_evaluation_runs',
+        columns: [
+          {
+            name: 'id',
+            type: 'int',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          {
+            name: 'tenantId',
+            type: 'integer',
+            isNullable: false,
+          },
+          {
+            name: 'label',
+            type: 'varchar',
+            length: '255',
+            isNullable: true,
+          },
+          {
+            name: 'promptVersion',
+            type: 'varchar',
+            length: '64',
+            isNullable: false,
+            comment: 'Hash of the system prompt and tool definitions',
+          },
+          {
+            name: 'llm',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+            comment: 'fake or tenant',
+          },
+          {
+            name: 'provider',
+            type: 'varchar',
+            length: '30',
+            isNullable: false,
+          },
+          {
+            name: 'model',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+          },
+          {
+            name: 'caseCount',
+            type: 'integer',
+            isNullable: false,
+          },
+          {
+            name: 'passedCount',
+            type: 'integer',
+            isNullable: false,
+          },
+          {
+            name: 'retrievalHitRate',
+            type: 'float',
+            isNullable: false,
+          },
+          {
+            name: 'citationPrecision',
+            type: 'float',
+            isNullable: false,
+          },
+          {
+            name: 'citationRecall',
+            type: 'float',
+            isNullable: false,
+          },
+          {
+            name: 'results',
+            type: 'json',
+            isNullable: false,
+          },
+          {
+            name: 'createdBy',
+            type: 'integer',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            onUpdate: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'deletedAt',
+            type: 'timestamp',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'chatbot_evaluation_runs',
+      new TableIndex({
+        name: 'IDX_chatbot_evaluation_runs_tenant_created',
+        columnNames: ['tenantId', 'createdAt'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'chatbot_evaluation_runs',
+      new TableIndex({
+        name: 'IDX_chatbot_evaluation_runs_tenant_prompt',
+        columnNames: ['tenantId', 'promptVersion'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('chatbot_evaluation_runs', 'IDX_chatbot_evaluation_runs_tenant_prompt');
+    await queryRunner.dropIndex('chatbot_evaluation_runs', 'IDX_chatbot_evaluation_runs_tenant_created');
+    await queryRunner.dropTable('chatbot_evaluation_runs');
+    await queryRunner.dropIndex('chatbot_message_feedback', 'IDX_chatbot_message_feedback_tenant_created');
+    await queryRunner.dropIndex('chatbot_message_feedback', 'IDX_chatbot_message_feedback_conversation_message');
+    await queryRunner.dropTable('chatbot_message_feedback');
+  }
+}
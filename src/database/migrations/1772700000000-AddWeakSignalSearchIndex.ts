@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner, TableColumn, TableIndex } from 'typeorm';
+
+export class AddWeakSignalSearchIndex1772700000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // FULLTEXT indexes cannot cover JSON columns, so explainability is mirrored into a generated text column
+    await queryRunner.addColumn(
+      'weak_signals',
+      new TableColumn({
+        name: 'explainabilityText',
+        type: 'text',
+        isNullable: true,
+        asExpression: 'CAST(explainability AS CHAR)',
+        generatedType: 'STORED',
+        comment: 'Explainability as text, so it can be part of the full-text search index',
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'weak_signals',
+      new TableIndex({
+        name: 'IDX_weak_signals_search',
+        columnNames: ['title', 'description', 'explainabilityText'],
+        isFulltext: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('weak_signals', 'IDX_weak_signals_search');
+    await queryRunner.dropColumn('weak_signals', 'explainabilityText');
+  }
+}
@@ -1,6 +1,9 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ConfigModule } from '@nestjs/config';
+import { KpiModule } from '../kpi/kpi.module';
+import { PrivacyModule } from '../privacy/privacy.module';
+import { AuditModule } from '../audit/audit.module';
 
 // Controllers
 import { ChatbotController } from './controllers/chatbot.controller';
@@ -8,34 +11,91 @@ import { ChatbotController } from './controllers/chatbot.controller';
 // Services
 import { ChatbotService } from './services/chatbot.service';
 import { OpenAIService } from './services/openai.service';
-import { ContextRetrievalService } from './services/context-retrieval.service';
+import { ChatToolRegistryService } from './services/chat-tool-registry.service';
+import { ChatCitationService } from './services/chat-citation.service';
+import { ChatGuardrailService } from './services/chat-guardrail.service';
+import { ConversationService } from './services/conversation.service';
+import { CommunicationIndexService } from './services/communication-index.service';
+import { LlmProviderSettingsService } from './services/llm-provider-settings.service';
+import { LlmUsageService } from './services/llm-usage.service';
+import { ChatEvaluationService } from './services/chat-evaluation.service';
+
+// Tools
+import { SearchWeakSignalsTool } from './tools/search-weak-signals.tool';
+import { GetIncidentTool } from './tools/get-incident.tool';
+import { SearchJiraIssuesTool } from './tools/search-jira-issues.tool';
+import { SearchCommunicationsTool } from './tools/search-communications.tool';
+import { GetMetricValuesTool } from './tools/get-metric-values.tool';
+import { GetTeamImpactTool } from './tools/get-team-impact.tool';
+import { TraverseGraphTool } from './tools/traverse-graph.tool';
 
 // Entities
 import { Conversation } from './entities/conversation.entity';
+import { ChatMessageFeedback } from './entities/chat-message-feedback.entity';
+import { ChatEvaluationRun } from './entities/chat-evaluation-run.entity';
+import { CommunicationChunk } from './entities/communication-chunk.entity';
+import { CommunicationChunkTerm } from './entities/communication-chunk-term.entity';
+import { CommunicationIndexCursor } from './entities/communication-index-cursor.entity';
+import { LlmProviderSetting } from './entities/llm-provider-setting.entity';
+import { LlmUsageRecord } from './entities/llm-usage-record.entity';
+import { Tenant } from '../tenants/entities/tenant.entity';
 import { WeakSignal } from '../weak-signals/entities/weak-signal.entity';
-import { JiraIssue } from '../jira/entities/jira-issue.entity';
 import { ServiceNowIncident } from '../servicenow/entities/servicenow-incident.entity';
+import { JiraIssue } from '../jira/entities/jira-issue.entity';
 import { SlackMessage } from '../slack/entities/slack-message.entity';
 import { TeamsMessage } from '../teams/entities/teams-message.entity';
 import { GmailMessage } from '../gmail/entities/gmail-message.entity';
 import { OutlookMessage } from '../outlook/entities/outlook-message.entity';
+import { MetricDefinition } from '../kpi/entities/metric-definition.entity';
+import { MetricValue } from '../kpi/entities/metric-value.entity';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([
       Conversation,
+      ChatMessageFeedback,
+      ChatEvaluationRun,
+      CommunicationChunk,
+      CommunicationChunkTerm,
+      CommunicationIndexCursor,
+      LlmProviderSetting,
+      LlmUsageRecord,
+      Tenant,
       WeakSignal,
-      JiraIssue,
       ServiceNowIncident,
+      JiraIssue,
       SlackMessage,
       TeamsMessage,
       GmailMessage,
       OutlookMessage,
+      MetricDefinition,
+      MetricValue,
     ]),
     ConfigModule,
+    KpiModule,
+    PrivacyModule,
+    AuditModule,
   ],
   controllers: [ChatbotController],
-  providers: [ChatbotService, OpenAIService, ContextRetrievalService],
-  exports: [ChatbotService],
+  providers: [
+    ChatbotService,
+    ConversationService,
+    OpenAIService,
+    ChatToolRegistryService,
+    ChatCitationService,
+    ChatGuardrailService,
+    CommunicationIndexService,
+    LlmProviderSettingsService,
+    LlmUsageService,
+    ChatEvaluationService,
+    SearchWeakSignalsTool,
+    GetIncidentTool,
+    SearchJiraIssuesTool,
+    SearchCommunicationsTool,
+    GetMetricValuesTool,
+    GetTeamImpactTool,
+    TraverseGraphTool,
+  ],
+  exports: [ChatbotService, OpenAIService, CommunicationIndexService],
 })
 export class ChatbotModule {}
@@ -0,0 +1,307 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext, INestApplication, ValidationPipe } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import request from 'supertest';
+import { ChatbotController } from './chatbot.controller';
+import { ChatbotService } from '../services/chatbot.service';
+import { ConversationService } from '../services/conversation.service';
+import { LlmProviderSettingsService } from '../services/llm-provider-settings.service';
+import { LlmUsageService } from '../services/llm-usage.service';
+import { ChatEvaluationService } from '../services/chat-evaluation.service';
+import { ChatToolRegistryService } from '../services/chat-tool-registry.service';
+import { ChatCitationService } from '../services/chat-citation.service';
+import { ChatGuardrailService } from '../services/chat-guardrail.service';
+import { OpenAIService } from '../services/openai.service';
+import { SearchWeakSignalsTool } from '../tools/search-weak-signals.tool';
+import { GetIncidentTool } from '../tools/get-incident.tool';
+import { SearchJiraIssuesTool } from '../tools/search-jira-issues.tool';
+import { SearchCommunicationsTool } from '../tools/search-communications.tool';
+import { GetMetricValuesTool } from '../tools/get-metric-values.tool';
+import { GetTeamImpactTool } from '../tools/get-team-impact.tool';
+import { TraverseGraphTool } from '../tools/traverse-graph.tool';
+import { Conversation } from '../entities/conversation.entity';
+import { ChatMessageFeedback } from '../entities/chat-message-feedback.entity';
+import { FakeLlmProvider } from '../providers/fake-llm.provider';
+import { MeteredLlmProvider } from '../providers/metered-llm.provider';
+import { LlmUsageContext } from '../interfaces/llm-usage.interface';
+import { PiiDetectionService } from '../../privacy/services/pii-detection.service';
+import { PiiDetectionLog } from '../../privacy/entities/pii-detection-log.entity';
+import { AuditService } from '../../audit/audit.service';
+import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
+import { RequestWithUser } from '../../../common/interfaces';
+
+/**
+ * The controller behind HTTP with the real chat and session services. request.user has the
+ * shape JwtStrategy.validate returns; only the repositories and the model are faked.
+ */
+describe('ChatbotController', () => {
+  let app: INestApplication;
+
+  const owner: RequestWithUser['user'] = { id: 7, email: 'owner@acme.test', tenantId: 1, role: 'user', permissions: [] };
+  const colleague: RequestWithUser['user'] = { id: 8, email: 'colleague@acme.test', tenantId: 1, role: 'user', permissions: [] };
+  const admin: RequestWithUser['user'] = { id: 9, email: 'admin@acme.test', tenantId: 1, role: 'admin', permissions: [] };
+  let currentUser: RequestWithUser['user'];
+
+  let conversations: Conversation[];
+
+  // Like TypeORM, conditions whose value is undefined are left out of the query
+  const matches = (row: Conversation, where: Record<string, unknown>) =>
+    Object.entries(where).every(([key, value]) => value === undefined || row[key as keyof Conversation] === value);
+
+  const sessionsQueryBuilder: Record<string, jest.Mock> = {};
+  for (const method of ['where', 'andWhere', 'orderBy', 'addOrderBy', 'skip', 'take']) {
+    sessionsQueryBuilder[method] = jest.fn().mockReturnThis();
+  }
+  sessionsQueryBuilder.getManyAndCount = jest.fn(async () => [[], 0]);
+
+  const mockConversationRepository = {
+    createQueryBuilder: jest.fn(() => sessionsQueryBuilder),
+    findOne: jest.fn(async ({ where }: { where: Record<string, unknown> }) => conversations.find(row => matches(row, where)) ?? null),
+    create: jest.fn((data: Partial<Conversation>) => ({ isPinned: false, summarizedMessages: 0, ...data }) as Conversation),
+    save: jest.fn(async (conversation: Conversation) => {
+      if (!conversations.includes(conversation)) {
+        conversations.push(conversation);
+      }
+      return conversation;
+    }),
+    delete: jest.fn(async (where: Record<string, unknown>) => {
+      const remaining = conversations.filter(row => !matches(row, where));
+      const affected = conversations.length - remaining.length;
+      conversations = remaining;
+      return { affected };
+    }),
+  };
+  const mockFeedbackRepository = {
+    find: jest.fn(async () => []),
+    findOne: jest.fn(async () => null),
+    create: jest.fn((data: Partial<ChatMessageFeedback>) => ({ ...data }) as ChatMessageFeedback),
+    save: jest.fn(async (feedback: ChatMessageFeedback) => feedback),
+    delete: jest.fn(async () => ({ affected: 0 })),
+  };
+  const mockProviderSettingsService = {
+    saveSettings: jest.fn(async () => ({ provider: 'openai' })),
+  };
+  const mockEvaluationService = {
+    run: jest.fn(async () => ({ id: 1 })),
+  };
+  const mockUsageService = {
+    assertWithinQuota: jest.fn(async () => undefined),
+    record: jest.fn(async () => undefined),
+  };
+  const mockOpenAIService = {
+    forTenant: jest.fn(async (tenantId: number, context: LlmUsageContext) =>
+      new MeteredLlmProvider(new FakeLlmProvider(), mockUsageService as unknown as LlmUsageService, tenantId, context)),
+  };
+
+  const toolDefinition = (name: string) => ({ definition: { name, description: '', parameters: { type: 'object', properties: {} } } });
+
+  const ownedSession = (): Conversation =>
+    ({
+      id: 3,
+      tenantId: 1,
+      userId: owner.id,
+      sessionId: 'session-1',
+      title: 'Payments outage',
+      isPinned: false,
+      archivedAt: null,
+      summarizedMessages: 0,
+      messages: [
+        { role: 'user', content: 'Is payments down?', timestamp: '2026-10-19T08:00:00.000Z' },
+        { role: 'assistant', content: 'No incidents right now.', timestamp: '2026-10-19T08:00:01.000Z' },
+      ],
+      metadata: {},
+      lastMessageAt: new Date('2026-10-19T08:00:01.000Z'),
+    }) as unknown as Conversation;
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ChatbotController],
+      providers: [
+        ChatbotService,
+        ConversationService,
+        ChatToolRegistryService,
+        ChatCitationService,
+        ChatGuardrailService,
+        PiiDetectionService,
+        { provide: getRepositoryToken(Conversation), useValue: mockConversationRepository },
+        { provide: getRepositoryToken(ChatMessageFeedback), useValue: mockFeedbackRepository },
+        { provide: getRepositoryToken(PiiDetectionLog), useValue: { create: jest.fn(), save: jest.fn() } },
+        { provide: OpenAIService, useValue: mockOpenAIService },
+        { provide: ConfigService, useValue: { get: jest.fn((_key: string, defaultValue?: string) => defaultValue) } },
+        { provide: AuditService, useValue: { log: jest.fn() } },
+        { provide: LlmProviderSettingsService, useValue: mockProviderSettingsService },
+        { provide: LlmUsageService, useValue: mockUsageService },
+        { provide: ChatEvaluationService, useValue: mockEvaluationService },
+        { provide: SearchWeakSignalsTool, useValue: toolDefinition('search_weak_signals') },
+        { provide: GetIncidentTool, useValue: toolDefinition('get_incident') },
+        { provide: SearchJiraIssuesTool, useValue: toolDefinition('search_jira_issues') },
+        { provide: SearchCommunicationsTool, useValue: toolDefinition('search_communications') },
+        { provide: GetMetricValuesTool, useValue: toolDefinition('get_metric_values') },
+        { provide: GetTeamImpactTool, useValue: toolDefinition('get_team_impact') },
+        { provide: TraverseGraphTool, useValue: toolDefinition('traverse_graph') },
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({
+        canActivate: (context: ExecutionContext) => {
+          context.switchToHttp().getRequest().user = currentUser;
+          return true;
+        },
+      })
+      .compile();
+
+    app = module.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({ whitelist: true, transform: true, transformOptions: { enableImplicitConversion: true } }));
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    currentUser = owner;
+    conversations = [ownedSession()];
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('chat', () => {
+    it('should answer a follow-up in a session of the user', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/chatbot/chat')
+        .send({ message: 'And checkout?', sessionId: 'session-1' })
+        .expect(200);
+
+      expect(response.body.sessionId).toBe('session-1');
+      expect(conversations).toHaveLength(1);
+      expect(conversations[0].messages.map(message => message.content)).toEqual([
+        'Is payments down?',
+        'No incidents right now.',
+        'And checkout?',
+        'Fake answer to: And checkout?',
+      ]);
+    });
+
+    it('should start new sessions for the user', async () => {
+      const response = await request(app.getHttpServer()).post('/chatbot/chat').send({ message: 'Hello' }).expect(200);
+
+      expect(conversations.find(row => row.sessionId === response.body.sessionId)).toMatchObject({ tenantId: 1, userId: owner.id });
+    });
+
+    it('should record the usage of the answer for the user', async () => {
+      await request(app.getHttpServer()).post('/chatbot/chat').send({ message: 'Hello' }).expect(200);
+
+      expect(mockUsageService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ tenantId: 1, userId: owner.id, feature: 'chat', success: true }),
+      );
+    });
+
+    it('should record the usage of a streamed answer for the user', async () => {
+      const response = await request(app.getHttpServer()).post('/chatbot/chat-stream').send({ message: 'Hello' }).expect(201);
+
+      expect(response.text).toContain('"type":"done"');
+      expect(mockUsageService.assertWithinQuota).toHaveBeenCalledWith(1);
+      expect(mockUsageService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ tenantId: 1, userId: owner.id, feature: 'chat', success: true }),
+      );
+    });
+
+    it('should not let another user of the tenant continue the session', async () => {
+      currentUser = colleague;
+
+      await request(app.getHttpServer())
+        .post('/chatbot/chat')
+        .send({ message: 'What did they ask?', sessionId: 'session-1' })
+        .expect(404);
+      expect(conversations[0].messages).toHaveLength(2);
+    });
+  });
+
+  describe('sessions', () => {
+    it('should list the sessions of the user', async () => {
+      await request(app.getHttpServer()).get('/chatbot/sessions').expect(200);
+
+      expect(sessionsQueryBuilder.andWhere).toHaveBeenCalledWith('conversation.userId = :userId', { userId: owner.id });
+    });
+
+    it('should return the session to its owner', async () => {
+      const response = await request(app.getHttpServer()).get('/chatbot/sessions/session-1').expect(200);
+
+      expect(response.body.messages).toHaveLength(2);
+    });
+
+    it('should hide the session from other users of the tenant', async () => {
+      currentUser = colleague;
+      const server = app.getHttpServer();
+
+      await request(server).get('/chatbot/sessions/session-1').expect(404);
+      await request(server).get('/chatbot/conversation/session-1').expect(404);
+      await request(server).patch('/chatbot/sessions/session-1').send({ title: 'Mine now', archived: true }).expect(404);
+      await request(server).delete('/chatbot/sessions/session-1').expect(404);
+      await request(server).delete('/chatbot/conversation/session-1').expect(404);
+
+      expect(conversations).toEqual([ownedSession()]);
+    });
+
+    it('should let the owner rename and delete the session', async () => {
+      const server = app.getHttpServer();
+
+      await request(server).patch('/chatbot/sessions/session-1').send({ title: 'Checkout' }).expect(200);
+      expect(conversations[0].title).toBe('Checkout');
+
+      await request(server).delete('/chatbot/sessions/session-1').expect(204);
+      expect(conversations).toEqual([]);
+    });
+  });
+
+  describe('llm-provider', () => {
+    it('should save the settings as changed by the admin', async () => {
+      currentUser = admin;
+
+      await request(app.getHttpServer()).put('/chatbot/llm-provider').send({ provider: 'openai', model: 'gpt-4o' }).expect(200);
+
+      expect(mockProviderSettingsService.saveSettings).toHaveBeenCalledWith(1, { provider: 'openai', model: 'gpt-4o' }, admin.id);
+    });
+
+    it('should not let other users change the settings', async () => {
+      await request(app.getHttpServer()).put('/chatbot/llm-provider').send({ provider: 'openai' }).expect(403);
+
+      expect(mockProviderSettingsService.saveSettings).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('feedback', () => {
+    it('should store the rating as given by the user', async () => {
+      await request(app.getHttpServer()).put('/chatbot/sessions/session-1/messages/1/feedback').send({ rating: 'up' }).expect(200);
+
+      expect(mockFeedbackRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ tenantId: 1, conversationId: 3, userId: owner.id, messageIndex: 1, rating: 'up' }),
+      );
+    });
+
+    it('should not let another user of the tenant rate or unrate the session', async () => {
+      currentUser = colleague;
+      const server = app.getHttpServer();
+
+      await request(server).put('/chatbot/sessions/session-1/messages/1/feedback').send({ rating: 'down' }).expect(404);
+      await request(server).delete('/chatbot/sessions/session-1/messages/1/feedback').expect(404);
+
+      expect(mockFeedbackRepository.save).not.toHaveBeenCalled();
+      expect(mockFeedbackRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('evaluations', () => {
+    it('should run the evaluation as the admin', async () => {
+      currentUser = admin;
+
+      await request(app.getHttpServer()).post('/chatbot/evaluations').send({ label: 'Shorter answers' }).expect(201);
+
+      expect(mockEvaluationService.run).toHaveBeenCalledWith(1, admin.id, expect.objectContaining({ label: 'Shorter answers' }));
+    });
+  });
+});
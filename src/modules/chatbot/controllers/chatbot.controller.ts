@@ -1,18 +1,50 @@
-import { Controller, Post, Get, Delete, Body, Param, UseGuards, HttpCode, HttpStatus, Sse, MessageEvent } from '@nestjs/common';
+import { Controller, Post, Get, Put, Patch, Delete, Body, Param, Query, UseGuards, HttpCode, HttpStatus, Sse, MessageEvent, ParseIntPipe } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { Observable } from 'rxjs';
 import { ChatbotService } from '../services/chatbot.service';
-import { ChatMessageDto, ChatResponseDto } from '../dto/chat-message.dto';
+import { ConversationService } from '../services/conversation.service';
+import { LlmProviderSettingsService } from '../services/llm-provider-settings.service';
+import { LlmUsageService } from '../services/llm-usage.service';
+import { ChatEvaluationService } from '../services/chat-evaluation.service';
+import { ChatMessageDto, ChatResponseDto, ChatSourcesDto, ChatCitationDto, MessageHistoryDto } from '../dto/chat-message.dto';
+import {
+  ConversationDetailDto,
+  ConversationListDto,
+  ConversationSessionDto,
+  FeedbackListDto,
+  GetConversationsQueryDto,
+  GetFeedbackQueryDto,
+  MessageFeedbackDto,
+  SetMessageFeedbackDto,
+  UpdateConversationDto,
+} from '../dto/conversation.dto';
+import { LlmProviderSettingsDto, UpdateLlmProviderSettingsDto } from '../dto/llm-provider-settings.dto';
+import { GetLlmUsageReportQueryDto, LlmQuotaDto, LlmUsageReportDto } from '../dto/llm-usage.dto';
+import {
+  ChatEvaluationRunDto,
+  ChatEvaluationRunListDto,
+  GetChatEvaluationsQueryDto,
+  RunChatEvaluationDto,
+} from '../dto/chat-evaluation.dto';
 import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../common/guards/roles.guard';
+import { Roles } from '../../../common/decorators/roles.decorator';
 import { CurrentUser } from '../../../common/decorators';
-import { JwtPayload } from '../../../common/interfaces';
+import { RequestWithUser } from '../../../common/interfaces';
+import { UserRole } from '../../../common/enums';
 
 @ApiTags('Chatbot')
 @Controller('chatbot')
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth('JWT')
 export class ChatbotController {
-  constructor(private readonly chatbotService: ChatbotService) {}
+  constructor(
+    private readonly chatbotService: ChatbotService,
+    private readonly conversationService: ConversationService,
+    private readonly llmProviderSettingsService: LlmProviderSettingsService,
+    private readonly llmUsageService: LlmUsageService,
+    private readonly chatEvaluationService: ChatEvaluationService,
+  ) {}
 
   @Post('chat')
   @HttpCode(HttpStatus.OK)
@@ -23,9 +55,10 @@ export class ChatbotController {
     type: ChatResponseDto,
   })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 429, description: 'Monthly AI usage quota used up' })
   @ApiResponse({ status: 500, description: 'Failed to generate response' })
-  async chat(@CurrentUser() user: JwtPayload, @Body() chatDto: ChatMessageDto): Promise<ChatResponseDto> {
-    return await this.chatbotService.chat(user.tenantId, user.sub, chatDto);
+  async chat(@CurrentUser() user: RequestWithUser['user'], @Body() chatDto: ChatMessageDto): Promise<ChatResponseDto> {
+    return await this.chatbotService.chat(user.tenantId, user.id, chatDto);
   }
 
   @Post('chat-stream')
@@ -33,13 +66,17 @@ export class ChatbotController {
   @ApiOperation({ summary: 'Stream AI chatbot responses in real-time using Server-Sent Events' })
   @ApiResponse({ status: 200, description: 'Streaming response' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 429, description: 'Monthly AI usage quota used up' })
   @ApiResponse({ status: 500, description: 'Failed to generate streaming response' })
-  async chatStream(@CurrentUser() user: JwtPayload, @Body() chatDto: ChatMessageDto): Promise<Observable<MessageEvent>> {
+  async chatStream(@CurrentUser() user: RequestWithUser['user'], @Body() chatDto: ChatMessageDto): Promise<Observable<MessageEvent>> {
+    // Checked before the stream opens so that the client gets a 429 instead of an error event
+    await this.llmUsageService.assertWithinQuota(user.tenantId);
+
     return new Observable((subscriber) => {
       this.chatbotService
         .chatStream(
           user.tenantId,
-          user.sub,
+          user.id,
           chatDto,
           // onToken callback
           (token: string) => {
@@ -52,7 +89,7 @@ export class ChatbotController {
             }
           },
           // onMetadata callback
-          (metadata: { sessionId: string; sources: any }) => {
+          (metadata: { sessionId: string; sources: ChatSourcesDto }) => {
             try {
               subscriber.next({
                 data: { type: 'metadata', ...metadata },
@@ -61,6 +98,16 @@ export class ChatbotController {
               console.error('[ChatStream] Error sending metadata:', err);
             }
           },
+          // onCitations callback
+          (citations: ChatCitationDto[]) => {
+            try {
+              subscriber.next({
+                data: { type: 'citations', citations },
+              } as MessageEvent);
+            } catch (err) {
+              console.error('[ChatStream] Error sending citations:', err);
+            }
+          },
         )
         .then(() => {
           try {
@@ -91,18 +138,172 @@ export class ChatbotController {
     });
   }
 
+  @Get('sessions')
+  @ApiOperation({ summary: 'List chat sessions of the current user, pinned first' })
+  @ApiResponse({ status: 200, type: ConversationListDto })
+  async listSessions(@CurrentUser() user: RequestWithUser['user'], @Query() query: GetConversationsQueryDto): Promise<ConversationListDto> {
+    return await this.conversationService.listSessions(user.tenantId, user.id, query);
+  }
+
+  @Get('sessions/:sessionId')
+  @ApiOperation({ summary: 'Get a chat session with its messages' })
+  @ApiResponse({ status: 200, type: ConversationDetailDto })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async getSession(@CurrentUser() user: RequestWithUser['user'], @Param('sessionId') sessionId: string): Promise<ConversationDetailDto> {
+    return await this.conversationService.getSession(user.tenantId, user.id, sessionId);
+  }
+
+  @Patch('sessions/:sessionId')
+  @ApiOperation({ summary: 'Rename, pin or archive a chat session' })
+  @ApiResponse({ status: 200, type: ConversationSessionDto })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async updateSession(
+    @CurrentUser() user: RequestWithUser['user'],
+    @Param('sessionId') sessionId: string,
+    @Body() dto: UpdateConversationDto,
+  ): Promise<ConversationSessionDto> {
+    return await this.conversationService.updateSession(user.tenantId, user.id, sessionId, dto);
+  }
+
+  @Delete('sessions/:sessionId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a chat session' })
+  @ApiResponse({ status: 204, description: 'Session deleted' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async deleteSession(@CurrentUser() user: RequestWithUser['user'], @Param('sessionId') sessionId: string): Promise<void> {
+    await this.conversationService.deleteSession(user.tenantId, user.id, sessionId);
+  }
+
+  @Put('sessions/:sessionId/messages/:messageIndex/feedback')
+  @ApiOperation({ summary: 'Rate an answer with thumbs up or down and an optional comment' })
+  @ApiResponse({ status: 200, type: MessageFeedbackDto })
+  @ApiResponse({ status: 400, description: 'The message is not an answer of the assistant' })
+  @ApiResponse({ status: 404, description: 'Session or message not found' })
+  async setMessageFeedback(
+    @CurrentUser() user: RequestWithUser['user'],
+    @Param('sessionId') sessionId: string,
+    @Param('messageIndex', ParseIntPipe) messageIndex: number,
+    @Body() dto: SetMessageFeedbackDto,
+  ): Promise<MessageFeedbackDto> {
+    return await this.conversationService.setFeedback(user.tenantId, user.id, sessionId, messageIndex, dto);
+  }
+
+  @Delete('sessions/:sessionId/messages/:messageIndex/feedback')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remove the rating of an answer' })
+  @ApiResponse({ status: 204, description: 'Feedback removed' })
+  @ApiResponse({ status: 404, description: 'Session or feedback not found' })
+  async removeMessageFeedback(
+    @CurrentUser() user: RequestWithUser['user'],
+    @Param('sessionId') sessionId: string,
+    @Param('messageIndex', ParseIntPipe) messageIndex: number,
+  ): Promise<void> {
+    await this.conversationService.removeFeedback(user.tenantId, user.id, sessionId, messageIndex);
+  }
+
+  @Get('feedback')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiOperation({ summary: 'List feedback on chatbot answers across the tenant, newest first' })
+  @ApiResponse({ status: 200, type: FeedbackListDto })
+  @ApiResponse({ status: 403, description: 'Admins only' })
+  async listFeedback(@CurrentUser() user: RequestWithUser['user'], @Query() query: GetFeedbackQueryDto): Promise<FeedbackListDto> {
+    return await this.conversationService.listFeedback(user.tenantId, query);
+  }
+
   @Get('conversation/:sessionId')
-  @ApiOperation({ summary: 'Get conversation history by session ID' })
+  @ApiOperation({ summary: 'Get conversation history by session ID', deprecated: true })
   @ApiResponse({ status: 200, description: 'Conversation history retrieved' })
-  async getConversationHistory(@CurrentUser() user: JwtPayload, @Param('sessionId') sessionId: string) {
-    return await this.chatbotService.getConversationHistory(user.tenantId, sessionId);
+  async getConversationHistory(@CurrentUser() user: RequestWithUser['user'], @Param('sessionId') sessionId: string): Promise<MessageHistoryDto[]> {
+    const session = await this.conversationService.getSession(user.tenantId, user.id, sessionId);
+    return session.messages.map(message => ({ role: message.role, content: message.content }));
   }
 
   @Delete('conversation/:sessionId')
   @HttpCode(HttpStatus.NO_CONTENT)
-  @ApiOperation({ summary: 'Delete a conversation session' })
+  @ApiOperation({ summary: 'Delete a conversation session', deprecated: true })
   @ApiResponse({ status: 204, description: 'Conversation deleted successfully' })
-  async deleteConversation(@CurrentUser() user: JwtPayload, @Param('sessionId') sessionId: string): Promise<void> {
-    await this.chatbotService.deleteConversation(user.tenantId, sessionId);
+  async deleteConversation(@CurrentUser() user: RequestWithUser['user'], @Param('sessionId') sessionId: string): Promise<void> {
+    await this.conversationService.deleteSession(user.tenantId, user.id, sessionId);
+  }
+
+  @Get('llm-provider')
+  @ApiOperation({ summary: 'Get the language model provider used for this tenant' })
+  @ApiResponse({ status: 200, description: 'Provider settings retrieved', type: LlmProviderSettingsDto })
+  async getLlmProvider(@CurrentUser() user: RequestWithUser['user']): Promise<LlmProviderSettingsDto> {
+    return this.llmProviderSettingsService.getSettings(user.tenantId);
+  }
+
+  @Put('llm-provider')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiOperation({ summary: 'Choose the language model provider for this tenant, e.g. its own Azure OpenAI resource' })
+  @ApiResponse({ status: 200, description: 'Provider settings saved', type: LlmProviderSettingsDto })
+  @ApiResponse({ status: 400, description: 'Incomplete provider settings' })
+  @ApiResponse({ status: 403, description: 'Admins only' })
+  async updateLlmProvider(
+    @CurrentUser() user: RequestWithUser['user'],
+    @Body() dto: UpdateLlmProviderSettingsDto,
+  ): Promise<LlmProviderSettingsDto> {
+    return this.llmProviderSettingsService.saveSettings(user.tenantId, dto, user.id);
+  }
+
+  @Delete('llm-provider')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiOperation({ summary: 'Go back to the default language model provider' })
+  @ApiResponse({ status: 200, description: 'Provider settings reset', type: LlmProviderSettingsDto })
+  @ApiResponse({ status: 403, description: 'Admins only' })
+  async resetLlmProvider(@CurrentUser() user: RequestWithUser['user']): Promise<LlmProviderSettingsDto> {
+    return this.llmProviderSettingsService.resetSettings(user.tenantId);
+  }
+
+  @Get('usage')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiOperation({ summary: 'Get language model usage and estimated cost of this tenant, by day, user, model or feature' })
+  @ApiResponse({ status: 200, description: 'Usage report retrieved', type: LlmUsageReportDto })
+  @ApiResponse({ status: 403, description: 'Admins only' })
+  async getUsage(@CurrentUser() user: RequestWithUser['user'], @Query() query: GetLlmUsageReportQueryDto): Promise<LlmUsageReportDto> {
+    return this.llmUsageService.getReport(user.tenantId, query);
+  }
+
+  @Get('usage/quota')
+  @ApiOperation({ summary: 'Get the monthly AI usage quota of this tenant and how much of it is used' })
+  @ApiResponse({ status: 200, description: 'Quota retrieved', type: LlmQuotaDto })
+  async getUsageQuota(@CurrentUser() user: RequestWithUser['user']): Promise<LlmQuotaDto> {
+    return this.llmUsageService.getQuotaStatus(user.tenantId);
+  }
+
+  @Post('evaluations')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiOperation({ summary: 'Replay the golden question set through the chatbot and store the scores' })
+  @ApiResponse({ status: 201, description: 'Evaluation run completed', type: ChatEvaluationRunDto })
+  @ApiResponse({ status: 403, description: 'Admins only' })
+  @ApiResponse({ status: 429, description: 'Monthly AI usage quota exceeded (tenant model only)' })
+  async runEvaluation(@CurrentUser() user: RequestWithUser['user'], @Body() dto: RunChatEvaluationDto): Promise<ChatEvaluationRunDto> {
+    return this.chatEvaluationService.run(user.tenantId, user.id, dto);
+  }
+
+  @Get('evaluations')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiOperation({ summary: 'List evaluation runs, newest first, to compare scores across prompt versions' })
+  @ApiResponse({ status: 200, type: ChatEvaluationRunListDto })
+  @ApiResponse({ status: 403, description: 'Admins only' })
+  async listEvaluations(@CurrentUser() user: RequestWithUser['user'], @Query() query: GetChatEvaluationsQueryDto): Promise<ChatEvaluationRunListDto> {
+    return this.chatEvaluationService.listRuns(user.tenantId, query);
+  }
+
+  @Get('evaluations/:id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiOperation({ summary: 'Get an evaluation run with the result of each case and its regressions' })
+  @ApiResponse({ status: 200, type: ChatEvaluationRunDto })
+  @ApiResponse({ status: 403, description: 'Admins only' })
+  @ApiResponse({ status: 404, description: 'Run not found' })
+  async getEvaluation(@CurrentUser() user: RequestWithUser['user'], @Param('id', ParseIntPipe) id: number): Promise<ChatEvaluationRunDto> {
+    return this.chatEvaluationService.getRun(user.tenantId, id);
   }
 }
@@ -0,0 +1,154 @@
+import { IsOptional, IsIn, IsString, IsInt, Min, Max, MaxLength } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CHAT_EVALUATION_LLMS, ChatEvaluationLlm } from '../interfaces/chat-evaluation.interface';
+import { LLM_PROVIDER_NAMES, LlmProviderName } from '../interfaces/llm-provider.interface';
+
+export class RunChatEvaluationDto {
+  @ApiPropertyOptional({ description: 'Name of the run, e.g. the prompt change being tested', example: 'Shorter answers' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  label?: string;
+
+  @ApiPropertyOptional({
+    enum: CHAT_EVALUATION_LLMS,
+    default: 'fake',
+    description: 'fake replays the scripted answers of each case; tenant asks the tenant\'s model and counts against its quota',
+  })
+  @IsOptional()
+  @IsIn(CHAT_EVALUATION_LLMS)
+  llm?: ChatEvaluationLlm = 'fake';
+}
+
+export class GetChatEvaluationsQueryDto {
+  @ApiPropertyOptional({ description: 'Only runs of this prompt version' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  promptVersion?: string;
+
+  @ApiPropertyOptional({ enum: CHAT_EVALUATION_LLMS })
+  @IsOptional()
+  @IsIn(CHAT_EVALUATION_LLMS)
+  llm?: ChatEvaluationLlm;
+
+  @ApiPropertyOptional({ description: 'Page number', example: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ description: 'Items per page', example: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+export class ChatEvaluationCaseResultDto {
+  @ApiProperty()
+  caseId: string;
+
+  @ApiProperty({ description: 'All expected refs retrieved and every citation expected, without errors' })
+  passed: boolean;
+
+  @ApiProperty({ description: 'Share of the expected refs returned by the tools the model called' })
+  retrievalHitRate: number;
+
+  @ApiProperty({ description: 'Share of the refs cited in the answer that are expected' })
+  citationPrecision: number;
+
+  @ApiProperty({ description: 'Share of the expected refs cited in the answer' })
+  citationRecall: number;
+
+  @ApiProperty({ type: [String], description: 'Tools called, in order' })
+  toolCalls: string[];
+
+  @ApiProperty({ type: [String] })
+  retrievedRefs: string[];
+
+  @ApiProperty({ type: [String] })
+  citedRefs: string[];
+
+  @ApiProperty({ type: [String], description: 'Refs written in the answer that no tool returned' })
+  unresolvedRefs: string[];
+
+  @ApiProperty()
+  answer: string;
+
+  @ApiProperty({ nullable: true })
+  error: string | null;
+}
+
+export class ChatEvaluationRunSummaryDto {
+  @ApiProperty()
+  id: number;
+
+  @ApiProperty({ nullable: true })
+  label: string | null;
+
+  @ApiProperty({ description: 'Hash of the system prompt and tool definitions the run used' })
+  promptVersion: string;
+
+  @ApiProperty({ enum: CHAT_EVALUATION_LLMS })
+  llm: ChatEvaluationLlm;
+
+  @ApiProperty({ enum: LLM_PROVIDER_NAMES })
+  provider: LlmProviderName;
+
+  @ApiProperty()
+  model: string;
+
+  @ApiProperty()
+  caseCount: number;
+
+  @ApiProperty()
+  passedCount: number;
+
+  @ApiProperty({ description: 'Average over the cases, between 0 and 1' })
+  retrievalHitRate: number;
+
+  @ApiProperty({ description: 'Average over the cases, between 0 and 1' })
+  citationPrecision: number;
+
+  @ApiProperty({ description: 'Average over the cases, between 0 and 1' })
+  citationRecall: number;
+
+  @ApiProperty({ nullable: true })
+  createdBy: number | null;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class ChatEvaluationRunDto extends ChatEvaluationRunSummaryDto {
+  @ApiProperty({ type: [ChatEvaluationCaseResultDto] })
+  results: ChatEvaluationCaseResultDto[];
+
+  @ApiProperty({ nullable: true, description: 'Previous run with the same model, compared against for regressions' })
+  previousRunId: number | null;
+
+  @ApiProperty({ type: [String], description: 'Cases that passed in the previous run and fail in this one' })
+  regressions: string[];
+}
+
+export class ChatEvaluationRunListDto {
+  @ApiProperty({ type: [ChatEvaluationRunSummaryDto] })
+  runs: ChatEvaluationRunSummaryDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  limit: number;
+
+  @ApiProperty()
+  totalPages: number;
+}
@@ -1,6 +1,7 @@
 import { IsString, IsNotEmpty, IsOptional, IsArray, ValidateNested } from 'class-validator';
 import { Type, Transform } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CitationSourceType } from '../interfaces/citation.interface';
 
 export class MessageHistoryDto {
   @ApiProperty({ enum: ['user', 'assistant', 'system'] })
@@ -23,7 +24,14 @@ export class ChatMessageDto {
   @IsNotEmpty()
   message: string;
 
-  @ApiPropertyOptional({ description: 'Conversation history for context', type: [MessageHistoryDto] })
+  /**
+   * Accepted for older clients only; the history is loaded from the session on the server
+   */
+  @ApiPropertyOptional({
+    description: 'Ignored. The server loads the history of the session',
+    type: [MessageHistoryDto],
+    deprecated: true,
+  })
   @IsOptional()
   @Transform(({ value }) => {
     // Handle both array and object formats (e.g., {"0": {...}, "1": {...}})
@@ -40,12 +48,95 @@ export class ChatMessageDto {
   @Type(() => MessageHistoryDto)
   conversationHistory?: MessageHistoryDto[];
 
-  @ApiPropertyOptional({ description: 'Session ID for maintaining conversation context' })
+  @ApiPropertyOptional({ description: 'Session to continue; a new session is started when omitted' })
   @IsOptional()
   @IsString()
   sessionId?: string;
 }
 
+export class ChatSourcesDto {
+  @ApiProperty({ description: 'Weak signals returned by the tools' })
+  signals: number;
+
+  @ApiProperty()
+  incidents: number;
+
+  @ApiProperty()
+  issues: number;
+
+  @ApiProperty()
+  slackMessages: number;
+
+  @ApiProperty()
+  teamsMessages: number;
+
+  @ApiProperty({ description: 'Gmail and Outlook messages returned by the tools' })
+  emails: number;
+
+  @ApiProperty({ description: 'Metric values returned by the tools' })
+  metrics: number;
+
+  @ApiProperty()
+  teams: number;
+
+  @ApiProperty({ description: 'Relationship graph nodes returned by the tools' })
+  graphNodes: number;
+}
+
+export class CitationSpanDto {
+  @ApiProperty({ description: 'Offset of the first supported character in the response' })
+  start: number;
+
+  @ApiProperty({ description: 'Offset after the last supported character' })
+  end: number;
+
+  @ApiProperty()
+  text: string;
+}
+
+export class ChatCitationDto {
+  @ApiProperty({ description: 'Reference as written in the response, e.g. INC0010123, PROJ-123, signal:42 or slack:7' })
+  ref: string;
+
+  @ApiProperty({
+    enum: [
+      'weak_signal',
+      'servicenow_incident',
+      'jira_issue',
+      'slack_message',
+      'teams_message',
+      'email_message',
+      'metric',
+      'team',
+      'graph_node',
+    ],
+  })
+  type: CitationSourceType;
+
+  @ApiProperty()
+  sourceId: string;
+
+  @ApiProperty()
+  title: string;
+
+  @ApiProperty({ nullable: true, description: 'Link to the record in NexSentia or its source system' })
+  url: string | null;
+
+  @ApiProperty({ type: [CitationSpanDto] })
+  spans: CitationSpanDto[];
+}
+
+export class ChatToolCallDto {
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ description: 'Validated arguments, null when the call was rejected' })
+  arguments: Record<string, unknown> | null;
+
+  @ApiProperty({ nullable: true })
+  error: string | null;
+}
+
 export class ChatResponseDto {
   @ApiProperty()
   response: string;
@@ -53,13 +144,14 @@ export class ChatResponseDto {
   @ApiProperty()
   sessionId: string;
 
-  @ApiProperty({ description: 'Data sources used to generate the response' })
-  sources: {
-    signals?: number;
-    incidents?: number;
-    issues?: number;
-    metrics?: number;
-  };
+  @ApiProperty({ description: 'Data sources used to generate the response', type: ChatSourcesDto })
+  sources: ChatSourcesDto;
+
+  @ApiProperty({ description: 'Records the response cites, with the parts of the response they support', type: [ChatCitationDto] })
+  citations: ChatCitationDto[];
+
+  @ApiProperty({ description: 'Tools the model called to answer, in call order', type: [ChatToolCallDto] })
+  toolCalls: ChatToolCallDto[];
 
   @ApiProperty()
   timestamp: Date;
@@ -71,22 +163,21 @@ export class ChatResponseDto {
  * The streaming endpoint sends different event types:
  *
  * 1. metadata: { type: 'metadata', sessionId: string, sources: {...} }
- *    - Sent first with session and source information
+ *    - Sent first with session and source information, and again after each round of tool calls
  *
  * 2. token: { type: 'token', content: string }
  *    - Sent for each token/word as it's generated
  *
- * 3. done: { type: 'done' }
+ * 3. citations: { type: 'citations', citations: [...] }
+ *    - Sent once the response is complete; span offsets refer to the concatenated tokens
+ *
+ * 4. done: { type: 'done' }
  *    - Sent when streaming is complete
  */
 export interface StreamEvent {
-  type: 'metadata' | 'token' | 'done';
+  type: 'metadata' | 'token' | 'citations' | 'done';
   content?: string;
   sessionId?: string;
-  sources?: {
-    signals?: number;
-    incidents?: number;
-    issues?: number;
-    metrics?: number;
-  };
+  sources?: ChatSourcesDto;
+  citations?: ChatCitationDto[];
 }
@@ -0,0 +1,22 @@
+import 'reflect-metadata';
+import { plainToInstance } from 'class-transformer';
+import { GetConversationsQueryDto } from './conversation.dto';
+
+/**
+ * Query strings are converted the way the global ValidationPipe does it
+ */
+const toQuery = (query: Record<string, string>) =>
+  plainToInstance(GetConversationsQueryDto, query, { enableImplicitConversion: true });
+
+describe('GetConversationsQueryDto', () => {
+  it.each([
+    ['true', true],
+    ['false', false],
+  ])('should read archived=%s as %s', (value, expected) => {
+    expect(toQuery({ archived: value }).archived).toBe(expected);
+  });
+
+  it('should list active sessions by default', () => {
+    expect(toQuery({}).archived).toBe(false);
+  });
+});
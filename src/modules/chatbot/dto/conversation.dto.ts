@@ -0,0 +1,236 @@
+import { IsString, IsOptional, IsBoolean, IsInt, Min, Max, MaxLength, IsNotEmpty, IsIn, IsDateString } from 'class-validator';
+import { Type, Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ChatCitationDto } from './chat-message.dto';
+import { CHAT_FEEDBACK_RATINGS, ChatFeedbackRating } from '../interfaces/conversation.interface';
+
+export class GetConversationsQueryDto {
+  @ApiPropertyOptional({ description: 'List archived sessions instead of active ones', default: false })
+  @IsOptional()
+  @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+  @IsBoolean()
+  archived?: boolean = false;
+
+  @ApiPropertyOptional({ description: 'Search in session titles' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  search?: string;
+
+  @ApiPropertyOptional({ description: 'Page number', example: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ description: 'Items per page', example: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+export class UpdateConversationDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  title?: string;
+
+  @ApiPropertyOptional({ description: 'Pinned sessions are listed first' })
+  @IsOptional()
+  @IsBoolean()
+  isPinned?: boolean;
+
+  @ApiPropertyOptional({ description: 'Archive or restore the session' })
+  @IsOptional()
+  @IsBoolean()
+  archived?: boolean;
+}
+
+export class ConversationSessionDto {
+  @ApiProperty()
+  sessionId: string;
+
+  @ApiProperty({ nullable: true })
+  title: string | null;
+
+  @ApiProperty()
+  isPinned: boolean;
+
+  @ApiProperty({ nullable: true })
+  archivedAt: Date | null;
+
+  @ApiProperty()
+  messageCount: number;
+
+  @ApiProperty({ description: 'Tokens used by the model in this session, summaries included' })
+  totalTokens: number;
+
+  @ApiProperty({ nullable: true })
+  lastMessageAt: Date | null;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class SetMessageFeedbackDto {
+  @ApiProperty({ enum: CHAT_FEEDBACK_RATINGS })
+  @IsIn(CHAT_FEEDBACK_RATINGS)
+  rating: ChatFeedbackRating;
+
+  @ApiPropertyOptional({ description: 'What was wrong or helpful in the answer', maxLength: 2000 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  comment?: string;
+}
+
+export class MessageFeedbackDto {
+  @ApiProperty({ enum: CHAT_FEEDBACK_RATINGS })
+  rating: ChatFeedbackRating;
+
+  @ApiProperty({ nullable: true })
+  comment: string | null;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export class ConversationMessageDto {
+  @ApiProperty({ description: 'Position of the message in the session, used to give feedback on answers' })
+  index: number;
+
+  @ApiProperty({ enum: ['user', 'assistant', 'system'] })
+  role: 'user' | 'assistant' | 'system';
+
+  @ApiProperty()
+  content: string;
+
+  @ApiProperty()
+  timestamp: string;
+
+  @ApiPropertyOptional({ type: [ChatCitationDto] })
+  citations?: ChatCitationDto[];
+
+  @ApiPropertyOptional({ type: MessageFeedbackDto, description: 'Feedback of the user on an answer' })
+  feedback?: MessageFeedbackDto;
+}
+
+export class ConversationDetailDto extends ConversationSessionDto {
+  @ApiProperty({ type: [ConversationMessageDto] })
+  messages: ConversationMessageDto[];
+}
+
+export class ConversationListDto {
+  @ApiProperty({ type: [ConversationSessionDto] })
+  sessions: ConversationSessionDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  limit: number;
+
+  @ApiProperty()
+  totalPages: number;
+}
+
+export class GetFeedbackQueryDto {
+  @ApiPropertyOptional({ enum: CHAT_FEEDBACK_RATINGS })
+  @IsOptional()
+  @IsIn(CHAT_FEEDBACK_RATINGS)
+  rating?: ChatFeedbackRating;
+
+  @ApiPropertyOptional({ example: '2026-10-01' })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({ example: '2026-10-31T23:59:59Z' })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({ description: 'Page number', example: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ description: 'Items per page', example: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+export class FeedbackEntryDto {
+  @ApiProperty()
+  id: number;
+
+  @ApiProperty()
+  sessionId: string;
+
+  @ApiProperty()
+  messageIndex: number;
+
+  @ApiProperty()
+  userId: number;
+
+  @ApiProperty({ enum: CHAT_FEEDBACK_RATINGS })
+  rating: ChatFeedbackRating;
+
+  @ApiProperty({ nullable: true })
+  comment: string | null;
+
+  @ApiProperty({ nullable: true, description: 'Question the rated answer replied to' })
+  question: string | null;
+
+  @ApiProperty({ nullable: true })
+  answer: string | null;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export class FeedbackSummaryDto {
+  @ApiProperty()
+  up: number;
+
+  @ApiProperty()
+  down: number;
+}
+
+export class FeedbackListDto {
+  @ApiProperty({ type: [FeedbackEntryDto] })
+  items: FeedbackEntryDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  limit: number;
+
+  @ApiProperty()
+  totalPages: number;
+
+  @ApiProperty({ type: FeedbackSummaryDto, description: 'Ratings in the period, whatever the rating filter' })
+  summary: FeedbackSummaryDto;
+}
@@ -0,0 +1,19 @@
+import 'reflect-metadata';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { UpdateLlmProviderSettingsDto } from './llm-provider-settings.dto';
+
+const providerErrors = async (provider: string) => {
+  const errors = await validate(plainToInstance(UpdateLlmProviderSettingsDto, { provider }));
+  return errors.filter(error => error.property === 'provider');
+};
+
+describe('UpdateLlmProviderSettingsDto', () => {
+  it.each(['openai', 'azure-openai', 'openai-compatible'])('should accept the %s provider', async provider => {
+    expect(await providerErrors(provider)).toEqual([]);
+  });
+
+  it('should not let tenants switch to the fake provider', async () => {
+    expect(await providerErrors('fake')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,73 @@
+import { IsString, IsOptional, IsIn, IsUrl, IsNotEmpty, MaxLength, Matches } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { LLM_PROVIDER_NAMES, TENANT_LLM_PROVIDER_NAMES, LlmProviderName } from '../interfaces/llm-provider.interface';
+
+export class UpdateLlmProviderSettingsDto {
+  @ApiProperty({ enum: TENANT_LLM_PROVIDER_NAMES })
+  @IsIn(TENANT_LLM_PROVIDER_NAMES)
+  provider: LlmProviderName;
+
+  @ApiPropertyOptional({ description: 'Chat model, or deployment name for Azure OpenAI. Defaults to the one configured for the provider' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  model?: string;
+
+  @ApiPropertyOptional({ description: 'Embedding model, or embedding deployment name for Azure OpenAI' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  embeddingModel?: string;
+
+  @ApiPropertyOptional({
+    description: 'Azure resource endpoint, or base URL of an OpenAI-compatible server including /v1',
+    example: 'https://acme.openai.azure.com',
+  })
+  @IsOptional()
+  @IsUrl({ protocols: ['https'], require_protocol: true, require_tld: false })
+  @MaxLength(500)
+  endpoint?: string;
+
+  @ApiPropertyOptional({ description: 'Omit to keep the stored key while the provider and endpoint stay the same' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  apiKey?: string;
+
+  @ApiPropertyOptional({ description: 'Azure OpenAI API version', example: '2024-10-21' })
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}(-preview)?$/, { message: 'apiVersion must look like 2024-10-21 or 2025-01-01-preview' })
+  apiVersion?: string;
+}
+
+export class LlmProviderSettingsDto {
+  @ApiProperty({ enum: LLM_PROVIDER_NAMES })
+  provider: LlmProviderName;
+
+  @ApiProperty({ enum: ['tenant', 'default'], description: 'Whether the tenant chose the provider or uses the default one' })
+  source: 'tenant' | 'default';
+
+  @ApiProperty()
+  model: string;
+
+  @ApiProperty({ nullable: true })
+  embeddingModel: string | null;
+
+  @ApiProperty({ nullable: true, description: 'Endpoint set by the tenant' })
+  endpoint: string | null;
+
+  @ApiProperty({ nullable: true })
+  apiVersion: string | null;
+
+  @ApiProperty({ description: 'Whether the tenant stored its own API key' })
+  hasApiKey: boolean;
+
+  @ApiProperty({ description: 'Whether the provider has what it needs to serve requests' })
+  isConfigured: boolean;
+
+  @ApiProperty()
+  supportsEmbeddings: boolean;
+}
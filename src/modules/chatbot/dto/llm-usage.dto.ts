@@ -0,0 +1,89 @@
+import { IsOptional, IsIn, IsDateString } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { LlmUsageGroupBy, SUBSCRIPTION_TIERS, SubscriptionTier } from '../interfaces/llm-usage.interface';
+
+export class GetLlmUsageReportQueryDto {
+  @ApiPropertyOptional({ description: 'Start of the period (default: start of the current quota period)', example: '2026-10-01' })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'End of the period (default: now)', example: '2026-10-31T23:59:59Z' })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({ enum: ['day', 'user', 'model', 'feature'], default: 'day' })
+  @IsOptional()
+  @IsIn(['day', 'user', 'model', 'feature'])
+  groupBy?: LlmUsageGroupBy = 'day';
+}
+
+export class LlmQuotaDto {
+  @ApiProperty({ enum: SUBSCRIPTION_TIERS })
+  tier: SubscriptionTier;
+
+  @ApiProperty({ nullable: true, description: 'Monthly token limit, null when unlimited' })
+  limit: number | null;
+
+  @ApiProperty({ description: 'Tokens used in the current period' })
+  used: number;
+
+  @ApiProperty({ nullable: true })
+  remaining: number | null;
+
+  @ApiProperty()
+  periodStart: Date;
+
+  @ApiProperty()
+  resetsAt: Date;
+}
+
+export class LlmUsageReportRowDto {
+  @ApiProperty({ description: 'Day (YYYY-MM-DD), user id ("system" for background jobs), provider:model or feature' })
+  key: string;
+
+  @ApiProperty()
+  requests: number;
+
+  @ApiProperty()
+  failedRequests: number;
+
+  @ApiProperty()
+  promptTokens: number;
+
+  @ApiProperty()
+  completionTokens: number;
+
+  @ApiProperty()
+  totalTokens: number;
+
+  @ApiProperty({ description: 'Estimated cost in USD of the requests with a known model price' })
+  estimatedCost: number;
+
+  @ApiProperty({ description: 'Requests to models without a known price, not included in estimatedCost' })
+  unpricedRequests: number;
+
+  @ApiProperty()
+  averageLatencyMs: number;
+}
+
+export class LlmUsageReportDto {
+  @ApiProperty()
+  from: Date;
+
+  @ApiProperty()
+  to: Date;
+
+  @ApiProperty({ enum: ['day', 'user', 'model', 'feature'] })
+  groupBy: LlmUsageGroupBy;
+
+  @ApiProperty({ type: LlmUsageReportRowDto })
+  totals: LlmUsageReportRowDto;
+
+  @ApiProperty({ type: [LlmUsageReportRowDto] })
+  rows: LlmUsageReportRowDto[];
+
+  @ApiProperty({ type: LlmQuotaDto })
+  quota: LlmQuotaDto;
+}
@@ -0,0 +1,51 @@
+import { Entity, Column, Index } from 'typeorm';
+import { TenantBaseEntity } from '../../../common/entities/base.entity';
+import { LlmProviderName } from '../interfaces/llm-provider.interface';
+import { ChatEvaluationCaseResult, ChatEvaluationLlm } from '../interfaces/chat-evaluation.interface';
+
+/**
+ * One replay of the golden set, kept to compare scores across prompt versions
+ */
+@Entity('chatbot_evaluation_runs')
+@Index(['tenantId', 'createdAt'])
+@Index(['tenantId', 'promptVersion'])
+export class ChatEvaluationRun extends TenantBaseEntity {
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  label: string | null;
+
+  /**
+   * Hash of the system prompt and tool definitions the run used
+   */
+  @Column({ type: 'varchar', length: 64 })
+  promptVersion: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  llm: ChatEvaluationLlm;
+
+  @Column({ type: 'varchar', length: 30 })
+  provider: LlmProviderName;
+
+  @Column({ type: 'varchar', length: 255 })
+  model: string;
+
+  @Column({ type: 'int' })
+  caseCount: number;
+
+  @Column({ type: 'int' })
+  passedCount: number;
+
+  @Column({ type: 'float' })
+  retrievalHitRate: number;
+
+  @Column({ type: 'float' })
+  citationPrecision: number;
+
+  @Column({ type: 'float' })
+  citationRecall: number;
+
+  @Column({ type: 'json' })
+  results: ChatEvaluationCaseResult[];
+
+  @Column({ type: 'int', nullable: true })
+  createdBy: number | null;
+}
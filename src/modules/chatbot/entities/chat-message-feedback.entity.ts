@@ -0,0 +1,29 @@
+import { Entity, Column, Index } from 'typeorm';
+import { TenantBaseEntity } from '../../../common/entities/base.entity';
+import { ChatFeedbackRating } from '../interfaces/conversation.interface';
+
+/**
+ * A user's rating of one answer in a chat session
+ */
+@Entity('chatbot_message_feedback')
+@Index(['conversationId', 'messageIndex'], { unique: true })
+@Index(['tenantId', 'createdAt'])
+export class ChatMessageFeedback extends TenantBaseEntity {
+  @Column({ type: 'int' })
+  conversationId: number;
+
+  @Column({ type: 'int' })
+  userId: number;
+
+  /**
+   * Position of the assistant message in Conversation.messages
+   */
+  @Column({ type: 'int' })
+  messageIndex: number;
+
+  @Column({ type: 'varchar', length: 10 })
+  rating: ChatFeedbackRating;
+
+  @Column({ type: 'text', nullable: true })
+  comment: string | null;
+}
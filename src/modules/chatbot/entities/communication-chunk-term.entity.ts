@@ -0,0 +1,24 @@
+import { Entity, Column, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+/**
+ * Posting of a term in a communication chunk, for BM25 lookups
+ */
+@Entity('chatbot_communication_chunk_terms')
+@Index(['tenantId', 'term'])
+@Index(['chunkId'])
+export class CommunicationChunkTerm {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'int' })
+  tenantId: number;
+
+  @Column()
+  chunkId: number;
+
+  @Column({ type: 'varchar', length: 64 })
+  term: string;
+
+  @Column()
+  frequency: number;
+}
@@ -0,0 +1,51 @@
+import { Entity, Column, Index } from 'typeorm';
+import { TenantBaseEntity } from '../../../common/entities/base.entity';
+import { CommunicationSourceType } from '../interfaces/communication-search.interface';
+
+/**
+ * A passage of a Slack, Teams, Gmail or Outlook message in the chatbot's retrieval index.
+ * The text is stored with PII redacted; the original message stays in its own table.
+ */
+@Entity('chatbot_communication_chunks')
+@Index(['tenantId', 'sourceType', 'sourceId'])
+@Index(['tenantId', 'occurredAt'])
+export class CommunicationChunk extends TenantBaseEntity {
+  @Column({ type: 'varchar', length: 20 })
+  sourceType: CommunicationSourceType;
+
+  @Column()
+  sourceId: number;
+
+  @Column({ default: 0 })
+  chunkIndex: number;
+
+  /**
+   * Slack or Teams channel name, or the mailbox folder of an email
+   */
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  channel?: string;
+
+  /**
+   * Email subject, redacted
+   */
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  title?: string;
+
+  @Column({ type: 'text' })
+  text: string;
+
+  /**
+   * Number of indexed terms, the document length for BM25
+   */
+  @Column({ default: 0 })
+  termCount: number;
+
+  @Column({ type: 'json', nullable: true })
+  embedding?: number[];
+
+  @Column({ type: 'varchar', length: 1000, nullable: true })
+  url?: string;
+
+  @Column({ type: 'timestamp' })
+  occurredAt: Date;
+}
@@ -0,0 +1,22 @@
+import { Entity, Column, Index } from 'typeorm';
+import { TenantBaseEntity } from '../../../common/entities/base.entity';
+import { CommunicationSourceType } from '../interfaces/communication-search.interface';
+
+/**
+ * How far the retrieval index has read a tenant's messages of one source, by update time
+ */
+@Entity('chatbot_communication_index_cursors')
+@Index(['tenantId', 'sourceType'], { unique: true })
+export class CommunicationIndexCursor extends TenantBaseEntity {
+  @Column({ type: 'varchar', length: 20 })
+  sourceType: CommunicationSourceType;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastUpdatedAt?: Date;
+
+  /**
+   * Id of the last message indexed at lastUpdatedAt, to page through equal timestamps
+   */
+  @Column({ default: 0 })
+  lastSourceId: number;
+}
@@ -1,9 +1,11 @@
 import { Entity, Column, Index } from 'typeorm';
 import { TenantBaseEntity } from '../../../common/entities/base.entity';
+import { ConversationMessage } from '../interfaces/conversation.interface';
 
 @Entity('chatbot_conversations')
 @Index(['tenantId', 'sessionId'])
 @Index(['tenantId', 'userId'])
+@Index(['tenantId', 'userId', 'lastMessageAt'])
 export class Conversation extends TenantBaseEntity {
   @Column({ type: 'varchar', length: 255 })
   sessionId: string;
@@ -11,12 +13,26 @@ export class Conversation extends TenantBaseEntity {
   @Column({ nullable: true })
   userId?: number;
 
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  title?: string;
+
+  @Column({ default: false })
+  isPinned: boolean;
+
+  @Column({ type: 'timestamp', nullable: true })
+  archivedAt?: Date | null;
+
   @Column({ type: 'json' })
-  messages: Array<{
-    role: 'user' | 'assistant' | 'system';
-    content: string;
-    timestamp: string;
-  }>;
+  messages: ConversationMessage[];
+
+  /**
+   * Summary of the first summarizedMessages messages, sent to the model in their place
+   */
+  @Column({ type: 'text', nullable: true })
+  summary?: string;
+
+  @Column({ default: 0 })
+  summarizedMessages: number;
 
   @Column({ type: 'json', nullable: true })
   metadata?: {
@@ -0,0 +1,41 @@
+import { Entity, Column, Index } from 'typeorm';
+import { TenantBaseEntity } from '../../../common/entities/base.entity';
+import { LlmProviderName } from '../interfaces/llm-provider.interface';
+
+/**
+ * Model provider chosen by a tenant. Null columns fall back to the environment
+ * defaults of the same provider.
+ */
+@Entity('chatbot_llm_provider_settings')
+@Index(['tenantId'], { unique: true })
+export class LlmProviderSetting extends TenantBaseEntity {
+  @Column({ type: 'varchar', length: 30 })
+  provider: LlmProviderName;
+
+  /**
+   * Chat model, or deployment name for Azure OpenAI
+   */
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  model: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  embeddingModel: string | null;
+
+  /**
+   * Azure resource endpoint, or base URL of an OpenAI-compatible server
+   */
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  endpoint: string | null;
+
+  /**
+   * Never returned by the API
+   */
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  apiKey: string | null;
+
+  @Column({ type: 'varchar', length: 30, nullable: true })
+  apiVersion: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  updatedBy: number | null;
+}
@@ -0,0 +1,62 @@
+import { Entity, Column, Index, PrimaryGeneratedColumn, CreateDateColumn } from 'typeorm';
+import { LlmProviderName } from '../interfaces/llm-provider.interface';
+import { LlmFeature } from '../interfaces/llm-usage.interface';
+
+/**
+ * One model call, for quotas and cost reporting
+ */
+@Entity('chatbot_llm_usage')
+@Index(['tenantId', 'createdAt'])
+@Index(['tenantId', 'userId', 'createdAt'])
+export class LlmUsageRecord {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'int' })
+  tenantId: number;
+
+  /**
+   * Null for calls made by background jobs
+   */
+  @Column({ type: 'int', nullable: true })
+  userId: number | null;
+
+  @Column({ type: 'varchar', length: 40 })
+  feature: LlmFeature;
+
+  @Column({ type: 'varchar', length: 30 })
+  provider: LlmProviderName;
+
+  @Column({ type: 'varchar', length: 255 })
+  model: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  operation: 'chat' | 'embedding';
+
+  @Column({ default: 0 })
+  promptTokens: number;
+
+  @Column({ default: 0 })
+  completionTokens: number;
+
+  @Column({ default: 0 })
+  totalTokens: number;
+
+  @Column({ default: false })
+  tokensEstimated: boolean;
+
+  @Column({ default: 0 })
+  latencyMs: number;
+
+  /**
+   * USD, null when the price of the model is unknown
+   */
+  @Column({ type: 'decimal', precision: 12, scale: 6, nullable: true })
+  estimatedCost: number | null;
+
+  @Column({ default: true })
+  success: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,41 @@
+import {
+  ChatToolCall,
+  ChatToolDefinition,
+  ChatToolExecution,
+  ChatToolExecutor,
+  ChatToolResult,
+} from '../interfaces/chat-tool.interface';
+
+/**
+ * Tool layer of an evaluation case: the real tool definitions, answered from the case's
+ * fixtures instead of the database. A tool without a fixture returns no records.
+ */
+export class FixtureToolExecutor implements ChatToolExecutor {
+  constructor(
+    private readonly definitions: ChatToolDefinition[],
+    private readonly results: Record<string, ChatToolResult>,
+  ) {}
+
+  getDefinitions(): ChatToolDefinition[] {
+    return this.definitions;
+  }
+
+  async execute(call: ChatToolCall): Promise<ChatToolExecution> {
+    const execution: ChatToolExecution = { toolCallId: call.id, name: call.name, arguments: null, result: null, error: null };
+
+    if (!this.definitions.some(definition => definition.name === call.name)) {
+      execution.error = `Unknown tool: ${call.name}`;
+      return execution;
+    }
+
+    try {
+      execution.arguments = call.arguments ? JSON.parse(call.arguments) : {};
+    } catch {
+      execution.error = 'Arguments are not valid JSON';
+      return execution;
+    }
+
+    execution.result = this.results[call.name] || { data: [] };
+    return execution;
+  }
+}
@@ -0,0 +1,123 @@
+import { ChatToolResult } from '../interfaces/chat-tool.interface';
+import { CitationSourceType } from '../interfaces/citation.interface';
+import { GoldenCase } from '../interfaces/chat-evaluation.interface';
+
+interface FixtureRecord {
+  ref: string;
+  title: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Tool result in the shape the real tools return: each record carries its ref and can be cited
+ */
+const toolResult = (type: CitationSourceType, records: FixtureRecord[]): ChatToolResult => ({
+  data: records,
+  citations: records.map(record => ({
+    ref: record.ref,
+    type,
+    sourceId: record.ref.includes(':') ? record.ref.split(':')[1] : record.ref,
+    title: record.title,
+    url: null,
+  })),
+});
+
+const toolCall = (id: string, name: string, args: Record<string, unknown>) => ({
+  content: '',
+  toolCalls: [{ id, name, arguments: JSON.stringify(args) }],
+});
+
+/**
+ * Questions the chatbot is evaluated on. Each case scripts what a good model does, so the
+ * fake model run checks retrieval and citation handling end to end; with the tenant's
+ * model the same cases show what a prompt change does to real answers.
+ */
+export const GOLDEN_SET: GoldenCase[] = [
+  {
+    id: 'critical-signals-payments',
+    question: 'Are there any critical weak signals for the Payments team?',
+    expectedRefs: ['signal:101'],
+    toolResults: {
+      search_weak_signals: toolResult('weak_signal', [
+        { ref: 'signal:101', title: 'Payments API latency creeping up', severity: 'critical', status: 'new' },
+        { ref: 'signal:102', title: 'Checkout error rate back to normal', severity: 'low', status: 'resolved' },
+      ]),
+    },
+    script: [
+      toolCall('call_1', 'search_weak_signals', { severity: 'critical', entity: 'Payments' }),
+      '## Payments\nOne critical signal: Payments API latency is creeping up [signal:101].',
+    ],
+  },
+  {
+    id: 'incident-status',
+    question: 'What is the status of INC0010123?',
+    expectedRefs: ['INC0010123'],
+    toolResults: {
+      get_incident: toolResult('servicenow_incident', [
+        { ref: 'INC0010123', title: 'Checkout errors after deploy', state: 'In Progress', priority: '2 - High' },
+      ]),
+    },
+    script: [
+      toolCall('call_1', 'get_incident', { number: 'INC0010123' }),
+      '## INC0010123\nThe checkout incident is **In Progress** with high priority [INC0010123].',
+    ],
+  },
+  {
+    id: 'blocked-jira-issues',
+    question: 'Which Jira issues are blocking the mobile release?',
+    expectedRefs: ['MOB-42', 'MOB-57'],
+    toolResults: {
+      search_jira_issues: toolResult('jira_issue', [
+        { ref: 'MOB-42', title: 'Login crashes on Android 15', status: 'Blocked' },
+        { ref: 'MOB-57', title: 'Push notifications delayed', status: 'Blocked' },
+      ]),
+    },
+    script: [
+      toolCall('call_1', 'search_jira_issues', { search: 'mobile release', status: 'Blocked' }),
+      '## Blockers\n- Login crashes on Android 15 [MOB-42]\n- Push notifications are delayed [MOB-57]',
+    ],
+  },
+  {
+    id: 'communications-outage',
+    question: 'What did people say about the database outage last week?',
+    expectedRefs: ['slack:5001', 'slack:5002'],
+    toolResults: {
+      search_communications: toolResult('slack_message', [
+        { ref: 'slack:5001', title: '#incidents: primary database failed over at 09:12', source: 'slack' },
+        { ref: 'slack:5002', title: '#ops: replica lag kept reports stale until noon', source: 'slack' },
+      ]),
+    },
+    script: [
+      toolCall('call_1', 'search_communications', { query: 'database outage', from: '2026-10-05', to: '2026-10-11' }),
+      '## Database outage\nThe primary database failed over in the morning [slack:5001], and reports stayed stale until noon [slack:5002].',
+    ],
+  },
+  {
+    id: 'signals-and-metrics',
+    question: 'Is the rise in support tickets linked to any weak signal?',
+    expectedRefs: ['metric:support_ticket_volume', 'signal:230'],
+    toolResults: {
+      get_metric_values: toolResult('metric', [
+        { ref: 'metric:support_ticket_volume', title: 'Support ticket volume', trend: 'up 35% week over week' },
+      ]),
+      search_weak_signals: toolResult('weak_signal', [
+        { ref: 'signal:230', title: 'Billing emails bouncing for EU customers', severity: 'high', status: 'new' },
+      ]),
+    },
+    script: [
+      toolCall('call_1', 'get_metric_values', { metricKey: 'support_ticket_volume' }),
+      toolCall('call_2', 'search_weak_signals', { entity: 'Billing' }),
+      '## Support tickets\nTicket volume is up 35% [metric:support_ticket_volume], which lines up with bouncing billing emails [signal:230].',
+    ],
+  },
+  {
+    id: 'nothing-found',
+    question: 'Any incidents for the Warehouse team this month?',
+    expectedRefs: [],
+    toolResults: {},
+    script: [
+      toolCall('call_1', 'search_weak_signals', { entity: 'Warehouse' }),
+      '## Warehouse\nNo incidents or weak signals found for the Warehouse team this month.',
+    ],
+  },
+];
@@ -0,0 +1,62 @@
+import { ChatToolResult } from './chat-tool.interface';
+import { ChatWithToolsResult } from './llm-provider.interface';
+
+/**
+ * Model an evaluation runs with: the scripted fake model of each case, or the tenant's
+ * own provider to see how prompt changes affect real answers
+ */
+export type ChatEvaluationLlm = 'fake' | 'tenant';
+
+export const CHAT_EVALUATION_LLMS: ChatEvaluationLlm[] = ['fake', 'tenant'];
+
+/**
+ * A question of the golden set, with the records a good answer is based on
+ */
+export interface GoldenCase {
+  id: string;
+  question: string;
+  /**
+   * Refs the tools should retrieve and the answer should cite; empty when there is nothing to find
+   */
+  expectedRefs: string[];
+  /**
+   * Result of each tool, whatever the arguments it is called with
+   */
+  toolResults: Record<string, ChatToolResult>;
+  /**
+   * Replies of the fake model in order: rounds of tool calls, then the answer
+   */
+  script: Array<string | Omit<ChatWithToolsResult, 'usage'>>;
+}
+
+/**
+ * Scores between 0 and 1
+ */
+export interface ChatEvaluationScores {
+  /**
+   * Share of the expected refs returned by the tools the model called
+   */
+  retrievalHitRate: number;
+  /**
+   * Share of the refs cited in the answer that are expected, refs no tool returned included
+   */
+  citationPrecision: number;
+  /**
+   * Share of the expected refs cited in the answer
+   */
+  citationRecall: number;
+}
+
+export interface ChatEvaluationCaseResult extends ChatEvaluationScores {
+  caseId: string;
+  passed: boolean;
+  toolCalls: string[];
+  retrievedRefs: string[];
+  citedRefs: string[];
+  /**
+   * Refs written in the answer that no tool returned
+   */
+  unresolvedRefs: string[];
+  answer: string;
+  error: string | null;
+}
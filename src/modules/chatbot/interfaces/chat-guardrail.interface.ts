@@ -0,0 +1,39 @@
+export type GuardrailRuleId =
+  | 'ignore_instructions'
+  | 'role_override'
+  | 'prompt_exfiltration'
+  | 'chat_markup'
+  | 'exfiltration_link';
+
+/**
+ * Pattern of text that tries to instruct the model instead of informing it
+ */
+export interface GuardrailRule {
+  id: GuardrailRuleId;
+  description: string;
+  pattern: RegExp;
+}
+
+export interface GuardrailFinding {
+  rule: GuardrailRuleId;
+  /**
+   * Matched text, shortened for the audit log
+   */
+  match: string;
+}
+
+/**
+ * Where in a chat turn untrusted text was found
+ */
+export type GuardrailStage = 'user_message' | 'tool_result' | 'answer';
+
+/**
+ * Forwards streamed tokens once no PII can span them, redacted
+ */
+export interface StreamRedactor {
+  push(token: string): void;
+  /**
+   * Send what is still held back, at the end of the stream or before an error message
+   */
+  flush(): void;
+}
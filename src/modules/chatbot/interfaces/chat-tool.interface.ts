@@ -0,0 +1,105 @@
+import { CitationSource } from './citation.interface';
+
+export interface ChatToolCall {
+  id: string;
+  name: string;
+  /**
+   * Raw JSON arguments as produced by the model
+   */
+  arguments: string;
+}
+
+export type ChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; toolCalls?: ChatToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string };
+
+/**
+ * Subset of JSON schema the tool arguments are described and validated with
+ */
+export interface ChatToolParameterSchema {
+  type: 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  enum?: string[];
+  minimum?: number;
+  maximum?: number;
+  maxLength?: number;
+  format?: 'date';
+}
+
+export interface ChatToolParametersSchema {
+  type: 'object';
+  properties: Record<string, ChatToolParameterSchema>;
+  required?: string[];
+}
+
+export interface ChatToolDefinition {
+  name: string;
+  description: string;
+  parameters: ChatToolParametersSchema;
+}
+
+/**
+ * Server-side context of a tool call. The tenant always comes from here, never from
+ * the model, so a tool can only ever see the data of the user's own tenant.
+ */
+export interface ChatToolContext {
+  tenantId: number;
+  userId: number;
+}
+
+/**
+ * Ids of the records a tool result is based on
+ */
+export interface ChatToolSources {
+  signals?: number[];
+  incidents?: number[];
+  issues?: number[];
+  slackMessages?: number[];
+  teamsMessages?: number[];
+  gmailMessages?: number[];
+  outlookMessages?: number[];
+  metrics?: number[];
+  teams?: string[];
+  graphNodes?: number[];
+}
+
+export interface ChatToolResult {
+  /**
+   * JSON-serializable payload returned to the model
+   */
+  data: unknown;
+  sources?: ChatToolSources;
+  /**
+   * Records in the payload the answer can cite; each item of the payload carries its `ref`
+   */
+  citations?: CitationSource[];
+}
+
+export interface ChatTool<TArgs = Record<string, unknown>> {
+  readonly definition: ChatToolDefinition;
+
+  /**
+   * Run the tool with arguments already validated against the definition
+   */
+  execute(args: TArgs, context: ChatToolContext): Promise<ChatToolResult>;
+}
+
+export interface ChatToolExecution {
+  toolCallId: string;
+  name: string;
+  /**
+   * Validated arguments, or null when the call was rejected
+   */
+  arguments: Record<string, unknown> | null;
+  result: ChatToolResult | null;
+  error: string | null;
+}
+
+/**
+ * Runs the tool calls of the model; the tool registry, or fixtures when evaluating answers
+ */
+export interface ChatToolExecutor {
+  getDefinitions(): ChatToolDefinition[];
+  execute(call: ChatToolCall, context: ChatToolContext): Promise<ChatToolExecution>;
+}
@@ -0,0 +1,39 @@
+export type CitationSourceType =
+  | 'weak_signal'
+  | 'servicenow_incident'
+  | 'jira_issue'
+  | 'slack_message'
+  | 'teams_message'
+  | 'email_message'
+  | 'metric'
+  | 'team'
+  | 'graph_node';
+
+/**
+ * A record a tool returned that the answer may cite. `ref` is what the model writes in
+ * square brackets: the incident number or Jira key where one exists, otherwise
+ * `<kind>:<id>`, e.g. signal:42.
+ */
+export interface CitationSource {
+  ref: string;
+  type: CitationSourceType;
+  /**
+   * Id of the record in its own table, or its key for metrics and teams
+   */
+  sourceId: string;
+  title: string;
+  url: string | null;
+}
+
+/**
+ * Character range of the answer supported by a citation, end exclusive
+ */
+export interface CitationSpan {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface Citation extends CitationSource {
+  spans: CitationSpan[];
+}
@@ -0,0 +1,32 @@
+export type CommunicationSourceType = 'slack' | 'teams' | 'gmail' | 'outlook';
+
+export const COMMUNICATION_SOURCE_TYPES: CommunicationSourceType[] = ['slack', 'teams', 'gmail', 'outlook'];
+
+export interface CommunicationSearchQuery {
+  query: string;
+  sourceTypes?: CommunicationSourceType[];
+  /**
+   * Slack or Teams channel name, or mailbox folder
+   */
+  channel?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export interface CommunicationSearchHit {
+  chunkId: number;
+  sourceType: CommunicationSourceType;
+  sourceId: number;
+  channel: string | null;
+  title: string | null;
+  text: string;
+  url: string | null;
+  occurredAt: Date;
+  score: number;
+}
+
+export interface CommunicationIndexStats {
+  indexed: number;
+  removed: number;
+}
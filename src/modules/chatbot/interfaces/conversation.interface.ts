@@ -0,0 +1,30 @@
+import { ChatToolSources } from './chat-tool.interface';
+import { Citation } from './citation.interface';
+
+/**
+ * Thumbs up or down given to an answer
+ */
+export type ChatFeedbackRating = 'up' | 'down';
+
+export const CHAT_FEEDBACK_RATINGS: ChatFeedbackRating[] = ['up', 'down'];
+
+export interface ConversationMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  timestamp: string;
+  citations?: Citation[];
+}
+
+/**
+ * A question and the answer to it, as stored after each chat request
+ */
+export interface ConversationTurn {
+  userMessage: string;
+  response: string;
+  citations: Citation[];
+  sources: ChatToolSources;
+  /**
+   * Tokens the model used for the answer, tool rounds included
+   */
+  tokens: number;
+}
@@ -0,0 +1,126 @@
+import { ChatMessage, ChatToolCall, ChatToolDefinition } from './chat-tool.interface';
+
+export type LlmProviderName = 'openai' | 'azure-openai' | 'openai-compatible' | 'fake';
+
+export const LLM_PROVIDER_NAMES: LlmProviderName[] = ['openai', 'azure-openai', 'openai-compatible', 'fake'];
+
+/**
+ * Providers a tenant can choose; the fake provider is for tests and evaluations only
+ */
+export const TENANT_LLM_PROVIDER_NAMES: LlmProviderName[] = LLM_PROVIDER_NAMES.filter(name => name !== 'fake');
+
+/**
+ * Token usage of a completion, in the field names of the OpenAI API
+ */
+export interface LlmUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface LlmChatOptions {
+  temperature?: number;
+  maxTokens?: number;
+  /**
+   * Constrain the response to a single JSON object
+   */
+  jsonMode?: boolean;
+  /**
+   * Constrain the response to a JSON schema (structured output); takes precedence over jsonMode
+   */
+  jsonSchema?: { name: string; schema: Record<string, unknown> };
+}
+
+export interface LlmChatResult {
+  content: string;
+  usage?: LlmUsage;
+}
+
+export interface ChatWithToolsResult {
+  content: string;
+  toolCalls: ChatToolCall[];
+  usage?: LlmUsage;
+}
+
+export interface LlmToolOptions {
+  temperature?: number;
+  maxTokens?: number;
+  /**
+   * 'none' forces a final answer from the tool results so far
+   */
+  toolChoice?: 'auto' | 'none';
+}
+
+/**
+ * A chat and embedding model behind one API. Errors are thrown as user-facing messages.
+ */
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+
+  /**
+   * Whether the provider has what it needs to serve requests
+   */
+  isConfigured(): boolean;
+
+  /**
+   * Whether createEmbeddings can be used
+   */
+  supportsEmbeddings(): boolean;
+
+  /**
+   * Chat model (or Azure deployment) used for completions
+   */
+  getModel(): string;
+
+  /**
+   * Model (or Azure deployment) used for embeddings, empty when there is none
+   */
+  getEmbeddingModel(): string;
+
+  chat(messages: ChatMessage[], options?: LlmChatOptions): Promise<LlmChatResult>;
+
+  /**
+   * Stream the response, calling onToken for each token received
+   * @returns Full response content
+   */
+  chatStream(messages: ChatMessage[], onToken: (token: string) => void, options?: LlmChatOptions): Promise<string>;
+
+  /**
+   * Completion that may answer with tool calls instead of content
+   */
+  chatWithTools(messages: ChatMessage[], tools: ChatToolDefinition[], options?: LlmToolOptions): Promise<ChatWithToolsResult>;
+
+  /**
+   * Streaming variant of chatWithTools; tool calls are returned once the stream ends
+   */
+  chatStreamWithTools(
+    messages: ChatMessage[],
+    tools: ChatToolDefinition[],
+    onToken: (token: string) => void,
+    options?: LlmToolOptions,
+  ): Promise<ChatWithToolsResult>;
+
+  /**
+   * Embeddings for a batch of texts, in input order
+   */
+  createEmbeddings(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Settings a provider is built from. Tenant settings are layered over the environment
+ * defaults of the same provider.
+ */
+export interface LlmProviderConfig {
+  provider: LlmProviderName;
+  model?: string | null;
+  embeddingModel?: string | null;
+  /**
+   * Azure resource endpoint, or base URL of an OpenAI-compatible server
+   */
+  endpoint?: string | null;
+  apiKey?: string | null;
+  /**
+   * Azure OpenAI API version
+   */
+  apiVersion?: string | null;
+}
@@ -0,0 +1,70 @@
+import { LlmProviderName } from './llm-provider.interface';
+
+/**
+ * What a model call was made for
+ */
+export type LlmFeature =
+  | 'chat'
+  | 'conversation_summary'
+  | 'retrieval'
+  | 'weak_signal_hypothesis'
+  | 'weak_signal_similarity'
+  | 'evaluation';
+
+export const LLM_FEATURES: LlmFeature[] = [
+  'chat',
+  'conversation_summary',
+  'retrieval',
+  'weak_signal_hypothesis',
+  'weak_signal_similarity',
+  'evaluation',
+];
+
+export type LlmUsageGroupBy = 'day' | 'user' | 'model' | 'feature';
+
+export type SubscriptionTier = 'free' | 'starter' | 'professional' | 'enterprise';
+
+export const SUBSCRIPTION_TIERS: SubscriptionTier[] = ['free', 'starter', 'professional', 'enterprise'];
+
+/**
+ * Who a model call is made for, recorded with its usage
+ */
+export interface LlmUsageContext {
+  feature: LlmFeature;
+  userId?: number | null;
+}
+
+export interface LlmUsageEntry extends LlmUsageContext {
+  tenantId: number;
+  provider: LlmProviderName;
+  model: string;
+  operation: 'chat' | 'embedding';
+  promptTokens: number;
+  completionTokens: number;
+  /**
+   * The provider reported no usage, so tokens were estimated from the text length
+   */
+  tokensEstimated: boolean;
+  latencyMs: number;
+  success: boolean;
+}
+
+/**
+ * USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface LlmQuotaStatus {
+  tier: SubscriptionTier;
+  /**
+   * Monthly token limit, null when unlimited
+   */
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  periodStart: Date;
+  resetsAt: Date;
+}
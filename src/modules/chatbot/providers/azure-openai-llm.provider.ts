@@ -0,0 +1,26 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { LlmProviderName } from '../interfaces/llm-provider.interface';
+import { OpenAILlmProvider } from './openai-llm.provider';
+
+/**
+ * Provider for an Azure OpenAI resource. Requests stay within the customer's Azure tenancy;
+ * model and embeddingModel are deployment names.
+ */
+export class AzureOpenAILlmProvider extends OpenAILlmProvider {
+  readonly name: LlmProviderName = 'azure-openai';
+
+  isConfigured(): boolean {
+    return !!this.config.endpoint && !!this.config.apiKey && !!this.config.model;
+  }
+
+  protected createClient(): OpenAI {
+    // Without a fixed deployment the client routes each request to the deployment named by its model
+    return new AzureOpenAI({
+      endpoint: this.config.endpoint!.replace(/\/+$/, ''),
+      apiKey: this.config.apiKey!,
+      apiVersion: this.config.apiVersion || undefined,
+      timeout: 120000,
+      maxRetries: 2,
+    });
+  }
+}
@@ -0,0 +1,131 @@
+import { ChatMessage, ChatToolDefinition } from '../interfaces/chat-tool.interface';
+import {
+  ChatWithToolsResult,
+  LlmChatOptions,
+  LlmChatResult,
+  LlmProvider,
+  LlmProviderName,
+  LlmUsage,
+} from '../interfaces/llm-provider.interface';
+
+const EMBEDDING_DIMENSIONS = 64;
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Offline provider with deterministic output, for tests and environments without a model.
+ * It answers with an echo of the last user message unless responses were queued, never
+ * calls tools on its own, and embeds texts as hashed bags of words so that texts sharing
+ * words are similar.
+ */
+export class FakeLlmProvider implements LlmProvider {
+  readonly name: LlmProviderName = 'fake';
+
+  private readonly queued: ChatWithToolsResult[] = [];
+
+  constructor(private readonly model = 'fake-llm-v1') {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  supportsEmbeddings(): boolean {
+    return true;
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  getEmbeddingModel(): string {
+    return 'fake-embedding-v1';
+  }
+
+  /**
+   * Responses returned, in order, before falling back to the echo
+   */
+  queue(...responses: Array<string | Omit<ChatWithToolsResult, 'usage'>>): this {
+    this.queued.push(...responses.map(response => (
+      typeof response === 'string' ? { content: response, toolCalls: [] } : response
+    )));
+    return this;
+  }
+
+  async chat(messages: ChatMessage[], options?: LlmChatOptions): Promise<LlmChatResult> {
+    const { content, usage } = this.respond(messages, options);
+    return { content, usage };
+  }
+
+  async chatStream(messages: ChatMessage[], onToken: (token: string) => void, options?: LlmChatOptions): Promise<string> {
+    const { content } = this.respond(messages, options);
+    this.emit(content, onToken);
+    return content;
+  }
+
+  async chatWithTools(messages: ChatMessage[]): Promise<ChatWithToolsResult> {
+    return this.respond(messages);
+  }
+
+  async chatStreamWithTools(
+    messages: ChatMessage[],
+    _tools: ChatToolDefinition[],
+    onToken: (token: string) => void,
+  ): Promise<ChatWithToolsResult> {
+    const result = this.respond(messages);
+    this.emit(result.content, onToken);
+    return result;
+  }
+
+  async createEmbeddings(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embed(text));
+  }
+
+  private respond(messages: ChatMessage[], options?: LlmChatOptions): ChatWithToolsResult {
+    const next = this.queued.shift();
+    const content = next
+      ? next.content
+      : options?.jsonMode || options?.jsonSchema
+        ? '{}'
+        : this.echo(messages);
+
+    return {
+      content,
+      toolCalls: next ? next.toolCalls : [],
+      usage: this.usage(messages, content),
+    };
+  }
+
+  private echo(messages: ChatMessage[]): string {
+    const question = [...messages].reverse().find(message => message.role === 'user');
+    return `Fake answer to: ${(question?.content || '').replace(/\s+/g, ' ').trim()}`;
+  }
+
+  private emit(content: string, onToken: (token: string) => void): void {
+    for (const token of content.split(/(?<=\s)/)) {
+      if (token) {
+        onToken(token);
+      }
+    }
+  }
+
+  private usage(messages: ChatMessage[], content: string): LlmUsage {
+    const promptTokens = Math.ceil(messages.reduce((sum, message) => sum + (message.content || '').length, 0) / CHARS_PER_TOKEN);
+    const completionTokens = Math.ceil(content.length / CHARS_PER_TOKEN);
+    return { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens };
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+
+    for (const word of text.toLowerCase().match(/[a-z0-9]+/g) || []) {
+      // FNV-1a
+      let hash = 0x811c9dc5;
+      for (let i = 0; i < word.length; i++) {
+        hash = Math.imul(hash ^ word.charCodeAt(i), 0x01000193);
+      }
+      vector[(hash >>> 0) % EMBEDDING_DIMENSIONS] += 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+}
@@ -0,0 +1,149 @@
+import { ChatMessage, ChatToolDefinition } from '../interfaces/chat-tool.interface';
+import {
+  ChatWithToolsResult,
+  LlmChatOptions,
+  LlmChatResult,
+  LlmProvider,
+  LlmProviderName,
+  LlmToolOptions,
+  LlmUsage,
+} from '../interfaces/llm-provider.interface';
+import { LlmUsageContext } from '../interfaces/llm-usage.interface';
+import { LlmUsageService } from '../services/llm-usage.service';
+
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Provider that checks the tenant's quota before each call and records the usage of the
+ * call afterwards, failed calls included. Tokens are estimated from the text length when
+ * the provider reports no usage (streamed answers and embeddings).
+ */
+export class MeteredLlmProvider implements LlmProvider {
+  constructor(
+    private readonly provider: LlmProvider,
+    private readonly usageService: LlmUsageService,
+    private readonly tenantId: number,
+    private readonly context: LlmUsageContext,
+  ) {}
+
+  get name(): LlmProviderName {
+    return this.provider.name;
+  }
+
+  isConfigured(): boolean {
+    return this.provider.isConfigured();
+  }
+
+  supportsEmbeddings(): boolean {
+    return this.provider.supportsEmbeddings();
+  }
+
+  getModel(): string {
+    return this.provider.getModel();
+  }
+
+  getEmbeddingModel(): string {
+    return this.provider.getEmbeddingModel();
+  }
+
+  chat(messages: ChatMessage[], options?: LlmChatOptions): Promise<LlmChatResult> {
+    return this.meter(
+      'chat',
+      () => this.provider.chat(messages, options),
+      result => this.chatTokens(messages, result.content, result.usage),
+    );
+  }
+
+  chatStream(messages: ChatMessage[], onToken: (token: string) => void, options?: LlmChatOptions): Promise<string> {
+    return this.meter(
+      'chat',
+      () => this.provider.chatStream(messages, onToken, options),
+      content => this.chatTokens(messages, content),
+    );
+  }
+
+  chatWithTools(messages: ChatMessage[], tools: ChatToolDefinition[], options?: LlmToolOptions): Promise<ChatWithToolsResult> {
+    return this.meter(
+      'chat',
+      () => this.provider.chatWithTools(messages, tools, options),
+      result => this.chatTokens(messages, result.content, result.usage),
+    );
+  }
+
+  chatStreamWithTools(
+    messages: ChatMessage[],
+    tools: ChatToolDefinition[],
+    onToken: (token: string) => void,
+    options?: LlmToolOptions,
+  ): Promise<ChatWithToolsResult> {
+    return this.meter(
+      'chat',
+      () => this.provider.chatStreamWithTools(messages, tools, onToken, options),
+      result => this.chatTokens(messages, result.content, result.usage),
+    );
+  }
+
+  createEmbeddings(texts: string[]): Promise<number[][]> {
+    return this.meter(
+      'embedding',
+      () => this.provider.createEmbeddings(texts),
+      () => ({ promptTokens: this.estimate(texts.join('')), completionTokens: 0, tokensEstimated: true }),
+    );
+  }
+
+  private async meter<T>(
+    operation: 'chat' | 'embedding',
+    call: () => Promise<T>,
+    tokensOf: (result: T) => { promptTokens: number; completionTokens: number; tokensEstimated: boolean },
+  ): Promise<T> {
+    await this.usageService.assertWithinQuota(this.tenantId);
+
+    const model = operation === 'embedding' ? this.provider.getEmbeddingModel() : this.provider.getModel();
+    const startedAt = Date.now();
+
+    try {
+      const result = await call();
+      await this.usageService.record({
+        ...this.context,
+        tenantId: this.tenantId,
+        provider: this.provider.name,
+        model,
+        operation,
+        ...tokensOf(result),
+        latencyMs: Date.now() - startedAt,
+        success: true,
+      });
+      return result;
+    } catch (error) {
+      await this.usageService.record({
+        ...this.context,
+        tenantId: this.tenantId,
+        provider: this.provider.name,
+        model,
+        operation,
+        promptTokens: 0,
+        completionTokens: 0,
+        tokensEstimated: false,
+        latencyMs: Date.now() - startedAt,
+        success: false,
+      });
+      throw error;
+    }
+  }
+
+  private chatTokens(messages: ChatMessage[], content: string, usage?: LlmUsage) {
+    if (usage) {
+      return { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens, tokensEstimated: false };
+    }
+
+    return {
+      promptTokens: this.estimate(messages.map(message => message.content || '').join('')),
+      completionTokens: this.estimate(content),
+      tokensEstimated: true,
+    };
+  }
+
+  private estimate(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+  }
+}
@@ -0,0 +1,25 @@
+import OpenAI from 'openai';
+import { LlmProviderName } from '../interfaces/llm-provider.interface';
+import { OpenAILlmProvider } from './openai-llm.provider';
+
+/**
+ * Provider for a self-hosted server exposing the OpenAI API, such as vLLM or Ollama.
+ * The endpoint is the server's base URL including the /v1 prefix.
+ */
+export class OpenAICompatibleLlmProvider extends OpenAILlmProvider {
+  readonly name: LlmProviderName = 'openai-compatible';
+
+  isConfigured(): boolean {
+    return !!this.config.endpoint && !!this.config.model;
+  }
+
+  protected createClient(): OpenAI {
+    return new OpenAI({
+      baseURL: this.config.endpoint!,
+      // Local servers usually accept any key, but the client requires one
+      apiKey: this.config.apiKey || 'not-needed',
+      timeout: 120000,
+      maxRetries: 2,
+    });
+  }
+}
@@ -0,0 +1,306 @@
+import { Logger } from '@nestjs/common';
+import OpenAI from 'openai';
+import { ChatMessage, ChatToolCall, ChatToolDefinition } from '../interfaces/chat-tool.interface';
+import {
+  ChatWithToolsResult,
+  LlmChatOptions,
+  LlmChatResult,
+  LlmProvider,
+  LlmProviderConfig,
+  LlmProviderName,
+  LlmToolOptions,
+} from '../interfaces/llm-provider.interface';
+
+const EMBEDDING_BATCH_SIZE = 100;
+
+/**
+ * Provider for the OpenAI API. Azure OpenAI and OpenAI-compatible servers speak the same
+ * protocol and only differ in how the client is built.
+ */
+export class OpenAILlmProvider implements LlmProvider {
+  readonly name: LlmProviderName = 'openai';
+
+  protected readonly logger = new Logger(this.constructor.name);
+  private client?: OpenAI;
+
+  constructor(
+    protected readonly config: LlmProviderConfig,
+    client?: OpenAI,
+  ) {
+    this.client = client;
+  }
+
+  isConfigured(): boolean {
+    return !!this.config.apiKey || !!this.client;
+  }
+
+  supportsEmbeddings(): boolean {
+    return this.isConfigured() && !!this.config.embeddingModel;
+  }
+
+  getModel(): string {
+    return this.config.model || '';
+  }
+
+  getEmbeddingModel(): string {
+    return this.config.embeddingModel || '';
+  }
+
+  async chat(messages: ChatMessage[], options?: LlmChatOptions): Promise<LlmChatResult> {
+    const client = this.getClient();
+
+    try {
+      const completion = await client.chat.completions.create({
+        model: this.getModel(),
+        messages: messages.map(message => this.toMessageParam(message)),
+        temperature: options?.temperature ?? 0.7,
+        max_tokens: options?.maxTokens ?? 1500,
+        ...this.toResponseFormat(options),
+      });
+
+      return {
+        content: completion.choices[0].message.content || '',
+        usage: completion.usage,
+      };
+    } catch (error) {
+      this.logger.error('Chat completion API error:', error);
+      throw this.toServiceError(error);
+    }
+  }
+
+  async chatStream(messages: ChatMessage[], onToken: (token: string) => void, options?: LlmChatOptions): Promise<string> {
+    const client = this.getClient();
+
+    try {
+      const stream = await client.chat.completions.create({
+        model: this.getModel(),
+        messages: messages.map(message => this.toMessageParam(message)),
+        temperature: options?.temperature ?? 0.7,
+        max_tokens: options?.maxTokens ?? 1500,
+        ...this.toResponseFormat(options),
+        stream: true,
+      });
+
+      let fullContent = '';
+
+      for await (const chunk of stream) {
+        const token = chunk.choices[0]?.delta?.content || '';
+        if (token) {
+          fullContent += token;
+          onToken(token);
+        }
+      }
+
+      return fullContent;
+    } catch (error) {
+      this.logger.error('Streaming API error:', error);
+      throw this.toServiceError(error);
+    }
+  }
+
+  async chatWithTools(
+    messages: ChatMessage[],
+    tools: ChatToolDefinition[],
+    options?: LlmToolOptions,
+  ): Promise<ChatWithToolsResult> {
+    const client = this.getClient();
+
+    try {
+      const completion = await client.chat.completions.create({
+        model: this.getModel(),
+        messages: messages.map(message => this.toMessageParam(message)),
+        tools: tools.map(tool => this.toToolParam(tool)),
+        tool_choice: options?.toolChoice ?? 'auto',
+        temperature: options?.temperature ?? 0.7,
+        max_tokens: options?.maxTokens ?? 1500,
+      });
+
+      const message = completion.choices[0].message;
+
+      return {
+        content: message.content || '',
+        toolCalls: (message.tool_calls || [])
+          .filter(call => call.type === 'function')
+          .map(call => ({ id: call.id, name: call.function.name, arguments: call.function.arguments })),
+        usage: completion.usage,
+      };
+    } catch (error) {
+      this.logger.error('Tool calling API error:', error);
+      throw this.toServiceError(error);
+    }
+  }
+
+  /**
+   * Content tokens are forwarded as they arrive; tool calls are assembled from their deltas
+   */
+  async chatStreamWithTools(
+    messages: ChatMessage[],
+    tools: ChatToolDefinition[],
+    onToken: (token: string) => void,
+    options?: LlmToolOptions,
+  ): Promise<ChatWithToolsResult> {
+    const client = this.getClient();
+
+    try {
+      const stream = await client.chat.completions.create({
+        model: this.getModel(),
+        messages: messages.map(message => this.toMessageParam(message)),
+        tools: tools.map(tool => this.toToolParam(tool)),
+        tool_choice: options?.toolChoice ?? 'auto',
+        temperature: options?.temperature ?? 0.7,
+        max_tokens: options?.maxTokens ?? 1500,
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+
+      let content = '';
+      let usage: OpenAI.CompletionUsage | undefined;
+      const toolCalls = new Map<number, ChatToolCall>();
+
+      for await (const chunk of stream) {
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+
+        const delta = chunk.choices[0]?.delta;
+        if (!delta) {
+          continue;
+        }
+
+        if (delta.content) {
+          content += delta.content;
+          onToken(delta.content);
+        }
+
+        for (const part of delta.tool_calls || []) {
+          const call = toolCalls.get(part.index) || { id: '', name: '', arguments: '' };
+          call.id = part.id || call.id;
+          call.name += part.function?.name || '';
+          call.arguments += part.function?.arguments || '';
+          toolCalls.set(part.index, call);
+        }
+      }
+
+      return {
+        content,
+        toolCalls: [...toolCalls.entries()].sort(([a], [b]) => a - b).map(([, call]) => call),
+        usage,
+      };
+    } catch (error) {
+      this.logger.error('Streaming tool calling API error:', error);
+      throw this.toServiceError(error);
+    }
+  }
+
+  async createEmbeddings(texts: string[]): Promise<number[][]> {
+    if (!this.config.embeddingModel) {
+      throw new Error('Embeddings are not configured for this AI provider.');
+    }
+
+    const client = this.getClient();
+    const embeddings: number[][] = [];
+
+    try {
+      for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+        const response = await client.embeddings.create({
+          model: this.config.embeddingModel,
+          input: texts.slice(i, i + EMBEDDING_BATCH_SIZE),
+        });
+
+        const batch = [...response.data].sort((a, b) => a.index - b.index);
+        embeddings.push(...batch.map(item => item.embedding));
+      }
+
+      return embeddings;
+    } catch (error) {
+      this.logger.error('Embeddings API error:', error);
+
+      if (error.status === 429) {
+        throw new Error('AI service rate limit exceeded. Please try again in a moment.');
+      }
+
+      throw new Error('Failed to create embeddings. Please try again.');
+    }
+  }
+
+  /**
+   * Client for the provider's endpoint, built on first use
+   */
+  protected createClient(): OpenAI {
+    return new OpenAI({
+      apiKey: this.config.apiKey ?? undefined,
+      timeout: 120000, // 2 minutes timeout for API calls
+      maxRetries: 2, // Retry failed requests twice
+    });
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      if (!this.isConfigured()) {
+        throw new Error('AI service is not configured. Please contact support.');
+      }
+      this.client = this.createClient();
+    }
+    return this.client;
+  }
+
+  private toResponseFormat(options?: LlmChatOptions): Pick<OpenAI.Chat.Completions.ChatCompletionCreateParams, 'response_format'> {
+    if (options?.jsonSchema) {
+      return {
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: options.jsonSchema.name, schema: options.jsonSchema.schema, strict: true },
+        },
+      };
+    }
+    return options?.jsonMode ? { response_format: { type: 'json_object' } } : {};
+  }
+
+  private toMessageParam(message: ChatMessage): OpenAI.Chat.Completions.ChatCompletionMessageParam {
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    }
+
+    if (message.role === 'assistant') {
+      return {
+        role: 'assistant',
+        content: message.content,
+        ...(message.toolCalls && message.toolCalls.length > 0
+          ? {
+            tool_calls: message.toolCalls.map(call => ({
+              id: call.id,
+              type: 'function' as const,
+              function: { name: call.name, arguments: call.arguments },
+            })),
+          }
+          : {}),
+      };
+    }
+
+    return { role: message.role, content: message.content };
+  }
+
+  private toToolParam(tool: ChatToolDefinition): OpenAI.Chat.Completions.ChatCompletionTool {
+    return {
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: { ...tool.parameters } },
+    };
+  }
+
+  private toServiceError(error: { message?: string; status?: number }): Error {
+    if (error.message?.includes('timeout')) {
+      return new Error('AI service request timed out. Please try again.');
+    }
+    if (error.message?.includes('network')) {
+      return new Error('Network error connecting to AI service. Please check your connection.');
+    }
+    if (error.status === 429) {
+      return new Error('AI service rate limit exceeded. Please try again in a moment.');
+    }
+    if (error.status === 401) {
+      return new Error('AI service authentication failed. Please contact support.');
+    }
+
+    return new Error('Failed to get response from AI service. Please try again.');
+  }
+}
@@ -0,0 +1,64 @@
+import { ConfigService } from '@nestjs/config';
+import { ChatCitationService } from './chat-citation.service';
+import { CitationSource } from '../interfaces/citation.interface';
+import { SlackMessage } from '../../slack/entities/slack-message.entity';
+import { JiraIssue } from '../../jira/entities/jira-issue.entity';
+
+describe('ChatCitationService', () => {
+  const service = new ChatCitationService({ get: jest.fn(() => 'https://app.nexsentia.test') } as unknown as ConfigService);
+
+  const sources: CitationSource[] = [
+    { ref: 'signal:42', type: 'weak_signal', sourceId: '42', title: 'Checkout latency', url: null },
+    { ref: 'INC0010123', type: 'servicenow_incident', sourceId: '5', title: 'Checkout down', url: null },
+    { ref: 'PAY-7', type: 'jira_issue', sourceId: '9', title: 'Retry storm', url: null },
+  ];
+
+  const spanTexts = (answer: string) =>
+    Object.fromEntries(service.buildCitations(answer, sources).map(citation => [citation.ref, citation.spans.map(span => span.text)]));
+
+  it('should attach each marker to the statement before it', () => {
+    const answer = '## Checkout\n- Latency doubled this week [signal:42] [INC0010123].\n- Retries pile up. The fix is planned [PAY-7]';
+
+    expect(spanTexts(answer)).toEqual({
+      'signal:42': ['Latency doubled this week'],
+      INC0010123: ['Latency doubled this week'],
+      'PAY-7': ['The fix is planned'],
+    });
+  });
+
+  it('should report offsets into the answer', () => {
+    const answer = 'Latency doubled. Checkout failed [INC0010123].';
+    const [citation] = service.buildCitations(answer, sources);
+
+    expect(citation.spans).toEqual([{ start: 17, end: 32, text: 'Checkout failed' }]);
+    expect(answer.slice(17, 32)).toBe('Checkout failed');
+  });
+
+  it('should cite bare incident numbers and Jira keys, but ignore unknown refs and links', () => {
+    const answer = 'INC0010123 is linked to PAY-7 and PAY-8 [signal:7]. See [the runbook](https://wiki) [signal:42, PAY-7]';
+    const citations = service.buildCitations(answer, sources);
+
+    expect(citations.map(citation => citation.ref)).toEqual(['INC0010123', 'PAY-7', 'signal:42']);
+    expect(citations[1].spans.map(span => span.text)).toEqual(['PAY-7', 'See [the runbook](https://wiki)']);
+  });
+
+  it('should build permalinks to the source systems', () => {
+    const message = {
+      slackChannelId: 'C024BE91L',
+      slackMessageTs: '1712345678.000200',
+      slackThreadTs: '1712345600.000100',
+      isThreadReply: true,
+      channel: { connection: { teamDomain: 'acme' } },
+    } as unknown as SlackMessage;
+    const issue = {
+      jiraIssueKey: 'PAY-7',
+      project: { connection: { jiraInstanceUrl: 'https://api.atlassian.com/ex/jira/1', oauthMetadata: { workspaceUrl: 'https://acme.atlassian.net' } } },
+    } as unknown as JiraIssue;
+
+    expect(service.slackPermalink(message)).toBe(
+      'https://acme.slack.com/archives/C024BE91L/p1712345678000200?thread_ts=1712345600.000100&cid=C024BE91L',
+    );
+    expect(service.jiraIssueUrl(issue)).toBe('https://acme.atlassian.net/browse/PAY-7');
+    expect(service.signalUrl(42)).toBe('https://app.nexsentia.test/weak-signals/42');
+  });
+});
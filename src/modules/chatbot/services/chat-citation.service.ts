@@ -0,0 +1,160 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JiraIssue } from '../../jira/entities/jira-issue.entity';
+import { ServiceNowIncident } from '../../servicenow/entities/servicenow-incident.entity';
+import { SlackMessage } from '../../slack/entities/slack-message.entity';
+import { Citation, CitationSource, CitationSpan } from '../interfaces/citation.interface';
+
+/**
+ * Citation markers the model writes after a statement, e.g. [INC0010123] or [signal:42, PROJ-7]
+ */
+const MARKER_PATTERN = /\[([^\[\]\n]+)\](?!\()/g;
+
+/**
+ * Incident numbers and Jira keys are recognisable without a marker too
+ */
+const NATURAL_REF_PATTERN = /\b(?:[A-Z]{2,10}\d{5,}|[A-Z][A-Z0-9]{1,9}-\d+)\b/g;
+
+/**
+ * Where a statement starts: a new line, the end of the previous sentence or a table cell
+ */
+const STATEMENT_BOUNDARY = /(?:\n|[.!?](?=\s)|\|)/g;
+
+/**
+ * Links for the records the chatbot cites, and the spans of the answer each citation supports
+ */
+@Injectable()
+export class ChatCitationService {
+  private readonly appUrl: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.appUrl = this.configService.get<string>('APP_URL') || 'http://localhost:3001';
+  }
+
+  signalUrl(signalId: number): string {
+    return `${this.appUrl}/weak-signals/${signalId}`;
+  }
+
+  /**
+   * Requires the connection relation to be loaded
+   */
+  incidentUrl(incident: ServiceNowIncident): string | null {
+    const instanceUrl = incident.connection?.instanceUrl;
+    if (!instanceUrl || !incident.sysId) {
+      return null;
+    }
+
+    return `${instanceUrl.replace(/\/+$/, '')}/nav_to.do?uri=incident.do?sys_id=${incident.sysId}`;
+  }
+
+  /**
+   * Requires the project.connection relation to be loaded
+   */
+  jiraIssueUrl(issue: JiraIssue): string | null {
+    const connection = issue.project?.connection;
+    const baseUrl = connection?.oauthMetadata?.workspaceUrl || connection?.jiraInstanceUrl;
+    if (!baseUrl) {
+      return null;
+    }
+
+    return `${baseUrl.replace(/\/+$/, '')}/browse/${issue.jiraIssueKey}`;
+  }
+
+  /**
+   * Requires the channel.connection relation to be loaded
+   */
+  slackPermalink(message: SlackMessage): string | null {
+    const connection = message.channel?.connection;
+    if (!connection || !message.slackChannelId || !message.slackMessageTs) {
+      return null;
+    }
+
+    const workspaceUrl = connection.teamDomain
+      ? `https://${connection.teamDomain}.slack.com`
+      : 'https://slack.com';
+    const threadQuery = message.isThreadReply && message.slackThreadTs
+      ? `?thread_ts=${message.slackThreadTs}&cid=${message.slackChannelId}`
+      : '';
+
+    return `${workspaceUrl}/archives/${message.slackChannelId}/p${message.slackMessageTs.replace('.', '')}${threadQuery}`;
+  }
+
+  /**
+   * Citations of the sources the answer refers to, in order of first reference. A source
+   * counts as referenced when its ref appears in a [marker], which supports the statement
+   * before the marker, or, for incident numbers and Jira keys, anywhere in the text.
+   * Refs the tools did not return are ignored, so the model cannot cite made-up records.
+   */
+  buildCitations(answer: string, sources: CitationSource[]): Citation[] {
+    const byRef = new Map<string, CitationSource>();
+    for (const source of sources) {
+      byRef.set(source.ref.toLowerCase(), source);
+    }
+
+    const spans = new Map<string, CitationSpan[]>();
+    const addSpan = (source: CitationSource, start: number, end: number) => {
+      const key = source.ref.toLowerCase();
+      const existing = spans.get(key) || [];
+      if (end > start && !existing.some(span => span.start === start && span.end === end)) {
+        existing.push({ start, end, text: answer.slice(start, end) });
+        spans.set(key, existing);
+      }
+    };
+
+    const markerRanges: Array<[number, number]> = [];
+    for (const match of answer.matchAll(MARKER_PATTERN)) {
+      const markerStart = match.index!;
+      const refs = match[1].split(/[,;]/).map(ref => ref.trim().toLowerCase());
+      const cited = refs.map(ref => byRef.get(ref)).filter((source): source is CitationSource => !!source);
+      if (cited.length === 0) {
+        continue;
+      }
+
+      markerRanges.push([markerStart, markerStart + match[0].length]);
+      const [start, end] = this.statementBefore(answer, markerStart);
+      for (const source of cited) {
+        addSpan(source, start, end);
+      }
+    }
+
+    for (const match of answer.matchAll(NATURAL_REF_PATTERN)) {
+      const start = match.index!;
+      const source = byRef.get(match[0].toLowerCase());
+      if (source && !markerRanges.some(([from, to]) => start >= from && start < to)) {
+        addSpan(source, start, start + match[0].length);
+      }
+    }
+
+    return [...spans.entries()]
+      .map(([key, sourceSpans]) => ({ ...byRef.get(key)!, spans: sourceSpans.sort((a, b) => a.start - b.start) }))
+      .sort((a, b) => a.spans[0].start - b.spans[0].start);
+  }
+
+  /**
+   * Range of the statement ending at a marker, without surrounding whitespace, list
+   * bullets and adjacent markers
+   */
+  private statementBefore(answer: string, markerStart: number): [number, number] {
+    let end = markerStart;
+    for (;;) {
+      while (end > 0 && /\s/.test(answer[end - 1])) {
+        end--;
+      }
+      const trailingMarker = /\[[^\[\]\n]*\]$/.exec(answer.slice(0, end));
+      if (!trailingMarker) {
+        break;
+      }
+      end -= trailingMarker[0].length;
+    }
+
+    let start = 0;
+    for (const boundary of answer.slice(0, end).matchAll(STATEMENT_BOUNDARY)) {
+      start = boundary.index! + boundary[0].length;
+    }
+
+    const leading = /^(?:\s|[-*>]\s|\d+\.\s)*/.exec(answer.slice(start, end));
+    start += leading ? leading[0].length : 0;
+
+    return [start, end];
+  }
+}
@@ -0,0 +1,232 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, LessThan } from 'typeorm';
+import { ChatbotService } from './chatbot.service';
+import { ChatToolRegistryService } from './chat-tool-registry.service';
+import { OpenAIService } from './openai.service';
+import { ChatEvaluationRun } from '../entities/chat-evaluation-run.entity';
+import { FakeLlmProvider } from '../providers/fake-llm.provider';
+import { FixtureToolExecutor } from '../evaluation/fixture-tool-executor';
+import { GOLDEN_SET } from '../evaluation/golden-set';
+import { LlmProvider } from '../interfaces/llm-provider.interface';
+import { ChatEvaluationCaseResult, ChatEvaluationScores, GoldenCase } from '../interfaces/chat-evaluation.interface';
+import {
+  ChatEvaluationRunDto,
+  ChatEvaluationRunListDto,
+  ChatEvaluationRunSummaryDto,
+  GetChatEvaluationsQueryDto,
+  RunChatEvaluationDto,
+} from '../dto/chat-evaluation.dto';
+
+/**
+ * Citation markers in an answer, whether or not a tool returned the record
+ */
+const MARKER_PATTERN = /\[([^\[\]\n]+)\](?!\()/g;
+
+/**
+ * Refs the chatbot cites: `<kind>:<id>`, incident numbers and Jira keys
+ */
+const REF_PATTERN = /^(?:[a-z_]+:.+|[A-Z]{2,10}\d{5,}|[A-Z][A-Z0-9]{1,9}-\d+)$/;
+
+/**
+ * Replays the golden set through the chatbot with fixture tools, scores retrieval and
+ * citations, and keeps each run so scores can be compared across prompt versions
+ */
+@Injectable()
+export class ChatEvaluationService {
+  private readonly logger = new Logger(ChatEvaluationService.name);
+
+  constructor(
+    @InjectRepository(ChatEvaluationRun)
+    private readonly evaluationRunRepository: Repository<ChatEvaluationRun>,
+    private readonly chatbotService: ChatbotService,
+    private readonly toolRegistry: ChatToolRegistryService,
+    private readonly openaiService: OpenAIService,
+  ) {}
+
+  async run(
+    tenantId: number,
+    userId: number,
+    dto: RunChatEvaluationDto,
+    cases: GoldenCase[] = GOLDEN_SET,
+  ): Promise<ChatEvaluationRunDto> {
+    const llmMode = dto.llm || 'fake';
+    const definitions = this.toolRegistry.getDefinitions();
+    const tenantLlm = llmMode === 'tenant'
+      ? await this.openaiService.forTenant(tenantId, { feature: 'evaluation', userId })
+      : null;
+
+    const results: ChatEvaluationCaseResult[] = [];
+    for (const goldenCase of cases) {
+      const llm = tenantLlm || new FakeLlmProvider().queue(...goldenCase.script);
+      results.push(await this.runCase(tenantId, userId, goldenCase, llm, new FixtureToolExecutor(definitions, goldenCase.toolResults)));
+    }
+
+    const run = await this.evaluationRunRepository.save(
+      this.evaluationRunRepository.create({
+        tenantId,
+        label: dto.label?.trim() || null,
+        promptVersion: this.chatbotService.getPromptVersion(),
+        llm: llmMode,
+        provider: tenantLlm ? tenantLlm.name : 'fake',
+        model: tenantLlm ? tenantLlm.getModel() : new FakeLlmProvider().getModel(),
+        caseCount: results.length,
+        passedCount: results.filter(result => result.passed).length,
+        retrievalHitRate: this.average(results.map(result => result.retrievalHitRate)),
+        citationPrecision: this.average(results.map(result => result.citationPrecision)),
+        citationRecall: this.average(results.map(result => result.citationRecall)),
+        results,
+        createdBy: userId,
+      }),
+    );
+
+    this.logger.log(
+      `Evaluation run ${run.id} of tenant ${tenantId}: ${run.passedCount}/${run.caseCount} cases passed (prompt ${run.promptVersion})`,
+    );
+    return this.toRunDto(run);
+  }
+
+  /**
+   * Runs of the tenant, newest first, without the case results
+   */
+  async listRuns(tenantId: number, query: GetChatEvaluationsQueryDto): Promise<ChatEvaluationRunListDto> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const [runs, total] = await this.evaluationRunRepository.findAndCount({
+      where: {
+        tenantId,
+        ...(query.promptVersion ? { promptVersion: query.promptVersion } : {}),
+        ...(query.llm ? { llm: query.llm } : {}),
+      },
+      order: { createdAt: 'DESC', id: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      runs: runs.map(run => this.toSummaryDto(run)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async getRun(tenantId: number, id: number): Promise<ChatEvaluationRunDto> {
+    const run = await this.evaluationRunRepository.findOne({ where: { tenantId, id } });
+    if (!run) {
+      throw new NotFoundException(`Evaluation run ${id} not found`);
+    }
+    return this.toRunDto(run);
+  }
+
+  private async runCase(
+    tenantId: number,
+    userId: number,
+    goldenCase: GoldenCase,
+    llm: LlmProvider,
+    tools: FixtureToolExecutor,
+  ): Promise<ChatEvaluationCaseResult> {
+    try {
+      const result = await this.chatbotService.answer({ tenantId, userId }, goldenCase.question, llm, tools);
+      const retrievedRefs = [...new Set(result.executions.flatMap(execution => (execution.result?.citations || []).map(citation => citation.ref)))];
+      const citedRefs = result.citations.map(citation => citation.ref);
+      const unresolvedRefs = this.markedRefs(result.content).filter(ref => !retrievedRefs.includes(ref));
+      const scores = this.score(goldenCase.expectedRefs, retrievedRefs, citedRefs, unresolvedRefs);
+
+      return {
+        caseId: goldenCase.id,
+        passed: scores.retrievalHitRate === 1 && scores.citationPrecision === 1,
+        ...scores,
+        toolCalls: result.executions.map(execution => execution.name),
+        retrievedRefs,
+        citedRefs,
+        unresolvedRefs,
+        answer: result.content,
+        error: null,
+      };
+    } catch (error) {
+      this.logger.warn(`Evaluation case ${goldenCase.id} failed: ${error.message}`);
+      return {
+        caseId: goldenCase.id,
+        passed: false,
+        retrievalHitRate: 0,
+        citationPrecision: 0,
+        citationRecall: 0,
+        toolCalls: [],
+        retrievedRefs: [],
+        citedRefs: [],
+        unresolvedRefs: [],
+        answer: '',
+        error: error.message,
+      };
+    }
+  }
+
+  /**
+   * A case without expected refs scores 1 as long as the answer cites nothing
+   */
+  private score(expected: string[], retrieved: string[], cited: string[], unresolved: string[]): ChatEvaluationScores {
+    const share = (part: number, whole: number, empty: number) => (whole === 0 ? empty : part / whole);
+    const citations = cited.length + unresolved.length;
+
+    return {
+      retrievalHitRate: share(expected.filter(ref => retrieved.includes(ref)).length, expected.length, 1),
+      citationPrecision: share(cited.filter(ref => expected.includes(ref)).length, citations, expected.length === 0 ? 1 : 0),
+      citationRecall: share(expected.filter(ref => cited.includes(ref)).length, expected.length, 1),
+    };
+  }
+
+  private markedRefs(content: string): string[] {
+    const refs = new Set<string>();
+    for (const match of content.matchAll(MARKER_PATTERN)) {
+      for (const token of match[1].split(/[,;]/)) {
+        const ref = token.trim();
+        if (REF_PATTERN.test(ref)) {
+          refs.add(ref);
+        }
+      }
+    }
+    return [...refs];
+  }
+
+  private average(values: number[]): number {
+    return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  }
+
+  private async toRunDto(run: ChatEvaluationRun): Promise<ChatEvaluationRunDto> {
+    const previous = await this.evaluationRunRepository.findOne({
+      where: { tenantId: run.tenantId, llm: run.llm, id: LessThan(run.id) },
+      order: { id: 'DESC' },
+    });
+    const failed = new Set(run.results.filter(result => !result.passed).map(result => result.caseId));
+
+    return {
+      ...this.toSummaryDto(run),
+      results: run.results,
+      previousRunId: previous?.id || null,
+      regressions: previous
+        ? previous.results.filter(result => result.passed && failed.has(result.caseId)).map(result => result.caseId)
+        : [],
+    };
+  }
+
+  private toSummaryDto(run: ChatEvaluationRun): ChatEvaluationRunSummaryDto {
+    return {
+      id: run.id,
+      label: run.label || null,
+      promptVersion: run.promptVersion,
+      llm: run.llm,
+      provider: run.provider,
+      model: run.model,
+      caseCount: run.caseCount,
+      passedCount: run.passedCount,
+      retrievalHitRate: run.retrievalHitRate,
+      citationPrecision: run.citationPrecision,
+      citationRecall: run.citationRecall,
+      createdBy: run.createdBy ?? null,
+      createdAt: run.createdAt,
+    };
+  }
+}
@@ -0,0 +1,222 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { PiiDetectionService } from '../../privacy/services/pii-detection.service';
+import { AuditService } from '../../audit/audit.service';
+import { AuditAction } from '../../../common/enums';
+import { ChatToolContext } from '../interfaces/chat-tool.interface';
+import {
+  GuardrailFinding,
+  GuardrailRule,
+  GuardrailStage,
+  StreamRedactor,
+} from '../interfaces/chat-guardrail.interface';
+
+/**
+ * Tag tool results are wrapped in; the system prompt tells the model that text inside it is data
+ */
+export const UNTRUSTED_DATA_TAG = 'untrusted-data';
+
+const INJECTION_RULES: GuardrailRule[] = [
+  {
+    id: 'ignore_instructions',
+    description: 'Asks to ignore or override the instructions',
+    pattern: /\b(?:ignore|disregard|forget|override|bypass)\b[^.\n]{0,40}?\b(?:previous|prior|above|earlier|preceding|all|any|your|system)\b[^.\n]{0,20}?\b(?:instructions?|prompts?|rules|directions|guidelines|guardrails)\b/gi,
+  },
+  {
+    id: 'role_override',
+    description: 'Gives the assistant a new role or new instructions',
+    pattern: /\byou are (?:now|no longer)\b|\bfrom now on,? (?:you|the assistant)\b|\b(?:new|updated|real|actual) (?:system )?instructions\s*:/gi,
+  },
+  {
+    id: 'prompt_exfiltration',
+    description: 'Asks for the system prompt',
+    pattern: /\b(?:reveal|print|show|repeat|output|leak|dump)\b[^.\n]{0,30}?\b(?:system prompt|hidden instructions|your instructions|initial prompt|developer message)\b/gi,
+  },
+  {
+    id: 'chat_markup',
+    description: 'Chat template tokens or role tags, including a fake end of the untrusted data',
+    pattern: new RegExp(`<\\|(?:im_start|im_end|system|endoftext)\\|>|\\[\\/?INST\\]|<\\/?(?:system|assistant|${UNTRUSTED_DATA_TAG})\\b[^>]*>`, 'gi'),
+  },
+  {
+    id: 'exfiltration_link',
+    description: 'Markdown image that would send data to another site when rendered',
+    pattern: /!\[[^\]]*\]\(\s*https?:\/\/[^)\s]+\)/gi,
+  },
+];
+
+const NEUTRALIZED = '[removed: possible prompt injection]';
+
+/**
+ * Streamed text within this many characters of the end is held back, so that PII completed
+ * by the next tokens (e.g. the last digits of a phone number) is still redacted
+ */
+const STREAM_HOLD_BACK_CHARS = 40;
+
+const MAX_AUDITED_MATCH_LENGTH = 200;
+
+/**
+ * Guards the chatbot against instructions hidden in retrieved data and against leaking
+ * PII in answers. Blocked and redacted content is recorded in the audit log.
+ */
+@Injectable()
+export class ChatGuardrailService {
+  private readonly logger = new Logger(ChatGuardrailService.name);
+
+  constructor(
+    private readonly piiDetectionService: PiiDetectionService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * Injection patterns found in a text
+   */
+  scan(text: string): GuardrailFinding[] {
+    const findings: GuardrailFinding[] = [];
+
+    for (const rule of INJECTION_RULES) {
+      for (const match of text.matchAll(rule.pattern)) {
+        findings.push({ rule: rule.id, match: match[0].substring(0, MAX_AUDITED_MATCH_LENGTH) });
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * Refuse a user message that tries to change the assistant's instructions, before it
+   * reaches the model
+   */
+  async checkUserMessage(context: ChatToolContext, message: string): Promise<void> {
+    const findings = this.scan(message);
+    if (findings.length === 0) {
+      return;
+    }
+
+    this.logger.warn(`Blocked chat message of user ${context.userId} (tenant ${context.tenantId}): ${this.ruleIds(findings)}`);
+    await this.audit(context, AuditAction.PROMPT_INJECTION_BLOCKED, 'user_message', { findings });
+
+    throw new BadRequestException(
+      'The message was blocked because it tries to change the assistant\'s instructions. Please rephrase your question.',
+    );
+  }
+
+  /**
+   * Tool result as content of a tool message: injection attempts in the retrieved records
+   * are removed and the rest is delimited as untrusted data
+   */
+  async wrapToolResult(context: ChatToolContext, toolName: string, data: unknown): Promise<string> {
+    const findings: GuardrailFinding[] = [];
+    const neutralized = this.neutralize(data, findings);
+
+    if (findings.length > 0) {
+      this.logger.warn(`Removed injection attempts from ${toolName} result (tenant ${context.tenantId}): ${this.ruleIds(findings)}`);
+      await this.audit(context, AuditAction.PROMPT_INJECTION_BLOCKED, 'tool_result', { tool: toolName, findings });
+    }
+
+    return `<${UNTRUSTED_DATA_TAG} source="${toolName}">\n${JSON.stringify(neutralized)}\n</${UNTRUSTED_DATA_TAG}>`;
+  }
+
+  /**
+   * Answer with PII replaced by placeholders, e.g. [EMAIL]
+   */
+  async redactAnswer(context: ChatToolContext, content: string): Promise<string> {
+    const redacted = this.piiDetectionService.redact(content);
+    if (redacted === content) {
+      return content;
+    }
+
+    const placeholders = [...new Set(redacted.match(/\[[A-Z0-9_]+\]/g) || [])].filter(placeholder => !content.includes(placeholder));
+    await this.audit(context, AuditAction.PII_REDACTED, 'answer', { placeholders });
+
+    return redacted;
+  }
+
+  /**
+   * Redact streamed tokens the same way as redactAnswer. Text is sent once it ends before
+   * the hold-back window at a point no PII match spans.
+   */
+  createStreamRedactor(onToken: (token: string) => void): StreamRedactor {
+    let pending = '';
+
+    const send = (text: string) => {
+      if (text) {
+        onToken(this.piiDetectionService.redact(text));
+      }
+    };
+
+    return {
+      push: (token: string) => {
+        pending += token;
+        const cut = this.safeCut(pending);
+        if (cut > 0) {
+          send(pending.substring(0, cut));
+          pending = pending.substring(cut);
+        }
+      },
+      flush: () => {
+        send(pending);
+        pending = '';
+      },
+    };
+  }
+
+  /**
+   * Last whitespace before the hold-back window where splitting the text does not change
+   * its redaction, or 0
+   */
+  private safeCut(text: string): number {
+    const redacted = this.piiDetectionService.redact(text);
+
+    for (let i = text.length - STREAM_HOLD_BACK_CHARS, tried = 0; i > 0 && tried < 3; i--) {
+      if (!/\s/.test(text[i - 1])) {
+        continue;
+      }
+      tried++;
+      if (this.piiDetectionService.redact(text.substring(0, i)) + this.piiDetectionService.redact(text.substring(i)) === redacted) {
+        return i;
+      }
+    }
+
+    return 0;
+  }
+
+  private neutralize(value: unknown, findings: GuardrailFinding[]): unknown {
+    if (typeof value === 'string') {
+      const found = this.scan(value);
+      if (found.length === 0) {
+        return value;
+      }
+      findings.push(...found);
+      return INJECTION_RULES.reduce((text, rule) => text.replace(rule.pattern, NEUTRALIZED), value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.neutralize(item, findings));
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.neutralize(item, findings)]));
+    }
+    return value;
+  }
+
+  private ruleIds(findings: GuardrailFinding[]): string {
+    return [...new Set(findings.map(finding => finding.rule))].join(', ');
+  }
+
+  /**
+   * Audit failures are logged, never thrown, so that they do not fail the chat
+   */
+  private async audit(
+    context: ChatToolContext,
+    action: AuditAction,
+    stage: GuardrailStage,
+    metadata: Record<string, any>,
+  ): Promise<void> {
+    try {
+      await this.auditService.log(context.tenantId, action, 'chatbot', {
+        userId: context.userId,
+        metadata: { stage, ...metadata },
+      });
+    } catch (error) {
+      this.logger.error(`Failed to write guardrail audit log: ${error.message}`);
+    }
+  }
+}
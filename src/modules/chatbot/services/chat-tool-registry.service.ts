@@ -0,0 +1,158 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  ChatTool,
+  ChatToolCall,
+  ChatToolContext,
+  ChatToolDefinition,
+  ChatToolExecution,
+  ChatToolExecutor,
+  ChatToolParameterSchema,
+  ChatToolParametersSchema,
+} from '../interfaces/chat-tool.interface';
+import { SearchWeakSignalsTool } from '../tools/search-weak-signals.tool';
+import { GetIncidentTool } from '../tools/get-incident.tool';
+import { SearchJiraIssuesTool } from '../tools/search-jira-issues.tool';
+import { SearchCommunicationsTool } from '../tools/search-communications.tool';
+import { GetMetricValuesTool } from '../tools/get-metric-values.tool';
+import { GetTeamImpactTool } from '../tools/get-team-impact.tool';
+import { TraverseGraphTool } from '../tools/traverse-graph.tool';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Tools the chatbot model can call. Arguments from the model are validated against each
+ * tool's definition before it runs, and failures are reported back to the model instead
+ * of failing the conversation.
+ */
+@Injectable()
+export class ChatToolRegistryService implements ChatToolExecutor {
+  private readonly logger = new Logger(ChatToolRegistryService.name);
+  private readonly tools = new Map<string, ChatTool<unknown>>();
+
+  constructor(
+    searchWeakSignalsTool: SearchWeakSignalsTool,
+    getIncidentTool: GetIncidentTool,
+    searchJiraIssuesTool: SearchJiraIssuesTool,
+    searchCommunicationsTool: SearchCommunicationsTool,
+    getMetricValuesTool: GetMetricValuesTool,
+    getTeamImpactTool: GetTeamImpactTool,
+    traverseGraphTool: TraverseGraphTool,
+  ) {
+    const tools = [
+      searchWeakSignalsTool,
+      getIncidentTool,
+      searchJiraIssuesTool,
+      searchCommunicationsTool,
+      getMetricValuesTool,
+      getTeamImpactTool,
+      traverseGraphTool,
+    ];
+    for (const tool of tools) {
+      this.tools.set(tool.definition.name, tool);
+    }
+  }
+
+  getDefinitions(): ChatToolDefinition[] {
+    return [...this.tools.values()].map(tool => tool.definition);
+  }
+
+  async execute(call: ChatToolCall, context: ChatToolContext): Promise<ChatToolExecution> {
+    const execution: ChatToolExecution = { toolCallId: call.id, name: call.name, arguments: null, result: null, error: null };
+
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      execution.error = `Unknown tool: ${call.name}`;
+      return execution;
+    }
+
+    let rawArgs: unknown;
+    try {
+      rawArgs = call.arguments ? JSON.parse(call.arguments) : {};
+    } catch {
+      execution.error = 'Arguments are not valid JSON';
+      return execution;
+    }
+
+    try {
+      execution.arguments = this.validateArguments(tool.definition.parameters, rawArgs);
+    } catch (error) {
+      execution.error = error.message;
+      return execution;
+    }
+
+    try {
+      execution.result = await tool.execute(execution.arguments, context);
+    } catch (error) {
+      this.logger.error(`Tool ${call.name} failed for tenant ${context.tenantId}: ${error.message}`, error.stack);
+      execution.error = 'The tool failed to retrieve the data';
+    }
+
+    return execution;
+  }
+
+  /**
+   * Keep only declared arguments, so nothing the model adds (such as a tenant id) reaches a tool
+   */
+  private validateArguments(schema: ChatToolParametersSchema, rawArgs: unknown): Record<string, unknown> {
+    if (typeof rawArgs !== 'object' || rawArgs === null || Array.isArray(rawArgs)) {
+      throw new Error('Arguments must be a JSON object');
+    }
+
+    const args: Record<string, unknown> = {};
+    for (const [key, property] of Object.entries(schema.properties)) {
+      const value = (rawArgs as Record<string, unknown>)[key];
+      if (value === undefined || value === null || value === '') {
+        continue;
+      }
+      args[key] = this.validateValue(key, property, value);
+    }
+
+    const missing = (schema.required || []).filter(key => args[key] === undefined);
+    if (missing.length > 0) {
+      throw new Error(`Missing required arguments: ${missing.join(', ')}`);
+    }
+
+    return args;
+  }
+
+  private validateValue(key: string, property: ChatToolParameterSchema, value: unknown): unknown {
+    switch (property.type) {
+      case 'string': {
+        if (typeof value !== 'string') {
+          throw new Error(`${key} must be a string`);
+        }
+        if (property.maxLength !== undefined && value.length > property.maxLength) {
+          throw new Error(`${key} must be at most ${property.maxLength} characters`);
+        }
+        if (property.enum && !property.enum.includes(value)) {
+          throw new Error(`${key} must be one of: ${property.enum.join(', ')}`);
+        }
+        if (property.format === 'date' && (!DATE_PATTERN.test(value) || isNaN(Date.parse(value)))) {
+          throw new Error(`${key} must be a date formatted YYYY-MM-DD`);
+        }
+        return value;
+      }
+
+      case 'integer':
+      case 'number': {
+        const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+        if (typeof number !== 'number' || !Number.isFinite(number) || (property.type === 'integer' && !Number.isInteger(number))) {
+          throw new Error(`${key} must be ${property.type === 'integer' ? 'an integer' : 'a number'}`);
+        }
+        if (property.minimum !== undefined && number < property.minimum) {
+          throw new Error(`${key} must be at least ${property.minimum}`);
+        }
+        if (property.maximum !== undefined && number > property.maximum) {
+          throw new Error(`${key} must be at most ${property.maximum}`);
+        }
+        return number;
+      }
+
+      case 'boolean': {
+        if (value === true || value === 'true') return true;
+        if (value === false || value === 'false') return false;
+        throw new Error(`${key} must be a boolean`);
+      }
+    }
+  }
+}
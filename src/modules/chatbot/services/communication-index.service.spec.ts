@@ -0,0 +1,204 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { In } from 'typeorm';
+import { CommunicationIndexService } from './communication-index.service';
+import { OpenAIService } from './openai.service';
+import { ChatCitationService } from './chat-citation.service';
+import { CommunicationChunk } from '../entities/communication-chunk.entity';
+import { CommunicationChunkTerm } from '../entities/communication-chunk-term.entity';
+import { CommunicationIndexCursor } from '../entities/communication-index-cursor.entity';
+import { Tenant } from '../../tenants/entities/tenant.entity';
+import { SlackMessage } from '../../slack/entities/slack-message.entity';
+import { TeamsMessage } from '../../teams/entities/teams-message.entity';
+import { GmailMessage } from '../../gmail/entities/gmail-message.entity';
+import { OutlookMessage } from '../../outlook/entities/outlook-message.entity';
+import { PiiDetectionService } from '../../privacy/services/pii-detection.service';
+import { PiiDetectionLog } from '../../privacy/entities/pii-detection-log.entity';
+
+describe('CommunicationIndexService', () => {
+  let service: CommunicationIndexService;
+
+  const queryBuilder = () => {
+    const builder: Record<string, jest.Mock> = {};
+    for (const method of ['select', 'addSelect', 'where', 'andWhere', 'innerJoin', 'leftJoinAndSelect', 'withDeleted', 'orderBy', 'addOrderBy', 'take', 'limit']) {
+      builder[method] = jest.fn().mockReturnThis();
+    }
+    builder.getMany = jest.fn();
+    builder.getRawOne = jest.fn();
+    builder.getRawMany = jest.fn();
+    return builder;
+  };
+
+  const slackQueryBuilder = queryBuilder();
+  const statsQueryBuilder = queryBuilder();
+  const postingsQueryBuilder = queryBuilder();
+
+  const mockChunkRepository = {
+    createQueryBuilder: jest.fn(() => statsQueryBuilder),
+    find: jest.fn(),
+    create: jest.fn((data: Partial<CommunicationChunk>) => data),
+    save: jest.fn((chunk: Partial<CommunicationChunk>) => Promise.resolve({ id: 100, ...chunk })),
+    delete: jest.fn(),
+    update: jest.fn(),
+  };
+  const mockTermRepository = {
+    createQueryBuilder: jest.fn(() => postingsQueryBuilder),
+    insert: jest.fn(),
+    delete: jest.fn(),
+  };
+  const mockCursorRepository = {
+    findOne: jest.fn(),
+    create: jest.fn((data: Partial<CommunicationIndexCursor>) => data),
+    save: jest.fn((cursor: Partial<CommunicationIndexCursor>) => Promise.resolve(cursor)),
+  };
+  const mockOpenAIService = { forTenant: jest.fn() };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CommunicationIndexService,
+        PiiDetectionService,
+        ChatCitationService,
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: SchedulerRegistry, useValue: { addCronJob: jest.fn() } },
+        { provide: OpenAIService, useValue: mockOpenAIService },
+        { provide: getRepositoryToken(CommunicationChunk), useValue: mockChunkRepository },
+        { provide: getRepositoryToken(CommunicationChunkTerm), useValue: mockTermRepository },
+        { provide: getRepositoryToken(CommunicationIndexCursor), useValue: mockCursorRepository },
+        { provide: getRepositoryToken(Tenant), useValue: { find: jest.fn() } },
+        { provide: getRepositoryToken(SlackMessage), useValue: { createQueryBuilder: jest.fn(() => slackQueryBuilder) } },
+        { provide: getRepositoryToken(TeamsMessage), useValue: { createQueryBuilder: jest.fn() } },
+        { provide: getRepositoryToken(GmailMessage), useValue: { createQueryBuilder: jest.fn() } },
+        { provide: getRepositoryToken(OutlookMessage), useValue: { createQueryBuilder: jest.fn() } },
+        { provide: getRepositoryToken(PiiDetectionLog), useValue: { create: jest.fn(), save: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<CommunicationIndexService>(CommunicationIndexService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should tokenize into stemmed terms without stopwords and redaction placeholders', () => {
+    expect(service.tokenize('The payments outage is failing checkouts for [EMAIL] since 09:30')).toEqual([
+      'payment',
+      'outage',
+      'fail',
+      'checkout',
+      'since',
+      '09',
+      '30',
+    ]);
+  });
+
+  describe('indexSource', () => {
+    it('should index changed messages with PII redacted and drop deleted ones', async () => {
+      const updatedAt = new Date('2026-10-14T10:00:00Z');
+      mockCursorRepository.findOne.mockResolvedValueOnce(null);
+      slackQueryBuilder.getMany.mockResolvedValueOnce([
+        {
+          id: 21,
+          type: 'message',
+          text: 'Payments outage: ping jane.doe@acme.com or 415-555-0100',
+          slackChannelId: 'C1',
+          slackMessageTs: '1760436000.000100',
+          slackCreatedAt: new Date('2026-10-14T09:00:00Z'),
+          updatedAt,
+          channel: { name: 'payments', connection: { teamDomain: 'acme' } },
+        },
+        {
+          id: 22,
+          type: 'message',
+          text: 'old',
+          slackCreatedAt: new Date('2026-10-14T09:05:00Z'),
+          updatedAt,
+          deletedAt: updatedAt,
+          channel: { name: 'payments' },
+        },
+      ]);
+      mockChunkRepository.find.mockResolvedValueOnce([]).mockResolvedValueOnce([{ id: 9 }]);
+
+      const stats = await service.indexSource(1, 'slack');
+
+      expect(stats).toEqual({ indexed: 1, removed: 1 });
+      expect(slackQueryBuilder.where).toHaveBeenCalledWith('message.tenantId = :tenantId', { tenantId: 1 });
+      expect(mockChunkRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tenantId: 1,
+          sourceType: 'slack',
+          sourceId: 21,
+          channel: 'payments',
+          text: 'Payments outage: ping [EMAIL] or [PHONE_US]',
+          termCount: 3,
+          url: 'https://acme.slack.com/archives/C1/p1760436000000100',
+        }),
+      );
+      expect(mockTermRepository.insert).toHaveBeenCalledWith([
+        { tenantId: 1, chunkId: 100, term: 'payment', frequency: 1 },
+        { tenantId: 1, chunkId: 100, term: 'outage', frequency: 1 },
+        { tenantId: 1, chunkId: 100, term: 'ping', frequency: 1 },
+      ]);
+      expect(mockTermRepository.delete).toHaveBeenCalledWith({ chunkId: In([9]) });
+      expect(mockChunkRepository.delete).toHaveBeenCalledWith({ id: In([9]) });
+      expect(mockCursorRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ tenantId: 1, sourceType: 'slack', lastUpdatedAt: updatedAt, lastSourceId: 22 }),
+      );
+    });
+
+    it('should continue after the cursor', async () => {
+      const lastUpdatedAt = new Date('2026-10-14T10:00:00Z');
+      mockCursorRepository.findOne.mockResolvedValueOnce({ tenantId: 1, sourceType: 'slack', lastUpdatedAt, lastSourceId: 22 });
+      slackQueryBuilder.getMany.mockResolvedValueOnce([]);
+
+      const stats = await service.indexSource(1, 'slack');
+
+      expect(stats).toEqual({ indexed: 0, removed: 0 });
+      expect(slackQueryBuilder.andWhere).toHaveBeenCalledWith(
+        '(message.updatedAt > :lastUpdatedAt OR (message.updatedAt = :lastUpdatedAt AND message.id > :lastSourceId))',
+        { lastUpdatedAt, lastSourceId: 22 },
+      );
+      expect(mockCursorRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('search', () => {
+    it('should rank passages by BM25 within the filters, one per message', async () => {
+      statsQueryBuilder.getRawOne.mockResolvedValueOnce({ total: '3', averageLength: '10' });
+      postingsQueryBuilder.getRawMany.mockResolvedValueOnce([
+        { chunkId: 1, term: 'payment', frequency: 1, termCount: 30 },
+        { chunkId: 2, term: 'payment', frequency: 2, termCount: 8 },
+        { chunkId: 2, term: 'outage', frequency: 1, termCount: 8 },
+        { chunkId: 3, term: 'outage', frequency: 1, termCount: 10 },
+      ]);
+      mockChunkRepository.find.mockResolvedValueOnce([
+        { id: 1, sourceType: 'gmail', sourceId: 5, text: 'payments', occurredAt: new Date('2026-10-13') },
+        { id: 2, sourceType: 'slack', sourceId: 21, channel: 'payments', text: 'payments outage', occurredAt: new Date('2026-10-14') },
+        { id: 3, sourceType: 'slack', sourceId: 21, channel: 'payments', text: 'outage', occurredAt: new Date('2026-10-14') },
+      ]);
+
+      const from = new Date('2026-10-12');
+      const hits = await service.search(1, { query: 'payments outage', channel: '#payments', from, limit: 5 });
+
+      expect(statsQueryBuilder.andWhere).toHaveBeenCalledWith('chunk.tenantId = :tenantId', { tenantId: 1 });
+      expect(statsQueryBuilder.andWhere).toHaveBeenCalledWith('chunk.channel = :channel', { channel: 'payments' });
+      expect(statsQueryBuilder.andWhere).toHaveBeenCalledWith('chunk.occurredAt >= :from', { from });
+      expect(postingsQueryBuilder.andWhere).toHaveBeenCalledWith('posting.term IN (:...terms)', { terms: ['payment', 'outage'] });
+      expect(postingsQueryBuilder.orderBy).toHaveBeenCalledWith('posting.frequency', 'DESC');
+      expect(postingsQueryBuilder.addOrderBy).toHaveBeenCalledWith('chunk.occurredAt', 'DESC');
+      expect(mockChunkRepository.find).toHaveBeenCalledWith({ where: { tenantId: 1, id: In([2, 3, 1]) } });
+      expect(hits.map(hit => [hit.sourceType, hit.sourceId, hit.chunkId])).toEqual([
+        ['slack', 21, 2],
+        ['gmail', 5, 1],
+      ]);
+    });
+
+    it('should not query the index for a query without terms', async () => {
+      expect(await service.search(1, { query: 'what is the' })).toEqual([]);
+      expect(mockChunkRepository.createQueryBuilder).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,666 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, SelectQueryBuilder, ObjectLiteral } from 'typeorm';
+import { CronJob } from 'cron';
+import { CommunicationChunk } from '../entities/communication-chunk.entity';
+import { CommunicationChunkTerm } from '../entities/communication-chunk-term.entity';
+import { CommunicationIndexCursor } from '../entities/communication-index-cursor.entity';
+import { Tenant } from '../../tenants/entities/tenant.entity';
+import { SlackMessage } from '../../slack/entities/slack-message.entity';
+import { TeamsMessage } from '../../teams/entities/teams-message.entity';
+import { GmailMessage } from '../../gmail/entities/gmail-message.entity';
+import { OutlookMessage } from '../../outlook/entities/outlook-message.entity';
+import { PiiDetectionService } from '../../privacy/services/pii-detection.service';
+import { OpenAIService } from './openai.service';
+import { LlmProvider } from '../interfaces/llm-provider.interface';
+import { ChatCitationService } from './chat-citation.service';
+import {
+  COMMUNICATION_SOURCE_TYPES,
+  CommunicationIndexStats,
+  CommunicationSearchHit,
+  CommunicationSearchQuery,
+  CommunicationSourceType,
+} from '../interfaces/communication-search.interface';
+
+/**
+ * Messages read per query while indexing
+ */
+const SOURCE_BATCH_SIZE = 200;
+
+/**
+ * Long messages, mostly emails, are split into passages of this many words that overlap,
+ * so a statement is never cut off from its context
+ */
+const CHUNK_WORDS = 200;
+const CHUNK_OVERLAP_WORDS = 40;
+
+const MAX_TERM_LENGTH = 64;
+const MAX_QUERY_TERMS = 32;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Postings scored per search; document frequencies are counted over them, which is
+ * exact unless a query matches more postings than this. Beyond it the postings with the
+ * most occurrences of the term, then the most recent, are kept.
+ */
+const MAX_CANDIDATE_POSTINGS = 20000;
+
+/**
+ * Best BM25 candidates reranked by embedding similarity, and the weight of that similarity
+ */
+const RERANK_CANDIDATES = 50;
+const EMBEDDING_WEIGHT = 0.5;
+
+const REDACTION_PLACEHOLDER = /\[[A-Z_]+\]/g;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'can', 'do', 'does', 'for', 'from',
+  'had', 'has', 'have', 'he', 'her', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just',
+  'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our', 'she', 'so', 'that', 'the', 'their', 'them', 'then',
+  'there', 'these', 'they', 'this', 'to', 'too', 'us', 'was', 'we', 'were', 'what', 'when', 'where',
+  'which', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+/**
+ * A message of any source, reduced to what the index stores
+ */
+interface IndexableMessage {
+  sourceId: number;
+  updatedAt: Date;
+  /**
+   * Deleted, trashed or otherwise not meant to be found; its chunks are dropped
+   */
+  removed: boolean;
+  channel: string | null;
+  title: string | null;
+  body: string;
+  url: string | null;
+  occurredAt: Date;
+}
+
+/**
+ * Retrieval index over Slack, Teams, Gmail and Outlook messages for the chatbot. Messages
+ * are split into passages with PII redacted and scored with BM25, optionally reranked by
+ * embedding similarity.
+ *
+ * The index follows each source by update time: Slack and Teams ingestion request a run
+ * after every sync, and a sweep picks up everything else, including messages the
+ * anonymization job rewrote and messages deleted since they were indexed.
+ */
+@Injectable()
+export class CommunicationIndexService implements OnModuleInit {
+  private readonly logger = new Logger(CommunicationIndexService.name);
+  private readonly enabled: boolean;
+  private readonly cronSchedule: string;
+  private readonly embeddingsEnabled: boolean;
+  private readonly activeRuns = new Set<string>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    @InjectRepository(CommunicationChunk)
+    private readonly chunkRepository: Repository<CommunicationChunk>,
+    @InjectRepository(CommunicationChunkTerm)
+    private readonly termRepository: Repository<CommunicationChunkTerm>,
+    @InjectRepository(CommunicationIndexCursor)
+    private readonly cursorRepository: Repository<CommunicationIndexCursor>,
+    @InjectRepository(Tenant)
+    private readonly tenantRepository: Repository<Tenant>,
+    @InjectRepository(SlackMessage)
+    private readonly slackRepository: Repository<SlackMessage>,
+    @InjectRepository(TeamsMessage)
+    private readonly teamsRepository: Repository<TeamsMessage>,
+    @InjectRepository(GmailMessage)
+    private readonly gmailRepository: Repository<GmailMessage>,
+    @InjectRepository(OutlookMessage)
+    private readonly outlookRepository: Repository<OutlookMessage>,
+    private readonly piiDetectionService: PiiDetectionService,
+    private readonly openAIService: OpenAIService,
+    private readonly citationService: ChatCitationService,
+  ) {
+    this.enabled = this.configService.get<string>('CHATBOT_RETRIEVAL_INDEX_ENABLED') !== 'false';
+    this.cronSchedule = this.configService.get<string>('CHATBOT_RETRIEVAL_INDEX_CRON_SCHEDULE') || '0 */10 * * * *';
+    this.embeddingsEnabled = this.configService.get<string>('CHATBOT_RETRIEVAL_EMBEDDINGS_ENABLED') === 'true';
+  }
+
+  onModuleInit() {
+    if (!this.enabled) {
+      this.logger.log('Chatbot retrieval indexing is disabled');
+      return;
+    }
+
+    try {
+      const job = new CronJob(this.cronSchedule, () => {
+        this.indexAll().catch(error => this.logger.error(`Retrieval index sweep failed: ${error.message}`, error.stack));
+      });
+
+      this.schedulerRegistry.addCronJob('chatbot-communication-index', job);
+      job.start();
+
+      this.logger.log(`Chatbot retrieval index sweep started with schedule: ${this.cronSchedule}`);
+    } catch (error) {
+      this.logger.error(`Failed to start chatbot retrieval index sweep: ${error.message}`, error.stack);
+    }
+  }
+
+  /**
+   * Catch up the index of every source of every active tenant
+   */
+  async indexAll(): Promise<void> {
+    const tenants = await this.tenantRepository.find({ where: { isActive: true } });
+
+    for (const tenant of tenants) {
+      for (const sourceType of COMMUNICATION_SOURCE_TYPES) {
+        try {
+          await this.indexSource(tenant.id, sourceType);
+        } catch (error) {
+          this.logger.error(`Indexing ${sourceType} for tenant ${tenant.id} failed: ${error.message}`, error.stack);
+        }
+      }
+    }
+  }
+
+  /**
+   * Index a source in the background, for ingestion to call after a sync without
+   * waiting for it or failing on it. Sources without an ingestion sync, currently Gmail
+   * and Outlook, are picked up by the sweep.
+   */
+  requestIndexing(tenantId: number, sourceType: CommunicationSourceType): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    this.indexSource(tenantId, sourceType).catch(error =>
+      this.logger.error(`Indexing ${sourceType} for tenant ${tenantId} failed: ${error.message}`, error.stack),
+    );
+  }
+
+  /**
+   * Index the messages of a source changed since the last run. Runs for the same tenant
+   * and source do not overlap; a run requested meanwhile is skipped, as the running one
+   * reads up to the latest change anyway.
+   */
+  async indexSource(tenantId: number, sourceType: CommunicationSourceType): Promise<CommunicationIndexStats> {
+    const runKey = `${tenantId}:${sourceType}`;
+    const stats: CommunicationIndexStats = { indexed: 0, removed: 0 };
+    if (this.activeRuns.has(runKey)) {
+      return stats;
+    }
+
+    this.activeRuns.add(runKey);
+    try {
+      const cursor =
+        (await this.cursorRepository.findOne({ where: { tenantId, sourceType } })) ||
+        this.cursorRepository.create({ tenantId, sourceType, lastSourceId: 0 });
+
+      for (;;) {
+        const messages = await this.loadMessages(tenantId, sourceType, cursor);
+        if (messages.length === 0) {
+          break;
+        }
+
+        const chunks: CommunicationChunk[] = [];
+        for (const message of messages) {
+          await this.removeMessage(tenantId, sourceType, message.sourceId);
+          if (message.removed) {
+            stats.removed++;
+            continue;
+          }
+
+          chunks.push(...(await this.indexMessage(tenantId, sourceType, message)));
+          stats.indexed++;
+        }
+        await this.embedChunks(tenantId, chunks);
+
+        const last = messages[messages.length - 1];
+        cursor.lastUpdatedAt = last.updatedAt;
+        cursor.lastSourceId = last.sourceId;
+        await this.cursorRepository.save(cursor);
+
+        if (messages.length < SOURCE_BATCH_SIZE) {
+          break;
+        }
+      }
+
+      if (stats.indexed || stats.removed) {
+        this.logger.log(
+          `Indexed ${stats.indexed} and removed ${stats.removed} ${sourceType} messages for tenant ${tenantId}`,
+        );
+      }
+
+      return stats;
+    } finally {
+      this.activeRuns.delete(runKey);
+    }
+  }
+
+  /**
+   * Passages of the tenant's messages that best match the query, at most one per message,
+   * best first
+   */
+  async search(tenantId: number, query: CommunicationSearchQuery): Promise<CommunicationSearchHit[]> {
+    const terms = [...new Set(this.tokenize(query.query))].slice(0, MAX_QUERY_TERMS);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const limit = query.limit || 10;
+
+    const stats = await this.applyFilters(
+      this.chunkRepository
+        .createQueryBuilder('chunk')
+        .select('COUNT(*)', 'total')
+        .addSelect('AVG(chunk.termCount)', 'averageLength'),
+      tenantId,
+      query,
+    ).getRawOne();
+
+    const total = Number(stats?.total) || 0;
+    if (total === 0) {
+      return [];
+    }
+    const averageLength = Number(stats.averageLength) || 1;
+
+    const postings: Array<{ chunkId: number; term: string; frequency: number; termCount: number }> =
+      await this.applyFilters(
+        this.termRepository
+          .createQueryBuilder('posting')
+          .innerJoin(CommunicationChunk, 'chunk', 'chunk.id = posting.chunkId')
+          .select('posting.chunkId', 'chunkId')
+          .addSelect('posting.term', 'term')
+          .addSelect('posting.frequency', 'frequency')
+          .addSelect('chunk.termCount', 'termCount')
+          .andWhere('posting.term IN (:...terms)', { terms })
+          .orderBy('posting.frequency', 'DESC')
+          .addOrderBy('chunk.occurredAt', 'DESC')
+          .limit(MAX_CANDIDATE_POSTINGS),
+        tenantId,
+        query,
+      ).getRawMany();
+
+    const documentFrequency = new Map<string, number>();
+    for (const posting of postings) {
+      documentFrequency.set(posting.term, (documentFrequency.get(posting.term) || 0) + 1);
+    }
+
+    const scores = new Map<number, number>();
+    for (const posting of postings) {
+      const df = documentFrequency.get(posting.term)!;
+      const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+      const frequency = Number(posting.frequency);
+      const lengthNorm = 1 - BM25_B + BM25_B * (Number(posting.termCount) / averageLength);
+      const score = (idf * frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm);
+      const chunkId = Number(posting.chunkId);
+      scores.set(chunkId, (scores.get(chunkId) || 0) + score);
+    }
+
+    const provider = await this.embeddingProvider(tenantId);
+    const rerank = !!provider;
+    const candidateIds = [...scores.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, rerank ? Math.max(limit * 2, RERANK_CANDIDATES) : limit * 2)
+      .map(([chunkId]) => chunkId);
+    if (candidateIds.length === 0) {
+      return [];
+    }
+
+    const chunks = await this.chunkRepository.find({ where: { tenantId, id: In(candidateIds) } });
+    if (provider) {
+      await this.rerank(provider, query.query, chunks, scores);
+    }
+
+    const best = new Map<string, CommunicationChunk>();
+    for (const chunk of chunks.sort((a, b) => scores.get(b.id)! - scores.get(a.id)!)) {
+      const messageKey = `${chunk.sourceType}:${chunk.sourceId}`;
+      if (!best.has(messageKey)) {
+        best.set(messageKey, chunk);
+      }
+    }
+
+    return [...best.values()].slice(0, limit).map(chunk => ({
+      chunkId: chunk.id,
+      sourceType: chunk.sourceType,
+      sourceId: chunk.sourceId,
+      channel: chunk.channel || null,
+      title: chunk.title || null,
+      text: chunk.text,
+      url: chunk.url || null,
+      occurredAt: chunk.occurredAt,
+      score: Math.round(scores.get(chunk.id)! * 1000) / 1000,
+    }));
+  }
+
+  /**
+   * Lowercased terms without stopwords, digits kept, with plural and verb endings removed
+   */
+  tokenize(text: string): string[] {
+    const words = text
+      .replace(REDACTION_PLACEHOLDER, ' ')
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .match(/[a-z0-9]+/g) || [];
+
+    return words
+      .filter(word => word.length > 1 && word.length <= MAX_TERM_LENGTH && !STOPWORDS.has(word))
+      .map(word => this.stem(word));
+  }
+
+  private stem(word: string): string {
+    if (/\d/.test(word)) {
+      return word;
+    }
+    if (word.length > 4 && word.endsWith('ies')) {
+      return `${word.slice(0, -3)}y`;
+    }
+    if (word.length > 5 && word.endsWith('ing')) {
+      return word.slice(0, -3);
+    }
+    if (word.length > 4 && word.endsWith('ed')) {
+      return word.slice(0, -2);
+    }
+    if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) {
+      return word.slice(0, -1);
+    }
+    return word;
+  }
+
+  private applyFilters<T extends ObjectLiteral>(
+    queryBuilder: SelectQueryBuilder<T>,
+    tenantId: number,
+    query: CommunicationSearchQuery,
+  ): SelectQueryBuilder<T> {
+    queryBuilder.andWhere('chunk.tenantId = :tenantId', { tenantId });
+
+    if (query.sourceTypes?.length) {
+      queryBuilder.andWhere('chunk.sourceType IN (:...sourceTypes)', { sourceTypes: query.sourceTypes });
+    }
+
+    if (query.channel) {
+      queryBuilder.andWhere('chunk.channel = :channel', { channel: query.channel.replace(/^#/, '') });
+    }
+
+    if (query.from) {
+      queryBuilder.andWhere('chunk.occurredAt >= :from', { from: query.from });
+    }
+
+    if (query.to) {
+      queryBuilder.andWhere('chunk.occurredAt <= :to', { to: query.to });
+    }
+
+    return queryBuilder;
+  }
+
+  /**
+   * Blend normalized BM25 scores with the embedding similarity to the query. Chunks
+   * without an embedding keep their BM25 share only, as do chunks embedded by another
+   * model after the tenant changed providers; on failure the BM25 order stands.
+   */
+  private async rerank(
+    provider: LlmProvider,
+    query: string,
+    chunks: CommunicationChunk[],
+    scores: Map<number, number>,
+  ): Promise<void> {
+    try {
+      const [queryEmbedding] = await provider.createEmbeddings([query]);
+      const maxScore = Math.max(...chunks.map(chunk => scores.get(chunk.id)!));
+
+      for (const chunk of chunks) {
+        const similarity = chunk.embedding?.length === queryEmbedding.length
+          ? this.cosineSimilarity(queryEmbedding, chunk.embedding)
+          : 0;
+        scores.set(
+          chunk.id,
+          (1 - EMBEDDING_WEIGHT) * (scores.get(chunk.id)! / maxScore) + EMBEDDING_WEIGHT * Math.max(similarity, 0),
+        );
+      }
+    } catch (error) {
+      this.logger.warn(`Embedding rerank failed, using BM25 order: ${error.message}`);
+    }
+  }
+
+  /**
+   * The tenant's model provider when embeddings are on and it can create them
+   */
+  private async embeddingProvider(tenantId: number): Promise<LlmProvider | null> {
+    if (!this.embeddingsEnabled) {
+      return null;
+    }
+
+    const provider = await this.openAIService.forTenant(tenantId, { feature: 'retrieval' });
+    return provider.supportsEmbeddings() ? provider : null;
+  }
+
+  private cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+  }
+
+  private async removeMessage(tenantId: number, sourceType: CommunicationSourceType, sourceId: number): Promise<void> {
+    const existing = await this.chunkRepository.find({ select: ['id'], where: { tenantId, sourceType, sourceId } });
+    if (existing.length === 0) {
+      return;
+    }
+
+    const chunkIds = existing.map(chunk => chunk.id);
+    await this.termRepository.delete({ chunkId: In(chunkIds) });
+    await this.chunkRepository.delete({ id: In(chunkIds) });
+  }
+
+  private async indexMessage(
+    tenantId: number,
+    sourceType: CommunicationSourceType,
+    message: IndexableMessage,
+  ): Promise<CommunicationChunk[]> {
+    const title = message.title ? this.piiDetectionService.redact(message.title).slice(0, 500) : null;
+    const passages = this.splitIntoPassages(this.piiDetectionService.redact(message.body));
+    const chunks: CommunicationChunk[] = [];
+
+    for (const [chunkIndex, text] of passages.entries()) {
+      const frequencies = new Map<string, number>();
+      const terms = this.tokenize(chunkIndex === 0 && title ? `${title}\n${text}` : text);
+      for (const term of terms) {
+        frequencies.set(term, (frequencies.get(term) || 0) + 1);
+      }
+      if (frequencies.size === 0) {
+        continue;
+      }
+
+      const chunk = await this.chunkRepository.save(
+        this.chunkRepository.create({
+          tenantId,
+          sourceType,
+          sourceId: message.sourceId,
+          chunkIndex,
+          channel: message.channel || undefined,
+          title: title || undefined,
+          text,
+          termCount: terms.length,
+          url: message.url || undefined,
+          occurredAt: message.occurredAt,
+        }),
+      );
+      await this.termRepository.insert(
+        [...frequencies.entries()].map(([term, frequency]) => ({ tenantId, chunkId: chunk.id, term, frequency })),
+      );
+      chunks.push(chunk);
+    }
+
+    return chunks;
+  }
+
+  private splitIntoPassages(text: string): string[] {
+    const words = text.split(/\s+/).filter(Boolean);
+    if (words.length <= CHUNK_WORDS) {
+      return words.length ? [words.join(' ')] : [];
+    }
+
+    const passages: string[] = [];
+    for (let start = 0; start < words.length; start += CHUNK_WORDS - CHUNK_OVERLAP_WORDS) {
+      passages.push(words.slice(start, start + CHUNK_WORDS).join(' '));
+      if (start + CHUNK_WORDS >= words.length) {
+        break;
+      }
+    }
+    return passages;
+  }
+
+  /**
+   * Store embeddings of new chunks when reranking is on. Failures leave the chunks
+   * without one; they are still found by BM25.
+   */
+  private async embedChunks(tenantId: number, chunks: CommunicationChunk[]): Promise<void> {
+    const provider = chunks.length > 0 ? await this.embeddingProvider(tenantId) : null;
+    if (!provider) {
+      return;
+    }
+
+    try {
+      const embeddings = await provider.createEmbeddings(
+        chunks.map(chunk => (chunk.chunkIndex === 0 && chunk.title ? `${chunk.title}\n${chunk.text}` : chunk.text)),
+      );
+      for (const [i, chunk] of chunks.entries()) {
+        await this.chunkRepository.update(chunk.id, { embedding: embeddings[i] });
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to embed ${chunks.length} chunks: ${error.message}`);
+    }
+  }
+
+  /**
+   * Next batch of messages changed after the cursor, deleted ones included so their
+   * chunks can be dropped
+   */
+  private async loadMessages(
+    tenantId: number,
+    sourceType: CommunicationSourceType,
+    cursor: CommunicationIndexCursor,
+  ): Promise<IndexableMessage[]> {
+    switch (sourceType) {
+      case 'slack': {
+        const messages = await this.changedSince(
+          this.slackRepository
+            .createQueryBuilder('message')
+            .leftJoinAndSelect('message.channel', 'channel')
+            .leftJoinAndSelect('channel.connection', 'connection'),
+          tenantId,
+          cursor,
+        ).getMany();
+
+        return messages.map(message => ({
+          sourceId: message.id,
+          updatedAt: message.updatedAt,
+          removed: !!message.deletedAt || ['channel_join', 'channel_leave'].includes(message.subtype || message.type),
+          channel: message.channel?.name || null,
+          title: null,
+          body: message.text || '',
+          url: this.citationService.slackPermalink(message),
+          occurredAt: message.slackCreatedAt,
+        }));
+      }
+
+      case 'teams': {
+        const messages = await this.changedSince(
+          this.teamsRepository.createQueryBuilder('message').leftJoinAndSelect('message.channel', 'channel'),
+          tenantId,
+          cursor,
+        ).getMany();
+
+        return messages.map(message => ({
+          sourceId: message.id,
+          updatedAt: message.updatedAt,
+          removed: message.isDeleted,
+          channel: message.channel?.displayName || null,
+          title: message.subject || null,
+          body: message.contentType === 'html' ? this.htmlToText(message.content || '') : message.content || '',
+          url: message.webUrl || null,
+          occurredAt: message.createdDateTime,
+        }));
+      }
+
+      case 'gmail': {
+        const messages = await this.changedSince(
+          this.gmailRepository.createQueryBuilder('message').leftJoinAndSelect('message.mailbox', 'mailbox'),
+          tenantId,
+          cursor,
+        ).getMany();
+
+        return messages.map(message => ({
+          sourceId: message.id,
+          updatedAt: message.updatedAt,
+          removed: !!message.deletedAt || message.isDraft || message.isSpam || message.isTrash,
+          channel: message.mailbox?.labelName || null,
+          title: message.subject || null,
+          body: message.bodyText || message.snippet || '',
+          url: null,
+          occurredAt: message.gmailCreatedAt,
+        }));
+      }
+
+      case 'outlook': {
+        const messages = await this.changedSince(
+          this.outlookRepository.createQueryBuilder('message').leftJoinAndSelect('message.mailbox', 'mailbox'),
+          tenantId,
+          cursor,
+        ).getMany();
+
+        return messages.map(message => ({
+          sourceId: message.id,
+          updatedAt: message.updatedAt,
+          removed: !!message.deletedAt || message.isDraft,
+          channel: message.mailbox?.folderName || null,
+          title: message.subject || null,
+          body: message.bodyText || message.bodyPreview || '',
+          url: message.webLink || null,
+          occurredAt: message.outlookReceivedAt || message.outlookCreatedAt,
+        }));
+      }
+    }
+  }
+
+  private changedSince<T extends ObjectLiteral>(
+    queryBuilder: SelectQueryBuilder<T>,
+    tenantId: number,
+    cursor: CommunicationIndexCursor,
+  ): SelectQueryBuilder<T> {
+    queryBuilder
+      .withDeleted()
+      .where('message.tenantId = :tenantId', { tenantId })
+      .orderBy('message.updatedAt', 'ASC')
+      .addOrderBy('message.id', 'ASC')
+      .take(SOURCE_BATCH_SIZE);
+
+    if (cursor.lastUpdatedAt) {
+      queryBuilder.andWhere(
+        '(message.updatedAt > :lastUpdatedAt OR (message.updatedAt = :lastUpdatedAt AND message.id > :lastSourceId))',
+        { lastUpdatedAt: cursor.lastUpdatedAt, lastSourceId: cursor.lastSourceId },
+      );
+    }
+
+    return queryBuilder;
+  }
+
+  private htmlToText(html: string): string {
+    return html
+      .replace(/<(?:br|\/p|\/div|\/li)[^>]*>/gi, '\n')
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+}
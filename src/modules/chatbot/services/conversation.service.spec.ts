@@ -0,0 +1,270 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConversationService } from './conversation.service';
+import { OpenAIService } from './openai.service';
+import { Conversation } from '../entities/conversation.entity';
+import { ChatMessageFeedback } from '../entities/chat-message-feedback.entity';
+
+describe('ConversationService', () => {
+  let service: ConversationService;
+
+  const listQueryBuilder = {
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    addOrderBy: jest.fn().mockReturnThis(),
+    skip: jest.fn().mockReturnThis(),
+    take: jest.fn().mockReturnThis(),
+    getManyAndCount: jest.fn(),
+  };
+  const mockConversationRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((data: Partial<Conversation>) => data),
+    save: jest.fn((conversation: Partial<Conversation>) => Promise.resolve(conversation)),
+    delete: jest.fn(),
+    createQueryBuilder: jest.fn(() => listQueryBuilder),
+  };
+  const feedbackQueryBuilder = {
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    addOrderBy: jest.fn().mockReturnThis(),
+    skip: jest.fn().mockReturnThis(),
+    take: jest.fn().mockReturnThis(),
+    select: jest.fn().mockReturnThis(),
+    addSelect: jest.fn().mockReturnThis(),
+    groupBy: jest.fn().mockReturnThis(),
+    getManyAndCount: jest.fn(),
+    getRawMany: jest.fn(),
+  };
+  const mockFeedbackRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((data: Partial<ChatMessageFeedback>) => data),
+    save: jest.fn((feedback: Partial<ChatMessageFeedback>) => Promise.resolve({ ...feedback, updatedAt: new Date('2026-10-19') })),
+    delete: jest.fn(),
+    createQueryBuilder: jest.fn(() => feedbackQueryBuilder),
+  };
+  const mockLlmProvider = { chat: jest.fn() };
+  const mockOpenAIService = { forTenant: jest.fn(async () => mockLlmProvider) };
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: string) => (key === 'CHATBOT_HISTORY_TOKEN_BUDGET' ? '100' : defaultValue)),
+  };
+
+  const message = (role: 'user' | 'assistant', content: string) => ({ role, content, timestamp: '2026-10-18T10:00:00Z' });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ConversationService,
+        { provide: getRepositoryToken(Conversation), useValue: mockConversationRepository },
+        { provide: getRepositoryToken(ChatMessageFeedback), useValue: mockFeedbackRepository },
+        { provide: OpenAIService, useValue: mockOpenAIService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<ConversationService>(ConversationService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('buildHistory', () => {
+    it('should send the stored turns while they fit the budget', async () => {
+      const conversation = {
+        sessionId: 's1',
+        messages: [message('user', 'Hi'), message('assistant', 'Hello')],
+        summarizedMessages: 0,
+      } as Conversation;
+
+      expect(await service.buildHistory(conversation)).toEqual([
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: 'Hello' },
+      ]);
+      expect(mockLlmProvider.chat).not.toHaveBeenCalled();
+    });
+
+    it('should summarize older turns beyond the budget and keep the latest verbatim', async () => {
+      const long = 'x'.repeat(240);
+      const conversation = {
+        tenantId: 1,
+        sessionId: 's1',
+        messages: [
+          message('user', `First ${long}`),
+          message('assistant', `Answer ${long}`),
+          message('user', 'Latest question'),
+          message('assistant', 'Latest answer'),
+        ],
+        summary: 'User asked about checkout.',
+        summarizedMessages: 0,
+        metadata: { totalTokens: 1000 },
+      } as Conversation;
+      mockLlmProvider.chat.mockResolvedValueOnce({ content: ' Summary of both. ', usage: { total_tokens: 80 } });
+
+      const history = await service.buildHistory(conversation);
+
+      expect(mockOpenAIService.forTenant).toHaveBeenCalledWith(1, expect.objectContaining({ feature: 'conversation_summary' }));
+      expect(mockLlmProvider.chat.mock.calls[0][0][1].content).toContain('CURRENT SUMMARY:\nUser asked about checkout.');
+      expect(history).toEqual([
+        { role: 'system', content: 'Summary of the earlier conversation:\nSummary of both.' },
+        { role: 'user', content: 'Latest question' },
+        { role: 'assistant', content: 'Latest answer' },
+      ]);
+      expect(mockConversationRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ summarizedMessages: 2, metadata: { totalTokens: 1080 } }),
+      );
+    });
+
+    it('should leave the older turns out when summarizing fails', async () => {
+      const long = 'x'.repeat(240);
+      const conversation = {
+        sessionId: 's1',
+        messages: [message('user', long), message('assistant', long), message('user', 'Q'), message('assistant', 'A')],
+        summarizedMessages: 0,
+      } as Conversation;
+      mockLlmProvider.chat.mockRejectedValueOnce(new Error('rate limit'));
+
+      expect(await service.buildHistory(conversation)).toEqual([
+        { role: 'user', content: 'Q' },
+        { role: 'assistant', content: 'A' },
+      ]);
+      expect(mockConversationRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordTurn', () => {
+    it('should start a session titled after the first question', async () => {
+      await service.recordTurn(1, 2, 's1', null, {
+        userMessage: 'What were people saying about the payments outage last week, and which teams were hit the hardest?',
+        response: 'Mostly card failures.',
+        citations: [],
+        sources: { signals: [4] },
+        tokens: 320,
+      });
+
+      expect(mockConversationRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tenantId: 1,
+          userId: 2,
+          sessionId: 's1',
+          title: 'What were people saying about the payments outage last week, and which teams…',
+          metadata: expect.objectContaining({ queriedSignals: [4], totalTokens: 320 }),
+        }),
+      );
+    });
+  });
+
+  describe('sessions', () => {
+    it('should list the user sessions, pinned first', async () => {
+      listQueryBuilder.getManyAndCount.mockResolvedValueOnce([
+        [{ sessionId: 's1', title: 'Checkout', isPinned: true, messages: [message('user', 'Hi')], createdAt: new Date('2026-10-01') }],
+        21,
+      ]);
+
+      const result = await service.listSessions(1, 2, { archived: false, search: '50%', page: 2, limit: 20 });
+
+      expect(listQueryBuilder.andWhere).toHaveBeenCalledWith('conversation.userId = :userId', { userId: 2 });
+      expect(listQueryBuilder.andWhere).toHaveBeenCalledWith('conversation.archivedAt IS NULL');
+      expect(listQueryBuilder.andWhere).toHaveBeenCalledWith('conversation.title LIKE :search', { search: '%50\\%%' });
+      expect(listQueryBuilder.skip).toHaveBeenCalledWith(20);
+      expect(result).toMatchObject({ total: 21, page: 2, limit: 20, totalPages: 2 });
+      expect(result.sessions[0]).toMatchObject({ sessionId: 's1', isPinned: true, messageCount: 1, totalTokens: 0 });
+    });
+
+    it('should rename, pin and archive a session of the user', async () => {
+      mockConversationRepository.findOne.mockResolvedValueOnce({ sessionId: 's1', isPinned: false, messages: [] });
+
+      const session = await service.updateSession(1, 2, 's1', { title: ' Payments outage ', isPinned: true, archived: true });
+
+      expect(mockConversationRepository.findOne).toHaveBeenCalledWith({ where: { tenantId: 1, userId: 2, sessionId: 's1' } });
+      expect(session).toMatchObject({ title: 'Payments outage', isPinned: true, archivedAt: expect.any(Date) });
+    });
+
+    it('should not find sessions of other users', async () => {
+      mockConversationRepository.findOne.mockResolvedValueOnce(null);
+      mockConversationRepository.delete.mockResolvedValueOnce({ affected: 0 });
+
+      await expect(service.getSession(1, 2, 's1')).rejects.toThrow(NotFoundException);
+      await expect(service.deleteSession(1, 2, 's1')).rejects.toThrow(NotFoundException);
+      expect(mockConversationRepository.delete).toHaveBeenCalledWith({ tenantId: 1, userId: 2, sessionId: 's1' });
+    });
+  });
+
+  describe('feedback', () => {
+    const session = () => ({
+      id: 7,
+      tenantId: 1,
+      userId: 2,
+      sessionId: 's1',
+      messages: [message('user', 'Any critical signals?'), message('assistant', 'One: latency [signal:42].')],
+    });
+
+    it('should rate an answer and replace an earlier rating', async () => {
+      mockConversationRepository.findOne.mockResolvedValueOnce(session());
+      mockFeedbackRepository.findOne.mockResolvedValueOnce({ id: 3, conversationId: 7, messageIndex: 1, rating: 'up', comment: null });
+
+      const feedback = await service.setFeedback(1, 2, 's1', 1, { rating: 'down', comment: ' Wrong signal ' });
+
+      expect(mockFeedbackRepository.findOne).toHaveBeenCalledWith({ where: { conversationId: 7, messageIndex: 1 } });
+      expect(mockFeedbackRepository.save).toHaveBeenCalledWith(expect.objectContaining({ id: 3, rating: 'down', comment: 'Wrong signal' }));
+      expect(feedback).toEqual({ rating: 'down', comment: 'Wrong signal', updatedAt: new Date('2026-10-19') });
+    });
+
+    it('should only accept feedback on existing answers of the assistant', async () => {
+      mockConversationRepository.findOne.mockResolvedValueOnce(session()).mockResolvedValueOnce(session());
+
+      await expect(service.setFeedback(1, 2, 's1', 0, { rating: 'up' })).rejects.toThrow(BadRequestException);
+      await expect(service.setFeedback(1, 2, 's1', 5, { rating: 'up' })).rejects.toThrow(NotFoundException);
+      expect(mockFeedbackRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should return the feedback with the messages of a session', async () => {
+      mockConversationRepository.findOne.mockResolvedValueOnce(session());
+      mockFeedbackRepository.find.mockResolvedValueOnce([
+        { messageIndex: 1, rating: 'up', comment: null, updatedAt: new Date('2026-10-19') },
+      ]);
+
+      const detail = await service.getSession(1, 2, 's1');
+
+      expect(detail.messages.map(entry => [entry.index, entry.feedback?.rating])).toEqual([[0, undefined], [1, 'up']]);
+    });
+
+    it('should delete the feedback of a deleted session', async () => {
+      mockConversationRepository.findOne.mockResolvedValueOnce({ id: 7 });
+      mockConversationRepository.delete.mockResolvedValueOnce({ affected: 1 });
+
+      await service.deleteSession(1, 2, 's1');
+
+      expect(mockFeedbackRepository.delete).toHaveBeenCalledWith({ conversationId: 7 });
+    });
+
+    it('should list feedback of the tenant with the rated answer and its question', async () => {
+      feedbackQueryBuilder.getManyAndCount.mockResolvedValueOnce([
+        [{ id: 3, conversationId: 7, userId: 2, messageIndex: 1, rating: 'down', comment: 'Wrong signal' }],
+        1,
+      ]);
+      feedbackQueryBuilder.getRawMany.mockResolvedValueOnce([
+        { rating: 'up', count: '4' },
+        { rating: 'down', count: '1' },
+      ]);
+      mockConversationRepository.find.mockResolvedValueOnce([session()]);
+
+      const result = await service.listFeedback(1, { rating: 'down', from: '2026-10-01', page: 1, limit: 20 });
+
+      expect(feedbackQueryBuilder.where).toHaveBeenCalledWith('feedback.tenantId = :tenantId', { tenantId: 1 });
+      expect(feedbackQueryBuilder.andWhere).toHaveBeenCalledWith('feedback.rating = :rating', { rating: 'down' });
+      expect(result.items[0]).toMatchObject({
+        sessionId: 's1',
+        rating: 'down',
+        question: 'Any critical signals?',
+        answer: 'One: latency [signal:42].',
+      });
+      expect(result.summary).toEqual({ up: 4, down: 1 });
+    });
+  });
+});
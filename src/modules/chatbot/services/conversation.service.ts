@@ -0,0 +1,472 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, In, SelectQueryBuilder } from 'typeorm';
+import { OpenAIService } from './openai.service';
+import { Conversation } from '../entities/conversation.entity';
+import { ChatMessageFeedback } from '../entities/chat-message-feedback.entity';
+import { ChatMessage } from '../interfaces/chat-tool.interface';
+import { ConversationMessage, ConversationTurn } from '../interfaces/conversation.interface';
+import {
+  ConversationDetailDto,
+  ConversationListDto,
+  ConversationSessionDto,
+  FeedbackListDto,
+  GetConversationsQueryDto,
+  GetFeedbackQueryDto,
+  MessageFeedbackDto,
+  SetMessageFeedbackDto,
+  UpdateConversationDto,
+} from '../dto/conversation.dto';
+
+/**
+ * Rough token count of a text, about four characters per token for English
+ */
+const CHARS_PER_TOKEN = 4;
+
+const MAX_TITLE_LENGTH = 80;
+const SUMMARY_MAX_TOKENS = 500;
+
+const SUMMARY_PROMPT = `You maintain the memory of a conversation between a user and the NexSentia AI Assistant.
+Update the summary with the new messages. Keep the questions asked, the answers given with their key facts,
+numbers and record refs in square brackets (e.g. [INC0010123], [signal:42]), and any preferences the user stated.
+Answer with the summary only, at most 300 words.`;
+
+/**
+ * Chatbot sessions owned by the server. Each request is answered with the stored turns of its
+ * session; once they exceed the history token budget the older ones are summarized, and the
+ * summary is sent to the model in their place.
+ */
+@Injectable()
+export class ConversationService {
+  private readonly logger = new Logger(ConversationService.name);
+  private readonly historyTokenBudget: number;
+
+  constructor(
+    @InjectRepository(Conversation)
+    private readonly conversationRepository: Repository<Conversation>,
+    @InjectRepository(ChatMessageFeedback)
+    private readonly feedbackRepository: Repository<ChatMessageFeedback>,
+    private readonly openaiService: OpenAIService,
+    private readonly configService: ConfigService,
+  ) {
+    this.historyTokenBudget = parseInt(this.configService.get<string>('CHATBOT_HISTORY_TOKEN_BUDGET', '3000'), 10);
+  }
+
+  /**
+   * The session a message is sent to, or null for a new one. Sessions of other users
+   * are not found, so a session id cannot be used to read or extend someone else's thread.
+   */
+  async findForChat(tenantId: number, userId: number, sessionId: string): Promise<Conversation | null> {
+    const conversation = await this.conversationRepository.findOne({ where: { tenantId, sessionId } });
+    if (conversation && conversation.userId !== userId) {
+      throw new NotFoundException(`Conversation ${sessionId} not found`);
+    }
+    return conversation;
+  }
+
+  /**
+   * Prior turns of the session to send before a new message, with the older ones
+   * replaced by their summary when they exceed the token budget
+   */
+  async buildHistory(conversation: Conversation | null): Promise<ChatMessage[]> {
+    if (!conversation) {
+      return [];
+    }
+
+    const firstMessage = await this.compact(conversation);
+    const history: ChatMessage[] = [];
+
+    if (conversation.summary) {
+      history.push({ role: 'system', content: `Summary of the earlier conversation:\n${conversation.summary}` });
+    }
+
+    for (const message of conversation.messages.slice(firstMessage)) {
+      if (message.role === 'user' || message.role === 'assistant') {
+        history.push({ role: message.role, content: message.content });
+      }
+    }
+
+    return history;
+  }
+
+  /**
+   * Store a question and its answer. Failures are logged, not thrown, so the user still
+   * gets the answer.
+   */
+  async recordTurn(
+    tenantId: number,
+    userId: number,
+    sessionId: string,
+    conversation: Conversation | null,
+    turn: ConversationTurn,
+  ): Promise<void> {
+    const { sources } = turn;
+
+    try {
+      const newMessages: ConversationMessage[] = [
+        {
+          role: 'user',
+          content: turn.userMessage,
+          timestamp: new Date().toISOString(),
+        },
+        {
+          role: 'assistant',
+          content: turn.response,
+          timestamp: new Date().toISOString(),
+          citations: turn.citations,
+        },
+      ];
+
+      if (conversation) {
+        conversation.messages = [...conversation.messages, ...newMessages];
+        conversation.lastMessageAt = new Date();
+
+        conversation.metadata = conversation.metadata || {};
+        conversation.metadata.queriedSignals = [
+          ...(conversation.metadata.queriedSignals || []),
+          ...(sources.signals || []),
+        ];
+        conversation.metadata.queriedIncidents = [
+          ...(conversation.metadata.queriedIncidents || []),
+          ...(sources.incidents || []),
+        ];
+        conversation.metadata.queriedIssues = [
+          ...(conversation.metadata.queriedIssues || []),
+          ...(sources.issues || []),
+        ];
+        conversation.metadata.totalTokens = (conversation.metadata.totalTokens || 0) + turn.tokens;
+      } else {
+        conversation = this.conversationRepository.create({
+          tenantId,
+          userId,
+          sessionId,
+          title: this.titleFrom(turn.userMessage),
+          messages: newMessages,
+          metadata: {
+            queriedSignals: sources.signals || [],
+            queriedIncidents: sources.incidents || [],
+            queriedIssues: sources.issues || [],
+            totalTokens: turn.tokens,
+          },
+          lastMessageAt: new Date(),
+        });
+      }
+
+      await this.conversationRepository.save(conversation);
+    } catch (error) {
+      this.logger.error('Failed to save conversation:', error);
+    }
+  }
+
+  /**
+   * Sessions of the user, pinned first, then most recently active
+   */
+  async listSessions(tenantId: number, userId: number, query: GetConversationsQueryDto): Promise<ConversationListDto> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const queryBuilder = this.conversationRepository
+      .createQueryBuilder('conversation')
+      .where('conversation.tenantId = :tenantId', { tenantId })
+      .andWhere('conversation.userId = :userId', { userId })
+      .andWhere(query.archived ? 'conversation.archivedAt IS NOT NULL' : 'conversation.archivedAt IS NULL')
+      .orderBy('conversation.isPinned', 'DESC')
+      .addOrderBy('conversation.lastMessageAt', 'DESC')
+      .addOrderBy('conversation.id', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit);
+
+    if (query.search) {
+      queryBuilder.andWhere('conversation.title LIKE :search', {
+        search: `%${query.search.replace(/[\\%_]/g, '\\$&')}%`,
+      });
+    }
+
+    const [conversations, total] = await queryBuilder.getManyAndCount();
+
+    return {
+      sessions: conversations.map(conversation => this.toSessionDto(conversation)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async getSession(tenantId: number, userId: number, sessionId: string): Promise<ConversationDetailDto> {
+    const conversation = await this.findOwned(tenantId, userId, sessionId);
+    const feedback = await this.feedbackRepository.find({ where: { conversationId: conversation.id } });
+    const feedbackByIndex = new Map(feedback.map(entry => [entry.messageIndex, entry]));
+
+    return {
+      ...this.toSessionDto(conversation),
+      messages: conversation.messages.map((message, index) => ({
+        index,
+        role: message.role,
+        content: message.content,
+        timestamp: message.timestamp,
+        citations: message.citations,
+        feedback: feedbackByIndex.has(index) ? this.toFeedbackDto(feedbackByIndex.get(index)!) : undefined,
+      })),
+    };
+  }
+
+  async updateSession(
+    tenantId: number,
+    userId: number,
+    sessionId: string,
+    dto: UpdateConversationDto,
+  ): Promise<ConversationSessionDto> {
+    const conversation = await this.findOwned(tenantId, userId, sessionId);
+
+    if (dto.title !== undefined) {
+      conversation.title = dto.title.trim();
+    }
+    if (dto.isPinned !== undefined) {
+      conversation.isPinned = dto.isPinned;
+    }
+    if (dto.archived !== undefined) {
+      conversation.archivedAt = dto.archived ? conversation.archivedAt || new Date() : null;
+    }
+
+    return this.toSessionDto(await this.conversationRepository.save(conversation));
+  }
+
+  async deleteSession(tenantId: number, userId: number, sessionId: string): Promise<void> {
+    const conversation = await this.conversationRepository.findOne({
+      where: { tenantId, userId, sessionId },
+      select: ['id'],
+    });
+    const result = await this.conversationRepository.delete({ tenantId, userId, sessionId });
+    if (!result.affected) {
+      throw new NotFoundException(`Conversation ${sessionId} not found`);
+    }
+    if (conversation) {
+      await this.feedbackRepository.delete({ conversationId: conversation.id });
+    }
+  }
+
+  /**
+   * Rate an answer of the user's session, replacing an earlier rating of it
+   */
+  async setFeedback(
+    tenantId: number,
+    userId: number,
+    sessionId: string,
+    messageIndex: number,
+    dto: SetMessageFeedbackDto,
+  ): Promise<MessageFeedbackDto> {
+    const conversation = await this.findOwned(tenantId, userId, sessionId);
+    const message = conversation.messages[messageIndex];
+    if (!message) {
+      throw new NotFoundException(`Message ${messageIndex} not found in conversation ${sessionId}`);
+    }
+    if (message.role !== 'assistant') {
+      throw new BadRequestException('Feedback can only be given on answers of the assistant');
+    }
+
+    const feedback =
+      (await this.feedbackRepository.findOne({ where: { conversationId: conversation.id, messageIndex } })) ||
+      this.feedbackRepository.create({ tenantId, conversationId: conversation.id, userId, messageIndex });
+    feedback.rating = dto.rating;
+    feedback.comment = dto.comment?.trim() || null;
+
+    const saved = await this.feedbackRepository.save(feedback);
+    this.logger.log(`User ${userId} rated message ${messageIndex} of session ${sessionId} ${dto.rating}`);
+    return this.toFeedbackDto(saved);
+  }
+
+  async removeFeedback(tenantId: number, userId: number, sessionId: string, messageIndex: number): Promise<void> {
+    const conversation = await this.findOwned(tenantId, userId, sessionId);
+    const result = await this.feedbackRepository.delete({ conversationId: conversation.id, messageIndex });
+    if (!result.affected) {
+      throw new NotFoundException(`No feedback on message ${messageIndex} of conversation ${sessionId}`);
+    }
+  }
+
+  /**
+   * Feedback of all users of the tenant, newest first, with the rated answer and the
+   * question before it
+   */
+  async listFeedback(tenantId: number, query: GetFeedbackQueryDto): Promise<FeedbackListDto> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const listBuilder = this.feedbackQuery(tenantId, query)
+      .orderBy('feedback.createdAt', 'DESC')
+      .addOrderBy('feedback.id', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit);
+    if (query.rating) {
+      listBuilder.andWhere('feedback.rating = :rating', { rating: query.rating });
+    }
+
+    const [feedback, total] = await listBuilder.getManyAndCount();
+    const counts: Array<{ rating: string; count: string }> = await this.feedbackQuery(tenantId, query)
+      .select('feedback.rating', 'rating')
+      .addSelect('COUNT(*)', 'count')
+      .groupBy('feedback.rating')
+      .getRawMany();
+
+    const conversationIds = [...new Set(feedback.map(entry => entry.conversationId))];
+    const conversations = conversationIds.length
+      ? await this.conversationRepository.find({ where: { tenantId, id: In(conversationIds) } })
+      : [];
+    const conversationsById = new Map(conversations.map(conversation => [conversation.id, conversation]));
+
+    return {
+      items: feedback.map(entry => {
+        const conversation = conversationsById.get(entry.conversationId);
+        const messages = conversation?.messages || [];
+        const question = messages
+          .slice(0, entry.messageIndex)
+          .reverse()
+          .find(message => message.role === 'user');
+
+        return {
+          id: entry.id,
+          sessionId: conversation?.sessionId || '',
+          messageIndex: entry.messageIndex,
+          userId: entry.userId,
+          rating: entry.rating,
+          comment: entry.comment || null,
+          question: question?.content || null,
+          answer: messages[entry.messageIndex]?.content || null,
+          createdAt: entry.createdAt,
+          updatedAt: entry.updatedAt,
+        };
+      }),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+      summary: {
+        up: Number(counts.find(row => row.rating === 'up')?.count || 0),
+        down: Number(counts.find(row => row.rating === 'down')?.count || 0),
+      },
+    };
+  }
+
+  private async findOwned(tenantId: number, userId: number, sessionId: string): Promise<Conversation> {
+    const conversation = await this.conversationRepository.findOne({ where: { tenantId, userId, sessionId } });
+    if (!conversation) {
+      throw new NotFoundException(`Conversation ${sessionId} not found`);
+    }
+    return conversation;
+  }
+
+  /**
+   * Fold the older unsummarized messages into the summary when the messages after it exceed
+   * the budget, keeping the most recent ones that fit in half of it, and at least the last
+   * turn. Returns the index of the first message to send verbatim; if summarizing fails
+   * the older messages are left out of this request instead.
+   */
+  private async compact(conversation: Conversation): Promise<number> {
+    const start = conversation.summarizedMessages || 0;
+    const pending = conversation.messages.slice(start);
+    const tokens = pending.map(message => this.estimateTokens(message.content));
+
+    if (tokens.reduce((sum, count) => sum + count, 0) <= this.historyTokenBudget) {
+      return start;
+    }
+
+    let kept = 0;
+    let keptTokens = 0;
+    for (let i = pending.length - 1; i >= 0; i--) {
+      if (kept >= 2 && keptTokens + tokens[i] > this.historyTokenBudget / 2) {
+        break;
+      }
+      kept++;
+      keptTokens += tokens[i];
+    }
+
+    const older = pending.slice(0, pending.length - kept);
+    if (older.length === 0) {
+      return start;
+    }
+
+    try {
+      const transcript = older.map(message => `${message.role.toUpperCase()}: ${message.content}`).join('\n\n');
+      const llm = await this.openaiService.forTenant(conversation.tenantId, {
+        feature: 'conversation_summary',
+        userId: conversation.userId,
+      });
+      const { content, usage } = await llm.chat(
+        [
+          { role: 'system', content: SUMMARY_PROMPT },
+          {
+            role: 'user',
+            content: `CURRENT SUMMARY:\n${conversation.summary || '(none)'}\n\nNEW MESSAGES:\n${transcript}`,
+          },
+        ],
+        { temperature: 0.2, maxTokens: SUMMARY_MAX_TOKENS },
+      );
+
+      conversation.summary = content.trim();
+      conversation.summarizedMessages = start + older.length;
+      conversation.metadata = {
+        ...(conversation.metadata || {}),
+        totalTokens: (conversation.metadata?.totalTokens || 0) + (usage?.total_tokens || 0),
+      };
+      await this.conversationRepository.save(conversation);
+
+      this.logger.log(`Summarized ${older.length} messages of session ${conversation.sessionId}`);
+      return conversation.summarizedMessages;
+    } catch (error) {
+      this.logger.warn(`Failed to summarize session ${conversation.sessionId}: ${error.message}`);
+      return start + older.length;
+    }
+  }
+
+  private estimateTokens(text: string): number {
+    return Math.ceil((text || '').length / CHARS_PER_TOKEN);
+  }
+
+  private titleFrom(message: string): string {
+    const text = message.replace(/\s+/g, ' ').trim();
+    if (text.length <= MAX_TITLE_LENGTH) {
+      return text;
+    }
+
+    const cut = text.slice(0, MAX_TITLE_LENGTH);
+    const lastSpace = cut.lastIndexOf(' ');
+    return `${(lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).trim()}…`;
+  }
+
+  private feedbackQuery(tenantId: number, query: GetFeedbackQueryDto): SelectQueryBuilder<ChatMessageFeedback> {
+    const queryBuilder = this.feedbackRepository
+      .createQueryBuilder('feedback')
+      .where('feedback.tenantId = :tenantId', { tenantId });
+
+    if (query.from) {
+      queryBuilder.andWhere('feedback.createdAt >= :from', { from: new Date(query.from) });
+    }
+    if (query.to) {
+      queryBuilder.andWhere('feedback.createdAt <= :to', { to: new Date(query.to) });
+    }
+
+    return queryBuilder;
+  }
+
+  private toFeedbackDto(feedback: ChatMessageFeedback): MessageFeedbackDto {
+    return {
+      rating: feedback.rating,
+      comment: feedback.comment || null,
+      updatedAt: feedback.updatedAt,
+    };
+  }
+
+  private toSessionDto(conversation: Conversation): ConversationSessionDto {
+    return {
+      sessionId: conversation.sessionId,
+      title: conversation.title || null,
+      isPinned: conversation.isPinned,
+      archivedAt: conversation.archivedAt || null,
+      messageCount: conversation.messages.length,
+      totalTokens: conversation.metadata?.totalTokens || 0,
+      lastMessageAt: conversation.lastMessageAt || null,
+      createdAt: conversation.createdAt,
+    };
+  }
+}
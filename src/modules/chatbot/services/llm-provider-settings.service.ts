@@ -0,0 +1,98 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { OpenAIService } from './openai.service';
+import { LlmProviderSetting } from '../entities/llm-provider-setting.entity';
+import { LlmProviderName } from '../interfaces/llm-provider.interface';
+import { LlmProviderSettingsDto, UpdateLlmProviderSettingsDto } from '../dto/llm-provider-settings.dto';
+
+const PROVIDERS_WITH_ENDPOINT: LlmProviderName[] = ['azure-openai', 'openai-compatible'];
+
+/**
+ * Which model provider a tenant's chatbot, summaries, retrieval and hypotheses use
+ */
+@Injectable()
+export class LlmProviderSettingsService {
+  private readonly logger = new Logger(LlmProviderSettingsService.name);
+
+  constructor(
+    @InjectRepository(LlmProviderSetting)
+    private readonly llmProviderSettingRepository: Repository<LlmProviderSetting>,
+    private readonly openaiService: OpenAIService,
+  ) {}
+
+  async getSettings(tenantId: number): Promise<LlmProviderSettingsDto> {
+    const setting = await this.llmProviderSettingRepository.findOne({ where: { tenantId } });
+    return this.toDto(setting);
+  }
+
+  /**
+   * Replace the tenant's provider settings. The stored API key is kept when none is given,
+   * as long as the provider and endpoint stay the same.
+   */
+  async saveSettings(tenantId: number, dto: UpdateLlmProviderSettingsDto, userId: number): Promise<LlmProviderSettingsDto> {
+    if (dto.endpoint && !PROVIDERS_WITH_ENDPOINT.includes(dto.provider)) {
+      throw new BadRequestException(`endpoint is not used by the ${dto.provider} provider`);
+    }
+
+    const existing = await this.llmProviderSettingRepository.findOne({ where: { tenantId } });
+    const keepApiKey = !!existing && existing.provider === dto.provider && (existing.endpoint || null) === (dto.endpoint || null);
+
+    const setting = existing || this.llmProviderSettingRepository.create({ tenantId });
+    setting.provider = dto.provider;
+    setting.model = dto.model || null;
+    setting.embeddingModel = dto.embeddingModel || null;
+    setting.endpoint = dto.endpoint || null;
+    setting.apiKey = dto.apiKey || (keepApiKey ? setting.apiKey : null);
+    setting.apiVersion = dto.apiVersion || null;
+    setting.updatedBy = userId;
+
+    // Refuse settings that cannot serve requests rather than failing every chat afterwards
+    if (!this.openaiService.createProvider(this.openaiService.resolveConfig(setting)).isConfigured()) {
+      throw new BadRequestException(this.missingSettingsMessage(dto.provider));
+    }
+
+    const saved = await this.llmProviderSettingRepository.save(setting);
+    this.openaiService.clearTenantProvider(tenantId);
+
+    this.logger.log(`Tenant ${tenantId} now uses the ${saved.provider} LLM provider (updated by user ${userId})`);
+    return this.toDto(saved);
+  }
+
+  /**
+   * Go back to the default provider
+   */
+  async resetSettings(tenantId: number): Promise<LlmProviderSettingsDto> {
+    await this.llmProviderSettingRepository.delete({ tenantId });
+    this.openaiService.clearTenantProvider(tenantId);
+    return this.toDto(null);
+  }
+
+  private missingSettingsMessage(provider: LlmProviderName): string {
+    switch (provider) {
+      case 'azure-openai':
+        return 'Azure OpenAI needs an endpoint, an API key and a deployment name in model';
+      case 'openai-compatible':
+        return 'An OpenAI-compatible server needs an endpoint and a model';
+      default:
+        return `The ${provider} provider is not configured on this deployment`;
+    }
+  }
+
+  private toDto(setting: LlmProviderSetting | null): LlmProviderSettingsDto {
+    const config = setting ? this.openaiService.resolveConfig(setting) : null;
+    const provider = config ? this.openaiService.createProvider(config) : this.openaiService;
+
+    return {
+      provider: provider.name,
+      source: setting ? 'tenant' : 'default',
+      model: provider.getModel(),
+      embeddingModel: config?.embeddingModel || null,
+      endpoint: setting?.endpoint || null,
+      apiVersion: config?.apiVersion || null,
+      hasApiKey: !!setting?.apiKey,
+      isConfigured: provider.isConfigured(),
+      supportsEmbeddings: provider.supportsEmbeddings(),
+    };
+  }
+}
@@ -0,0 +1,184 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpStatus } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { LlmUsageService } from './llm-usage.service';
+import { LlmUsageRecord } from '../entities/llm-usage-record.entity';
+import { Tenant } from '../../tenants/entities/tenant.entity';
+
+describe('LlmUsageService', () => {
+  let service: LlmUsageService;
+
+  const config: Record<string, string | undefined> = {};
+  const queryBuilder = {
+    select: jest.fn().mockReturnThis(),
+    addSelect: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    groupBy: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    getRawOne: jest.fn(),
+    getRawMany: jest.fn(),
+  };
+  const mockUsageRepository = {
+    create: jest.fn((data: Partial<LlmUsageRecord>) => data),
+    save: jest.fn((record: Partial<LlmUsageRecord>) => Promise.resolve(record)),
+    createQueryBuilder: jest.fn(() => queryBuilder),
+  };
+  const mockTenantRepository = { findOne: jest.fn() };
+
+  const entry = {
+    tenantId: 1,
+    userId: 2,
+    feature: 'chat' as const,
+    provider: 'openai' as const,
+    model: 'gpt-4o-2024-08-06',
+    operation: 'chat' as const,
+    promptTokens: 1000,
+    completionTokens: 500,
+    tokensEstimated: false,
+    latencyMs: 800,
+    success: true,
+  };
+
+  const createService = async (): Promise<LlmUsageService> => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LlmUsageService,
+        { provide: getRepositoryToken(LlmUsageRecord), useValue: mockUsageRepository },
+        { provide: getRepositoryToken(Tenant), useValue: mockTenantRepository },
+        { provide: ConfigService, useValue: { get: jest.fn((key: string, defaultValue?: string) => config[key] ?? defaultValue) } },
+      ],
+    }).compile();
+
+    return module.get<LlmUsageService>(LlmUsageService);
+  };
+
+  beforeEach(async () => {
+    for (const key of Object.keys(config)) {
+      delete config[key];
+    }
+    service = await createService();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('record', () => {
+    it('should store the call with its total tokens and estimated cost', async () => {
+      await service.record(entry);
+
+      expect(mockUsageRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+        tenantId: 1,
+        userId: 2,
+        feature: 'chat',
+        model: 'gpt-4o-2024-08-06',
+        totalTokens: 1500,
+        estimatedCost: 0.0075,
+        success: true,
+      }));
+    });
+
+    it('should not fail the request when the usage cannot be stored', async () => {
+      mockUsageRepository.save.mockRejectedValueOnce(new Error('Connection lost'));
+
+      await expect(service.record(entry)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('quota', () => {
+    it('should limit the tokens of a month by subscription tier', async () => {
+      mockTenantRepository.findOne.mockResolvedValueOnce({ id: 1, subscriptionTier: 'starter' });
+      queryBuilder.getRawOne.mockResolvedValueOnce({ used: '250000' });
+
+      const status = await service.getQuotaStatus(1);
+
+      expect(status).toMatchObject({ tier: 'starter', limit: 1000000, used: 250000, remaining: 750000 });
+      expect(status.periodStart.getUTCDate()).toBe(1);
+      expect(queryBuilder.where).toHaveBeenCalledWith('record.tenantId = :tenantId', { tenantId: 1 });
+    });
+
+    it('should reject calls with 429 once the quota is used up, counting usage recorded since', async () => {
+      mockTenantRepository.findOne.mockResolvedValueOnce({ id: 1, subscriptionTier: 'free' });
+      queryBuilder.getRawOne.mockResolvedValueOnce({ used: '99000' });
+
+      await expect(service.assertWithinQuota(1)).resolves.toBeUndefined();
+      await service.record(entry);
+
+      const error = await service.assertWithinQuota(1).catch(e => e);
+      expect(error.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+      expect(error.message).toMatch(/^Monthly AI usage quota of 100,000 tokens for the free plan is used up\. It resets on \d{4}-\d{2}-01\.$/);
+      expect(queryBuilder.getRawOne).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not limit tiers configured as unlimited, and take limits from the environment', async () => {
+      config.LLM_MONTHLY_TOKEN_QUOTA_ENTERPRISE = '20000000';
+      config.LLM_MONTHLY_TOKEN_QUOTA_PROFESSIONAL = '0';
+      service = await createService();
+      mockTenantRepository.findOne
+        .mockResolvedValueOnce({ id: 1, subscriptionTier: 'professional' })
+        .mockResolvedValueOnce({ id: 2, subscriptionTier: 'enterprise' });
+      queryBuilder.getRawOne.mockResolvedValueOnce({ used: '90000000' }).mockResolvedValueOnce({ used: '0' });
+
+      await expect(service.assertWithinQuota(1)).resolves.toBeUndefined();
+      expect((await service.getQuotaStatus(2)).limit).toBe(20000000);
+    });
+  });
+
+  describe('estimateCost', () => {
+    it('should price dated model versions by the longest matching name', () => {
+      expect(service.estimateCost('gpt-4o-mini-2024-07-18', 1000000, 1000000)).toBe(0.75);
+      expect(service.estimateCost('gpt-4o', 1000000, 0)).toBe(2.5);
+    });
+
+    it('should leave models without a price unpriced unless LLM_MODEL_PRICES has them', async () => {
+      expect(service.estimateCost('llama3.1', 1000, 1000)).toBeNull();
+
+      config.LLM_MODEL_PRICES = '{"llama3.1":{"input":0.1,"output":0.2}}';
+      service = await createService();
+
+      expect(service.estimateCost('llama3.1', 1000000, 1000000)).toBe(0.3);
+    });
+  });
+
+  describe('getReport', () => {
+    it('should group usage by the requested key and add up the totals', async () => {
+      queryBuilder.getRawMany.mockResolvedValueOnce([
+        { groupKey: 'chat', requests: '3', failedRequests: '1', promptTokens: '3000', completionTokens: '600', totalTokens: '3600', estimatedCost: '0.0135', unpricedRequests: '0', averageLatencyMs: '900.5' },
+        { groupKey: 'retrieval', requests: '1', failedRequests: '0', promptTokens: '400', completionTokens: '0', totalTokens: '400', estimatedCost: null, unpricedRequests: '1', averageLatencyMs: '100' },
+      ]);
+      mockTenantRepository.findOne.mockResolvedValueOnce({ id: 1, subscriptionTier: 'starter' });
+      queryBuilder.getRawOne.mockResolvedValueOnce({ used: '4000' });
+
+      const report = await service.getReport(1, { groupBy: 'feature', from: '2026-10-01', to: '2026-10-19' });
+
+      expect(queryBuilder.select).toHaveBeenCalledWith('record.feature', 'groupKey');
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('record.createdAt >= :from', { from: new Date('2026-10-01') });
+      expect(report.rows[0]).toEqual({
+        key: 'chat',
+        requests: 3,
+        failedRequests: 1,
+        promptTokens: 3000,
+        completionTokens: 600,
+        totalTokens: 3600,
+        estimatedCost: 0.0135,
+        unpricedRequests: 0,
+        averageLatencyMs: 901,
+      });
+      expect(report.totals).toMatchObject({ requests: 4, totalTokens: 4000, estimatedCost: 0.0135, unpricedRequests: 1, averageLatencyMs: 701 });
+      expect(report.quota).toMatchObject({ tier: 'starter', used: 4000 });
+    });
+
+    it('should report usage of background jobs under "system" when grouped by user', async () => {
+      queryBuilder.getRawMany.mockResolvedValueOnce([{ groupKey: null, requests: '2' }, { groupKey: 2, requests: '1' }]);
+      mockTenantRepository.findOne.mockResolvedValueOnce(null);
+      queryBuilder.getRawOne.mockResolvedValueOnce({ used: '0' });
+
+      const report = await service.getReport(1, { groupBy: 'user' });
+
+      expect(report.rows.map(row => row.key)).toEqual(['system', '2']);
+      expect(report.quota.tier).toBe('free');
+    });
+  });
+});
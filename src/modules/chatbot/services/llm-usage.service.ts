@@ -0,0 +1,309 @@
+import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { LlmUsageRecord } from '../entities/llm-usage-record.entity';
+import { Tenant } from '../../tenants/entities/tenant.entity';
+import {
+  LlmQuotaStatus,
+  LlmUsageEntry,
+  LlmUsageGroupBy,
+  ModelPrice,
+  SUBSCRIPTION_TIERS,
+  SubscriptionTier,
+} from '../interfaces/llm-usage.interface';
+import { GetLlmUsageReportQueryDto, LlmUsageReportDto, LlmUsageReportRowDto } from '../dto/llm-usage.dto';
+
+/**
+ * Monthly token quotas per subscription tier; 0 means unlimited
+ */
+const DEFAULT_MONTHLY_TOKEN_QUOTAS: Record<SubscriptionTier, number> = {
+  free: 100000,
+  starter: 1000000,
+  professional: 5000000,
+  enterprise: 0,
+};
+
+/**
+ * List prices of OpenAI models in USD per million tokens. Dated model versions use the
+ * price of the longest matching name; other models are priced with LLM_MODEL_PRICES.
+ */
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4-turbo-preview': { input: 10, output: 30 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+};
+
+/**
+ * How long the month's usage of a tenant is trusted before it is summed again. Usage
+ * recorded by this instance is added in between; other instances' usage shows up within it.
+ */
+const QUOTA_CACHE_TTL_MS = 60 * 1000;
+
+const REPORT_GROUPS: Record<LlmUsageGroupBy, string> = {
+  day: 'DATE(record.createdAt)',
+  user: 'record.userId',
+  model: "CONCAT(record.provider, ':', record.model)",
+  feature: 'record.feature',
+};
+
+/**
+ * Row of the report query; the driver returns sums and averages as strings and DATE() as a Date
+ */
+interface LlmUsageReportRawRow {
+  groupKey: Date | string | number | null;
+  requests: string | number | null;
+  failedRequests: string | number | null;
+  promptTokens: string | number | null;
+  completionTokens: string | number | null;
+  totalTokens: string | number | null;
+  estimatedCost: string | number | null;
+  unpricedRequests: string | number | null;
+  averageLatencyMs: string | number | null;
+}
+
+/**
+ * Ledger of model calls per tenant and user, with monthly token quotas by subscription tier
+ */
+@Injectable()
+export class LlmUsageService {
+  private readonly logger = new Logger(LlmUsageService.name);
+  private readonly quotas: Record<SubscriptionTier, number>;
+  private readonly prices: Record<string, ModelPrice>;
+  private readonly quotaCache = new Map<number, { status: LlmQuotaStatus; expiresAt: number }>();
+
+  constructor(
+    @InjectRepository(LlmUsageRecord)
+    private readonly usageRepository: Repository<LlmUsageRecord>,
+    @InjectRepository(Tenant)
+    private readonly tenantRepository: Repository<Tenant>,
+    private readonly configService: ConfigService,
+  ) {
+    this.quotas = { ...DEFAULT_MONTHLY_TOKEN_QUOTAS };
+    for (const tier of SUBSCRIPTION_TIERS) {
+      const configured = this.configService.get<string>(`LLM_MONTHLY_TOKEN_QUOTA_${tier.toUpperCase()}`);
+      if (configured !== undefined && configured !== '' && !isNaN(parseInt(configured, 10))) {
+        this.quotas[tier] = parseInt(configured, 10);
+      }
+    }
+
+    this.prices = { ...DEFAULT_MODEL_PRICES };
+    const configuredPrices = this.configService.get<string>('LLM_MODEL_PRICES');
+    if (configuredPrices) {
+      try {
+        Object.assign(this.prices, JSON.parse(configuredPrices));
+      } catch (error) {
+        this.logger.warn(`Ignoring LLM_MODEL_PRICES, it is not valid JSON: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Store a model call. Failures are logged, not thrown, so metering never breaks a request.
+   */
+  async record(entry: LlmUsageEntry): Promise<void> {
+    const totalTokens = entry.promptTokens + entry.completionTokens;
+
+    try {
+      await this.usageRepository.save(
+        this.usageRepository.create({
+          tenantId: entry.tenantId,
+          userId: entry.userId ?? null,
+          feature: entry.feature,
+          provider: entry.provider,
+          model: entry.model,
+          operation: entry.operation,
+          promptTokens: entry.promptTokens,
+          completionTokens: entry.completionTokens,
+          totalTokens,
+          tokensEstimated: entry.tokensEstimated,
+          latencyMs: entry.latencyMs,
+          estimatedCost: this.estimateCost(entry.model, entry.promptTokens, entry.completionTokens),
+          success: entry.success,
+        }),
+      );
+    } catch (error) {
+      this.logger.error(`Failed to record LLM usage for tenant ${entry.tenantId}: ${error.message}`);
+    }
+
+    const cached = this.quotaCache.get(entry.tenantId);
+    if (cached) {
+      cached.status.used += totalTokens;
+      cached.status.remaining = cached.status.limit === null ? null : Math.max(cached.status.limit - cached.status.used, 0);
+    }
+  }
+
+  /**
+   * Throw 429 when the tenant has used up its monthly tokens
+   */
+  async assertWithinQuota(tenantId: number): Promise<void> {
+    const status = await this.getQuotaStatus(tenantId);
+
+    if (status.limit !== null && status.used >= status.limit) {
+      throw new HttpException(
+        `Monthly AI usage quota of ${status.limit.toLocaleString('en-US')} tokens for the ${status.tier} plan is used up. ` +
+          `It resets on ${status.resetsAt.toISOString().split('T')[0]}.`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  async getQuotaStatus(tenantId: number): Promise<LlmQuotaStatus> {
+    const { periodStart, resetsAt } = this.currentPeriod();
+    const cached = this.quotaCache.get(tenantId);
+    if (cached && cached.expiresAt > Date.now() && cached.status.periodStart.getTime() === periodStart.getTime()) {
+      return { ...cached.status };
+    }
+
+    const tenant = await this.tenantRepository.findOne({ where: { id: tenantId }, select: ['id', 'subscriptionTier'] });
+    const tier = SUBSCRIPTION_TIERS.includes(tenant?.subscriptionTier as SubscriptionTier)
+      ? (tenant!.subscriptionTier as SubscriptionTier)
+      : 'free';
+    const limit = this.quotas[tier] > 0 ? this.quotas[tier] : null;
+
+    const row = await this.usageRepository
+      .createQueryBuilder('record')
+      .select('COALESCE(SUM(record.totalTokens), 0)', 'used')
+      .where('record.tenantId = :tenantId', { tenantId })
+      .andWhere('record.createdAt >= :periodStart', { periodStart })
+      .getRawOne();
+    const used = Number(row?.used || 0);
+
+    const status: LlmQuotaStatus = {
+      tier,
+      limit,
+      used,
+      remaining: limit === null ? null : Math.max(limit - used, 0),
+      periodStart,
+      resetsAt,
+    };
+    this.quotaCache.set(tenantId, { status, expiresAt: Date.now() + QUOTA_CACHE_TTL_MS });
+
+    return { ...status };
+  }
+
+  /**
+   * Usage of a tenant between two dates (default: the current quota period), grouped by
+   * day, user, model or feature
+   */
+  async getReport(tenantId: number, query: GetLlmUsageReportQueryDto): Promise<LlmUsageReportDto> {
+    const groupBy = query.groupBy || 'day';
+    const from = query.from ? new Date(query.from) : this.currentPeriod().periodStart;
+    const to = query.to ? new Date(query.to) : new Date();
+    const groupExpression = REPORT_GROUPS[groupBy];
+
+    const rows = await this.usageRepository
+      .createQueryBuilder('record')
+      .select(groupExpression, 'groupKey')
+      .addSelect('COUNT(record.id)', 'requests')
+      .addSelect('SUM(CASE WHEN record.success THEN 0 ELSE 1 END)', 'failedRequests')
+      .addSelect('SUM(record.promptTokens)', 'promptTokens')
+      .addSelect('SUM(record.completionTokens)', 'completionTokens')
+      .addSelect('SUM(record.totalTokens)', 'totalTokens')
+      .addSelect('SUM(record.estimatedCost)', 'estimatedCost')
+      .addSelect('SUM(CASE WHEN record.estimatedCost IS NULL THEN 1 ELSE 0 END)', 'unpricedRequests')
+      .addSelect('AVG(record.latencyMs)', 'averageLatencyMs')
+      .where('record.tenantId = :tenantId', { tenantId })
+      .andWhere('record.createdAt >= :from', { from })
+      .andWhere('record.createdAt <= :to', { to })
+      .groupBy(groupExpression)
+      .orderBy('groupKey', 'ASC')
+      .getRawMany<LlmUsageReportRawRow>();
+
+    const reportRows = rows.map(row => this.toReportRow(row));
+
+    return {
+      from,
+      to,
+      groupBy,
+      totals: this.sumRows(reportRows),
+      rows: reportRows,
+      quota: await this.getQuotaStatus(tenantId),
+    };
+  }
+
+  /**
+   * Cost in USD, or null when the model has no known price
+   */
+  estimateCost(model: string, promptTokens: number, completionTokens: number): number | null {
+    const price = this.priceOf(model);
+    if (!price) {
+      return null;
+    }
+    return Math.round(((promptTokens * price.input + completionTokens * price.output) / 1000000) * 1e6) / 1e6;
+  }
+
+  private priceOf(model: string): ModelPrice | null {
+    if (this.prices[model]) {
+      return this.prices[model];
+    }
+
+    const prefix = Object.keys(this.prices)
+      .filter(name => model.startsWith(`${name}-`))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? this.prices[prefix] : null;
+  }
+
+  /**
+   * Calendar month in UTC
+   */
+  private currentPeriod(): { periodStart: Date; resetsAt: Date } {
+    const now = new Date();
+    return {
+      periodStart: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+      resetsAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+    };
+  }
+
+  private toReportRow(row: LlmUsageReportRawRow): LlmUsageReportRowDto {
+    const key = row.groupKey instanceof Date ? row.groupKey.toISOString().split('T')[0] : row.groupKey;
+
+    return {
+      key: key === null || key === undefined ? 'system' : String(key),
+      requests: Number(row.requests || 0),
+      failedRequests: Number(row.failedRequests || 0),
+      promptTokens: Number(row.promptTokens || 0),
+      completionTokens: Number(row.completionTokens || 0),
+      totalTokens: Number(row.totalTokens || 0),
+      estimatedCost: Math.round(Number(row.estimatedCost || 0) * 1e6) / 1e6,
+      unpricedRequests: Number(row.unpricedRequests || 0),
+      averageLatencyMs: Math.round(Number(row.averageLatencyMs || 0)),
+    };
+  }
+
+  private sumRows(rows: LlmUsageReportRowDto[]): LlmUsageReportRowDto {
+    const totals: LlmUsageReportRowDto = {
+      key: 'total',
+      requests: 0,
+      failedRequests: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      estimatedCost: 0,
+      unpricedRequests: 0,
+      averageLatencyMs: 0,
+    };
+
+    let latency = 0;
+    for (const row of rows) {
+      totals.requests += row.requests;
+      totals.failedRequests += row.failedRequests;
+      totals.promptTokens += row.promptTokens;
+      totals.completionTokens += row.completionTokens;
+      totals.totalTokens += row.totalTokens;
+      totals.estimatedCost += row.estimatedCost;
+      totals.unpricedRequests += row.unpricedRequests;
+      latency += row.averageLatencyMs * row.requests;
+    }
+
+    totals.estimatedCost = Math.round(totals.estimatedCost * 1e6) / 1e6;
+    totals.averageLatencyMs = totals.requests > 0 ? Math.round(latency / totals.requests) : 0;
+    return totals;
+  }
+}
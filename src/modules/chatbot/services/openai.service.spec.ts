@@ -0,0 +1,198 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { OpenAIService } from './openai.service';
+import { LlmUsageService } from './llm-usage.service';
+import { LlmProviderSetting } from '../entities/llm-provider-setting.entity';
+import { FakeLlmProvider } from '../providers/fake-llm.provider';
+
+describe('OpenAIService', () => {
+  let service: OpenAIService;
+
+  const config: Record<string, string | undefined> = {};
+  const mockSettingRepository = { findOne: jest.fn() };
+  const mockUsageService = { assertWithinQuota: jest.fn(), record: jest.fn() };
+  const chatContext = { feature: 'chat' as const, userId: 7 };
+
+  const createService = async (): Promise<OpenAIService> => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OpenAIService,
+        { provide: getRepositoryToken(LlmProviderSetting), useValue: mockSettingRepository },
+        { provide: LlmUsageService, useValue: mockUsageService },
+        { provide: ConfigService, useValue: { get: jest.fn((key: string, defaultValue?: string) => config[key] ?? defaultValue) } },
+      ],
+    }).compile();
+
+    return module.get<OpenAIService>(OpenAIService);
+  };
+
+  beforeEach(async () => {
+    for (const key of Object.keys(config)) {
+      delete config[key];
+    }
+    config.OPENAI_API_KEY = 'sk-platform';
+    config.AZURE_OPENAI_API_KEY = 'azure-platform';
+    config.AZURE_OPENAI_ENDPOINT = 'https://platform.openai.azure.com';
+    service = await createService();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('forTenant', () => {
+    it('should use the default provider for tenants without settings, and cache it', async () => {
+      mockSettingRepository.findOne.mockResolvedValueOnce(null);
+
+      const provider = await service.forTenant(1, chatContext);
+      await service.forTenant(1, chatContext);
+
+      expect(provider.name).toBe('openai');
+      expect(provider.getModel()).toBe('gpt-4-turbo-preview');
+      expect(mockSettingRepository.findOne).toHaveBeenCalledTimes(1);
+    });
+
+    it('should build the provider chosen by the tenant and read it again after a change', async () => {
+      mockSettingRepository.findOne
+        .mockResolvedValueOnce({ tenantId: 1, provider: 'azure-openai', model: 'gpt-4o-acme', apiKey: 'azure-acme', endpoint: 'https://acme.openai.azure.com' })
+        .mockResolvedValueOnce({ tenantId: 1, provider: 'fake' });
+
+      const azure = await service.forTenant(1, chatContext);
+      service.clearTenantProvider(1);
+      const fake = await service.forTenant(1, chatContext);
+
+      expect(azure.name).toBe('azure-openai');
+      expect(azure.getModel()).toBe('gpt-4o-acme');
+      expect(azure.isConfigured()).toBe(true);
+      expect(fake.name).toBe('fake');
+      expect(fake.getModel()).toBe('fake-llm-v1');
+    });
+
+    it('should not fall back to another provider when the chosen one is incomplete', async () => {
+      config.AZURE_OPENAI_ENDPOINT = undefined;
+      service = await createService();
+      mockSettingRepository.findOne.mockResolvedValueOnce({ tenantId: 1, provider: 'azure-openai', model: 'gpt-4o-acme' });
+
+      const provider = await service.forTenant(1, chatContext);
+
+      expect(provider.name).toBe('azure-openai');
+      expect(provider.isConfigured()).toBe(false);
+      await expect(provider.chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow('AI service is not configured');
+    });
+  });
+
+  describe('metering', () => {
+    it('should record the usage of each call for the tenant, feature and user', async () => {
+      mockSettingRepository.findOne.mockResolvedValueOnce({ tenantId: 1, provider: 'fake' });
+
+      const provider = await service.forTenant(1, chatContext);
+      await provider.chat([{ role: 'user', content: 'Any outages?' }]);
+
+      expect(mockUsageService.assertWithinQuota).toHaveBeenCalledWith(1);
+      expect(mockUsageService.record).toHaveBeenCalledWith(expect.objectContaining({
+        tenantId: 1,
+        userId: 7,
+        feature: 'chat',
+        provider: 'fake',
+        model: 'fake-llm-v1',
+        operation: 'chat',
+        promptTokens: 3,
+        completionTokens: 7,
+        tokensEstimated: false,
+        success: true,
+      }));
+    });
+
+    it('should estimate the tokens of calls without reported usage', async () => {
+      mockSettingRepository.findOne.mockResolvedValueOnce({ tenantId: 1, provider: 'fake' });
+
+      const provider = await service.forTenant(1, { feature: 'retrieval' });
+      await provider.createEmbeddings(['payments outage']);
+
+      expect(mockUsageService.record).toHaveBeenCalledWith(expect.objectContaining({
+        feature: 'retrieval',
+        model: 'fake-embedding-v1',
+        operation: 'embedding',
+        promptTokens: 4,
+        completionTokens: 0,
+        tokensEstimated: true,
+      }));
+    });
+
+    it('should record failed calls and not call the model when the quota is used up', async () => {
+      mockSettingRepository.findOne.mockResolvedValueOnce({ tenantId: 1, provider: 'azure-openai', model: 'gpt-4o-acme' });
+      config.AZURE_OPENAI_ENDPOINT = undefined;
+      service = await createService();
+
+      const incomplete = await service.forTenant(1, chatContext);
+      await expect(incomplete.chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow('AI service is not configured');
+      expect(mockUsageService.record).toHaveBeenCalledWith(expect.objectContaining({ success: false, promptTokens: 0 }));
+
+      mockUsageService.record.mockClear();
+      mockUsageService.assertWithinQuota.mockRejectedValueOnce(new HttpException('Quota used up', HttpStatus.TOO_MANY_REQUESTS));
+      await expect(incomplete.chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow('Quota used up');
+      expect(mockUsageService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveConfig', () => {
+    it('should layer tenant settings over the defaults of the provider', () => {
+      expect(service.resolveConfig({ provider: 'azure-openai', model: 'gpt-4o-acme' } as LlmProviderSetting)).toEqual({
+        provider: 'azure-openai',
+        model: 'gpt-4o-acme',
+        embeddingModel: undefined,
+        endpoint: 'https://platform.openai.azure.com',
+        apiKey: 'azure-platform',
+        apiVersion: '2024-10-21',
+      });
+    });
+
+    it('should never send the default API key to an endpoint set by the tenant', () => {
+      const resolved = service.resolveConfig({
+        provider: 'openai-compatible',
+        endpoint: 'https://llm.acme.internal/v1',
+        model: 'llama3.1',
+      } as LlmProviderSetting);
+      const azure = service.resolveConfig({ provider: 'azure-openai', endpoint: 'https://acme.openai.azure.com' } as LlmProviderSetting);
+
+      expect(resolved.apiKey).toBeNull();
+      expect(azure.apiKey).toBeNull();
+    });
+  });
+
+  describe('FakeLlmProvider', () => {
+    const fake = new FakeLlmProvider();
+
+    it('should answer deterministically and stream the same answer', async () => {
+      const tokens: string[] = [];
+      const messages = [{ role: 'system' as const, content: 'Be brief.' }, { role: 'user' as const, content: 'Any  outages?' }];
+
+      const result = await fake.chatStreamWithTools(messages, [], token => tokens.push(token));
+
+      expect(result.content).toBe('Fake answer to: Any outages?');
+      expect(tokens.join('')).toBe(result.content);
+      expect(result.toolCalls).toEqual([]);
+      expect(result.usage).toEqual({ prompt_tokens: 6, completion_tokens: 7, total_tokens: 13 });
+      expect((await fake.chat(messages, { jsonMode: true })).content).toBe('{}');
+    });
+
+    it('should return queued responses first, tool calls included', async () => {
+      const scripted = new FakeLlmProvider().queue({ content: '', toolCalls: [{ id: 'call_1', name: 'search_weak_signals', arguments: '{}' }] }, 'Done');
+
+      expect((await scripted.chatWithTools([{ role: 'user', content: 'Q' }])).toolCalls[0].name).toBe('search_weak_signals');
+      expect((await scripted.chatWithTools([{ role: 'user', content: 'Q' }])).content).toBe('Done');
+      expect((await scripted.chatWithTools([{ role: 'user', content: 'Q' }])).content).toBe('Fake answer to: Q');
+    });
+
+    it('should embed texts sharing words closer than unrelated ones', async () => {
+      const [payments, paymentsOutage, lunch] = await fake.createEmbeddings(['payments outage', 'outage of payments api', 'team lunch']);
+      const dot = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+      expect(payments).toHaveLength(64);
+      expect(dot(payments, paymentsOutage)).toBeGreaterThan(dot(payments, lunch));
+      expect(await fake.createEmbeddings(['payments outage'])).toEqual([payments]);
+    });
+  });
+});
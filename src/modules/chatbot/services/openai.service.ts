@@ -1,151 +1,204 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, Inject, Optional } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
 import OpenAI from 'openai';
-
+import { LlmProviderSetting } from '../entities/llm-provider-setting.entity';
+import { ChatMessage, ChatToolDefinition } from '../interfaces/chat-tool.interface';
+import {
+  ChatWithToolsResult,
+  LLM_PROVIDER_NAMES,
+  LlmChatOptions,
+  LlmChatResult,
+  LlmProvider,
+  LlmProviderConfig,
+  LlmProviderName,
+  LlmToolOptions,
+} from '../interfaces/llm-provider.interface';
+import { OpenAILlmProvider } from '../providers/openai-llm.provider';
+import { AzureOpenAILlmProvider } from '../providers/azure-openai-llm.provider';
+import { OpenAICompatibleLlmProvider } from '../providers/openai-compatible-llm.provider';
+import { FakeLlmProvider } from '../providers/fake-llm.provider';
+import { MeteredLlmProvider } from '../providers/metered-llm.provider';
+import { LlmUsageContext } from '../interfaces/llm-usage.interface';
+import { LlmUsageService } from './llm-usage.service';
+
+export { ChatWithToolsResult } from '../interfaces/llm-provider.interface';
+
+/**
+ * Optional provider for the OpenAI client, used to pass a mocked client in tests
+ */
+export const OPENAI_CLIENT = 'OPENAI_CLIENT';
+
+/**
+ * How long a tenant's provider is reused before its settings are read again. Other
+ * instances pick up a settings change within this time.
+ */
+const TENANT_PROVIDER_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Entry point to the language models. Tenant-scoped callers get the provider chosen by
+ * the tenant with forTenant(); the methods of this service itself use the deployment's
+ * default provider (LLM_PROVIDER).
+ */
 @Injectable()
-export class OpenAIService {
+export class OpenAIService implements LlmProvider {
   private readonly logger = new Logger(OpenAIService.name);
-  private readonly openai: OpenAI;
-  private readonly model: string;
+  private readonly defaults: Record<LlmProviderName, LlmProviderConfig>;
+  private readonly defaultProvider: LlmProvider;
+  private readonly tenantProviders = new Map<number, { provider: LlmProvider; expiresAt: number }>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(LlmProviderSetting)
+    private readonly llmProviderSettingRepository: Repository<LlmProviderSetting>,
+    private readonly llmUsageService: LlmUsageService,
+    @Optional() @Inject(OPENAI_CLIENT) private readonly client?: OpenAI,
+  ) {
+    this.defaults = {
+      openai: {
+        provider: 'openai',
+        apiKey: this.configService.get<string>('OPENAI_API_KEY'),
+        model: this.configService.get<string>('OPENAI_MODEL', 'gpt-4-turbo-preview'),
+        embeddingModel: this.configService.get<string>('OPENAI_EMBEDDING_MODEL', 'text-embedding-3-small'),
+      },
+      'azure-openai': {
+        provider: 'azure-openai',
+        endpoint: this.configService.get<string>('AZURE_OPENAI_ENDPOINT'),
+        apiKey: this.configService.get<string>('AZURE_OPENAI_API_KEY'),
+        apiVersion: this.configService.get<string>('AZURE_OPENAI_API_VERSION', '2024-10-21'),
+        model: this.configService.get<string>('AZURE_OPENAI_DEPLOYMENT'),
+        embeddingModel: this.configService.get<string>('AZURE_OPENAI_EMBEDDING_DEPLOYMENT'),
+      },
+      'openai-compatible': {
+        provider: 'openai-compatible',
+        endpoint: this.configService.get<string>('LLM_LOCAL_BASE_URL'),
+        apiKey: this.configService.get<string>('LLM_LOCAL_API_KEY'),
+        model: this.configService.get<string>('LLM_LOCAL_MODEL'),
+        embeddingModel: this.configService.get<string>('LLM_LOCAL_EMBEDDING_MODEL'),
+      },
+      fake: { provider: 'fake' },
+    };
+
+    const configured = this.configService.get<string>('LLM_PROVIDER', 'openai') as LlmProviderName;
+    if (!LLM_PROVIDER_NAMES.includes(configured)) {
+      this.logger.warn(`Unknown LLM_PROVIDER "${configured}", using openai`);
+    }
 
-  constructor(private readonly configService: ConfigService) {
-    const apiKey = this.configService.get<string>('OPENAI_API_KEY');
+    this.defaultProvider = this.createProvider(this.defaults[configured] || this.defaults.openai);
 
-    if (!apiKey) {
-      this.logger.warn('OPENAI_API_KEY not configured. Chatbot will not function.');
+    if (!this.defaultProvider.isConfigured()) {
+      this.logger.warn(`LLM provider "${this.defaultProvider.name}" not configured. Chatbot will not function.`);
     }
+  }
 
-    this.openai = new OpenAI({
-      apiKey: apiKey || 'dummy-key',
-      timeout: 120000, // 2 minutes timeout for API calls
-      maxRetries: 2, // Retry failed requests twice
-    });
-
-    this.model = this.configService.get<string>('OPENAI_MODEL', 'gpt-4-turbo-preview');
-  }
-
-  async chat(messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>) {
-    try {
-      const completion = await this.openai.chat.completions.create({
-        model: this.model,
-        messages: messages,
-        temperature: 0.7,
-        max_tokens: 1500,
-      });
-
-      return {
-        content: completion.choices[0].message.content || '',
-        usage: completion.usage,
-      };
-    } catch (error) {
-      this.logger.error('OpenAI API error:', error);
-
-      // Check for specific error types
-      if (error.message?.includes('timeout')) {
-        throw new Error('AI service request timed out. Please try again.');
-      }
-      if (error.message?.includes('network')) {
-        throw new Error('Network error connecting to AI service. Please check your connection.');
-      }
-      if (error.status === 429) {
-        throw new Error('AI service rate limit exceeded. Please try again in a moment.');
-      }
-      if (error.status === 401) {
-        throw new Error('AI service authentication failed. Please contact support.');
-      }
-
-      throw new Error('Failed to get response from AI service. Please try again.');
-    }
+  /**
+   * Provider for a tenant: the one in its settings, or the default one without settings.
+   * A provider that is chosen but not configured is returned as is, so requests fail
+   * instead of going to another provider. Calls are metered against the tenant's quota
+   * and recorded for the feature and user in context.
+   */
+  async forTenant(tenantId: number, context: LlmUsageContext): Promise<LlmProvider> {
+    return new MeteredLlmProvider(await this.tenantProvider(tenantId), this.llmUsageService, tenantId, context);
+  }
+
+  /**
+   * Drop the cached provider of a tenant after its settings changed
+   */
+  clearTenantProvider(tenantId: number): void {
+    this.tenantProviders.delete(tenantId);
   }
 
   /**
-   * Stream chat responses token by token
-   * @param messages - Conversation messages
-   * @param onToken - Callback fired for each token received
-   * @returns Full response content
+   * Tenant settings layered over the environment defaults of the same provider. The
+   * default API key is only used with the default endpoint, so it is never sent to an
+   * endpoint set by a tenant.
    */
-  async chatStream(
-    messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
+  resolveConfig(setting: Pick<LlmProviderSetting, 'provider' | 'model' | 'embeddingModel' | 'endpoint' | 'apiKey' | 'apiVersion'>): LlmProviderConfig {
+    const defaults = this.defaults[setting.provider];
+    const ownEndpoint = !!setting.endpoint && setting.endpoint !== defaults.endpoint;
+
+    return {
+      provider: setting.provider,
+      model: setting.model || defaults.model,
+      embeddingModel: setting.embeddingModel || defaults.embeddingModel,
+      endpoint: setting.endpoint || defaults.endpoint,
+      apiKey: setting.apiKey || (ownEndpoint ? null : defaults.apiKey),
+      apiVersion: setting.apiVersion || defaults.apiVersion,
+    };
+  }
+
+  get name(): LlmProviderName {
+    return this.defaultProvider.name;
+  }
+
+  isConfigured(): boolean {
+    return this.defaultProvider.isConfigured();
+  }
+
+  supportsEmbeddings(): boolean {
+    return this.defaultProvider.supportsEmbeddings();
+  }
+
+  getModel(): string {
+    return this.defaultProvider.getModel();
+  }
+
+  getEmbeddingModel(): string {
+    return this.defaultProvider.getEmbeddingModel();
+  }
+
+  chat(messages: ChatMessage[], options?: LlmChatOptions): Promise<LlmChatResult> {
+    return this.defaultProvider.chat(messages, options);
+  }
+
+  chatStream(messages: ChatMessage[], onToken: (token: string) => void, options?: LlmChatOptions): Promise<string> {
+    return this.defaultProvider.chatStream(messages, onToken, options);
+  }
+
+  chatWithTools(messages: ChatMessage[], tools: ChatToolDefinition[], options?: LlmToolOptions): Promise<ChatWithToolsResult> {
+    return this.defaultProvider.chatWithTools(messages, tools, options);
+  }
+
+  chatStreamWithTools(
+    messages: ChatMessage[],
+    tools: ChatToolDefinition[],
     onToken: (token: string) => void,
-  ): Promise<string> {
-    try {
-      const stream = await this.openai.chat.completions.create({
-        model: this.model,
-        messages: messages,
-        temperature: 0.7,
-        max_tokens: 1500,
-        stream: true,
-      });
-
-      let fullContent = '';
-
-      for await (const chunk of stream) {
-        const token = chunk.choices[0]?.delta?.content || '';
-        if (token) {
-          fullContent += token;
-          onToken(token);
-        }
-      }
-
-      return fullContent;
-    } catch (error) {
-      this.logger.error('OpenAI streaming API error:', error);
-
-      // Check for specific error types
-      if (error.message?.includes('timeout')) {
-        throw new Error('AI service request timed out. Please try again.');
-      }
-      if (error.message?.includes('network')) {
-        throw new Error('Network error during streaming. Please check your connection.');
-      }
-      if (error.status === 429) {
-        throw new Error('AI service rate limit exceeded. Please try again in a moment.');
-      }
-
-      throw new Error('Failed to get streaming response from AI service. Please try again.');
+    options?: LlmToolOptions,
+  ): Promise<ChatWithToolsResult> {
+    return this.defaultProvider.chatStreamWithTools(messages, tools, onToken, options);
+  }
+
+  createEmbeddings(texts: string[]): Promise<number[][]> {
+    return this.defaultProvider.createEmbeddings(texts);
+  }
+
+  private async tenantProvider(tenantId: number): Promise<LlmProvider> {
+    const cached = this.tenantProviders.get(tenantId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.provider;
     }
+
+    const setting = await this.llmProviderSettingRepository.findOne({ where: { tenantId } });
+    const provider = setting ? this.createProvider(this.resolveConfig(setting)) : this.defaultProvider;
+
+    this.tenantProviders.set(tenantId, { provider, expiresAt: Date.now() + TENANT_PROVIDER_TTL_MS });
+    return provider;
   }
 
-  async analyzeIntent(userMessage: string): Promise<{
-    topic: string;
-    entities: string[];
-    timeframe?: string;
-    severity?: string;
-  }> {
-    try {
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-3.5-turbo',
-        messages: [
-          {
-            role: 'system',
-            content: `You are an intent analyzer for an IT operations platform.
-Analyze the user's message and extract:
-- topic: one of [weak-signals, incidents, issues, metrics, teams, overview, general]
-- entities: array of relevant entity names (team names, service names, etc.)
-- timeframe: if mentioned (today, this week, last month, etc.)
-- severity: if mentioned (critical, high, medium, low)
-
-Respond ONLY with valid JSON in this format:
-{"topic": "...", "entities": [...], "timeframe": "...", "severity": "..."}`,
-          },
-          {
-            role: 'user',
-            content: userMessage,
-          },
-        ],
-        temperature: 0.3,
-        max_tokens: 200,
-      });
-
-      const response = completion.choices[0].message.content || '{}';
-      return JSON.parse(response);
-    } catch (error) {
-      this.logger.error('Intent analysis error:', error);
-      // Fallback to general topic
-      return {
-        topic: 'general',
-        entities: [],
-      };
+  /**
+   * Provider for a resolved configuration
+   */
+  createProvider(config: LlmProviderConfig): LlmProvider {
+    switch (config.provider) {
+      case 'azure-openai':
+        return new AzureOpenAILlmProvider(config);
+      case 'openai-compatible':
+        return new OpenAICompatibleLlmProvider(config);
+      case 'fake':
+        return new FakeLlmProvider(config.model || undefined);
+      default:
+        return new OpenAILlmProvider(config, this.client);
     }
   }
 }
@@ -0,0 +1,74 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ServiceNowIncident } from '../../servicenow/entities/servicenow-incident.entity';
+import { ChatTool, ChatToolContext, ChatToolResult } from '../interfaces/chat-tool.interface';
+import { ChatCitationService } from '../services/chat-citation.service';
+
+export interface GetIncidentArgs {
+  number: string;
+}
+
+@Injectable()
+export class GetIncidentTool implements ChatTool<GetIncidentArgs> {
+  readonly definition = {
+    name: 'get_incident',
+    description: 'Fetch a single ServiceNow incident by its number, e.g. INC0010123.',
+    parameters: {
+      type: 'object' as const,
+      properties: {
+        number: { type: 'string' as const, description: 'Incident number', maxLength: 40 },
+      },
+      required: ['number'],
+    },
+  };
+
+  constructor(
+    @InjectRepository(ServiceNowIncident)
+    private readonly serviceNowRepository: Repository<ServiceNowIncident>,
+    private readonly citationService: ChatCitationService,
+  ) {}
+
+  async execute(args: GetIncidentArgs, context: ChatToolContext): Promise<ChatToolResult> {
+    const incident = await this.serviceNowRepository.findOne({
+      where: { tenantId: context.tenantId, number: args.number.trim().toUpperCase() },
+      relations: ['connection'],
+    });
+
+    if (!incident) {
+      return { data: { found: false, number: args.number } };
+    }
+
+    return {
+      data: {
+        found: true,
+        ref: incident.number,
+        number: incident.number,
+        shortDescription: incident.shortDescription,
+        description: incident.description,
+        state: incident.state,
+        priority: incident.priority,
+        impact: incident.impact,
+        urgency: incident.urgency,
+        category: incident.category,
+        assignedTo: incident.assignedToName,
+        assignmentGroup: incident.assignmentGroupName,
+        configurationItem: incident.configurationItemName,
+        openedAt: incident.openedAt,
+        resolvedAt: incident.resolvedAt,
+        closedAt: incident.closedAt,
+        resolutionNotes: incident.resolutionNotes,
+      },
+      sources: { incidents: [incident.id] },
+      citations: [
+        {
+          ref: incident.number,
+          type: 'servicenow_incident',
+          sourceId: String(incident.id),
+          title: incident.shortDescription || incident.number,
+          url: this.citationService.incidentUrl(incident),
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,133 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, Between, LessThanOrEqual, MoreThanOrEqual } from 'typeorm';
+import { MetricDefinition } from '../../kpi/entities/metric-definition.entity';
+import { MetricValue } from '../../kpi/entities/metric-value.entity';
+import { ChatTool, ChatToolContext, ChatToolResult } from '../interfaces/chat-tool.interface';
+
+export interface GetMetricValuesArgs {
+  metricKey: string;
+  from?: string;
+  to?: string;
+  granularity?: string;
+}
+
+const MAX_VALUES = 100;
+
+@Injectable()
+export class GetMetricValuesTool implements ChatTool<GetMetricValuesArgs> {
+  readonly definition = {
+    name: 'get_metric_values',
+    description:
+      'Get the values of a KPI metric for a period, oldest first, with min, max, average and latest value. ' +
+      'An unknown metric key returns the available keys.',
+    parameters: {
+      type: 'object' as const,
+      properties: {
+        metricKey: { type: 'string' as const, description: 'Metric key, e.g. incident_resolution_time', maxLength: 100 },
+        from: { type: 'string' as const, format: 'date' as const, description: 'Start of the period, YYYY-MM-DD' },
+        to: { type: 'string' as const, format: 'date' as const, description: 'End of the period, YYYY-MM-DD' },
+        granularity: {
+          type: 'string' as const,
+          enum: ['hourly', 'daily', 'weekly', 'monthly', 'quarterly', 'yearly'],
+        },
+      },
+      required: ['metricKey'],
+    },
+  };
+
+  constructor(
+    @InjectRepository(MetricDefinition)
+    private readonly metricDefinitionRepository: Repository<MetricDefinition>,
+    @InjectRepository(MetricValue)
+    private readonly metricValueRepository: Repository<MetricValue>,
+  ) {}
+
+  async execute(args: GetMetricValuesArgs, context: ChatToolContext): Promise<ChatToolResult> {
+    const definition = await this.metricDefinitionRepository.findOne({
+      where: { tenantId: context.tenantId, metricKey: args.metricKey, isActive: true },
+    });
+
+    if (!definition) {
+      const available = await this.metricDefinitionRepository.find({
+        where: { tenantId: context.tenantId, isActive: true },
+        select: ['metricKey', 'name'],
+        order: { metricKey: 'ASC' },
+        take: 50,
+      });
+
+      return {
+        data: {
+          found: false,
+          metricKey: args.metricKey,
+          availableMetrics: available.map(metric => ({ metricKey: metric.metricKey, name: metric.name })),
+        },
+      };
+    }
+
+    const from = args.from ? new Date(args.from) : undefined;
+    const to = args.to ? new Date(args.to) : undefined;
+    if (to) {
+      to.setUTCHours(23, 59, 59, 999);
+    }
+
+    const values = await this.metricValueRepository.find({
+      where: {
+        tenantId: context.tenantId,
+        metricDefinitionId: definition.id,
+        ...(args.granularity ? { granularity: args.granularity } : {}),
+        ...(from && to
+          ? { periodStart: Between(from, to) }
+          : from
+            ? { periodStart: MoreThanOrEqual(from) }
+            : to
+              ? { periodStart: LessThanOrEqual(to) }
+              : {}),
+      },
+      order: { periodStart: 'DESC' },
+      take: MAX_VALUES,
+    });
+
+    // Newest values win when the period holds more than MAX_VALUES
+    const series = values.reverse().map(value => ({
+      periodStart: value.periodStart,
+      periodEnd: value.periodEnd,
+      granularity: value.granularity,
+      value: Number(value.value),
+      breakdown: value.breakdown,
+    }));
+    const numbers = series.map(point => point.value);
+
+    return {
+      data: {
+        found: true,
+        ref: `metric:${definition.metricKey}`,
+        metricKey: definition.metricKey,
+        name: definition.name,
+        description: definition.description,
+        unit: definition.displayConfig?.unit,
+        thresholds: definition.thresholds,
+        summary: numbers.length > 0
+          ? {
+            count: numbers.length,
+            min: Math.min(...numbers),
+            max: Math.max(...numbers),
+            avg: parseFloat((numbers.reduce((sum, value) => sum + value, 0) / numbers.length).toFixed(4)),
+            latest: numbers[numbers.length - 1],
+          }
+          : { count: 0 },
+        values: series,
+      },
+      sources: { metrics: values.map(value => value.id) },
+      citations: [
+        {
+          ref: `metric:${definition.metricKey}`,
+          type: 'metric',
+          sourceId: definition.metricKey,
+          title: definition.name,
+          url: null,
+        },
+      ],
+    };
+  }
+}
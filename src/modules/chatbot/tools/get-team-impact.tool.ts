@@ -0,0 +1,63 @@
+import { Injectable } from '@nestjs/common';
+import { TeamImpactService } from '../../kpi/services/team-impact.service';
+import { ChatTool, ChatToolContext, ChatToolResult } from '../interfaces/chat-tool.interface';
+
+export interface GetTeamImpactArgs {
+  team?: string;
+  from?: string;
+  to?: string;
+}
+
+@Injectable()
+export class GetTeamImpactTool implements ChatTool<GetTeamImpactArgs> {
+  readonly definition = {
+    name: 'get_team_impact',
+    description:
+      'Team impact for a period: problems resolved, resolution time, execution speed, cross-team collaboration ' +
+      'and incidents prevented per team, plus overall totals. Defaults to the last 6 months.',
+    parameters: {
+      type: 'object' as const,
+      properties: {
+        team: { type: 'string' as const, description: 'Only this team (case-insensitive name match)', maxLength: 255 },
+        from: { type: 'string' as const, format: 'date' as const, description: 'Start of the period, YYYY-MM-DD' },
+        to: { type: 'string' as const, format: 'date' as const, description: 'End of the period, YYYY-MM-DD' },
+      },
+    },
+  };
+
+  constructor(private readonly teamImpactService: TeamImpactService) {}
+
+  async execute(args: GetTeamImpactArgs, context: ChatToolContext): Promise<ChatToolResult> {
+    const from = args.from ? new Date(args.from) : undefined;
+    const to = args.to ? new Date(args.to) : undefined;
+    if (to) {
+      to.setUTCHours(23, 59, 59, 999);
+    }
+
+    const dashboard = await this.teamImpactService.getTeamImpactDashboard(context.tenantId, from, to);
+
+    const needle = args.team?.trim().toLowerCase();
+    const teams = needle
+      ? dashboard.teamBreakdown.filter(team => team.teamName.toLowerCase().includes(needle))
+      : dashboard.teamBreakdown;
+
+    return {
+      data: {
+        period: { since: dashboard.totalValue.since, months: dashboard.totalValue.periodMonths },
+        overall: needle ? undefined : dashboard.overallMetrics,
+        teams: teams.map(team => ({ ref: `team:${team.teamName}`, ...team })),
+        ...(needle && teams.length === 0
+          ? { availableTeams: dashboard.teamBreakdown.map(team => team.teamName) }
+          : {}),
+      },
+      sources: { teams: teams.map(team => team.teamName) },
+      citations: teams.map(team => ({
+        ref: `team:${team.teamName}`,
+        type: 'team' as const,
+        sourceId: team.teamName,
+        title: team.teamName,
+        url: null,
+      })),
+    };
+  }
+}
@@ -0,0 +1,89 @@
+import { Injectable } from '@nestjs/common';
+import { ChatTool, ChatToolContext, ChatToolResult, ChatToolSources } from '../interfaces/chat-tool.interface';
+import { CitationSourceType } from '../interfaces/citation.interface';
+import { CommunicationSourceType } from '../interfaces/communication-search.interface';
+import { CommunicationIndexService } from '../services/communication-index.service';
+
+export interface SearchCommunicationsArgs {
+  query: string;
+  source?: CommunicationSourceType | 'email';
+  channel?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+const MAX_TEXT_LENGTH = 700;
+
+const CITATION_TYPES: Record<CommunicationSourceType, CitationSourceType> = {
+  slack: 'slack_message',
+  teams: 'teams_message',
+  gmail: 'email_message',
+  outlook: 'email_message',
+};
+
+@Injectable()
+export class SearchCommunicationsTool implements ChatTool<SearchCommunicationsArgs> {
+  readonly definition = {
+    name: 'search_communications',
+    description:
+      'Search what people wrote in Slack, Teams and email (Gmail, Outlook) by topic, optionally in one source, ' +
+      'channel or mailbox folder and period. Best matching passages first; personal data is redacted.',
+    parameters: {
+      type: 'object' as const,
+      properties: {
+        query: { type: 'string' as const, description: 'Keywords of the topic, e.g. payments outage', maxLength: 200 },
+        source: { type: 'string' as const, enum: ['slack', 'teams', 'gmail', 'outlook', 'email'] },
+        channel: { type: 'string' as const, description: 'Channel name without #, or mailbox folder', maxLength: 255 },
+        from: { type: 'string' as const, format: 'date' as const, description: 'YYYY-MM-DD' },
+        to: { type: 'string' as const, format: 'date' as const, description: 'YYYY-MM-DD' },
+        limit: { type: 'integer' as const, minimum: 1, maximum: 25 },
+      },
+      required: ['query'],
+    },
+  };
+
+  constructor(private readonly communicationIndexService: CommunicationIndexService) {}
+
+  async execute(args: SearchCommunicationsArgs, context: ChatToolContext): Promise<ChatToolResult> {
+    const to = args.to ? new Date(args.to) : undefined;
+    to?.setUTCHours(23, 59, 59, 999);
+
+    const hits = await this.communicationIndexService.search(context.tenantId, {
+      query: args.query,
+      sourceTypes: args.source === 'email' ? ['gmail', 'outlook'] : args.source ? [args.source] : undefined,
+      channel: args.channel,
+      from: args.from ? new Date(args.from) : undefined,
+      to,
+      limit: args.limit || 10,
+    });
+
+    const idsOf = (sourceType: CommunicationSourceType) =>
+      hits.filter(hit => hit.sourceType === sourceType).map(hit => hit.sourceId);
+    const sources: ChatToolSources = {
+      slackMessages: idsOf('slack'),
+      teamsMessages: idsOf('teams'),
+      gmailMessages: idsOf('gmail'),
+      outlookMessages: idsOf('outlook'),
+    };
+
+    return {
+      data: hits.map(hit => ({
+        ref: `${hit.sourceType}:${hit.sourceId}`,
+        source: hit.sourceType,
+        channel: hit.channel,
+        subject: hit.title,
+        text: hit.text.length > MAX_TEXT_LENGTH ? `${hit.text.slice(0, MAX_TEXT_LENGTH)}…` : hit.text,
+        postedAt: hit.occurredAt,
+      })),
+      sources,
+      citations: hits.map(hit => ({
+        ref: `${hit.sourceType}:${hit.sourceId}`,
+        type: CITATION_TYPES[hit.sourceType],
+        sourceId: String(hit.sourceId),
+        title: hit.title || `${hit.channel ? `#${hit.channel}: ` : ''}${hit.text.slice(0, 80)}`,
+        url: hit.url,
+      })),
+    };
+  }
+}
@@ -0,0 +1,128 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { JiraIssue } from '../../jira/entities/jira-issue.entity';
+import { ChatTool, ChatToolContext, ChatToolResult } from '../interfaces/chat-tool.interface';
+import { ChatCitationService } from '../services/chat-citation.service';
+
+export interface SearchJiraIssuesArgs {
+  key?: string;
+  query?: string;
+  project?: string;
+  status?: string;
+  priority?: string;
+  assignee?: string;
+  updatedFrom?: string;
+  updatedTo?: string;
+  limit?: number;
+}
+
+@Injectable()
+export class SearchJiraIssuesTool implements ChatTool<SearchJiraIssuesArgs> {
+  readonly definition = {
+    name: 'search_jira_issues',
+    description:
+      'Fetch a Jira issue by key (e.g. PROJ-123), or search issues by text, project key, status, priority, ' +
+      'assignee and last update period. Most recently updated first.',
+    parameters: {
+      type: 'object' as const,
+      properties: {
+        key: { type: 'string' as const, description: 'Issue key', maxLength: 50 },
+        query: { type: 'string' as const, description: 'Text matched against summary and description', maxLength: 200 },
+        project: { type: 'string' as const, description: 'Project key', maxLength: 50 },
+        status: { type: 'string' as const, description: 'e.g. To Do, In Progress, Done', maxLength: 50 },
+        priority: { type: 'string' as const, maxLength: 50 },
+        assignee: { type: 'string' as const, description: 'Assignee display name', maxLength: 255 },
+        updatedFrom: { type: 'string' as const, format: 'date' as const, description: 'YYYY-MM-DD' },
+        updatedTo: { type: 'string' as const, format: 'date' as const, description: 'YYYY-MM-DD' },
+        limit: { type: 'integer' as const, minimum: 1, maximum: 25 },
+      },
+    },
+  };
+
+  constructor(
+    @InjectRepository(JiraIssue)
+    private readonly jiraRepository: Repository<JiraIssue>,
+    private readonly citationService: ChatCitationService,
+  ) {}
+
+  async execute(args: SearchJiraIssuesArgs, context: ChatToolContext): Promise<ChatToolResult> {
+    const queryBuilder = this.jiraRepository
+      .createQueryBuilder('issue')
+      .leftJoinAndSelect('issue.project', 'project')
+      .leftJoinAndSelect('project.connection', 'connection')
+      .where('issue.tenantId = :tenantId', { tenantId: context.tenantId })
+      .orderBy('issue.jiraUpdatedAt', 'DESC')
+      .addOrderBy('issue.id', 'DESC')
+      .take(args.key ? 1 : args.limit || 10);
+
+    if (args.key) {
+      queryBuilder.andWhere('issue.jiraIssueKey = :key', { key: args.key.trim().toUpperCase() });
+    }
+
+    if (args.query) {
+      queryBuilder.andWhere('(issue.summary LIKE :query OR issue.description LIKE :query)', {
+        query: `%${this.escapeLike(args.query)}%`,
+      });
+    }
+
+    if (args.project) {
+      queryBuilder.andWhere('project.jiraProjectKey = :project', { project: args.project.trim().toUpperCase() });
+    }
+
+    if (args.status) {
+      queryBuilder.andWhere('issue.status = :status', { status: args.status });
+    }
+
+    if (args.priority) {
+      queryBuilder.andWhere('issue.priority = :priority', { priority: args.priority });
+    }
+
+    if (args.assignee) {
+      queryBuilder.andWhere('issue.assigneeDisplayName LIKE :assignee', {
+        assignee: `%${this.escapeLike(args.assignee)}%`,
+      });
+    }
+
+    if (args.updatedFrom) {
+      queryBuilder.andWhere('issue.jiraUpdatedAt >= :updatedFrom', { updatedFrom: new Date(args.updatedFrom) });
+    }
+
+    if (args.updatedTo) {
+      const updatedTo = new Date(args.updatedTo);
+      updatedTo.setUTCHours(23, 59, 59, 999);
+      queryBuilder.andWhere('issue.jiraUpdatedAt <= :updatedTo', { updatedTo });
+    }
+
+    const issues = await queryBuilder.getMany();
+
+    return {
+      data: issues.map(issue => ({
+        ref: issue.jiraIssueKey,
+        key: issue.jiraIssueKey,
+        summary: issue.summary,
+        issueType: issue.issueType,
+        status: issue.status,
+        priority: issue.priority,
+        assignee: issue.assigneeDisplayName,
+        project: issue.project?.jiraProjectKey,
+        labels: issue.labels,
+        createdAt: issue.jiraCreatedAt,
+        updatedAt: issue.jiraUpdatedAt,
+        resolvedAt: issue.resolvedAt,
+      })),
+      sources: { issues: issues.map(issue => issue.id) },
+      citations: issues.map(issue => ({
+        ref: issue.jiraIssueKey,
+        type: 'jira_issue' as const,
+        sourceId: String(issue.id),
+        title: issue.summary,
+        url: this.citationService.jiraIssueUrl(issue),
+      })),
+    };
+  }
+
+  private escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, '\\$&');
+  }
+}
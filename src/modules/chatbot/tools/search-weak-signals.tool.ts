@@ -0,0 +1,126 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { WeakSignal, SignalSeverity, SignalStatus } from '../../weak-signals/entities/weak-signal.entity';
+import { ChatTool, ChatToolContext, ChatToolResult } from '../interfaces/chat-tool.interface';
+import { ChatCitationService } from '../services/chat-citation.service';
+
+export interface SearchWeakSignalsArgs {
+  query?: string;
+  severity?: SignalSeverity;
+  status?: SignalStatus;
+  category?: string;
+  entity?: string;
+  detectedFrom?: string;
+  detectedTo?: string;
+  limit?: number;
+}
+
+@Injectable()
+export class SearchWeakSignalsTool implements ChatTool<SearchWeakSignalsArgs> {
+  readonly definition = {
+    name: 'search_weak_signals',
+    description:
+      'Search weak signals by text, severity, status, category, affected entity (team, project, service) and detection period. ' +
+      'Without a status, only open signals (new or investigating) are returned.',
+    parameters: {
+      type: 'object' as const,
+      properties: {
+        query: { type: 'string' as const, description: 'Text matched against title and description', maxLength: 200 },
+        severity: { type: 'string' as const, enum: ['critical', 'high', 'medium', 'low'] },
+        status: {
+          type: 'string' as const,
+          enum: ['new', 'investigating', 'validated', 'dismissed', 'escalated', 'resolved', 'expired'],
+        },
+        category: { type: 'string' as const, maxLength: 100 },
+        entity: { type: 'string' as const, description: 'Name or id of an affected team, project or service', maxLength: 255 },
+        detectedFrom: { type: 'string' as const, format: 'date' as const, description: 'Earliest detection date, YYYY-MM-DD' },
+        detectedTo: { type: 'string' as const, format: 'date' as const, description: 'Latest detection date, YYYY-MM-DD' },
+        limit: { type: 'integer' as const, minimum: 1, maximum: 25 },
+      },
+    },
+  };
+
+  constructor(
+    @InjectRepository(WeakSignal)
+    private readonly weakSignalRepository: Repository<WeakSignal>,
+    private readonly citationService: ChatCitationService,
+  ) {}
+
+  async execute(args: SearchWeakSignalsArgs, context: ChatToolContext): Promise<ChatToolResult> {
+    const queryBuilder = this.weakSignalRepository
+      .createQueryBuilder('signal')
+      .where('signal.tenantId = :tenantId', { tenantId: context.tenantId })
+      .orderBy('signal.confidenceScore', 'DESC')
+      .addOrderBy('signal.id', 'DESC')
+      .take(args.limit || 10);
+
+    if (args.status) {
+      queryBuilder.andWhere('signal.status = :status', { status: args.status });
+    } else {
+      queryBuilder.andWhere('signal.status IN (:...statuses)', { statuses: ['new', 'investigating'] });
+    }
+
+    if (args.severity) {
+      queryBuilder.andWhere('signal.severity = :severity', { severity: args.severity });
+    }
+
+    if (args.category) {
+      queryBuilder.andWhere('signal.category = :category', { category: args.category });
+    }
+
+    if (args.query) {
+      queryBuilder.andWhere('(signal.title LIKE :query OR signal.description LIKE :query)', {
+        query: `%${this.escapeLike(args.query)}%`,
+      });
+    }
+
+    if (args.entity) {
+      queryBuilder.andWhere('CAST(signal.affectedEntities AS CHAR) LIKE :entity', {
+        entity: `%${this.escapeLike(args.entity)}%`,
+      });
+    }
+
+    if (args.detectedFrom) {
+      queryBuilder.andWhere('signal.detectedAt >= :detectedFrom', { detectedFrom: new Date(args.detectedFrom) });
+    }
+
+    if (args.detectedTo) {
+      const detectedTo = new Date(args.detectedTo);
+      detectedTo.setUTCHours(23, 59, 59, 999);
+      queryBuilder.andWhere('signal.detectedAt <= :detectedTo', { detectedTo });
+    }
+
+    const signals = await queryBuilder.getMany();
+
+    return {
+      data: signals.map(signal => ({
+        ref: `signal:${signal.id}`,
+        id: signal.id,
+        title: signal.title,
+        description: signal.description,
+        signalType: signal.signalType,
+        severity: signal.severity,
+        status: signal.status,
+        confidenceScore: signal.confidenceScore,
+        category: signal.category,
+        detectedAt: signal.detectedAt,
+        affectedEntities: signal.affectedEntities,
+        assignedTeam: signal.assignedTeam,
+        slaDueAt: signal.slaDueAt,
+      })),
+      sources: { signals: signals.map(signal => signal.id) },
+      citations: signals.map(signal => ({
+        ref: `signal:${signal.id}`,
+        type: 'weak_signal' as const,
+        sourceId: String(signal.id),
+        title: signal.title,
+        url: this.citationService.signalUrl(signal.id),
+      })),
+    };
+  }
+
+  private escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, '\\$&');
+  }
+}
@@ -0,0 +1,124 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { GraphQueryService } from '../../privacy/services/graph-query.service';
+import { GraphNode } from '../../privacy/entities/graph-node.entity';
+import { ChatTool, ChatToolContext, ChatToolResult } from '../interfaces/chat-tool.interface';
+
+export interface TraverseGraphArgs {
+  nodeId?: number;
+  search?: string;
+  nodeType?: string;
+  relationshipType?: string;
+  depth?: number;
+}
+
+const MAX_NODES = 50;
+
+@Injectable()
+export class TraverseGraphTool implements ChatTool<TraverseGraphArgs> {
+  readonly definition = {
+    name: 'traverse_graph',
+    description:
+      'Explore the relationship graph of users, teams, projects, issues, incidents and channels around a node. ' +
+      'Start from a node id, or from the best match of a name search. Returns the nodes and relationships found.',
+    parameters: {
+      type: 'object' as const,
+      properties: {
+        nodeId: { type: 'integer' as const, description: 'Id of the start node', minimum: 1 },
+        search: { type: 'string' as const, description: 'Name or external id of the start node', maxLength: 255 },
+        nodeType: {
+          type: 'string' as const,
+          description: 'Type of the start node, e.g. user, team, project, issue, channel',
+          maxLength: 50,
+        },
+        relationshipType: {
+          type: 'string' as const,
+          description: 'Only follow this relationship, e.g. assigned_to, member_of, works_on, mentions',
+          maxLength: 100,
+        },
+        depth: { type: 'integer' as const, minimum: 1, maximum: 2 },
+      },
+    },
+  };
+
+  constructor(private readonly graphQueryService: GraphQueryService) {}
+
+  async execute(args: TraverseGraphArgs, context: ChatToolContext): Promise<ChatToolResult> {
+    const startNode = await this.findStartNode(args, context.tenantId);
+    if (!startNode) {
+      return { data: { found: false, nodeId: args.nodeId, search: args.search } };
+    }
+
+    const nodes = new Map<number, GraphNode>([[startNode.id, startNode]]);
+    const relationships = new Map<number, { from: number; to: number; type: string }>();
+    let frontier = [startNode.id];
+
+    // Breadth-first, so the closest neighbours are kept when the node cap is hit
+    for (let level = 0; level < (args.depth || 1) && frontier.length > 0; level++) {
+      const next: number[] = [];
+
+      for (const nodeId of frontier) {
+        const neighbors = await this.graphQueryService.getNeighbors(context.tenantId, nodeId, args.relationshipType);
+
+        for (const { node, edge } of [...neighbors.outgoing, ...neighbors.incoming]) {
+          if (!node || (!nodes.has(node.id) && nodes.size >= MAX_NODES)) {
+            continue;
+          }
+          if (!nodes.has(node.id)) {
+            nodes.set(node.id, node);
+            next.push(node.id);
+          }
+          relationships.set(edge.id, { from: edge.fromNodeId, to: edge.toNodeId, type: edge.relationshipType });
+        }
+      }
+
+      frontier = next;
+    }
+
+    return {
+      data: {
+        found: true,
+        startNodeId: startNode.id,
+        nodes: [...nodes.values()].map(node => ({
+          ref: `node:${node.id}`,
+          id: node.id,
+          nodeType: node.nodeType,
+          displayName: node.displayName,
+          sourceSystem: node.sourceSystem,
+          externalId: node.externalId,
+          status: node.properties?.status,
+          priority: node.properties?.priority,
+        })),
+        relationships: [...relationships.values()],
+        truncated: nodes.size >= MAX_NODES,
+      },
+      sources: { graphNodes: [...nodes.keys()] },
+      citations: [...nodes.values()].map(node => ({
+        ref: `node:${node.id}`,
+        type: 'graph_node' as const,
+        sourceId: String(node.id),
+        title: node.displayName || `${node.nodeType} ${node.externalId}`,
+        url: null,
+      })),
+    };
+  }
+
+  private async findStartNode(args: TraverseGraphArgs, tenantId: number): Promise<GraphNode | null> {
+    if (args.nodeId) {
+      try {
+        return await this.graphQueryService.getNode(tenantId, args.nodeId);
+      } catch (error) {
+        if (error instanceof NotFoundException) {
+          return null;
+        }
+        throw error;
+      }
+    }
+
+    if (!args.search) {
+      return null;
+    }
+
+    const [match] = await this.graphQueryService.searchNodes(tenantId, args.search, args.nodeType, 1);
+    return match || null;
+  }
+}
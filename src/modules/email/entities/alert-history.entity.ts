@@ -26,12 +26,13 @@ export class AlertHistory {
   @JoinColumn({ name: 'tenantId' })
   tenant: Tenant;
 
-  @Column()
-  ruleId: number;
+  // Null for direct notifications, such as mentions, that are not triggered by a rule
+  @Column({ nullable: true })
+  ruleId?: number;
 
-  @ManyToOne(() => AlertRule)
+  @ManyToOne(() => AlertRule, { nullable: true })
   @JoinColumn({ name: 'ruleId' })
-  rule: AlertRule;
+  rule?: AlertRule;
 
   @Column({ nullable: true })
   userId?: number;
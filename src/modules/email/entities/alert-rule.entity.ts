@@ -35,9 +35,9 @@ export class AlertRule {
   @Column()
   ruleType: 'threshold' | 'topic' | 'pattern' | 'anomaly';
 
-  // What to monitor: weak_signal, metric, incident, action_item
+  // What to monitor: weak_signal, weak_signal_sla_breach, metric, incident, action_item
   @Column()
-  sourceType: 'weak_signal' | 'metric' | 'incident' | 'action_item' | 'timeline_event';
+  sourceType: 'weak_signal' | 'weak_signal_sla_breach' | 'metric' | 'incident' | 'action_item' | 'timeline_event';
 
   // Threshold-based rules
   @Column({ type: 'json', nullable: true })
@@ -1,6 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, MoreThan } from 'typeorm';
+import { Repository, MoreThan, In, IsNull } from 'typeorm';
 import { ConfigService } from '@nestjs/config';
 import { Resend } from 'resend';
 import axios from 'axios';
@@ -22,6 +22,11 @@ interface AlertPayload {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Alert sent straight to users rather than to the subscribers of a rule
+ */
+type NotificationPayload = Omit<AlertPayload, 'ruleId'>;
+
 interface DeliveryResult {
   success: boolean;
   alertHistory: AlertHistory;
@@ -97,6 +102,48 @@ export class AlertDeliveryService {
     return results;
   }
 
+  /**
+   * Deliver a notification to specific users of the tenant through the channels of their
+   * rule-independent subscription, falling back to email when they have none
+   */
+  async deliverNotification(payload: NotificationPayload, userIds: number[]): Promise<DeliveryResult[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    const users = await this.userRepository.find({
+      where: { id: In(userIds), tenantId: payload.tenantId, isActive: true },
+    });
+    const subscriptions = await this.subscriptionRepository.find({
+      where: {
+        tenantId: payload.tenantId,
+        userId: In(users.map(user => user.id)),
+        ruleId: IsNull(),
+        isActive: true,
+      },
+    });
+
+    const results: DeliveryResult[] = [];
+
+    for (const user of users) {
+      const subscription = subscriptions.find(s => s.userId === user.id)
+        || this.subscriptionRepository.create({
+          tenantId: payload.tenantId,
+          userId: user.id,
+          channels: { email: { enabled: true } },
+          isActive: true,
+        });
+
+      try {
+        results.push(await this.sendToChannels(payload, user, subscription));
+      } catch (error) {
+        this.logger.error(`Failed to deliver notification to user ${user.id}:`, error);
+      }
+    }
+
+    return results;
+  }
+
   /**
    * Deliver alert to a specific user based on their subscription
    */
@@ -138,6 +185,17 @@ export class AlertDeliveryService {
       };
     }
 
+    return this.sendToChannels(payload, user, subscription);
+  }
+
+  /**
+   * Send through the enabled channels of a subscription and record the outcome
+   */
+  private async sendToChannels(
+    payload: NotificationPayload & { ruleId?: number },
+    user: User,
+    subscription: AlertSubscription,
+  ): Promise<DeliveryResult> {
     // Determine which channels to use
     const channels = this.getActiveChannels(subscription);
 
@@ -181,7 +239,7 @@ export class AlertDeliveryService {
    * Send alert via email
    */
   private async sendEmailAlert(
-    payload: AlertPayload,
+    payload: NotificationPayload,
     user: User,
     subscription: AlertSubscription,
   ): Promise<{ sent: boolean; error?: string; messageId?: string }> {
@@ -217,7 +275,7 @@ export class AlertDeliveryService {
    * Send alert via Slack
    */
   private async sendSlackAlert(
-    payload: AlertPayload,
+    payload: NotificationPayload,
     subscription: AlertSubscription,
   ): Promise<{ sent: boolean; error?: string; messageTs?: string }> {
     try {
@@ -270,7 +328,7 @@ export class AlertDeliveryService {
    * Create alert history record
    */
   private async createAlertHistory(
-    payload: AlertPayload,
+    payload: NotificationPayload & { ruleId?: number },
     userId: number,
     status: 'pending' | 'sent' | 'failed' | 'suppressed',
     channels: string[],
@@ -296,7 +354,7 @@ export class AlertDeliveryService {
   /**
    * Get email template for alert
    */
-  private getAlertEmailTemplate(payload: AlertPayload, user: User): string {
+  private getAlertEmailTemplate(payload: NotificationPayload, user: User): string {
     const severityColors = {
       critical: '#DC2626',
       high: '#EA580C',
@@ -359,7 +417,7 @@ export class AlertDeliveryService {
   /**
    * Get Slack message payload
    */
-  private getSlackMessagePayload(payload: AlertPayload): any {
+  private getSlackMessagePayload(payload: NotificationPayload): any {
     const severityEmojis = {
       critical: '🔴',
       high: '🟠',
@@ -120,6 +120,66 @@ export class AlertOrchestratorService implements OnModuleInit {
     }
   }
 
+  /**
+   * Alert on a weak signal that is still new after its triage SLA deadline.
+   * Called by the weak signal SLA check once per breach.
+   */
+  async processSlaBreach(signal: WeakSignal): Promise<number> {
+    try {
+      const breachedAt = signal.slaBreachedAt || new Date();
+      const context = {
+        tenantId: signal.tenantId,
+        sourceType: 'weak_signal_sla_breach',
+        sourceId: signal.id.toString(),
+        sourceData: {
+          id: signal.id,
+          title: signal.title,
+          description: signal.description,
+          topic: signal.metadata?.theme || '',
+          category: signal.category,
+          severity: signal.severity,
+          status: signal.status,
+          signalType: signal.signalType,
+          assigneeId: signal.assigneeId,
+          assignedTeam: signal.assignedTeam,
+          slaDueAt: signal.slaDueAt,
+          slaBreachedAt: breachedAt,
+          overdueMinutes: signal.slaDueAt
+            ? Math.max(0, Math.round((breachedAt.getTime() - new Date(signal.slaDueAt).getTime()) / 60000))
+            : 0,
+        },
+        timestamp: breachedAt,
+      };
+
+      const results = await this.ruleEngine.evaluateRules(context);
+
+      if (results.length > 0) {
+        this.logger.log(
+          `SLA breach of signal ${signal.id} matched ${results.length} alert rules`,
+        );
+
+        for (const result of results) {
+          await this.delivery.deliverAlert({
+            tenantId: signal.tenantId,
+            ruleId: result.rule.id,
+            title: result.title,
+            message: result.message,
+            severity: result.severity,
+            sourceType: 'weak_signal_sla_breach',
+            sourceId: signal.id.toString(),
+            sourceData: context.sourceData,
+            metadata: result.metadata,
+          });
+        }
+      }
+
+      return results.length;
+    } catch (error) {
+      this.logger.error(`Error processing SLA breach of signal ${signal.id}:`, error);
+      return 0;
+    }
+  }
+
   /**
    * Process ServiceNow incidents every 10 minutes
    * DISABLED: Cron disabled to reduce server load
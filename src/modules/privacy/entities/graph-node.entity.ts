@@ -36,6 +36,7 @@ export class GraphNode {
     description?: string;
     status?: string;
     priority?: string;
+    email?: string;
     createdAt?: Date;
     updatedAt?: Date;
     metadata?: Record<string, any>;
@@ -4,6 +4,14 @@ import { Repository, In } from 'typeorm';
 import { GraphNode } from '../entities/graph-node.entity';
 import { GraphEdge } from '../entities/graph-edge.entity';
 
+/**
+ * External ID of a Slack message node: the channel and the message timestamp, since a
+ * timestamp is only unique within its channel
+ */
+export function slackMessageExternalId(channelId: string | number, messageTs: string): string {
+  return `${channelId}_${messageTs}`;
+}
+
 @Injectable()
 export class GraphBuilderService {
   private readonly logger = new Logger(GraphBuilderService.name);
@@ -274,7 +282,7 @@ export class GraphBuilderService {
       const messageNode = await this.createOrUpdateNode(
         tenantId,
         'message',
-        message.messageId,
+        message.messageId || slackMessageExternalId(message.channelId, message.timestamp),
         'slack',
         message.text?.substring(0, 100),
         {
@@ -336,7 +344,7 @@ export class GraphBuilderService {
           where: {
             tenantId,
             nodeType: 'message',
-            externalId: `${message.channelId}_${message.threadTimestamp}`,
+            externalId: slackMessageExternalId(message.channelId, message.threadTimestamp),
           },
         });
 
@@ -4,6 +4,11 @@ import { Repository } from 'typeorm';
 import { PiiDetectionLog } from '../entities/pii-detection-log.entity';
 import { PiiPattern, PiiDetectionResult, ScanResult } from '../interfaces/pii-pattern.interface';
 
+/**
+ * PII types redacted by default: the patterns precise enough to rewrite free text with
+ */
+const DEFAULT_REDACTED_TYPES = ['email', 'phone_us', 'ssn', 'credit_card', 'ip_address', 'api_key', 'aws_key'];
+
 @Injectable()
 export class PiiDetectionService {
   private readonly logger = new Logger(PiiDetectionService.name);
@@ -178,6 +183,21 @@ export class PiiDetectionService {
     };
   }
 
+  /**
+   * Replace PII in free text with a placeholder per type, e.g. [EMAIL]. Unlike scanForPii
+   * nothing is logged, so this is safe to run on every message that is copied elsewhere.
+   */
+  redact(text: string, piiTypes: string[] = DEFAULT_REDACTED_TYPES): string {
+    let redacted = text;
+
+    for (const pattern of this.patterns.filter(p => piiTypes.includes(p.type))) {
+      pattern.pattern.lastIndex = 0;
+      redacted = redacted.replace(pattern.pattern, `[${pattern.type.toUpperCase()}]`);
+    }
+
+    return redacted;
+  }
+
   /**
    * Find matches for a pattern in text
    */
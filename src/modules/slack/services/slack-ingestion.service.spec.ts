@@ -9,6 +9,7 @@ import { SlackUser } from '../entities/slack-user.entity';
 import { SlackMessage } from '../entities/slack-message.entity';
 import { SlackSyncHistory } from '../entities/slack-sync-history.entity';
 import { SlackApiClientService } from './slack-api-client.service';
+import { CommunicationIndexService } from '../../chatbot/services/communication-index.service';
 
 describe('SlackIngestionService', () => {
   let service: SlackIngestionService;
@@ -65,6 +66,10 @@ describe('SlackIngestionService', () => {
     }),
   };
 
+  const mockCommunicationIndexService = {
+    requestIndexing: jest.fn(),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -97,6 +102,10 @@ describe('SlackIngestionService', () => {
           provide: ConfigService,
           useValue: mockConfigService,
         },
+        {
+          provide: CommunicationIndexService,
+          useValue: mockCommunicationIndexService,
+        },
       ],
     }).compile();
 
@@ -215,6 +224,7 @@ describe('SlackIngestionService', () => {
       expect(mockApiClient.getConversations).toHaveBeenCalled();
       expect(mockApiClient.getConversationHistory).toHaveBeenCalled();
       expect(mockConnectionRepository.save).toHaveBeenCalled();
+      expect(mockCommunicationIndexService.requestIndexing).toHaveBeenCalledWith(1, 'slack');
     });
 
     it('should handle not_in_channel error and attempt to join public channel', async () => {
@@ -9,6 +9,7 @@ import { SlackUser } from '../entities/slack-user.entity';
 import { SlackMessage } from '../entities/slack-message.entity';
 import { SlackSyncHistory } from '../entities/slack-sync-history.entity';
 import { SlackApiClientService, SlackApiConfig } from './slack-api-client.service';
+import { CommunicationIndexService } from '../../chatbot/services/communication-index.service';
 
 @Injectable()
 export class SlackIngestionService {
@@ -29,6 +30,7 @@ export class SlackIngestionService {
     private readonly syncHistoryRepository: Repository<SlackSyncHistory>,
     private readonly slackApiClient: SlackApiClientService,
     private readonly configService: ConfigService,
+    private readonly communicationIndexService: CommunicationIndexService,
   ) {
     this.defaultSyncInterval = this.configService.get<number>('SLACK_SYNC_INTERVAL_MINUTES', 30);
     this.logger.log(`Slack sync default interval: ${this.defaultSyncInterval} minutes`);
@@ -170,6 +172,9 @@ export class SlackIngestionService {
           `   🔄 API calls: ${stats.apiCallsCount}`,
       );
 
+      // Make the new messages searchable for the chatbot
+      this.communicationIndexService.requestIndexing(tenantId, 'slack');
+
       return syncHistory;
     } catch (error) {
       this.logger.error(`Sync failed for connection ${connectionId}: ${error.message}`, error.stack);
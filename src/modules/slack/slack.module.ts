@@ -1,5 +1,6 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { ChatbotModule } from '../chatbot/chatbot.module';
 import { SlackConnection } from './entities/slack-connection.entity';
 import { SlackChannel } from './entities/slack-channel.entity';
 import { SlackUser } from './entities/slack-user.entity';
@@ -23,6 +24,7 @@ import { SlackMessageController } from './controllers/slack-message.controller';
       SlackMessage,
       SlackSyncHistory,
     ]),
+    ChatbotModule,
   ],
   controllers: [
     SlackOAuthController,
@@ -10,6 +10,7 @@ import { TeamsMessage } from '../entities/teams-message.entity';
 import { TeamsSyncHistory } from '../entities/teams-sync-history.entity';
 import { TeamsApiClientService } from './teams-api-client.service';
 import { TeamsOAuthService } from './teams-oauth.service';
+import { CommunicationIndexService } from '../../chatbot/services/communication-index.service';
 
 describe('TeamsIngestionService', () => {
   let service: TeamsIngestionService;
@@ -71,6 +72,10 @@ describe('TeamsIngestionService', () => {
     }),
   };
 
+  const mockCommunicationIndexService = {
+    requestIndexing: jest.fn(),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -107,6 +112,10 @@ describe('TeamsIngestionService', () => {
           provide: ConfigService,
           useValue: mockConfigService,
         },
+        {
+          provide: CommunicationIndexService,
+          useValue: mockCommunicationIndexService,
+        },
       ],
     }).compile();
 
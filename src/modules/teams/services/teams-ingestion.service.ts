@@ -10,6 +10,7 @@ import { TeamsMessage } from '../entities/teams-message.entity';
 import { TeamsSyncHistory } from '../entities/teams-sync-history.entity';
 import { TeamsApiClientService } from './teams-api-client.service';
 import { TeamsOAuthService } from './teams-oauth.service';
+import { CommunicationIndexService } from '../../chatbot/services/communication-index.service';
 
 @Injectable()
 export class TeamsIngestionService {
@@ -31,6 +32,7 @@ export class TeamsIngestionService {
     private readonly teamsApiClient: TeamsApiClientService,
     private readonly teamsOAuthService: TeamsOAuthService,
     private readonly configService: ConfigService,
+    private readonly communicationIndexService: CommunicationIndexService,
   ) {
     this.defaultSyncInterval = this.configService.get<number>('TEAMS_SYNC_INTERVAL_MINUTES', 30);
     this.logger.log(`Teams sync default interval: ${this.defaultSyncInterval} minutes`);
@@ -168,6 +170,9 @@ export class TeamsIngestionService {
         `   🔄 API calls: ${syncHistory.stats!.apiCallsCount}`,
       );
 
+      // Make the new messages searchable for the chatbot
+      this.communicationIndexService.requestIndexing(tenantId, 'teams');
+
       return syncHistory;
     } catch (error) {
       this.logger.error(`Sync failed for connection ${connectionId}`, error.stack);
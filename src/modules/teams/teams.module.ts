@@ -1,5 +1,6 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { ChatbotModule } from '../chatbot/chatbot.module';
 import { TeamsConnection } from './entities/teams-connection.entity';
 import { TeamsChannel } from './entities/teams-channel.entity';
 import { TeamsUser } from './entities/teams-user.entity';
@@ -23,6 +24,7 @@ import { TeamsMessageController } from './controllers/teams-message.controller';
       TeamsMessage,
       TeamsSyncHistory,
     ]),
+    ChatbotModule,
   ],
   controllers: [
     TeamsOAuthController,
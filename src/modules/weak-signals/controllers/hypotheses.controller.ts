@@ -9,25 +9,51 @@ import {
   UseGuards,
   ParseIntPipe,
   NotFoundException,
+  BadRequestException,
+  UseInterceptors,
+  UploadedFile,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiBearerAuth, ApiResponse } from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiResponse, ApiConsumes } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
 import { CurrentTenant } from '../../../common/decorators/current-tenant.decorator';
 import { CurrentUser } from '../../../common/decorators/current-user.decorator';
 import { HypothesisGenerationService } from '../services/hypothesis-generation.service';
+import { HypothesisValidationService, EvidenceFile } from '../services/hypothesis-validation.service';
+import { SignalCommentService } from '../services/signal-comment.service';
+import { SignalActivityService } from '../services/signal-activity.service';
 import {
   GenerateHypothesesDto,
   GetHypothesesQueryDto,
   UpdateHypothesisStatusDto,
+  UpdateValidationStepDto,
+  AttachEvidenceDto,
+  UploadEvidenceDto,
+  CompleteValidationDto,
   HypothesisResponseDto,
 } from '../dto/hypothesis.dto';
+import {
+  ActivityResponseDto,
+  CommentResponseDto,
+  CreateCommentDto,
+  GetActivityQueryDto,
+  UpdateCommentDto,
+} from '../dto/signal-activity.dto';
+import { mapToCommentResponseDto, mapToActivityResponseDto } from '../dto/signal-activity.mapper';
+
+const MAX_EVIDENCE_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
 @ApiTags('Hypotheses')
 @Controller('hypotheses')
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth('JWT')
 export class HypothesesController {
-  constructor(private readonly hypothesisGenerationService: HypothesisGenerationService) {}
+  constructor(
+    private readonly hypothesisGenerationService: HypothesisGenerationService,
+    private readonly hypothesisValidationService: HypothesisValidationService,
+    private readonly commentService: SignalCommentService,
+    private readonly activityService: SignalActivityService,
+  ) {}
 
   @Post('generate')
   @ApiOperation({ summary: 'Generate hypotheses for a weak signal' })
@@ -74,15 +100,13 @@ export class HypothesesController {
     @CurrentTenant() tenantId: number,
     @Param('id', ParseIntPipe) id: number,
   ): Promise<HypothesisResponseDto> {
-    const hypothesis = await this.hypothesisGenerationService.getHypotheses(tenantId, { limit: 1 });
-
-    const found = hypothesis.find(h => h.id === id);
+    const hypothesis = await this.hypothesisGenerationService.getHypothesisById(tenantId, id);
 
-    if (!found) {
+    if (!hypothesis) {
       throw new NotFoundException('Hypothesis not found');
     }
 
-    return this.mapToResponseDto(found);
+    return this.mapToResponseDto(hypothesis);
   }
 
   @Patch(':id/status')
@@ -95,33 +119,149 @@ export class HypothesesController {
     @Body() dto: UpdateHypothesisStatusDto,
     @CurrentUser() user: any,
   ): Promise<HypothesisResponseDto> {
-    // Get the hypothesis first
-    const hypotheses = await this.hypothesisGenerationService.getHypotheses(tenantId, { limit: 1000 });
-    const hypothesis = hypotheses.find(h => h.id === id);
+    const hypothesis = await this.hypothesisValidationService.updateStatus(tenantId, id, dto, user.id);
+    return this.mapToResponseDto(hypothesis);
+  }
 
-    if (!hypothesis) {
-      throw new NotFoundException('Hypothesis not found');
-    }
+  @Post(':id/validation/start')
+  @ApiOperation({ summary: 'Start validating a hypothesis' })
+  @ApiResponse({ status: 200, description: 'Validation started', type: HypothesisResponseDto })
+  @ApiResponse({ status: 404, description: 'Hypothesis not found' })
+  async startValidation(
+    @CurrentTenant() tenantId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: any,
+  ): Promise<HypothesisResponseDto> {
+    const hypothesis = await this.hypothesisValidationService.startValidation(tenantId, id, user.id);
+    return this.mapToResponseDto(hypothesis);
+  }
 
-    // Update the hypothesis
-    hypothesis.status = dto.status;
-    hypothesis.validatedAt = new Date();
-    hypothesis.validatedBy = user.id;
+  @Patch(':id/validation/steps/:step')
+  @ApiOperation({ summary: 'Record progress on a validation step' })
+  @ApiResponse({ status: 200, description: 'Step updated', type: HypothesisResponseDto })
+  @ApiResponse({ status: 404, description: 'Hypothesis or step not found' })
+  async updateValidationStep(
+    @CurrentTenant() tenantId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Param('step', ParseIntPipe) step: number,
+    @Body() dto: UpdateValidationStepDto,
+    @CurrentUser() user: any,
+  ): Promise<HypothesisResponseDto> {
+    const hypothesis = await this.hypothesisValidationService.updateStep(tenantId, id, step, dto, user.id);
+    return this.mapToResponseDto(hypothesis);
+  }
 
-    if (dto.validationNotes) {
-      hypothesis.validationNotes = dto.validationNotes;
-    }
+  @Post(':id/evidence')
+  @ApiOperation({ summary: 'Attach a Jira issue, ServiceNow incident, link or note as evidence' })
+  @ApiResponse({ status: 201, description: 'Evidence attached', type: HypothesisResponseDto })
+  @ApiResponse({ status: 404, description: 'Hypothesis not found' })
+  async attachEvidence(
+    @CurrentTenant() tenantId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: AttachEvidenceDto,
+    @CurrentUser() user: any,
+  ): Promise<HypothesisResponseDto> {
+    const hypothesis = await this.hypothesisValidationService.attachEvidence(tenantId, id, dto, user.id);
+    return this.mapToResponseDto(hypothesis);
+  }
 
-    if (dto.validationResults) {
-      hypothesis.validationResults = dto.validationResults;
+  @Post(':id/evidence/upload')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_EVIDENCE_FILE_SIZE } }))
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({ summary: 'Upload a file as evidence' })
+  @ApiResponse({ status: 201, description: 'Evidence uploaded', type: HypothesisResponseDto })
+  @ApiResponse({ status: 404, description: 'Hypothesis not found' })
+  async uploadEvidence(
+    @CurrentTenant() tenantId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @UploadedFile() file: EvidenceFile,
+    @Body() dto: UploadEvidenceDto,
+    @CurrentUser() user: any,
+  ): Promise<HypothesisResponseDto> {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
     }
 
-    // Note: In a real implementation, you would save this to the database
-    // For now, we're just returning the updated object
+    const hypothesis = await this.hypothesisValidationService.uploadEvidence(tenantId, id, file, dto, user.id);
+    return this.mapToResponseDto(hypothesis);
+  }
 
+  @Post(':id/validation/complete')
+  @ApiOperation({ summary: 'Complete validation, recompute confidence and update the weak signal' })
+  @ApiResponse({ status: 200, description: 'Validation completed', type: HypothesisResponseDto })
+  @ApiResponse({ status: 404, description: 'Hypothesis not found' })
+  async completeValidation(
+    @CurrentTenant() tenantId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: CompleteValidationDto,
+    @CurrentUser() user: any,
+  ): Promise<HypothesisResponseDto> {
+    const hypothesis = await this.hypothesisValidationService.completeValidation(
+      tenantId,
+      id,
+      dto.outcome,
+      dto.notes,
+      user.id,
+    );
     return this.mapToResponseDto(hypothesis);
   }
 
+  @Get(':id/comments')
+  @ApiOperation({ summary: 'Get the comment threads of a hypothesis, oldest first' })
+  @ApiResponse({ status: 200, description: 'Comments retrieved successfully', type: [CommentResponseDto] })
+  @ApiResponse({ status: 404, description: 'Hypothesis not found' })
+  async getComments(
+    @CurrentTenant() tenantId: number,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<CommentResponseDto[]> {
+    const threads = await this.commentService.getThreads(tenantId, { hypothesisId: id });
+    return threads.map(thread => mapToCommentResponseDto(thread));
+  }
+
+  @Post(':id/comments')
+  @ApiOperation({ summary: 'Comment on a hypothesis or reply to a comment; mentioned users are notified' })
+  @ApiResponse({ status: 201, description: 'Comment added', type: CommentResponseDto })
+  @ApiResponse({ status: 400, description: 'Unknown parent comment or mentioned user' })
+  @ApiResponse({ status: 404, description: 'Hypothesis not found' })
+  async addComment(
+    @CurrentTenant() tenantId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: CreateCommentDto,
+    @CurrentUser() user: any,
+  ): Promise<CommentResponseDto> {
+    const comment = await this.commentService.addComment(tenantId, { hypothesisId: id }, dto, user.id);
+    return mapToCommentResponseDto({ comment, replies: [] });
+  }
+
+  @Patch(':id/comments/:commentId')
+  @ApiOperation({ summary: 'Edit a comment; only its author can' })
+  @ApiResponse({ status: 200, description: 'Comment updated', type: CommentResponseDto })
+  @ApiResponse({ status: 403, description: 'Not the author of the comment' })
+  @ApiResponse({ status: 404, description: 'Hypothesis or comment not found' })
+  async editComment(
+    @CurrentTenant() tenantId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Param('commentId', ParseIntPipe) commentId: number,
+    @Body() dto: UpdateCommentDto,
+    @CurrentUser() user: any,
+  ): Promise<CommentResponseDto> {
+    const comment = await this.commentService.editComment(tenantId, { hypothesisId: id }, commentId, dto.body, user.id);
+    return mapToCommentResponseDto({ comment, replies: [] });
+  }
+
+  @Get(':id/activity')
+  @ApiOperation({ summary: 'Get the activity feed of a hypothesis, newest first' })
+  @ApiResponse({ status: 200, description: 'Activity retrieved successfully', type: [ActivityResponseDto] })
+  @ApiResponse({ status: 404, description: 'Hypothesis not found' })
+  async getActivity(
+    @CurrentTenant() tenantId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: GetActivityQueryDto,
+  ): Promise<ActivityResponseDto[]> {
+    const activities = await this.activityService.getHypothesisFeed(tenantId, id, query);
+    return activities.map(activity => mapToActivityResponseDto(activity));
+  }
+
   private mapToResponseDto(hypothesis: any): HypothesisResponseDto {
     return {
       id: hypothesis.id,
@@ -138,6 +278,12 @@ export class HypothesesController {
       guardrails: hypothesis.guardrails,
       validationSteps: hypothesis.validationSteps,
       predictedImpact: hypothesis.predictedImpact,
+      validationProgress: hypothesis.validationProgress ?? null,
+      evidenceAttachments: hypothesis.evidenceAttachments ?? null,
+      validationResults: hypothesis.validationResults ?? null,
+      validationNotes: hypothesis.validationNotes ?? null,
+      validatedAt: hypothesis.validatedAt ?? null,
+      validatedBy: hypothesis.validatedBy ?? null,
     };
   }
 }
@@ -2,17 +2,35 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { NotFoundException } from '@nestjs/common';
 import { WeakSignalsController } from './weak-signals.controller';
 import { WeakSignalDetectionService } from '../services/weak-signal-detection.service';
+import { WeakSignalSchedulerService } from '../services/weak-signal-scheduler.service';
+import { HypothesisGenerationService } from '../services/hypothesis-generation.service';
+import { SignalLifecycleService } from '../services/signal-lifecycle.service';
+import { DetectionSettingsService } from '../services/detection-settings.service';
+import { BacktestService } from '../services/backtest.service';
+import { SignalFeedbackService } from '../services/signal-feedback.service';
+import { LagAnalysisService } from '../services/lag-analysis.service';
+import { SignalSlaService } from '../services/signal-sla.service';
+import { SignalCommentService } from '../services/signal-comment.service';
+import { SignalActivityService } from '../services/signal-activity.service';
 
 describe('WeakSignalsController', () => {
   let controller: WeakSignalsController;
   let service: WeakSignalDetectionService;
 
   const mockWeakSignalService = {
-    detectWeakSignals: jest.fn(),
-    getWeakSignals: jest.fn(),
+    getWeakSignalsPage: jest.fn(),
     getWeakSignalById: jest.fn(),
     updateWeakSignalStatus: jest.fn(),
     getStatistics: jest.fn(),
+    deleteAllSignals: jest.fn(),
+  };
+
+  const mockSchedulerService = {
+    queueDetection: jest.fn(),
+  };
+
+  const mockHypothesisService = {
+    getHypothesesBySignal: jest.fn().mockResolvedValue([]),
   };
 
   beforeEach(async () => {
@@ -23,6 +41,16 @@ describe('WeakSignalsController', () => {
           provide: WeakSignalDetectionService,
           useValue: mockWeakSignalService,
         },
+        { provide: WeakSignalSchedulerService, useValue: mockSchedulerService },
+        { provide: HypothesisGenerationService, useValue: mockHypothesisService },
+        { provide: SignalLifecycleService, useValue: {} },
+        { provide: DetectionSettingsService, useValue: {} },
+        { provide: BacktestService, useValue: {} },
+        { provide: SignalFeedbackService, useValue: {} },
+        { provide: LagAnalysisService, useValue: {} },
+        { provide: SignalSlaService, useValue: { getSlaStatus: jest.fn(() => null) } },
+        { provide: SignalCommentService, useValue: {} },
+        { provide: SignalActivityService, useValue: {} },
       ],
     }).compile();
 
@@ -39,33 +67,26 @@ describe('WeakSignalsController', () => {
   });
 
   describe('detectWeakSignals', () => {
-    it('should trigger weak signal detection', async () => {
-      const mockSignals = [
-        {
-          id: 1,
-          signalType: 'pattern_recurring',
-          title: 'Test Signal',
-          description: 'Test description',
-          severity: 'high',
-          confidenceScore: 85,
-          status: 'new',
-          detectedAt: new Date(),
-          category: 'Engineering',
-          affectedEntities: [],
-          explainability: {},
-          patternData: {},
-          trendData: null,
-          sourceSignals: [],
-          metadata: {},
-        },
-      ];
-
-      mockWeakSignalService.detectWeakSignals.mockResolvedValue(mockSignals);
+    it('should queue weak signal detection and return the job', async () => {
+      mockSchedulerService.queueDetection.mockResolvedValueOnce({ id: 7, jobId: 'job-1', status: 'queued' });
 
       const result = await controller.detectWeakSignals(1, { daysBack: 90 });
 
-      expect(result).toEqual(mockSignals);
-      expect(mockWeakSignalService.detectWeakSignals).toHaveBeenCalledWith(1, 90);
+      expect(result).toEqual({ jobId: 'job-1', detectionRunId: 7, status: 'queued' });
+      expect(mockSchedulerService.queueDetection).toHaveBeenCalledWith(1, { daysBack: 90 });
+      expect(service.deleteAllSignals).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('regenerateSignals', () => {
+    it('should queue regeneration instead of deleting signals in the request', async () => {
+      mockSchedulerService.queueDetection.mockResolvedValueOnce({ id: 8, jobId: 'job-2', status: 'queued' });
+
+      const result = await controller.regenerateSignals(1, { daysBack: 30 });
+
+      expect(result).toEqual({ jobId: 'job-2', detectionRunId: 8, status: 'queued' });
+      expect(mockSchedulerService.queueDetection).toHaveBeenCalledWith(1, { daysBack: 30, regenerate: true });
+      expect(service.deleteAllSignals).not.toHaveBeenCalled();
     });
   });
 
@@ -81,7 +102,7 @@ describe('WeakSignalsController', () => {
         },
       ];
 
-      mockWeakSignalService.getWeakSignals.mockResolvedValue(mockSignals);
+      mockWeakSignalService.getWeakSignalsPage.mockResolvedValue({ signals: mockSignals, total: 1 });
 
       const result = await controller.getWeakSignals(1, {
         signalType: 'pattern_recurring',
@@ -90,7 +111,7 @@ describe('WeakSignalsController', () => {
 
       expect(result.signals).toBeDefined();
       expect(result.total).toBe(1);
-      expect(mockWeakSignalService.getWeakSignals).toHaveBeenCalled();
+      expect(mockWeakSignalService.getWeakSignalsPage).toHaveBeenCalled();
     });
   });
 
@@ -2,28 +2,76 @@ import {
   Controller,
   Get,
   Post,
+  Put,
   Patch,
+  Delete,
   Param,
   Query,
   Body,
   UseGuards,
+  HttpCode,
+  HttpStatus,
   ParseIntPipe,
   NotFoundException,
+  Res,
 } from '@nestjs/common';
+import { Response } from 'express';
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiResponse } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../common/guards/roles.guard';
+import { Roles } from '../../../common/decorators/roles.decorator';
+import { UserRole } from '../../../common/enums';
 import { CurrentTenant } from '../../../common/decorators/current-tenant.decorator';
 import { CurrentUser } from '../../../common/decorators/current-user.decorator';
 import { WeakSignalDetectionService } from '../services/weak-signal-detection.service';
 import { WeakSignalSchedulerService } from '../services/weak-signal-scheduler.service';
 import { HypothesisGenerationService } from '../services/hypothesis-generation.service';
+import { SignalLifecycleService } from '../services/signal-lifecycle.service';
+import { DetectionSettingsService } from '../services/detection-settings.service';
+import { BacktestService } from '../services/backtest.service';
+import { SignalFeedbackService } from '../services/signal-feedback.service';
+import { LagAnalysisService } from '../services/lag-analysis.service';
+import { SignalSlaService } from '../services/signal-sla.service';
+import { SignalCommentService } from '../services/signal-comment.service';
+import { SignalActivityService } from '../services/signal-activity.service';
+import { DetectionProfile } from '../entities/detection-profile.entity';
+import { BacktestRun } from '../entities/backtest-run.entity';
+import { DetectionRun } from '../entities/detection-run.entity';
+import { SignalFeedbackWeight } from '../entities/signal-feedback-weight.entity';
+import { SeriesRelationship } from '../entities/series-relationship.entity';
 import {
+  AssignWeakSignalDto,
+  DetectionJobResponseDto,
   DetectWeakSignalsDto,
+  FeedbackWeightsResponseDto,
   GetWeakSignalsQueryDto,
+  GetLifecycleTransitionsQueryDto,
+  LifecycleTransitionDto,
+  SlaPolicyResponseDto,
   UpdateWeakSignalStatusDto,
   WeakSignalResponseDto,
+  WeakSignalHistoryEntryDto,
   WeakSignalStatisticsDto,
 } from '../dto/weak-signal.dto';
+import { UpdateDetectionSettingsDto, DetectionSettingsResponseDto } from '../dto/detection-settings.dto';
+import { RunBacktestDto, GetBacktestRunsQueryDto, BacktestRunResponseDto } from '../dto/backtest.dto';
+import {
+  AnalyzeLagDto,
+  GetLagRelationshipsQueryDto,
+  LagAnalysisResponseDto,
+  LagScanJobResponseDto,
+  ScanLagRelationshipsDto,
+  SeriesRelationshipResponseDto,
+} from '../dto/lag-analysis.dto';
+import {
+  ActivityResponseDto,
+  CommentResponseDto,
+  CreateCommentDto,
+  GetActivityQueryDto,
+  LinkActionItemDto,
+  UpdateCommentDto,
+} from '../dto/signal-activity.dto';
+import { mapToCommentResponseDto, mapToActivityResponseDto } from '../dto/signal-activity.mapper';
 
 @ApiTags('Weak Signals')
 @Controller('weak-signals')
@@ -34,40 +82,78 @@ export class WeakSignalsController {
     private readonly weakSignalDetectionService: WeakSignalDetectionService,
     private readonly schedulerService: WeakSignalSchedulerService,
     private readonly hypothesisService: HypothesisGenerationService,
+    private readonly lifecycleService: SignalLifecycleService,
+    private readonly detectionSettingsService: DetectionSettingsService,
+    private readonly backtestService: BacktestService,
+    private readonly feedbackService: SignalFeedbackService,
+    private readonly lagAnalysisService: LagAnalysisService,
+    private readonly slaService: SignalSlaService,
+    private readonly commentService: SignalCommentService,
+    private readonly activityService: SignalActivityService,
   ) {}
 
   @Post('detect')
-  @ApiOperation({ summary: 'Trigger weak signal detection' })
-  @ApiResponse({ status: 200, description: 'Weak signals detected successfully', type: [WeakSignalResponseDto] })
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Queue weak signal detection; poll GET detection-runs/:id for progress' })
+  @ApiResponse({ status: 202, description: 'Detection queued', type: DetectionJobResponseDto })
   async detectWeakSignals(
     @CurrentTenant() tenantId: number,
     @Body() dto: DetectWeakSignalsDto,
-  ): Promise<WeakSignalResponseDto[]> {
-    const signals = await this.weakSignalDetectionService.detectWeakSignals(tenantId, dto.daysBack);
-    return signals.map(signal => this.mapToResponseDto(signal));
+  ): Promise<DetectionJobResponseDto> {
+    const detectionRun = await this.schedulerService.queueDetection(tenantId, { daysBack: dto.daysBack });
+    return this.mapToDetectionJobResponseDto(detectionRun);
   }
 
   @Get()
-  @ApiOperation({ summary: 'Get weak signals with filtering' })
-  @ApiResponse({ status: 200, description: 'Weak signals retrieved successfully', type: [WeakSignalResponseDto] })
+  @ApiOperation({ summary: 'Get a page of weak signals with filtering, search and sorting; assignedToMe=true for my signals' })
+  @ApiResponse({ status: 200, description: 'Weak signals retrieved successfully; X-Total-Count and X-Page-Count headers carry the totals', type: [WeakSignalResponseDto] })
   async getWeakSignals(
     @CurrentTenant() tenantId: number,
     @Query() query: GetWeakSignalsQueryDto,
+    @CurrentUser() user?: any,
+    @Res({ passthrough: true }) res?: Response,
   ): Promise<{
     signals: WeakSignalResponseDto[];
     total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
   }> {
-    const signals = await this.weakSignalDetectionService.getWeakSignals(tenantId, {
+    const page = query.page || 1;
+    const limit = query.limit || 50;
+
+    const { signals, total } = await this.weakSignalDetectionService.getWeakSignalsPage(tenantId, {
       signalType: query.signalType,
       severity: query.severity,
       status: query.status,
       minConfidence: query.minConfidence,
-      limit: query.limit,
+      includeInactive: query.includeInactive,
+      category: query.category,
+      affectedEntityType: query.affectedEntityType,
+      affectedEntityId: query.affectedEntityId,
+      source: query.source,
+      detectedFrom: query.detectedFrom ? new Date(query.detectedFrom) : undefined,
+      detectedTo: query.detectedTo ? new Date(query.detectedTo) : undefined,
+      assigneeId: query.assignedToMe ? user?.id : query.assigneeId,
+      assignedTeam: query.team,
+      slaBreached: query.slaBreached,
+      search: query.search,
+      page,
+      limit,
+      sortBy: query.sortBy,
+      sortOrder: query.sortOrder,
     });
 
+    const totalPages = Math.ceil(total / limit);
+    res?.setHeader('X-Total-Count', String(total));
+    res?.setHeader('X-Page-Count', String(totalPages));
+
     return {
       signals: signals.map(signal => this.mapToResponseDto(signal)),
-      total: signals.length,
+      total,
+      page,
+      limit,
+      totalPages,
     };
   }
 
@@ -78,6 +164,217 @@ export class WeakSignalsController {
     return await this.weakSignalDetectionService.getStatistics(tenantId);
   }
 
+  @Get('lifecycle/transitions')
+  @ApiOperation({ summary: 'Get automatic resolve, expire and reopen transitions' })
+  @ApiResponse({ status: 200, description: 'Lifecycle transitions retrieved successfully', type: [LifecycleTransitionDto] })
+  async getLifecycleTransitions(
+    @CurrentTenant() tenantId: number,
+    @Query() query: GetLifecycleTransitionsQueryDto,
+  ): Promise<LifecycleTransitionDto[]> {
+    const transitions = await this.lifecycleService.getTransitions(tenantId, {
+      detectionRunId: query.detectionRunId,
+      limit: query.limit,
+    });
+
+    return transitions.map(entry => {
+      const statusChange = entry.changes.find(c => c.field === 'status');
+      return {
+        id: entry.id,
+        weakSignalId: entry.weakSignalId,
+        detectionRunId: entry.detectionRunId,
+        transition: entry.changeType,
+        previousStatus: statusChange?.previous ?? null,
+        newStatus: statusChange?.current ?? null,
+        reason: entry.reason,
+        recordedAt: entry.recordedAt,
+      };
+    });
+  }
+
+  @Get('settings')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiOperation({ summary: 'Get the detection settings used for this tenant' })
+  @ApiResponse({ status: 200, description: 'Detection settings retrieved successfully', type: DetectionSettingsResponseDto })
+  @ApiResponse({ status: 403, description: 'Admins only' })
+  async getDetectionSettings(@CurrentTenant() tenantId: number): Promise<DetectionSettingsResponseDto> {
+    const profile = await this.detectionSettingsService.getProfile(tenantId);
+    return this.mapToSettingsResponseDto(profile);
+  }
+
+  @Put('settings')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiOperation({ summary: 'Create or replace the detection settings; omitted sections use the defaults' })
+  @ApiResponse({ status: 200, description: 'Detection settings saved successfully', type: DetectionSettingsResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid detection settings' })
+  @ApiResponse({ status: 403, description: 'Admins only' })
+  async replaceDetectionSettings(
+    @CurrentTenant() tenantId: number,
+    @Body() dto: UpdateDetectionSettingsDto,
+    @CurrentUser() user: any,
+  ): Promise<DetectionSettingsResponseDto> {
+    const profile = await this.detectionSettingsService.saveProfile(tenantId, dto, user.id, true);
+    return this.mapToSettingsResponseDto(profile);
+  }
+
+  @Patch('settings')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiOperation({ summary: 'Update part of the detection settings' })
+  @ApiResponse({ status: 200, description: 'Detection settings updated successfully', type: DetectionSettingsResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid detection settings' })
+  @ApiResponse({ status: 403, description: 'Admins only' })
+  async updateDetectionSettings(
+    @CurrentTenant() tenantId: number,
+    @Body() dto: UpdateDetectionSettingsDto,
+    @CurrentUser() user: any,
+  ): Promise<DetectionSettingsResponseDto> {
+    const profile = await this.detectionSettingsService.saveProfile(tenantId, dto, user.id);
+    return this.mapToSettingsResponseDto(profile);
+  }
+
+  @Delete('settings')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiOperation({ summary: 'Reset the detection settings to the defaults' })
+  @ApiResponse({ status: 200, description: 'Detection settings reset successfully', type: DetectionSettingsResponseDto })
+  @ApiResponse({ status: 403, description: 'Admins only' })
+  async resetDetectionSettings(@CurrentTenant() tenantId: number): Promise<DetectionSettingsResponseDto> {
+    await this.detectionSettingsService.deleteProfile(tenantId);
+    return this.mapToSettingsResponseDto(null);
+  }
+
+  @Post('backtests')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Queue a replay of detection over historical dates, scored against validated and dismissed signals; poll GET backtests/:id for the results' })
+  @ApiResponse({ status: 202, description: 'Backtest queued', type: BacktestRunResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid backtest range' })
+  async runBacktest(
+    @CurrentTenant() tenantId: number,
+    @Body() dto: RunBacktestDto,
+    @CurrentUser() user: any,
+  ): Promise<BacktestRunResponseDto> {
+    const run = await this.backtestService.queueBacktest(
+      tenantId,
+      {
+        name: dto.name,
+        fromDate: new Date(dto.fromDate),
+        toDate: new Date(dto.toDate),
+        stepDays: dto.stepDays,
+        daysBack: dto.daysBack,
+      },
+      user.id,
+    );
+
+    return this.mapToBacktestResponseDto(run);
+  }
+
+  @Get('backtests')
+  @ApiOperation({ summary: 'List backtest runs, newest first' })
+  @ApiResponse({ status: 200, description: 'Backtest runs retrieved successfully', type: [BacktestRunResponseDto] })
+  async getBacktestRuns(
+    @CurrentTenant() tenantId: number,
+    @Query() query: GetBacktestRunsQueryDto,
+  ): Promise<BacktestRunResponseDto[]> {
+    const runs = await this.backtestService.getBacktestRuns(tenantId, query.limit);
+    return runs.map(run => this.mapToBacktestResponseDto(run));
+  }
+
+  @Get('backtests/:id')
+  @ApiOperation({ summary: 'Get a backtest run with precision, recall and lead time per detector and source' })
+  @ApiResponse({ status: 200, description: 'Backtest run retrieved successfully', type: BacktestRunResponseDto })
+  @ApiResponse({ status: 404, description: 'Backtest run not found' })
+  async getBacktestRun(
+    @CurrentTenant() tenantId: number,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<BacktestRunResponseDto> {
+    const run = await this.backtestService.getBacktestRun(tenantId, id);
+
+    if (!run) {
+      throw new NotFoundException('Backtest run not found');
+    }
+
+    return this.mapToBacktestResponseDto(run);
+  }
+
+  @Get('feedback')
+  @ApiOperation({ summary: 'Get confidence weights and suppressions learned from analyst triage' })
+  @ApiResponse({ status: 200, description: 'Feedback weights retrieved successfully', type: FeedbackWeightsResponseDto })
+  async getFeedbackWeights(@CurrentTenant() tenantId: number): Promise<FeedbackWeightsResponseDto> {
+    const weights = await this.feedbackService.getWeights(tenantId);
+    return this.mapToFeedbackResponseDto(weights);
+  }
+
+  @Post('feedback/recompute')
+  @ApiOperation({ summary: 'Recompute feedback weights from the current triage outcomes' })
+  @ApiResponse({ status: 201, description: 'Feedback weights recomputed successfully', type: FeedbackWeightsResponseDto })
+  async recomputeFeedbackWeights(@CurrentTenant() tenantId: number): Promise<FeedbackWeightsResponseDto> {
+    await this.feedbackService.recomputeWeights(tenantId);
+    const weights = await this.feedbackService.getWeights(tenantId);
+    return this.mapToFeedbackResponseDto(weights);
+  }
+
+  @Get('lag-analysis/series')
+  @ApiOperation({ summary: 'List the daily series available for lag analysis' })
+  @ApiResponse({ status: 200, description: 'Series retrieved successfully', type: [String] })
+  async getLagSeries(@CurrentTenant() tenantId: number): Promise<string[]> {
+    return this.lagAnalysisService.listSeries(tenantId);
+  }
+
+  @Post('lag-analysis')
+  @ApiOperation({ summary: 'Compute lagged cross-correlation and a Granger-style test between two daily series' })
+  @ApiResponse({ status: 201, description: 'Lag analysis completed', type: LagAnalysisResponseDto })
+  @ApiResponse({ status: 400, description: 'Unknown series or series without data' })
+  async analyzeLag(
+    @CurrentTenant() tenantId: number,
+    @Body() dto: AnalyzeLagDto,
+  ): Promise<LagAnalysisResponseDto> {
+    return this.lagAnalysisService.analyzePair(tenantId, dto.seriesA, dto.seriesB, {
+      daysBack: dto.daysBack,
+      maxLagDays: dto.maxLagDays,
+    });
+  }
+
+  @Post('lag-analysis/scan')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Queue an analysis of every pair of daily series; the significant lead/lag relationships are stored when it has run' })
+  @ApiResponse({ status: 202, description: 'Lag scan queued', type: LagScanJobResponseDto })
+  async scanLagRelationships(
+    @CurrentTenant() tenantId: number,
+    @Body() dto: ScanLagRelationshipsDto,
+  ): Promise<LagScanJobResponseDto> {
+    const job = await this.lagAnalysisService.queueScan(tenantId, {
+      daysBack: dto.daysBack,
+      maxLagDays: dto.maxLagDays,
+    });
+    return { jobId: job.id };
+  }
+
+  @Get('lag-analysis/relationships')
+  @ApiOperation({ summary: 'Get stored lead/lag relationships, optionally for one series' })
+  @ApiResponse({ status: 200, description: 'Relationships retrieved successfully', type: [SeriesRelationshipResponseDto] })
+  async getLagRelationships(
+    @CurrentTenant() tenantId: number,
+    @Query() query: GetLagRelationshipsQueryDto,
+  ): Promise<SeriesRelationshipResponseDto[]> {
+    const relationships = await this.lagAnalysisService.getRelationships(
+      tenantId,
+      query.series ? [query.series] : undefined,
+    );
+    return relationships.map(relationship => this.mapToRelationshipResponseDto(relationship));
+  }
+
+  @Get('sla/policy')
+  @ApiOperation({ summary: 'Get the triage SLA hours per severity' })
+  @ApiResponse({ status: 200, description: 'SLA policy retrieved successfully', type: SlaPolicyResponseDto })
+  getSlaPolicy(): SlaPolicyResponseDto {
+    return {
+      enabled: this.slaService.isEnabled(),
+      hoursBySeverity: this.slaService.getPolicy(),
+    };
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get a single weak signal by ID with associated hypotheses' })
   @ApiResponse({ status: 200, description: 'Weak signal retrieved successfully', type: WeakSignalResponseDto })
@@ -113,6 +410,33 @@ export class WeakSignalsController {
     };
   }
 
+  @Get(':id/history')
+  @ApiOperation({ summary: 'Get how a weak signal evolved across detection runs' })
+  @ApiResponse({ status: 200, description: 'Signal history retrieved successfully', type: [WeakSignalHistoryEntryDto] })
+  @ApiResponse({ status: 404, description: 'Weak signal not found' })
+  async getSignalHistory(
+    @CurrentTenant() tenantId: number,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<WeakSignalHistoryEntryDto[]> {
+    const signal = await this.weakSignalDetectionService.getWeakSignalById(tenantId, id);
+
+    if (!signal) {
+      throw new NotFoundException('Weak signal not found');
+    }
+
+    const history = await this.weakSignalDetectionService.getSignalHistory(tenantId, id);
+
+    return history.map(entry => ({
+      id: entry.id,
+      detectionRunId: entry.detectionRunId,
+      changeType: entry.changeType,
+      snapshot: entry.snapshot,
+      changes: entry.changes,
+      reason: entry.reason,
+      recordedAt: entry.recordedAt,
+    }));
+  }
+
   @Patch(':id/status')
   @ApiOperation({ summary: 'Update weak signal status' })
   @ApiResponse({ status: 200, description: 'Status updated successfully', type: WeakSignalResponseDto })
@@ -134,9 +458,100 @@ export class WeakSignalsController {
     return this.mapToResponseDto(signal);
   }
 
+  @Get(':id/comments')
+  @ApiOperation({ summary: 'Get the comment threads of a weak signal, oldest first' })
+  @ApiResponse({ status: 200, description: 'Comments retrieved successfully', type: [CommentResponseDto] })
+  @ApiResponse({ status: 404, description: 'Weak signal not found' })
+  async getComments(
+    @CurrentTenant() tenantId: number,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<CommentResponseDto[]> {
+    const threads = await this.commentService.getThreads(tenantId, { weakSignalId: id });
+    return threads.map(thread => mapToCommentResponseDto(thread));
+  }
+
+  @Post(':id/comments')
+  @ApiOperation({ summary: 'Comment on a weak signal or reply to a comment; mentioned users are notified' })
+  @ApiResponse({ status: 201, description: 'Comment added', type: CommentResponseDto })
+  @ApiResponse({ status: 400, description: 'Unknown parent comment or mentioned user' })
+  @ApiResponse({ status: 404, description: 'Weak signal not found' })
+  async addComment(
+    @CurrentTenant() tenantId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: CreateCommentDto,
+    @CurrentUser() user: any,
+  ): Promise<CommentResponseDto> {
+    const comment = await this.commentService.addComment(tenantId, { weakSignalId: id }, dto, user.id);
+    return mapToCommentResponseDto({ comment, replies: [] });
+  }
+
+  @Patch(':id/comments/:commentId')
+  @ApiOperation({ summary: 'Edit a comment; only its author can' })
+  @ApiResponse({ status: 200, description: 'Comment updated', type: CommentResponseDto })
+  @ApiResponse({ status: 403, description: 'Not the author of the comment' })
+  @ApiResponse({ status: 404, description: 'Weak signal or comment not found' })
+  async editComment(
+    @CurrentTenant() tenantId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Param('commentId', ParseIntPipe) commentId: number,
+    @Body() dto: UpdateCommentDto,
+    @CurrentUser() user: any,
+  ): Promise<CommentResponseDto> {
+    const comment = await this.commentService.editComment(tenantId, { weakSignalId: id }, commentId, dto.body, user.id);
+    return mapToCommentResponseDto({ comment, replies: [] });
+  }
+
+  @Get(':id/activity')
+  @ApiOperation({ summary: 'Get the activity feed of a weak signal and its hypotheses, newest first' })
+  @ApiResponse({ status: 200, description: 'Activity retrieved successfully', type: [ActivityResponseDto] })
+  @ApiResponse({ status: 404, description: 'Weak signal not found' })
+  async getActivity(
+    @CurrentTenant() tenantId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: GetActivityQueryDto,
+  ): Promise<ActivityResponseDto[]> {
+    const activities = await this.activityService.getSignalFeed(tenantId, id, query);
+    return activities.map(activity => mapToActivityResponseDto(activity));
+  }
+
+  @Post(':id/actions')
+  @ApiOperation({ summary: 'Link an action item to a weak signal' })
+  @ApiResponse({ status: 201, description: 'Action item linked' })
+  @ApiResponse({ status: 404, description: 'Weak signal or action item not found' })
+  async linkActionItem(
+    @CurrentTenant() tenantId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: LinkActionItemDto,
+    @CurrentUser() user: any,
+  ): Promise<{ actionItemId: number; weakSignalId: number }> {
+    const actionItem = await this.activityService.linkActionItem(tenantId, id, dto.actionItemId, user?.id ?? null);
+    return { actionItemId: actionItem.id, weakSignalId: id };
+  }
+
+  @Put(':id/assignment')
+  @ApiOperation({ summary: 'Assign a weak signal to a user and/or team; null clears either' })
+  @ApiResponse({ status: 200, description: 'Assignment updated successfully', type: WeakSignalResponseDto })
+  @ApiResponse({ status: 400, description: 'Assignee does not belong to the tenant' })
+  @ApiResponse({ status: 404, description: 'Weak signal not found' })
+  async assign(
+    @CurrentTenant() tenantId: number,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: AssignWeakSignalDto,
+    @CurrentUser() user: any,
+  ): Promise<WeakSignalResponseDto> {
+    const signal = await this.slaService.assign(
+      tenantId,
+      id,
+      { assigneeId: dto.assigneeId, team: dto.team },
+      user?.id ?? null,
+    );
+
+    return this.mapToResponseDto(signal);
+  }
+
   @Post('detection-runs/trigger')
-  @ApiOperation({ summary: 'Manually trigger weak signal detection with deduplication' })
-  @ApiResponse({ status: 200, description: 'Detection triggered successfully' })
+  @ApiOperation({ summary: 'Queue weak signal detection with deduplication' })
+  @ApiResponse({ status: 200, description: 'Detection queued successfully' })
   async triggerDetection(@CurrentTenant() tenantId: number): Promise<{
     detectionRun: any;
     skipped: boolean;
@@ -164,7 +579,9 @@ export class WeakSignalsController {
       skipped,
       message: skipped
         ? 'Detection skipped - recent run found within deduplication window'
-        : 'Detection completed successfully',
+        : detectionRun.status === 'running'
+          ? 'Detection already running'
+          : 'Detection queued',
     };
   }
 
@@ -185,24 +602,46 @@ export class WeakSignalsController {
     return this.schedulerService.getDetectionStats(tenantId);
   }
 
+  @Get('detection-runs/:id')
+  @ApiOperation({ summary: 'Get a detection run and its progress' })
+  @ApiResponse({ status: 200, description: 'Detection run retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Detection run not found' })
+  async getDetectionRun(
+    @CurrentTenant() tenantId: number,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<DetectionRun> {
+    return this.schedulerService.getRun(tenantId, id);
+  }
+
+  @Post('detection-runs/:id/cancel')
+  @ApiOperation({ summary: 'Cancel a queued or running detection run' })
+  @ApiResponse({ status: 200, description: 'Detection run cancelled, or cancellation requested if it is running' })
+  @ApiResponse({ status: 400, description: 'Detection run already finished' })
+  @ApiResponse({ status: 404, description: 'Detection run not found' })
+  async cancelDetectionRun(
+    @CurrentTenant() tenantId: number,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<DetectionRun> {
+    return this.schedulerService.cancelRun(tenantId, id);
+  }
+
   @Post('regenerate')
-  @ApiOperation({ summary: 'Delete all existing signals and regenerate from scratch' })
-  @ApiResponse({ status: 200, description: 'Signals regenerated successfully' })
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Queue deleting all existing signals and regenerating them from scratch' })
+  @ApiResponse({ status: 202, description: 'Regeneration queued', type: DetectionJobResponseDto })
   async regenerateSignals(
     @CurrentTenant() tenantId: number,
     @Body() dto: DetectWeakSignalsDto,
-  ): Promise<{
-    deleted: number;
-    generated: number;
-    signals: WeakSignalResponseDto[];
-  }> {
-    const deleted = await this.weakSignalDetectionService.deleteAllSignals(tenantId);
-    const signals = await this.weakSignalDetectionService.detectWeakSignals(tenantId, dto.daysBack);
+  ): Promise<DetectionJobResponseDto> {
+    const detectionRun = await this.schedulerService.queueDetection(tenantId, { daysBack: dto.daysBack, regenerate: true });
+    return this.mapToDetectionJobResponseDto(detectionRun);
+  }
 
+  private mapToDetectionJobResponseDto(detectionRun: DetectionRun): DetectionJobResponseDto {
     return {
-      deleted,
-      generated: signals.length,
-      signals: signals.map(signal => this.mapToResponseDto(signal)),
+      jobId: detectionRun.jobId!,
+      detectionRunId: detectionRun.id,
+      status: detectionRun.status,
     };
   }
 
@@ -216,13 +655,103 @@ export class WeakSignalsController {
       confidenceScore: Number(signal.confidenceScore),
       status: signal.status,
       detectedAt: signal.detectedAt,
+      lastDetectedAt: signal.lastDetectedAt,
+      detectionCount: signal.detectionCount,
+      missedRuns: signal.missedRuns,
+      resolvedAt: signal.resolvedAt,
       category: signal.category,
       affectedEntities: signal.affectedEntities,
       explainability: signal.explainability,
       patternData: signal.patternData,
       trendData: signal.trendData,
+      forecast: signal.forecast ?? null,
+      breachProbability: signal.breachProbability !== null && signal.breachProbability !== undefined
+        ? Number(signal.breachProbability)
+        : null,
+      expectedBreachAt: signal.expectedBreachAt ?? null,
+      assigneeId: signal.assigneeId ?? null,
+      assignedTeam: signal.assignedTeam ?? null,
+      assignedAt: signal.assignedAt ?? null,
+      triagedAt: signal.triagedAt ?? null,
+      slaDueAt: signal.slaDueAt ?? null,
+      slaBreachedAt: signal.slaBreachedAt ?? null,
+      slaStatus: this.slaService.getSlaStatus(signal),
       sourceSignals: signal.sourceSignals,
       metadata: signal.metadata,
     };
   }
+
+  private mapToSettingsResponseDto(profile: DetectionProfile | null): DetectionSettingsResponseDto {
+    return {
+      isCustomized: profile !== null,
+      settings: this.detectionSettingsService.resolveSettings(profile),
+      overrides: profile
+        ? {
+            enabledDetectors: profile.enabledDetectors ?? undefined,
+            patternThresholds: profile.patternThresholds ?? undefined,
+            keywords: profile.keywords ?? undefined,
+            severityScoring: profile.severityScoring ?? undefined,
+            accelerationFactors: profile.accelerationFactors ?? undefined,
+            similarityThresholds: profile.similarityThresholds ?? undefined,
+          }
+        : null,
+      updatedAt: profile?.updatedAt ?? null,
+      updatedBy: profile?.updatedBy ?? null,
+    };
+  }
+
+  private mapToRelationshipResponseDto(relationship: SeriesRelationship): SeriesRelationshipResponseDto {
+    return {
+      id: relationship.id,
+      leaderSeries: relationship.leaderSeries,
+      followerSeries: relationship.followerSeries,
+      lagDays: relationship.lagDays,
+      correlation: Number(relationship.correlation),
+      grangerFStatistic: Number(relationship.grangerFStatistic),
+      grangerPValue: Number(relationship.grangerPValue),
+      sampleDays: relationship.sampleDays,
+      windowStart: relationship.windowStart,
+      windowEnd: relationship.windowEnd,
+      updatedAt: relationship.updatedAt,
+    };
+  }
+
+  private mapToBacktestResponseDto(run: BacktestRun): BacktestRunResponseDto {
+    return {
+      id: run.id,
+      name: run.name,
+      status: run.status,
+      fromDate: run.fromDate,
+      toDate: run.toDate,
+      stepDays: run.stepDays,
+      daysAnalyzed: run.daysAnalyzed,
+      settings: run.settings,
+      labelCount: run.labelCount,
+      results: run.results,
+      errorMessage: run.errorMessage,
+      durationMs: run.durationMs,
+      createdBy: run.createdBy,
+      createdAt: run.createdAt,
+      completedAt: run.completedAt,
+    };
+  }
+
+  private mapToFeedbackResponseDto(weights: SignalFeedbackWeight[]): FeedbackWeightsResponseDto {
+    const toDto = (weight: SignalFeedbackWeight) => ({
+      dimension: weight.dimension,
+      key: weight.key,
+      validatedCount: weight.validatedCount,
+      dismissedCount: weight.dismissedCount,
+      weight: Number(weight.weight),
+      suppressed: weight.suppressed,
+      updatedAt: weight.updatedAt,
+    });
+
+    return {
+      enabled: this.feedbackService.isEnabled(),
+      typeWeights: weights.filter(w => w.dimension === 'type').map(toDto),
+      sourceWeights: weights.filter(w => w.dimension === 'source').map(toDto),
+      suppressedFingerprints: weights.filter(w => w.dimension === 'fingerprint' && w.suppressed).map(toDto),
+    };
+  }
 }
@@ -0,0 +1,54 @@
+import { IsOptional, IsString, IsNumber, IsInt, IsDateString, MaxLength, Min, Max } from 'class-validator';
+import { BacktestResults, BacktestRunStatus } from '../entities/backtest-run.entity';
+import { DetectionSettings } from '../interfaces/detection-settings.interface';
+
+export class RunBacktestDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  name?: string;
+
+  @IsDateString()
+  fromDate: string;
+
+  @IsDateString()
+  toDate: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(90)
+  stepDays?: number = 7;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  daysBack?: number = 90;
+}
+
+export class GetBacktestRunsQueryDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+export class BacktestRunResponseDto {
+  id: number;
+  name: string | null;
+  status: BacktestRunStatus;
+  fromDate: Date;
+  toDate: Date;
+  stepDays: number;
+  daysAnalyzed: number;
+  settings: DetectionSettings;
+  labelCount: number;
+  results: BacktestResults | null;
+  errorMessage: string | null;
+  durationMs: number | null;
+  createdBy: number | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
@@ -0,0 +1,173 @@
+import {
+  IsOptional,
+  IsNumber,
+  IsInt,
+  IsEnum,
+  IsArray,
+  IsString,
+  ArrayMaxSize,
+  MaxLength,
+  ValidateNested,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { DetectionSettings, DetectorName } from '../interfaces/detection-settings.interface';
+
+export class PatternThresholdsDto {
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  @Max(100)
+  minIssueOccurrences?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  @Max(100)
+  minIncidentOccurrences?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  @Max(100)
+  minTimelineOccurrences?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  minKeywordMentions?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  minRecentKeywordMentions?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(20)
+  keywordSpikeRatio?: number;
+}
+
+export class SeverityScoringDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  criticalScore?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  highScore?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  mediumScore?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  recurrenceWeight?: number;
+}
+
+export class AccelerationFactorsDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(20)
+  minFactor?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1000)
+  minChangeRate?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(20)
+  mediumFactor?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(20)
+  highFactor?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(20)
+  criticalFactor?: number;
+}
+
+export class SimilarityThresholdsDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  jira?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  servicenow?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  timeline?: number;
+}
+
+export class UpdateDetectionSettingsDto {
+  @IsOptional()
+  @IsArray()
+  @IsEnum(['pattern', 'trend', 'anomaly', 'correlation'], { each: true })
+  enabledDetectors?: DetectorName[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PatternThresholdsDto)
+  patternThresholds?: PatternThresholdsDto;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(200)
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
+  keywords?: string[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SeverityScoringDto)
+  severityScoring?: SeverityScoringDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AccelerationFactorsDto)
+  accelerationFactors?: AccelerationFactorsDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SimilarityThresholdsDto)
+  similarityThresholds?: SimilarityThresholdsDto;
+}
+
+export class DetectionSettingsResponseDto {
+  isCustomized: boolean;
+  settings: DetectionSettings;
+  overrides: UpdateDetectionSettingsDto | null;
+  updatedAt: Date | null;
+  updatedBy: number | null;
+}
@@ -1,5 +1,15 @@
-import { IsOptional, IsNumber, IsEnum, Min, Max, IsString } from 'class-validator';
-import { HypothesisStatus, HypothesisType } from '../entities/hypothesis.entity';
+import { IsOptional, IsNumber, IsEnum, Min, Max, IsString, IsNotEmpty, IsInt, MaxLength } from 'class-validator';
+import {
+  HypothesisStatus,
+  HypothesisType,
+  ValidationOutcome,
+  ValidationStepStatus,
+  ValidationStepOutcome,
+  EvidenceKind,
+  EvidenceStance,
+  ValidationStepProgress,
+  EvidenceAttachment,
+} from '../entities/hypothesis.entity';
 
 export class GenerateHypothesesDto {
   @IsNumber()
@@ -45,6 +55,57 @@ export class UpdateHypothesisStatusDto {
   };
 }
 
+export class UpdateValidationStepDto {
+  @IsEnum(['pending', 'in_progress', 'completed', 'skipped'])
+  status: ValidationStepStatus;
+
+  @IsOptional()
+  @IsEnum(['supports', 'contradicts', 'neutral'])
+  outcome?: ValidationStepOutcome;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class UploadEvidenceDto {
+  @IsEnum(['supporting', 'contradicting'])
+  stance: EvidenceStance;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  description: string;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  strength: number;
+
+  @IsOptional()
+  @IsInt()
+  step?: number;
+}
+
+export class AttachEvidenceDto extends UploadEvidenceDto {
+  @IsEnum(['jira_issue', 'servicenow_incident', 'link', 'note'])
+  kind: Exclude<EvidenceKind, 'file'>;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reference?: string;
+}
+
+export class CompleteValidationDto {
+  @IsEnum(['confirmed', 'partial', 'refuted'])
+  outcome: ValidationOutcome;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
 export class HypothesisResponseDto {
   id: number;
   hypothesisType: HypothesisType;
@@ -60,4 +121,10 @@ export class HypothesisResponseDto {
   guardrails: any;
   validationSteps: any[];
   predictedImpact: any;
+  validationProgress: ValidationStepProgress[] | null;
+  evidenceAttachments: EvidenceAttachment[] | null;
+  validationResults: any;
+  validationNotes: string | null;
+  validatedAt: Date | null;
+  validatedBy: number | null;
 }
@@ -0,0 +1,66 @@
+import { IsOptional, IsString, IsInt, MaxLength, Min, Max } from 'class-validator';
+import { GrangerTestResult, LagCorrelation } from '../interfaces/lag-analysis.interface';
+
+export class ScanLagRelationshipsDto {
+  @IsOptional()
+  @IsInt()
+  @Min(30)
+  @Max(365)
+  daysBack?: number = 90;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(30)
+  maxLagDays?: number = 7;
+}
+
+export class AnalyzeLagDto extends ScanLagRelationshipsDto {
+  @IsString()
+  @MaxLength(128)
+  seriesA: string;
+
+  @IsString()
+  @MaxLength(128)
+  seriesB: string;
+}
+
+export class GetLagRelationshipsQueryDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  series?: string;
+}
+
+export class LagAnalysisResponseDto {
+  seriesA: string;
+  seriesB: string;
+  windowStart: Date;
+  windowEnd: Date;
+  days: number;
+  correlations: LagCorrelation[];
+  best: LagCorrelation | null;
+  leader: string | null;
+  follower: string | null;
+  granger: GrangerTestResult | null;
+  significanceLevel: number;
+  significant: boolean;
+}
+
+export class LagScanJobResponseDto {
+  jobId: string;
+}
+
+export class SeriesRelationshipResponseDto {
+  id: number;
+  leaderSeries: string;
+  followerSeries: string;
+  lagDays: number;
+  correlation: number;
+  grangerFStatistic: number;
+  grangerPValue: number;
+  sampleDays: number;
+  windowStart: Date;
+  windowEnd: Date;
+  updatedAt: Date;
+}
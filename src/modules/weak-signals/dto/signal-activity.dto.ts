@@ -0,0 +1,69 @@
+import { IsOptional, IsString, IsInt, IsNotEmpty, MaxLength, Min, Max } from 'class-validator';
+import { SignalActivityType } from '../entities/signal-activity.entity';
+
+export class CreateCommentDto {
+  /**
+   * Comment text; mention users as @[Display Name](userId)
+   */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10000)
+  body: string;
+
+  /**
+   * Comment to reply to
+   */
+  @IsOptional()
+  @IsInt()
+  parentId?: number;
+}
+
+export class UpdateCommentDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10000)
+  body: string;
+}
+
+export class GetActivityQueryDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number = 50;
+
+  /**
+   * Only entries older than this entry, for paging back through the feed
+   */
+  @IsOptional()
+  @IsInt()
+  beforeId?: number;
+}
+
+export class LinkActionItemDto {
+  @IsInt()
+  actionItemId: number;
+}
+
+export class CommentResponseDto {
+  id: number;
+  weakSignalId: number | null;
+  hypothesisId: number | null;
+  parentId: number | null;
+  authorId: number;
+  body: string;
+  mentionedUserIds: number[];
+  editedAt: Date | null;
+  createdAt: Date;
+  replies: CommentResponseDto[];
+}
+
+export class ActivityResponseDto {
+  id: number;
+  weakSignalId: number | null;
+  hypothesisId: number | null;
+  activityType: SignalActivityType;
+  actorId: number | null;
+  details: Record<string, any> | null;
+  createdAt: Date;
+}
@@ -0,0 +1,40 @@
+import { CommentResponseDto, ActivityResponseDto } from './signal-activity.dto';
+import { CommentThreadNode } from '../services/signal-comment.service';
+import { SignalComment } from '../entities/signal-comment.entity';
+import { SignalActivity } from '../entities/signal-activity.entity';
+
+/**
+ * Response of a comment thread, shared by the weak signal and hypothesis endpoints
+ */
+export function mapToCommentResponseDto(node: CommentThreadNode): CommentResponseDto {
+  return {
+    ...mapCommentFields(node.comment),
+    replies: node.replies.map(reply => mapToCommentResponseDto(reply)),
+  };
+}
+
+export function mapToActivityResponseDto(activity: SignalActivity): ActivityResponseDto {
+  return {
+    id: activity.id,
+    weakSignalId: activity.weakSignalId,
+    hypothesisId: activity.hypothesisId,
+    activityType: activity.activityType,
+    actorId: activity.actorId,
+    details: activity.details,
+    createdAt: activity.createdAt,
+  };
+}
+
+function mapCommentFields(comment: SignalComment): Omit<CommentResponseDto, 'replies'> {
+  return {
+    id: comment.id,
+    weakSignalId: comment.weakSignalId,
+    hypothesisId: comment.hypothesisId,
+    parentId: comment.parentId,
+    authorId: comment.authorId,
+    body: comment.body,
+    mentionedUserIds: comment.mentionedUserIds || [],
+    editedAt: comment.editedAt,
+    createdAt: comment.createdAt,
+  };
+}
@@ -0,0 +1,33 @@
+import 'reflect-metadata';
+import { plainToInstance } from 'class-transformer';
+import { GetWeakSignalsQueryDto } from './weak-signal.dto';
+
+/**
+ * Query strings are converted the way the global ValidationPipe does it
+ */
+const toQuery = (query: Record<string, string>) =>
+  plainToInstance(GetWeakSignalsQueryDto, query, { enableImplicitConversion: true });
+
+describe('GetWeakSignalsQueryDto', () => {
+  it.each([
+    ['true', true],
+    ['false', false],
+  ])('should read includeInactive=%s as %s', (value, expected) => {
+    expect(toQuery({ includeInactive: value }).includeInactive).toBe(expected);
+  });
+
+  it('should leave inactive signals out by default', () => {
+    expect(toQuery({}).includeInactive).toBe(false);
+  });
+});
+
+describe('GetWeakSignalsQueryDto assignment and SLA filters', () => {
+  it.each(['assignedToMe', 'slaBreached'] as const)('should read %s=false as false', field => {
+    expect(toQuery({ [field]: 'false' })[field]).toBe(false);
+    expect(toQuery({ [field]: 'true' })[field]).toBe(true);
+  });
+
+  it('should not filter on breached SLAs unless asked', () => {
+    expect(toQuery({}).slaBreached).toBeUndefined();
+  });
+});
@@ -1,5 +1,9 @@
-import { IsOptional, IsString, IsNumber, IsEnum, Min, Max } from 'class-validator';
+import { IsOptional, IsString, IsNumber, IsInt, IsEnum, IsBoolean, IsDateString, MaxLength, Min, Max, ValidateIf } from 'class-validator';
+import { Transform } from 'class-transformer';
 import { SignalType, SignalSeverity, SignalStatus } from '../entities/weak-signal.entity';
+import { SignalForecast } from '../interfaces/forecast.interface';
+import { SlaPolicy, SlaStatus } from '../interfaces/sla.interface';
+import { WeakSignalSortField } from '../interfaces/weak-signal-query.interface';
 
 export class DetectWeakSignalsDto {
   @IsOptional()
@@ -9,6 +13,12 @@ export class DetectWeakSignalsDto {
   daysBack?: number = 90;
 }
 
+export class DetectionJobResponseDto {
+  jobId: string;
+  detectionRunId: number;
+  status: string;
+}
+
 export class GetWeakSignalsQueryDto {
   @IsOptional()
   @IsEnum(['pattern_recurring', 'trend_acceleration', 'anomaly_detection', 'correlation_cluster'])
@@ -19,24 +29,130 @@ export class GetWeakSignalsQueryDto {
   severity?: SignalSeverity;
 
   @IsOptional()
-  @IsEnum(['new', 'investigating', 'validated', 'dismissed', 'escalated'])
+  @IsEnum(['new', 'investigating', 'validated', 'dismissed', 'escalated', 'resolved', 'expired'])
   status?: SignalStatus;
 
+  @IsOptional()
+  @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+  @IsBoolean()
+  includeInactive?: boolean = false;
+
   @IsOptional()
   @IsNumber()
   @Min(0)
   @Max(100)
   minConfidence?: number;
 
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
   @IsOptional()
   @IsNumber()
   @Min(1)
   @Max(100)
   limit?: number = 50;
+
+  @IsOptional()
+  @IsEnum(['detectedAt', 'lastDetectedAt', 'severity', 'confidence', 'triage'])
+  sortBy?: WeakSignalSortField = 'detectedAt';
+
+  @IsOptional()
+  @IsEnum(['ASC', 'DESC'])
+  sortOrder?: 'ASC' | 'DESC' = 'DESC';
+
+  /**
+   * Matched against title, description and explainability
+   */
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  search?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  category?: string;
+
+  /**
+   * Entity type from affectedEntities, e.g. metric, team or system
+   */
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  affectedEntityType?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  affectedEntityId?: string;
+
+  /**
+   * Source of the evidence behind the signal, e.g. jira, servicenow or slack
+   */
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  source?: string;
+
+  @IsOptional()
+  @IsDateString()
+  detectedFrom?: string;
+
+  @IsOptional()
+  @IsDateString()
+  detectedTo?: string;
+
+  /**
+   * Only signals assigned to the current user; takes precedence over assigneeId
+   */
+  @IsOptional()
+  @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+  @IsBoolean()
+  assignedToMe?: boolean = false;
+
+  @IsOptional()
+  @IsInt()
+  assigneeId?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  team?: string;
+
+  @IsOptional()
+  @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+  @IsBoolean()
+  slaBreached?: boolean;
+}
+
+export class AssignWeakSignalDto {
+  /**
+   * User to assign, or null to clear the assignee
+   */
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsInt()
+  assigneeId?: number | null;
+
+  /**
+   * Team to assign, or null to clear the team
+   */
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsString()
+  @MaxLength(100)
+  team?: string | null;
+}
+
+export class SlaPolicyResponseDto {
+  enabled: boolean;
+  hoursBySeverity: SlaPolicy;
 }
 
 export class UpdateWeakSignalStatusDto {
-  @IsEnum(['new', 'investigating', 'validated', 'dismissed', 'escalated'])
+  @IsEnum(['new', 'investigating', 'validated', 'dismissed', 'escalated', 'resolved'])
   status: SignalStatus;
 
   @IsOptional()
@@ -53,15 +169,79 @@ export class WeakSignalResponseDto {
   confidenceScore: number;
   status: SignalStatus;
   detectedAt: Date;
+  lastDetectedAt: Date | null;
+  detectionCount: number;
+  missedRuns: number;
+  resolvedAt: Date | null;
   category: string | null;
   affectedEntities: any[];
   explainability: any;
   patternData: any;
   trendData: any;
+  forecast: SignalForecast | null;
+  breachProbability: number | null;
+  expectedBreachAt: Date | null;
+  assigneeId: number | null;
+  assignedTeam: string | null;
+  assignedAt: Date | null;
+  triagedAt: Date | null;
+  slaDueAt: Date | null;
+  slaBreachedAt: Date | null;
+  slaStatus: SlaStatus | null;
   sourceSignals: any[];
   metadata: any;
 }
 
+export class WeakSignalHistoryEntryDto {
+  id: number;
+  detectionRunId: number | null;
+  changeType: string;
+  snapshot: any;
+  changes: any[];
+  reason: string | null;
+  recordedAt: Date;
+}
+
+export class GetLifecycleTransitionsQueryDto {
+  @IsOptional()
+  @IsNumber()
+  detectionRunId?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(500)
+  limit?: number = 100;
+}
+
+export class LifecycleTransitionDto {
+  id: number;
+  weakSignalId: number;
+  detectionRunId: number | null;
+  transition: string;
+  previousStatus: string | null;
+  newStatus: string | null;
+  reason: string | null;
+  recordedAt: Date;
+}
+
+export class FeedbackWeightDto {
+  dimension: string;
+  key: string;
+  validatedCount: number;
+  dismissedCount: number;
+  weight: number;
+  suppressed: boolean;
+  updatedAt: Date;
+}
+
+export class FeedbackWeightsResponseDto {
+  enabled: boolean;
+  typeWeights: FeedbackWeightDto[];
+  sourceWeights: FeedbackWeightDto[];
+  suppressedFingerprints: FeedbackWeightDto[];
+}
+
 export class WeakSignalStatisticsDto {
   total: number;
   byType: Record<SignalType, number>;
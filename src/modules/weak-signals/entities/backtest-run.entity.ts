@@ -0,0 +1,130 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { DetectionSettings } from '../interfaces/detection-settings.interface';
+
+export type BacktestRunStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface BacktestMetrics {
+  emitted: number; // distinct signals emitted across all replay dates
+  truePositives: number; // emitted signals matching a validated signal
+  falsePositives: number; // emitted signals matching a dismissed signal
+  unlabeled: number; // emitted signals matching no labelled signal
+  validatedLabels: number;
+  detectedLabels: number; // validated signals found by at least one emitted signal
+  precision: number | null;
+  recall: number | null;
+  avgLeadTimeHours: number | null; // positive when the replay found the signal before analysts did
+  medianLeadTimeHours: number | null;
+}
+
+export interface BacktestResults {
+  overall: BacktestMetrics;
+  byDetector: Record<string, BacktestMetrics>;
+  bySource: Record<string, BacktestMetrics>;
+  replayDates: string[];
+}
+
+@Entity('weak_signal_backtest_runs')
+@Index(['tenantId', 'createdAt'])
+export class BacktestRun {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  @Index()
+  tenantId: number;
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    default: 'running',
+  })
+  status: BacktestRunStatus;
+
+  @Column({
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+  })
+  name: string | null;
+
+  @Column({
+    type: 'timestamp',
+    comment: 'First date detection is replayed as of',
+  })
+  fromDate: Date;
+
+  @Column({
+    type: 'timestamp',
+    comment: 'Last date detection is replayed as of',
+  })
+  toDate: Date;
+
+  @Column({
+    type: 'integer',
+    comment: 'Days between replay dates',
+  })
+  stepDays: number;
+
+  @Column({
+    type: 'integer',
+    comment: 'Number of days analyzed backwards from each replay date',
+  })
+  daysAnalyzed: number;
+
+  @Column({
+    type: 'json',
+    comment: 'Detection settings used for the replay',
+  })
+  settings: DetectionSettings;
+
+  @Column({
+    type: 'integer',
+    default: 0,
+  })
+  labelCount: number;
+
+  @Column({
+    type: 'json',
+    nullable: true,
+    comment: 'Precision, recall and lead time overall, per detector and per source',
+  })
+  results: BacktestResults | null;
+
+  @Column({
+    type: 'text',
+    nullable: true,
+  })
+  errorMessage: string | null;
+
+  @Column({
+    type: 'integer',
+    comment: 'Duration in milliseconds',
+    nullable: true,
+  })
+  durationMs: number | null;
+
+  @Column({
+    type: 'integer',
+    nullable: true,
+  })
+  createdBy: number | null;
+
+  @Column({
+    type: 'timestamp',
+    nullable: true,
+  })
+  completedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
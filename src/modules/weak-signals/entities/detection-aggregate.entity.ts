@@ -0,0 +1,52 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * series: a volume series (jira, slack, timeline_high_impact, ...) or a message source for keyword mentions
+ * keyword: empty for volume counts, the tracked keyword for mention counts
+ */
+@Entity('weak_signal_detection_aggregates')
+@Index(['tenantId', 'series', 'keyword', 'day'], { unique: true })
+@Index(['tenantId', 'day'])
+export class DetectionAggregate {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  @Index()
+  tenantId: number;
+
+  @Column({
+    type: 'varchar',
+    length: 10,
+    comment: 'UTC day of the source date (YYYY-MM-DD)',
+  })
+  day: string;
+
+  @Column({
+    type: 'varchar',
+    length: 32,
+  })
+  series: string;
+
+  @Column({
+    type: 'varchar',
+    length: 64,
+    default: '',
+  })
+  keyword: string;
+
+  @Column({
+    type: 'integer',
+    default: 0,
+  })
+  count: number;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
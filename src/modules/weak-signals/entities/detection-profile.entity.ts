@@ -0,0 +1,82 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import {
+  DetectorName,
+  PatternThresholds,
+  SeverityScoring,
+  AccelerationFactors,
+  SimilarityThresholds,
+} from '../interfaces/detection-settings.interface';
+
+/**
+ * Per-tenant overrides for weak signal detection. Null columns fall back to the defaults.
+ */
+@Entity('weak_signal_detection_profiles')
+@Index(['tenantId'], { unique: true })
+export class DetectionProfile {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  tenantId: number;
+
+  @Column({
+    type: 'json',
+    nullable: true,
+    comment: 'Detectors that run for this tenant',
+  })
+  enabledDetectors: DetectorName[] | null;
+
+  @Column({
+    type: 'json',
+    nullable: true,
+    comment: 'Minimum occurrences and spike ratios for recurring patterns',
+  })
+  patternThresholds: Partial<PatternThresholds> | null;
+
+  @Column({
+    type: 'json',
+    nullable: true,
+    comment: 'Keywords tracked for communication spikes',
+  })
+  keywords: string[] | null;
+
+  @Column({
+    type: 'json',
+    nullable: true,
+    comment: 'Score thresholds used to grade pattern severity',
+  })
+  severityScoring: Partial<SeverityScoring> | null;
+
+  @Column({
+    type: 'json',
+    nullable: true,
+    comment: 'Acceleration factors used to report and grade trends',
+  })
+  accelerationFactors: Partial<AccelerationFactors> | null;
+
+  @Column({
+    type: 'json',
+    nullable: true,
+    comment: 'Similarity thresholds per source for grouping recurring items',
+  })
+  similarityThresholds: SimilarityThresholds | null;
+
+  @Column({
+    type: 'integer',
+    nullable: true,
+  })
+  updatedBy: number | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
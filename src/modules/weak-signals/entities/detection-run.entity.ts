@@ -7,7 +7,9 @@ import {
   Index,
 } from 'typeorm';
 
-export type DetectionRunStatus = 'running' | 'completed' | 'failed';
+export type DetectionRunStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type DetectionRunMode = 'full' | 'incremental';
 
 @Entity('weak_signal_detection_runs')
 @Index(['tenantId', 'status', 'startedAt'])
@@ -27,6 +29,62 @@ export class DetectionRun {
   })
   status: DetectionRunStatus;
 
+  @Column({
+    type: 'varchar',
+    length: 20,
+    default: 'full',
+    comment: 'Whether source data was rescanned or read from the rolling aggregates',
+  })
+  mode: DetectionRunMode;
+
+  @Column({
+    type: 'timestamp',
+    nullable: true,
+    comment: 'Ingestion watermark the aggregates were advanced to (incremental runs)',
+  })
+  watermark: Date | null;
+
+  @Column({
+    type: 'integer',
+    default: 0,
+    comment: 'Source rows read by this run',
+  })
+  recordsProcessed: number;
+
+  @Column({
+    type: 'varchar',
+    length: 64,
+    nullable: true,
+    comment: 'Queue job currently executing this run',
+  })
+  jobId: string | null;
+
+  @Column({
+    type: 'integer',
+    default: 0,
+    comment: 'Progress in percent',
+  })
+  progress: number;
+
+  @Column({
+    type: 'varchar',
+    length: 32,
+    nullable: true,
+  })
+  stage: string | null;
+
+  @Column({
+    type: 'integer',
+    default: 0,
+  })
+  attempts: number;
+
+  @Column({
+    type: 'timestamp',
+    nullable: true,
+  })
+  cancelRequestedAt: Date | null;
+
   @Column({
     type: 'timestamp',
   })
@@ -67,6 +125,18 @@ export class DetectionRun {
     bySource: Record<string, number>;
   };
 
+  @Column({
+    type: 'json',
+    nullable: true,
+    comment: 'Lifecycle transitions applied after detection',
+  })
+  lifecycleSummary: {
+    resolved: number;
+    expired: number;
+    reopened: number;
+    decayed: number;
+  } | null;
+
   @Column({
     type: 'text',
     nullable: true,
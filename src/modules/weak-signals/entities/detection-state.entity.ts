@@ -0,0 +1,64 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { GroupedSource } from '../interfaces/detection-aggregate.interface';
+
+export interface StoredPatternItem {
+  id: string;
+  text: string;
+  date: string;
+}
+
+/**
+ * Watermark and pattern candidates of the rolling aggregates kept for incremental detection
+ */
+@Entity('weak_signal_detection_state')
+export class DetectionState {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  @Index({ unique: true })
+  tenantId: number;
+
+  @Column({
+    type: 'timestamp',
+    comment: 'Ingestion time (createdAt) up to which source rows are aggregated',
+  })
+  watermark: Date;
+
+  @Column({
+    type: 'integer',
+    comment: 'Window the aggregates were built for',
+  })
+  daysBack: number;
+
+  @Column({
+    type: 'json',
+    comment: 'Keywords the mention counts were built for',
+  })
+  keywords: string[];
+
+  @Column({
+    type: 'json',
+    comment: 'Jira, ServiceNow and timeline items in the window, regrouped on every run',
+  })
+  patternItems: Partial<Record<GroupedSource, StoredPatternItem[]>>;
+
+  @Column({
+    type: 'timestamp',
+    comment: 'Last full rebuild from the source tables',
+  })
+  rebuiltAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -12,6 +12,39 @@ import { WeakSignal } from './weak-signal.entity';
 
 export type HypothesisStatus = 'generated' | 'investigating' | 'validated' | 'refuted' | 'inconclusive';
 export type HypothesisType = 'correlation' | 'causation_candidate' | 'pattern_explanation' | 'prediction';
+export type ValidationOutcome = 'confirmed' | 'partial' | 'refuted';
+export type ValidationStepStatus = 'pending' | 'in_progress' | 'completed' | 'skipped';
+export type ValidationStepOutcome = 'supports' | 'contradicts' | 'neutral';
+export type EvidenceKind = 'jira_issue' | 'servicenow_incident' | 'file' | 'link' | 'note';
+export type EvidenceStance = 'supporting' | 'contradicting';
+
+export interface ValidationStepProgress {
+  step: number;
+  status: ValidationStepStatus;
+  outcome: ValidationStepOutcome | null;
+  notes: string | null;
+  updatedBy: number | null;
+  updatedAt: string | null;
+}
+
+/**
+ * Evidence attached by an analyst during validation. Jira issues and incidents are
+ * referenced by key/number, uploaded files by their storage key.
+ */
+export interface EvidenceAttachment {
+  id: string;
+  kind: EvidenceKind;
+  stance: EvidenceStance;
+  reference: string | null;
+  title: string;
+  description: string;
+  strength: number; // 0-100
+  step: number | null;
+  contentType: string | null;
+  size: number | null;
+  addedBy: number | null;
+  addedAt: string;
+}
 
 @Entity('hypotheses')
 @Index(['tenantId', 'status', 'generatedAt'])
@@ -193,12 +226,26 @@ export class Hypothesis {
     comment: 'Validation results',
   })
   validationResults: {
-    outcome: 'confirmed' | 'partial' | 'refuted';
+    outcome: ValidationOutcome;
     evidence: string[];
     updatedConfidence: number;
     notes: string;
   } | null;
 
+  @Column({
+    type: 'json',
+    nullable: true,
+    comment: 'Progress through each validation step',
+  })
+  validationProgress: ValidationStepProgress[] | null;
+
+  @Column({
+    type: 'json',
+    nullable: true,
+    comment: 'Evidence attached by analysts during validation',
+  })
+  evidenceAttachments: EvidenceAttachment[] | null;
+
   @CreateDateColumn()
   createdAt: Date;
 
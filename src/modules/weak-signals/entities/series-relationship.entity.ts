@@ -0,0 +1,85 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * A significant lead/lag relationship between two daily series of a tenant:
+ * changes in the leader series tend to show up in the follower series lagDays later.
+ */
+@Entity('weak_signal_series_relationships')
+@Index(['tenantId', 'leaderSeries', 'followerSeries'], { unique: true })
+export class SeriesRelationship {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  @Index()
+  tenantId: number;
+
+  @Column({
+    type: 'varchar',
+    length: 128,
+  })
+  leaderSeries: string;
+
+  @Column({
+    type: 'varchar',
+    length: 128,
+  })
+  followerSeries: string;
+
+  @Column({
+    type: 'integer',
+    comment: 'Days by which the follower series trails the leader series',
+  })
+  lagDays: number;
+
+  @Column({
+    type: 'decimal',
+    precision: 5,
+    scale: 4,
+    comment: 'Cross-correlation of the differenced series at lagDays',
+  })
+  correlation: number;
+
+  @Column({
+    type: 'decimal',
+    precision: 12,
+    scale: 4,
+  })
+  grangerFStatistic: number;
+
+  @Column({
+    type: 'decimal',
+    precision: 10,
+    scale: 8,
+    comment: 'Probability that the leader adds no predictive power over the follower history',
+  })
+  grangerPValue: number;
+
+  @Column({
+    type: 'integer',
+  })
+  sampleDays: number;
+
+  @Column({
+    type: 'timestamp',
+  })
+  windowStart: Date;
+
+  @Column({
+    type: 'timestamp',
+  })
+  windowEnd: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
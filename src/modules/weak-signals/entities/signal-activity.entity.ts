@@ -0,0 +1,66 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export type SignalActivityType =
+  | 'status_changed'
+  | 'assignment_changed'
+  | 'hypothesis_added'
+  | 'hypothesis_status_changed'
+  | 'action_linked'
+  | 'comment_added'
+  | 'comment_edited';
+
+/**
+ * Append-only feed entry for something that happened to a weak signal or one of its hypotheses.
+ * Entries are never updated or deleted.
+ */
+@Entity('weak_signal_activities')
+@Index(['tenantId', 'weakSignalId', 'createdAt'])
+@Index(['tenantId', 'hypothesisId', 'createdAt'])
+export class SignalActivity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  @Index()
+  tenantId: number;
+
+  @Column({
+    type: 'integer',
+    nullable: true,
+  })
+  weakSignalId: number | null;
+
+  @Column({
+    type: 'integer',
+    nullable: true,
+  })
+  hypothesisId: number | null;
+
+  @Column({
+    type: 'varchar',
+    length: 50,
+  })
+  activityType: SignalActivityType;
+
+  @Column({
+    type: 'integer',
+    nullable: true,
+    comment: 'User who caused the activity; null for automated changes',
+  })
+  actorId: number | null;
+
+  @Column({
+    type: 'json',
+    nullable: true,
+  })
+  details: Record<string, any> | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
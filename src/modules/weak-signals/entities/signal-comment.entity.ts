@@ -0,0 +1,71 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * A comment on a weak signal or one of its hypotheses. Replies point at their parent comment,
+ * so each top-level comment starts a thread.
+ */
+@Entity('weak_signal_comments')
+@Index(['tenantId', 'weakSignalId', 'createdAt'])
+@Index(['tenantId', 'hypothesisId', 'createdAt'])
+export class SignalComment {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  @Index()
+  tenantId: number;
+
+  @Column({
+    type: 'integer',
+    nullable: true,
+    comment: 'Signal the comment belongs to; also set for comments on its hypotheses',
+  })
+  weakSignalId: number | null;
+
+  @Column({
+    type: 'integer',
+    nullable: true,
+  })
+  hypothesisId: number | null;
+
+  @Column({
+    type: 'integer',
+    nullable: true,
+    comment: 'Comment this one replies to',
+  })
+  parentId: number | null;
+
+  @Column()
+  authorId: number;
+
+  @Column({
+    type: 'text',
+  })
+  body: string;
+
+  @Column({
+    type: 'json',
+    nullable: true,
+    comment: 'Users of the tenant mentioned in the body',
+  })
+  mentionedUserIds: number[] | null;
+
+  @Column({
+    type: 'timestamp',
+    nullable: true,
+  })
+  editedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,72 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * type: pattern type (keyword_spike, issue_recurrence, ...) or signal type for non-pattern signals
+ * source: evidence source (jira, slack, ...)
+ * fingerprint: a single signal identity, used to suppress repeatedly dismissed signals
+ */
+export type FeedbackDimension = 'type' | 'source' | 'fingerprint';
+
+@Entity('weak_signal_feedback_weights')
+@Index(['tenantId', 'dimension', 'key'], { unique: true })
+export class SignalFeedbackWeight {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  @Index()
+  tenantId: number;
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+  })
+  dimension: FeedbackDimension;
+
+  @Column({
+    type: 'varchar',
+    length: 128,
+  })
+  key: string;
+
+  @Column({
+    type: 'integer',
+    default: 0,
+  })
+  validatedCount: number;
+
+  @Column({
+    type: 'integer',
+    default: 0,
+  })
+  dismissedCount: number;
+
+  @Column({
+    type: 'decimal',
+    precision: 5,
+    scale: 3,
+    default: 1,
+    comment: 'Multiplier applied to the confidence of matching signals',
+  })
+  weight: number;
+
+  @Column({
+    type: 'boolean',
+    default: false,
+    comment: 'Whether matching signals are no longer surfaced',
+  })
+  suppressed: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,81 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { WeakSignal, SignalSeverity } from './weak-signal.entity';
+
+export type SignalHistoryChangeType = 'created' | 'updated' | 'unchanged' | 'resolved' | 'expired' | 'reopened';
+
+@Entity('weak_signal_history')
+@Index(['tenantId', 'weakSignalId', 'recordedAt'])
+@Index(['tenantId', 'detectionRunId'])
+export class WeakSignalHistory {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  @Index()
+  tenantId: number;
+
+  @Column()
+  weakSignalId: number;
+
+  @ManyToOne(() => WeakSignal, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'weakSignalId' })
+  weakSignal: WeakSignal;
+
+  @Column({
+    type: 'integer',
+    nullable: true,
+    comment: 'Detection run that produced this entry; null for manual detections',
+  })
+  detectionRunId: number | null;
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+  })
+  changeType: SignalHistoryChangeType;
+
+  @Column({
+    type: 'json',
+    comment: 'State of the signal after this detection pass',
+  })
+  snapshot: {
+    severity: SignalSeverity;
+    confidenceScore: number;
+    occurrences: number | null;
+    evidenceCount: number;
+    currentValue: number | null;
+  };
+
+  @Column({
+    type: 'json',
+    comment: 'Fields that changed compared to the previous detection pass',
+  })
+  changes: {
+    field: string;
+    previous: any;
+    current: any;
+  }[];
+
+  @Column({
+    type: 'text',
+    nullable: true,
+    comment: 'Why a lifecycle transition happened',
+  })
+  reason: string | null;
+
+  @Column({
+    type: 'timestamp',
+  })
+  recordedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -6,14 +6,19 @@ import {
   UpdateDateColumn,
   Index,
 } from 'typeorm';
+import { SignalForecast } from '../interfaces/forecast.interface';
 
 export type SignalType = 'pattern_recurring' | 'trend_acceleration' | 'anomaly_detection' | 'correlation_cluster';
 export type SignalSeverity = 'critical' | 'high' | 'medium' | 'low';
-export type SignalStatus = 'new' | 'investigating' | 'validated' | 'dismissed' | 'escalated';
+export type SignalStatus = 'new' | 'investigating' | 'validated' | 'dismissed' | 'escalated' | 'resolved' | 'expired';
 
 @Entity('weak_signals')
 @Index(['tenantId', 'status', 'detectedAt'])
 @Index(['tenantId', 'signalType', 'severity'])
+@Index(['tenantId', 'fingerprint'])
+@Index(['tenantId', 'assigneeId'])
+@Index(['tenantId', 'status', 'slaDueAt'])
+@Index(['title', 'description', 'explainabilityText'], { fulltext: true })
 export class WeakSignal {
   @PrimaryGeneratedColumn()
   id: number;
@@ -28,6 +33,14 @@ export class WeakSignal {
   })
   signalType: SignalType;
 
+  @Column({
+    type: 'varchar',
+    length: 64,
+    nullable: true,
+    comment: 'Stable identity used to merge re-detections across runs',
+  })
+  fingerprint: string | null;
+
   @Column({
     type: 'varchar',
     length: 255,
@@ -61,6 +74,22 @@ export class WeakSignal {
   })
   status: SignalStatus;
 
+  @Column({
+    type: 'decimal',
+    precision: 5,
+    scale: 2,
+    nullable: true,
+    comment: 'Confidence at the most recent detection, before decay',
+  })
+  detectedConfidenceScore: number | null;
+
+  @Column({
+    type: 'integer',
+    default: 0,
+    comment: 'Consecutive detection runs in which the signal was not re-detected',
+  })
+  missedRuns: number;
+
   @Column({
     type: 'json',
     comment: 'Source signals that contributed to this weak signal',
@@ -99,6 +128,29 @@ export class WeakSignal {
     timeWindow: string;
   } | null;
 
+  @Column({
+    type: 'json',
+    comment: 'Forecast bands and threshold breach estimate of the series behind the signal',
+    nullable: true,
+  })
+  forecast: SignalForecast | null;
+
+  @Column({
+    type: 'decimal',
+    precision: 5,
+    scale: 4,
+    nullable: true,
+    comment: 'Probability 0-1 that the metric reaches its critical threshold within the forecast horizon',
+  })
+  breachProbability: number | null;
+
+  @Column({
+    type: 'timestamp',
+    nullable: true,
+    comment: 'When the forecast expects the metric to reach its critical threshold',
+  })
+  expectedBreachAt: Date | null;
+
   @Column({
     type: 'json',
     comment: 'Explainability metadata - why this signal was detected',
@@ -115,6 +167,18 @@ export class WeakSignal {
     contextualFactors: string[];
   };
 
+  @Column({
+    type: 'text',
+    nullable: true,
+    asExpression: 'CAST(explainability AS CHAR)',
+    generatedType: 'STORED',
+    insert: false,
+    update: false,
+    select: false,
+    comment: 'Explainability as text, so it can be part of the full-text search index',
+  })
+  explainabilityText: string | null;
+
   @Column({
     type: 'json',
     comment: 'Affected systems and entities',
@@ -147,6 +211,20 @@ export class WeakSignal {
   @Index()
   detectedAt: Date;
 
+  @Column({
+    type: 'timestamp',
+    nullable: true,
+    comment: 'When the signal was most recently re-detected',
+  })
+  lastDetectedAt: Date | null;
+
+  @Column({
+    type: 'integer',
+    default: 1,
+    comment: 'Number of detection passes that produced this signal',
+  })
+  detectionCount: number;
+
   @Column({
     type: 'timestamp',
     nullable: true,
@@ -168,6 +246,13 @@ export class WeakSignal {
   })
   escalatedAt: Date | null;
 
+  @Column({
+    type: 'timestamp',
+    nullable: true,
+    comment: 'When the signal was auto-resolved or expired',
+  })
+  resolvedAt: Date | null;
+
   @Column({
     type: 'text',
     nullable: true,
@@ -175,6 +260,55 @@ export class WeakSignal {
   })
   investigationNotes: string | null;
 
+  @Column({
+    type: 'integer',
+    nullable: true,
+    comment: 'User responsible for triaging the signal',
+  })
+  assigneeId: number | null;
+
+  @Column({
+    type: 'varchar',
+    length: 100,
+    nullable: true,
+    comment: 'Team responsible for triaging the signal',
+  })
+  assignedTeam: string | null;
+
+  @Column({
+    type: 'timestamp',
+    nullable: true,
+  })
+  assignedAt: Date | null;
+
+  @Column({
+    type: 'integer',
+    nullable: true,
+    comment: 'User who made the current assignment',
+  })
+  assignedBy: number | null;
+
+  @Column({
+    type: 'timestamp',
+    nullable: true,
+    comment: 'When the signal last left the new status',
+  })
+  triagedAt: Date | null;
+
+  @Column({
+    type: 'timestamp',
+    nullable: true,
+    comment: 'Deadline for the signal to leave the new status, from the triage SLA of its severity',
+  })
+  slaDueAt: Date | null;
+
+  @Column({
+    type: 'timestamp',
+    nullable: true,
+    comment: 'When the signal was found still new after its SLA deadline',
+  })
+  slaBreachedAt: Date | null;
+
   @CreateDateColumn()
   createdAt: Date;
 
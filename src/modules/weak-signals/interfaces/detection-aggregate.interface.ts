@@ -0,0 +1,35 @@
+import { SimilarityItem } from './similarity.interface';
+
+/**
+ * Daily volume series kept by the incremental detection mode
+ */
+export type VolumeSeries =
+  | 'jira'
+  | 'jira_critical'
+  | 'servicenow'
+  | 'servicenow_p1'
+  | 'slack'
+  | 'teams'
+  | 'gmail'
+  | 'outlook'
+  | 'timeline_high_impact';
+
+export type MessageSource = 'slack' | 'teams' | 'gmail' | 'outlook';
+
+export type GroupedSource = 'jira' | 'servicenow' | 'timeline';
+
+/**
+ * Counts keyed by UTC day (YYYY-MM-DD)
+ */
+export type DailyCounts = Record<string, number>;
+
+/**
+ * Rolling per-tenant aggregates that stand in for raw rows during incremental detection
+ */
+export interface DetectionAggregates {
+  windowStart: Date;
+  asOf: Date;
+  volumes: Partial<Record<VolumeSeries, DailyCounts>>;
+  keywordMentions: Record<string, Partial<Record<MessageSource, DailyCounts>>>;
+  patternGroups: Partial<Record<GroupedSource, Record<string, SimilarityItem[]>>>;
+}
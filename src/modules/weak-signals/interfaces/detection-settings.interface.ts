@@ -0,0 +1,36 @@
+export type DetectorName = 'pattern' | 'trend' | 'anomaly' | 'correlation';
+
+export interface PatternThresholds {
+  minIssueOccurrences: number; // similar Jira issues needed for a recurrence
+  minIncidentOccurrences: number; // similar ServiceNow incidents needed for a recurrence
+  minTimelineOccurrences: number; // similar timeline events needed for a recurrence
+  minKeywordMentions: number; // mentions per source before a keyword is analyzed
+  minRecentKeywordMentions: number; // mentions in the last 7 days needed for a spike
+  keywordSpikeRatio: number; // recent rate vs historical rate that counts as a spike
+}
+
+export interface SeverityScoring {
+  criticalScore: number;
+  highScore: number;
+  mediumScore: number;
+  recurrenceWeight: number; // extra points for recurring issues and incidents
+}
+
+export interface AccelerationFactors {
+  minFactor: number; // below this a trend is not reported
+  minChangeRate: number; // percentage change from baseline below which a trend is not reported
+  mediumFactor: number;
+  highFactor: number;
+  criticalFactor: number;
+}
+
+export type SimilarityThresholds = Partial<Record<'jira' | 'servicenow' | 'timeline', number>>;
+
+export interface DetectionSettings {
+  enabledDetectors: DetectorName[];
+  patternThresholds: PatternThresholds;
+  keywords: string[];
+  severityScoring: SeverityScoring;
+  accelerationFactors: AccelerationFactors;
+  similarityThresholds: SimilarityThresholds; // missing sources use the similarity backend defaults
+}
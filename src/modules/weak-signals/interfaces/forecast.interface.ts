@@ -0,0 +1,34 @@
+export type ForecastModelName = 'holt_linear' | 'holt_winters' | 'arima_lite';
+
+/**
+ * Critical zone of a metric, as in MetricDefinition.thresholds.critical.
+ * A value is critical when it lies within [min, max]; a missing bound is open.
+ */
+export interface CriticalThreshold {
+  min?: number;
+  max?: number;
+}
+
+export interface ForecastPoint {
+  timestamp: string;
+  mean: number;
+  lower80: number;
+  upper80: number;
+  lower95: number;
+  upper95: number;
+  breachProbability: number | null;
+}
+
+export interface SignalForecast {
+  metricKey: string;
+  model: ForecastModelName;
+  generatedAt: string;
+  stepDays: number;
+  fitRmse: number; // one-step-ahead in-sample error of the selected model
+  points: ForecastPoint[];
+  threshold: CriticalThreshold | null;
+  breachProbability: number | null; // highest per-step probability of being in the critical zone
+  expectedBreachAt: string | null;
+  timeToBreachDays: number | null;
+  predictedNextOccurrence: string | null; // recurring patterns only
+}
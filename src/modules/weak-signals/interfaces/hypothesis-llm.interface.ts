@@ -0,0 +1,61 @@
+import { Hypothesis, HypothesisType } from '../entities/hypothesis.entity';
+
+export type HypothesisProviderName = 'openai' | 'stub';
+
+export interface HypothesisPromptMessage {
+  role: 'system' | 'user';
+  content: string;
+}
+
+export interface HypothesisLlmRequest {
+  tenantId: number;
+  hypothesisType: HypothesisType;
+  signal: {
+    id: number;
+    title: string;
+    description: string;
+    signalType: string;
+    severity: string;
+    category: string | null;
+  };
+  context: Hypothesis['context'];
+  messages: HypothesisPromptMessage[];
+}
+
+/**
+ * Structured output expected from the model. Everything else on the hypothesis
+ * (context, severity, affected areas, timestamps) comes from the signal itself.
+ */
+export interface HypothesisDraft {
+  hypothesis: string;
+  confidence: number;
+  reasoningSteps: Hypothesis['reasoning']['reasoningSteps'];
+  alternatives: string[];
+  limitations: string[];
+  supportingEvidence: Hypothesis['supportingEvidence'];
+  guardrails: Hypothesis['guardrails'];
+  validationSteps: Hypothesis['validationSteps'];
+  predictedImpact?: {
+    potentialConsequences: string[];
+    mitigationSuggestions: string[];
+  };
+}
+
+export interface HypothesisLlmProvider {
+  readonly name: HypothesisProviderName;
+
+  /**
+   * Whether the provider can be used for the tenant, e.g. the model provider chosen by the tenant is configured
+   */
+  isAvailable(tenantId: number): Promise<boolean>;
+
+  /**
+   * Model identifier recorded in reasoning.modelUsed
+   */
+  getModelName(tenantId: number): Promise<string>;
+
+  /**
+   * Return the raw completion for the request, expected to be a single JSON object
+   */
+  complete(request: HypothesisLlmRequest): Promise<string>;
+}
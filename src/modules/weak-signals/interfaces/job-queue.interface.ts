@@ -0,0 +1,86 @@
+export type JobQueueDriverName = 'redis' | 'memory';
+
+export type DetectionJobType = 'detection' | 'hypothesis_generation' | 'backtest' | 'lag_scan';
+
+export interface QueueJob {
+  id: string;
+  type: DetectionJobType;
+  tenantId: number;
+  payload: Record<string, any>;
+  attempts: number; // attempts started so far
+  maxAttempts: number;
+  availableAt: number; // epoch ms before which the job is not handed out
+  enqueuedAt: number;
+}
+
+/**
+ * Storage for queued jobs, cancellation flags and per-tenant locks.
+ * Every operation must be atomic across processes for drivers shared between instances.
+ */
+export interface JobQueueDriver {
+  readonly name: JobQueueDriverName;
+
+  /**
+   * Whether the driver can be used in the current environment
+   */
+  isAvailable(): boolean;
+
+  enqueue(job: QueueJob): Promise<void>;
+
+  /**
+   * Hand out the next due job. Reserved jobs that are not completed or released within
+   * visibilityMs are handed out again, so jobs of crashed workers are not lost.
+   */
+  reserve(visibilityMs: number): Promise<QueueJob | null>;
+
+  /**
+   * Push the visibility deadline of a job that is still reserved to visibilityMs from now,
+   * so that long runs are not handed out again. Returns false if it is no longer reserved.
+   */
+  extendReservation(jobId: string, visibilityMs: number): Promise<boolean>;
+
+  /**
+   * Put a reserved job back on the queue, due after delayMs
+   */
+  release(job: QueueJob, delayMs: number): Promise<void>;
+
+  /**
+   * Forget a reserved job after it finished, failed for good or was cancelled
+   */
+  complete(jobId: string): Promise<void>;
+
+  /**
+   * Remove a job that has not been handed out yet. Returns false if it is not waiting.
+   */
+  remove(jobId: string): Promise<boolean>;
+
+  requestCancel(jobId: string): Promise<void>;
+
+  isCancelRequested(jobId: string): Promise<boolean>;
+
+  /**
+   * Take the lock if it is free or expired. The token identifies the holder.
+   */
+  acquireLock(key: string, token: string, ttlMs: number): Promise<boolean>;
+
+  /**
+   * Extend a lock that is still held by the token
+   */
+  extendLock(key: string, token: string, ttlMs: number): Promise<boolean>;
+
+  releaseLock(key: string, token: string): Promise<void>;
+}
+
+export interface JobContext {
+  jobId: string;
+  attempt: number;
+  isLastAttempt: boolean;
+
+  /**
+   * Throws JobCancelledError when cancellation was requested; also keeps the reservation of the
+   * job and the tenant lock alive
+   */
+  checkpoint(): Promise<void>;
+}
+
+export type JobHandler = (job: QueueJob, context: JobContext) => Promise<void>;
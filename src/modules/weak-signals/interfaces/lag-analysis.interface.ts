@@ -0,0 +1,33 @@
+/**
+ * A daily series the platform derives: a volume series (jira, slack, servicenow_p1, ...)
+ * or the history of a KPI as `metric:<metricKey>`
+ */
+export type SeriesKey = string;
+
+export interface LagCorrelation {
+  lagDays: number; // positive when the first series leads the second
+  correlation: number;
+  sampleSize: number;
+}
+
+export interface GrangerTestResult {
+  lagOrder: number;
+  fStatistic: number;
+  pValue: number;
+  sampleSize: number;
+}
+
+export interface LagAnalysisResult {
+  seriesA: SeriesKey;
+  seriesB: SeriesKey;
+  windowStart: Date;
+  windowEnd: Date;
+  days: number;
+  correlations: LagCorrelation[];
+  best: LagCorrelation | null;
+  leader: SeriesKey | null;
+  follower: SeriesKey | null;
+  granger: GrangerTestResult | null;
+  significanceLevel: number; // after the correction for every lag and pair tested in the run
+  significant: boolean;
+}
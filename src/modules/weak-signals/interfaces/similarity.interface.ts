@@ -0,0 +1,28 @@
+export type SimilarityBackendName = 'local' | 'openai';
+
+export interface SimilarityItem {
+  id: string;
+  text: string;
+  date: Date;
+}
+
+export interface SimilarPair {
+  a: number; // index into the input texts
+  b: number;
+  score: number; // 0-1
+}
+
+export interface SimilarityBackend {
+  readonly name: SimilarityBackendName;
+
+  /**
+   * Whether the backend can be used in the current environment
+   */
+  isAvailable(): boolean;
+
+  /**
+   * Return all pairs of texts whose similarity is at least the threshold
+   * @param tenantId - Tenant the texts belong to, for backends that send them to its model provider
+   */
+  findSimilarPairs(texts: string[], threshold: number, tenantId?: number): Promise<SimilarPair[]>;
+}
@@ -0,0 +1,11 @@
+import { SignalSeverity } from '../entities/weak-signal.entity';
+
+/**
+ * met: left new before the deadline; breached: still new after it, or left new late
+ */
+export type SlaStatus = 'on_track' | 'at_risk' | 'met' | 'breached';
+
+/**
+ * Hours a signal of each severity may stay new
+ */
+export type SlaPolicy = Record<SignalSeverity, number>;
@@ -0,0 +1,27 @@
+import { SignalType, SignalSeverity } from '../entities/weak-signal.entity';
+
+export type WeakSignalSortField = 'detectedAt' | 'lastDetectedAt' | 'severity' | 'confidence' | 'triage';
+
+/**
+ * Filters shared by the weak signal list queries
+ */
+export interface WeakSignalFilters {
+  signalType?: SignalType;
+  severity?: SignalSeverity;
+  status?: string;
+  includeInactive?: boolean;
+  minConfidence?: number;
+  category?: string;
+  affectedEntityType?: string;
+  affectedEntityId?: string;
+  source?: string;
+  detectedFrom?: Date;
+  detectedTo?: Date;
+  assigneeId?: number;
+  assignedTeam?: string;
+  slaBreached?: boolean;
+  /**
+   * Matched against title, description and explainability
+   */
+  search?: string;
+}
@@ -0,0 +1,129 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { AnomalyDetectionService } from './anomaly-detection.service';
+import { JiraIssue } from '../../jira/entities/jira-issue.entity';
+import { ServiceNowIncident } from '../../servicenow/entities/servicenow-incident.entity';
+import { SlackMessage } from '../../slack/entities/slack-message.entity';
+import { TeamsMessage } from '../../teams/entities/teams-message.entity';
+import { GmailMessage } from '../../gmail/entities/gmail-message.entity';
+import { OutlookMessage } from '../../outlook/entities/outlook-message.entity';
+
+describe('AnomalyDetectionService', () => {
+  let service: AnomalyDetectionService;
+
+  const mockRepository = () => ({
+    find: jest.fn().mockResolvedValue([]),
+  });
+
+  const mockJiraRepository = mockRepository();
+  const mockServiceNowRepository = mockRepository();
+  const mockSlackRepository = mockRepository();
+  const mockTeamsRepository = mockRepository();
+  const mockGmailRepository = mockRepository();
+  const mockOutlookRepository = mockRepository();
+
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  /**
+   * Build a daily series ending today with a weekly rhythm (busy Mondays)
+   */
+  const buildSeries = (days: number, valueFor: (date: Date, index: number) => number) => {
+    const end = new Date();
+    end.setUTCHours(0, 0, 0, 0);
+    return Array.from({ length: days }, (_, i) => {
+      const timestamp = new Date(end.getTime() - (days - 1 - i) * DAY_MS);
+      return { timestamp, value: valueFor(timestamp, i) };
+    });
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AnomalyDetectionService,
+        { provide: getRepositoryToken(JiraIssue), useValue: mockJiraRepository },
+        { provide: getRepositoryToken(ServiceNowIncident), useValue: mockServiceNowRepository },
+        { provide: getRepositoryToken(SlackMessage), useValue: mockSlackRepository },
+        { provide: getRepositoryToken(TeamsMessage), useValue: mockTeamsRepository },
+        { provide: getRepositoryToken(GmailMessage), useValue: mockGmailRepository },
+        { provide: getRepositoryToken(OutlookMessage), useValue: mockOutlookRepository },
+      ],
+    }).compile();
+
+    service = module.get<AnomalyDetectionService>(AnomalyDetectionService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('detectAnomalyInSeries', () => {
+    it('should flag a one-off spike in the recent window', () => {
+      const series = buildSeries(60, (_, i) => (i === 57 ? 30 : 5 + (i % 2)));
+
+      const anomaly = service.detectAnomalyInSeries(series, 'jira_issue_volume', 'Jira Issue Volume', 'jira');
+
+      expect(anomaly).not.toBeNull();
+      expect(anomaly!.observed).toBe(30);
+      expect(anomaly!.anomalyDate.getTime()).toBe(series[57].timestamp.getTime());
+      expect(anomaly!.robustZScore).toBeGreaterThan(3.5);
+      expect(anomaly!.anomalyId).toBe(`anomaly_jira_issue_volume_${series[57].timestamp.toISOString().split('T')[0]}`);
+      expect(anomaly!.evidence).toHaveLength(7);
+    });
+
+    it('should not flag a weekday that is always busy', () => {
+      // Mondays carry 10x the volume of other days, every week
+      const series = buildSeries(63, date => (date.getUTCDay() === 1 ? 50 : 5));
+
+      const anomaly = service.detectAnomalyInSeries(series, 'slack_message_volume', 'Slack Message Volume', 'slack');
+
+      expect(anomaly).toBeNull();
+    });
+
+    it('should ignore small absolute changes on sparse series', () => {
+      const series = buildSeries(40, (_, i) => (i === 38 ? 2 : 0));
+
+      const anomaly = service.detectAnomalyInSeries(series, 'gmail_message_volume', 'Gmail Message Volume', 'gmail');
+
+      expect(anomaly).toBeNull();
+    });
+
+    it('should require enough history to build a baseline', () => {
+      const series = buildSeries(10, (_, i) => (i === 9 ? 100 : 1));
+
+      expect(service.detectAnomalyInSeries(series, 'teams_message_volume', 'Teams Message Volume', 'teams')).toBeNull();
+    });
+  });
+
+  describe('detectAnomalies', () => {
+    it('should build daily series from ingested records', async () => {
+      const now = new Date();
+      const incidents: any[] = [];
+      for (let day = 1; day <= 45; day++) {
+        const date = new Date(now.getTime() - day * DAY_MS);
+        incidents.push({ id: day, sysCreatedOn: date, createdAt: date });
+        incidents.push({ id: 1000 + day, sysCreatedOn: date, createdAt: date });
+      }
+      for (let i = 0; i < 25; i++) {
+        incidents.push({ id: 5000 + i, sysCreatedOn: now, createdAt: now });
+      }
+      mockServiceNowRepository.find.mockResolvedValueOnce(incidents);
+
+      const anomalies = await service.detectAnomalies(1, 60);
+
+      expect(anomalies).toHaveLength(1);
+      expect(anomalies[0].metricKey).toBe('servicenow_incident_volume');
+      expect(anomalies[0].source).toBe('servicenow');
+      expect(anomalies[0].observed).toBe(25);
+    });
+
+    it('should return nothing when there is no data', async () => {
+      const anomalies = await service.detectAnomalies(1, 60);
+
+      expect(anomalies).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,370 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, Between } from 'typeorm';
+import { JiraIssue } from '../../jira/entities/jira-issue.entity';
+import { ServiceNowIncident } from '../../servicenow/entities/servicenow-incident.entity';
+import { SlackMessage } from '../../slack/entities/slack-message.entity';
+import { TeamsMessage } from '../../teams/entities/teams-message.entity';
+import { GmailMessage } from '../../gmail/entities/gmail-message.entity';
+import { OutlookMessage } from '../../outlook/entities/outlook-message.entity';
+import { DailyCounts, DetectionAggregates, VolumeSeries } from '../interfaces/detection-aggregate.interface';
+
+export interface AnomalyDetection {
+  anomalyId: string;
+  metric: string;
+  metricKey: string;
+  source: string;
+  description: string;
+  anomalyDate: Date;
+  observed: number;
+  expected: number; // seasonal baseline median
+  deviation: number; // robust scale (MAD-based) of the baseline
+  robustZScore: number;
+  changeRate: number; // percentage above expected
+  baselinePoints: number;
+  seasonality: 'day_of_week' | 'none';
+  timeWindow: string;
+  severity: 'critical' | 'high' | 'medium' | 'low';
+  confidenceScore: number;
+  evidence: {
+    timestamp: Date;
+    value: number;
+    expected: number;
+    source: string;
+  }[];
+  riskIndicators: string[];
+}
+
+type DailyPoint = { timestamp: Date; value: number };
+
+type SeriesDefinition = { metricKey: string; metricName: string; source: string; counts: DailyCounts };
+
+/**
+ * Anomaly series backed by each incremental volume aggregate
+ */
+const VOLUME_SERIES: { series: VolumeSeries; metricKey: string; metricName: string }[] = [
+  { series: 'jira', metricKey: 'jira_issue_volume', metricName: 'Jira Issue Volume' },
+  { series: 'servicenow', metricKey: 'servicenow_incident_volume', metricName: 'ServiceNow Incident Volume' },
+  { series: 'slack', metricKey: 'slack_message_volume', metricName: 'Slack Message Volume' },
+  { series: 'teams', metricKey: 'teams_message_volume', metricName: 'Teams Message Volume' },
+  { series: 'gmail', metricKey: 'gmail_message_volume', metricName: 'Gmail Message Volume' },
+  { series: 'outlook', metricKey: 'outlook_message_volume', metricName: 'Outlook Message Volume' },
+];
+
+/**
+ * Days at the end of the series that are scanned for anomalies.
+ * Everything before this window is used as the baseline.
+ */
+const RECENT_WINDOW_DAYS = 7;
+
+/**
+ * Robust z-score cut-off (Iglewicz & Hoaglin modified z-score).
+ */
+const ANOMALY_Z_THRESHOLD = 3.5;
+
+/**
+ * Minimum absolute lift over the baseline so that tiny series (0 -> 2) are not flagged.
+ */
+const MIN_ABSOLUTE_DELTA = 3;
+
+/**
+ * Minimum number of same-weekday baseline points before seasonality is used.
+ */
+const MIN_SEASONAL_POINTS = 4;
+
+/**
+ * Minimum number of baseline days required to score a series at all.
+ */
+const MIN_BASELINE_DAYS = 14;
+
+/**
+ * Consistency constant that makes the MAD comparable to a standard deviation.
+ */
+const MAD_SCALE = 1.4826;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class AnomalyDetectionService {
+  private readonly logger = new Logger(AnomalyDetectionService.name);
+
+  constructor(
+    @InjectRepository(JiraIssue)
+    private readonly jiraIssueRepository: Repository<JiraIssue>,
+    @InjectRepository(ServiceNowIncident)
+    private readonly serviceNowIncidentRepository: Repository<ServiceNowIncident>,
+    @InjectRepository(SlackMessage)
+    private readonly slackMessageRepository: Repository<SlackMessage>,
+    @InjectRepository(TeamsMessage)
+    private readonly teamsMessageRepository: Repository<TeamsMessage>,
+    @InjectRepository(GmailMessage)
+    private readonly gmailMessageRepository: Repository<GmailMessage>,
+    @InjectRepository(OutlookMessage)
+    private readonly outlookMessageRepository: Repository<OutlookMessage>,
+  ) {}
+
+  /**
+   * Detect one-off spikes in daily activity across all ingested sources.
+   * asOf replays detection at a past date, ignoring data created after it.
+   */
+  async detectAnomalies(tenantId: number, daysBack: number = 90, asOf: Date = new Date()): Promise<AnomalyDetection[]> {
+    this.logger.log(`Detecting anomalies for tenant ${tenantId} over last ${daysBack} days`);
+
+    const endDate = new Date(asOf);
+    const startDate = new Date(asOf);
+    startDate.setDate(startDate.getDate() - daysBack);
+
+    const [jiraIssues, incidents, slackMessages, teamsMessages, gmailMessages, outlookMessages] = await Promise.all([
+      this.jiraIssueRepository.find({
+        where: { tenantId, jiraCreatedAt: Between(startDate, endDate) },
+        select: ['id', 'jiraCreatedAt', 'createdAt'],
+      }),
+      this.serviceNowIncidentRepository.find({
+        where: { tenantId, sysCreatedOn: Between(startDate, endDate) },
+        select: ['id', 'sysCreatedOn', 'createdAt'],
+      }),
+      this.slackMessageRepository.find({
+        where: { tenantId, slackCreatedAt: Between(startDate, endDate) },
+        select: ['id', 'slackCreatedAt', 'createdAt'],
+      }),
+      this.teamsMessageRepository.find({
+        where: { tenantId, createdDateTime: Between(startDate, endDate) },
+        select: ['id', 'createdDateTime', 'createdAt'],
+      }),
+      this.gmailMessageRepository.find({
+        where: { tenantId, gmailCreatedAt: Between(startDate, endDate) },
+        select: ['id', 'gmailCreatedAt', 'createdAt'],
+      }),
+      this.outlookMessageRepository.find({
+        where: { tenantId, outlookCreatedAt: Between(startDate, endDate) },
+        select: ['id', 'outlookCreatedAt', 'createdAt'],
+      }),
+    ]);
+
+    const datesBySeries: Partial<Record<VolumeSeries, Date[]>> = {
+      jira: jiraIssues.map(i => i.jiraCreatedAt || i.createdAt),
+      servicenow: incidents.map(i => i.sysCreatedOn || i.createdAt),
+      slack: slackMessages.map(m => m.slackCreatedAt || m.createdAt),
+      teams: teamsMessages.map(m => m.createdDateTime || m.createdAt),
+      gmail: gmailMessages.map(m => m.gmailCreatedAt || m.createdAt),
+      outlook: outlookMessages.map(m => m.outlookCreatedAt || m.createdAt),
+    };
+
+    return this.scoreSeries(
+      VOLUME_SERIES.map(definition => ({
+        metricKey: definition.metricKey,
+        metricName: definition.metricName,
+        source: definition.series,
+        counts: this.countByDay(datesBySeries[definition.series] || []),
+      })),
+      startDate,
+      endDate,
+    );
+  }
+
+  /**
+   * Detect anomalies from the rolling daily volumes of an incremental run
+   */
+  detectAnomaliesFromAggregates(aggregates: DetectionAggregates): AnomalyDetection[] {
+    return this.scoreSeries(
+      VOLUME_SERIES.map(definition => ({
+        metricKey: definition.metricKey,
+        metricName: definition.metricName,
+        source: definition.series,
+        counts: aggregates.volumes[definition.series] || {},
+      })),
+      aggregates.windowStart,
+      aggregates.asOf,
+    );
+  }
+
+  private scoreSeries(definitions: SeriesDefinition[], startDate: Date, endDate: Date): AnomalyDetection[] {
+    const anomalies: AnomalyDetection[] = [];
+
+    for (const definition of definitions) {
+      if (Object.keys(definition.counts).length === 0) continue;
+
+      const series = this.buildDailySeries(definition.counts, startDate, endDate);
+      const anomaly = this.detectAnomalyInSeries(series, definition.metricKey, definition.metricName, definition.source);
+
+      if (anomaly) {
+        anomalies.push(anomaly);
+      }
+    }
+
+    anomalies.sort((a, b) => b.robustZScore - a.robustZScore);
+
+    this.logger.log(`Detected ${anomalies.length} anomalies`);
+
+    return anomalies;
+  }
+
+  /**
+   * Score the recent window of a daily series against a day-of-week aware robust baseline.
+   * Returns the strongest anomalous day, or null when nothing crosses the threshold.
+   */
+  detectAnomalyInSeries(
+    series: DailyPoint[],
+    metricKey: string,
+    metricName: string,
+    source: string
+  ): AnomalyDetection | null {
+    if (series.length < MIN_BASELINE_DAYS + RECENT_WINDOW_DAYS) return null;
+
+    const sortedSeries = [...series].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const baselineSeries = sortedSeries.slice(0, -RECENT_WINDOW_DAYS);
+    const recentSeries = sortedSeries.slice(-RECENT_WINDOW_DAYS);
+
+    let strongest: {
+      point: DailyPoint;
+      expected: number;
+      deviation: number;
+      zScore: number;
+      baselinePoints: number;
+      seasonality: AnomalyDetection['seasonality'];
+    } | null = null;
+
+    for (const point of recentSeries) {
+      const baseline = this.computeSeasonalBaseline(baselineSeries, point.timestamp);
+      const zScore = (point.value - baseline.median) / baseline.deviation;
+
+      if (zScore < ANOMALY_Z_THRESHOLD) continue;
+      if (point.value - baseline.median < MIN_ABSOLUTE_DELTA) continue;
+
+      if (!strongest || zScore > strongest.zScore) {
+        strongest = {
+          point,
+          expected: baseline.median,
+          deviation: baseline.deviation,
+          zScore,
+          baselinePoints: baseline.points,
+          seasonality: baseline.seasonality,
+        };
+      }
+    }
+
+    if (!strongest) return null;
+
+    const { point, expected, deviation, zScore, baselinePoints, seasonality } = strongest;
+    const changeRate = expected > 0 ? ((point.value - expected) / expected) * 100 : 100;
+
+    let severity: AnomalyDetection['severity'];
+    if (zScore >= 8) severity = 'critical';
+    else if (zScore >= 6) severity = 'high';
+    else if (zScore >= 4.5) severity = 'medium';
+    else severity = 'low';
+
+    const confidence = Math.min(95, 55 + Math.min(25, zScore * 3) + Math.min(15, baselinePoints / 2));
+
+    const dayKey = point.timestamp.toISOString().split('T')[0];
+    const weekday = point.timestamp.toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' });
+
+    const riskIndicators: string[] = [];
+    if (zScore >= 6) riskIndicators.push('Extreme deviation from seasonal baseline');
+    if (point.value >= expected * 3 && expected > 0) riskIndicators.push('Activity more than 3x the expected level');
+    if (seasonality === 'day_of_week') riskIndicators.push(`Unusual for a typical ${weekday}`);
+    if (point.timestamp.getTime() >= sortedSeries[sortedSeries.length - 1].timestamp.getTime() - DAY_MS) {
+      riskIndicators.push('Spike is still ongoing');
+    }
+
+    const timeWindow = `${sortedSeries[0].timestamp.toLocaleDateString()} to ${sortedSeries[sortedSeries.length - 1].timestamp.toLocaleDateString()}`;
+
+    return {
+      anomalyId: `anomaly_${metricKey}_${dayKey}`,
+      metric: metricName,
+      metricKey,
+      source,
+      description: `${metricName} spiked to ${point.value} on ${dayKey} against an expected ${expected.toFixed(1)} (robust z-score ${zScore.toFixed(1)})`,
+      anomalyDate: point.timestamp,
+      observed: point.value,
+      expected,
+      deviation,
+      robustZScore: zScore,
+      changeRate,
+      baselinePoints,
+      seasonality,
+      timeWindow,
+      severity,
+      confidenceScore: confidence,
+      evidence: recentSeries.map(p => ({
+        timestamp: p.timestamp,
+        value: p.value,
+        expected: this.computeSeasonalBaseline(baselineSeries, p.timestamp).median,
+        source,
+      })),
+      riskIndicators,
+    };
+  }
+
+  /**
+   * Median and MAD of the baseline, restricted to the same weekday when enough history exists
+   */
+  private computeSeasonalBaseline(
+    baselineSeries: DailyPoint[],
+    date: Date
+  ): { median: number; deviation: number; points: number; seasonality: AnomalyDetection['seasonality'] } {
+    const sameWeekday = baselineSeries.filter(p => p.timestamp.getUTCDay() === date.getUTCDay());
+    const useSeasonal = sameWeekday.length >= MIN_SEASONAL_POINTS;
+    const values = (useSeasonal ? sameWeekday : baselineSeries).map(p => p.value);
+
+    const median = this.median(values);
+    const mad = this.median(values.map(v => Math.abs(v - median)));
+
+    // Sparse series frequently have a MAD of zero; fall back to the mean absolute
+    // deviation and finally to a unit scale so the z-score stays finite.
+    let deviation = mad * MAD_SCALE;
+    if (deviation === 0) {
+      const meanAbsDev = values.reduce((sum, v) => sum + Math.abs(v - median), 0) / (values.length || 1);
+      deviation = meanAbsDev * 1.253314;
+    }
+    if (deviation === 0) {
+      deviation = 1;
+    }
+
+    return {
+      median,
+      deviation,
+      points: values.length,
+      seasonality: useSeasonal ? 'day_of_week' : 'none',
+    };
+  }
+
+  /**
+   * Bucket timestamps into daily counts (UTC days)
+   */
+  private countByDay(dates: Date[]): DailyCounts {
+    const dailyMap: DailyCounts = {};
+
+    for (const date of dates) {
+      if (!date) continue;
+      const dayKey = date.toISOString().split('T')[0];
+      dailyMap[dayKey] = (dailyMap[dayKey] || 0) + 1;
+    }
+
+    return dailyMap;
+  }
+
+  /**
+   * Expand daily counts into a zero-filled daily series
+   */
+  private buildDailySeries(dailyMap: DailyCounts, startDate: Date, endDate: Date): DailyPoint[] {
+    const series: DailyPoint[] = [];
+    const cursor = new Date(`${startDate.toISOString().split('T')[0]}T00:00:00.000Z`);
+    const lastDay = new Date(`${endDate.toISOString().split('T')[0]}T00:00:00.000Z`);
+
+    while (cursor.getTime() <= lastDay.getTime()) {
+      const dayKey = cursor.toISOString().split('T')[0];
+      series.push({ timestamp: new Date(cursor), value: dailyMap[dayKey] || 0 });
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+
+    return series;
+  }
+
+  private median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+  }
+}
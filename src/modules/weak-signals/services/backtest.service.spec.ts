@@ -0,0 +1,226 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { BacktestService } from './backtest.service';
+import { WeakSignalDetectionService } from './weak-signal-detection.service';
+import { DetectionSettingsService, DEFAULT_DETECTION_SETTINGS } from './detection-settings.service';
+import { DetectionJobQueueService } from './detection-job-queue.service';
+import { WeakSignal } from '../entities/weak-signal.entity';
+import { BacktestRun } from '../entities/backtest-run.entity';
+import { JobContext, JobHandler, QueueJob } from '../interfaces/job-queue.interface';
+
+describe('BacktestService', () => {
+  let service: BacktestService;
+
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  const mockBacktestRunRepository = {
+    create: jest.fn((run) => ({ id: 3, ...run })),
+    save: jest.fn((run) => Promise.resolve(run)),
+    find: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  const mockWeakSignalRepository = {
+    find: jest.fn(),
+  };
+
+  const mockDetectionService = {
+    generateSignals: jest.fn(),
+    computeFingerprint: jest.fn((signal) => `computed_${signal.id}`),
+  };
+
+  const mockDetectionSettingsService = {
+    getSettings: jest.fn().mockResolvedValue(DEFAULT_DETECTION_SETTINGS),
+  };
+
+  const mockJobQueue = {
+    registerHandler: jest.fn(),
+    enqueue: jest.fn().mockResolvedValue({ id: 'job-1' }),
+  };
+
+  const buildContext = (overrides: Partial<JobContext> = {}): JobContext => ({
+    jobId: 'job-1',
+    attempt: 1,
+    isLastAttempt: true,
+    checkpoint: jest.fn().mockResolvedValue(undefined),
+    ...overrides,
+  });
+
+  const backtestJob: QueueJob = {
+    id: 'job-1',
+    type: 'backtest',
+    tenantId: 1,
+    payload: { backtestRunId: 3 },
+    attempts: 1,
+    maxAttempts: 3,
+    availableAt: 0,
+    enqueuedAt: 0,
+  };
+  let handleBacktestJob: JobHandler;
+
+  const buildSignal = (overrides: Partial<WeakSignal>): WeakSignal =>
+    ({
+      tenantId: 1,
+      signalType: 'pattern_recurring',
+      status: 'new',
+      sourceSignals: [],
+      detectedAt: new Date(),
+      validatedAt: null,
+      ...overrides,
+    }) as WeakSignal;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BacktestService,
+        { provide: getRepositoryToken(BacktestRun), useValue: mockBacktestRunRepository },
+        { provide: getRepositoryToken(WeakSignal), useValue: mockWeakSignalRepository },
+        { provide: WeakSignalDetectionService, useValue: mockDetectionService },
+        { provide: DetectionSettingsService, useValue: mockDetectionSettingsService },
+        { provide: DetectionJobQueueService, useValue: mockJobQueue },
+      ],
+    }).compile();
+
+    service = module.get<BacktestService>(BacktestService);
+    service.onModuleInit();
+    handleBacktestJob = mockJobQueue.registerHandler.mock.calls[0][1];
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('queueBacktest', () => {
+    const toDate = new Date(Date.now() - 10 * DAY_MS);
+    const fromDate = new Date(toDate.getTime() - 14 * DAY_MS);
+
+    it('should save the run as queued and queue its replay', async () => {
+      const run = await service.queueBacktest(1, { fromDate, toDate, stepDays: 7, daysBack: 60 }, 5);
+
+      expect(run).toMatchObject({ id: 3, status: 'queued', stepDays: 7, daysAnalyzed: 60, createdBy: 5 });
+      expect(mockJobQueue.enqueue).toHaveBeenCalledWith('backtest', 1, { backtestRunId: 3 });
+      expect(mockDetectionService.generateSignals).not.toHaveBeenCalled();
+    });
+
+    it('should reject ranges with too many replay dates', async () => {
+      const longAgo = new Date(toDate.getTime() - 365 * DAY_MS);
+
+      await expect(service.queueBacktest(1, { fromDate: longAgo, toDate, stepDays: 1 })).rejects.toThrow(BadRequestException);
+      expect(mockBacktestRunRepository.save).not.toHaveBeenCalled();
+      expect(mockJobQueue.enqueue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('backtest job', () => {
+    const toDate = new Date(Date.now() - 10 * DAY_MS);
+    const fromDate = new Date(toDate.getTime() - 14 * DAY_MS);
+
+    const queuedRun = (overrides: Partial<BacktestRun> = {}): BacktestRun =>
+      ({
+        id: 3,
+        tenantId: 1,
+        status: 'queued',
+        fromDate,
+        toDate,
+        stepDays: 7,
+        daysAnalyzed: 60,
+        settings: DEFAULT_DETECTION_SETTINGS,
+        ...overrides,
+      }) as BacktestRun;
+
+    it('should report precision, recall and lead time per detector and source', async () => {
+      const validatedPattern = buildSignal({
+        id: 1,
+        status: 'validated',
+        fingerprint: 'fp_pattern',
+        validatedAt: new Date(toDate.getTime() + 2 * DAY_MS),
+        sourceSignals: [{ source: 'jira', sourceId: '11', timestamp: '', relevanceScore: 80 }],
+      });
+      const dismissedTrend = buildSignal({
+        id: 2,
+        signalType: 'trend_acceleration',
+        status: 'dismissed',
+        fingerprint: 'fp_trend',
+        sourceSignals: [{ source: 'slack', sourceId: 'slack_0', timestamp: '', relevanceScore: 85 }],
+      });
+      const missedAnomaly = buildSignal({
+        id: 3,
+        signalType: 'anomaly_detection',
+        status: 'validated',
+        fingerprint: 'fp_anomaly',
+        sourceSignals: [{ source: 'servicenow', sourceId: 'servicenow_2026-01-01', timestamp: '', relevanceScore: 95 }],
+      });
+      mockWeakSignalRepository.find.mockResolvedValueOnce([validatedPattern, dismissedTrend, missedAnomaly]);
+
+      // Pattern found on the first replay date with a shifted signature but the same evidence
+      mockDetectionService.generateSignals
+        .mockResolvedValueOnce([
+          buildSignal({
+            fingerprint: 'fp_pattern_earlier',
+            sourceSignals: [{ source: 'jira', sourceId: '11', timestamp: '', relevanceScore: 80 }],
+          }),
+        ])
+        .mockResolvedValueOnce([buildSignal({ signalType: 'trend_acceleration', fingerprint: 'fp_trend', sourceSignals: dismissedTrend.sourceSignals })])
+        .mockResolvedValueOnce([buildSignal({ fingerprint: 'fp_noise', sourceSignals: [{ source: 'jira', sourceId: '99', timestamp: '', relevanceScore: 80 }] })]);
+
+      const run = queuedRun();
+      mockBacktestRunRepository.findOne.mockResolvedValueOnce(run);
+      const context = buildContext();
+
+      await handleBacktestJob(backtestJob, context);
+
+      expect(context.checkpoint).toHaveBeenCalledTimes(3);
+      expect(mockDetectionService.generateSignals).toHaveBeenCalledTimes(3);
+      expect(mockDetectionService.generateSignals).toHaveBeenCalledWith(1, 60, DEFAULT_DETECTION_SETTINGS, fromDate);
+      expect(run.status).toBe('completed');
+      expect(run.labelCount).toBe(3);
+
+      const { overall, byDetector, bySource } = run.results!;
+      expect(overall).toMatchObject({ emitted: 3, truePositives: 1, falsePositives: 1, unlabeled: 1, validatedLabels: 2 });
+      expect(overall.precision).toBe(0.5);
+      expect(overall.recall).toBe(0.5);
+      expect(overall.avgLeadTimeHours).toBe(16 * 24);
+
+      expect(byDetector.pattern_recurring).toMatchObject({ precision: 1, recall: 1 });
+      expect(byDetector.trend_acceleration).toMatchObject({ precision: 0, recall: null });
+      expect(byDetector.anomaly_detection).toMatchObject({ emitted: 0, recall: 0 });
+      expect(bySource.jira).toMatchObject({ emitted: 2, truePositives: 1, unlabeled: 1 });
+      expect(bySource.servicenow.recall).toBe(0);
+    });
+
+    it('should record failures on the run', async () => {
+      mockBacktestRunRepository.findOne.mockResolvedValueOnce(queuedRun());
+      mockWeakSignalRepository.find.mockResolvedValueOnce([]);
+      mockDetectionService.generateSignals.mockRejectedValueOnce(new Error('database unavailable'));
+
+      await expect(handleBacktestJob(backtestJob, buildContext())).rejects.toThrow('database unavailable');
+
+      const calls = mockBacktestRunRepository.save.mock.calls;
+      const saved = calls[calls.length - 1][0];
+      expect(saved.status).toBe('failed');
+      expect(saved.errorMessage).toBe('database unavailable');
+    });
+
+    it('should put the run back in the queue while attempts remain', async () => {
+      const run = queuedRun();
+      mockBacktestRunRepository.findOne.mockResolvedValueOnce(run);
+      mockWeakSignalRepository.find.mockResolvedValueOnce([]);
+      mockDetectionService.generateSignals.mockRejectedValueOnce(new Error('database unavailable'));
+
+      await expect(handleBacktestJob(backtestJob, buildContext({ isLastAttempt: false }))).rejects.toThrow('database unavailable');
+
+      expect(run.status).toBe('queued');
+      expect(run.completedAt).toBeUndefined();
+    });
+
+    it('should skip runs that are no longer queued', async () => {
+      mockBacktestRunRepository.findOne.mockResolvedValueOnce(queuedRun({ status: 'completed' }));
+
+      await handleBacktestJob(backtestJob, buildContext());
+
+      expect(mockDetectionService.generateSignals).not.toHaveBeenCalled();
+      expect(mockBacktestRunRepository.save).not.toHaveBeenCalled();
+    });
+  });
+});
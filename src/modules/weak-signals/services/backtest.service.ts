@@ -0,0 +1,326 @@
+import { Injectable, Logger, BadRequestException, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, Not } from 'typeorm';
+import { WeakSignal } from '../entities/weak-signal.entity';
+import { BacktestRun, BacktestMetrics, BacktestResults } from '../entities/backtest-run.entity';
+import { WeakSignalDetectionService } from './weak-signal-detection.service';
+import { DetectionSettingsService } from './detection-settings.service';
+import { DetectionJobQueueService } from './detection-job-queue.service';
+import { JobContext, QueueJob } from '../interfaces/job-queue.interface';
+
+/**
+ * Upper bound on replay dates per backtest; each one is a full detection pass.
+ */
+const MAX_REPLAY_DATES = 60;
+
+/**
+ * Share of a labelled pattern's evidence an emitted pattern must cover to count as the same pattern
+ */
+const EVIDENCE_OVERLAP_THRESHOLD = 0.5;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface BacktestOptions {
+  name?: string;
+  fromDate: Date;
+  toDate: Date;
+  stepDays?: number;
+  daysBack?: number;
+}
+
+interface EmittedSignal {
+  signal: WeakSignal;
+  firstEmittedAt: Date;
+}
+
+interface LabelMatch {
+  emitted: EmittedSignal;
+  label: WeakSignal | null;
+}
+
+@Injectable()
+export class BacktestService implements OnModuleInit {
+  private readonly logger = new Logger(BacktestService.name);
+
+  constructor(
+    @InjectRepository(BacktestRun)
+    private readonly backtestRunRepository: Repository<BacktestRun>,
+    @InjectRepository(WeakSignal)
+    private readonly weakSignalRepository: Repository<WeakSignal>,
+    private readonly detectionService: WeakSignalDetectionService,
+    private readonly detectionSettingsService: DetectionSettingsService,
+    private readonly jobQueue: DetectionJobQueueService,
+  ) {}
+
+  onModuleInit(): void {
+    this.jobQueue.registerHandler('backtest', (job, context) => this.handleBacktestJob(job, context));
+  }
+
+  /**
+   * Save a backtest run and queue its replay. The range is validated before anything is saved;
+   * the job worker fills in the results.
+   */
+  async queueBacktest(tenantId: number, options: BacktestOptions, userId: number | null = null): Promise<BacktestRun> {
+    const stepDays = options.stepDays ?? 7;
+    const daysBack = options.daysBack ?? 90;
+    this.buildReplayDates(options.fromDate, options.toDate, stepDays);
+    const settings = await this.detectionSettingsService.getSettings(tenantId);
+
+    const run = this.backtestRunRepository.create({
+      tenantId,
+      name: options.name ?? null,
+      status: 'queued',
+      fromDate: options.fromDate,
+      toDate: options.toDate,
+      stepDays,
+      daysAnalyzed: daysBack,
+      settings,
+      createdBy: userId,
+    });
+    await this.backtestRunRepository.save(run);
+
+    await this.jobQueue.enqueue('backtest', tenantId, { backtestRunId: run.id });
+    this.logger.log(`Queued backtest ${run.id} for tenant ${tenantId}`);
+
+    return run;
+  }
+
+  /**
+   * Queue worker handler that replays detection as of each date in the range and scores the
+   * emitted signals against analyst labels: validated signals are positives, dismissed signals
+   * are negatives. Nothing is persisted except the backtest run itself.
+   */
+  private async handleBacktestJob(job: QueueJob, context: JobContext): Promise<void> {
+    const tenantId = job.tenantId;
+    const run = await this.backtestRunRepository.findOne({ where: { id: job.payload.backtestRunId, tenantId } });
+    if (!run || !['queued', 'running'].includes(run.status)) {
+      this.logger.log(`Skipping backtest job ${job.id} - run ${job.payload.backtestRunId} is no longer active`);
+      return;
+    }
+
+    const replayDates = this.buildReplayDates(new Date(run.fromDate), new Date(run.toDate), run.stepDays);
+    const startTime = Date.now();
+    run.status = 'running';
+    run.errorMessage = null;
+    await this.backtestRunRepository.save(run);
+
+    try {
+      const labels = await this.weakSignalRepository.find({
+        where: {
+          tenantId,
+          status: In(['validated', 'dismissed']),
+          signalType: Not('correlation_cluster'),
+        },
+      });
+
+      for (const label of labels) {
+        label.fingerprint = label.fingerprint || this.detectionService.computeFingerprint(label);
+      }
+
+      // Replay detection; a signal emitted on several dates counts once, from its first date
+      const emittedByFingerprint = new Map<string, EmittedSignal>();
+      for (const asOf of replayDates) {
+        await context.checkpoint();
+        const signals = await this.detectionService.generateSignals(tenantId, run.daysAnalyzed, run.settings, asOf);
+        for (const signal of signals) {
+          if (!emittedByFingerprint.has(signal.fingerprint!)) {
+            emittedByFingerprint.set(signal.fingerprint!, { signal, firstEmittedAt: asOf });
+          }
+        }
+      }
+
+      const matches = [...emittedByFingerprint.values()].map(emitted => ({
+        emitted,
+        label: this.findMatchingLabel(emitted.signal, labels),
+      }));
+
+      run.results = this.computeResults(matches, labels, replayDates);
+      run.labelCount = labels.length;
+      run.status = 'completed';
+      run.completedAt = new Date();
+      run.durationMs = Date.now() - startTime;
+
+      await this.backtestRunRepository.save(run);
+
+      this.logger.log(
+        `Backtest ${run.id} for tenant ${tenantId}: ${emittedByFingerprint.size} signals over ${replayDates.length} dates, ` +
+        `precision ${this.formatRatio(run.results.overall.precision)}, recall ${this.formatRatio(run.results.overall.recall)}`
+      );
+    } catch (error) {
+      run.durationMs = Date.now() - startTime;
+      run.errorMessage = error.message;
+
+      if (!context.isLastAttempt) {
+        // The queue retries the job with backoff
+        run.status = 'queued';
+      } else {
+        run.status = 'failed';
+        run.completedAt = new Date();
+      }
+
+      await this.backtestRunRepository.save(run);
+
+      this.logger.error(`Backtest ${run.id} failed for tenant ${tenantId}: ${error.message}`, error.stack);
+
+      throw error;
+    }
+  }
+
+  async getBacktestRuns(tenantId: number, limit: number = 20): Promise<BacktestRun[]> {
+    return await this.backtestRunRepository.find({
+      where: { tenantId },
+      order: { createdAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  async getBacktestRun(tenantId: number, id: number): Promise<BacktestRun | null> {
+    return await this.backtestRunRepository.findOne({ where: { id, tenantId } });
+  }
+
+  private buildReplayDates(fromDate: Date, toDate: Date, stepDays: number): Date[] {
+    if (fromDate.getTime() > toDate.getTime()) {
+      throw new BadRequestException('fromDate must not be after toDate');
+    }
+    if (toDate.getTime() > Date.now()) {
+      throw new BadRequestException('toDate must not be in the future');
+    }
+
+    const dates: Date[] = [];
+    for (let time = fromDate.getTime(); time <= toDate.getTime(); time += stepDays * DAY_MS) {
+      dates.push(new Date(time));
+    }
+
+    if (dates.length > MAX_REPLAY_DATES) {
+      throw new BadRequestException(
+        `Backtest would replay ${dates.length} dates; increase stepDays or shorten the range (max ${MAX_REPLAY_DATES})`,
+      );
+    }
+
+    return dates;
+  }
+
+  /**
+   * Match an emitted signal to a labelled one by fingerprint, or for patterns, by shared evidence
+   * since a pattern's signature can shift as more data arrives
+   */
+  private findMatchingLabel(signal: WeakSignal, labels: WeakSignal[]): WeakSignal | null {
+    const byFingerprint = labels.find(label => label.fingerprint === signal.fingerprint);
+    if (byFingerprint) {
+      return byFingerprint;
+    }
+
+    if (signal.signalType !== 'pattern_recurring') {
+      return null;
+    }
+
+    const evidence = new Set(this.evidenceKeys(signal));
+    let best: WeakSignal | null = null;
+    let bestOverlap = 0;
+
+    for (const label of labels.filter(l => l.signalType === signal.signalType)) {
+      const labelEvidence = this.evidenceKeys(label);
+      if (labelEvidence.length === 0) {
+        continue;
+      }
+
+      const shared = labelEvidence.filter(key => evidence.has(key)).length;
+      const overlap = shared / Math.min(labelEvidence.length, evidence.size || 1);
+      if (overlap >= EVIDENCE_OVERLAP_THRESHOLD && overlap > bestOverlap) {
+        best = label;
+        bestOverlap = overlap;
+      }
+    }
+
+    return best;
+  }
+
+  private computeResults(matches: LabelMatch[], labels: WeakSignal[], replayDates: Date[]): BacktestResults {
+    const detectors = new Set<string>([
+      ...matches.map(m => m.emitted.signal.signalType),
+      ...labels.map(l => l.signalType),
+    ]);
+    const sources = new Set<string>([
+      ...matches.flatMap(m => this.signalSources(m.emitted.signal)),
+      ...labels.flatMap(l => this.signalSources(l)),
+    ]);
+
+    const byDetector: Record<string, BacktestMetrics> = {};
+    for (const detector of detectors) {
+      byDetector[detector] = this.computeMetrics(
+        matches.filter(m => m.emitted.signal.signalType === detector),
+        labels.filter(l => l.signalType === detector),
+      );
+    }
+
+    const bySource: Record<string, BacktestMetrics> = {};
+    for (const source of sources) {
+      bySource[source] = this.computeMetrics(
+        matches.filter(m => this.signalSources(m.emitted.signal).includes(source)),
+        labels.filter(l => this.signalSources(l).includes(source)),
+      );
+    }
+
+    return {
+      overall: this.computeMetrics(matches, labels),
+      byDetector,
+      bySource,
+      replayDates: replayDates.map(date => date.toISOString()),
+    };
+  }
+
+  private computeMetrics(matches: LabelMatch[], labels: WeakSignal[]): BacktestMetrics {
+    const truePositives = matches.filter(m => m.label?.status === 'validated').length;
+    const falsePositives = matches.filter(m => m.label?.status === 'dismissed').length;
+    const validated = labels.filter(l => l.status === 'validated');
+
+    // Lead time from the earliest emission of each validated signal to when analysts confirmed it
+    const leadTimes: number[] = [];
+    for (const label of validated) {
+      const emissions = matches.filter(m => m.label === label).map(m => m.emitted.firstEmittedAt.getTime());
+      if (emissions.length === 0) {
+        continue;
+      }
+      const confirmedAt = new Date(label.validatedAt || label.detectedAt).getTime();
+      leadTimes.push((confirmedAt - Math.min(...emissions)) / HOUR_MS);
+    }
+
+    return {
+      emitted: matches.length,
+      truePositives,
+      falsePositives,
+      unlabeled: matches.length - truePositives - falsePositives,
+      validatedLabels: validated.length,
+      detectedLabels: leadTimes.length,
+      precision: truePositives + falsePositives > 0 ? this.round(truePositives / (truePositives + falsePositives)) : null,
+      recall: validated.length > 0 ? this.round(leadTimes.length / validated.length) : null,
+      avgLeadTimeHours: leadTimes.length > 0
+        ? this.round(leadTimes.reduce((sum, hours) => sum + hours, 0) / leadTimes.length)
+        : null,
+      medianLeadTimeHours: leadTimes.length > 0 ? this.round(this.median(leadTimes)) : null,
+    };
+  }
+
+  private evidenceKeys(signal: WeakSignal): string[] {
+    return (signal.sourceSignals || []).map(evidence => `${evidence.source}:${evidence.sourceId}`);
+  }
+
+  private signalSources(signal: WeakSignal): string[] {
+    return [...new Set((signal.sourceSignals || []).map(evidence => evidence.source))];
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+
+  private round(value: number): number {
+    return Number(value.toFixed(4));
+  }
+
+  private formatRatio(value: number | null): string {
+    return value === null ? 'n/a' : value.toFixed(2);
+  }
+}
@@ -0,0 +1,215 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { DetectionAggregateService } from './detection-aggregate.service';
+import { TextSimilarityService } from './text-similarity.service';
+import { DetectionAggregate } from '../entities/detection-aggregate.entity';
+import { DetectionState } from '../entities/detection-state.entity';
+import { JiraIssue } from '../../jira/entities/jira-issue.entity';
+import { ServiceNowIncident } from '../../servicenow/entities/servicenow-incident.entity';
+import { SlackMessage } from '../../slack/entities/slack-message.entity';
+import { TeamsMessage } from '../../teams/entities/teams-message.entity';
+import { GmailMessage } from '../../gmail/entities/gmail-message.entity';
+import { OutlookMessage } from '../../outlook/entities/outlook-message.entity';
+import { TimelineEvent } from '../../timeline/entities/timeline-event.entity';
+import { DEFAULT_DETECTION_SETTINGS } from './detection-settings.service';
+
+describe('DetectionAggregateService', () => {
+  let service: DetectionAggregateService;
+
+  const asOf = new Date('2026-03-01T12:00:00Z');
+  const settings = { ...DEFAULT_DETECTION_SETTINGS, keywords: ['outage', 'latency'] };
+
+  // Source repositories answer one batch of rows, then an empty page
+  const createSourceRepository = () => {
+    const queryBuilder = {
+      select: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      take: jest.fn().mockReturnThis(),
+      groupBy: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([]),
+      getRawMany: jest.fn().mockResolvedValue([]),
+    };
+    return { queryBuilder, createQueryBuilder: jest.fn(() => queryBuilder) };
+  };
+
+  const jiraRepository = createSourceRepository();
+  const serviceNowRepository = createSourceRepository();
+  const slackRepository = createSourceRepository();
+  const teamsRepository = createSourceRepository();
+  const gmailRepository = createSourceRepository();
+  const outlookRepository = createSourceRepository();
+  const timelineRepository = createSourceRepository();
+
+  const mockManager = {
+    delete: jest.fn(),
+    find: jest.fn(),
+    save: jest.fn((entity: unknown, value: unknown) => Promise.resolve(value)),
+    create: jest.fn((entity: unknown, value: Partial<DetectionAggregate>) => value),
+  };
+
+  const mockAggregateRepository = {
+    find: jest.fn(),
+    manager: {
+      transaction: jest.fn((work: (manager: typeof mockManager) => Promise<void>) => work(mockManager)),
+    },
+  };
+
+  const mockStateRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockTextSimilarityService = {
+    groupBySimilarity: jest.fn((items: { id: string; text: string; date: Date }[]) =>
+      Promise.resolve(items.length > 0 ? { group: items } : {})),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DetectionAggregateService,
+        { provide: ConfigService, useValue: { get: jest.fn(() => undefined) } },
+        { provide: getRepositoryToken(DetectionAggregate), useValue: mockAggregateRepository },
+        { provide: getRepositoryToken(DetectionState), useValue: mockStateRepository },
+        { provide: getRepositoryToken(JiraIssue), useValue: jiraRepository },
+        { provide: getRepositoryToken(ServiceNowIncident), useValue: serviceNowRepository },
+        { provide: getRepositoryToken(SlackMessage), useValue: slackRepository },
+        { provide: getRepositoryToken(TeamsMessage), useValue: teamsRepository },
+        { provide: getRepositoryToken(GmailMessage), useValue: gmailRepository },
+        { provide: getRepositoryToken(OutlookMessage), useValue: outlookRepository },
+        { provide: getRepositoryToken(TimelineEvent), useValue: timelineRepository },
+        { provide: TextSimilarityService, useValue: mockTextSimilarityService },
+      ],
+    }).compile();
+
+    service = module.get<DetectionAggregateService>(DetectionAggregateService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should rebuild the aggregates from the whole window when there is no state yet', async () => {
+    mockStateRepository.findOne.mockResolvedValueOnce(null);
+    jiraRepository.queryBuilder.getMany.mockResolvedValueOnce([
+      { id: 1, summary: 'Login timeout', priority: 'Critical', jiraCreatedAt: new Date('2026-02-27T08:00:00Z') },
+      { id: 2, summary: 'Login timeout again', priority: 'Low', jiraCreatedAt: new Date('2026-02-27T09:00:00Z') },
+    ]);
+    slackRepository.queryBuilder.getMany.mockResolvedValueOnce([
+      { id: 5, text: 'Major OUTAGE and latency in eu', slackCreatedAt: new Date('2026-02-28T10:00:00Z') },
+    ]);
+    mockManager.find.mockResolvedValueOnce([]);
+    mockAggregateRepository.find.mockImplementationOnce(() =>
+      Promise.resolve(mockManager.save.mock.calls[0][1]));
+
+    const result = await service.refresh(1, 90, settings, asOf);
+
+    expect(result.rebuilt).toBe(true);
+    expect(result.recordsProcessed).toBe(3);
+    expect(result.watermark).toBe(asOf);
+    expect(jiraRepository.queryBuilder.andWhere).not.toHaveBeenCalledWith(expect.stringContaining(':since'), expect.anything());
+    expect(mockManager.delete).toHaveBeenCalledWith(DetectionAggregate, { tenantId: 1 });
+
+    expect(result.aggregates.volumes).toEqual({
+      jira: { '2026-02-27': 2 },
+      jira_critical: { '2026-02-27': 1 },
+      slack: { '2026-02-28': 1 },
+    });
+    expect(result.aggregates.keywordMentions).toEqual({
+      outage: { slack: { '2026-02-28': 1 } },
+      latency: { slack: { '2026-02-28': 1 } },
+    });
+    expect(result.aggregates.patternGroups.jira!.group.map(item => item.id)).toEqual(['1', '2']);
+
+    expect(mockManager.save).toHaveBeenLastCalledWith(DetectionState, expect.objectContaining({
+      tenantId: 1,
+      watermark: asOf,
+      daysBack: 90,
+      keywords: ['outage', 'latency'],
+      rebuiltAt: asOf,
+    }));
+  });
+
+  it('should only read rows ingested after the watermark and add them to the stored counts', async () => {
+    const watermark = new Date('2026-03-01T06:00:00Z');
+    mockStateRepository.findOne.mockResolvedValueOnce({
+      id: 3,
+      tenantId: 1,
+      watermark,
+      daysBack: 90,
+      keywords: ['latency', 'outage'],
+      rebuiltAt: new Date('2026-03-01T00:00:00Z'),
+      patternItems: {
+        jira: [
+          { id: '1', text: 'Login timeout', date: '2026-02-27T08:00:00.000Z' },
+          { id: '0', text: 'Outside the window', date: '2025-10-01T08:00:00.000Z' },
+        ],
+      },
+    });
+    jiraRepository.queryBuilder.getMany.mockResolvedValueOnce([
+      { id: 9, summary: 'Login timeout on mobile', priority: 'Medium', jiraCreatedAt: new Date('2026-02-27T20:00:00Z') },
+    ]);
+    const storedRow = { id: 40, tenantId: 1, series: 'jira', keyword: '', day: '2026-02-27', count: 2 };
+    mockManager.find.mockResolvedValueOnce([storedRow]);
+    mockAggregateRepository.find.mockResolvedValueOnce([storedRow]);
+
+    const result = await service.refresh(1, 90, settings, asOf);
+
+    expect(result.rebuilt).toBe(false);
+    expect(result.recordsProcessed).toBe(1);
+    expect(jiraRepository.queryBuilder.andWhere).toHaveBeenCalledWith('issue.createdAt > :since', { since: watermark });
+    expect(mockManager.delete).toHaveBeenCalledWith(DetectionAggregate, { tenantId: 1, day: expect.anything() });
+    expect(storedRow.count).toBe(3);
+    expect(result.aggregates.volumes.jira).toEqual({ '2026-02-27': 3 });
+    expect(result.aggregates.patternGroups.jira!.group.map(item => item.id)).toEqual(['1', '9']);
+    expect(mockManager.save).toHaveBeenLastCalledWith(DetectionState, expect.objectContaining({
+      id: 3,
+      watermark: asOf,
+      rebuiltAt: new Date('2026-03-01T00:00:00Z'),
+    }));
+  });
+
+  it('should rebuild when the tracked keywords change', async () => {
+    mockStateRepository.findOne.mockResolvedValueOnce({
+      id: 3,
+      tenantId: 1,
+      watermark: new Date('2026-03-01T06:00:00Z'),
+      daysBack: 90,
+      keywords: ['outage'],
+      rebuiltAt: new Date('2026-03-01T00:00:00Z'),
+      patternItems: {},
+    });
+    mockAggregateRepository.find.mockResolvedValueOnce([]);
+
+    const result = await service.refresh(1, 90, settings, asOf);
+
+    expect(result.rebuilt).toBe(true);
+    expect(mockManager.delete).toHaveBeenCalledWith(DetectionAggregate, { tenantId: 1 });
+  });
+
+  it('should count daily volumes in the database', async () => {
+    const start = new Date('2026-02-01T00:00:00Z');
+    jiraRepository.queryBuilder.getRawMany
+      .mockResolvedValueOnce([{ day: '2026-02-27', count: '4' }])
+      .mockResolvedValueOnce([{ day: '2026-02-27', count: '1' }]);
+    slackRepository.queryBuilder.getRawMany.mockResolvedValueOnce([
+      { day: '2026-02-27', count: '2' },
+      { day: '2026-02-28', count: '7' },
+    ]);
+
+    const volumes = await service.countDailyVolumes(1, start, asOf);
+
+    expect(volumes).toMatchObject({
+      jira: { '2026-02-27': 4 },
+      jira_critical: { '2026-02-27': 1 },
+      slack: { '2026-02-27': 2, '2026-02-28': 7 },
+      teams: {},
+    });
+    expect(jiraRepository.queryBuilder.getMany).not.toHaveBeenCalled();
+    expect(jiraRepository.queryBuilder.where).toHaveBeenCalledWith('issue.tenantId = :tenantId', { tenantId: 1 });
+    expect(jiraRepository.queryBuilder.groupBy).toHaveBeenCalledWith('day');
+  });
+});
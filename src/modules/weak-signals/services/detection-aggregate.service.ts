@@ -0,0 +1,545 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, LessThan, EntityManager, ObjectLiteral } from 'typeorm';
+import { DetectionAggregate } from '../entities/detection-aggregate.entity';
+import { DetectionState, StoredPatternItem } from '../entities/detection-state.entity';
+import { JiraIssue } from '../../jira/entities/jira-issue.entity';
+import { ServiceNowIncident } from '../../servicenow/entities/servicenow-incident.entity';
+import { SlackMessage } from '../../slack/entities/slack-message.entity';
+import { TeamsMessage } from '../../teams/entities/teams-message.entity';
+import { GmailMessage } from '../../gmail/entities/gmail-message.entity';
+import { OutlookMessage } from '../../outlook/entities/outlook-message.entity';
+import { TimelineEvent } from '../../timeline/entities/timeline-event.entity';
+import { TextSimilarityService } from './text-similarity.service';
+import { DetectionSettings } from '../interfaces/detection-settings.interface';
+import {
+  DailyCounts,
+  DetectionAggregates,
+  GroupedSource,
+  MessageSource,
+  VolumeSeries,
+} from '../interfaces/detection-aggregate.interface';
+
+/**
+ * Rows read from a source table per query
+ */
+const BATCH_SIZE = 1000;
+
+/**
+ * Stored pattern item texts are only used for grouping and pattern descriptions
+ */
+const MAX_ITEM_TEXT_LENGTH = 200;
+
+export interface AggregateRefreshResult {
+  aggregates: DetectionAggregates;
+  rebuilt: boolean;
+  watermark: Date;
+  recordsProcessed: number;
+}
+
+/**
+ * Counts collected from the rows read in one refresh, keyed by series|keyword|day
+ */
+type Deltas = Map<string, number>;
+
+/**
+ * Row of a per-day count query
+ */
+interface DailyCountRow {
+  day: string;
+  count: string;
+}
+
+/**
+ * Keeps per-tenant rolling aggregates (daily volumes, keyword mentions and pattern
+ * candidates) so detection runs only read source rows ingested since the last run.
+ * The watermark is the ingestion time (createdAt) of source rows, so late-synced
+ * history is still counted on the day it happened.
+ */
+@Injectable()
+export class DetectionAggregateService {
+  private readonly logger = new Logger(DetectionAggregateService.name);
+  private readonly rebuildHours: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(DetectionAggregate)
+    private readonly aggregateRepository: Repository<DetectionAggregate>,
+    @InjectRepository(DetectionState)
+    private readonly stateRepository: Repository<DetectionState>,
+    @InjectRepository(JiraIssue)
+    private readonly jiraIssueRepository: Repository<JiraIssue>,
+    @InjectRepository(ServiceNowIncident)
+    private readonly serviceNowIncidentRepository: Repository<ServiceNowIncident>,
+    @InjectRepository(SlackMessage)
+    private readonly slackMessageRepository: Repository<SlackMessage>,
+    @InjectRepository(TeamsMessage)
+    private readonly teamsMessageRepository: Repository<TeamsMessage>,
+    @InjectRepository(GmailMessage)
+    private readonly gmailMessageRepository: Repository<GmailMessage>,
+    @InjectRepository(OutlookMessage)
+    private readonly outlookMessageRepository: Repository<OutlookMessage>,
+    @InjectRepository(TimelineEvent)
+    private readonly timelineEventRepository: Repository<TimelineEvent>,
+    private readonly textSimilarityService: TextSimilarityService,
+  ) {
+    // Periodic rebuilds pick up edits and deletions that a createdAt watermark cannot see
+    this.rebuildHours = parseInt(this.configService.get<string>('WEAK_SIGNAL_INCREMENTAL_REBUILD_HOURS') || '24', 10);
+  }
+
+  /**
+   * Advance the tenant's aggregates to asOf and return them for detection.
+   * Aggregates are rebuilt from scratch when there is no state yet, the window or
+   * keywords changed, or the last rebuild is older than the rebuild interval.
+   */
+  async refresh(
+    tenantId: number,
+    daysBack: number,
+    settings: DetectionSettings,
+    asOf: Date = new Date(),
+  ): Promise<AggregateRefreshResult> {
+    const windowStart = new Date(asOf);
+    windowStart.setDate(windowStart.getDate() - daysBack);
+
+    const state = await this.stateRepository.findOne({ where: { tenantId } });
+    const rebuild = this.needsRebuild(state, daysBack, settings.keywords, asOf);
+    const since = rebuild || !state ? null : state.watermark;
+
+    this.logger.log(
+      `Refreshing detection aggregates for tenant ${tenantId} ` +
+      (since ? `from watermark ${since.toISOString()}` : `with a full rebuild over ${daysBack} days`),
+    );
+
+    const deltas: Deltas = new Map();
+    const newItems: Partial<Record<GroupedSource, StoredPatternItem[]>> = {};
+    const recordsProcessed = await this.scanSources(tenantId, settings.keywords, windowStart, since, asOf, deltas, newItems);
+
+    const patternItems = this.mergePatternItems(rebuild ? {} : state?.patternItems || {}, newItems, windowStart);
+
+    await this.aggregateRepository.manager.transaction(async manager => {
+      const windowStartDay = this.dayKey(windowStart);
+
+      if (rebuild) {
+        await manager.delete(DetectionAggregate, { tenantId });
+      } else {
+        await manager.delete(DetectionAggregate, { tenantId, day: LessThan(windowStartDay) });
+      }
+
+      await this.applyDeltas(manager, tenantId, deltas);
+
+      await manager.save(DetectionState, {
+        ...(state || {}),
+        tenantId,
+        watermark: asOf,
+        daysBack,
+        keywords: [...settings.keywords],
+        patternItems,
+        rebuiltAt: rebuild ? asOf : state!.rebuiltAt,
+      });
+    });
+
+    const aggregates = await this.loadAggregates(tenantId, windowStart, asOf, patternItems, settings);
+
+    this.logger.log(
+      `Detection aggregates for tenant ${tenantId} ${rebuild ? 'rebuilt' : 'advanced'} from ${recordsProcessed} source rows`,
+    );
+
+    return { aggregates, rebuilt: rebuild, watermark: asOf, recordsProcessed };
+  }
+
+  /**
+   * Daily volumes of every series between start and end, counted by the database. For windows
+   * the rolling aggregates do not cover, e.g. lag analysis over a custom range.
+   */
+  async countDailyVolumes(tenantId: number, start: Date, end: Date): Promise<Partial<Record<VolumeSeries, DailyCounts>>> {
+    const range = { tenantId, start, end };
+    const criticalPriority = "(LOWER(issue.priority) LIKE '%critical%' OR LOWER(issue.priority) LIKE '%blocker%')";
+
+    const [jira, jiraCritical, servicenow, servicenowP1, slack, teams, gmail, outlook, timelineHighImpact] = await Promise.all([
+      this.countByDay(this.jiraIssueRepository, 'issue', 'jiraCreatedAt', range),
+      this.countByDay(this.jiraIssueRepository, 'issue', 'jiraCreatedAt', range, criticalPriority),
+      this.countByDay(this.serviceNowIncidentRepository, 'incident', 'sysCreatedOn', range),
+      this.countByDay(this.serviceNowIncidentRepository, 'incident', 'sysCreatedOn', range, "incident.priority = '1'"),
+      this.countByDay(this.slackMessageRepository, 'message', 'slackCreatedAt', range),
+      this.countByDay(this.teamsMessageRepository, 'message', 'createdDateTime', range),
+      this.countByDay(this.gmailMessageRepository, 'message', 'gmailCreatedAt', range),
+      this.countByDay(this.outlookMessageRepository, 'message', 'outlookCreatedAt', range),
+      this.countByDay(this.timelineEventRepository, 'event', 'eventDate', range, "event.isActive = true AND event.impactLevel = 'high'"),
+    ]);
+
+    return {
+      jira,
+      jira_critical: jiraCritical,
+      servicenow,
+      servicenow_p1: servicenowP1,
+      slack,
+      teams,
+      gmail,
+      outlook,
+      timeline_high_impact: timelineHighImpact,
+    };
+  }
+
+  private needsRebuild(state: DetectionState | null, daysBack: number, keywords: string[], asOf: Date): boolean {
+    if (!state) {
+      return true;
+    }
+
+    if (state.daysBack !== daysBack) {
+      return true;
+    }
+
+    const storedKeywords = [...(state.keywords || [])].sort();
+    const currentKeywords = [...keywords].sort();
+    if (storedKeywords.length !== currentKeywords.length || storedKeywords.some((k, i) => k !== currentKeywords[i])) {
+      return true;
+    }
+
+    return asOf.getTime() - new Date(state.rebuiltAt).getTime() >= this.rebuildHours * 60 * 60 * 1000;
+  }
+
+  /**
+   * Read every source row ingested in (since, asOf] whose source date falls in the window
+   */
+  private async scanSources(
+    tenantId: number,
+    keywords: string[],
+    windowStart: Date,
+    since: Date | null,
+    asOf: Date,
+    deltas: Deltas,
+    items: Partial<Record<GroupedSource, StoredPatternItem[]>>,
+  ): Promise<number> {
+    const range = { tenantId, windowStart, since, asOf };
+    let processed = 0;
+
+    processed += await this.scanInBatches(
+      this.jiraIssueRepository,
+      'issue',
+      ['id', 'jiraCreatedAt', 'createdAt', 'summary', 'priority'],
+      'jiraCreatedAt',
+      range,
+      issues => {
+        for (const issue of issues) {
+          const date = issue.jiraCreatedAt || issue.createdAt;
+          const priority = (issue.priority || '').toLowerCase();
+          this.addCount(deltas, 'jira', '', date);
+          if (priority.includes('critical') || priority.includes('blocker')) {
+            this.addCount(deltas, 'jira_critical', '', date);
+          }
+          this.addItem(items, 'jira', issue.id, issue.summary, date);
+        }
+      },
+    );
+
+    processed += await this.scanInBatches(
+      this.serviceNowIncidentRepository,
+      'incident',
+      ['id', 'sysCreatedOn', 'createdAt', 'shortDescription', 'description', 'priority'],
+      'sysCreatedOn',
+      range,
+      incidents => {
+        for (const incident of incidents) {
+          const date = incident.sysCreatedOn || incident.createdAt;
+          this.addCount(deltas, 'servicenow', '', date);
+          if (incident.priority === '1') {
+            this.addCount(deltas, 'servicenow_p1', '', date);
+          }
+          this.addItem(items, 'servicenow', incident.id, incident.shortDescription || incident.description || '', date);
+        }
+      },
+    );
+
+    processed += await this.scanInBatches(
+      this.slackMessageRepository,
+      'message',
+      ['id', 'slackCreatedAt', 'createdAt', 'text'],
+      'slackCreatedAt',
+      range,
+      messages => {
+        for (const message of messages) {
+          this.addMessage(deltas, 'slack', keywords, message.text || '', message.slackCreatedAt || message.createdAt);
+        }
+      },
+    );
+
+    processed += await this.scanInBatches(
+      this.teamsMessageRepository,
+      'message',
+      ['id', 'createdDateTime', 'createdAt', 'content'],
+      'createdDateTime',
+      range,
+      messages => {
+        for (const message of messages) {
+          this.addMessage(deltas, 'teams', keywords, message.content || '', message.createdDateTime || message.createdAt);
+        }
+      },
+    );
+
+    processed += await this.scanInBatches(
+      this.gmailMessageRepository,
+      'message',
+      ['id', 'gmailCreatedAt', 'createdAt', 'subject', 'bodyText'],
+      'gmailCreatedAt',
+      range,
+      messages => {
+        for (const message of messages) {
+          const text = `${message.subject} ${message.bodyText || ''}`;
+          this.addMessage(deltas, 'gmail', keywords, text, message.gmailCreatedAt || message.createdAt);
+        }
+      },
+    );
+
+    processed += await this.scanInBatches(
+      this.outlookMessageRepository,
+      'message',
+      ['id', 'outlookCreatedAt', 'createdAt', 'subject', 'bodyText'],
+      'outlookCreatedAt',
+      range,
+      messages => {
+        for (const message of messages) {
+          const text = `${message.subject} ${message.bodyText || ''}`;
+          this.addMessage(deltas, 'outlook', keywords, text, message.outlookCreatedAt || message.createdAt);
+        }
+      },
+    );
+
+    processed += await this.scanInBatches(
+      this.timelineEventRepository,
+      'event',
+      ['id', 'eventDate', 'createdAt', 'title', 'impactLevel', 'isActive'],
+      'eventDate',
+      range,
+      events => {
+        for (const event of events.filter(e => e.isActive)) {
+          if (event.impactLevel === 'high') {
+            this.addCount(deltas, 'timeline_high_impact', '', event.eventDate);
+          }
+          this.addItem(items, 'timeline', event.id, event.title, event.eventDate);
+        }
+      },
+    );
+
+    return processed;
+  }
+
+  /**
+   * Page through matching rows by primary key so memory stays bounded for large tenants
+   */
+  private async scanInBatches<T extends ObjectLiteral & { id: number }>(
+    repository: Repository<T>,
+    alias: string,
+    columns: string[],
+    dateColumn: string,
+    range: { tenantId: number; windowStart: Date; since: Date | null; asOf: Date },
+    onBatch: (rows: T[]) => void,
+  ): Promise<number> {
+    let lastId = 0;
+    let processed = 0;
+
+    while (true) {
+      const queryBuilder = repository
+        .createQueryBuilder(alias)
+        .select(columns.map(column => `${alias}.${column}`))
+        .where(`${alias}.tenantId = :tenantId`, { tenantId: range.tenantId })
+        .andWhere(`${alias}.${dateColumn} BETWEEN :windowStart AND :asOf`, { windowStart: range.windowStart, asOf: range.asOf })
+        .andWhere(`${alias}.createdAt <= :asOf`, { asOf: range.asOf })
+        .andWhere(`${alias}.id > :lastId`, { lastId })
+        .orderBy(`${alias}.id`, 'ASC')
+        .take(BATCH_SIZE);
+
+      if (range.since) {
+        queryBuilder.andWhere(`${alias}.createdAt > :since`, { since: range.since });
+      }
+
+      const rows = await queryBuilder.getMany();
+      if (rows.length === 0) {
+        break;
+      }
+
+      onBatch(rows);
+      processed += rows.length;
+      lastId = rows[rows.length - 1].id;
+
+      if (rows.length < BATCH_SIZE) {
+        break;
+      }
+    }
+
+    return processed;
+  }
+
+  private addMessage(deltas: Deltas, source: MessageSource, keywords: string[], text: string, date: Date): void {
+    this.addCount(deltas, source, '', date);
+
+    // Same substring match as the full keyword spike scan
+    const textLower = text.toLowerCase();
+    for (const keyword of keywords) {
+      if (textLower.includes(keyword)) {
+        this.addCount(deltas, source, keyword, date);
+      }
+    }
+  }
+
+  private addCount(deltas: Deltas, series: string, keyword: string, date: Date): void {
+    const key = `${series}|${keyword}|${this.dayKey(date)}`;
+    deltas.set(key, (deltas.get(key) || 0) + 1);
+  }
+
+  private addItem(
+    items: Partial<Record<GroupedSource, StoredPatternItem[]>>,
+    source: GroupedSource,
+    id: number,
+    text: string,
+    date: Date,
+  ): void {
+    if (!items[source]) {
+      items[source] = [];
+    }
+    items[source]!.push({
+      id: id.toString(),
+      text: (text || '').substring(0, MAX_ITEM_TEXT_LENGTH),
+      date: date.toISOString(),
+    });
+  }
+
+  /**
+   * Combine stored and newly read items, replacing re-read rows and dropping items outside the window
+   */
+  private mergePatternItems(
+    stored: Partial<Record<GroupedSource, StoredPatternItem[]>>,
+    added: Partial<Record<GroupedSource, StoredPatternItem[]>>,
+    windowStart: Date,
+  ): Partial<Record<GroupedSource, StoredPatternItem[]>> {
+    const merged: Partial<Record<GroupedSource, StoredPatternItem[]>> = {};
+
+    for (const source of ['jira', 'servicenow', 'timeline'] as GroupedSource[]) {
+      const byId = new Map<string, StoredPatternItem>();
+      for (const item of [...(stored[source] || []), ...(added[source] || [])]) {
+        byId.set(item.id, item);
+      }
+
+      merged[source] = Array.from(byId.values()).filter(item => new Date(item.date) >= windowStart);
+    }
+
+    return merged;
+  }
+
+  /**
+   * Add the collected counts to the stored daily rows
+   */
+  private async applyDeltas(manager: EntityManager, tenantId: number, deltas: Deltas): Promise<void> {
+    if (deltas.size === 0) {
+      return;
+    }
+
+    const days = new Set<string>();
+    for (const key of deltas.keys()) {
+      days.add(key.split('|')[2]);
+    }
+
+    const existing = await manager.find(DetectionAggregate, {
+      where: { tenantId, day: In(Array.from(days)) },
+    });
+    const rowsByKey = new Map(existing.map(row => [`${row.series}|${row.keyword}|${row.day}`, row]));
+
+    const changed: DetectionAggregate[] = [];
+    for (const [key, count] of deltas) {
+      const row = rowsByKey.get(key);
+      if (row) {
+        row.count += count;
+        changed.push(row);
+      } else {
+        const [series, keyword, day] = key.split('|');
+        changed.push(manager.create(DetectionAggregate, { tenantId, series, keyword, day, count }));
+      }
+    }
+
+    await manager.save(DetectionAggregate, changed, { chunk: 500 });
+  }
+
+  /**
+   * Read the stored daily rows back into the shape the detectors consume
+   */
+  private async loadAggregates(
+    tenantId: number,
+    windowStart: Date,
+    asOf: Date,
+    patternItems: Partial<Record<GroupedSource, StoredPatternItem[]>>,
+    settings: DetectionSettings,
+  ): Promise<DetectionAggregates> {
+    const rows = await this.aggregateRepository.find({ where: { tenantId } });
+    const windowStartDay = this.dayKey(windowStart);
+
+    const aggregates: DetectionAggregates = {
+      windowStart,
+      asOf,
+      volumes: {},
+      keywordMentions: {},
+      patternGroups: {},
+    };
+
+    for (const row of rows) {
+      if (row.day < windowStartDay) {
+        continue;
+      }
+
+      if (row.keyword) {
+        const source = row.series as MessageSource;
+        const mentions = aggregates.keywordMentions[row.keyword] || (aggregates.keywordMentions[row.keyword] = {});
+        const counts = mentions[source] || (mentions[source] = {});
+        counts[row.day] = row.count;
+      } else {
+        const series = row.series as VolumeSeries;
+        const counts = aggregates.volumes[series] || (aggregates.volumes[series] = {});
+        counts[row.day] = row.count;
+      }
+    }
+
+    for (const source of ['jira', 'servicenow', 'timeline'] as GroupedSource[]) {
+      aggregates.patternGroups[source] = await this.textSimilarityService.groupBySimilarity(
+        (patternItems[source] || []).map(item => ({ id: item.id, text: item.text, date: new Date(item.date) })),
+        source,
+        { threshold: settings.similarityThresholds[source], tenantId },
+      );
+    }
+
+    return aggregates;
+  }
+
+  /**
+   * Rows per UTC day of the date column, grouped in the database
+   */
+  private async countByDay<T extends ObjectLiteral>(
+    repository: Repository<T>,
+    alias: string,
+    dateColumn: string,
+    range: { tenantId: number; start: Date; end: Date },
+    condition?: string,
+  ): Promise<DailyCounts> {
+    const dayExpression = `DATE_FORMAT(CONVERT_TZ(${alias}.${dateColumn}, @@session.time_zone, '+00:00'), '%Y-%m-%d')`;
+    const query = repository
+      .createQueryBuilder(alias)
+      .select(dayExpression, 'day')
+      .addSelect('COUNT(*)', 'count')
+      .where(`${alias}.tenantId = :tenantId`, { tenantId: range.tenantId })
+      .andWhere(`${alias}.${dateColumn} BETWEEN :start AND :end`, { start: range.start, end: range.end });
+
+    if (condition) {
+      query.andWhere(condition);
+    }
+
+    const rows = await query.groupBy('day').getRawMany<DailyCountRow>();
+
+    const counts: DailyCounts = {};
+    for (const row of rows) {
+      counts[row.day] = Number(row.count);
+    }
+    return counts;
+  }
+
+  private dayKey(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+}
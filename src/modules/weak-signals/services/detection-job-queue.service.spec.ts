@@ -0,0 +1,122 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { DetectionJobQueueService } from './detection-job-queue.service';
+import { InMemoryJobQueueDriver } from './in-memory-job-queue-driver.service';
+import { RedisJobQueueDriver } from './redis-job-queue-driver.service';
+import { JobHandler } from '../interfaces/job-queue.interface';
+
+describe('DetectionJobQueueService', () => {
+  let service: DetectionJobQueueService;
+  let driver: InMemoryJobQueueDriver;
+
+  const config: Record<string, string> = {
+    WEAK_SIGNAL_JOB_RETRY_DELAY_SECONDS: '0',
+    WEAK_SIGNAL_JOB_MAX_ATTEMPTS: '3',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DetectionJobQueueService,
+        InMemoryJobQueueDriver,
+        { provide: RedisJobQueueDriver, useValue: { name: 'redis', isAvailable: () => false } },
+        { provide: ConfigService, useValue: { get: jest.fn((key: string) => config[key]) } },
+      ],
+    }).compile();
+
+    service = module.get<DetectionJobQueueService>(DetectionJobQueueService);
+    driver = module.get<InMemoryJobQueueDriver>(InMemoryJobQueueDriver);
+  });
+
+  it('should fall back to the in-memory driver when Redis is not configured', () => {
+    expect(service.getDriverName()).toBe('memory');
+  });
+
+  it('should run queued jobs with the registered handler', async () => {
+    const handler = jest.fn<ReturnType<JobHandler>, Parameters<JobHandler>>(() => Promise.resolve());
+    service.registerHandler('detection', handler);
+
+    const job = await service.enqueue('detection', 1, { detectionRunId: 5 });
+
+    expect(await service.drain()).toBe(1);
+    expect(handler).toHaveBeenCalledTimes(1);
+    const [receivedJob, context] = handler.mock.calls[0];
+    expect(receivedJob).toMatchObject({ id: job.id, tenantId: 1, payload: { detectionRunId: 5 } });
+    expect(context).toMatchObject({ attempt: 1, isLastAttempt: false });
+    expect(await driver.reserve(1000)).toBeNull();
+  });
+
+  it('should retry failed jobs until the last attempt', async () => {
+    const attempts: [number, boolean][] = [];
+    service.registerHandler('detection', async (job, context) => {
+      attempts.push([context.attempt, context.isLastAttempt]);
+      throw new Error('database unavailable');
+    });
+
+    await service.enqueue('detection', 1, {});
+    await service.drain();
+
+    expect(attempts).toEqual([[1, false], [2, false], [3, true]]);
+    expect(await driver.reserve(1000)).toBeNull();
+  });
+
+  it('should not run two jobs of the same tenant at the same time', async () => {
+    const handler = jest.fn(() => Promise.resolve());
+    service.registerHandler('hypothesis_generation', handler);
+    await driver.acquireLock('tenant:1', 'other-instance', 60000);
+
+    await service.enqueue('hypothesis_generation', 1, {});
+    await service.enqueue('hypothesis_generation', 2, {});
+    await service.drain();
+
+    // Tenant 2 runs, tenant 1 waits for the lock without using up an attempt
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0]).toEqual([expect.objectContaining({ tenantId: 2 }), expect.anything()]);
+
+    expect(await driver.reserve(1000)).toBeNull();
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 20000);
+    expect(await driver.reserve(1000)).toMatchObject({ tenantId: 1, attempts: 0 });
+    jest.restoreAllMocks();
+  });
+
+  it('should not hand out a job again while its checkpoints keep coming', async () => {
+    let now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    const reservedWhileRunning: unknown[] = [];
+    service.registerHandler('backtest', async (job, context) => {
+      // Three checkpoints 45 minutes apart run well past the 60 minute TTL
+      for (let step = 0; step < 3; step++) {
+        now += 45 * 60 * 1000;
+        await context.checkpoint();
+        reservedWhileRunning.push(await driver.reserve(60 * 60 * 1000));
+      }
+    });
+
+    await service.enqueue('backtest', 1, {});
+    expect(await service.drain()).toBe(1);
+
+    expect(reservedWhileRunning).toEqual([null, null, null]);
+    expect(await driver.reserve(1000)).toBeNull();
+    jest.restoreAllMocks();
+  });
+
+  it('should remove waiting jobs and stop running jobs at their next checkpoint', async () => {
+    const waiting = await service.enqueue('detection', 1, {});
+    expect(await service.cancel(waiting.id)).toBe('removed');
+    expect(await service.drain()).toBe(0);
+
+    let reachedCheckpoint = false;
+    service.registerHandler('detection', async (job, context) => {
+      expect(await service.cancel(job.id)).toBe('requested');
+      await context.checkpoint();
+      reachedCheckpoint = true;
+    });
+
+    await service.enqueue('detection', 1, {});
+    await service.drain();
+
+    expect(reachedCheckpoint).toBe(false);
+    // Cancelled jobs are not retried
+    expect(await driver.reserve(1000)).toBeNull();
+  });
+});
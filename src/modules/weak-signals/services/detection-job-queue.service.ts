@@ -0,0 +1,222 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { v4 as uuidv4 } from 'uuid';
+import { InMemoryJobQueueDriver } from './in-memory-job-queue-driver.service';
+import { RedisJobQueueDriver } from './redis-job-queue-driver.service';
+import {
+  DetectionJobType,
+  JobContext,
+  JobHandler,
+  JobQueueDriver,
+  QueueJob,
+} from '../interfaces/job-queue.interface';
+
+/**
+ * Thrown from JobContext.checkpoint() when a job was cancelled while running
+ */
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+/**
+ * Wait before retrying a job whose tenant is locked by another job
+ */
+const LOCK_RETRY_DELAY_MS = 15000;
+
+/**
+ * Queue for detection, hypothesis generation, backtest and lag scan jobs. Jobs of the same tenant never run
+ * at the same time, across every app instance sharing the driver. Failed jobs are retried
+ * with exponential backoff.
+ */
+@Injectable()
+export class DetectionJobQueueService implements OnModuleDestroy {
+  private readonly logger = new Logger(DetectionJobQueueService.name);
+  private readonly driver: JobQueueDriver;
+  private readonly handlers = new Map<DetectionJobType, JobHandler>();
+  private readonly workerId = uuidv4();
+  private readonly lockTtlMs: number;
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
+  private readonly pollIntervalMs: number;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly inMemoryJobQueueDriver: InMemoryJobQueueDriver,
+    private readonly redisJobQueueDriver: RedisJobQueueDriver,
+  ) {
+    // Default to Redis whenever it is configured so that all instances share one queue
+    const configured = this.configService.get<string>('WEAK_SIGNAL_JOB_QUEUE_DRIVER')
+      || (this.redisJobQueueDriver.isAvailable() ? 'redis' : 'memory');
+    this.driver = configured === 'redis' && this.redisJobQueueDriver.isAvailable()
+      ? this.redisJobQueueDriver
+      : this.inMemoryJobQueueDriver;
+
+    this.lockTtlMs = parseInt(this.configService.get<string>('WEAK_SIGNAL_JOB_LOCK_TTL_MINUTES') || '60', 10) * 60 * 1000;
+    this.maxAttempts = parseInt(this.configService.get<string>('WEAK_SIGNAL_JOB_MAX_ATTEMPTS') || '3', 10);
+    this.retryDelayMs = parseInt(this.configService.get<string>('WEAK_SIGNAL_JOB_RETRY_DELAY_SECONDS') || '30', 10) * 1000;
+    this.pollIntervalMs = parseInt(this.configService.get<string>('WEAK_SIGNAL_JOB_POLL_INTERVAL_SECONDS') || '5', 10) * 1000;
+
+    this.logger.log(`Detection job queue using ${this.driver.name} driver`);
+  }
+
+  onModuleDestroy(): void {
+    this.stopWorker();
+  }
+
+  getDriverName(): string {
+    return this.driver.name;
+  }
+
+  registerHandler(type: DetectionJobType, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Poll the queue in the background of this instance
+   */
+  startWorker(): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    this.pollTimer = setInterval(() => {
+      this.drain().catch(error => this.logger.error(`Job worker failed: ${error.message}`, error.stack));
+    }, this.pollIntervalMs);
+
+    this.logger.log(`Detection job worker ${this.workerId} started (polling every ${this.pollIntervalMs}ms)`);
+  }
+
+  stopWorker(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  async enqueue(
+    type: DetectionJobType,
+    tenantId: number,
+    payload: Record<string, any>,
+    options?: { delayMs?: number; maxAttempts?: number },
+  ): Promise<QueueJob> {
+    const now = Date.now();
+    const job: QueueJob = {
+      id: uuidv4(),
+      type,
+      tenantId,
+      payload,
+      attempts: 0,
+      maxAttempts: options?.maxAttempts ?? this.maxAttempts,
+      availableAt: now + (options?.delayMs ?? 0),
+      enqueuedAt: now,
+    };
+
+    await this.driver.enqueue(job);
+    this.logger.log(`Queued ${type} job ${job.id} for tenant ${tenantId}`);
+
+    return job;
+  }
+
+  /**
+   * Cancel a job. Waiting jobs are removed right away; running jobs stop at their next checkpoint.
+   */
+  async cancel(jobId: string): Promise<'removed' | 'requested'> {
+    if (await this.driver.remove(jobId)) {
+      this.logger.log(`Removed queued job ${jobId}`);
+      return 'removed';
+    }
+
+    await this.driver.requestCancel(jobId);
+    this.logger.log(`Requested cancellation of running job ${jobId}`);
+    return 'requested';
+  }
+
+  /**
+   * Run jobs until none are due. Only one drain runs per instance at a time.
+   */
+  async drain(): Promise<number> {
+    if (this.processing) {
+      return 0;
+    }
+
+    this.processing = true;
+    let processed = 0;
+    try {
+      while (await this.processNext()) {
+        processed++;
+      }
+    } finally {
+      this.processing = false;
+    }
+
+    return processed;
+  }
+
+  /**
+   * Reserve and run the next due job. Returns false when the queue has nothing due.
+   */
+  async processNext(): Promise<boolean> {
+    const job = await this.driver.reserve(this.lockTtlMs);
+    if (!job) {
+      return false;
+    }
+
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      this.logger.error(`No handler registered for ${job.type} job ${job.id}, dropping it`);
+      await this.driver.complete(job.id);
+      return true;
+    }
+
+    const lockKey = `tenant:${job.tenantId}`;
+    const lockToken = `${this.workerId}:${job.id}`;
+    if (!(await this.driver.acquireLock(lockKey, lockToken, this.lockTtlMs))) {
+      this.logger.debug(`Tenant ${job.tenantId} is locked, delaying ${job.type} job ${job.id}`);
+      await this.driver.release(job, LOCK_RETRY_DELAY_MS);
+      return true;
+    }
+
+    job.attempts++;
+    const context: JobContext = {
+      jobId: job.id,
+      attempt: job.attempts,
+      isLastAttempt: job.attempts >= job.maxAttempts,
+      checkpoint: async () => {
+        if (await this.driver.isCancelRequested(job.id)) {
+          throw new JobCancelledError(job.id);
+        }
+        // Heartbeat: without it, runs longer than the TTL are handed out to a second worker
+        await this.driver.extendReservation(job.id, this.lockTtlMs);
+        await this.driver.extendLock(lockKey, lockToken, this.lockTtlMs);
+      },
+    };
+
+    try {
+      await handler(job, context);
+      await this.driver.complete(job.id);
+    } catch (error) {
+      if (error instanceof JobCancelledError) {
+        this.logger.log(`${job.type} job ${job.id} for tenant ${job.tenantId} was cancelled`);
+        await this.driver.complete(job.id);
+      } else if (!context.isLastAttempt) {
+        const delayMs = this.retryDelayMs * Math.pow(2, job.attempts - 1);
+        this.logger.warn(
+          `${job.type} job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${delayMs}ms: ${error.message}`,
+        );
+        await this.driver.release(job, delayMs);
+      } else {
+        this.logger.error(`${job.type} job ${job.id} failed after ${job.attempts} attempts: ${error.message}`, error.stack);
+        await this.driver.complete(job.id);
+      }
+    } finally {
+      await this.driver.releaseLock(lockKey, lockToken);
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,116 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { DetectionSettingsService, DEFAULT_DETECTION_SETTINGS } from './detection-settings.service';
+import { DetectionProfile } from '../entities/detection-profile.entity';
+
+describe('DetectionSettingsService', () => {
+  let service: DetectionSettingsService;
+
+  const mockProfileRepository = {
+    findOne: jest.fn(),
+    create: jest.fn((profile) => ({ ...profile })),
+    save: jest.fn((profile) => Promise.resolve({ id: 1, ...profile })),
+    delete: jest.fn(),
+  };
+
+  const storedProfile = (overrides: Partial<DetectionProfile>): DetectionProfile =>
+    ({
+      id: 1,
+      tenantId: 1,
+      enabledDetectors: null,
+      patternThresholds: null,
+      keywords: null,
+      severityScoring: null,
+      accelerationFactors: null,
+      similarityThresholds: null,
+      updatedBy: null,
+      ...overrides,
+    }) as DetectionProfile;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DetectionSettingsService,
+        { provide: getRepositoryToken(DetectionProfile), useValue: mockProfileRepository },
+      ],
+    }).compile();
+
+    service = module.get<DetectionSettingsService>(DetectionSettingsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getSettings', () => {
+    it('should return the defaults for tenants without a profile', async () => {
+      mockProfileRepository.findOne.mockResolvedValueOnce(null);
+
+      expect(await service.getSettings(1)).toEqual(DEFAULT_DETECTION_SETTINGS);
+    });
+
+    it('should layer stored overrides over the defaults', async () => {
+      mockProfileRepository.findOne.mockResolvedValueOnce(
+        storedProfile({ patternThresholds: { minIssueOccurrences: 6 }, keywords: ['latency'] }),
+      );
+
+      const settings = await service.getSettings(1);
+
+      expect(settings.patternThresholds.minIssueOccurrences).toBe(6);
+      expect(settings.patternThresholds.minIncidentOccurrences).toBe(3);
+      expect(settings.keywords).toEqual(['latency']);
+      expect(settings.enabledDetectors).toEqual(DEFAULT_DETECTION_SETTINGS.enabledDetectors);
+    });
+  });
+
+  describe('saveProfile', () => {
+    it('should merge partial updates into the stored profile', async () => {
+      mockProfileRepository.findOne.mockResolvedValueOnce(
+        storedProfile({ accelerationFactors: { minFactor: 2 }, keywords: ['latency'] }),
+      );
+
+      const saved = await service.saveProfile(1, { accelerationFactors: { criticalFactor: 6 } }, 7);
+
+      expect(saved.accelerationFactors).toEqual({ minFactor: 2, criticalFactor: 6 });
+      expect(saved.keywords).toEqual(['latency']);
+      expect(saved.updatedBy).toBe(7);
+    });
+
+    it('should reset omitted sections when replacing', async () => {
+      mockProfileRepository.findOne.mockResolvedValueOnce(storedProfile({ keywords: ['latency'] }));
+
+      const saved = await service.saveProfile(1, { enabledDetectors: ['pattern', 'trend'] }, 7, true);
+
+      expect(saved.enabledDetectors).toEqual(['pattern', 'trend']);
+      expect(saved.keywords).toBeNull();
+    });
+
+    it('should normalize keywords', async () => {
+      mockProfileRepository.findOne.mockResolvedValueOnce(null);
+
+      const saved = await service.saveProfile(1, { keywords: [' Latency', 'latency', 'OOM', ''] }, 7);
+
+      expect(saved.tenantId).toBe(1);
+      expect(saved.keywords).toEqual(['latency', 'oom']);
+    });
+
+    it('should reject severity tiers that are out of order', async () => {
+      mockProfileRepository.findOne.mockResolvedValueOnce(null);
+
+      await expect(service.saveProfile(1, { severityScoring: { highScore: 9 } }, 7)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockProfileRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteProfile', () => {
+    it('should report whether a profile was removed', async () => {
+      mockProfileRepository.delete.mockResolvedValueOnce({ affected: 1 });
+
+      expect(await service.deleteProfile(1)).toBe(true);
+      expect(mockProfileRepository.delete).toHaveBeenCalledWith({ tenantId: 1 });
+    });
+  });
+});
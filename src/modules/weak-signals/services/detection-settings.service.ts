@@ -0,0 +1,184 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { DetectionProfile } from '../entities/detection-profile.entity';
+import { DetectionSettings } from '../interfaces/detection-settings.interface';
+
+/**
+ * Settings used for tenants without a detection profile. These match the values
+ * the detectors used before they became configurable.
+ */
+export const DEFAULT_DETECTION_SETTINGS: DetectionSettings = {
+  enabledDetectors: ['pattern', 'trend', 'anomaly', 'correlation'],
+  patternThresholds: {
+    minIssueOccurrences: 3,
+    minIncidentOccurrences: 3,
+    minTimelineOccurrences: 2,
+    minKeywordMentions: 5,
+    minRecentKeywordMentions: 3,
+    keywordSpikeRatio: 2,
+  },
+  keywords: [
+    'error',
+    'failure',
+    'crash',
+    'down',
+    'outage',
+    'timeout',
+    'slow',
+    'performance',
+    'bug',
+    'issue',
+    'problem',
+    'critical',
+    'urgent',
+    'broken',
+    'failed',
+    'exception',
+    'warning',
+    'alert',
+    'incident',
+    'degraded',
+    'unavailable',
+  ],
+  severityScoring: {
+    criticalScore: 8,
+    highScore: 6,
+    mediumScore: 4,
+    recurrenceWeight: 2,
+  },
+  accelerationFactors: {
+    minFactor: 1.5,
+    minChangeRate: 15,
+    mediumFactor: 2,
+    highFactor: 3,
+    criticalFactor: 4,
+  },
+  similarityThresholds: {},
+};
+
+export type DetectionProfileInput = Partial<
+  Pick<
+    DetectionProfile,
+    'enabledDetectors' | 'patternThresholds' | 'keywords' | 'severityScoring' | 'accelerationFactors' | 'similarityThresholds'
+  >
+>;
+
+@Injectable()
+export class DetectionSettingsService {
+  private readonly logger = new Logger(DetectionSettingsService.name);
+
+  constructor(
+    @InjectRepository(DetectionProfile)
+    private readonly detectionProfileRepository: Repository<DetectionProfile>,
+  ) {}
+
+  /**
+   * Effective detection settings for a tenant: its profile layered over the defaults
+   */
+  async getSettings(tenantId: number): Promise<DetectionSettings> {
+    const profile = await this.getProfile(tenantId);
+    return this.resolveSettings(profile);
+  }
+
+  async getProfile(tenantId: number): Promise<DetectionProfile | null> {
+    return await this.detectionProfileRepository.findOne({ where: { tenantId } });
+  }
+
+  /**
+   * Create or update a tenant's detection profile.
+   * With replace, sections missing from the input go back to their defaults;
+   * otherwise they are merged into the stored profile.
+   */
+  async saveProfile(
+    tenantId: number,
+    input: DetectionProfileInput,
+    userId: number | null,
+    replace = false,
+  ): Promise<DetectionProfile> {
+    const profile = (await this.getProfile(tenantId)) || this.detectionProfileRepository.create({ tenantId });
+
+    if (replace) {
+      profile.enabledDetectors = input.enabledDetectors ?? null;
+      profile.patternThresholds = input.patternThresholds ?? null;
+      profile.keywords = input.keywords ?? null;
+      profile.severityScoring = input.severityScoring ?? null;
+      profile.accelerationFactors = input.accelerationFactors ?? null;
+      profile.similarityThresholds = input.similarityThresholds ?? null;
+    } else {
+      if (input.enabledDetectors !== undefined) profile.enabledDetectors = input.enabledDetectors;
+      if (input.keywords !== undefined) profile.keywords = input.keywords;
+      profile.patternThresholds = this.mergeSection(profile.patternThresholds, input.patternThresholds);
+      profile.severityScoring = this.mergeSection(profile.severityScoring, input.severityScoring);
+      profile.accelerationFactors = this.mergeSection(profile.accelerationFactors, input.accelerationFactors);
+      profile.similarityThresholds = this.mergeSection(profile.similarityThresholds, input.similarityThresholds);
+    }
+
+    if (profile.keywords) {
+      profile.keywords = [...new Set(profile.keywords.map(keyword => keyword.trim().toLowerCase()).filter(Boolean))];
+    }
+
+    this.validateSettings(this.resolveSettings(profile));
+
+    profile.updatedBy = userId;
+    const saved = await this.detectionProfileRepository.save(profile);
+
+    this.logger.log(`Saved detection profile for tenant ${tenantId}`);
+
+    return saved;
+  }
+
+  /**
+   * Remove a tenant's profile so detection goes back to the defaults
+   */
+  async deleteProfile(tenantId: number): Promise<boolean> {
+    const result = await this.detectionProfileRepository.delete({ tenantId });
+    return (result.affected || 0) > 0;
+  }
+
+  resolveSettings(profile: DetectionProfile | null): DetectionSettings {
+    const defaults = DEFAULT_DETECTION_SETTINGS;
+
+    return {
+      enabledDetectors: profile?.enabledDetectors ?? [...defaults.enabledDetectors],
+      patternThresholds: { ...defaults.patternThresholds, ...(profile?.patternThresholds || {}) },
+      keywords: profile?.keywords ?? [...defaults.keywords],
+      severityScoring: { ...defaults.severityScoring, ...(profile?.severityScoring || {}) },
+      accelerationFactors: { ...defaults.accelerationFactors, ...(profile?.accelerationFactors || {}) },
+      similarityThresholds: { ...defaults.similarityThresholds, ...(profile?.similarityThresholds || {}) },
+    };
+  }
+
+  private mergeSection<T extends object>(current: T | null, update: T | null | undefined): T | null {
+    if (update === undefined) {
+      return current;
+    }
+    if (update === null) {
+      return null;
+    }
+    return { ...(current || {}), ...update } as T;
+  }
+
+  /**
+   * Reject settings whose tiers are out of order, since they would silently disable a tier
+   */
+  private validateSettings(settings: DetectionSettings): void {
+    const { severityScoring, accelerationFactors } = settings;
+
+    if (!(severityScoring.mediumScore < severityScoring.highScore && severityScoring.highScore < severityScoring.criticalScore)) {
+      throw new BadRequestException('severityScoring must satisfy mediumScore < highScore < criticalScore');
+    }
+
+    if (
+      !(
+        accelerationFactors.minFactor <= accelerationFactors.mediumFactor &&
+        accelerationFactors.mediumFactor < accelerationFactors.highFactor &&
+        accelerationFactors.highFactor < accelerationFactors.criticalFactor
+      )
+    ) {
+      throw new BadRequestException(
+        'accelerationFactors must satisfy minFactor <= mediumFactor < highFactor < criticalFactor',
+      );
+    }
+  }
+}
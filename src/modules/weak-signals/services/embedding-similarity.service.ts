@@ -0,0 +1,133 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OpenAIService } from '../../chatbot/services/openai.service';
+import { SimilarityBackend, SimilarPair } from '../interfaces/similarity.interface';
+
+/**
+ * Texts are truncated before embedding; ticket titles and short descriptions fit comfortably.
+ */
+const MAX_TEXT_LENGTH = 1000;
+
+/**
+ * Above this many texts, candidate pairs come from random-hyperplane LSH instead of comparing every pair.
+ */
+const FULL_PAIRWISE_LIMIT = 500;
+
+/**
+ * Signature layout: BANDS x ROWS hyperplanes. With 16 bands of 8 rows, pairs with a cosine
+ * similarity of roughly 0.85 or more become candidates in almost every run.
+ */
+const LSH_BANDS = 16;
+const LSH_ROWS = 8;
+
+@Injectable()
+export class EmbeddingSimilarityService implements SimilarityBackend {
+  readonly name = 'openai' as const;
+
+  private readonly logger = new Logger(EmbeddingSimilarityService.name);
+
+  constructor(private readonly openAIService: OpenAIService) {}
+
+  isAvailable(): boolean {
+    return this.openAIService.isConfigured();
+  }
+
+  /**
+   * Cosine similarity between embeddings of the tenant's model provider
+   */
+  async findSimilarPairs(texts: string[], threshold: number, tenantId?: number): Promise<SimilarPair[]> {
+    const provider = tenantId !== undefined
+      ? await this.openAIService.forTenant(tenantId, { feature: 'weak_signal_similarity' })
+      : this.openAIService;
+    const embeddings = await provider.createEmbeddings(texts.map(t => (t || ' ').substring(0, MAX_TEXT_LENGTH)));
+    const normalized = embeddings.map(vector => this.normalize(vector));
+
+    this.logger.debug(`Embedded ${texts.length} texts for similarity grouping`);
+
+    const candidates = normalized.length > FULL_PAIRWISE_LIMIT
+      ? this.findHyperplaneCandidates(normalized)
+      : this.allPairs(normalized.length);
+
+    const pairs: SimilarPair[] = [];
+    for (const [a, b] of candidates) {
+      const score = this.dot(normalized[a], normalized[b]);
+      if (score >= threshold) {
+        pairs.push({ a, b, score });
+      }
+    }
+
+    return pairs;
+  }
+
+  /**
+   * Buckets vectors by the side of random hyperplanes they fall on, band by band;
+   * only vectors sharing a bucket in some band are compared
+   */
+  private findHyperplaneCandidates(vectors: number[][]): [number, number][] {
+    const hyperplanes = this.createHyperplanes(vectors[0]?.length || 0);
+    const buckets = new Map<string, number[]>();
+
+    vectors.forEach((vector, index) => {
+      const bits = hyperplanes.map(plane => (this.dot(plane, vector) >= 0 ? '1' : '0'));
+
+      for (let band = 0; band < LSH_BANDS; band++) {
+        const key = `${band}:${bits.slice(band * LSH_ROWS, (band + 1) * LSH_ROWS).join('')}`;
+        if (!buckets.has(key)) {
+          buckets.set(key, []);
+        }
+        buckets.get(key)!.push(index);
+      }
+    });
+
+    const seen = new Set<string>();
+    const candidates: [number, number][] = [];
+    for (const members of buckets.values()) {
+      for (let i = 0; i < members.length; i++) {
+        for (let j = i + 1; j < members.length; j++) {
+          const key = `${members[i]}:${members[j]}`;
+          if (!seen.has(key)) {
+            seen.add(key);
+            candidates.push([members[i], members[j]]);
+          }
+        }
+      }
+    }
+
+    this.logger.debug(`LSH reduced ${vectors.length} embeddings to ${candidates.length} candidate pairs`);
+    return candidates;
+  }
+
+  /**
+   * Deterministic hyperplanes so candidate pairs are reproducible between runs
+   */
+  private createHyperplanes(dimensions: number): number[][] {
+    let seed = 42;
+    const next = () => {
+      seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+      return seed / 0xffffffff - 0.5;
+    };
+    return Array.from({ length: LSH_BANDS * LSH_ROWS }, () => Array.from({ length: dimensions }, next));
+  }
+
+  private allPairs(count: number): [number, number][] {
+    const pairs: [number, number][] = [];
+    for (let a = 0; a < count; a++) {
+      for (let b = a + 1; b < count; b++) {
+        pairs.push([a, b]);
+      }
+    }
+    return pairs;
+  }
+
+  private normalize(vector: number[]): number[] {
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map(v => v / norm) : vector;
+  }
+
+  private dot(a: number[], b: number[]): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) {
+      sum += a[i] * b[i];
+    }
+    return sum;
+  }
+}
@@ -6,6 +6,10 @@ import { WeakSignal } from '../entities/weak-signal.entity';
 import { MetricValue } from '../../kpi/entities/metric-value.entity';
 import { TimelineEvent } from '../../timeline/entities/timeline-event.entity';
 import { ConfigService } from '@nestjs/config';
+import { HypothesisLlmService } from './hypothesis-llm.service';
+import { LagAnalysisService } from './lag-analysis.service';
+import { SeriesRelationship } from '../entities/series-relationship.entity';
+import { SignalActivityService } from './signal-activity.service';
 
 @Injectable()
 export class HypothesisGenerationService {
@@ -21,6 +25,9 @@ export class HypothesisGenerationService {
     @InjectRepository(TimelineEvent)
     private readonly timelineEventRepository: Repository<TimelineEvent>,
     private readonly configService: ConfigService,
+    private readonly hypothesisLlmService: HypothesisLlmService,
+    private readonly lagAnalysisService: LagAnalysisService,
+    private readonly signalActivityService: SignalActivityService,
   ) {}
 
   /**
@@ -43,17 +50,17 @@ export class HypothesisGenerationService {
     // Generate multiple hypothesis types
     const hypotheses: Hypothesis[] = [];
 
-    // Generate correlation hypothesis
-    const correlationHypothesis = await this.generateCorrelationHypothesis(tenantId, signal, context);
-    if (correlationHypothesis) hypotheses.push(correlationHypothesis);
-
-    // Generate pattern explanation hypothesis
-    const explanationHypothesis = await this.generatePatternExplanationHypothesis(tenantId, signal, context);
-    if (explanationHypothesis) hypotheses.push(explanationHypothesis);
+    // Rule-based generators decide which hypothesis types apply to the signal and
+    // serve as the fallback when the LLM path is disabled or returns unusable output
+    const candidates = [
+      await this.generateCorrelationHypothesis(tenantId, signal, context),
+      await this.generatePatternExplanationHypothesis(tenantId, signal, context),
+      await this.generatePredictionHypothesis(tenantId, signal, context),
+    ];
 
-    // Generate prediction hypothesis
-    const predictionHypothesis = await this.generatePredictionHypothesis(tenantId, signal, context);
-    if (predictionHypothesis) hypotheses.push(predictionHypothesis);
+    for (const candidate of candidates) {
+      if (candidate) hypotheses.push(await this.refineWithLlm(signal, candidate, context));
+    }
 
     // Save all hypotheses - save them one by one to isolate errors
     const savedHypotheses: Hypothesis[] = [];
@@ -64,6 +71,13 @@ export class HypothesisGenerationService {
 
         const saved = await this.hypothesisRepository.save(hypothesis);
         savedHypotheses.push(saved);
+
+        await this.signalActivityService.record(
+          tenantId,
+          { weakSignalId: signalId, hypothesisId: saved.id },
+          'hypothesis_added',
+          { hypothesisType: saved.hypothesisType, confidence: Number(saved.confidence) },
+        );
       } catch (error) {
         this.logger.error(`Failed to save hypothesis of type ${hypothesis.hypothesisType}: ${error.message}`);
         // Continue with other hypotheses even if one fails
@@ -118,6 +132,60 @@ export class HypothesisGenerationService {
     return this.getHypotheses(tenantId, { weakSignalId });
   }
 
+  /**
+   * Get a single hypothesis
+   */
+  async getHypothesisById(tenantId: number, id: number): Promise<Hypothesis | null> {
+    return await this.hypothesisRepository.findOne({
+      where: { id, tenantId },
+      relations: ['weakSignal'],
+    });
+  }
+
+  /**
+   * Replace the template content of a rule-based hypothesis with a validated LLM draft.
+   * Context, severity, affected areas and timing stay with the rule-based values.
+   */
+  private async refineWithLlm(
+    signal: WeakSignal,
+    hypothesis: Hypothesis,
+    context: Hypothesis['context']
+  ): Promise<Hypothesis> {
+    if (!(await this.hypothesisLlmService.isEnabled(signal.tenantId))) {
+      return hypothesis;
+    }
+
+    const result = await this.hypothesisLlmService.generateDraft(hypothesis.hypothesisType, signal, context);
+    if (!result) {
+      return hypothesis;
+    }
+
+    const { draft } = result;
+
+    hypothesis.hypothesis = draft.hypothesis;
+    hypothesis.confidence = Math.min(95, draft.confidence);
+    hypothesis.reasoning = {
+      modelUsed: result.modelUsed,
+      promptTemplate: result.promptTemplate,
+      reasoningSteps: draft.reasoningSteps,
+      alternatives: draft.alternatives,
+      limitations: draft.limitations,
+    };
+    hypothesis.supportingEvidence = draft.supportingEvidence;
+    hypothesis.guardrails = draft.guardrails;
+    hypothesis.validationSteps = draft.validationSteps;
+
+    if (draft.predictedImpact) {
+      hypothesis.predictedImpact = {
+        ...hypothesis.predictedImpact,
+        potentialConsequences: draft.predictedImpact.potentialConsequences,
+        mitigationSuggestions: draft.predictedImpact.mitigationSuggestions,
+      };
+    }
+
+    return hypothesis;
+  }
+
   /**
    * Assemble context for hypothesis generation
    */
@@ -242,12 +310,17 @@ export class HypothesisGenerationService {
     hypothesis.hypothesisType = 'correlation';
 
     // Build hypothesis using LLM-style reasoning (simulated)
-    const correlations = this.findCorrelations(signal, context);
+    const relationships = await this.lagAnalysisService.getRelationships(
+      tenantId,
+      this.lagAnalysisService.seriesForSignal(signal),
+    );
+    const correlations = this.findCorrelations(signal, context, relationships);
 
     if (correlations.length === 0) {
       return null;
     }
 
+    const laggedCorrelations = correlations.filter(c => c.type === 'lagged_correlation');
     const hypothesisText = this.buildCorrelationHypothesisText(signal, correlations);
 
     hypothesis.hypothesis = hypothesisText;
@@ -263,8 +336,13 @@ export class HypothesisGenerationService {
         {
           step: 1,
           thought: 'Analyzing temporal proximity of signals',
-          evidence: [`Found ${correlations.length} temporally correlated signals`],
-          conclusion: 'Signals show temporal correlation',
+          evidence: [
+            `Found ${correlations.length - laggedCorrelations.length} temporally correlated signals`,
+            `Found ${laggedCorrelations.length} significant lead/lag relationships of the underlying series`,
+          ],
+          conclusion: laggedCorrelations.length > 0
+            ? 'Underlying series move in a consistent lead/lag order'
+            : 'Signals show temporal correlation',
         },
         {
           step: 2,
@@ -292,7 +370,7 @@ export class HypothesisGenerationService {
 
     // Supporting evidence
     hypothesis.supportingEvidence = correlations.map(c => ({
-      type: 'temporal_correlation',
+      type: c.type,
       description: c.description,
       strength: c.strength,
       source: c.source,
@@ -601,15 +679,38 @@ export class HypothesisGenerationService {
   }
 
   /**
-   * Find correlations between signals
+   * Find correlations between signals, and stored lead/lag relationships of the series behind the signal
    */
-  private findCorrelations(signal: WeakSignal, context: Hypothesis['context']): Array<{
+  private findCorrelations(
+    signal: WeakSignal,
+    context: Hypothesis['context'],
+    relationships: SeriesRelationship[] = [],
+  ): Array<{
+    type: 'temporal_correlation' | 'lagged_correlation';
     description: string;
     strength: number;
     source: string;
     timestamp: string;
   }> {
-    const correlations: Array<{ description: string; strength: number; source: string; timestamp: string }> = [];
+    const correlations: Array<{
+      type: 'temporal_correlation' | 'lagged_correlation';
+      description: string;
+      strength: number;
+      source: string;
+      timestamp: string;
+    }> = [];
+
+    for (const relationship of relationships) {
+      const correlation = Number(relationship.correlation);
+      correlations.push({
+        type: 'lagged_correlation',
+        description: `${relationship.leaderSeries} leads ${relationship.followerSeries} by ${relationship.lagDays} day(s) ` +
+          `(r=${correlation.toFixed(2)}, Granger p=${Number(relationship.grangerPValue).toFixed(4)} over ${relationship.sampleDays} days)`,
+        strength: Math.min(100, 50 + Math.abs(correlation) * 50),
+        source: 'lag_analysis',
+        timestamp: new Date(relationship.windowEnd).toISOString(),
+      });
+    }
 
     // Temporal correlations
     const signalTime = signal.detectedAt.getTime();
@@ -622,6 +723,7 @@ export class HypothesisGenerationService {
 
       if (hoursDiff < 48) {
         correlations.push({
+          type: 'temporal_correlation',
           description: `Signal "${contextSignal.description.substring(0, 50)}" occurred within 48 hours`,
           strength: Math.max(50, 100 - hoursDiff),
           source: contextSignal.type,
@@ -637,6 +739,14 @@ export class HypothesisGenerationService {
    * Build correlation hypothesis text
    */
   private buildCorrelationHypothesisText(signal: WeakSignal, correlations: any[]): string {
+    const lagged = correlations.filter(c => c.type === 'lagged_correlation');
+    if (lagged.length > 0) {
+      return `The signal "${signal.title}" is backed by ${lagged.length} lead/lag relationship(s) between daily series: ` +
+        `${lagged.map(c => c.description).join('; ')}. ` +
+        `Movements in a leading series have historically preceded the follower, which makes it an early indicator, ` +
+        `though a shared underlying driver could produce the same pattern.`;
+    }
+
     return `The signal "${signal.title}" shows correlation with ${correlations.length} other signals. ` +
       `This suggests a potential relationship between these events, though the nature of the relationship ` +
       `(causal, coincidental, or due to common factors) requires further investigation.`;
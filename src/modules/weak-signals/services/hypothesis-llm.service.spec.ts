@@ -0,0 +1,169 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { HypothesisLlmService, HYPOTHESIS_PROMPT_TEMPLATE } from './hypothesis-llm.service';
+import { OpenAIHypothesisProvider } from './openai-hypothesis-provider.service';
+import { StubHypothesisProvider } from './stub-hypothesis-provider.service';
+import { Hypothesis } from '../entities/hypothesis.entity';
+import { WeakSignal } from '../entities/weak-signal.entity';
+import { OpenAIService } from '../../chatbot/services/openai.service';
+
+describe('HypothesisLlmService', () => {
+  const mockOpenAIProvider = {
+    name: 'openai',
+    isAvailable: jest.fn(async () => true),
+    getModelName: jest.fn(() => 'gpt-test'),
+    complete: jest.fn(),
+  };
+
+  const signal = {
+    id: 7,
+    tenantId: 1,
+    title: 'Recurring: Login timeouts',
+    description: 'Login requests time out every Monday',
+    signalType: 'pattern_recurring',
+    severity: 'high',
+    category: 'Engineering',
+    detectedAt: new Date('2026-01-05T00:00:00Z'),
+  } as WeakSignal;
+
+  const context: Hypothesis['context'] = {
+    signals: [
+      { id: '7', type: 'pattern_recurring', description: 'Login requests time out', timestamp: '2026-01-05T00:00:00.000Z' },
+      { id: '8', type: 'trend_acceleration', description: 'Auth errors accelerating', timestamp: '2026-01-04T00:00:00.000Z' },
+    ],
+    metrics: [],
+    timeline: [{ eventId: '3', title: 'Auth service deploy', timestamp: '2026-01-04T12:00:00.000Z', impact: 'high' }],
+    graphContext: { nodes: [], relationships: [], clusters: ['Engineering'] },
+  };
+
+  const createService = async (provider?: string): Promise<HypothesisLlmService> => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HypothesisLlmService,
+        StubHypothesisProvider,
+        { provide: OpenAIHypothesisProvider, useValue: mockOpenAIProvider },
+        { provide: ConfigService, useValue: { get: jest.fn(() => provider) } },
+      ],
+    }).compile();
+
+    return module.get<HypothesisLlmService>(HypothesisLlmService);
+  };
+
+  const validDraft = async () => JSON.parse(await new StubHypothesisProvider().complete({
+    tenantId: 1,
+    hypothesisType: 'correlation',
+    signal: { id: 7, title: signal.title, description: signal.description, signalType: signal.signalType, severity: 'high', category: 'Engineering' },
+    context,
+    messages: [],
+  }));
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should stay on the rule-based path by default', async () => {
+    const service = await createService();
+
+    expect(await service.isEnabled(1)).toBe(false);
+    expect(await service.generateDraft('correlation', signal, context)).toBeNull();
+  });
+
+  it('should produce a validated draft from the stub provider', async () => {
+    const service = await createService('stub');
+
+    const result = await service.generateDraft('correlation', signal, context);
+
+    expect(result).not.toBeNull();
+    expect(result!.modelUsed).toBe('local-stub-v1');
+    expect(result!.promptTemplate).toBe(HYPOTHESIS_PROMPT_TEMPLATE);
+    expect(result!.draft.guardrails.notClaimingRootCause).toBe(true);
+    expect(result!.draft.supportingEvidence).toHaveLength(1);
+  });
+
+  it('should send the assembled context in a structured-output prompt', async () => {
+    const service = await createService('openai');
+    mockOpenAIProvider.complete.mockResolvedValueOnce('```json\n' + JSON.stringify(await validDraft()) + '\n```');
+
+    const result = await service.generateDraft('prediction', signal, context);
+
+    const [request] = mockOpenAIProvider.complete.mock.calls[0];
+    expect(request.tenantId).toBe(1);
+    expect(request.hypothesisType).toBe('prediction');
+    expect(request.messages[0].role).toBe('system');
+    expect(request.messages[1].content).toContain('Auth service deploy');
+    expect(mockOpenAIProvider.getModelName).toHaveBeenCalledWith(1);
+    expect(result!.modelUsed).toBe('gpt-test');
+  });
+
+  it('should fall back when the provider fails or answers outside the schema', async () => {
+    const service = await createService('openai');
+    mockOpenAIProvider.complete
+      .mockRejectedValueOnce(new Error('rate limited'))
+      .mockResolvedValueOnce('The signal is caused by the deploy.')
+      .mockResolvedValueOnce(JSON.stringify({ ...(await validDraft()), confidence: 140 }));
+
+    expect(await service.generateDraft('correlation', signal, context)).toBeNull();
+    expect(await service.generateDraft('correlation', signal, context)).toBeNull();
+    expect(await service.generateDraft('correlation', signal, context)).toBeNull();
+  });
+
+  it('should reject drafts that claim a root cause', async () => {
+    const service = await createService('stub');
+    const draft = await validDraft();
+    draft.guardrails.notClaimingRootCause = false;
+    draft.validationSteps[0].difficulty = 'trivial';
+
+    const { draft: parsed, errors } = service.parseDraft(JSON.stringify(draft));
+
+    expect(parsed).toBeNull();
+    expect(errors).toEqual([
+      'guardrails.notClaimingRootCause must be true',
+      'validationSteps entries need step, action, expectedOutcome and an easy/medium/hard difficulty',
+    ]);
+  });
+
+  it('should reject drafts with fields of the wrong type', async () => {
+    const service = await createService('stub');
+    const draft = await validDraft();
+    draft.reasoningSteps[0].step = '1';
+    draft.reasoningSteps[0].evidence = 'signal:8';
+    draft.alternatives = ['A deploy', 42];
+    draft.supportingEvidence[0].strength = 'high';
+    draft.guardrails.assumptions = 'none';
+    draft.predictedImpact = { potentialConsequences: 'Outage', mitigationSuggestions: [] };
+
+    const { draft: parsed, errors } = service.parseDraft(JSON.stringify(draft));
+
+    expect(parsed).toBeNull();
+    expect(errors).toEqual([
+      'reasoningSteps entries need step, thought, evidence and conclusion',
+      'alternatives must be an array of strings',
+      'supportingEvidence entries need type, description, strength, source and timestamp',
+      'guardrails.assumptions must be an array of strings',
+      'predictedImpact needs potentialConsequences and mitigationSuggestions',
+    ]);
+  });
+
+  it('should stay on the rule-based path for tenants whose model provider is not configured', async () => {
+    const service = await createService('openai');
+    mockOpenAIProvider.isAvailable.mockResolvedValueOnce(false).mockResolvedValueOnce(false);
+
+    expect(await service.isEnabled(1)).toBe(false);
+    expect(await service.generateDraft('correlation', signal, context)).toBeNull();
+    expect(mockOpenAIProvider.isAvailable).toHaveBeenCalledWith(1);
+    expect(mockOpenAIProvider.complete).not.toHaveBeenCalled();
+  });
+
+  it('should check the model provider chosen by the tenant', async () => {
+    const tenantProviders: Record<number, { isConfigured: () => boolean }> = {
+      1: { isConfigured: () => false },
+      2: { isConfigured: () => true },
+    };
+    const openAIService = { forTenant: jest.fn(async (tenantId: number) => tenantProviders[tenantId]) };
+    const provider = new OpenAIHypothesisProvider(openAIService as unknown as OpenAIService);
+
+    expect(await provider.isAvailable(1)).toBe(false);
+    expect(await provider.isAvailable(2)).toBe(true);
+    expect(openAIService.forTenant).toHaveBeenCalledWith(1, { feature: 'weak_signal_hypothesis' });
+  });
+});
@@ -0,0 +1,328 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OpenAIHypothesisProvider } from './openai-hypothesis-provider.service';
+import { StubHypothesisProvider } from './stub-hypothesis-provider.service';
+import { Hypothesis, HypothesisType } from '../entities/hypothesis.entity';
+import { WeakSignal } from '../entities/weak-signal.entity';
+import {
+  HypothesisDraft,
+  HypothesisLlmProvider,
+  HypothesisLlmRequest,
+  HypothesisPromptMessage,
+} from '../interfaces/hypothesis-llm.interface';
+
+export const HYPOTHESIS_PROMPT_TEMPLATE = 'structured-hypothesis-v1';
+
+const MAX_HYPOTHESIS_LENGTH = 2000;
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+const TYPE_INSTRUCTIONS: Record<HypothesisType, string> = {
+  correlation: 'Explain how the signal may correlate with the related signals, metrics and events. Do not claim causation.',
+  causation_candidate: 'Propose a candidate cause that could be tested. Do not present it as the confirmed root cause.',
+  pattern_explanation: 'Propose possible explanations for why this pattern recurs.',
+  prediction: 'Predict how the signal is likely to develop over the next 30 days if nothing changes.',
+};
+
+const SYSTEM_PROMPT = `You are an analyst generating testable hypotheses about weak signals in organizational data.
+Only use the facts in the provided context. Respond with a single JSON object and nothing else, with this shape:
+{
+  "hypothesis": string,
+  "confidence": number (0-100),
+  "reasoningSteps": [{ "step": number, "thought": string, "evidence": string[], "conclusion": string }],
+  "alternatives": string[],
+  "limitations": string[],
+  "supportingEvidence": [{ "type": string, "description": string, "strength": number (0-100), "source": string, "timestamp": string }],
+  "guardrails": { "notClaimingRootCause": true, "disclaimers": string[], "requiresValidation": string[], "assumptions": string[], "limitations": string[] },
+  "validationSteps": [{ "step": number, "action": string, "expectedOutcome": string, "difficulty": "easy" | "medium" | "hard" }],
+  "predictedImpact": { "potentialConsequences": string[], "mitigationSuggestions": string[] }
+}
+Reference context items by their ids (signal:<id>, metric:<key>, event:<eventId>) in reasoning evidence.`;
+
+export interface HypothesisDraftResult {
+  draft: HypothesisDraft;
+  modelUsed: string;
+  promptTemplate: string;
+}
+
+@Injectable()
+export class HypothesisLlmService {
+  private readonly logger = new Logger(HypothesisLlmService.name);
+  private readonly provider: HypothesisLlmProvider | null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly openAIHypothesisProvider: OpenAIHypothesisProvider,
+    private readonly stubHypothesisProvider: StubHypothesisProvider,
+  ) {
+    const configured = this.configService.get<string>('WEAK_SIGNAL_HYPOTHESIS_PROVIDER') || 'rules';
+    this.provider = configured === 'openai'
+      ? this.openAIHypothesisProvider
+      : configured === 'stub'
+        ? this.stubHypothesisProvider
+        : null;
+  }
+
+  /**
+   * Whether hypotheses of the tenant should be generated by a model rather than the rule-based templates
+   */
+  async isEnabled(tenantId: number): Promise<boolean> {
+    return !!this.provider && await this.provider.isAvailable(tenantId);
+  }
+
+  /**
+   * Ask the configured provider for a hypothesis of the given type. Returns null when the
+   * provider is unavailable, fails, or answers with output that does not match the schema,
+   * so callers can fall back to the rule-based generator.
+   */
+  async generateDraft(
+    hypothesisType: HypothesisType,
+    signal: WeakSignal,
+    context: Hypothesis['context'],
+  ): Promise<HypothesisDraftResult | null> {
+    if (!this.provider || !(await this.provider.isAvailable(signal.tenantId))) {
+      return null;
+    }
+
+    const request = this.buildRequest(hypothesisType, signal, context);
+
+    let raw: string;
+    try {
+      raw = await this.provider.complete(request);
+    } catch (error) {
+      this.logger.warn(`Hypothesis provider "${this.provider.name}" failed for signal ${signal.id}: ${error.message}`);
+      return null;
+    }
+
+    const { draft, errors } = this.parseDraft(raw);
+    if (!draft) {
+      this.logger.warn(
+        `Discarding ${hypothesisType} hypothesis for signal ${signal.id} from "${this.provider.name}": ${errors.join('; ')}`,
+      );
+      return null;
+    }
+
+    return {
+      draft,
+      modelUsed: await this.provider.getModelName(signal.tenantId),
+      promptTemplate: HYPOTHESIS_PROMPT_TEMPLATE,
+    };
+  }
+
+  /**
+   * Parse and validate a raw completion against the hypothesis shape
+   */
+  parseDraft(raw: string): { draft: HypothesisDraft | null; errors: string[] } {
+    let parsed: unknown;
+    try {
+      // Models sometimes wrap JSON in a markdown code fence despite instructions
+      parsed = JSON.parse(raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+    } catch {
+      return { draft: null, errors: ['response is not valid JSON'] };
+    }
+
+    if (!this.isObject(parsed)) {
+      return { draft: null, errors: ['response is not a JSON object'] };
+    }
+
+    const errors: string[] = [];
+    const {
+      hypothesis,
+      confidence,
+      reasoningSteps,
+      alternatives,
+      limitations,
+      supportingEvidence,
+      guardrails,
+      validationSteps,
+      predictedImpact,
+    } = parsed;
+
+    if (!this.isNonEmptyString(hypothesis) || hypothesis.length > MAX_HYPOTHESIS_LENGTH) {
+      errors.push('hypothesis must be a non-empty string');
+    }
+    if (!this.isScore(confidence)) {
+      errors.push('confidence must be a number between 0 and 100');
+    }
+
+    if (!Array.isArray(reasoningSteps) || reasoningSteps.length === 0) {
+      errors.push('reasoningSteps must be a non-empty array');
+    } else if (!reasoningSteps.every(s => this.isReasoningStep(s))) {
+      errors.push('reasoningSteps entries need step, thought, evidence and conclusion');
+    }
+
+    if (!this.isStringArray(alternatives)) errors.push('alternatives must be an array of strings');
+    if (!this.isStringArray(limitations)) errors.push('limitations must be an array of strings');
+
+    if (!Array.isArray(supportingEvidence) || !supportingEvidence.every(e => this.isEvidence(e))) {
+      errors.push('supportingEvidence entries need type, description, strength, source and timestamp');
+    }
+
+    if (!this.isObject(guardrails)) {
+      errors.push('guardrails must be an object');
+    } else {
+      if (guardrails.notClaimingRootCause !== true) {
+        errors.push('guardrails.notClaimingRootCause must be true');
+      }
+      for (const key of ['disclaimers', 'requiresValidation', 'assumptions', 'limitations']) {
+        if (!this.isStringArray(guardrails[key])) errors.push(`guardrails.${key} must be an array of strings`);
+      }
+      if (this.isStringArray(guardrails.disclaimers) && guardrails.disclaimers.length === 0) {
+        errors.push('guardrails.disclaimers must not be empty');
+      }
+    }
+
+    if (!Array.isArray(validationSteps) || validationSteps.length === 0) {
+      errors.push('validationSteps must be a non-empty array');
+    } else if (!validationSteps.every(s => this.isValidationStep(s))) {
+      errors.push('validationSteps entries need step, action, expectedOutcome and an easy/medium/hard difficulty');
+    }
+
+    if (predictedImpact !== undefined && predictedImpact !== null && !this.isPredictedImpact(predictedImpact)) {
+      errors.push('predictedImpact needs potentialConsequences and mitigationSuggestions');
+    }
+
+    // The checks above already reported every field; this narrows the types for the draft
+    if (
+      errors.length > 0 ||
+      !this.isNonEmptyString(hypothesis) ||
+      !this.isScore(confidence) ||
+      !this.isArrayOf(reasoningSteps, s => this.isReasoningStep(s)) ||
+      !this.isStringArray(alternatives) ||
+      !this.isStringArray(limitations) ||
+      !this.isArrayOf(supportingEvidence, e => this.isEvidence(e)) ||
+      !this.isGuardrails(guardrails) ||
+      !this.isArrayOf(validationSteps, s => this.isValidationStep(s))
+    ) {
+      return { draft: null, errors };
+    }
+
+    const draft: HypothesisDraft = {
+      hypothesis: hypothesis.trim(),
+      confidence,
+      reasoningSteps: reasoningSteps.map(s => ({
+        step: s.step,
+        thought: s.thought,
+        evidence: s.evidence,
+        conclusion: s.conclusion,
+      })),
+      alternatives,
+      limitations,
+      supportingEvidence: supportingEvidence.map(e => ({
+        type: e.type,
+        description: e.description,
+        strength: e.strength,
+        source: e.source,
+        timestamp: e.timestamp,
+      })),
+      guardrails: {
+        notClaimingRootCause: true,
+        disclaimers: guardrails.disclaimers,
+        requiresValidation: guardrails.requiresValidation,
+        assumptions: guardrails.assumptions,
+        limitations: guardrails.limitations,
+      },
+      validationSteps: validationSteps.map(s => ({
+        step: s.step,
+        action: s.action,
+        expectedOutcome: s.expectedOutcome,
+        difficulty: s.difficulty,
+      })),
+      predictedImpact: this.isPredictedImpact(predictedImpact)
+        ? {
+            potentialConsequences: predictedImpact.potentialConsequences,
+            mitigationSuggestions: predictedImpact.mitigationSuggestions,
+          }
+        : undefined,
+    };
+
+    return { draft, errors: [] };
+  }
+
+  private buildRequest(
+    hypothesisType: HypothesisType,
+    signal: WeakSignal,
+    context: Hypothesis['context'],
+  ): HypothesisLlmRequest {
+    const signalSummary = {
+      id: signal.id,
+      title: signal.title,
+      description: signal.description,
+      signalType: signal.signalType,
+      severity: signal.severity,
+      category: signal.category,
+    };
+
+    const messages: HypothesisPromptMessage[] = [
+      { role: 'system', content: SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: `Hypothesis type: ${hypothesisType}\n${TYPE_INSTRUCTIONS[hypothesisType]}\n\n` +
+          `Signal:\n${JSON.stringify(signalSummary)}\n\nContext:\n${JSON.stringify(context)}`,
+      },
+    ];
+
+    return { tenantId: signal.tenantId, hypothesisType, signal: signalSummary, context, messages };
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private isNonEmptyString(value: unknown): value is string {
+    return typeof value === 'string' && value.trim().length > 0;
+  }
+
+  private isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(v => typeof v === 'string');
+  }
+
+  private isScore(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100;
+  }
+
+  private isArrayOf<T>(value: unknown, isItem: (item: unknown) => item is T): value is T[] {
+    return Array.isArray(value) && value.every(item => isItem(item));
+  }
+
+  private isReasoningStep(value: unknown): value is HypothesisDraft['reasoningSteps'][number] {
+    return this.isObject(value) &&
+      typeof value.step === 'number' &&
+      this.isNonEmptyString(value.thought) &&
+      this.isStringArray(value.evidence) &&
+      this.isNonEmptyString(value.conclusion);
+  }
+
+  private isEvidence(value: unknown): value is HypothesisDraft['supportingEvidence'][number] {
+    return this.isObject(value) &&
+      this.isNonEmptyString(value.type) &&
+      this.isNonEmptyString(value.description) &&
+      this.isScore(value.strength) &&
+      typeof value.source === 'string' &&
+      typeof value.timestamp === 'string';
+  }
+
+  private isGuardrails(value: unknown): value is HypothesisDraft['guardrails'] {
+    return this.isObject(value) &&
+      value.notClaimingRootCause === true &&
+      this.isStringArray(value.disclaimers) &&
+      value.disclaimers.length > 0 &&
+      this.isStringArray(value.requiresValidation) &&
+      this.isStringArray(value.assumptions) &&
+      this.isStringArray(value.limitations);
+  }
+
+  private isValidationStep(value: unknown): value is HypothesisDraft['validationSteps'][number] {
+    return this.isObject(value) &&
+      typeof value.step === 'number' &&
+      this.isNonEmptyString(value.action) &&
+      this.isNonEmptyString(value.expectedOutcome) &&
+      typeof value.difficulty === 'string' &&
+      DIFFICULTIES.includes(value.difficulty);
+  }
+
+  private isPredictedImpact(value: unknown): value is NonNullable<HypothesisDraft['predictedImpact']> {
+    return this.isObject(value) &&
+      this.isStringArray(value.potentialConsequences) &&
+      this.isStringArray(value.mitigationSuggestions);
+  }
+}
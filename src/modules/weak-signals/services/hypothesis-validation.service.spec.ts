@@ -0,0 +1,192 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { HypothesisValidationService } from './hypothesis-validation.service';
+import { Hypothesis } from '../entities/hypothesis.entity';
+import { WeakSignal } from '../entities/weak-signal.entity';
+import { JiraIssue } from '../../jira/entities/jira-issue.entity';
+import { ServiceNowIncident } from '../../servicenow/entities/servicenow-incident.entity';
+import { S3Service } from '../../storage/services/s3.service';
+import { SignalActivityService } from './signal-activity.service';
+
+describe('HypothesisValidationService', () => {
+  let service: HypothesisValidationService;
+
+  const mockHypothesisRepository = {
+    findOne: jest.fn(),
+    save: jest.fn((hypothesis) => Promise.resolve(hypothesis)),
+  };
+
+  const mockWeakSignalRepository = {
+    findOne: jest.fn(),
+    save: jest.fn((signal) => Promise.resolve(signal)),
+  };
+
+  const mockJiraIssueRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockServiceNowIncidentRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockS3Service = {
+    uploadFile: jest.fn<Promise<string>, [Buffer, string, string]>((buffer, key) => Promise.resolve(key)),
+  };
+
+  const buildHypothesis = (overrides: Partial<Hypothesis> = {}): Hypothesis =>
+    ({
+      id: 4,
+      tenantId: 1,
+      weakSignalId: 9,
+      hypothesisType: 'correlation',
+      confidence: 60,
+      status: 'generated',
+      supportingEvidence: [],
+      contradictingEvidence: null,
+      validationSteps: [
+        { step: 1, action: 'Review timeline', expectedOutcome: 'Confirm ordering', difficulty: 'easy' },
+        { step: 2, action: 'Check deploys', expectedOutcome: 'Find shared change', difficulty: 'medium' },
+      ],
+      validationProgress: null,
+      evidenceAttachments: null,
+      validationResults: null,
+      validationNotes: null,
+      validatedAt: null,
+      validatedBy: null,
+      ...overrides,
+    }) as Hypothesis;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HypothesisValidationService,
+        { provide: getRepositoryToken(Hypothesis), useValue: mockHypothesisRepository },
+        { provide: getRepositoryToken(WeakSignal), useValue: mockWeakSignalRepository },
+        { provide: getRepositoryToken(JiraIssue), useValue: mockJiraIssueRepository },
+        { provide: getRepositoryToken(ServiceNowIncident), useValue: mockServiceNowIncidentRepository },
+        { provide: S3Service, useValue: mockS3Service },
+        { provide: SignalActivityService, useValue: { record: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<HypothesisValidationService>(HypothesisValidationService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should start validation with one pending entry per step and move the signal to investigating', async () => {
+    mockHypothesisRepository.findOne.mockResolvedValueOnce(buildHypothesis());
+    mockWeakSignalRepository.findOne.mockResolvedValueOnce({ id: 9, tenantId: 1, status: 'new' });
+
+    const result = await service.startValidation(1, 4, 2);
+
+    expect(result.status).toBe('investigating');
+    expect(result.validationProgress!.map(p => [p.step, p.status])).toEqual([[1, 'pending'], [2, 'pending']]);
+    expect(mockWeakSignalRepository.save).toHaveBeenCalledWith(expect.objectContaining({ status: 'investigating' }));
+  });
+
+  it('should link Jira issues as supporting evidence and reject unknown references', async () => {
+    mockHypothesisRepository.findOne.mockResolvedValueOnce(buildHypothesis());
+    mockJiraIssueRepository.findOne.mockResolvedValueOnce({ jiraIssueKey: 'OPS-12', summary: 'Deploy broke auth' });
+
+    const result = await service.attachEvidence(1, 4, {
+      kind: 'jira_issue',
+      stance: 'supporting',
+      reference: 'OPS-12',
+      description: 'Deploy happened an hour before the spike',
+      strength: 80,
+      step: 2,
+    }, 2);
+
+    expect(mockJiraIssueRepository.findOne).toHaveBeenCalledWith({ where: { tenantId: 1, jiraIssueKey: 'OPS-12' } });
+    expect(result.evidenceAttachments).toHaveLength(1);
+    expect(result.evidenceAttachments![0]).toMatchObject({ kind: 'jira_issue', title: 'OPS-12: Deploy broke auth', step: 2, addedBy: 2 });
+    expect(result.supportingEvidence[0]).toMatchObject({ type: 'analyst_jira_issue', source: 'OPS-12', strength: 80 });
+
+    mockHypothesisRepository.findOne.mockResolvedValueOnce(buildHypothesis());
+    mockServiceNowIncidentRepository.findOne.mockResolvedValueOnce(null);
+
+    await expect(service.attachEvidence(1, 4, {
+      kind: 'servicenow_incident',
+      stance: 'contradicting',
+      reference: 'INC404',
+      description: 'Missing',
+      strength: 50,
+    })).rejects.toThrow(BadRequestException);
+  });
+
+  it('should store uploaded files and record them as contradicting evidence', async () => {
+    mockHypothesisRepository.findOne.mockResolvedValueOnce(buildHypothesis());
+
+    const result = await service.uploadEvidence(1, 4, {
+      originalname: 'load test results.csv',
+      mimetype: 'text/csv',
+      size: 120,
+      buffer: Buffer.from('a,b'),
+    }, { stance: 'contradicting', description: 'Load stayed flat', strength: 70 }, 2);
+
+    const [, key, contentType] = mockS3Service.uploadFile.mock.calls[0];
+    expect(key).toMatch(/^hypothesis-evidence\/1\/4\/\d+-load_test_results\.csv$/);
+    expect(contentType).toBe('text/csv');
+    expect(result.evidenceAttachments![0]).toMatchObject({ kind: 'file', reference: key, size: 120 });
+    expect(result.contradictingEvidence).toHaveLength(1);
+  });
+
+  it('should recompute confidence and validate the weak signal when confirmed', async () => {
+    mockHypothesisRepository.findOne.mockResolvedValueOnce(buildHypothesis({
+      evidenceAttachments: [
+        { id: 'a', kind: 'jira_issue', stance: 'supporting', reference: 'OPS-12', title: 'OPS-12', description: '', strength: 80, step: 2, contentType: null, size: null, addedBy: 2, addedAt: '' },
+        { id: 'b', kind: 'note', stance: 'contradicting', reference: null, title: 'n', description: 'n', strength: 20, step: null, contentType: null, size: null, addedBy: 2, addedAt: '' },
+      ],
+      validationProgress: [
+        { step: 1, status: 'completed', outcome: 'supports', notes: null, updatedBy: 2, updatedAt: '' },
+        { step: 2, status: 'skipped', outcome: 'contradicts', notes: null, updatedBy: 2, updatedAt: '' },
+      ],
+    }));
+    mockWeakSignalRepository.findOne.mockResolvedValueOnce({ id: 9, tenantId: 1, status: 'investigating', metadata: null });
+
+    const result = await service.completeValidation(1, 4, 'confirmed', 'Deploy confirmed', 2);
+
+    // 60 + 80 * 0.15 - 20 * 0.25 + 5 for the completed supporting step
+    expect(result.validationResults).toMatchObject({
+      outcome: 'confirmed',
+      updatedConfidence: 72,
+      evidence: ['jira_issue:OPS-12', 'note:b'],
+    });
+    expect(result.status).toBe('validated');
+    expect(result.validatedBy).toBe(2);
+
+    const savedSignal = mockWeakSignalRepository.save.mock.calls[0][0];
+    expect(savedSignal.status).toBe('validated');
+    expect(savedSignal.metadata.hypothesisValidations).toEqual([
+      expect.objectContaining({ hypothesisId: 4, outcome: 'confirmed', updatedConfidence: 72 }),
+    ]);
+  });
+
+  it('should keep completed investigations immutable', async () => {
+    mockHypothesisRepository.findOne.mockResolvedValueOnce(buildHypothesis({
+      validationResults: { outcome: 'refuted', evidence: [], updatedConfidence: 10, notes: '' },
+    }));
+
+    await expect(service.updateStep(1, 4, 1, { status: 'completed' })).rejects.toThrow(BadRequestException);
+  });
+
+  it('should reject unknown validation steps', async () => {
+    mockHypothesisRepository.findOne.mockResolvedValueOnce(buildHypothesis());
+
+    await expect(service.updateStep(1, 4, 7, { status: 'completed' })).rejects.toThrow(NotFoundException);
+  });
+
+  it('should persist direct status updates', async () => {
+    mockHypothesisRepository.findOne.mockResolvedValueOnce(buildHypothesis());
+
+    const result = await service.updateStatus(1, 4, { status: 'refuted', validationNotes: 'Not related' }, 2);
+
+    expect(mockHypothesisRepository.save).toHaveBeenCalledWith(expect.objectContaining({ status: 'refuted', validatedBy: 2 }));
+    expect(result.validationNotes).toBe('Not related');
+    expect(mockWeakSignalRepository.save).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,441 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Hypothesis,
+  HypothesisStatus,
+  ValidationOutcome,
+  ValidationStepStatus,
+  ValidationStepOutcome,
+  EvidenceKind,
+  EvidenceStance,
+  EvidenceAttachment,
+} from '../entities/hypothesis.entity';
+import { WeakSignal } from '../entities/weak-signal.entity';
+import { JiraIssue } from '../../jira/entities/jira-issue.entity';
+import { ServiceNowIncident } from '../../servicenow/entities/servicenow-incident.entity';
+import { S3Service } from '../../storage/services/s3.service';
+import { SignalActivityService } from './signal-activity.service';
+
+export interface EvidenceInput {
+  kind: EvidenceKind;
+  stance: EvidenceStance;
+  reference?: string;
+  description: string;
+  strength: number;
+  step?: number;
+}
+
+export interface EvidenceFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+/**
+ * Confidence points per point of evidence strength. Contradicting evidence weighs more
+ * than supporting evidence, so a hypothesis has to survive scrutiny to gain confidence.
+ */
+const SUPPORTING_WEIGHT = 0.15;
+const CONTRADICTING_WEIGHT = 0.25;
+const STEP_ADJUSTMENT: Record<ValidationStepOutcome, number> = {
+  supports: 5,
+  contradicts: -10,
+  neutral: 0,
+};
+
+const OUTCOME_STATUS: Record<ValidationOutcome, HypothesisStatus> = {
+  confirmed: 'validated',
+  partial: 'inconclusive',
+  refuted: 'refuted',
+};
+
+@Injectable()
+export class HypothesisValidationService {
+  private readonly logger = new Logger(HypothesisValidationService.name);
+
+  constructor(
+    @InjectRepository(Hypothesis)
+    private readonly hypothesisRepository: Repository<Hypothesis>,
+    @InjectRepository(WeakSignal)
+    private readonly weakSignalRepository: Repository<WeakSignal>,
+    @InjectRepository(JiraIssue)
+    private readonly jiraIssueRepository: Repository<JiraIssue>,
+    @InjectRepository(ServiceNowIncident)
+    private readonly serviceNowIncidentRepository: Repository<ServiceNowIncident>,
+    private readonly s3Service: S3Service,
+    private readonly signalActivityService: SignalActivityService,
+  ) {}
+
+  /**
+   * Move a hypothesis into investigation and lay out one progress entry per validation step
+   */
+  async startValidation(tenantId: number, id: number, userId?: number): Promise<Hypothesis> {
+    const hypothesis = await this.getHypothesisOrFail(tenantId, id);
+
+    if (hypothesis.validationResults) {
+      throw new BadRequestException('Hypothesis validation is already complete');
+    }
+
+    hypothesis.status = 'investigating';
+    hypothesis.validationProgress = this.initProgress(hypothesis);
+    hypothesis.evidenceAttachments = hypothesis.evidenceAttachments || [];
+
+    const saved = await this.hypothesisRepository.save(hypothesis);
+
+    const signal = await this.getParentSignal(saved);
+    if (signal && signal.status === 'new') {
+      signal.status = 'investigating';
+      await this.weakSignalRepository.save(signal);
+    }
+
+    this.logger.log(`User ${userId} started validating hypothesis ${id}`);
+    return saved;
+  }
+
+  /**
+   * Record progress on a single validation step
+   */
+  async updateStep(
+    tenantId: number,
+    id: number,
+    stepNumber: number,
+    update: { status: ValidationStepStatus; outcome?: ValidationStepOutcome; notes?: string },
+    userId?: number,
+  ): Promise<Hypothesis> {
+    const hypothesis = await this.getHypothesisOrFail(tenantId, id);
+    this.assertOpen(hypothesis);
+
+    const progress = this.initProgress(hypothesis);
+    const entry = progress.find(p => p.step === stepNumber);
+    if (!entry) {
+      throw new NotFoundException(`Validation step ${stepNumber} not found`);
+    }
+
+    entry.status = update.status;
+    entry.outcome = update.outcome ?? entry.outcome;
+    entry.notes = update.notes ?? entry.notes;
+    entry.updatedBy = userId ?? null;
+    entry.updatedAt = new Date().toISOString();
+
+    hypothesis.validationProgress = progress;
+    if (hypothesis.status === 'generated') {
+      hypothesis.status = 'investigating';
+    }
+
+    return await this.hypothesisRepository.save(hypothesis);
+  }
+
+  /**
+   * Attach a Jira issue, ServiceNow incident, link or note as supporting or contradicting evidence
+   */
+  async attachEvidence(tenantId: number, id: number, input: EvidenceInput, userId?: number): Promise<Hypothesis> {
+    const hypothesis = await this.getHypothesisOrFail(tenantId, id);
+    this.assertOpen(hypothesis);
+    this.assertStep(hypothesis, input.step);
+
+    let title = input.description;
+    let reference = input.reference?.trim() || null;
+
+    if (input.kind === 'jira_issue') {
+      const issue = reference
+        ? await this.jiraIssueRepository.findOne({ where: { tenantId, jiraIssueKey: reference } })
+        : null;
+      if (!issue) {
+        throw new BadRequestException(`Jira issue ${reference} not found`);
+      }
+      title = `${issue.jiraIssueKey}: ${issue.summary}`;
+    } else if (input.kind === 'servicenow_incident') {
+      const incident = reference
+        ? await this.serviceNowIncidentRepository.findOne({ where: { tenantId, number: reference } })
+        : null;
+      if (!incident) {
+        throw new BadRequestException(`ServiceNow incident ${reference} not found`);
+      }
+      title = `${incident.number}: ${incident.shortDescription || ''}`.trim();
+    } else if (input.kind === 'link') {
+      if (!reference || !/^https?:\/\//i.test(reference)) {
+        throw new BadRequestException('Link evidence requires an http(s) URL reference');
+      }
+    } else if (input.kind === 'file') {
+      throw new BadRequestException('File evidence must be uploaded');
+    } else {
+      reference = null;
+    }
+
+    return await this.addAttachment(hypothesis, {
+      kind: input.kind,
+      stance: input.stance,
+      reference,
+      title,
+      description: input.description,
+      strength: input.strength,
+      step: input.step ?? null,
+      contentType: null,
+      size: null,
+    }, userId);
+  }
+
+  /**
+   * Store an uploaded file and attach it as evidence
+   */
+  async uploadEvidence(
+    tenantId: number,
+    id: number,
+    file: EvidenceFile,
+    input: Omit<EvidenceInput, 'kind' | 'reference'>,
+    userId?: number,
+  ): Promise<Hypothesis> {
+    const hypothesis = await this.getHypothesisOrFail(tenantId, id);
+    this.assertOpen(hypothesis);
+    this.assertStep(hypothesis, input.step);
+
+    const safeName = file.originalname.replace(/[^a-zA-Z0-9._-]/g, '_');
+    const key = await this.s3Service.uploadFile(
+      file.buffer,
+      `hypothesis-evidence/${tenantId}/${id}/${Date.now()}-${safeName}`,
+      file.mimetype,
+    );
+
+    return await this.addAttachment(hypothesis, {
+      kind: 'file',
+      stance: input.stance,
+      reference: key,
+      title: file.originalname,
+      description: input.description,
+      strength: input.strength,
+      step: input.step ?? null,
+      contentType: file.mimetype,
+      size: file.size,
+    }, userId);
+  }
+
+  /**
+   * Close the investigation, record the recomputed confidence and propagate the outcome to the weak signal
+   */
+  async completeValidation(
+    tenantId: number,
+    id: number,
+    outcome: ValidationOutcome,
+    notes: string | undefined,
+    userId?: number,
+  ): Promise<Hypothesis> {
+    const hypothesis = await this.getHypothesisOrFail(tenantId, id);
+    this.assertOpen(hypothesis);
+
+    const attachments = hypothesis.evidenceAttachments || [];
+    const previousStatus = hypothesis.status;
+
+    hypothesis.validationProgress = this.initProgress(hypothesis);
+    hypothesis.validationResults = {
+      outcome,
+      evidence: attachments.map(a => a.reference ? `${a.kind}:${a.reference}` : `${a.kind}:${a.id}`),
+      updatedConfidence: this.recomputeConfidence(hypothesis),
+      notes: notes || '',
+    };
+    hypothesis.status = OUTCOME_STATUS[outcome];
+    hypothesis.validatedAt = new Date();
+    hypothesis.validatedBy = userId ?? null;
+    if (notes) {
+      hypothesis.validationNotes = notes;
+    }
+
+    const saved = await this.hypothesisRepository.save(hypothesis);
+    await this.propagateToSignal(saved);
+    await this.recordStatusChange(saved, previousStatus, userId, { outcome, notes: notes || null });
+
+    this.logger.log(
+      `Hypothesis ${id} ${outcome} with confidence ${saved.validationResults!.updatedConfidence} ` +
+      `(generated at ${Number(saved.confidence)})`
+    );
+
+    return saved;
+  }
+
+  /**
+   * Persist a direct status change, propagating validation results when they are supplied
+   */
+  async updateStatus(
+    tenantId: number,
+    id: number,
+    update: { status: HypothesisStatus; validationNotes?: string; validationResults?: Hypothesis['validationResults'] },
+    userId?: number,
+  ): Promise<Hypothesis> {
+    const hypothesis = await this.getHypothesisOrFail(tenantId, id);
+    const previousStatus = hypothesis.status;
+
+    hypothesis.status = update.status;
+    hypothesis.validatedAt = new Date();
+    hypothesis.validatedBy = userId ?? null;
+
+    if (update.validationNotes) {
+      hypothesis.validationNotes = update.validationNotes;
+    }
+
+    if (update.validationResults) {
+      hypothesis.validationResults = update.validationResults;
+    }
+
+    const saved = await this.hypothesisRepository.save(hypothesis);
+    if (update.validationResults) {
+      await this.propagateToSignal(saved);
+    }
+    await this.recordStatusChange(saved, previousStatus, userId, { notes: update.validationNotes || null });
+
+    return saved;
+  }
+
+  /**
+   * Generated confidence adjusted by analyst evidence and step outcomes, clamped to 0-100
+   */
+  recomputeConfidence(hypothesis: Hypothesis): number {
+    let confidence = Number(hypothesis.confidence);
+
+    for (const attachment of hypothesis.evidenceAttachments || []) {
+      confidence += attachment.stance === 'supporting'
+        ? attachment.strength * SUPPORTING_WEIGHT
+        : -attachment.strength * CONTRADICTING_WEIGHT;
+    }
+
+    for (const entry of hypothesis.validationProgress || []) {
+      if (entry.status === 'completed' && entry.outcome) {
+        confidence += STEP_ADJUSTMENT[entry.outcome];
+      }
+    }
+
+    return Number(Math.min(100, Math.max(0, confidence)).toFixed(2));
+  }
+
+  private async addAttachment(
+    hypothesis: Hypothesis,
+    fields: Omit<EvidenceAttachment, 'id' | 'addedBy' | 'addedAt'>,
+    userId?: number,
+  ): Promise<Hypothesis> {
+    const attachment: EvidenceAttachment = {
+      id: uuidv4(),
+      ...fields,
+      addedBy: userId ?? null,
+      addedAt: new Date().toISOString(),
+    };
+
+    const evidence = {
+      type: `analyst_${attachment.kind}`,
+      description: attachment.title === attachment.description
+        ? attachment.description
+        : `${attachment.title} - ${attachment.description}`,
+      strength: attachment.strength,
+      source: attachment.reference || 'analyst',
+      timestamp: attachment.addedAt,
+    };
+
+    hypothesis.evidenceAttachments = [...(hypothesis.evidenceAttachments || []), attachment];
+    if (attachment.stance === 'contradicting') {
+      hypothesis.contradictingEvidence = [...(hypothesis.contradictingEvidence || []), evidence];
+    } else {
+      hypothesis.supportingEvidence = [...(hypothesis.supportingEvidence || []), evidence];
+    }
+
+    if (hypothesis.status === 'generated') {
+      hypothesis.status = 'investigating';
+    }
+
+    return await this.hypothesisRepository.save(hypothesis);
+  }
+
+  /**
+   * Record the outcome on the weak signal and validate it when the hypothesis is confirmed
+   */
+  private async propagateToSignal(hypothesis: Hypothesis): Promise<void> {
+    const signal = await this.getParentSignal(hypothesis);
+    if (!signal || !hypothesis.validationResults) {
+      return;
+    }
+
+    const validations = (signal.metadata?.hypothesisValidations || []).filter(
+      (v: { hypothesisId: number }) => v.hypothesisId !== hypothesis.id,
+    );
+    validations.push({
+      hypothesisId: hypothesis.id,
+      hypothesisType: hypothesis.hypothesisType,
+      outcome: hypothesis.validationResults.outcome,
+      updatedConfidence: hypothesis.validationResults.updatedConfidence,
+      validatedBy: hypothesis.validatedBy,
+      validatedAt: hypothesis.validatedAt?.toISOString() ?? null,
+    });
+
+    signal.metadata = { ...(signal.metadata || {}), hypothesisValidations: validations };
+
+    if (hypothesis.validationResults.outcome === 'confirmed' && ['new', 'investigating'].includes(signal.status)) {
+      signal.status = 'validated';
+      signal.validatedAt = new Date();
+      signal.validatedBy = hypothesis.validatedBy;
+    }
+
+    await this.weakSignalRepository.save(signal);
+  }
+
+  private async recordStatusChange(
+    hypothesis: Hypothesis,
+    previousStatus: HypothesisStatus,
+    userId: number | undefined,
+    details: Record<string, any>,
+  ): Promise<void> {
+    await this.signalActivityService.record(
+      hypothesis.tenantId,
+      { weakSignalId: hypothesis.weakSignalId, hypothesisId: hypothesis.id },
+      'hypothesis_status_changed',
+      { previousStatus, status: hypothesis.status, ...details },
+      userId ?? null,
+    );
+  }
+
+  private async getParentSignal(hypothesis: Hypothesis): Promise<WeakSignal | null> {
+    if (!hypothesis.weakSignalId) {
+      return null;
+    }
+
+    return await this.weakSignalRepository.findOne({
+      where: { id: hypothesis.weakSignalId, tenantId: hypothesis.tenantId },
+    });
+  }
+
+  private async getHypothesisOrFail(tenantId: number, id: number): Promise<Hypothesis> {
+    const hypothesis = await this.hypothesisRepository.findOne({ where: { id, tenantId } });
+    if (!hypothesis) {
+      throw new NotFoundException('Hypothesis not found');
+    }
+    return hypothesis;
+  }
+
+  /**
+   * Progress entries for every validation step, keeping any recorded progress
+   */
+  private initProgress(hypothesis: Hypothesis): NonNullable<Hypothesis['validationProgress']> {
+    const existing = hypothesis.validationProgress || [];
+
+    return (hypothesis.validationSteps || []).map(step =>
+      existing.find(p => p.step === step.step) || {
+        step: step.step,
+        status: 'pending' as ValidationStepStatus,
+        outcome: null,
+        notes: null,
+        updatedBy: null,
+        updatedAt: null,
+      },
+    );
+  }
+
+  private assertOpen(hypothesis: Hypothesis): void {
+    if (hypothesis.validationResults) {
+      throw new BadRequestException('Hypothesis validation is already complete');
+    }
+  }
+
+  private assertStep(hypothesis: Hypothesis, step?: number): void {
+    if (step !== undefined && !(hypothesis.validationSteps || []).some(s => s.step === step)) {
+      throw new NotFoundException(`Validation step ${step} not found`);
+    }
+  }
+}
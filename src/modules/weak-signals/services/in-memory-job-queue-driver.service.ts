@@ -0,0 +1,107 @@
+import { Injectable } from '@nestjs/common';
+import { JobQueueDriver, QueueJob } from '../interfaces/job-queue.interface';
+
+/**
+ * Single-process queue driver, used when Redis is not configured and in tests
+ */
+@Injectable()
+export class InMemoryJobQueueDriver implements JobQueueDriver {
+  readonly name = 'memory' as const;
+
+  private readonly waiting = new Map<string, QueueJob>();
+  private readonly reserved = new Map<string, { job: QueueJob; visibleAt: number }>();
+  private readonly cancelled = new Set<string>();
+  private readonly locks = new Map<string, { token: string; expiresAt: number }>();
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async enqueue(job: QueueJob): Promise<void> {
+    this.waiting.set(job.id, { ...job });
+  }
+
+  async reserve(visibilityMs: number): Promise<QueueJob | null> {
+    const now = Date.now();
+
+    // Jobs of workers that never reported back become due again
+    for (const [id, entry] of this.reserved) {
+      if (entry.visibleAt <= now) {
+        this.reserved.delete(id);
+        this.waiting.set(id, entry.job);
+      }
+    }
+
+    const next = Array.from(this.waiting.values())
+      .filter(job => job.availableAt <= now)
+      .sort((a, b) => a.availableAt - b.availableAt || a.enqueuedAt - b.enqueuedAt)[0];
+
+    if (!next) {
+      return null;
+    }
+
+    this.waiting.delete(next.id);
+    this.reserved.set(next.id, { job: next, visibleAt: now + visibilityMs });
+
+    return { ...next };
+  }
+
+  async extendReservation(jobId: string, visibilityMs: number): Promise<boolean> {
+    const entry = this.reserved.get(jobId);
+    if (!entry) {
+      return false;
+    }
+
+    entry.visibleAt = Date.now() + visibilityMs;
+    return true;
+  }
+
+  async release(job: QueueJob, delayMs: number): Promise<void> {
+    this.reserved.delete(job.id);
+    this.waiting.set(job.id, { ...job, availableAt: Date.now() + delayMs });
+  }
+
+  async complete(jobId: string): Promise<void> {
+    this.reserved.delete(jobId);
+    this.waiting.delete(jobId);
+    this.cancelled.delete(jobId);
+  }
+
+  async remove(jobId: string): Promise<boolean> {
+    return this.waiting.delete(jobId);
+  }
+
+  async requestCancel(jobId: string): Promise<void> {
+    this.cancelled.add(jobId);
+  }
+
+  async isCancelRequested(jobId: string): Promise<boolean> {
+    return this.cancelled.has(jobId);
+  }
+
+  async acquireLock(key: string, token: string, ttlMs: number): Promise<boolean> {
+    const lock = this.locks.get(key);
+    if (lock && lock.token !== token && lock.expiresAt > Date.now()) {
+      return false;
+    }
+
+    this.locks.set(key, { token, expiresAt: Date.now() + ttlMs });
+    return true;
+  }
+
+  async extendLock(key: string, token: string, ttlMs: number): Promise<boolean> {
+    const lock = this.locks.get(key);
+    if (!lock || lock.token !== token) {
+      return false;
+    }
+
+    lock.expiresAt = Date.now() + ttlMs;
+    return true;
+  }
+
+  async releaseLock(key: string, token: string): Promise<void> {
+    if (this.locks.get(key)?.token === token) {
+      this.locks.delete(key);
+    }
+  }
+}
@@ -0,0 +1,206 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import { LagAnalysisService } from './lag-analysis.service';
+import { DetectionAggregateService } from './detection-aggregate.service';
+import { DetectionJobQueueService } from './detection-job-queue.service';
+import { SeriesRelationship } from '../entities/series-relationship.entity';
+import { MetricValue } from '../../kpi/entities/metric-value.entity';
+import { WeakSignal } from '../entities/weak-signal.entity';
+import { DailyCounts } from '../interfaces/detection-aggregate.interface';
+import { JobContext, JobHandler, QueueJob } from '../interfaces/job-queue.interface';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Deterministic pseudo-random daily counts
+ */
+function noise(length: number, seed: number): number[] {
+  let state = seed;
+  return Array.from({ length }, () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return Math.floor((state / 2147483648) * 20);
+  });
+}
+
+describe('LagAnalysisService', () => {
+  let service: LagAnalysisService;
+
+  const asOf = new Date('2026-04-01T12:00:00.000Z');
+  const windowStart = new Date(asOf.getTime() - 90 * DAY_MS);
+
+  const mockRelationshipRepository = {
+    find: jest.fn(),
+    delete: jest.fn(),
+    create: jest.fn((data: Partial<SeriesRelationship>) => data),
+    save: jest.fn((data: Partial<SeriesRelationship>) => Promise.resolve(data)),
+  };
+  const mockMetricValueRepository = { find: jest.fn() };
+  const mockAggregateService = { countDailyVolumes: jest.fn() };
+  const mockJobQueue = {
+    registerHandler: jest.fn(),
+    enqueue: jest.fn().mockResolvedValue({ id: 'job-1' }),
+  };
+  let handleScanJob: JobHandler;
+
+  // Slack volume, and incidents that repeat the Slack pattern three days later
+  const slack = noise(91, 42);
+  const incidents = slack.map((_, i) => (i >= 3 ? slack[i - 3] : 5) + (i % 4 === 0 ? 1 : 0));
+
+  const toCounts = (values: number[]): DailyCounts => {
+    const counts: DailyCounts = {};
+    values.forEach((value, i) => {
+      counts[new Date(windowStart.getTime() + i * DAY_MS).toISOString().split('T')[0]] = value;
+    });
+    return counts;
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LagAnalysisService,
+        { provide: ConfigService, useValue: { get: jest.fn(() => undefined) } },
+        { provide: getRepositoryToken(SeriesRelationship), useValue: mockRelationshipRepository },
+        { provide: getRepositoryToken(MetricValue), useValue: mockMetricValueRepository },
+        { provide: DetectionAggregateService, useValue: mockAggregateService },
+        { provide: DetectionJobQueueService, useValue: mockJobQueue },
+      ],
+    }).compile();
+
+    service = module.get<LagAnalysisService>(LagAnalysisService);
+    service.onModuleInit();
+    handleScanJob = mockJobQueue.registerHandler.mock.calls[0][1];
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should find the leading series, its lag and a significant Granger test', () => {
+    const result = service.compareSeries('slack', slack, 'servicenow', incidents, 7, windowStart, asOf);
+
+    expect(result.best).toMatchObject({ lagDays: 3 });
+    expect(result.best!.correlation).toBeGreaterThan(0.8);
+    expect(result.leader).toBe('slack');
+    expect(result.follower).toBe('servicenow');
+    expect(result.granger!.lagOrder).toBe(3);
+    expect(result.granger!.pValue).toBeLessThan(0.01);
+    expect(result.significant).toBe(true);
+  });
+
+  it('should report the reverse direction when the second series leads', () => {
+    const result = service.compareSeries('servicenow', incidents, 'slack', slack, 7, windowStart, asOf);
+
+    expect(result.best!.lagDays).toBe(-3);
+    expect(result.leader).toBe('slack');
+    expect(result.follower).toBe('servicenow');
+  });
+
+  it('should not treat unrelated series as significant', () => {
+    const result = service.compareSeries('slack', slack, 'jira', noise(91, 7), 7, windowStart, asOf);
+
+    expect(result.correlations).toHaveLength(15);
+    expect(result.significant).toBe(false);
+  });
+
+  it('should store significant relationships and replace the previous result of the pair', async () => {
+    mockAggregateService.countDailyVolumes.mockResolvedValueOnce({ slack: toCounts(slack), servicenow: toCounts(incidents) });
+
+    const result = await service.analyzePair(1, 'slack', 'servicenow', { daysBack: 90 }, asOf);
+
+    expect(result.significant).toBe(true);
+    expect(mockAggregateService.countDailyVolumes).toHaveBeenCalledWith(1, windowStart, asOf);
+    expect(mockMetricValueRepository.find).not.toHaveBeenCalled();
+    expect(mockRelationshipRepository.delete).toHaveBeenCalledWith({ tenantId: 1, leaderSeries: 'slack', followerSeries: 'servicenow' });
+    expect(mockRelationshipRepository.delete).toHaveBeenCalledWith({ tenantId: 1, leaderSeries: 'servicenow', followerSeries: 'slack' });
+    expect(mockRelationshipRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({ tenantId: 1, leaderSeries: 'slack', followerSeries: 'servicenow', lagDays: 3 }),
+    );
+  });
+
+  it('should reject series without data', async () => {
+    mockAggregateService.countDailyVolumes.mockResolvedValueOnce({ slack: toCounts(slack) });
+
+    await expect(service.analyzePair(1, 'slack', 'teams', { daysBack: 90 }, asOf)).rejects.toThrow(BadRequestException);
+    expect(mockRelationshipRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('should queue the full scan instead of running it in the request', async () => {
+    const job = await service.queueScan(1, { daysBack: 60, maxLagDays: 5 });
+
+    expect(job).toEqual({ id: 'job-1' });
+    expect(mockJobQueue.enqueue).toHaveBeenCalledWith('lag_scan', 1, { daysBack: 60, maxLagDays: 5 });
+    expect(mockAggregateService.countDailyVolumes).not.toHaveBeenCalled();
+  });
+
+  it('should scan every pair with data when the queued job runs', async () => {
+    mockAggregateService.countDailyVolumes.mockResolvedValueOnce({ slack: toCounts(slack), servicenow: toCounts(incidents) });
+    mockMetricValueRepository.find.mockResolvedValueOnce([]);
+    const context: JobContext = { jobId: 'job-1', attempt: 1, isLastAttempt: true, checkpoint: jest.fn().mockResolvedValue(undefined) };
+    const job: QueueJob = {
+      id: 'job-1',
+      type: 'lag_scan',
+      tenantId: 1,
+      payload: { daysBack: 90 },
+      attempts: 1,
+      maxAttempts: 3,
+      availableAt: 0,
+      enqueuedAt: 0,
+    };
+
+    jest.useFakeTimers({ now: asOf });
+    try {
+      await handleScanJob(job, context);
+    } finally {
+      jest.useRealTimers();
+    }
+
+    expect(context.checkpoint).toHaveBeenCalled();
+    expect(mockRelationshipRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({ tenantId: 1, leaderSeries: 'slack', followerSeries: 'servicenow', lagDays: 3 }),
+    );
+  });
+
+  it('should not store relationships between pure noise series when scanning every pair', async () => {
+    const volumes = ['jira', 'jira_critical', 'servicenow', 'servicenow_p1', 'slack', 'teams', 'gmail', 'outlook', 'timeline_high_impact'];
+    mockAggregateService.countDailyVolumes.mockResolvedValueOnce(
+      Object.fromEntries(volumes.map((volume, i) => [volume, toCounts(noise(91, 1000 + i * 7919))])),
+    );
+    mockMetricValueRepository.find.mockResolvedValueOnce([]);
+
+    const significant = await service.scan(1, { daysBack: 90 }, asOf);
+
+    expect(mockRelationshipRepository.delete).toHaveBeenCalledTimes(2 * 36);
+    expect(significant).toEqual([]);
+    expect(mockRelationshipRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('should correct the significance level for every lag and pair tested', () => {
+    const single = service.compareSeries('slack', slack, 'servicenow', incidents, 7, windowStart, asOf);
+    const inScan = service.compareSeries('slack', slack, 'servicenow', incidents, 7, windowStart, asOf, 36);
+
+    expect(single.significanceLevel).toBeCloseTo(0.05 / 15, 10);
+    expect(inScan.significanceLevel).toBeCloseTo(0.05 / (15 * 36), 10);
+    expect(inScan.significant).toBe(true);
+  });
+
+  it('should map signals to the series behind their metric and evidence', () => {
+    const acceleration = {
+      affectedEntities: [{ type: 'metric', id: 'communication_activity_rate', name: '', impactLevel: 'high' }],
+      sourceSignals: [],
+    } as unknown as WeakSignal;
+    const kpi = {
+      affectedEntities: [{ type: 'metric', id: 'deployment_frequency', name: '', impactLevel: 'high' }],
+      sourceSignals: [],
+    } as unknown as WeakSignal;
+    const pattern = {
+      affectedEntities: [],
+      sourceSignals: [{ source: 'jira' }, { source: 'timeline' }, { source: 'jira' }],
+    } as unknown as WeakSignal;
+
+    expect(service.seriesForSignal(acceleration)).toEqual(['slack', 'teams', 'gmail', 'outlook']);
+    expect(service.seriesForSignal(kpi)).toEqual(['metric:deployment_frequency']);
+    expect(service.seriesForSignal(pattern)).toEqual(['jira', 'timeline_high_impact']);
+  });
+});
@@ -0,0 +1,650 @@
+import { Injectable, Logger, BadRequestException, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, Between, In } from 'typeorm';
+import { MetricValue } from '../../kpi/entities/metric-value.entity';
+import { WeakSignal } from '../entities/weak-signal.entity';
+import { SeriesRelationship } from '../entities/series-relationship.entity';
+import { DetectionAggregateService } from './detection-aggregate.service';
+import { DetectionJobQueueService } from './detection-job-queue.service';
+import { DailyCounts, VolumeSeries } from '../interfaces/detection-aggregate.interface';
+import { JobContext, QueueJob } from '../interfaces/job-queue.interface';
+import {
+  GrangerTestResult,
+  LagAnalysisResult,
+  LagCorrelation,
+  SeriesKey,
+} from '../interfaces/lag-analysis.interface';
+
+const VOLUME_SERIES: VolumeSeries[] = [
+  'jira',
+  'jira_critical',
+  'servicenow',
+  'servicenow_p1',
+  'slack',
+  'teams',
+  'gmail',
+  'outlook',
+  'timeline_high_impact',
+];
+
+const METRIC_PREFIX = 'metric:';
+
+/**
+ * Volume series behind the metric keys of trend accelerations and anomalies
+ */
+const DETECTOR_METRIC_SERIES: Record<string, VolumeSeries[]> = {
+  jira_issue_rate: ['jira'],
+  jira_issue_volume: ['jira'],
+  jira_critical_rate: ['jira_critical'],
+  servicenow_incident_rate: ['servicenow'],
+  servicenow_incident_volume: ['servicenow'],
+  servicenow_p1_rate: ['servicenow_p1'],
+  slack_message_rate: ['slack'],
+  slack_message_volume: ['slack'],
+  teams_message_rate: ['teams'],
+  teams_message_volume: ['teams'],
+  gmail_message_rate: ['gmail'],
+  gmail_message_volume: ['gmail'],
+  outlook_message_rate: ['outlook'],
+  outlook_message_volume: ['outlook'],
+  communication_activity_rate: ['slack', 'teams', 'gmail', 'outlook'],
+  high_impact_event_rate: ['timeline_high_impact'],
+};
+
+/**
+ * Volume series behind the evidence sources of a signal
+ */
+const SOURCE_SERIES: Record<string, VolumeSeries> = {
+  jira: 'jira',
+  servicenow: 'servicenow',
+  slack: 'slack',
+  teams: 'teams',
+  gmail: 'gmail',
+  outlook: 'outlook',
+  timeline: 'timeline_high_impact',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Fewer days than this cannot support a lag test
+ */
+const MIN_DAYS = 28;
+const DEFAULT_MAX_LAG_DAYS = 7;
+
+/**
+ * Lead/lag analysis between the daily series the platform derives. Series are differenced to
+ * remove trends, the lag with the strongest cross-correlation gives the direction, and a
+ * Granger-style F-test checks that the leader's past improves the prediction of the follower
+ * beyond the follower's own past. Every lag of every pair compared in one run counts as a
+ * separate test, so the significance level is Bonferroni-corrected for all of them before
+ * relationships are stored per tenant.
+ */
+@Injectable()
+export class LagAnalysisService implements OnModuleInit {
+  private readonly logger = new Logger(LagAnalysisService.name);
+  private readonly significanceLevel: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(SeriesRelationship)
+    private readonly relationshipRepository: Repository<SeriesRelationship>,
+    @InjectRepository(MetricValue)
+    private readonly metricValueRepository: Repository<MetricValue>,
+    private readonly detectionAggregateService: DetectionAggregateService,
+    private readonly jobQueue: DetectionJobQueueService,
+  ) {
+    this.significanceLevel = parseFloat(this.configService.get<string>('WEAK_SIGNAL_LAG_SIGNIFICANCE_LEVEL') || '0.05');
+  }
+
+  onModuleInit(): void {
+    this.jobQueue.registerHandler('lag_scan', (job, context) => this.handleScanJob(job, context));
+  }
+
+  /**
+   * Series with data in the window
+   */
+  async listSeries(tenantId: number, daysBack: number = 90, asOf: Date = new Date()): Promise<SeriesKey[]> {
+    const series = await this.loadSeries(tenantId, null, daysBack, asOf);
+    return Array.from(series.keys());
+  }
+
+  /**
+   * Analyze one pair of series and store or clear their relationship
+   */
+  async analyzePair(
+    tenantId: number,
+    seriesA: SeriesKey,
+    seriesB: SeriesKey,
+    options: { daysBack?: number; maxLagDays?: number } = {},
+    asOf: Date = new Date(),
+  ): Promise<LagAnalysisResult> {
+    if (seriesA === seriesB) {
+      throw new BadRequestException('Choose two different series');
+    }
+
+    const daysBack = options.daysBack ?? 90;
+    const series = await this.loadSeries(tenantId, [seriesA, seriesB], daysBack, asOf);
+    for (const key of [seriesA, seriesB]) {
+      if (!series.has(key)) {
+        throw new BadRequestException(`Series ${key} has no data in the last ${daysBack} days`);
+      }
+    }
+
+    const { start, end } = this.window(daysBack, asOf);
+    const result = this.compareSeries(
+      seriesA,
+      this.toDailyArray(seriesA, series.get(seriesA)!, start, end),
+      seriesB,
+      this.toDailyArray(seriesB, series.get(seriesB)!, start, end),
+      options.maxLagDays ?? DEFAULT_MAX_LAG_DAYS,
+      start,
+      end,
+    );
+
+    await this.storeResult(tenantId, result);
+    return result;
+  }
+
+  /**
+   * Queue a scan of every pair of series; the stored relationships are updated when it has run
+   */
+  async queueScan(tenantId: number, options: { daysBack?: number; maxLagDays?: number } = {}): Promise<QueueJob> {
+    return await this.jobQueue.enqueue('lag_scan', tenantId, {
+      daysBack: options.daysBack,
+      maxLagDays: options.maxLagDays,
+    });
+  }
+
+  /**
+   * Analyze every pair of series with data and store the significant relationships
+   */
+  async scan(
+    tenantId: number,
+    options: { daysBack?: number; maxLagDays?: number } = {},
+    asOf: Date = new Date(),
+    context?: JobContext,
+  ): Promise<LagAnalysisResult[]> {
+    const daysBack = options.daysBack ?? 90;
+    const series = await this.loadSeries(tenantId, null, daysBack, asOf);
+    const { start, end } = this.window(daysBack, asOf);
+
+    const keys = Array.from(series.keys());
+    const pairCount = (keys.length * (keys.length - 1)) / 2;
+    const arrays = new Map(keys.map(key => [key, this.toDailyArray(key, series.get(key)!, start, end)]));
+    const significant: LagAnalysisResult[] = [];
+
+    for (let i = 0; i < keys.length; i++) {
+      await context?.checkpoint();
+      for (let j = i + 1; j < keys.length; j++) {
+        const result = this.compareSeries(
+          keys[i],
+          arrays.get(keys[i])!,
+          keys[j],
+          arrays.get(keys[j])!,
+          options.maxLagDays ?? DEFAULT_MAX_LAG_DAYS,
+          start,
+          end,
+          pairCount,
+        );
+
+        await this.storeResult(tenantId, result);
+        if (result.significant) {
+          significant.push(result);
+        }
+      }
+    }
+
+    this.logger.log(`Lag scan for tenant ${tenantId}: ${significant.length} significant relationships among ${keys.length} series`);
+    return significant;
+  }
+
+  /**
+   * Queue worker handler that runs one lag scan
+   */
+  private async handleScanJob(job: QueueJob, context: JobContext): Promise<void> {
+    await this.scan(job.tenantId, { daysBack: job.payload.daysBack, maxLagDays: job.payload.maxLagDays }, new Date(), context);
+  }
+
+  /**
+   * Stored relationships, optionally only those involving one of the given series
+   */
+  async getRelationships(tenantId: number, series?: SeriesKey[]): Promise<SeriesRelationship[]> {
+    if (series && series.length === 0) {
+      return [];
+    }
+
+    const where = series
+      ? [
+          { tenantId, leaderSeries: In(series) },
+          { tenantId, followerSeries: In(series) },
+        ]
+      : { tenantId };
+
+    return this.relationshipRepository.find({
+      where,
+      order: { grangerPValue: 'ASC' },
+    });
+  }
+
+  /**
+   * The daily series a signal is about: its metric, or the sources of its evidence
+   */
+  seriesForSignal(signal: WeakSignal): SeriesKey[] {
+    const keys = new Set<SeriesKey>();
+
+    const metricKey = (signal.affectedEntities || []).find(entity => entity.type === 'metric')?.id;
+    if (metricKey) {
+      const volumes = DETECTOR_METRIC_SERIES[metricKey];
+      if (volumes) {
+        volumes.forEach(volume => keys.add(volume));
+      } else {
+        keys.add(`${METRIC_PREFIX}${metricKey}`);
+      }
+    }
+
+    for (const sourceSignal of signal.sourceSignals || []) {
+      const volume = SOURCE_SERIES[sourceSignal.source];
+      if (volume) {
+        keys.add(volume);
+      }
+    }
+
+    return Array.from(keys);
+  }
+
+  /**
+   * Cross-correlate two aligned daily series and test the strongest lag for Granger causality.
+   * pairCount is the number of pairs compared in the same run, for the multiple-testing correction.
+   */
+  compareSeries(
+    seriesA: SeriesKey,
+    valuesA: number[],
+    seriesB: SeriesKey,
+    valuesB: number[],
+    maxLagDays: number,
+    windowStart: Date,
+    windowEnd: Date,
+    pairCount: number = 1,
+  ): LagAnalysisResult {
+    const result: LagAnalysisResult = {
+      seriesA,
+      seriesB,
+      windowStart,
+      windowEnd,
+      days: valuesA.length,
+      correlations: [],
+      best: null,
+      leader: null,
+      follower: null,
+      granger: null,
+      significanceLevel: this.significanceLevel,
+      significant: false,
+    };
+
+    if (valuesA.length < MIN_DAYS || valuesA.length !== valuesB.length) {
+      return result;
+    }
+
+    // Differencing removes shared trends that would otherwise correlate at every lag
+    const diffA = this.difference(valuesA);
+    const diffB = this.difference(valuesB);
+    const maxLag = Math.max(1, Math.min(maxLagDays, Math.floor(diffA.length / 4)));
+
+    for (let lag = -maxLag; lag <= maxLag; lag++) {
+      const { x, y } = this.alignAtLag(diffA, diffB, lag);
+      result.correlations.push({
+        lagDays: lag,
+        correlation: this.round(this.pearson(x, y)),
+        sampleSize: x.length,
+      });
+    }
+
+    // Picking the strongest of all lags is only meaningful against the level for all lags of all pairs
+    result.significanceLevel = this.significanceLevel / (Math.max(1, pairCount) * result.correlations.length);
+
+    const best = result.correlations.reduce<LagCorrelation | null>(
+      (current, candidate) => (!current || Math.abs(candidate.correlation) > Math.abs(current.correlation) ? candidate : current),
+      null,
+    );
+    result.best = best;
+
+    // A same-day correlation says nothing about which series moves first
+    if (!best || best.lagDays === 0) {
+      return result;
+    }
+
+    const aLeads = best.lagDays > 0;
+    result.leader = aLeads ? seriesA : seriesB;
+    result.follower = aLeads ? seriesB : seriesA;
+    result.granger = this.grangerTest(aLeads ? diffA : diffB, aLeads ? diffB : diffA, Math.abs(best.lagDays));
+
+    result.significant = this.correlationPValue(best.correlation, best.sampleSize) < result.significanceLevel
+      && !!result.granger
+      && result.granger.pValue < result.significanceLevel;
+
+    return result;
+  }
+
+  /**
+   * Replace the stored relationship of a pair with the latest result
+   */
+  private async storeResult(tenantId: number, result: LagAnalysisResult): Promise<void> {
+    await this.relationshipRepository.delete({ tenantId, leaderSeries: result.seriesA, followerSeries: result.seriesB });
+    await this.relationshipRepository.delete({ tenantId, leaderSeries: result.seriesB, followerSeries: result.seriesA });
+
+    if (!result.significant || !result.best || !result.granger || !result.leader || !result.follower) {
+      return;
+    }
+
+    await this.relationshipRepository.save(
+      this.relationshipRepository.create({
+        tenantId,
+        leaderSeries: result.leader,
+        followerSeries: result.follower,
+        lagDays: Math.abs(result.best.lagDays),
+        correlation: result.best.correlation,
+        grangerFStatistic: this.round(Math.min(result.granger.fStatistic, 99999999)),
+        grangerPValue: result.granger.pValue,
+        sampleDays: result.days,
+        windowStart: result.windowStart,
+        windowEnd: result.windowEnd,
+      }),
+    );
+  }
+
+  /**
+   * Daily counts per series key. Volume series come from the detector sources; KPI series
+   * average the metric values of each day.
+   */
+  private async loadSeries(
+    tenantId: number,
+    keys: SeriesKey[] | null,
+    daysBack: number,
+    asOf: Date,
+  ): Promise<Map<SeriesKey, DailyCounts>> {
+    const series = new Map<SeriesKey, DailyCounts>();
+    const wantsVolumes = !keys || keys.some(key => !key.startsWith(METRIC_PREFIX));
+    const wantsMetrics = !keys || keys.some(key => key.startsWith(METRIC_PREFIX));
+    const { start } = this.window(daysBack, asOf);
+
+    if (wantsVolumes) {
+      const volumes = await this.detectionAggregateService.countDailyVolumes(tenantId, start, asOf);
+      for (const volume of VOLUME_SERIES) {
+        const counts = volumes[volume] || {};
+        if (Object.keys(counts).length > 0 && (!keys || keys.includes(volume))) {
+          series.set(volume, counts);
+        }
+      }
+    }
+
+    if (wantsMetrics) {
+      const values = await this.metricValueRepository.find({
+        where: { tenantId, periodStart: Between(start, asOf) },
+        relations: ['metricDefinition'],
+      });
+
+      const sums = new Map<SeriesKey, Record<string, { total: number; count: number }>>();
+      for (const value of values) {
+        const metricKey = value.metricDefinition?.metricKey;
+        if (!metricKey) continue;
+
+        const key = `${METRIC_PREFIX}${metricKey}`;
+        if (keys && !keys.includes(key)) continue;
+
+        const day = new Date(value.periodStart).toISOString().split('T')[0];
+        const days = sums.get(key) || {};
+        days[day] = days[day] || { total: 0, count: 0 };
+        days[day].total += Number(value.value) || 0;
+        days[day].count++;
+        sums.set(key, days);
+      }
+
+      for (const [key, days] of sums) {
+        const counts: DailyCounts = {};
+        for (const [day, { total, count }] of Object.entries(days)) {
+          counts[day] = total / count;
+        }
+        series.set(key, counts);
+      }
+    }
+
+    return series;
+  }
+
+  private window(daysBack: number, asOf: Date): { start: Date; end: Date } {
+    const start = new Date(asOf);
+    start.setDate(start.getDate() - daysBack);
+    return { start, end: asOf };
+  }
+
+  /**
+   * Values for every UTC day of the window. Volume days without activity are zero; KPI days
+   * without a measurement carry the nearest earlier value, since a missing measurement is not a zero.
+   */
+  private toDailyArray(key: SeriesKey, counts: DailyCounts, start: Date, end: Date): number[] {
+    const values: number[] = [];
+    const cursor = new Date(`${start.toISOString().split('T')[0]}T00:00:00.000Z`);
+    const lastDay = new Date(`${end.toISOString().split('T')[0]}T00:00:00.000Z`);
+    const carryForward = key.startsWith(METRIC_PREFIX);
+    const firstDay = Object.keys(counts).sort()[0];
+    let previous = carryForward && firstDay ? counts[firstDay] : 0;
+
+    while (cursor.getTime() <= lastDay.getTime()) {
+      const value = counts[cursor.toISOString().split('T')[0]];
+      previous = value !== undefined ? value : carryForward ? previous : 0;
+      values.push(previous);
+      cursor.setTime(cursor.getTime() + DAY_MS);
+    }
+
+    return values;
+  }
+
+  private difference(values: number[]): number[] {
+    return values.slice(1).map((value, i) => value - values[i]);
+  }
+
+  /**
+   * Pairs (a_t, b_{t+lag}); a positive lag compares a with later values of b
+   */
+  private alignAtLag(a: number[], b: number[], lag: number): { x: number[]; y: number[] } {
+    if (lag >= 0) {
+      return { x: a.slice(0, a.length - lag), y: b.slice(lag) };
+    }
+    return { x: a.slice(-lag), y: b.slice(0, b.length + lag) };
+  }
+
+  private pearson(x: number[], y: number[]): number {
+    const n = x.length;
+    if (n < 3) return 0;
+
+    const meanX = x.reduce((a, b) => a + b, 0) / n;
+    const meanY = y.reduce((a, b) => a + b, 0) / n;
+    let covariance = 0;
+    let varianceX = 0;
+    let varianceY = 0;
+    for (let i = 0; i < n; i++) {
+      covariance += (x[i] - meanX) * (y[i] - meanY);
+      varianceX += Math.pow(x[i] - meanX, 2);
+      varianceY += Math.pow(y[i] - meanY, 2);
+    }
+
+    if (varianceX === 0 || varianceY === 0) return 0;
+    return covariance / Math.sqrt(varianceX * varianceY);
+  }
+
+  /**
+   * Two-sided p-value of a Pearson correlation, through its t statistic with n - 2 degrees of freedom
+   */
+  private correlationPValue(correlation: number, sampleSize: number): number {
+    const df = sampleSize - 2;
+    if (df <= 0) return 1;
+    if (Math.abs(correlation) >= 1) return 0;
+
+    const tSquared = (correlation * correlation * df) / (1 - correlation * correlation);
+    return this.incompleteBeta(df / (df + tSquared), df / 2, 0.5);
+  }
+
+  /**
+   * F-test of y_t on its own p lags (restricted) against y_t on its own and x's p lags
+   */
+  private grangerTest(x: number[], y: number[], lagOrder: number): GrangerTestResult | null {
+    const restrictedRows: number[][] = [];
+    const unrestrictedRows: number[][] = [];
+    const targets: number[] = [];
+
+    for (let t = lagOrder; t < y.length; t++) {
+      const ownLags = Array.from({ length: lagOrder }, (_, i) => y[t - 1 - i]);
+      const leaderLags = Array.from({ length: lagOrder }, (_, i) => x[t - 1 - i]);
+      restrictedRows.push([1, ...ownLags]);
+      unrestrictedRows.push([1, ...ownLags, ...leaderLags]);
+      targets.push(y[t]);
+    }
+
+    const sampleSize = targets.length;
+    const df2 = sampleSize - 2 * lagOrder - 1;
+    if (df2 <= 0) {
+      return null;
+    }
+
+    const restrictedRss = this.residualSumOfSquares(restrictedRows, targets);
+    const unrestrictedRss = this.residualSumOfSquares(unrestrictedRows, targets);
+    if (restrictedRss === null || unrestrictedRss === null) {
+      return null;
+    }
+
+    if (unrestrictedRss < 1e-12) {
+      // The leader explains the follower perfectly, or neither moves at all
+      const explained = restrictedRss > 1e-12;
+      return { lagOrder, fStatistic: explained ? Infinity : 0, pValue: explained ? 0 : 1, sampleSize };
+    }
+
+    const fStatistic = Math.max(0, ((restrictedRss - unrestrictedRss) / lagOrder) / (unrestrictedRss / df2));
+    const pValue = this.incompleteBeta(df2 / (df2 + lagOrder * fStatistic), df2 / 2, lagOrder / 2);
+
+    return {
+      lagOrder,
+      fStatistic: this.round(fStatistic),
+      pValue: Math.min(1, Math.max(0, Number(pValue.toFixed(8)))),
+      sampleSize,
+    };
+  }
+
+  /**
+   * Least squares fit through the normal equations; null when the regressors are collinear
+   */
+  private residualSumOfSquares(rows: number[][], targets: number[]): number | null {
+    const k = rows[0].length;
+    const matrix = Array.from({ length: k }, () => new Array(k + 1).fill(0));
+
+    for (let r = 0; r < rows.length; r++) {
+      for (let i = 0; i < k; i++) {
+        for (let j = 0; j < k; j++) {
+          matrix[i][j] += rows[r][i] * rows[r][j];
+        }
+        matrix[i][k] += rows[r][i] * targets[r];
+      }
+    }
+
+    // Gaussian elimination with partial pivoting
+    for (let col = 0; col < k; col++) {
+      let pivot = col;
+      for (let row = col + 1; row < k; row++) {
+        if (Math.abs(matrix[row][col]) > Math.abs(matrix[pivot][col])) pivot = row;
+      }
+      if (Math.abs(matrix[pivot][col]) < 1e-10) {
+        return null;
+      }
+      [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+
+      for (let row = 0; row < k; row++) {
+        if (row === col) continue;
+        const factor = matrix[row][col] / matrix[col][col];
+        for (let j = col; j <= k; j++) {
+          matrix[row][j] -= factor * matrix[col][j];
+        }
+      }
+    }
+
+    const coefficients = matrix.map((row, i) => row[k] / row[i]);
+
+    return rows.reduce((sum, row, r) => {
+      const fitted = row.reduce((acc, value, i) => acc + value * coefficients[i], 0);
+      return sum + Math.pow(targets[r] - fitted, 2);
+    }, 0);
+  }
+
+  /**
+   * Regularized incomplete beta function I_x(a, b), by continued fraction
+   */
+  private incompleteBeta(x: number, a: number, b: number): number {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+
+    const front = Math.exp(
+      this.logGamma(a + b) - this.logGamma(a) - this.logGamma(b) + a * Math.log(x) + b * Math.log(1 - x),
+    );
+
+    // The continued fraction converges fastest below the mean of the distribution
+    if (x < (a + 1) / (a + b + 2)) {
+      return (front * this.betaContinuedFraction(x, a, b)) / a;
+    }
+    return 1 - (front * this.betaContinuedFraction(1 - x, b, a)) / b;
+  }
+
+  private betaContinuedFraction(x: number, a: number, b: number): number {
+    const tiny = 1e-30;
+    let c = 1;
+    let d = 1 - ((a + b) * x) / (a + 1);
+    if (Math.abs(d) < tiny) d = tiny;
+    d = 1 / d;
+    let result = d;
+
+    for (let m = 1; m <= 200; m++) {
+      const m2 = 2 * m;
+      let numerator = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+      d = 1 + numerator * d;
+      if (Math.abs(d) < tiny) d = tiny;
+      c = 1 + numerator / c;
+      if (Math.abs(c) < tiny) c = tiny;
+      d = 1 / d;
+      result *= d * c;
+
+      numerator = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+      d = 1 + numerator * d;
+      if (Math.abs(d) < tiny) d = tiny;
+      c = 1 + numerator / c;
+      if (Math.abs(c) < tiny) c = tiny;
+      d = 1 / d;
+      const delta = d * c;
+      result *= delta;
+
+      if (Math.abs(delta - 1) < 1e-10) break;
+    }
+
+    return result;
+  }
+
+  /**
+   * Lanczos approximation of ln Γ(z)
+   */
+  private logGamma(z: number): number {
+    const coefficients = [
+      76.18009172947146, -86.50532032941677, 24.01409824083091,
+      -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+    ];
+    let y = z;
+    const tmp = z + 5.5 - (z + 0.5) * Math.log(z + 5.5);
+    let series = 1.000000000190015;
+    for (const coefficient of coefficients) {
+      series += coefficient / ++y;
+    }
+
+    return -tmp + Math.log((2.5066282746310005 * series) / z);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
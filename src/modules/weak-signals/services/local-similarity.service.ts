@@ -0,0 +1,263 @@
+import { Injectable } from '@nestjs/common';
+import { SimilarityBackend, SimilarPair } from '../interfaces/similarity.interface';
+
+/**
+ * Above this many texts, candidate pairs come from MinHash LSH instead of comparing every pair.
+ */
+const FULL_PAIRWISE_LIMIT = 500;
+
+/**
+ * MinHash signature layout: BANDS x ROWS hash functions. With 16 bands of 4 rows,
+ * pairs with a token Jaccard of roughly 0.5 or more become candidates.
+ */
+const MINHASH_BANDS = 16;
+const MINHASH_ROWS = 4;
+const MINHASH_PRIME = 2147483647;
+
+/**
+ * Multipliers stay below 2^22 so (a * hash + b) stays within exact double precision.
+ */
+const MINHASH_MAX_MULTIPLIER = 4194304;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it', 'its',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'will', 'with', 'when', 'after', 'while',
+  'during', 'not', 'no', 'can', 'cannot', 'please', 'via', 'into', 'we', 'our', 'us', 'i', 'n',
+]);
+
+/**
+ * Abbreviations and spelling variants common in tickets, mapped to one canonical token.
+ */
+const SYNONYMS: Record<string, string> = {
+  db: 'database',
+  dbs: 'database',
+  k8s: 'kubernetes',
+  auth: 'authentication',
+  authn: 'authentication',
+  err: 'error',
+  errs: 'error',
+  prod: 'production',
+  stg: 'staging',
+  svc: 'service',
+  conn: 'connection',
+  conns: 'connection',
+  perf: 'performance',
+  msg: 'message',
+  env: 'environment',
+  config: 'configuration',
+  cfg: 'configuration',
+  oom: 'memory',
+  mem: 'memory',
+  timeouts: 'timeout',
+  'timed-out': 'timeout',
+  login: 'signin',
+  logon: 'signin',
+};
+
+const SUFFIXES = ['ization', 'ation', 'ition', 'ment', 'ness', 'ing', 'ure', 'ion', 'ed', 'ly', 'er'];
+
+@Injectable()
+export class LocalSimilarityService implements SimilarityBackend {
+  readonly name = 'local' as const;
+
+  private readonly hashCoefficients: { a: number; b: number }[];
+
+  constructor() {
+    // Deterministic coefficients so signatures are reproducible between runs
+    let seed = 42;
+    const next = () => {
+      seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+      return seed;
+    };
+    this.hashCoefficients = Array.from({ length: MINHASH_BANDS * MINHASH_ROWS }, () => ({
+      a: (next() % (MINHASH_MAX_MULTIPLIER - 1)) + 1,
+      b: next() % MINHASH_PRIME,
+    }));
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  /**
+   * TF-IDF cosine similarity; MinHash LSH narrows the candidate pairs for large inputs
+   */
+  async findSimilarPairs(texts: string[], threshold: number): Promise<SimilarPair[]> {
+    const tokenized = texts.map(text => this.tokenize(text));
+    const vectors = this.buildTfIdfVectors(tokenized);
+
+    const candidates = texts.length > FULL_PAIRWISE_LIMIT
+      ? this.findMinHashCandidates(tokenized)
+      : this.allPairs(texts.length);
+
+    const pairs: SimilarPair[] = [];
+    for (const [a, b] of candidates) {
+      const score = this.cosine(vectors[a], vectors[b]);
+      if (score >= threshold) {
+        pairs.push({ a, b, score });
+      }
+    }
+
+    return pairs;
+  }
+
+  /**
+   * Normalize text into canonical, lightly stemmed tokens
+   */
+  tokenize(text: string): string[] {
+    return (text || '')
+      .toLowerCase()
+      .replace(/\d+/g, ' ')
+      .split(/[^a-z0-9-]+/)
+      .map(token => token.replace(/^-+|-+$/g, ''))
+      .filter(token => token.length > 1 && !STOPWORDS.has(token))
+      .map(token => SYNONYMS[token] || token)
+      .map(token => this.stem(token));
+  }
+
+  /**
+   * Light suffix stemmer so "exhausted", "exhaustion" and "exhausts" share a token
+   */
+  private stem(token: string): string {
+    let stemmed = token;
+
+    if (stemmed.endsWith('ies') && stemmed.length > 4) {
+      stemmed = `${stemmed.slice(0, -3)}y`;
+    } else if (stemmed.endsWith('s') && !stemmed.endsWith('ss') && stemmed.length > 3) {
+      stemmed = stemmed.slice(0, -1);
+    }
+
+    for (const suffix of SUFFIXES) {
+      if (stemmed.endsWith(suffix) && stemmed.length - suffix.length >= 4) {
+        stemmed = stemmed.slice(0, -suffix.length);
+        break;
+      }
+    }
+
+    if (stemmed.endsWith('e') && stemmed.length > 4) {
+      stemmed = stemmed.slice(0, -1);
+    }
+
+    return stemmed;
+  }
+
+  /**
+   * Build L2-normalized TF-IDF vectors over the given documents
+   */
+  private buildTfIdfVectors(documents: string[][]): Map<string, number>[] {
+    const documentFrequency = new Map<string, number>();
+    for (const tokens of documents) {
+      for (const token of new Set(tokens)) {
+        documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+      }
+    }
+
+    const total = documents.length;
+
+    return documents.map(tokens => {
+      const termFrequency = new Map<string, number>();
+      for (const token of tokens) {
+        termFrequency.set(token, (termFrequency.get(token) || 0) + 1);
+      }
+
+      const vector = new Map<string, number>();
+      let norm = 0;
+      for (const [token, count] of termFrequency) {
+        const idf = Math.log((1 + total) / (1 + (documentFrequency.get(token) || 0))) + 1;
+        const weight = count * idf;
+        vector.set(token, weight);
+        norm += weight * weight;
+      }
+
+      norm = Math.sqrt(norm);
+      if (norm > 0) {
+        for (const [token, weight] of vector) {
+          vector.set(token, weight / norm);
+        }
+      }
+
+      return vector;
+    });
+  }
+
+  private cosine(a: Map<string, number>, b: Map<string, number>): number {
+    const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+    let dot = 0;
+    for (const [token, weight] of small) {
+      const other = large.get(token);
+      if (other !== undefined) {
+        dot += weight * other;
+      }
+    }
+    return dot;
+  }
+
+  private allPairs(count: number): [number, number][] {
+    const pairs: [number, number][] = [];
+    for (let a = 0; a < count; a++) {
+      for (let b = a + 1; b < count; b++) {
+        pairs.push([a, b]);
+      }
+    }
+    return pairs;
+  }
+
+  /**
+   * Locality-sensitive hashing over MinHash signatures of the token sets
+   */
+  private findMinHashCandidates(documents: string[][]): [number, number][] {
+    const buckets = new Map<string, number[]>();
+
+    documents.forEach((tokens, index) => {
+      if (tokens.length === 0) {
+        return;
+      }
+
+      const tokenHashes = [...new Set(tokens)].map(token => this.hashToken(token) % MINHASH_PRIME);
+      const signature = this.hashCoefficients.map(({ a, b }) => {
+        let min = Infinity;
+        for (const hash of tokenHashes) {
+          const value = (a * hash + b) % MINHASH_PRIME;
+          if (value < min) min = value;
+        }
+        return min;
+      });
+
+      for (let band = 0; band < MINHASH_BANDS; band++) {
+        const key = `${band}:${signature.slice(band * MINHASH_ROWS, (band + 1) * MINHASH_ROWS).join(',')}`;
+        if (!buckets.has(key)) {
+          buckets.set(key, []);
+        }
+        buckets.get(key)!.push(index);
+      }
+    });
+
+    const seen = new Set<string>();
+    const candidates: [number, number][] = [];
+    for (const members of buckets.values()) {
+      for (let i = 0; i < members.length; i++) {
+        for (let j = i + 1; j < members.length; j++) {
+          const key = `${members[i]}:${members[j]}`;
+          if (!seen.has(key)) {
+            seen.add(key);
+            candidates.push([members[i], members[j]]);
+          }
+        }
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * 32-bit FNV-1a hash of a token
+   */
+  private hashToken(token: string): number {
+    let hash = 2166136261;
+    for (let i = 0; i < token.length; i++) {
+      hash ^= token.charCodeAt(i);
+      hash = Math.imul(hash, 16777619) >>> 0;
+    }
+    return hash;
+  }
+}
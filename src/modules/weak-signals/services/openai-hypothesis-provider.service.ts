@@ -0,0 +1,38 @@
+import { Injectable } from '@nestjs/common';
+import { OpenAIService } from '../../chatbot/services/openai.service';
+import { HypothesisLlmProvider, HypothesisLlmRequest } from '../interfaces/hypothesis-llm.interface';
+
+@Injectable()
+export class OpenAIHypothesisProvider implements HypothesisLlmProvider {
+  readonly name = 'openai' as const;
+
+  constructor(private readonly openAIService: OpenAIService) {}
+
+  /**
+   * Whether the provider chosen by the tenant, or the default one without settings, is configured
+   */
+  async isAvailable(tenantId: number): Promise<boolean> {
+    return (await this.openAIService.forTenant(tenantId, { feature: 'weak_signal_hypothesis' })).isConfigured();
+  }
+
+  /**
+   * Model of the provider chosen by the tenant
+   */
+  async getModelName(tenantId: number): Promise<string> {
+    return (await this.openAIService.forTenant(tenantId, { feature: 'weak_signal_hypothesis' })).getModel();
+  }
+
+  /**
+   * Low temperature JSON-mode completion so the output parses reliably
+   */
+  async complete(request: HypothesisLlmRequest): Promise<string> {
+    const provider = await this.openAIService.forTenant(request.tenantId, { feature: 'weak_signal_hypothesis' });
+    const response = await provider.chat(request.messages, {
+      temperature: 0.2,
+      maxTokens: 2000,
+      jsonMode: true,
+    });
+
+    return response.content;
+  }
+}
@@ -1,11 +1,17 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
 import { PatternExtractionService } from './pattern-extraction.service';
+import { TextSimilarityService } from './text-similarity.service';
+import { LocalSimilarityService } from './local-similarity.service';
+import { EmbeddingSimilarityService } from './embedding-similarity.service';
 import { JiraIssue } from '../../jira/entities/jira-issue.entity';
 import { ServiceNowIncident } from '../../servicenow/entities/servicenow-incident.entity';
 import { SlackMessage } from '../../slack/entities/slack-message.entity';
 import { TeamsMessage } from '../../teams/entities/teams-message.entity';
 import { TimelineEvent } from '../../timeline/entities/timeline-event.entity';
+import { GmailMessage } from '../../gmail/entities/gmail-message.entity';
+import { OutlookMessage } from '../../outlook/entities/outlook-message.entity';
 
 describe('PatternExtractionService', () => {
   let service: PatternExtractionService;
@@ -30,10 +36,31 @@ describe('PatternExtractionService', () => {
     find: jest.fn(),
   };
 
+  const mockGmailRepository = {
+    find: jest.fn(),
+  };
+
+  const mockOutlookRepository = {
+    find: jest.fn(),
+  };
+
   beforeEach(async () => {
+    mockGmailRepository.find.mockResolvedValue([]);
+    mockOutlookRepository.find.mockResolvedValue([]);
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         PatternExtractionService,
+        TextSimilarityService,
+        LocalSimilarityService,
+        {
+          provide: EmbeddingSimilarityService,
+          useValue: { name: 'openai', isAvailable: () => false, findSimilarPairs: jest.fn() },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn(() => undefined) },
+        },
         {
           provide: getRepositoryToken(JiraIssue),
           useValue: mockJiraRepository,
@@ -54,6 +81,14 @@ describe('PatternExtractionService', () => {
           provide: getRepositoryToken(TimelineEvent),
           useValue: mockTimelineRepository,
         },
+        {
+          provide: getRepositoryToken(GmailMessage),
+          useValue: mockGmailRepository,
+        },
+        {
+          provide: getRepositoryToken(OutlookMessage),
+          useValue: mockOutlookRepository,
+        },
       ],
     }).compile();
 
@@ -140,6 +175,42 @@ describe('PatternExtractionService', () => {
       expect(keywordPattern).toBeDefined();
     });
 
+    it('should detect keyword spikes per email source', async () => {
+      const now = new Date();
+      const recentEmails = Array(10)
+        .fill(null)
+        .map((_, i) => ({
+          id: i,
+          subject: 'Payment outage',
+          bodyText: 'Checkout is failing for customers',
+          gmailCreatedAt: new Date(now.getTime() - i * 12 * 60 * 60 * 1000), // Last 5 days
+        }));
+
+      const outlookEmails = Array(3)
+        .fill(null)
+        .map((_, i) => ({
+          id: i + 10,
+          subject: 'Payment outage',
+          bodyText: 'Postmortem follow-up',
+          outlookCreatedAt: new Date(now.getTime() - (20 + i) * 24 * 60 * 60 * 1000), // 20-22 days ago
+        }));
+
+      mockJiraRepository.find.mockResolvedValue([]);
+      mockServiceNowRepository.find.mockResolvedValue([]);
+      mockSlackRepository.find.mockResolvedValue([]);
+      mockTeamsRepository.find.mockResolvedValue([]);
+      mockTimelineRepository.find.mockResolvedValue([]);
+      mockGmailRepository.find.mockResolvedValue(recentEmails);
+      mockOutlookRepository.find.mockResolvedValue(outlookEmails);
+
+      const result = await service.extractRecurringPatterns(1, 90);
+
+      const outagePattern = result.find(p => p.patternId.startsWith('keyword_spike_') && p.patternId.endsWith('_gmail') && p.description.includes('"outage"'));
+      expect(outagePattern).toMatchObject({ type: 'keyword_spike', occurrences: 10 });
+      expect(outagePattern?.evidence.every(e => e.source === 'gmail')).toBe(true);
+      expect(result.some(p => p.patternId.endsWith('_outlook'))).toBe(false);
+    });
+
     it('should handle empty data gracefully', async () => {
       mockJiraRepository.find.mockResolvedValue([]);
       mockServiceNowRepository.find.mockResolvedValue([]);
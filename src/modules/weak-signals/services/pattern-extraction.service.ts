@@ -1,6 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, MoreThan } from 'typeorm';
+import { Repository, Between, Like } from 'typeorm';
 import { JiraIssue } from '../../jira/entities/jira-issue.entity';
 import { ServiceNowIncident } from '../../servicenow/entities/servicenow-incident.entity';
 import { SlackMessage } from '../../slack/entities/slack-message.entity';
@@ -8,6 +8,11 @@ import { TeamsMessage } from '../../teams/entities/teams-message.entity';
 import { GmailMessage } from '../../gmail/entities/gmail-message.entity';
 import { OutlookMessage } from '../../outlook/entities/outlook-message.entity';
 import { TimelineEvent } from '../../timeline/entities/timeline-event.entity';
+import { TextSimilarityService } from './text-similarity.service';
+import { DEFAULT_DETECTION_SETTINGS } from './detection-settings.service';
+import { DetectionSettings, PatternThresholds } from '../interfaces/detection-settings.interface';
+import { DetectionAggregates, MessageSource } from '../interfaces/detection-aggregate.interface';
+import { SimilarityItem } from '../interfaces/similarity.interface';
 
 export interface RecurringPattern {
   patternId: string;
@@ -27,6 +32,48 @@ export interface RecurringPattern {
   }[];
 }
 
+type Mention = { text: string; date: Date; source: string; id: string };
+
+/**
+ * How a group of similar items from one source becomes a recurring pattern
+ */
+interface GroupPatternConfig {
+  source: 'jira' | 'servicenow' | 'timeline';
+  type: RecurringPattern['type'];
+  describe: (text: string) => string;
+  relevanceScore: number;
+  minOccurrences: number;
+}
+
+const RECENT_MENTION_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Mentions loaded as evidence for a keyword spike found from aggregated counts
+ */
+const MAX_SPIKE_EVIDENCE = 200;
+
+const JIRA_GROUP_PATTERN: Omit<GroupPatternConfig, 'minOccurrences'> = {
+  source: 'jira',
+  type: 'issue_recurrence',
+  describe: text => `Recurring issue pattern detected: "${text}"`,
+  relevanceScore: 90,
+};
+
+const SERVICENOW_GROUP_PATTERN: Omit<GroupPatternConfig, 'minOccurrences'> = {
+  source: 'servicenow',
+  type: 'incident_recurrence',
+  describe: text => `Recurring incident pattern: "${text}"`,
+  relevanceScore: 85,
+};
+
+const TIMELINE_GROUP_PATTERN: Omit<GroupPatternConfig, 'minOccurrences'> = {
+  source: 'timeline',
+  type: 'temporal_pattern',
+  describe: text => `Recurring timeline event: "${text}"`,
+  relevanceScore: 80,
+};
+
 @Injectable()
 export class PatternExtractionService {
   private readonly logger = new Logger(PatternExtractionService.name);
@@ -46,25 +93,32 @@ export class PatternExtractionService {
     private readonly outlookMessageRepository: Repository<OutlookMessage>,
     @InjectRepository(TimelineEvent)
     private readonly timelineEventRepository: Repository<TimelineEvent>,
+    private readonly textSimilarityService: TextSimilarityService,
   ) {}
 
   /**
-   * Extract recurring patterns from ingested data
+   * Extract recurring patterns from ingested data.
+   * asOf replays extraction at a past date, ignoring data created after it.
    */
-  async extractRecurringPatterns(tenantId: number, daysBack: number = 90): Promise<RecurringPattern[]> {
+  async extractRecurringPatterns(
+    tenantId: number,
+    daysBack: number = 90,
+    settings: DetectionSettings = DEFAULT_DETECTION_SETTINGS,
+    asOf: Date = new Date(),
+  ): Promise<RecurringPattern[]> {
     this.logger.log(`Extracting recurring patterns for tenant ${tenantId} over last ${daysBack} days`);
 
-    const startDate = new Date();
+    const startDate = new Date(asOf);
     startDate.setDate(startDate.getDate() - daysBack);
 
     const patterns: RecurringPattern[] = [];
 
     // Extract patterns from different sources in parallel
     const [jiraPatterns, serviceNowPatterns, communicationPatterns, timelinePatterns] = await Promise.all([
-      this.extractJiraRecurringIssues(tenantId, startDate),
-      this.extractServiceNowRecurringIncidents(tenantId, startDate),
-      this.extractCommunicationKeywordSpikes(tenantId, startDate),
-      this.extractTimelineRecurringEvents(tenantId, startDate),
+      this.extractJiraRecurringIssues(tenantId, startDate, asOf, settings),
+      this.extractServiceNowRecurringIncidents(tenantId, startDate, asOf, settings),
+      this.extractCommunicationKeywordSpikes(tenantId, startDate, asOf, settings),
+      this.extractTimelineRecurringEvents(tenantId, startDate, asOf, settings),
     ]);
 
     patterns.push(...jiraPatterns, ...serviceNowPatterns, ...communicationPatterns, ...timelinePatterns);
@@ -77,152 +131,135 @@ export class PatternExtractionService {
     return patterns;
   }
 
+  /**
+   * Extract recurring patterns from the rolling aggregates of an incremental run. Only
+   * messages of spiking keywords are read, to use as evidence.
+   */
+  async extractRecurringPatternsFromAggregates(
+    tenantId: number,
+    aggregates: DetectionAggregates,
+    settings: DetectionSettings = DEFAULT_DETECTION_SETTINGS,
+  ): Promise<RecurringPattern[]> {
+    this.logger.log(`Extracting recurring patterns for tenant ${tenantId} from rolling aggregates`);
+
+    const groups = aggregates.patternGroups;
+    const { minIssueOccurrences, minIncidentOccurrences, minTimelineOccurrences } = settings.patternThresholds;
+
+    const patterns: RecurringPattern[] = [
+      ...this.buildGroupPatterns(groups.jira || {}, { ...JIRA_GROUP_PATTERN, minOccurrences: minIssueOccurrences }),
+      ...this.buildGroupPatterns(groups.servicenow || {}, { ...SERVICENOW_GROUP_PATTERN, minOccurrences: minIncidentOccurrences }),
+      ...await this.extractKeywordSpikesFromAggregates(tenantId, aggregates, settings),
+      ...this.buildGroupPatterns(groups.timeline || {}, { ...TIMELINE_GROUP_PATTERN, minOccurrences: minTimelineOccurrences }),
+    ];
+
+    patterns.sort((a, b) => b.confidenceScore - a.confidenceScore);
+
+    this.logger.log(`Extracted ${patterns.length} recurring patterns`);
+
+    return patterns;
+  }
+
   /**
    * Extract recurring Jira issues
    */
-  private async extractJiraRecurringIssues(tenantId: number, startDate: Date): Promise<RecurringPattern[]> {
+  private async extractJiraRecurringIssues(
+    tenantId: number,
+    startDate: Date,
+    endDate: Date,
+    settings: DetectionSettings,
+  ): Promise<RecurringPattern[]> {
     const issues = await this.jiraIssueRepository.find({
       where: {
         tenantId,
-        jiraCreatedAt: MoreThan(startDate),
+        jiraCreatedAt: Between(startDate, endDate),
       },
       order: { jiraCreatedAt: 'DESC' },
     });
 
     this.logger.debug(`Found ${issues.length} JIRA issues for tenant ${tenantId}`);
 
-    const patterns: RecurringPattern[] = [];
-    const summaryGroups = this.groupBySimilarity(issues.map(i => ({ id: i.id.toString(), text: i.summary, date: i.jiraCreatedAt || i.createdAt })));
-
-    for (const [signature, group] of Object.entries(summaryGroups)) {
-      if (group.length >= 3) { // At least 3 similar issues
-        const timestamps = group.map(g => g.date.getTime()).sort((a, b) => a - b);
-        const intervals = [];
-        for (let i = 1; i < timestamps.length; i++) {
-          intervals.push(timestamps[i] - timestamps[i - 1]);
-        }
-
-        const avgInterval = intervals.reduce((a, b) => a + b, 0) / intervals.length;
-        const frequency = this.determineFrequency(avgInterval);
-        const lastOccurrence = new Date(timestamps[timestamps.length - 1]);
-        const predictedNext = new Date(lastOccurrence.getTime() + avgInterval);
-
-        const confidence = this.calculatePatternConfidence(group.length, intervals, 'jira');
-
-        patterns.push({
-          patternId: `jira_recurring_${signature}`,
-          type: 'issue_recurrence',
-          description: `Recurring issue pattern detected: "${group[0].text.substring(0, 100)}"`,
-          occurrences: group.length,
-          frequency,
-          lastOccurrence,
-          predictedNext,
-          similarities: group.map(g => g.text),
-          confidenceScore: confidence,
-          evidence: group.map(g => ({
-            source: 'jira',
-            sourceId: g.id,
-            timestamp: g.date,
-            relevanceScore: 90,
-          })),
-        });
-      }
-    }
+    const summaryGroups = await this.textSimilarityService.groupBySimilarity(
+      issues.map(i => ({ id: i.id.toString(), text: i.summary, date: i.jiraCreatedAt || i.createdAt })),
+      'jira',
+      { threshold: settings.similarityThresholds.jira, tenantId },
+    );
 
-    return patterns;
+    return this.buildGroupPatterns(summaryGroups, {
+      ...JIRA_GROUP_PATTERN,
+      minOccurrences: settings.patternThresholds.minIssueOccurrences,
+    });
   }
 
   /**
    * Extract recurring ServiceNow incidents
    */
-  private async extractServiceNowRecurringIncidents(tenantId: number, startDate: Date): Promise<RecurringPattern[]> {
+  private async extractServiceNowRecurringIncidents(
+    tenantId: number,
+    startDate: Date,
+    endDate: Date,
+    settings: DetectionSettings,
+  ): Promise<RecurringPattern[]> {
     const incidents = await this.serviceNowIncidentRepository.find({
       where: {
         tenantId,
-        sysCreatedOn: MoreThan(startDate),
+        sysCreatedOn: Between(startDate, endDate),
       },
       order: { sysCreatedOn: 'DESC' },
     });
 
     this.logger.debug(`Found ${incidents.length} ServiceNow incidents for tenant ${tenantId}`);
 
-    const patterns: RecurringPattern[] = [];
-    const descriptionGroups = this.groupBySimilarity(
+    const descriptionGroups = await this.textSimilarityService.groupBySimilarity(
       incidents.map(i => ({
         id: i.id.toString(),
         text: i.shortDescription || i.description || '',
         date: i.sysCreatedOn || i.createdAt,
-      }))
+      })),
+      'servicenow',
+      { threshold: settings.similarityThresholds.servicenow, tenantId },
     );
 
-    for (const [signature, group] of Object.entries(descriptionGroups)) {
-      if (group.length >= 3) {
-        const timestamps = group.map(g => g.date.getTime()).sort((a, b) => a - b);
-        const intervals = [];
-        for (let i = 1; i < timestamps.length; i++) {
-          intervals.push(timestamps[i] - timestamps[i - 1]);
-        }
-
-        const avgInterval = intervals.reduce((a, b) => a + b, 0) / intervals.length;
-        const frequency = this.determineFrequency(avgInterval);
-        const lastOccurrence = new Date(timestamps[timestamps.length - 1]);
-        const predictedNext = new Date(lastOccurrence.getTime() + avgInterval);
-
-        const confidence = this.calculatePatternConfidence(group.length, intervals, 'servicenow');
-
-        patterns.push({
-          patternId: `servicenow_recurring_${signature}`,
-          type: 'incident_recurrence',
-          description: `Recurring incident pattern: "${group[0].text.substring(0, 100)}"`,
-          occurrences: group.length,
-          frequency,
-          lastOccurrence,
-          predictedNext,
-          similarities: group.map(g => g.text),
-          confidenceScore: confidence,
-          evidence: group.map(g => ({
-            source: 'servicenow',
-            sourceId: g.id,
-            timestamp: g.date,
-            relevanceScore: 85,
-          })),
-        });
-      }
-    }
-
-    return patterns;
+    return this.buildGroupPatterns(descriptionGroups, {
+      ...SERVICENOW_GROUP_PATTERN,
+      minOccurrences: settings.patternThresholds.minIncidentOccurrences,
+    });
   }
 
   /**
    * Extract keyword spikes from communication channels
    */
-  private async extractCommunicationKeywordSpikes(tenantId: number, startDate: Date): Promise<RecurringPattern[]> {
+  private async extractCommunicationKeywordSpikes(
+    tenantId: number,
+    startDate: Date,
+    endDate: Date,
+    settings: DetectionSettings,
+  ): Promise<RecurringPattern[]> {
     const [slackMessages, teamsMessages, gmailMessages, outlookMessages] = await Promise.all([
       this.slackMessageRepository.find({
         where: {
           tenantId,
-          slackCreatedAt: MoreThan(startDate),
+          slackCreatedAt: Between(startDate, endDate),
         },
         order: { slackCreatedAt: 'DESC' },
       }),
       this.teamsMessageRepository.find({
         where: {
           tenantId,
-          createdDateTime: MoreThan(startDate),
+          createdDateTime: Between(startDate, endDate),
         },
         order: { createdDateTime: 'DESC' },
       }),
       this.gmailMessageRepository.find({
         where: {
           tenantId,
-          gmailCreatedAt: MoreThan(startDate),
+          gmailCreatedAt: Between(startDate, endDate),
         },
         order: { gmailCreatedAt: 'DESC' },
       }),
       this.outlookMessageRepository.find({
         where: {
           tenantId,
-          outlookCreatedAt: MoreThan(startDate),
+          outlookCreatedAt: Between(startDate, endDate),
         },
         order: { outlookCreatedAt: 'DESC' },
       }),
@@ -240,7 +277,8 @@ export class PatternExtractionService {
 
     this.logger.log(`[extractCommunicationKeywordSpikes] Message counts - Slack: ${slackMessages.length}, Teams: ${teamsMessages.length}, Gmail: ${gmailMessages.length}, Outlook: ${outlookMessages.length}`);
 
-    const keywordFrequency = this.extractKeywords(allMessages);
+    const keywordFrequency = this.extractKeywords(allMessages, settings.keywords);
+    const { minKeywordMentions } = settings.patternThresholds;
 
     // Detect spikes in keyword usage - analyze per source to create separate patterns
     for (const [keyword, mentions] of Object.entries(keywordFrequency)) {
@@ -255,48 +293,31 @@ export class PatternExtractionService {
       // Analyze each source independently
       for (const [source, sourceMentions] of Object.entries(mentionsBySource)) {
         // Skip if this source doesn't have enough mentions
-        if (sourceMentions.length < 5) {
+        if (sourceMentions.length < minKeywordMentions) {
           if ((source === 'gmail' || source === 'outlook') && sourceMentions.length > 0) {
-            this.logger.log(`[extractCommunicationKeywordSpikes] Skipping ${source} for keyword "${keyword}" - only ${sourceMentions.length} mentions (need 5)`);
+            this.logger.log(`[extractCommunicationKeywordSpikes] Skipping ${source} for keyword "${keyword}" - only ${sourceMentions.length} mentions (need ${minKeywordMentions})`);
           }
           continue;
         }
 
-        const sourceRecentMentions = sourceMentions.filter(m => m.date.getTime() > Date.now() - 7 * 24 * 60 * 60 * 1000);
-        const sourceOlderMentions = sourceMentions.filter(m => m.date.getTime() <= Date.now() - 7 * 24 * 60 * 60 * 1000);
-
-        const sourceRecentRate = sourceRecentMentions.length / 7;
-        const sourceHistoricalRate = sourceOlderMentions.length > 0
-          ? sourceOlderMentions.length / Math.max(1, (sourceMentions.length - sourceRecentMentions.length) / 7)
-          : 0.1; // Small baseline if no historical data
-
-        // Check if this source has a spike (2x increase) and at least 3 recent mentions
-        if (sourceRecentRate > sourceHistoricalRate * 2 && sourceRecentMentions.length >= 3) {
-          const sourceConfidence = Math.min(95, 60 + (sourceRecentRate / sourceHistoricalRate) * 10);
+        const sourceRecentMentions = sourceMentions.filter(m => m.date.getTime() > endDate.getTime() - RECENT_MENTION_DAYS * DAY_MS);
+        const spike = this.evaluateKeywordSpike(
+          sourceMentions.length,
+          sourceRecentMentions.length,
+          (endDate.getTime() - startDate.getTime()) / DAY_MS,
+          settings.patternThresholds,
+        );
 
+        // Check if this source has a spike (2x increase by default) and enough recent mentions
+        if (spike) {
           if (source === 'gmail' || source === 'outlook') {
-            this.logger.log(`[extractCommunicationKeywordSpikes] Creating ${source} pattern for keyword "${keyword}" - ${sourceRecentMentions.length} recent mentions, confidence: ${sourceConfidence}`);
+            this.logger.log(`[extractCommunicationKeywordSpikes] Creating ${source} pattern for keyword "${keyword}" - ${sourceRecentMentions.length} recent mentions, confidence: ${spike.confidence}`);
           }
 
-          patterns.push({
-            patternId: `keyword_spike_${this.hashString(keyword)}_${source}`,
-            type: 'keyword_spike',
-            description: `Keyword spike detected: "${keyword}" mentioned ${sourceRecentMentions.length}x in last 7 days (${Math.round(sourceRecentRate / sourceHistoricalRate)}x increase)`,
-            occurrences: sourceRecentMentions.length,
-            frequency: 'irregular',
-            lastOccurrence: sourceRecentMentions[sourceRecentMentions.length - 1].date,
-            predictedNext: null,
-            similarities: sourceMentions.map(m => m.text.substring(0, 100)),
-            confidenceScore: sourceConfidence,
-            evidence: sourceRecentMentions.map(m => ({
-              source: m.source,
-              sourceId: m.id,
-              timestamp: m.date,
-              relevanceScore: 70,
-            })),
-          });
+          patterns.push(this.buildKeywordSpikePattern(keyword, source, spike, sourceRecentMentions, sourceMentions));
         } else if (source === 'gmail' || source === 'outlook') {
-          this.logger.log(`[extractCommunicationKeywordSpikes] ${source} keyword "${keyword}" did not meet spike criteria - recent: ${sourceRecentMentions.length}, rate: ${sourceRecentRate.toFixed(2)}, historical: ${sourceHistoricalRate.toFixed(2)}`);
+          const sourceRecentRate = sourceRecentMentions.length / RECENT_MENTION_DAYS;
+          this.logger.log(`[extractCommunicationKeywordSpikes] ${source} keyword "${keyword}" did not meet spike criteria - recent: ${sourceRecentMentions.length}, rate: ${sourceRecentRate.toFixed(2)}`);
         }
       }
     }
@@ -306,24 +327,204 @@ export class PatternExtractionService {
     return patterns;
   }
 
+  /**
+   * Find keyword spikes from aggregated daily mention counts. Recent mentions are
+   * counted per UTC day, so the recent window is the last 7 calendar days.
+   */
+  private async extractKeywordSpikesFromAggregates(
+    tenantId: number,
+    aggregates: DetectionAggregates,
+    settings: DetectionSettings,
+  ): Promise<RecurringPattern[]> {
+    const patterns: RecurringPattern[] = [];
+    const recentStart = new Date(aggregates.asOf.getTime() - RECENT_MENTION_DAYS * DAY_MS);
+    const recentStartDay = recentStart.toISOString().split('T')[0];
+
+    for (const keyword of settings.keywords) {
+      for (const [source, counts] of Object.entries(aggregates.keywordMentions[keyword] || {})) {
+        const total = Object.values(counts || {}).reduce((sum, count) => sum + count, 0);
+        if (total < settings.patternThresholds.minKeywordMentions) {
+          continue;
+        }
+
+        const recent = Object.entries(counts || {})
+          .filter(([day]) => day > recentStartDay)
+          .reduce((sum, [, count]) => sum + count, 0);
+
+        const spike = this.evaluateKeywordSpike(
+          total,
+          recent,
+          (aggregates.asOf.getTime() - aggregates.windowStart.getTime()) / DAY_MS,
+          settings.patternThresholds,
+        );
+        if (!spike) {
+          continue;
+        }
+
+        const mentions = await this.findRecentMentions(tenantId, source as MessageSource, keyword, recentStart, aggregates.asOf);
+        if (mentions.length === 0) {
+          continue;
+        }
+
+        const pattern = this.buildKeywordSpikePattern(keyword, source, spike, mentions, mentions);
+        pattern.occurrences = recent;
+        pattern.description = `Keyword spike detected: "${keyword}" mentioned ${recent}x in last ${RECENT_MENTION_DAYS} days ` +
+          `(${Math.round(spike.recentRate / spike.historicalRate)}x increase)`;
+        patterns.push(pattern);
+      }
+    }
+
+    this.logger.log(`[extractKeywordSpikesFromAggregates] Total patterns created: ${patterns.length}`);
+
+    return patterns;
+  }
+
+  /**
+   * Recent messages from one channel that mention a keyword, newest first
+   */
+  private async findRecentMentions(
+    tenantId: number,
+    source: MessageSource,
+    keyword: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<Mention[]> {
+    const pattern = Like(`%${keyword}%`);
+    const options = { take: MAX_SPIKE_EVIDENCE };
+
+    if (source === 'slack') {
+      const messages = await this.slackMessageRepository.find({
+        where: { tenantId, slackCreatedAt: Between(startDate, endDate), text: pattern },
+        order: { slackCreatedAt: 'DESC' },
+        ...options,
+      });
+      return messages.map(m => ({ text: m.text || '', date: m.slackCreatedAt, source, id: m.id.toString() }));
+    }
+
+    if (source === 'teams') {
+      const messages = await this.teamsMessageRepository.find({
+        where: { tenantId, createdDateTime: Between(startDate, endDate), content: pattern },
+        order: { createdDateTime: 'DESC' },
+        ...options,
+      });
+      return messages.map(m => ({ text: m.content || '', date: m.createdDateTime, source, id: m.id.toString() }));
+    }
+
+    if (source === 'gmail') {
+      const messages = await this.gmailMessageRepository.find({
+        where: [
+          { tenantId, gmailCreatedAt: Between(startDate, endDate), subject: pattern },
+          { tenantId, gmailCreatedAt: Between(startDate, endDate), bodyText: pattern },
+        ],
+        order: { gmailCreatedAt: 'DESC' },
+        ...options,
+      });
+      return messages.map(m => ({ text: `${m.subject} ${m.bodyText || ''}`, date: m.gmailCreatedAt, source, id: m.id.toString() }));
+    }
+
+    const messages = await this.outlookMessageRepository.find({
+      where: [
+        { tenantId, outlookCreatedAt: Between(startDate, endDate), subject: pattern },
+        { tenantId, outlookCreatedAt: Between(startDate, endDate), bodyText: pattern },
+      ],
+      order: { outlookCreatedAt: 'DESC' },
+      ...options,
+    });
+    return messages.map(m => ({ text: `${m.subject} ${m.bodyText || ''}`, date: m.outlookCreatedAt, source, id: m.id.toString() }));
+  }
+
+  /**
+   * Compare the daily mention rate of a keyword in the last 7 days with its daily rate over
+   * the rest of the window
+   */
+  private evaluateKeywordSpike(
+    mentions: number,
+    recentMentions: number,
+    windowDays: number,
+    thresholds: PatternThresholds,
+  ): { recentRate: number; historicalRate: number; confidence: number } | null {
+    const olderMentions = mentions - recentMentions;
+    const olderDays = Math.max(1, windowDays - RECENT_MENTION_DAYS);
+    const recentRate = recentMentions / RECENT_MENTION_DAYS;
+    const historicalRate = olderMentions > 0
+      ? olderMentions / olderDays
+      : 0.1; // Small baseline if no historical data
+
+    if (recentRate > historicalRate * thresholds.keywordSpikeRatio && recentMentions >= thresholds.minRecentKeywordMentions) {
+      return {
+        recentRate,
+        historicalRate,
+        confidence: Math.min(95, 60 + (recentRate / historicalRate) * 10),
+      };
+    }
+
+    return null;
+  }
+
+  private buildKeywordSpikePattern(
+    keyword: string,
+    source: string,
+    spike: { recentRate: number; historicalRate: number; confidence: number },
+    recentMentions: Mention[],
+    allMentions: Mention[],
+  ): RecurringPattern {
+    return {
+      patternId: `keyword_spike_${this.hashString(keyword)}_${source}`,
+      type: 'keyword_spike',
+      description: `Keyword spike detected: "${keyword}" mentioned ${recentMentions.length}x in last ${RECENT_MENTION_DAYS} days (${Math.round(spike.recentRate / spike.historicalRate)}x increase)`,
+      occurrences: recentMentions.length,
+      frequency: 'irregular',
+      lastOccurrence: recentMentions[recentMentions.length - 1].date,
+      predictedNext: null,
+      similarities: allMentions.map(m => m.text.substring(0, 100)),
+      confidenceScore: spike.confidence,
+      evidence: recentMentions.map(m => ({
+        source: m.source,
+        sourceId: m.id,
+        timestamp: m.date,
+        relevanceScore: 70,
+      })),
+    };
+  }
+
   /**
    * Extract recurring timeline events
    */
-  private async extractTimelineRecurringEvents(tenantId: number, startDate: Date): Promise<RecurringPattern[]> {
+  private async extractTimelineRecurringEvents(
+    tenantId: number,
+    startDate: Date,
+    endDate: Date,
+    settings: DetectionSettings,
+  ): Promise<RecurringPattern[]> {
     const events = await this.timelineEventRepository.find({
       where: {
         tenantId,
-        eventDate: MoreThan(startDate),
+        eventDate: Between(startDate, endDate),
         isActive: true,
       },
       order: { eventDate: 'DESC' },
     });
 
+    const eventGroups = await this.textSimilarityService.groupBySimilarity(
+      events.map(e => ({ id: e.id.toString(), text: e.title, date: e.eventDate })),
+      'timeline',
+      { threshold: settings.similarityThresholds.timeline, tenantId },
+    );
+
+    return this.buildGroupPatterns(eventGroups, {
+      ...TIMELINE_GROUP_PATTERN,
+      minOccurrences: settings.patternThresholds.minTimelineOccurrences,
+    });
+  }
+
+  /**
+   * Turn groups of similar items into recurring patterns
+   */
+  private buildGroupPatterns(groups: Record<string, SimilarityItem[]>, config: GroupPatternConfig): RecurringPattern[] {
     const patterns: RecurringPattern[] = [];
-    const eventGroups = this.groupBySimilarity(events.map(e => ({ id: e.id.toString(), text: e.title, date: e.eventDate })));
 
-    for (const [signature, group] of Object.entries(eventGroups)) {
-      if (group.length >= 2) {
+    for (const [signature, group] of Object.entries(groups)) {
+      if (group.length >= config.minOccurrences) {
         const timestamps = group.map(g => g.date.getTime()).sort((a, b) => a - b);
         const intervals = [];
         for (let i = 1; i < timestamps.length; i++) {
@@ -335,12 +536,12 @@ export class PatternExtractionService {
         const lastOccurrence = new Date(timestamps[timestamps.length - 1]);
         const predictedNext = avgInterval > 0 ? new Date(lastOccurrence.getTime() + avgInterval) : null;
 
-        const confidence = this.calculatePatternConfidence(group.length, intervals, 'timeline');
+        const confidence = this.calculatePatternConfidence(group.length, intervals, config.source);
 
         patterns.push({
-          patternId: `timeline_recurring_${signature}`,
-          type: 'temporal_pattern',
-          description: `Recurring timeline event: "${group[0].text.substring(0, 100)}"`,
+          patternId: `${config.source}_recurring_${signature}`,
+          type: config.type,
+          description: config.describe(group[0].text.substring(0, 100)),
           occurrences: group.length,
           frequency,
           lastOccurrence,
@@ -348,10 +549,10 @@ export class PatternExtractionService {
           similarities: group.map(g => g.text),
           confidenceScore: confidence,
           evidence: group.map(g => ({
-            source: 'timeline',
+            source: config.source,
             sourceId: g.id,
             timestamp: g.date,
-            relevanceScore: 80,
+            relevanceScore: config.relevanceScore,
           })),
         });
       }
@@ -360,74 +561,11 @@ export class PatternExtractionService {
     return patterns;
   }
 
-  /**
-   * Group items by similarity using simple text matching
-   */
-  private groupBySimilarity(items: { id: string; text: string; date: Date }[]): Record<string, typeof items> {
-    const groups: Record<string, typeof items> = {};
-
-    for (const item of items) {
-      const signature = this.generateTextSignature(item.text);
-      if (!groups[signature]) {
-        groups[signature] = [];
-      }
-      groups[signature].push(item);
-    }
-
-    return groups;
-  }
-
-  /**
-   * Generate a signature for text similarity matching
-   */
-  private generateTextSignature(text: string): string {
-    // Remove numbers, normalize whitespace, convert to lowercase
-    const normalized = text
-      .toLowerCase()
-      .replace(/\d+/g, 'N') // Replace numbers with 'N'
-      .replace(/\s+/g, ' ')
-      .trim();
-
-    // Extract key words (words longer than 3 chars)
-    const words = normalized.split(' ').filter(w => w.length > 3);
-
-    // Take first 5 significant words as signature
-    return words.slice(0, 5).join('_');
-  }
-
   /**
    * Extract keywords from messages
    */
-  private extractKeywords(messages: { text: string; date: Date; source: string; id: string }[]): Record<
-    string,
-    typeof messages
-  > {
-    const keywords: Record<string, typeof messages> = {};
-
-    // Common technical keywords to track
-    const technicalTerms = [
-      'error',
-      'failure',
-      'crash',
-      'down',
-      'outage',
-      'timeout',
-      'slow',
-      'performance',
-      'bug',
-      'issue',
-      'problem',
-      'critical',
-      'urgent',
-      'broken',
-      'failed',
-      'exception',
-      'warning',
-      'alert',
-      'incident',
-      'degraded',
-      'unavailable',
-    ];
+  private extractKeywords(messages: Mention[], technicalTerms: string[]): Record<string, Mention[]> {
+    const keywords: Record<string, Mention[]> = {};
 
     for (const message of messages) {
       const textLower = message.text.toLowerCase();
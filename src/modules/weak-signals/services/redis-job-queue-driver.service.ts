@@ -0,0 +1,201 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Redis } from 'ioredis';
+import { JobQueueDriver, QueueJob } from '../interfaces/job-queue.interface';
+
+const KEY_PREFIX = 'weak-signals:jobs';
+const WAITING_KEY = `${KEY_PREFIX}:waiting`; // sorted set of job ids by availableAt
+const RESERVED_KEY = `${KEY_PREFIX}:reserved`; // sorted set of job ids by visibility deadline
+const DATA_KEY = `${KEY_PREFIX}:data`; // hash of job id -> job JSON
+
+/**
+ * Cancellation flags outlive any job that could still be running
+ */
+const CANCEL_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Requeue expired reservations, then move the first due job to the reserved set.
+ * KEYS: waiting, reserved, data. ARGV: now, visibility deadline.
+ */
+const RESERVE_SCRIPT = `
+local expired = redis.call('ZRANGEBYSCORE', KEYS[2], '-inf', ARGV[1])
+for _, id in ipairs(expired) do
+  redis.call('ZREM', KEYS[2], id)
+  redis.call('ZADD', KEYS[1], ARGV[1], id)
+end
+local ids = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, 1)
+if #ids == 0 then
+  return nil
+end
+redis.call('ZREM', KEYS[1], ids[1])
+redis.call('ZADD', KEYS[2], ARGV[2], ids[1])
+return redis.call('HGET', KEYS[3], ids[1])
+`;
+
+/**
+ * Move the visibility deadline of a job only while it is still reserved.
+ * KEYS: reserved. ARGV: job id, visibility deadline.
+ */
+const EXTEND_RESERVATION_SCRIPT = `
+if redis.call('ZSCORE', KEYS[1], ARGV[1]) then
+  redis.call('ZADD', KEYS[1], ARGV[2], ARGV[1])
+  return 1
+end
+return 0
+`;
+
+/**
+ * KEYS: lock. ARGV: token, ttl ms.
+ */
+const EXTEND_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Queue driver shared by every app instance through Redis (REDIS_HOST/REDIS_PORT/REDIS_PASSWORD)
+ */
+@Injectable()
+export class RedisJobQueueDriver implements JobQueueDriver, OnModuleDestroy {
+  readonly name = 'redis' as const;
+
+  private readonly logger = new Logger(RedisJobQueueDriver.name);
+  private client: Redis | null = null;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  isAvailable(): boolean {
+    return !!this.configService.get<string>('REDIS_HOST');
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (this.client) {
+      await this.client.quit();
+      this.client = null;
+    }
+  }
+
+  async enqueue(job: QueueJob): Promise<void> {
+    await this.getClient()
+      .multi()
+      .hset(DATA_KEY, job.id, JSON.stringify(job))
+      .zadd(WAITING_KEY, job.availableAt, job.id)
+      .exec();
+  }
+
+  async reserve(visibilityMs: number): Promise<QueueJob | null> {
+    const now = Date.now();
+    const raw = await this.getClient().eval(
+      RESERVE_SCRIPT,
+      3,
+      WAITING_KEY,
+      RESERVED_KEY,
+      DATA_KEY,
+      now,
+      now + visibilityMs,
+    ) as string | null;
+
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  async extendReservation(jobId: string, visibilityMs: number): Promise<boolean> {
+    const result = await this.getClient().eval(EXTEND_RESERVATION_SCRIPT, 1, RESERVED_KEY, jobId, Date.now() + visibilityMs);
+    return result === 1;
+  }
+
+  async release(job: QueueJob, delayMs: number): Promise<void> {
+    const availableAt = Date.now() + delayMs;
+    await this.getClient()
+      .multi()
+      .hset(DATA_KEY, job.id, JSON.stringify({ ...job, availableAt }))
+      .zrem(RESERVED_KEY, job.id)
+      .zadd(WAITING_KEY, availableAt, job.id)
+      .exec();
+  }
+
+  async complete(jobId: string): Promise<void> {
+    await this.getClient()
+      .multi()
+      .zrem(RESERVED_KEY, jobId)
+      .zrem(WAITING_KEY, jobId)
+      .hdel(DATA_KEY, jobId)
+      .del(this.cancelKey(jobId))
+      .exec();
+  }
+
+  async remove(jobId: string): Promise<boolean> {
+    const removed = await this.getClient().zrem(WAITING_KEY, jobId);
+    if (removed === 0) {
+      return false;
+    }
+
+    await this.getClient().hdel(DATA_KEY, jobId);
+    return true;
+  }
+
+  async requestCancel(jobId: string): Promise<void> {
+    await this.getClient().set(this.cancelKey(jobId), '1', 'EX', CANCEL_TTL_SECONDS);
+  }
+
+  async isCancelRequested(jobId: string): Promise<boolean> {
+    return (await this.getClient().exists(this.cancelKey(jobId))) === 1;
+  }
+
+  async acquireLock(key: string, token: string, ttlMs: number): Promise<boolean> {
+    const result = await this.getClient().set(this.lockKey(key), token, 'PX', ttlMs, 'NX');
+    if (result === 'OK') {
+      return true;
+    }
+
+    // Re-acquiring a lock we already hold just extends it
+    return this.extendLock(key, token, ttlMs);
+  }
+
+  async extendLock(key: string, token: string, ttlMs: number): Promise<boolean> {
+    const result = await this.getClient().eval(EXTEND_LOCK_SCRIPT, 1, this.lockKey(key), token, ttlMs);
+    return result === 1;
+  }
+
+  async releaseLock(key: string, token: string): Promise<void> {
+    await this.getClient().eval(RELEASE_LOCK_SCRIPT, 1, this.lockKey(key), token);
+  }
+
+  /**
+   * Connect on first use so instances running the in-memory driver never open a connection
+   */
+  private getClient(): Redis {
+    if (!this.client) {
+      const host = this.configService.get<string>('REDIS_HOST');
+      const port = this.configService.get<number>('REDIS_PORT', 6379);
+
+      this.client = new Redis({
+        host,
+        port: Number(port),
+        password: this.configService.get<string>('REDIS_PASSWORD') || undefined,
+        maxRetriesPerRequest: 3,
+      });
+      this.client.on('error', error => this.logger.error(`Redis job queue connection error: ${error.message}`));
+
+      this.logger.log(`Using Redis job queue at ${host}:${port}`);
+    }
+
+    return this.client;
+  }
+
+  private cancelKey(jobId: string): string {
+    return `${KEY_PREFIX}:cancel:${jobId}`;
+  }
+
+  private lockKey(key: string): string {
+    return `${KEY_PREFIX}:lock:${key}`;
+  }
+}
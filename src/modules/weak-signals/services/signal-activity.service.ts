@@ -0,0 +1,167 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, LessThan } from 'typeorm';
+import { SignalActivity, SignalActivityType } from '../entities/signal-activity.entity';
+import { WeakSignal } from '../entities/weak-signal.entity';
+import { Hypothesis } from '../entities/hypothesis.entity';
+import { ActionItem } from '../../action-center/entities/action-item.entity';
+
+/**
+ * Where an activity happened: a weak signal, one of its hypotheses, or a hypothesis without a signal
+ */
+export interface ActivityTarget {
+  weakSignalId: number | null;
+  hypothesisId?: number | null;
+}
+
+/**
+ * Immutable activity feed of weak signals and hypotheses. Entries are only ever appended;
+ * this service deliberately has no way to change or remove them.
+ */
+@Injectable()
+export class SignalActivityService {
+  private readonly logger = new Logger(SignalActivityService.name);
+
+  constructor(
+    @InjectRepository(SignalActivity)
+    private readonly activityRepository: Repository<SignalActivity>,
+    @InjectRepository(WeakSignal)
+    private readonly weakSignalRepository: Repository<WeakSignal>,
+    @InjectRepository(Hypothesis)
+    private readonly hypothesisRepository: Repository<Hypothesis>,
+    @InjectRepository(ActionItem)
+    private readonly actionItemRepository: Repository<ActionItem>,
+  ) {}
+
+  /**
+   * Append an entry to the feed
+   */
+  async record(
+    tenantId: number,
+    target: ActivityTarget,
+    activityType: SignalActivityType,
+    details: Record<string, any> | null,
+    actorId?: number | null,
+  ): Promise<SignalActivity> {
+    const activity = this.activityRepository.create({
+      tenantId,
+      weakSignalId: target.weakSignalId,
+      hypothesisId: target.hypothesisId ?? null,
+      activityType,
+      actorId: actorId ?? null,
+      details,
+    });
+
+    return this.activityRepository.save(activity);
+  }
+
+  /**
+   * Append several entries at once, e.g. the automatic transitions of a detection run
+   */
+  async recordMany(
+    tenantId: number,
+    entries: { target: ActivityTarget; activityType: SignalActivityType; details: Record<string, any> | null; actorId?: number | null }[],
+  ): Promise<SignalActivity[]> {
+    if (entries.length === 0) {
+      return [];
+    }
+
+    const activities = entries.map(entry =>
+      this.activityRepository.create({
+        tenantId,
+        weakSignalId: entry.target.weakSignalId,
+        hypothesisId: entry.target.hypothesisId ?? null,
+        activityType: entry.activityType,
+        actorId: entry.actorId ?? null,
+        details: entry.details,
+      }),
+    );
+
+    return this.activityRepository.save(activities);
+  }
+
+  /**
+   * Feed of a weak signal, including the activity on its hypotheses, newest first.
+   * Pass the id of the oldest entry seen as `beforeId` to page further back.
+   */
+  async getSignalFeed(
+    tenantId: number,
+    weakSignalId: number,
+    options: { limit?: number; beforeId?: number } = {},
+  ): Promise<SignalActivity[]> {
+    const signal = await this.weakSignalRepository.findOne({ where: { id: weakSignalId, tenantId } });
+    if (!signal) {
+      throw new NotFoundException('Weak signal not found');
+    }
+
+    return this.activityRepository.find({
+      where: {
+        tenantId,
+        weakSignalId,
+        ...(options.beforeId ? { id: LessThan(options.beforeId) } : {}),
+      },
+      order: { id: 'DESC' },
+      take: options.limit || 50,
+    });
+  }
+
+  /**
+   * Feed of a single hypothesis, newest first
+   */
+  async getHypothesisFeed(
+    tenantId: number,
+    hypothesisId: number,
+    options: { limit?: number; beforeId?: number } = {},
+  ): Promise<SignalActivity[]> {
+    const hypothesis = await this.hypothesisRepository.findOne({ where: { id: hypothesisId, tenantId } });
+    if (!hypothesis) {
+      throw new NotFoundException('Hypothesis not found');
+    }
+
+    return this.activityRepository.find({
+      where: {
+        tenantId,
+        hypothesisId,
+        ...(options.beforeId ? { id: LessThan(options.beforeId) } : {}),
+      },
+      order: { id: 'DESC' },
+      take: options.limit || 50,
+    });
+  }
+
+  /**
+   * Link an action item to a weak signal, so the action shows up as follow-up of the signal
+   */
+  async linkActionItem(
+    tenantId: number,
+    weakSignalId: number,
+    actionItemId: number,
+    userId: number | null,
+  ): Promise<ActionItem> {
+    const signal = await this.weakSignalRepository.findOne({ where: { id: weakSignalId, tenantId } });
+    if (!signal) {
+      throw new NotFoundException('Weak signal not found');
+    }
+
+    const actionItem = await this.actionItemRepository.findOne({ where: { id: actionItemId, tenantId } });
+    if (!actionItem) {
+      throw new NotFoundException('Action item not found');
+    }
+
+    actionItem.sourceType = 'weak_signal';
+    actionItem.sourceId = String(weakSignalId);
+    const saved = await this.actionItemRepository.save(actionItem);
+
+    await this.record(
+      tenantId,
+      { weakSignalId },
+      'action_linked',
+      { actionItemId, title: actionItem.title, status: actionItem.status, priority: actionItem.priority },
+      userId,
+    );
+
+    this.logger.log(`Linked action item ${actionItemId} to weak signal ${weakSignalId}`);
+
+    return saved;
+  }
+}
@@ -0,0 +1,154 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { SignalCommentService } from './signal-comment.service';
+import { SignalActivityService } from './signal-activity.service';
+import { SignalComment } from '../entities/signal-comment.entity';
+import { WeakSignal } from '../entities/weak-signal.entity';
+import { Hypothesis } from '../entities/hypothesis.entity';
+import { User } from '../../users/entities/user.entity';
+import { AlertDeliveryService } from '../../email/services/alert-delivery.service';
+
+describe('SignalCommentService', () => {
+  let service: SignalCommentService;
+
+  const signal = { id: 5, tenantId: 1, title: 'Deployment failures rising' } as WeakSignal;
+  const hypothesis = { id: 9, tenantId: 1, weakSignalId: 5, hypothesis: 'Flaky pipeline' } as Hypothesis;
+
+  const mockCommentRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((data: Partial<SignalComment>) => data),
+    save: jest.fn((comment: Partial<SignalComment>) => Promise.resolve({ id: comment.id ?? 100, ...comment })),
+  };
+  const mockWeakSignalRepository = { findOne: jest.fn(() => Promise.resolve(signal)) };
+  const mockHypothesisRepository = { findOne: jest.fn(() => Promise.resolve(hypothesis)) };
+  const mockUserRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(() => Promise.resolve({ id: 2, fullName: 'Ada Lovelace' })),
+  };
+  const mockActivityService = { record: jest.fn() };
+  const mockAlertDeliveryService = { deliverNotification: jest.fn(() => Promise.resolve([])) };
+
+  const buildComment = (overrides: Partial<SignalComment>): SignalComment =>
+    ({
+      id: 1,
+      tenantId: 1,
+      weakSignalId: 5,
+      hypothesisId: null,
+      parentId: null,
+      authorId: 2,
+      body: 'Looking into it',
+      mentionedUserIds: null,
+      editedAt: null,
+      createdAt: new Date(),
+      ...overrides,
+    }) as SignalComment;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SignalCommentService,
+        { provide: getRepositoryToken(SignalComment), useValue: mockCommentRepository },
+        { provide: getRepositoryToken(WeakSignal), useValue: mockWeakSignalRepository },
+        { provide: getRepositoryToken(Hypothesis), useValue: mockHypothesisRepository },
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        { provide: SignalActivityService, useValue: mockActivityService },
+        { provide: AlertDeliveryService, useValue: mockAlertDeliveryService },
+      ],
+    }).compile();
+
+    service = module.get<SignalCommentService>(SignalCommentService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should nest replies under their parent comment', async () => {
+    mockCommentRepository.find.mockResolvedValueOnce([
+      buildComment({ id: 1 }),
+      buildComment({ id: 2, parentId: 1 }),
+      buildComment({ id: 3 }),
+      buildComment({ id: 4, parentId: 2 }),
+    ]);
+
+    const threads = await service.getThreads(1, { weakSignalId: 5 });
+
+    expect(threads.map(t => t.comment.id)).toEqual([1, 3]);
+    expect(threads[0].replies[0].comment.id).toBe(2);
+    expect(threads[0].replies[0].replies[0].comment.id).toBe(4);
+  });
+
+  it('should store mentions, record the activity and notify mentioned users except the author', async () => {
+    mockUserRepository.find.mockResolvedValueOnce([{ id: 2 }, { id: 7 }]);
+
+    const comment = await service.addComment(
+      1,
+      { weakSignalId: 5 },
+      { body: 'Thoughts @[Grace Hopper](7)? cc @[Ada Lovelace](2)' },
+      2,
+    );
+
+    expect(comment.mentionedUserIds).toEqual([7, 2]);
+    expect(mockActivityService.record).toHaveBeenCalledWith(
+      1,
+      expect.objectContaining({ weakSignalId: 5, hypothesisId: null }),
+      'comment_added',
+      { commentId: 100, parentId: null, mentionedUserIds: [7, 2] },
+      2,
+    );
+    expect(mockAlertDeliveryService.deliverNotification).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tenantId: 1,
+        sourceType: 'weak_signal_mention',
+        title: 'Ada Lovelace mentioned you on a weak signal',
+        message: expect.stringContaining('Thoughts @Grace Hopper? cc @Ada Lovelace'),
+      }),
+      [7],
+    );
+  });
+
+  it('should reject mentions of users outside the tenant', async () => {
+    mockUserRepository.find.mockResolvedValueOnce([]);
+
+    await expect(
+      service.addComment(1, { weakSignalId: 5 }, { body: 'Ping @[Mallory](42)' }, 2),
+    ).rejects.toThrow(BadRequestException);
+    expect(mockCommentRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('should only accept replies within the same thread', async () => {
+    mockCommentRepository.findOne.mockResolvedValueOnce(buildComment({ id: 3, hypothesisId: 9 }));
+
+    await expect(
+      service.addComment(1, { weakSignalId: 5 }, { body: 'Reply', parentId: 3 }, 2),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should attach hypothesis comments to the parent signal too', async () => {
+    const comment = await service.addComment(1, { hypothesisId: 9 }, { body: 'Pipeline logs agree' }, 2);
+
+    expect(comment).toMatchObject({ weakSignalId: 5, hypothesisId: 9 });
+  });
+
+  it('should let only the author edit, keep the previous body and notify new mentions only', async () => {
+    mockCommentRepository.findOne.mockResolvedValueOnce(buildComment({ authorId: 3 }));
+    await expect(service.editComment(1, { weakSignalId: 5 }, 1, 'Changed', 2)).rejects.toThrow(ForbiddenException);
+
+    mockCommentRepository.findOne.mockResolvedValueOnce(buildComment({ mentionedUserIds: [7] }));
+    mockUserRepository.find.mockResolvedValueOnce([{ id: 7 }, { id: 8 }]);
+
+    const edited = await service.editComment(1, { weakSignalId: 5 }, 1, '@[Grace](7) and @[Linus](8)', 2);
+
+    expect(edited.editedAt).toBeInstanceOf(Date);
+    expect(mockActivityService.record).toHaveBeenCalledWith(
+      1,
+      expect.anything(),
+      'comment_edited',
+      { commentId: 1, previousBody: 'Looking into it', mentionedUserIds: [7, 8] },
+      2,
+    );
+    expect(mockAlertDeliveryService.deliverNotification).toHaveBeenCalledWith(expect.anything(), [8]);
+  });
+});
@@ -0,0 +1,248 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, IsNull } from 'typeorm';
+import { SignalComment } from '../entities/signal-comment.entity';
+import { WeakSignal } from '../entities/weak-signal.entity';
+import { Hypothesis } from '../entities/hypothesis.entity';
+import { User } from '../../users/entities/user.entity';
+import { AlertDeliveryService } from '../../email/services/alert-delivery.service';
+import { SignalActivityService } from './signal-activity.service';
+
+/**
+ * Mentions are written as @[Display Name](userId), the format produced by the mention picker
+ */
+const MENTION_PATTERN = /@\[([^\]]*)\]\((\d+)\)/g;
+
+export type CommentTarget = { weakSignalId: number } | { hypothesisId: number };
+
+export interface CommentThreadNode {
+  comment: SignalComment;
+  replies: CommentThreadNode[];
+}
+
+interface ResolvedTarget {
+  weakSignalId: number | null;
+  hypothesisId: number | null;
+  title: string;
+}
+
+/**
+ * Threaded comments on weak signals and hypotheses. Mentioned users of the tenant are
+ * notified through their alert channels, and every comment shows up in the activity feed.
+ */
+@Injectable()
+export class SignalCommentService {
+  private readonly logger = new Logger(SignalCommentService.name);
+
+  constructor(
+    @InjectRepository(SignalComment)
+    private readonly commentRepository: Repository<SignalComment>,
+    @InjectRepository(WeakSignal)
+    private readonly weakSignalRepository: Repository<WeakSignal>,
+    @InjectRepository(Hypothesis)
+    private readonly hypothesisRepository: Repository<Hypothesis>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly activityService: SignalActivityService,
+    private readonly alertDeliveryService: AlertDeliveryService,
+  ) {}
+
+  /**
+   * Comment threads of a signal or hypothesis, oldest first. Signal threads exclude the
+   * comments made on its hypotheses.
+   */
+  async getThreads(tenantId: number, target: CommentTarget): Promise<CommentThreadNode[]> {
+    const resolved = await this.resolveTarget(tenantId, target);
+
+    const comments = await this.commentRepository.find({
+      where: resolved.hypothesisId !== null
+        ? { tenantId, hypothesisId: resolved.hypothesisId }
+        : { tenantId, weakSignalId: resolved.weakSignalId!, hypothesisId: IsNull() },
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+
+    return this.buildThreads(comments);
+  }
+
+  async addComment(
+    tenantId: number,
+    target: CommentTarget,
+    input: { body: string; parentId?: number },
+    authorId: number,
+  ): Promise<SignalComment> {
+    const resolved = await this.resolveTarget(tenantId, target);
+
+    if (input.parentId !== undefined) {
+      const parent = await this.commentRepository.findOne({ where: { id: input.parentId, tenantId } });
+      if (!parent || parent.weakSignalId !== resolved.weakSignalId || parent.hypothesisId !== resolved.hypothesisId) {
+        throw new BadRequestException('Parent comment does not belong to this thread');
+      }
+    }
+
+    const mentionedUserIds = await this.resolveMentions(tenantId, input.body);
+
+    const comment = await this.commentRepository.save(
+      this.commentRepository.create({
+        tenantId,
+        weakSignalId: resolved.weakSignalId,
+        hypothesisId: resolved.hypothesisId,
+        parentId: input.parentId ?? null,
+        authorId,
+        body: input.body,
+        mentionedUserIds: mentionedUserIds.length > 0 ? mentionedUserIds : null,
+        editedAt: null,
+      }),
+    );
+
+    await this.activityService.record(
+      tenantId,
+      resolved,
+      'comment_added',
+      { commentId: comment.id, parentId: comment.parentId, mentionedUserIds },
+      authorId,
+    );
+
+    await this.notifyMentions(tenantId, resolved, comment, mentionedUserIds);
+
+    return comment;
+  }
+
+  /**
+   * Replace the body of a comment. Only the author may edit, and only users who were not
+   * mentioned before are notified. The previous body is kept in the activity feed.
+   */
+  async editComment(
+    tenantId: number,
+    target: CommentTarget,
+    commentId: number,
+    body: string,
+    userId: number,
+  ): Promise<SignalComment> {
+    const resolved = await this.resolveTarget(tenantId, target);
+
+    const comment = await this.commentRepository.findOne({ where: { id: commentId, tenantId } });
+    if (!comment || comment.weakSignalId !== resolved.weakSignalId || comment.hypothesisId !== resolved.hypothesisId) {
+      throw new NotFoundException('Comment not found');
+    }
+
+    if (comment.authorId !== userId) {
+      throw new ForbiddenException('Only the author can edit a comment');
+    }
+
+    const previousBody = comment.body;
+    const previousMentions = comment.mentionedUserIds || [];
+    const mentionedUserIds = await this.resolveMentions(tenantId, body);
+
+    comment.body = body;
+    comment.mentionedUserIds = mentionedUserIds.length > 0 ? mentionedUserIds : null;
+    comment.editedAt = new Date();
+    const saved = await this.commentRepository.save(comment);
+
+    await this.activityService.record(
+      tenantId,
+      resolved,
+      'comment_edited',
+      { commentId, previousBody, mentionedUserIds },
+      userId,
+    );
+
+    await this.notifyMentions(
+      tenantId,
+      resolved,
+      saved,
+      mentionedUserIds.filter(id => !previousMentions.includes(id)),
+    );
+
+    return saved;
+  }
+
+  /**
+   * Ids mentioned in a comment body; all of them have to be users of the tenant
+   */
+  async resolveMentions(tenantId: number, body: string): Promise<number[]> {
+    const ids = [...new Set([...body.matchAll(MENTION_PATTERN)].map(match => parseInt(match[2], 10)))];
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const users = await this.userRepository.find({ where: { id: In(ids), tenantId } });
+    const unknown = ids.filter(id => !users.some(user => user.id === id));
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Mentioned users not found in this tenant: ${unknown.join(', ')}`);
+    }
+
+    return ids;
+  }
+
+  private buildThreads(comments: SignalComment[]): CommentThreadNode[] {
+    const nodes = new Map<number, CommentThreadNode>();
+    for (const comment of comments) {
+      nodes.set(comment.id, { comment, replies: [] });
+    }
+
+    const roots: CommentThreadNode[] = [];
+    for (const comment of comments) {
+      const node = nodes.get(comment.id)!;
+      const parent = comment.parentId !== null ? nodes.get(comment.parentId) : undefined;
+      if (parent) {
+        parent.replies.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+
+    return roots;
+  }
+
+  private async resolveTarget(tenantId: number, target: CommentTarget): Promise<ResolvedTarget> {
+    if ('hypothesisId' in target) {
+      const hypothesis = await this.hypothesisRepository.findOne({ where: { id: target.hypothesisId, tenantId } });
+      if (!hypothesis) {
+        throw new NotFoundException('Hypothesis not found');
+      }
+      return { weakSignalId: hypothesis.weakSignalId, hypothesisId: hypothesis.id, title: hypothesis.hypothesis };
+    }
+
+    const signal = await this.weakSignalRepository.findOne({ where: { id: target.weakSignalId, tenantId } });
+    if (!signal) {
+      throw new NotFoundException('Weak signal not found');
+    }
+    return { weakSignalId: signal.id, hypothesisId: null, title: signal.title };
+  }
+
+  /**
+   * A failed notification must not fail the comment itself
+   */
+  private async notifyMentions(
+    tenantId: number,
+    target: ResolvedTarget,
+    comment: SignalComment,
+    userIds: number[],
+  ): Promise<void> {
+    const recipients = userIds.filter(id => id !== comment.authorId);
+    if (recipients.length === 0) {
+      return;
+    }
+
+    try {
+      const author = await this.userRepository.findOne({ where: { id: comment.authorId, tenantId } });
+      const authorName = author ? author.fullName : 'Someone';
+      const subject = target.hypothesisId !== null ? 'a hypothesis' : 'a weak signal';
+
+      await this.alertDeliveryService.deliverNotification(
+        {
+          tenantId,
+          title: `${authorName} mentioned you on ${subject}`,
+          message: `${target.title}\n\n${comment.body.replace(MENTION_PATTERN, '@$1')}`,
+          severity: 'medium',
+          sourceType: 'weak_signal_mention',
+          sourceId: String(comment.id),
+          sourceData: { weakSignalId: target.weakSignalId, hypothesisId: target.hypothesisId, commentId: comment.id },
+        },
+        recipients,
+      );
+    } catch (error) {
+      this.logger.error(`Failed to notify mentions of comment ${comment.id}: ${error.message}`, error.stack);
+    }
+  }
+}
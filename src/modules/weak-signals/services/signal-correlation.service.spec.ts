@@ -0,0 +1,173 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { SignalCorrelationService } from './signal-correlation.service';
+import { WeakSignal } from '../entities/weak-signal.entity';
+import { GraphNode } from '../../privacy/entities/graph-node.entity';
+import { GraphEdge } from '../../privacy/entities/graph-edge.entity';
+import { JiraIssue } from '../../jira/entities/jira-issue.entity';
+import { ServiceNowIncident } from '../../servicenow/entities/servicenow-incident.entity';
+import { SlackMessage } from '../../slack/entities/slack-message.entity';
+import { TeamsMessage } from '../../teams/entities/teams-message.entity';
+
+describe('SignalCorrelationService', () => {
+  let service: SignalCorrelationService;
+
+  const mockRepository = () => ({
+    find: jest.fn().mockResolvedValue([]),
+  });
+
+  const mockGraphNodeRepository = mockRepository();
+  const mockGraphEdgeRepository = mockRepository();
+  const mockJiraRepository = mockRepository();
+  const mockServiceNowRepository = mockRepository();
+  const mockSlackRepository = mockRepository();
+  const mockTeamsRepository = mockRepository();
+
+  const buildSignal = (overrides: Partial<WeakSignal>): WeakSignal =>
+    ({
+      tenantId: 1,
+      signalType: 'pattern_recurring',
+      title: 'Signal',
+      description: '',
+      severity: 'medium',
+      confidenceScore: 70,
+      status: 'new',
+      sourceSignals: [],
+      patternData: null,
+      trendData: null,
+      affectedEntities: [],
+      metadata: null,
+      detectedAt: new Date('2026-10-15T12:00:00.000Z'),
+      ...overrides,
+    }) as WeakSignal;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SignalCorrelationService,
+        { provide: getRepositoryToken(GraphNode), useValue: mockGraphNodeRepository },
+        { provide: getRepositoryToken(GraphEdge), useValue: mockGraphEdgeRepository },
+        { provide: getRepositoryToken(JiraIssue), useValue: mockJiraRepository },
+        { provide: getRepositoryToken(ServiceNowIncident), useValue: mockServiceNowRepository },
+        { provide: getRepositoryToken(SlackMessage), useValue: mockSlackRepository },
+        { provide: getRepositoryToken(TeamsMessage), useValue: mockTeamsRepository },
+      ],
+    }).compile();
+
+    service = module.get<SignalCorrelationService>(SignalCorrelationService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('buildCorrelationClusters', () => {
+    it('should cluster co-occurring signals from different sources that share topics', async () => {
+      const slackSpike = buildSignal({
+        id: 1,
+        severity: 'medium',
+        description: 'Keyword spike detected: "payments-api timeout" mentioned 12x in last 7 days',
+        sourceSignals: [{ source: 'slack', sourceId: 'slack_a', timestamp: '2026-10-14T09:00:00.000Z', relevanceScore: 70 }],
+      });
+      const incidentPattern = buildSignal({
+        id: 2,
+        severity: 'high',
+        description: 'Recurring incident pattern: "payments-api timeout on checkout"',
+        sourceSignals: [{ source: 'servicenow', sourceId: 'sn_a', timestamp: '2026-10-15T10:00:00.000Z', relevanceScore: 85 }],
+      });
+      const unrelated = buildSignal({
+        id: 3,
+        description: 'Recurring issue pattern detected: "update onboarding docs"',
+        sourceSignals: [{ source: 'jira', sourceId: 'jira_a', timestamp: '2026-10-15T10:00:00.000Z', relevanceScore: 90 }],
+      });
+
+      const clusters = await service.buildCorrelationClusters(1, [slackSpike, incidentPattern, unrelated]);
+
+      expect(clusters).toHaveLength(1);
+      expect(clusters[0].signalType).toBe('correlation_cluster');
+      expect(clusters[0].severity).toBe('high');
+      expect(clusters[0].metadata?.memberSignalIds).toEqual([1, 2]);
+      expect(clusters[0].metadata?.sources).toEqual(['servicenow', 'slack']);
+      expect(clusters[0].metadata?.links[0].reasons).toContain('shared_topics');
+    });
+
+    it('should not cluster signals that are far apart in time', async () => {
+      const early = buildSignal({
+        id: 1,
+        description: 'payments-api timeout errors',
+        sourceSignals: [{ source: 'slack', sourceId: 'a', timestamp: '2026-09-01T09:00:00.000Z', relevanceScore: 70 }],
+      });
+      const late = buildSignal({
+        id: 2,
+        description: 'payments-api timeout errors',
+        sourceSignals: [{ source: 'servicenow', sourceId: 'b', timestamp: '2026-10-15T09:00:00.000Z', relevanceScore: 85 }],
+      });
+
+      expect(await service.buildCorrelationClusters(1, [early, late])).toEqual([]);
+    });
+
+    it('should not cluster signals from a single source', async () => {
+      const anomaly = buildSignal({
+        id: 1,
+        signalType: 'anomaly_detection',
+        affectedEntities: [{ type: 'metric', id: 'jira_issue_volume', name: 'jira issue volume', impactLevel: 'high' }],
+        metadata: { anomalyDate: '2026-10-15T00:00:00.000Z' },
+        sourceSignals: [{ source: 'jira', sourceId: 'jira_2026-10-15', timestamp: '2026-10-15T00:00:00.000Z', relevanceScore: 95 }],
+      });
+      const trend = buildSignal({
+        id: 2,
+        signalType: 'trend_acceleration',
+        affectedEntities: [{ type: 'metric', id: 'jira_issue_volume', name: 'jira issue volume', impactLevel: 'high' }],
+        sourceSignals: [{ source: 'jira', sourceId: 'jira_0', timestamp: '2026-10-15T00:00:00.000Z', relevanceScore: 85 }],
+      });
+
+      expect(await service.buildCorrelationClusters(1, [anomaly, trend])).toEqual([]);
+    });
+
+    it('should link signals whose records share a person in the knowledge graph', async () => {
+      const jiraPattern = buildSignal({
+        id: 1,
+        description: 'Recurring issue pattern detected: "Build broken"',
+        sourceSignals: [{ source: 'jira', sourceId: '100', timestamp: '2026-10-15T09:00:00.000Z', relevanceScore: 90 }],
+      });
+      const slackSpike = buildSignal({
+        id: 2,
+        description: 'Keyword spike detected: "deploy"',
+        sourceSignals: [{ source: 'slack', sourceId: '200', timestamp: '2026-10-15T11:00:00.000Z', relevanceScore: 70 }],
+      });
+
+      mockJiraRepository.find.mockResolvedValueOnce([{ id: 100, jiraIssueId: 'JIRA-1' }]);
+      mockSlackRepository.find.mockResolvedValueOnce([{ id: 200, slackChannelId: 'C01', slackMessageTs: '1700000000.0001' }]);
+      mockGraphNodeRepository.find
+        .mockResolvedValueOnce([
+          { id: 10, nodeType: 'issue', sourceSystem: 'jira', externalId: 'JIRA-1' },
+          { id: 20, nodeType: 'message', sourceSystem: 'slack', externalId: 'C01_1700000000.0001' },
+        ])
+        .mockResolvedValueOnce([
+          { id: 30, nodeType: 'user', sourceSystem: 'jira', externalId: 'u-jira', properties: { email: 'Dana@example.com' } },
+          { id: 40, nodeType: 'user', sourceSystem: 'slack', externalId: 'u-slack', properties: { email: 'dana@example.com' } },
+        ]);
+      mockGraphEdgeRepository.find.mockResolvedValueOnce([
+        { fromNodeId: 30, toNodeId: 10, relationshipType: 'assigned_to' },
+        { fromNodeId: 20, toNodeId: 40, relationshipType: 'sent_by' },
+      ]);
+
+      const clusters = await service.buildCorrelationClusters(1, [jiraPattern, slackSpike]);
+
+      expect(clusters).toHaveLength(1);
+      expect(clusters[0].metadata?.links[0].reasons).toContain('graph_neighbourhood');
+      expect(clusters[0].metadata?.links[0].sharedGraphNodes).toEqual(['person:dana@example.com']);
+    });
+
+    it('should ignore unsaved signals and existing clusters', async () => {
+      const unsaved = buildSignal({ description: 'payments-api timeout errors' });
+      const existing = buildSignal({ id: 5, signalType: 'correlation_cluster', description: 'payments-api timeout errors' });
+
+      expect(await service.buildCorrelationClusters(1, [unsaved, existing])).toEqual([]);
+    });
+  });
+});
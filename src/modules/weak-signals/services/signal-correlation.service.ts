@@ -0,0 +1,537 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import { WeakSignal, SignalSeverity } from '../entities/weak-signal.entity';
+import { GraphNode } from '../../privacy/entities/graph-node.entity';
+import { GraphEdge } from '../../privacy/entities/graph-edge.entity';
+import { slackMessageExternalId } from '../../privacy/services/graph-builder.service';
+import { JiraIssue } from '../../jira/entities/jira-issue.entity';
+import { ServiceNowIncident } from '../../servicenow/entities/servicenow-incident.entity';
+import { SlackMessage } from '../../slack/entities/slack-message.entity';
+import { TeamsMessage } from '../../teams/entities/teams-message.entity';
+
+export type CorrelationReason = 'time_overlap' | 'shared_entities' | 'shared_topics' | 'graph_neighbourhood';
+
+export interface SignalCorrelationLink {
+  fromSignalId: number;
+  toSignalId: number;
+  reasons: CorrelationReason[];
+  sharedEntities: string[];
+  sharedTopics: string[];
+  sharedGraphNodes: string[];
+}
+
+interface SignalProfile {
+  signal: WeakSignal;
+  windowStart: number;
+  windowEnd: number;
+  sources: Set<string>;
+  entityKeys: Set<string>;
+  topics: Set<string>;
+  graphKeys: Set<string>;
+}
+
+/**
+ * Slack between two activity windows that still counts as co-occurring.
+ */
+const TIME_OVERLAP_TOLERANCE_MS = 48 * 60 * 60 * 1000;
+
+/**
+ * Activity window used for signals whose evidence spans the whole lookback (trend series).
+ */
+const RECENT_ACTIVITY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Upper bound on evidence copied from members into the parent cluster signal.
+ */
+const MAX_CLUSTER_EVIDENCE = 50;
+
+/**
+ * Minimum number of shared topic terms before two signals are considered about the same thing.
+ */
+const MIN_SHARED_TOPICS = 2;
+
+/**
+ * Words that appear in most signal texts and carry no topic information.
+ */
+const TOPIC_STOPWORDS = new Set([
+  'about', 'after', 'again', 'alert', 'also', 'been', 'being', 'change', 'days', 'detected', 'from', 'have',
+  'increase', 'issue', 'issues', 'last', 'mentioned', 'message', 'messages', 'more', 'pattern', 'please',
+  'rate', 'recurring', 'spike', 'that', 'their', 'there', 'this', 'time', 'times', 'volume', 'were', 'what',
+  'when', 'will', 'with', 'keyword', 'incident', 'incidents', 'similar', 'today', 'team', 'thanks',
+]);
+
+const SEVERITY_RANK: Record<SignalSeverity, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+  critical: 4,
+};
+
+/**
+ * Graph node type holding each ingested record, keyed by evidence source.
+ */
+const GRAPH_NODE_TYPES: Record<string, string> = {
+  jira: 'issue',
+  servicenow: 'incident',
+  slack: 'message',
+  teams: 'message',
+};
+
+@Injectable()
+export class SignalCorrelationService {
+  private readonly logger = new Logger(SignalCorrelationService.name);
+
+  constructor(
+    @InjectRepository(GraphNode)
+    private readonly graphNodeRepository: Repository<GraphNode>,
+    @InjectRepository(GraphEdge)
+    private readonly graphEdgeRepository: Repository<GraphEdge>,
+    @InjectRepository(JiraIssue)
+    private readonly jiraIssueRepository: Repository<JiraIssue>,
+    @InjectRepository(ServiceNowIncident)
+    private readonly serviceNowIncidentRepository: Repository<ServiceNowIncident>,
+    @InjectRepository(SlackMessage)
+    private readonly slackMessageRepository: Repository<SlackMessage>,
+    @InjectRepository(TeamsMessage)
+    private readonly teamsMessageRepository: Repository<TeamsMessage>,
+  ) {}
+
+  /**
+   * Group co-occurring signals from different sources into correlation_cluster parent signals.
+   * Member signals must already be persisted so the cluster can reference their IDs.
+   */
+  async buildCorrelationClusters(tenantId: number, signals: WeakSignal[]): Promise<WeakSignal[]> {
+    const candidates = signals.filter(s => s.id && s.signalType !== 'correlation_cluster');
+    if (candidates.length < 2) {
+      return [];
+    }
+
+    const graphNeighbourhoods = await this.loadGraphNeighbourhoods(tenantId, candidates);
+    const profiles = candidates.map(signal => this.buildProfile(signal, graphNeighbourhoods.get(signal.id) || new Set()));
+
+    // Link every pair that co-occurs in time and shares entities, topics or graph neighbours
+    const links: SignalCorrelationLink[] = [];
+    const parent = new Map<number, number>(profiles.map(p => [p.signal.id, p.signal.id]));
+    const find = (id: number): number => {
+      let root = id;
+      while (parent.get(root) !== root) {
+        root = parent.get(root)!;
+      }
+      parent.set(id, root);
+      return root;
+    };
+
+    for (let i = 0; i < profiles.length; i++) {
+      for (let j = i + 1; j < profiles.length; j++) {
+        const link = this.linkProfiles(profiles[i], profiles[j]);
+        if (link) {
+          links.push(link);
+          parent.set(find(profiles[i].signal.id), find(profiles[j].signal.id));
+        }
+      }
+    }
+
+    const groups = new Map<number, SignalProfile[]>();
+    for (const profile of profiles) {
+      const root = find(profile.signal.id);
+      if (!groups.has(root)) {
+        groups.set(root, []);
+      }
+      groups.get(root)!.push(profile);
+    }
+
+    const clusters: WeakSignal[] = [];
+    for (const members of groups.values()) {
+      const sources = new Set(members.flatMap(m => [...m.sources]));
+      if (members.length < 2 || sources.size < 2) {
+        continue;
+      }
+
+      const memberIds = new Set(members.map(m => m.signal.id));
+      const memberLinks = links.filter(l => memberIds.has(l.fromSignalId) && memberIds.has(l.toSignalId));
+      clusters.push(this.createClusterSignal(tenantId, members, memberLinks, sources));
+    }
+
+    this.logger.log(`Built ${clusters.length} correlation clusters from ${candidates.length} signals for tenant ${tenantId}`);
+
+    return clusters;
+  }
+
+  /**
+   * Decide whether two signals belong to the same cluster
+   */
+  private linkProfiles(a: SignalProfile, b: SignalProfile): SignalCorrelationLink | null {
+    const overlapsInTime =
+      a.windowStart <= b.windowEnd + TIME_OVERLAP_TOLERANCE_MS &&
+      b.windowStart <= a.windowEnd + TIME_OVERLAP_TOLERANCE_MS;
+    if (!overlapsInTime) {
+      return null;
+    }
+
+    const sharedEntities = [...a.entityKeys].filter(k => b.entityKeys.has(k));
+    const sharedTopics = [...a.topics].filter(t => b.topics.has(t));
+    const sharedGraphNodes = [...a.graphKeys].filter(k => b.graphKeys.has(k));
+    const topicsMatch = sharedTopics.length >= MIN_SHARED_TOPICS;
+    if (sharedEntities.length === 0 && !topicsMatch && sharedGraphNodes.length === 0) {
+      return null;
+    }
+
+    const reasons: CorrelationReason[] = ['time_overlap'];
+    if (sharedEntities.length > 0) reasons.push('shared_entities');
+    if (topicsMatch) reasons.push('shared_topics');
+    if (sharedGraphNodes.length > 0) reasons.push('graph_neighbourhood');
+
+    return {
+      fromSignalId: a.signal.id,
+      toSignalId: b.signal.id,
+      reasons,
+      sharedEntities,
+      sharedTopics: topicsMatch ? sharedTopics : [],
+      sharedGraphNodes,
+    };
+  }
+
+  /**
+   * Summarise the activity window, sources and entities of a signal
+   */
+  private buildProfile(signal: WeakSignal, graphKeys: Set<string>): SignalProfile {
+    const timestamps = (signal.sourceSignals || [])
+      .map(s => new Date(s.timestamp).getTime())
+      .filter(t => !isNaN(t))
+      .sort((a, b) => a - b);
+
+    let windowStart = timestamps.length > 0 ? timestamps[0] : new Date(signal.detectedAt).getTime();
+    let windowEnd = timestamps.length > 0 ? timestamps[timestamps.length - 1] : windowStart;
+
+    if (signal.signalType === 'anomaly_detection' && signal.metadata?.anomalyDate) {
+      // Only the anomalous day matters, not the surrounding evidence
+      windowStart = new Date(signal.metadata.anomalyDate).getTime();
+      windowEnd = windowStart;
+    } else if (signal.signalType === 'trend_acceleration') {
+      // Trend evidence covers the whole series; the acceleration is in the recent tail
+      windowStart = Math.max(windowStart, windowEnd - RECENT_ACTIVITY_WINDOW_MS);
+    }
+
+    // System entities only name the source, so they never link signals on their own
+    const entityKeys = new Set(
+      (signal.affectedEntities || [])
+        .filter(e => e.type !== 'system')
+        .map(e => `${e.type}:${e.id}`)
+    );
+
+    const sources = new Set((signal.sourceSignals || []).map(s => s.source));
+
+    const topics = this.extractTopics([signal.description || '', ...(signal.patternData?.similarities || [])]);
+
+    return { signal, windowStart, windowEnd, sources, entityKeys, topics, graphKeys };
+  }
+
+  /**
+   * Extract topic terms (service names, components, error words) from signal text
+   */
+  private extractTopics(texts: string[]): Set<string> {
+    const topics = new Set<string>();
+    for (const text of texts) {
+      const words = text.toLowerCase().match(/[a-z][a-z0-9_-]{3,}/g) || [];
+      for (const word of words) {
+        if (!TOPIC_STOPWORDS.has(word)) {
+          topics.add(word);
+        }
+      }
+    }
+    return topics;
+  }
+
+  /**
+   * Resolve each signal's evidence to graph nodes and collect their one-hop neighbourhood.
+   * People are keyed by email so the same person links across Jira, Slack, Teams and ServiceNow.
+   */
+  private async loadGraphNeighbourhoods(tenantId: number, signals: WeakSignal[]): Promise<Map<number, Set<string>>> {
+    const neighbourhoods = new Map<number, Set<string>>();
+
+    // Collect internal record IDs per source
+    const recordIds: Record<string, Set<number>> = { jira: new Set(), servicenow: new Set(), slack: new Set(), teams: new Set() };
+    for (const signal of signals) {
+      for (const evidence of signal.sourceSignals || []) {
+        const id = Number(evidence.sourceId);
+        if (recordIds[evidence.source] && Number.isInteger(id)) {
+          recordIds[evidence.source].add(id);
+        }
+      }
+    }
+
+    if (Object.values(recordIds).every(ids => ids.size === 0)) {
+      return neighbourhoods;
+    }
+
+    const externalIds = await this.resolveExternalIds(tenantId, recordIds);
+
+    const nodeLookups = Object.entries(externalIds)
+      .filter(([, ids]) => ids.size > 0)
+      .map(([source, ids]) => ({
+        tenantId,
+        sourceSystem: source,
+        nodeType: GRAPH_NODE_TYPES[source],
+        externalId: In([...new Set(ids.values())]),
+      }));
+
+    if (nodeLookups.length === 0) {
+      return neighbourhoods;
+    }
+
+    const recordNodes = await this.graphNodeRepository.find({ where: nodeLookups });
+    if (recordNodes.length === 0) {
+      return neighbourhoods;
+    }
+
+    const nodeIds = recordNodes.map(n => n.id);
+    const edges = await this.graphEdgeRepository.find({
+      where: [
+        { tenantId, isActive: true, fromNodeId: In(nodeIds) },
+        { tenantId, isActive: true, toNodeId: In(nodeIds) },
+      ],
+    });
+
+    const recordNodeIds = new Set(nodeIds);
+    const neighbourIds = new Set<number>();
+    for (const edge of edges) {
+      if (!recordNodeIds.has(edge.fromNodeId)) neighbourIds.add(edge.fromNodeId);
+      if (!recordNodeIds.has(edge.toNodeId)) neighbourIds.add(edge.toNodeId);
+    }
+
+    const neighbourNodes = neighbourIds.size > 0
+      ? await this.graphNodeRepository.find({ where: { tenantId, id: In([...neighbourIds]) } })
+      : [];
+    const neighbourKeys = new Map<number, string>(neighbourNodes.map(n => [n.id, this.graphNodeKey(n)]));
+
+    // Neighbour keys reachable from each ingested record, indexed by "source:internalId"
+    const nodeBySourceExternal = new Map<string, GraphNode>(recordNodes.map(n => [`${n.sourceSystem}:${n.externalId}`, n]));
+    const keysByNode = new Map<number, Set<string>>();
+    for (const edge of edges) {
+      for (const [own, other] of [[edge.fromNodeId, edge.toNodeId], [edge.toNodeId, edge.fromNodeId]]) {
+        const key = neighbourKeys.get(other);
+        if (recordNodeIds.has(own) && key) {
+          if (!keysByNode.has(own)) keysByNode.set(own, new Set());
+          keysByNode.get(own)!.add(key);
+        }
+      }
+    }
+
+    for (const signal of signals) {
+      const keys = new Set<string>();
+      for (const evidence of signal.sourceSignals || []) {
+        const externalId = externalIds[evidence.source]?.get(Number(evidence.sourceId));
+        const node = externalId ? nodeBySourceExternal.get(`${evidence.source}:${externalId}`) : undefined;
+        for (const key of (node && keysByNode.get(node.id)) || []) {
+          keys.add(key);
+        }
+      }
+      neighbourhoods.set(signal.id, keys);
+    }
+
+    return neighbourhoods;
+  }
+
+  /**
+   * Map internal record IDs to the external IDs the graph builder stores
+   */
+  private async resolveExternalIds(
+    tenantId: number,
+    recordIds: Record<string, Set<number>>,
+  ): Promise<Record<string, Map<number, string>>> {
+    const byId = <T extends { id: number }>(rows: T[], externalId: (row: T) => string) =>
+      new Map(rows.map(row => [row.id, externalId(row)]));
+
+    const [jiraIssues, incidents, slackMessages, teamsMessages] = await Promise.all([
+      recordIds.jira.size > 0
+        ? this.jiraIssueRepository.find({
+            where: { tenantId, id: In([...recordIds.jira]) },
+            select: ['id', 'jiraIssueId'],
+          })
+        : [],
+      recordIds.servicenow.size > 0
+        ? this.serviceNowIncidentRepository.find({
+            where: { tenantId, id: In([...recordIds.servicenow]) },
+            select: ['id', 'sysId'],
+          })
+        : [],
+      recordIds.slack.size > 0
+        ? this.slackMessageRepository.find({
+            where: { tenantId, id: In([...recordIds.slack]) },
+            select: ['id', 'slackChannelId', 'slackMessageTs'],
+          })
+        : [],
+      recordIds.teams.size > 0
+        ? this.teamsMessageRepository.find({
+            where: { tenantId, id: In([...recordIds.teams]) },
+            select: ['id', 'messageId'],
+          })
+        : [],
+    ]);
+
+    const jira = byId(jiraIssues, issue => issue.jiraIssueId);
+    const servicenow = byId(incidents, incident => incident.sysId);
+    const slack = byId(slackMessages, message => slackMessageExternalId(message.slackChannelId, message.slackMessageTs));
+    const teams = byId(teamsMessages, message => message.messageId);
+
+    return { jira, servicenow, slack, teams };
+  }
+
+  /**
+   * Stable key for a neighbour node; people collapse across systems by email
+   */
+  private graphNodeKey(node: GraphNode): string {
+    const email = node.properties?.email;
+    if (node.nodeType === 'user' && typeof email === 'string' && email.length > 0) {
+      return `person:${email.toLowerCase()}`;
+    }
+    return `${node.nodeType}:${node.displayName || node.externalId}`;
+  }
+
+  /**
+   * Create the parent correlation_cluster signal for a group of members
+   */
+  private createClusterSignal(
+    tenantId: number,
+    members: SignalProfile[],
+    links: SignalCorrelationLink[],
+    sources: Set<string>,
+  ): WeakSignal {
+    const memberSignals = members.map(m => m.signal).sort((a, b) => a.id - b.id);
+    const memberIds = memberSignals.map(s => s.id);
+    const sourceNames = [...sources].sort();
+
+    const signal = new WeakSignal();
+
+    signal.tenantId = tenantId;
+    signal.signalType = 'correlation_cluster';
+    signal.title = `Correlated Signals: ${memberSignals.length} Signals Across ${sourceNames.map(s => this.formatSource(s)).join(', ')}`;
+    signal.description = `Co-occurring weak signals that share timing and context: ${memberSignals.map(s => `"${s.title}"`).join('; ')}`;
+    signal.severity = this.calculateClusterSeverity(memberSignals, sources.size);
+    signal.confidenceScore = this.calculateClusterConfidence(memberSignals, links, sources.size);
+    signal.status = 'new';
+
+    signal.sourceSignals = memberSignals
+      .flatMap(s => s.sourceSignals || [])
+      .sort((a, b) => b.relevanceScore - a.relevanceScore)
+      .slice(0, MAX_CLUSTER_EVIDENCE);
+
+    signal.patternData = null;
+    signal.trendData = null;
+
+    signal.explainability = this.generateClusterExplainability(memberSignals, links, sourceNames);
+
+    const entities = new Map<string, WeakSignal['affectedEntities'][number]>();
+    for (const entity of memberSignals.flatMap(s => s.affectedEntities || [])) {
+      entities.set(`${entity.type}:${entity.id}`, entity);
+    }
+    signal.affectedEntities = [...entities.values()];
+
+    signal.category = 'Cross-Source';
+
+    const windowStart = Math.min(...members.map(m => m.windowStart));
+    const windowEnd = Math.max(...members.map(m => m.windowEnd));
+
+    signal.metadata = {
+      clusterId: `cluster_${memberIds.join('_')}`,
+      memberSignalIds: memberIds,
+      memberSignalTypes: memberSignals.map(s => s.signalType),
+      sources: sourceNames,
+      windowStart: new Date(windowStart).toISOString(),
+      windowEnd: new Date(windowEnd).toISOString(),
+      links,
+    };
+
+    signal.detectedAt = new Date();
+
+    return signal;
+  }
+
+  /**
+   * Cluster severity is the worst member severity, raised one level when three or more sources agree
+   */
+  private calculateClusterSeverity(members: WeakSignal[], sourceCount: number): SignalSeverity {
+    let rank = Math.max(...members.map(s => SEVERITY_RANK[s.severity] || 1));
+    if (sourceCount >= 3) {
+      rank = Math.min(4, rank + 1);
+    }
+    return (Object.keys(SEVERITY_RANK) as SignalSeverity[]).find(s => SEVERITY_RANK[s] === rank)!;
+  }
+
+  /**
+   * Cluster confidence grows with independent sources and graph-backed links
+   */
+  private calculateClusterConfidence(members: WeakSignal[], links: SignalCorrelationLink[], sourceCount: number): number {
+    const avgConfidence = members.reduce((sum, s) => sum + Number(s.confidenceScore), 0) / members.length;
+    const graphLinks = links.filter(l => l.reasons.includes('graph_neighbourhood')).length;
+    const score = avgConfidence + (sourceCount - 1) * 5 + Math.min(10, graphLinks * 2);
+    return Number(Math.min(95, score).toFixed(2));
+  }
+
+  /**
+   * Generate explainability for a correlation cluster
+   */
+  private generateClusterExplainability(
+    members: WeakSignal[],
+    links: SignalCorrelationLink[],
+    sourceNames: string[],
+  ): WeakSignal['explainability'] {
+    const primaryReason = `${members.length} weak signals from ${sourceNames.length} sources (${sourceNames.map(s => this.formatSource(s)).join(', ')}) occurred together and share context`;
+
+    const sharedEntities = [...new Set(links.flatMap(l => l.sharedEntities))];
+    const sharedTopics = [...new Set(links.flatMap(l => l.sharedTopics))];
+    const sharedGraphNodes = [...new Set(links.flatMap(l => l.sharedGraphNodes))];
+
+    const contributingFactors: string[] = [];
+    contributingFactors.push(`${links.length} pairwise links between member signals`);
+    if (sharedEntities.length > 0) {
+      contributingFactors.push(`Shared affected entities: ${sharedEntities.slice(0, 5).join(', ')}`);
+    }
+    if (sharedTopics.length > 0) {
+      contributingFactors.push(`Shared topics: ${sharedTopics.slice(0, 5).join(', ')}`);
+    }
+    if (sharedGraphNodes.length > 0) {
+      contributingFactors.push(`Shared people, projects or channels in the knowledge graph: ${sharedGraphNodes.slice(0, 5).join(', ')}`);
+    }
+
+    const evidencePoints = members.map(s => ({
+      description: `Signal #${s.id}: ${s.title}`,
+      weight: Number(s.confidenceScore) / 100,
+      source: s.sourceSignals?.[0]?.source || 'unknown',
+    }));
+
+    const riskIndicators: string[] = [];
+    riskIndicators.push('Independent sources reporting related symptoms at the same time');
+    if (sourceNames.length >= 3) {
+      riskIndicators.push('Three or more systems affected suggests a shared root cause');
+    }
+    if (members.some(s => s.severity === 'critical' || s.severity === 'high')) {
+      riskIndicators.push('Cluster contains high or critical severity signals');
+    }
+
+    const contextualFactors: string[] = [];
+    contextualFactors.push(`Member signal types: ${[...new Set(members.map(s => s.signalType))].join(', ')}`);
+    contextualFactors.push(`Co-occurrence tolerance: ${TIME_OVERLAP_TOLERANCE_MS / (60 * 60 * 1000)} hours`);
+
+    return {
+      primaryReason,
+      contributingFactors,
+      evidencePoints,
+      riskIndicators,
+      contextualFactors,
+    };
+  }
+
+  private formatSource(source: string): string {
+    const names: Record<string, string> = {
+      jira: 'Jira',
+      servicenow: 'ServiceNow',
+      slack: 'Slack',
+      teams: 'Teams',
+      gmail: 'Gmail',
+      outlook: 'Outlook',
+    };
+    return names[source] || source.charAt(0).toUpperCase() + source.slice(1);
+  }
+}
@@ -0,0 +1,157 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { SignalFeedbackService } from './signal-feedback.service';
+import { WeakSignal } from '../entities/weak-signal.entity';
+import { SignalFeedbackWeight } from '../entities/signal-feedback-weight.entity';
+
+describe('SignalFeedbackService', () => {
+  let service: SignalFeedbackService;
+
+  const mockWeakSignalRepository = {
+    find: jest.fn(),
+  };
+
+  const mockManager = {
+    delete: jest.fn(),
+    save: jest.fn((entity: unknown, weights: unknown) => Promise.resolve(weights)),
+  };
+
+  const mockFeedbackWeightRepository = {
+    create: jest.fn((weight) => weight),
+    find: jest.fn(),
+    manager: {
+      transaction: jest.fn((work: (manager: typeof mockManager) => Promise<void>) => work(mockManager)),
+    },
+  };
+
+  const mockConfigService = {
+    get: jest.fn<string | undefined, [string]>(() => undefined),
+  };
+
+  const keywordSpike = (overrides: Partial<WeakSignal>): WeakSignal =>
+    ({
+      tenantId: 1,
+      signalType: 'pattern_recurring',
+      severity: 'medium',
+      confidenceScore: 80,
+      status: 'new',
+      fingerprint: 'fp_keyword_spike',
+      sourceSignals: [{ source: 'slack', sourceId: '1', timestamp: '', relevanceScore: 70 }],
+      metadata: { patternType: 'keyword_spike' },
+      ...overrides,
+    }) as WeakSignal;
+
+  const incident = (overrides: Partial<WeakSignal>): WeakSignal =>
+    ({
+      tenantId: 1,
+      signalType: 'pattern_recurring',
+      severity: 'high',
+      confidenceScore: 80,
+      status: 'validated',
+      fingerprint: `fp_incident_${overrides.id}`,
+      sourceSignals: [{ source: 'servicenow', sourceId: String(overrides.id), timestamp: '', relevanceScore: 80 }],
+      metadata: { patternType: 'incident_recurrence' },
+      ...overrides,
+    }) as WeakSignal;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SignalFeedbackService,
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: getRepositoryToken(WeakSignal), useValue: mockWeakSignalRepository },
+        { provide: getRepositoryToken(SignalFeedbackWeight), useValue: mockFeedbackWeightRepository },
+      ],
+    }).compile();
+
+    service = module.get<SignalFeedbackService>(SignalFeedbackService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('recomputeWeights', () => {
+    it('should lower weights for types and sources analysts keep dismissing', async () => {
+      mockWeakSignalRepository.find.mockResolvedValueOnce([
+        ...[1, 2, 3, 4, 5, 6].map(id => keywordSpike({ id, status: 'dismissed', fingerprint: `fp_${id}` })),
+        ...[7, 8, 9, 10, 11].map(id => incident({ id })),
+      ]);
+
+      const model = await service.recomputeWeights(1);
+
+      expect(model.typeWeights.keyword_spike).toBeLessThan(0.5);
+      expect(model.sourceWeights.slack).toBeLessThan(0.5);
+      expect(model.typeWeights.incident_recurrence).toBeGreaterThan(1);
+      expect(mockFeedbackWeightRepository.manager.transaction).toHaveBeenCalledTimes(1);
+      expect(mockManager.delete).toHaveBeenCalledWith(SignalFeedbackWeight, { tenantId: 1 });
+      const [, rows] = mockManager.save.mock.calls[0];
+      expect(rows).toContainEqual(
+        expect.objectContaining({ dimension: 'type', key: 'keyword_spike', validatedCount: 0, dismissedCount: 6 }),
+      );
+    });
+
+    it('should keep weights neutral until there are enough outcomes', async () => {
+      mockWeakSignalRepository.find.mockResolvedValueOnce([keywordSpike({ id: 1, status: 'dismissed' })]);
+
+      const model = await service.recomputeWeights(1);
+
+      expect(model.typeWeights.keyword_spike).toBe(1);
+    });
+
+    it('should suppress fingerprints dismissed repeatedly and never validated', async () => {
+      mockWeakSignalRepository.find.mockResolvedValueOnce([
+        keywordSpike({ id: 1, status: 'dismissed', metadata: { patternType: 'keyword_spike', dismissalCount: 3 } }),
+        keywordSpike({ id: 2, status: 'dismissed', fingerprint: 'fp_once' }),
+      ]);
+
+      const model = await service.recomputeWeights(1);
+
+      expect([...model.suppressedFingerprints]).toEqual(['fp_keyword_spike']);
+    });
+  });
+
+  describe('applyFeedback', () => {
+    it('should drop suppressed signals and scale the confidence of the rest', async () => {
+      mockWeakSignalRepository.find.mockResolvedValueOnce([
+        ...[1, 2, 3, 4, 5, 6].map(id =>
+          keywordSpike({ id, status: 'dismissed', metadata: { patternType: 'keyword_spike', dismissalCount: 1 } }),
+        ),
+      ]);
+
+      const suppressed = keywordSpike({});
+      const criticalRepeat = keywordSpike({ severity: 'critical' });
+      const otherSpike = keywordSpike({ fingerprint: 'fp_other_spike' });
+
+      const result = await service.applyFeedback(1, [suppressed, criticalRepeat, otherSpike]);
+
+      expect(result).toEqual([criticalRepeat, otherSpike]);
+      expect(otherSpike.confidenceScore).toBeLessThan(80);
+      expect(otherSpike.metadata?.feedback).toMatchObject({ originalConfidence: 80 });
+    });
+
+    it('should leave signals untouched when feedback learning is disabled', async () => {
+      mockConfigService.get.mockImplementation((key: string) =>
+        key === 'WEAK_SIGNAL_FEEDBACK_ENABLED' ? 'false' : undefined,
+      );
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          SignalFeedbackService,
+          { provide: ConfigService, useValue: mockConfigService },
+          { provide: getRepositoryToken(WeakSignal), useValue: mockWeakSignalRepository },
+          { provide: getRepositoryToken(SignalFeedbackWeight), useValue: mockFeedbackWeightRepository },
+        ],
+      }).compile();
+      const disabled = module.get<SignalFeedbackService>(SignalFeedbackService);
+      mockConfigService.get.mockImplementation(() => undefined);
+
+      const signal = keywordSpike({});
+      const result = await disabled.applyFeedback(1, [signal]);
+
+      expect(result).toEqual([signal]);
+      expect(signal.confidenceScore).toBe(80);
+      expect(mockWeakSignalRepository.find).not.toHaveBeenCalled();
+    });
+  });
+});
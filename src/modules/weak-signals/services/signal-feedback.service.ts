@@ -0,0 +1,208 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import { WeakSignal, SignalStatus } from '../entities/weak-signal.entity';
+import { SignalFeedbackWeight, FeedbackDimension } from '../entities/signal-feedback-weight.entity';
+
+export interface FeedbackModel {
+  typeWeights: Record<string, number>;
+  sourceWeights: Record<string, number>;
+  suppressedFingerprints: Set<string>;
+}
+
+/**
+ * Triage outcomes that confirm a signal was worth surfacing.
+ */
+const POSITIVE_STATUSES: SignalStatus[] = ['validated', 'escalated'];
+
+/**
+ * Weights are a smoothed validation rate relative to this prior, so a type that analysts
+ * validate half of the time keeps a weight of 1.
+ */
+const PRIOR_VALIDATION_RATE = 0.5;
+const PRIOR_STRENGTH = 4;
+const MIN_WEIGHT = 0.3;
+const MAX_WEIGHT = 1.3;
+
+@Injectable()
+export class SignalFeedbackService {
+  private readonly logger = new Logger(SignalFeedbackService.name);
+  private readonly enabled: boolean;
+  private readonly minSamples: number;
+  private readonly suppressAfterDismissals: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(WeakSignal)
+    private readonly weakSignalRepository: Repository<WeakSignal>,
+    @InjectRepository(SignalFeedbackWeight)
+    private readonly feedbackWeightRepository: Repository<SignalFeedbackWeight>,
+  ) {
+    this.enabled = this.configService.get<string>('WEAK_SIGNAL_FEEDBACK_ENABLED') !== 'false';
+    this.minSamples = parseInt(this.configService.get<string>('WEAK_SIGNAL_FEEDBACK_MIN_SAMPLES') || '5', 10);
+    this.suppressAfterDismissals = parseInt(this.configService.get<string>('WEAK_SIGNAL_SUPPRESS_AFTER_DISMISSALS') || '3', 10);
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Re-weight freshly detected signals using the tenant's triage history and drop the ones
+   * analysts keep dismissing. Critical signals are never suppressed.
+   */
+  async applyFeedback(tenantId: number, signals: WeakSignal[]): Promise<WeakSignal[]> {
+    if (!this.enabled || signals.length === 0) {
+      return signals;
+    }
+
+    const model = await this.recomputeWeights(tenantId);
+    const kept: WeakSignal[] = [];
+    let suppressed = 0;
+
+    for (const signal of signals) {
+      if (model.suppressedFingerprints.has(signal.fingerprint!) && signal.severity !== 'critical') {
+        suppressed++;
+        continue;
+      }
+
+      const typeWeight = model.typeWeights[this.getFeedbackType(signal)] ?? 1;
+      const sources = this.getSources(signal);
+      const sourceWeight = sources.length > 0
+        ? sources.reduce((sum, source) => sum + (model.sourceWeights[source] ?? 1), 0) / sources.length
+        : 1;
+
+      const combined = typeWeight * sourceWeight;
+      if (combined !== 1) {
+        const originalConfidence = Number(signal.confidenceScore);
+        signal.confidenceScore = Number(Math.min(100, Math.max(0, originalConfidence * combined)).toFixed(2));
+        signal.metadata = {
+          ...(signal.metadata || {}),
+          feedback: {
+            originalConfidence,
+            typeWeight: Number(typeWeight.toFixed(3)),
+            sourceWeight: Number(sourceWeight.toFixed(3)),
+          },
+        };
+      }
+
+      kept.push(signal);
+    }
+
+    if (suppressed > 0) {
+      this.logger.log(`Suppressed ${suppressed} repeatedly dismissed signals for tenant ${tenantId}`);
+    }
+
+    return kept;
+  }
+
+  /**
+   * Rebuild the tenant's weights from validated, escalated and dismissed signals
+   */
+  async recomputeWeights(tenantId: number): Promise<FeedbackModel> {
+    const triaged = await this.weakSignalRepository.find({
+      where: { tenantId, status: In([...POSITIVE_STATUSES, 'dismissed']) },
+    });
+
+    const outcomes: Record<FeedbackDimension, Map<string, { validated: number; dismissed: number }>> = {
+      type: new Map(),
+      source: new Map(),
+      fingerprint: new Map(),
+    };
+
+    const record = (dimension: FeedbackDimension, key: string, validated: number, dismissed: number) => {
+      const current = outcomes[dimension].get(key) || { validated: 0, dismissed: 0 };
+      current.validated += validated;
+      current.dismissed += dismissed;
+      outcomes[dimension].set(key, current);
+    };
+
+    for (const signal of triaged) {
+      const isPositive = POSITIVE_STATUSES.includes(signal.status);
+      // A signal dismissed again after being reopened counts once per dismissal
+      const dismissals = isPositive ? 0 : Math.max(1, Number(signal.metadata?.dismissalCount || 0));
+      const validations = isPositive ? 1 : 0;
+
+      record('type', this.getFeedbackType(signal), validations, dismissals);
+      for (const source of this.getSources(signal)) {
+        record('source', source, validations, dismissals);
+      }
+      if (signal.fingerprint) {
+        record('fingerprint', signal.fingerprint, validations, dismissals);
+      }
+    }
+
+    const rows: SignalFeedbackWeight[] = [];
+    const model: FeedbackModel = { typeWeights: {}, sourceWeights: {}, suppressedFingerprints: new Set() };
+
+    for (const dimension of ['type', 'source', 'fingerprint'] as FeedbackDimension[]) {
+      for (const [key, { validated, dismissed }] of outcomes[dimension]) {
+        const weight = dimension === 'fingerprint' ? 1 : this.calculateWeight(validated, dismissed);
+        const suppressed = dimension === 'fingerprint' && validated === 0 && dismissed >= this.suppressAfterDismissals;
+
+        if (dimension === 'type') model.typeWeights[key] = weight;
+        if (dimension === 'source') model.sourceWeights[key] = weight;
+        if (suppressed) model.suppressedFingerprints.add(key);
+
+        rows.push(
+          this.feedbackWeightRepository.create({
+            tenantId,
+            dimension,
+            key,
+            validatedCount: validated,
+            dismissedCount: dismissed,
+            weight,
+            suppressed,
+          }),
+        );
+      }
+    }
+
+    // Readers never see the tenant without weights between the delete and the insert
+    await this.feedbackWeightRepository.manager.transaction(async manager => {
+      await manager.delete(SignalFeedbackWeight, { tenantId });
+      if (rows.length > 0) {
+        await manager.save(SignalFeedbackWeight, rows);
+      }
+    });
+
+    this.logger.debug(
+      `Recomputed feedback weights for tenant ${tenantId} from ${triaged.length} triaged signals ` +
+      `(${model.suppressedFingerprints.size} suppressed fingerprints)`
+    );
+
+    return model;
+  }
+
+  async getWeights(tenantId: number): Promise<SignalFeedbackWeight[]> {
+    return await this.feedbackWeightRepository.find({
+      where: { tenantId },
+      order: { dimension: 'ASC', key: 'ASC' },
+    });
+  }
+
+  /**
+   * Smoothed validation rate relative to the prior; neutral until there are enough outcomes
+   */
+  private calculateWeight(validated: number, dismissed: number): number {
+    if (validated + dismissed < this.minSamples) {
+      return 1;
+    }
+
+    const rate = (validated + PRIOR_VALIDATION_RATE * PRIOR_STRENGTH) / (validated + dismissed + PRIOR_STRENGTH);
+    const weight = Math.min(MAX_WEIGHT, Math.max(MIN_WEIGHT, rate / PRIOR_VALIDATION_RATE));
+    return Number(weight.toFixed(3));
+  }
+
+  /**
+   * Pattern signals are weighted per pattern type, other signals per signal type
+   */
+  private getFeedbackType(signal: WeakSignal): string {
+    return signal.metadata?.patternType || signal.signalType;
+  }
+
+  private getSources(signal: WeakSignal): string[] {
+    return [...new Set((signal.sourceSignals || []).map(evidence => evidence.source))];
+  }
+}
@@ -0,0 +1,139 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SignalForecastService } from './signal-forecast.service';
+import { TrendAcceleration } from './trend-acceleration.service';
+import { RecurringPattern } from './pattern-extraction.service';
+import { WeakSignal } from '../entities/weak-signal.entity';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = new Date('2026-01-01T00:00:00.000Z').getTime();
+
+function buildAcceleration(values: number[], source: string, criticalThreshold?: { min?: number; max?: number }): TrendAcceleration {
+  return {
+    accelerationId: 'trend_accel_test',
+    metric: 'Test metric',
+    metricKey: 'test_metric',
+    description: 'Test metric increasing',
+    baseline: values[0],
+    current: values[values.length - 1],
+    changeRate: 50,
+    accelerationFactor: 1.5,
+    timeWindow: '30 days',
+    severity: 'medium',
+    confidenceScore: 70,
+    predictedEscalationTime: null,
+    evidence: values.map((value, i) => ({ timestamp: new Date(START + i * DAY_MS), value, source })),
+    riskIndicators: [],
+    criticalThreshold: criticalThreshold ?? null,
+  };
+}
+
+describe('SignalForecastService', () => {
+  let service: SignalForecastService;
+
+  // 30 days of a KPI climbing 2 per day with a little noise, ending at ~108
+  const climbing = Array.from({ length: 30 }, (_, i) => 50 + 2 * i + (i % 2 === 0 ? 0.5 : -0.5));
+  const asOf = new Date(START + 30 * DAY_MS);
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [SignalForecastService],
+    }).compile();
+
+    service = module.get<SignalForecastService>(SignalForecastService);
+  });
+
+  it('should forecast when a climbing metric reaches its critical threshold', () => {
+    const forecast = service.forecastAcceleration(buildAcceleration(climbing, 'kpi', { min: 120 }), asOf);
+
+    expect(forecast).not.toBeNull();
+    expect(forecast!.points).toHaveLength(14);
+    expect(forecast!.stepDays).toBe(1);
+    for (const point of forecast!.points) {
+      expect(point.lower95).toBeLessThanOrEqual(point.lower80);
+      expect(point.lower80).toBeLessThanOrEqual(point.mean);
+      expect(point.mean).toBeLessThanOrEqual(point.upper80);
+      expect(point.upper80).toBeLessThanOrEqual(point.upper95);
+    }
+
+    expect(forecast!.breachProbability).toBeGreaterThan(0.9);
+    expect(forecast!.timeToBreachDays).toBeGreaterThan(3);
+    expect(forecast!.timeToBreachDays).toBeLessThan(10);
+  });
+
+  it('should report a certain breach when the metric is already critical', () => {
+    const forecast = service.forecastAcceleration(buildAcceleration(climbing, 'kpi', { min: 100 }), asOf);
+
+    expect(forecast!.breachProbability).toBe(1);
+    expect(forecast!.timeToBreachDays).toBe(0);
+  });
+
+  it('should not estimate a breach for metrics without a critical threshold', () => {
+    const forecast = service.forecastAcceleration(buildAcceleration(climbing, 'kpi'), asOf);
+
+    expect(forecast!.threshold).toBeNull();
+    expect(forecast!.breachProbability).toBeNull();
+    expect(forecast!.expectedBreachAt).toBeNull();
+    expect(forecast!.points.every(point => point.breachProbability === null)).toBe(true);
+  });
+
+  it('should fit a weekly season to daily volumes', () => {
+    const week = [10, 12, 11, 13, 12, 2, 1];
+    const volumes = Array.from({ length: 42 }, (_, i) => week[i % 7]);
+
+    const forecast = service.forecastAcceleration(buildAcceleration(volumes, 'slack'), new Date(START + 42 * DAY_MS));
+
+    expect(forecast!.model).toBe('holt_winters');
+    // The forecast keeps the weekend dip
+    expect(forecast!.points[5].mean).toBeLessThan(forecast!.points[3].mean);
+    expect(forecast!.points.every(point => point.lower95 >= 0)).toBe(true);
+  });
+
+  it('should not forecast series that are too short', () => {
+    expect(service.forecastAcceleration(buildAcceleration([1, 2, 3, 4, 5], 'kpi', { min: 10 }), asOf)).toBeNull();
+  });
+
+  it('should predict the next occurrence of a recurring pattern', () => {
+    const pattern: RecurringPattern = {
+      patternId: 'pattern_test',
+      type: 'issue_recurrence',
+      description: 'Recurring issue',
+      occurrences: 10,
+      frequency: 'irregular',
+      lastOccurrence: new Date(START + 27 * DAY_MS),
+      predictedNext: null,
+      similarities: [],
+      confidenceScore: 80,
+      evidence: Array.from({ length: 10 }, (_, i) => ({
+        source: 'jira',
+        sourceId: `JIRA-${i}`,
+        timestamp: new Date(START + i * 3 * DAY_MS),
+        relevanceScore: 90,
+      })),
+    };
+
+    const forecast = service.forecastPattern(pattern, new Date(START + 28 * DAY_MS));
+
+    expect(forecast!.predictedNextOccurrence).not.toBeNull();
+    const daysAhead = (new Date(forecast!.predictedNextOccurrence!).getTime() - (START + 28 * DAY_MS)) / DAY_MS;
+    expect(daysAhead).toBeGreaterThan(0);
+    expect(daysAhead).toBeLessThanOrEqual(7);
+  });
+
+  it('should rank signals about to breach above more severe signals without a forecast', () => {
+    const now = new Date(START);
+    const breaching = {
+      severity: 'medium',
+      confidenceScore: 70,
+      breachProbability: 0.9,
+      expectedBreachAt: new Date(START + 3 * DAY_MS),
+    } as WeakSignal;
+    const critical = {
+      severity: 'critical',
+      confidenceScore: 90,
+      breachProbability: null,
+      expectedBreachAt: null,
+    } as WeakSignal;
+
+    expect(service.triagePriority(breaching, now)).toBeGreaterThan(service.triagePriority(critical, now));
+  });
+});
@@ -0,0 +1,516 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { TrendAcceleration } from './trend-acceleration.service';
+import { RecurringPattern } from './pattern-extraction.service';
+import { WeakSignal } from '../entities/weak-signal.entity';
+import {
+  CriticalThreshold,
+  ForecastModelName,
+  ForecastPoint,
+  SignalForecast,
+} from '../interfaces/forecast.interface';
+
+type SeriesPoint = { timestamp: Date; value: number };
+
+/**
+ * A fitted model: in-sample one-step errors plus h-step forecasts and their variances
+ */
+interface FittedModel {
+  model: ForecastModelName;
+  rmse: number;
+  forecast(steps: number): { mean: number; variance: number }[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_POINTS = 8;
+const MAX_STEPS = 60;
+const METRIC_HORIZON_DAYS = 14;
+const PATTERN_HORIZON_DAYS = 30;
+
+/**
+ * Weekly seasonality of daily series; Holt-Winters needs three full seasons
+ */
+const SEASON_LENGTH = 7;
+const MIN_SEASONAL_POINTS = SEASON_LENGTH * 3;
+
+const HOLT_GRID = [0.1, 0.3, 0.5, 0.7, 0.9];
+const HOLT_WINTERS_GRID = [0.1, 0.3, 0.5];
+const MAX_AR_COEFFICIENT = 0.95;
+
+const Z_80 = 1.2816;
+const Z_95 = 1.96;
+
+/**
+ * Breaches further away than this add nothing to triage urgency
+ */
+const URGENCY_WINDOW_DAYS = 14;
+
+const SEVERITY_RANK: Record<string, number> = { critical: 4, high: 3, medium: 2, low: 1 };
+
+/**
+ * Fits Holt (linear trend), Holt-Winters (additive weekly season) and ARIMA(1,1,0) models to
+ * the series behind a signal, keeps the one with the lowest one-step error and projects it
+ * forward with 80% / 95% bands and the probability of reaching the critical threshold.
+ */
+@Injectable()
+export class SignalForecastService {
+  private readonly logger = new Logger(SignalForecastService.name);
+
+  /**
+   * Forecast the metric behind a trend acceleration. Volume metrics are daily counts with
+   * no threshold; KPI metrics use the critical threshold of their definition.
+   */
+  forecastAcceleration(acceleration: TrendAcceleration, asOf: Date = new Date()): SignalForecast | null {
+    const isVolume = acceleration.evidence.some(point => point.source !== 'kpi');
+
+    return this.forecastSeries(
+      acceleration.evidence.map(point => ({ timestamp: new Date(point.timestamp), value: point.value })),
+      {
+        metricKey: acceleration.metricKey,
+        threshold: acceleration.criticalThreshold ?? null,
+        horizonDays: METRIC_HORIZON_DAYS,
+        dailyCounts: isVolume,
+      },
+      asOf,
+    );
+  }
+
+  /**
+   * Forecast the daily occurrences of a recurring pattern and predict the next one as the
+   * first day the expected cumulative count reaches one occurrence
+   */
+  forecastPattern(pattern: RecurringPattern, asOf: Date = new Date()): SignalForecast | null {
+    if (pattern.evidence.length < 2) {
+      return null;
+    }
+
+    const occurrences = pattern.evidence.map(item => ({ timestamp: new Date(item.timestamp), value: 1 }));
+    // Days without occurrences up to now are zeros, not gaps
+    occurrences.push({ timestamp: asOf, value: 0 });
+
+    const forecast = this.forecastSeries(
+      occurrences,
+      {
+        metricKey: pattern.patternId,
+        threshold: null,
+        horizonDays: PATTERN_HORIZON_DAYS,
+        dailyCounts: true,
+      },
+      asOf,
+    );
+    if (!forecast) {
+      return null;
+    }
+
+    let expected = 0;
+    for (const point of forecast.points) {
+      expected += point.mean;
+      if (expected >= 1) {
+        forecast.predictedNextOccurrence = point.timestamp;
+        break;
+      }
+    }
+
+    return forecast;
+  }
+
+  /**
+   * Fit the models to a series and forecast it over the horizon
+   */
+  forecastSeries(
+    points: SeriesPoint[],
+    options: { metricKey: string; threshold: CriticalThreshold | null; horizonDays: number; dailyCounts: boolean },
+    asOf: Date = new Date(),
+  ): SignalForecast | null {
+    const { series, stepMs } = options.dailyCounts
+      ? this.toDailyCounts(points)
+      : this.toRegularSeries(points);
+
+    if (series.length < MIN_POINTS || stepMs <= 0) {
+      return null;
+    }
+
+    const values = series.map(point => point.value);
+    const nonNegative = values.every(value => value >= 0);
+    const fitted = this.selectModel(values, options.dailyCounts && stepMs === DAY_MS);
+    if (!fitted) {
+      return null;
+    }
+
+    const stepDays = stepMs / DAY_MS;
+    const steps = Math.min(MAX_STEPS, Math.max(1, Math.ceil(options.horizonDays / stepDays)));
+    const lastTimestamp = series[series.length - 1].timestamp.getTime();
+    const threshold = this.normalizeThreshold(options.threshold);
+
+    const forecastPoints: ForecastPoint[] = fitted.forecast(steps).map(({ mean, variance }, index) => {
+      const sd = Math.sqrt(Math.max(0, variance));
+      const bound = (value: number) => this.round(nonNegative ? Math.max(0, value) : value);
+
+      return {
+        timestamp: new Date(lastTimestamp + (index + 1) * stepMs).toISOString(),
+        mean: bound(mean),
+        lower80: bound(mean - Z_80 * sd),
+        upper80: bound(mean + Z_80 * sd),
+        lower95: bound(mean - Z_95 * sd),
+        upper95: bound(mean + Z_95 * sd),
+        breachProbability: threshold ? this.round(this.probabilityInRange(mean, sd, threshold)) : null,
+      };
+    });
+
+    let breachProbability: number | null = null;
+    let expectedBreachAt: string | null = null;
+
+    if (threshold) {
+      const lastValue = values[values.length - 1];
+      if (this.isInRange(lastValue, threshold)) {
+        // Already critical
+        breachProbability = 1;
+        expectedBreachAt = new Date(lastTimestamp).toISOString();
+      } else {
+        breachProbability = Math.max(...forecastPoints.map(point => point.breachProbability ?? 0));
+        const breachPoint = forecastPoints.find(point => this.isInRange(point.mean, threshold))
+          || forecastPoints.find(point => (point.breachProbability ?? 0) >= 0.5);
+        expectedBreachAt = breachPoint ? breachPoint.timestamp : null;
+      }
+    }
+
+    return {
+      metricKey: options.metricKey,
+      model: fitted.model,
+      generatedAt: asOf.toISOString(),
+      stepDays: this.round(stepDays),
+      fitRmse: this.round(fitted.rmse),
+      points: forecastPoints,
+      threshold,
+      breachProbability,
+      expectedBreachAt,
+      timeToBreachDays: expectedBreachAt
+        ? this.round(Math.max(0, (new Date(expectedBreachAt).getTime() - asOf.getTime()) / DAY_MS))
+        : null,
+      predictedNextOccurrence: null,
+    };
+  }
+
+  /**
+   * Triage score 0-100: forecast breach risk and its urgency first, then severity and confidence
+   */
+  triagePriority(signal: WeakSignal, asOf: Date = new Date()): number {
+    const breachProbability = signal.breachProbability !== null && signal.breachProbability !== undefined
+      ? Number(signal.breachProbability)
+      : 0;
+
+    let urgency = 0;
+    if (signal.expectedBreachAt) {
+      const daysToBreach = Math.max(0, (new Date(signal.expectedBreachAt).getTime() - asOf.getTime()) / DAY_MS);
+      urgency = Math.max(0, 1 - daysToBreach / URGENCY_WINDOW_DAYS);
+    }
+
+    const severity = (SEVERITY_RANK[signal.severity] || 1) / 4;
+    const confidence = Math.min(100, Math.max(0, Number(signal.confidenceScore) || 0)) / 100;
+
+    return 40 * breachProbability + 20 * urgency + 25 * severity + 15 * confidence;
+  }
+
+  /**
+   * triagePriority as an SQL expression over the given alias, so triage ordering and paging
+   * happen in the database. The reference time is bound to :triageAsOf.
+   */
+  triagePriorityExpression(alias: string): string {
+    const urgency =
+      `CASE WHEN ${alias}.expectedBreachAt IS NULL THEN 0 ELSE GREATEST(0, 1 - ` +
+      `GREATEST(0, TIMESTAMPDIFF(SECOND, :triageAsOf, ${alias}.expectedBreachAt) / ${DAY_MS / 1000}) / ${URGENCY_WINDOW_DAYS}) END`;
+    const severity =
+      `CASE ${alias}.severity WHEN 'critical' THEN ${SEVERITY_RANK.critical} WHEN 'high' THEN ${SEVERITY_RANK.high} ` +
+      `WHEN 'medium' THEN ${SEVERITY_RANK.medium} ELSE ${SEVERITY_RANK.low} END`;
+    const confidence = `LEAST(100, GREATEST(0, COALESCE(${alias}.confidenceScore, 0)))`;
+
+    return `(40 * COALESCE(${alias}.breachProbability, 0) + 20 * (${urgency}) + 25 * (${severity}) / 4 + 15 * ${confidence} / 100)`;
+  }
+
+  /**
+   * Fit every applicable model and keep the one with the lowest one-step RMSE
+   */
+  private selectModel(values: number[], allowSeasonal: boolean): FittedModel | null {
+    const candidates: (FittedModel | null)[] = [this.fitHolt(values), this.fitArima(values)];
+    if (allowSeasonal && values.length >= MIN_SEASONAL_POINTS) {
+      candidates.push(this.fitHoltWinters(values));
+    }
+
+    const fitted = candidates.filter((model): model is FittedModel => !!model && isFinite(model.rmse));
+    if (fitted.length === 0) {
+      this.logger.debug('No forecast model could be fitted');
+      return null;
+    }
+
+    return fitted.reduce((best, model) => (model.rmse < best.rmse ? model : best));
+  }
+
+  /**
+   * Holt's linear trend method, smoothing parameters chosen by grid search
+   */
+  private fitHolt(values: number[]): FittedModel | null {
+    let best: { alpha: number; beta: number; rmse: number; level: number; trend: number } | null = null;
+
+    for (const alpha of HOLT_GRID) {
+      for (const beta of HOLT_GRID) {
+        let level = values[0];
+        let trend = values[1] - values[0];
+        const errors: number[] = [];
+
+        for (let t = 1; t < values.length; t++) {
+          const previousLevel = level;
+          errors.push(values[t] - (level + trend));
+          level = alpha * values[t] + (1 - alpha) * (level + trend);
+          trend = beta * (level - previousLevel) + (1 - beta) * trend;
+        }
+
+        const rmse = this.rmse(errors);
+        if (!best || rmse < best.rmse) {
+          best = { alpha, beta, rmse, level, trend };
+        }
+      }
+    }
+
+    if (!best) {
+      return null;
+    }
+
+    const { alpha, beta, rmse, level, trend } = best;
+    return {
+      model: 'holt_linear',
+      rmse,
+      forecast: steps => {
+        const result: { mean: number; variance: number }[] = [];
+        let sum = 0;
+        for (let h = 1; h <= steps; h++) {
+          // Var(h) = σ²(1 + Σ_{j<h} (α + jαβ)²)
+          if (h > 1) {
+            sum += Math.pow(alpha + (h - 1) * alpha * beta, 2);
+          }
+          result.push({ mean: level + h * trend, variance: rmse * rmse * (1 + sum) });
+        }
+        return result;
+      },
+    };
+  }
+
+  /**
+   * Additive Holt-Winters with a weekly season
+   */
+  private fitHoltWinters(values: number[]): FittedModel | null {
+    const m = SEASON_LENGTH;
+    const firstSeasonMean = values.slice(0, m).reduce((a, b) => a + b, 0) / m;
+    const secondSeasonMean = values.slice(m, 2 * m).reduce((a, b) => a + b, 0) / m;
+
+    let best: {
+      alpha: number;
+      beta: number;
+      gamma: number;
+      rmse: number;
+      level: number;
+      trend: number;
+      seasonals: number[];
+    } | null = null;
+
+    for (const alpha of HOLT_WINTERS_GRID) {
+      for (const beta of HOLT_WINTERS_GRID) {
+        for (const gamma of HOLT_WINTERS_GRID) {
+          let level = firstSeasonMean;
+          let trend = (secondSeasonMean - firstSeasonMean) / m;
+          const seasonals = values.slice(0, m).map(value => value - firstSeasonMean);
+          const errors: number[] = [];
+
+          for (let t = m; t < values.length; t++) {
+            const seasonal = seasonals[t - m];
+            const previousLevel = level;
+            errors.push(values[t] - (level + trend + seasonal));
+            level = alpha * (values[t] - seasonal) + (1 - alpha) * (level + trend);
+            trend = beta * (level - previousLevel) + (1 - beta) * trend;
+            seasonals.push(gamma * (values[t] - level) + (1 - gamma) * seasonal);
+          }
+
+          const rmse = this.rmse(errors);
+          if (!best || rmse < best.rmse) {
+            best = { alpha, beta, gamma, rmse, level, trend, seasonals };
+          }
+        }
+      }
+    }
+
+    if (!best) {
+      return null;
+    }
+
+    const { alpha, beta, gamma, rmse, level, trend, seasonals } = best;
+    const lastSeason = seasonals.slice(-m);
+    return {
+      model: 'holt_winters',
+      rmse,
+      forecast: steps => {
+        const result: { mean: number; variance: number }[] = [];
+        let sum = 0;
+        for (let h = 1; h <= steps; h++) {
+          // Var(h) = σ²(1 + Σ_{j<h} (α + jαβ + γ[j mod m = 0])²)
+          if (h > 1) {
+            const j = h - 1;
+            sum += Math.pow(alpha + j * alpha * beta + (j % m === 0 ? gamma : 0), 2);
+          }
+          result.push({
+            mean: level + h * trend + lastSeason[(h - 1) % m],
+            variance: rmse * rmse * (1 + sum),
+          });
+        }
+        return result;
+      },
+    };
+  }
+
+  /**
+   * ARIMA(1,1,0) around the mean difference: d_t - μ = φ(d_{t-1} - μ) + ε
+   */
+  private fitArima(values: number[]): FittedModel | null {
+    const diffs = values.slice(1).map((value, i) => value - values[i]);
+    if (diffs.length < 3) {
+      return null;
+    }
+
+    const mu = diffs.reduce((a, b) => a + b, 0) / diffs.length;
+    let numerator = 0;
+    let denominator = 0;
+    for (let t = 1; t < diffs.length; t++) {
+      numerator += (diffs[t] - mu) * (diffs[t - 1] - mu);
+      denominator += Math.pow(diffs[t - 1] - mu, 2);
+    }
+    const phi = denominator > 0
+      ? Math.max(-MAX_AR_COEFFICIENT, Math.min(MAX_AR_COEFFICIENT, numerator / denominator))
+      : 0;
+
+    const errors: number[] = [];
+    for (let t = 1; t < diffs.length; t++) {
+      errors.push(diffs[t] - (mu + phi * (diffs[t - 1] - mu)));
+    }
+    const rmse = this.rmse(errors);
+
+    const lastValue = values[values.length - 1];
+    const lastDiff = diffs[diffs.length - 1];
+
+    return {
+      model: 'arima_lite',
+      rmse,
+      forecast: steps => {
+        const result: { mean: number; variance: number }[] = [];
+        let mean = lastValue;
+        let diff = lastDiff;
+        let psi = 0;
+        let sum = 0;
+        for (let h = 1; h <= steps; h++) {
+          diff = mu + phi * (diff - mu);
+          mean += diff;
+          // ψ_j = Σ_{i≤j} φ^i, Var(h) = σ² Σ_{j<h} ψ_j²
+          psi += Math.pow(phi, h - 1);
+          sum += psi * psi;
+          result.push({ mean, variance: rmse * rmse * sum });
+        }
+        return result;
+      },
+    };
+  }
+
+  /**
+   * Sum values per UTC day and fill days without data with zeros
+   */
+  private toDailyCounts(points: SeriesPoint[]): { series: SeriesPoint[]; stepMs: number } {
+    if (points.length === 0) {
+      return { series: [], stepMs: DAY_MS };
+    }
+
+    const counts = new Map<number, number>();
+    for (const point of points) {
+      const day = Math.floor(point.timestamp.getTime() / DAY_MS) * DAY_MS;
+      counts.set(day, (counts.get(day) || 0) + (Number(point.value) || 0));
+    }
+
+    const days = Array.from(counts.keys());
+    const first = Math.min(...days);
+    const last = Math.max(...days);
+    const series: SeriesPoint[] = [];
+    for (let day = first; day <= last; day += DAY_MS) {
+      series.push({ timestamp: new Date(day), value: counts.get(day) || 0 });
+    }
+
+    return { series, stepMs: DAY_MS };
+  }
+
+  /**
+   * Sort KPI values and use the median spacing between them as the forecast step
+   */
+  private toRegularSeries(points: SeriesPoint[]): { series: SeriesPoint[]; stepMs: number } {
+    const series = points
+      .map(point => ({ timestamp: point.timestamp, value: Number(point.value) }))
+      .filter(point => isFinite(point.value))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    const intervals = series
+      .slice(1)
+      .map((point, i) => point.timestamp.getTime() - series[i].timestamp.getTime())
+      .filter(interval => interval > 0)
+      .sort((a, b) => a - b);
+
+    const stepMs = intervals.length > 0 ? intervals[Math.floor(intervals.length / 2)] : 0;
+    return { series, stepMs };
+  }
+
+  private normalizeThreshold(threshold: CriticalThreshold | null): CriticalThreshold | null {
+    if (!threshold) {
+      return null;
+    }
+
+    const normalized: CriticalThreshold = {};
+    if (typeof threshold.min === 'number' && isFinite(threshold.min)) normalized.min = threshold.min;
+    if (typeof threshold.max === 'number' && isFinite(threshold.max)) normalized.max = threshold.max;
+
+    return normalized.min === undefined && normalized.max === undefined ? null : normalized;
+  }
+
+  private isInRange(value: number, threshold: CriticalThreshold): boolean {
+    return (threshold.min === undefined || value >= threshold.min)
+      && (threshold.max === undefined || value <= threshold.max);
+  }
+
+  /**
+   * P(min ≤ X ≤ max) for X ~ N(mean, sd²)
+   */
+  private probabilityInRange(mean: number, sd: number, threshold: CriticalThreshold): number {
+    if (sd === 0) {
+      return this.isInRange(mean, threshold) ? 1 : 0;
+    }
+
+    const upper = threshold.max === undefined ? 1 : this.normalCdf((threshold.max - mean) / sd);
+    const lower = threshold.min === undefined ? 0 : this.normalCdf((threshold.min - mean) / sd);
+
+    return Math.min(1, Math.max(0, upper - lower));
+  }
+
+  /**
+   * Standard normal CDF using the Abramowitz-Stegun erf approximation (error < 1.5e-7)
+   */
+  private normalCdf(z: number): number {
+    const x = Math.abs(z) / Math.SQRT2;
+    const t = 1 / (1 + 0.3275911 * x);
+    const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+    const erf = 1 - poly * Math.exp(-x * x);
+
+    return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+  }
+
+  private rmse(errors: number[]): number {
+    if (errors.length === 0) {
+      return Infinity;
+    }
+
+    return Math.sqrt(errors.reduce((sum, error) => sum + error * error, 0) / errors.length);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
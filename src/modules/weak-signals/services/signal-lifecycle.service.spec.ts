@@ -0,0 +1,190 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { SignalLifecycleService } from './signal-lifecycle.service';
+import { SignalSlaService } from './signal-sla.service';
+import { SignalActivityService } from './signal-activity.service';
+import { WeakSignal } from '../entities/weak-signal.entity';
+import { WeakSignalHistory } from '../entities/weak-signal-history.entity';
+
+describe('SignalLifecycleService', () => {
+  let service: SignalLifecycleService;
+
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  const mockWeakSignalRepository = {
+    find: jest.fn(),
+    save: jest.fn((signals) => Promise.resolve(signals)),
+  };
+
+  const mockHistoryRepository = {
+    create: jest.fn((entry) => entry),
+    save: jest.fn((entries) => Promise.resolve(entries)),
+    find: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn(() => undefined),
+  };
+
+  const mockSlaService = {
+    startClock: jest.fn(),
+  };
+
+  const mockActivityService = {
+    recordMany: jest.fn((tenantId, entries) => Promise.resolve(entries)),
+  };
+
+  const buildSignal = (overrides: Partial<WeakSignal>): WeakSignal =>
+    ({
+      id: 1,
+      tenantId: 1,
+      signalType: 'pattern_recurring',
+      severity: 'medium',
+      confidenceScore: 80,
+      detectedConfidenceScore: 80,
+      status: 'new',
+      missedRuns: 0,
+      sourceSignals: [],
+      patternData: null,
+      trendData: null,
+      metadata: null,
+      detectedAt: new Date(),
+      lastDetectedAt: new Date(),
+      ...overrides,
+    }) as WeakSignal;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SignalLifecycleService,
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: getRepositoryToken(WeakSignal), useValue: mockWeakSignalRepository },
+        { provide: getRepositoryToken(WeakSignalHistory), useValue: mockHistoryRepository },
+        { provide: SignalSlaService, useValue: mockSlaService },
+        { provide: SignalActivityService, useValue: mockActivityService },
+      ],
+    }).compile();
+
+    service = module.get<SignalLifecycleService>(SignalLifecycleService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('applyLifecycle', () => {
+    it('should resolve a signal missing for three consecutive runs', async () => {
+      const quiet = buildSignal({ id: 5, missedRuns: 2, signalType: 'trend_acceleration' });
+      mockWeakSignalRepository.find.mockResolvedValueOnce([quiet]);
+
+      const summary = await service.applyLifecycle(1, [], 9);
+
+      expect(summary.resolved).toBe(1);
+      expect(quiet.status).toBe('resolved');
+      expect(quiet.resolvedAt).toBeInstanceOf(Date);
+      const [transitions] = mockHistoryRepository.save.mock.calls[0];
+      expect(transitions[0]).toMatchObject({
+        weakSignalId: 5,
+        detectionRunId: 9,
+        changeType: 'resolved',
+        changes: [{ field: 'status', previous: 'new', current: 'resolved' }],
+      });
+      expect(transitions[0].reason).toContain('Trend returned to baseline');
+    });
+
+    it('should only count a missed run before the resolve threshold', async () => {
+      const quiet = buildSignal({ id: 5, missedRuns: 0 });
+      mockWeakSignalRepository.find.mockResolvedValueOnce([quiet]);
+
+      const summary = await service.applyLifecycle(1, [], 9);
+
+      expect(summary.resolved).toBe(0);
+      expect(quiet.missedRuns).toBe(1);
+      expect(quiet.status).toBe('new');
+      expect(mockHistoryRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should expire signals that have been quiet past the expiry window', async () => {
+      const stale = buildSignal({ id: 6, lastDetectedAt: new Date(Date.now() - 45 * DAY_MS) });
+      mockWeakSignalRepository.find.mockResolvedValueOnce([stale]);
+
+      const summary = await service.applyLifecycle(1, [], 9);
+
+      expect(summary.expired).toBe(1);
+      expect(stale.status).toBe('expired');
+    });
+
+    it('should decay confidence with a 14 day half-life', async () => {
+      const fading = buildSignal({ id: 7, lastDetectedAt: new Date(Date.now() - 14 * DAY_MS) });
+      mockWeakSignalRepository.find.mockResolvedValueOnce([fading]);
+
+      const summary = await service.applyLifecycle(1, [], 9);
+
+      expect(summary.decayed).toBe(1);
+      expect(Number(fading.confidenceScore)).toBeCloseTo(40, 0);
+    });
+
+    it('should not count missed runs for signals of disabled detectors', async () => {
+      const trend = buildSignal({ id: 5, missedRuns: 2, signalType: 'trend_acceleration' });
+      const stale = buildSignal({ id: 6, signalType: 'anomaly_detection', lastDetectedAt: new Date(Date.now() - 45 * DAY_MS) });
+      mockWeakSignalRepository.find.mockResolvedValueOnce([trend, stale]);
+
+      const summary = await service.applyLifecycle(1, [], 9, ['pattern', 'correlation']);
+
+      expect(summary).toEqual({ resolved: 0, expired: 0, reopened: 0, decayed: 0 });
+      expect(trend).toMatchObject({ status: 'new', missedRuns: 2 });
+      expect(stale.status).toBe('new');
+      expect(mockHistoryRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should leave re-detected signals alone', async () => {
+      const live = buildSignal({ id: 8 });
+      mockWeakSignalRepository.find.mockResolvedValueOnce([live]);
+
+      const summary = await service.applyLifecycle(1, [live], 9);
+
+      expect(summary).toEqual({ resolved: 0, expired: 0, reopened: 0, decayed: 0 });
+      expect(live.missedRuns).toBe(0);
+    });
+
+    it('should reopen a resolved signal that reappears', async () => {
+      const back = buildSignal({ id: 9, status: 'resolved', resolvedAt: new Date() });
+      mockWeakSignalRepository.find.mockResolvedValueOnce([]);
+
+      const summary = await service.applyLifecycle(1, [back], 9);
+
+      expect(summary.reopened).toBe(1);
+      expect(back.status).toBe('new');
+      expect(back.resolvedAt).toBeNull();
+      expect(mockSlaService.startClock).toHaveBeenCalledWith(back, expect.any(Date));
+      expect(mockActivityService.recordMany).toHaveBeenCalledWith(1, [
+        {
+          target: { weakSignalId: 9 },
+          activityType: 'status_changed',
+          details: expect.objectContaining({ previousStatus: 'resolved', status: 'new', actor: 'system', detectionRunId: 9 }),
+          actorId: null,
+        },
+      ]);
+    });
+
+    it('should reopen a dismissed signal only when the evidence is stronger', async () => {
+      const dismissedSnapshot = { severity: 'medium', confidenceScore: 70, occurrences: 4, evidenceCount: 4, currentValue: null };
+      const same = buildSignal({ id: 10, status: 'dismissed', confidenceScore: 74, metadata: { dismissedSnapshot } });
+      const stronger = buildSignal({ id: 11, status: 'dismissed', severity: 'high', metadata: { dismissedSnapshot } });
+      mockWeakSignalRepository.find.mockResolvedValueOnce([]);
+
+      const summary = await service.applyLifecycle(1, [same, stronger], 9);
+
+      expect(summary.reopened).toBe(1);
+      expect(same.status).toBe('dismissed');
+      expect(stronger.status).toBe('new');
+      const [transitions] = mockHistoryRepository.save.mock.calls[0];
+      expect(transitions[0].reason).toBe('Severity increased from medium to high since dismissal');
+    });
+  });
+});
@@ -0,0 +1,297 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import { WeakSignal, SignalSeverity, SignalStatus, SignalType } from '../entities/weak-signal.entity';
+import { WeakSignalHistory, SignalHistoryChangeType } from '../entities/weak-signal-history.entity';
+import { DetectorName } from '../interfaces/detection-settings.interface';
+import { SignalSlaService } from './signal-sla.service';
+import { SignalActivityService } from './signal-activity.service';
+import { DEFAULT_DETECTION_SETTINGS } from './detection-settings.service';
+
+export interface LifecycleSummary {
+  resolved: number;
+  expired: number;
+  reopened: number;
+  decayed: number;
+}
+
+/**
+ * Statuses that still belong in the triage queue.
+ */
+export const LIVE_SIGNAL_STATUSES: SignalStatus[] = ['new', 'investigating', 'validated', 'escalated'];
+
+/**
+ * Statuses a signal ends up in once it has gone quiet.
+ */
+export const INACTIVE_SIGNAL_STATUSES: SignalStatus[] = ['resolved', 'expired'];
+
+const TRANSITION_TYPES: SignalHistoryChangeType[] = ['resolved', 'expired', 'reopened'];
+
+const SEVERITY_RANK: Record<SignalSeverity, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+  critical: 4,
+};
+
+/**
+ * Detector that produces each signal type; signals of disabled detectors are left alone.
+ */
+const SIGNAL_TYPE_DETECTORS: Record<SignalType, DetectorName> = {
+  pattern_recurring: 'pattern',
+  trend_acceleration: 'trend',
+  anomaly_detection: 'anomaly',
+  correlation_cluster: 'correlation',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Actor shown in the activity feed for transitions made by the lifecycle rules
+ */
+const SYSTEM_ACTOR = 'system';
+
+@Injectable()
+export class SignalLifecycleService {
+  private readonly logger = new Logger(SignalLifecycleService.name);
+  private readonly resolveAfterRuns: number;
+  private readonly expireAfterDays: number;
+  private readonly confidenceHalfLifeDays: number;
+  private readonly reopenConfidenceMargin: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(WeakSignal)
+    private readonly weakSignalRepository: Repository<WeakSignal>,
+    @InjectRepository(WeakSignalHistory)
+    private readonly signalHistoryRepository: Repository<WeakSignalHistory>,
+    private readonly signalSlaService: SignalSlaService,
+    private readonly signalActivityService: SignalActivityService,
+  ) {
+    this.resolveAfterRuns = parseInt(this.configService.get<string>('WEAK_SIGNAL_RESOLVE_AFTER_RUNS') || '3', 10);
+    this.expireAfterDays = parseInt(this.configService.get<string>('WEAK_SIGNAL_EXPIRE_AFTER_DAYS') || '30', 10);
+    this.confidenceHalfLifeDays = parseFloat(this.configService.get<string>('WEAK_SIGNAL_CONFIDENCE_HALF_LIFE_DAYS') || '14');
+    this.reopenConfidenceMargin = parseFloat(this.configService.get<string>('WEAK_SIGNAL_REOPEN_CONFIDENCE_MARGIN') || '10');
+  }
+
+  /**
+   * Apply lifecycle rules after a detection run:
+   * - re-detected resolved/expired signals, and dismissed signals with stronger evidence, are reopened
+   * - live signals that were not re-detected decay in confidence
+   * - live signals missing for N consecutive runs are resolved, and those quiet for too long expire
+   * Signals of detectors that did not run are not counted as missed.
+   */
+  async applyLifecycle(
+    tenantId: number,
+    detectedSignals: WeakSignal[],
+    detectionRunId: number | null,
+    enabledDetectors: DetectorName[] = DEFAULT_DETECTION_SETTINGS.enabledDetectors,
+  ): Promise<LifecycleSummary> {
+    const now = new Date();
+    const summary: LifecycleSummary = { resolved: 0, expired: 0, reopened: 0, decayed: 0 };
+    const transitions: WeakSignalHistory[] = [];
+    const toSave: WeakSignal[] = [];
+
+    // Re-detected signals
+    for (const signal of detectedSignals) {
+      const reason = this.getReopenReason(signal);
+      if (!reason) {
+        continue;
+      }
+
+      transitions.push(this.createTransition(tenantId, signal, 'reopened', 'new', reason, detectionRunId, now));
+      signal.status = 'new';
+      signal.resolvedAt = null;
+      this.signalSlaService.startClock(signal, now);
+      toSave.push(signal);
+      summary.reopened++;
+    }
+
+    // Live signals that were not re-detected in this run
+    const detectedIds = new Set(detectedSignals.map(s => s.id));
+    const liveSignals = await this.weakSignalRepository.find({
+      where: { tenantId, status: In(LIVE_SIGNAL_STATUSES) },
+    });
+
+    const enabled = new Set(enabledDetectors);
+    const missedSignals = liveSignals.filter(
+      s => !detectedIds.has(s.id) && enabled.has(SIGNAL_TYPE_DETECTORS[s.signalType]),
+    );
+
+    for (const signal of missedSignals) {
+      signal.missedRuns = (signal.missedRuns || 0) + 1;
+
+      if (this.decayConfidence(signal, now)) {
+        summary.decayed++;
+      }
+
+      const lastSeen = new Date(signal.lastDetectedAt || signal.detectedAt);
+      const quietDays = Math.floor((now.getTime() - lastSeen.getTime()) / DAY_MS);
+
+      if (quietDays >= this.expireAfterDays) {
+        const reason = `Not detected for ${quietDays} days (expiry after ${this.expireAfterDays} days)`;
+        transitions.push(this.createTransition(tenantId, signal, 'expired', 'expired', reason, detectionRunId, now));
+        signal.status = 'expired';
+        signal.resolvedAt = now;
+        summary.expired++;
+      } else if (signal.missedRuns >= this.resolveAfterRuns) {
+        const reason = `${this.describeQuietSignal(signal)} for ${signal.missedRuns} consecutive detection runs`;
+        transitions.push(this.createTransition(tenantId, signal, 'resolved', 'resolved', reason, detectionRunId, now));
+        signal.status = 'resolved';
+        signal.resolvedAt = now;
+        summary.resolved++;
+      }
+
+      toSave.push(signal);
+    }
+
+    if (toSave.length > 0) {
+      await this.weakSignalRepository.save(toSave);
+    }
+
+    if (transitions.length > 0) {
+      await this.signalHistoryRepository.save(transitions);
+
+      // Automatic transitions show up in the feed next to the manual ones, with no user as actor
+      await this.signalActivityService.recordMany(
+        tenantId,
+        transitions.map(transition => ({
+          target: { weakSignalId: transition.weakSignalId },
+          activityType: 'status_changed',
+          details: {
+            previousStatus: transition.changes[0].previous,
+            status: transition.changes[0].current,
+            notes: null,
+            reason: transition.reason,
+            actor: SYSTEM_ACTOR,
+            detectionRunId,
+          },
+          actorId: null,
+        })),
+      );
+    }
+
+    this.logger.log(
+      `Lifecycle for tenant ${tenantId}: ${summary.resolved} resolved, ${summary.expired} expired, ` +
+      `${summary.reopened} reopened, ${summary.decayed} decayed`
+    );
+
+    return summary;
+  }
+
+  /**
+   * Get lifecycle transitions for a tenant, newest first
+   */
+  async getTransitions(
+    tenantId: number,
+    options?: { detectionRunId?: number; limit?: number },
+  ): Promise<WeakSignalHistory[]> {
+    return await this.signalHistoryRepository.find({
+      where: {
+        tenantId,
+        changeType: In(TRANSITION_TYPES),
+        ...(options?.detectionRunId ? { detectionRunId: options.detectionRunId } : {}),
+      },
+      order: { recordedAt: 'DESC', id: 'DESC' },
+      take: options?.limit || 100,
+    });
+  }
+
+  /**
+   * Decay confidence exponentially from the last detected value
+   */
+  private decayConfidence(signal: WeakSignal, now: Date): boolean {
+    const lastSeen = new Date(signal.lastDetectedAt || signal.detectedAt);
+    const ageDays = Math.max(0, (now.getTime() - lastSeen.getTime()) / DAY_MS);
+    const baseConfidence = Number(signal.detectedConfidenceScore ?? signal.confidenceScore);
+    const decayed = Number((baseConfidence * Math.pow(0.5, ageDays / this.confidenceHalfLifeDays)).toFixed(2));
+
+    if (decayed >= Number(signal.confidenceScore)) {
+      return false;
+    }
+
+    signal.confidenceScore = decayed;
+    return true;
+  }
+
+  /**
+   * Decide whether a re-detected signal should go back into the triage queue
+   */
+  private getReopenReason(signal: WeakSignal): string | null {
+    if (signal.status === 'resolved' || signal.status === 'expired') {
+      return `Re-detected after being ${signal.status}`;
+    }
+
+    if (signal.status !== 'dismissed') {
+      return null;
+    }
+
+    // Dismissed signals only come back when the evidence is stronger than when they were dismissed
+    const dismissed: WeakSignalHistory['snapshot'] | undefined = signal.metadata?.dismissedSnapshot;
+    if (!dismissed) {
+      return null;
+    }
+
+    if (SEVERITY_RANK[signal.severity] > SEVERITY_RANK[dismissed.severity]) {
+      return `Severity increased from ${dismissed.severity} to ${signal.severity} since dismissal`;
+    }
+
+    const confidence = Number(signal.confidenceScore);
+    if (confidence >= dismissed.confidenceScore + this.reopenConfidenceMargin) {
+      return `Confidence rose from ${dismissed.confidenceScore.toFixed(1)}% to ${confidence.toFixed(1)}% since dismissal`;
+    }
+
+    const occurrences = signal.patternData ? Number(signal.patternData.occurrences) : null;
+    if (occurrences !== null && dismissed.occurrences && occurrences >= dismissed.occurrences * 1.5) {
+      return `Occurrences grew from ${dismissed.occurrences} to ${occurrences} since dismissal`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Explain why a signal counts as quiet
+   */
+  private describeQuietSignal(signal: WeakSignal): string {
+    switch (signal.signalType) {
+      case 'pattern_recurring':
+        return 'Pattern stopped recurring';
+      case 'trend_acceleration':
+        return 'Trend returned to baseline';
+      case 'anomaly_detection':
+        return 'No further anomalies';
+      case 'correlation_cluster':
+        return 'Correlated signals no longer co-occur';
+      default:
+        return 'Not re-detected';
+    }
+  }
+
+  private createTransition(
+    tenantId: number,
+    signal: WeakSignal,
+    changeType: SignalHistoryChangeType,
+    newStatus: SignalStatus,
+    reason: string,
+    detectionRunId: number | null,
+    recordedAt: Date,
+  ): WeakSignalHistory {
+    return this.signalHistoryRepository.create({
+      tenantId,
+      weakSignalId: signal.id,
+      detectionRunId,
+      changeType,
+      snapshot: {
+        severity: signal.severity,
+        confidenceScore: Number(signal.confidenceScore),
+        occurrences: signal.patternData ? Number(signal.patternData.occurrences) : null,
+        evidenceCount: (signal.sourceSignals || []).length,
+        currentValue: signal.trendData ? Number(signal.trendData.current) : null,
+      },
+      changes: [{ field: 'status', previous: signal.status, current: newStatus }],
+      reason,
+      recordedAt,
+    });
+  }
+}
@@ -0,0 +1,148 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { SignalSlaService } from './signal-sla.service';
+import { WeakSignal } from '../entities/weak-signal.entity';
+import { User } from '../../users/entities/user.entity';
+import { AlertOrchestratorService } from '../../email/services/alert-orchestrator.service';
+import { SignalActivityService } from './signal-activity.service';
+
+describe('SignalSlaService', () => {
+  let service: SignalSlaService;
+
+  const HOUR_MS = 60 * 60 * 1000;
+  const now = new Date('2026-04-01T12:00:00.000Z');
+
+  const mockWeakSignalRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+    save: jest.fn((signal) => Promise.resolve(signal)),
+  };
+  const mockUserRepository = { findOne: jest.fn() };
+  const mockAlertOrchestrator = { processSlaBreach: jest.fn(() => Promise.resolve(1)) };
+  const mockActivityService = { record: jest.fn() };
+  const mockConfigService = {
+    get: jest.fn((key: string) => (key === 'WEAK_SIGNAL_SLA_HOURS_HIGH' ? '12' : undefined)),
+  };
+
+  const buildSignal = (overrides: Partial<WeakSignal>): WeakSignal =>
+    ({
+      id: 1,
+      tenantId: 1,
+      severity: 'critical',
+      status: 'new',
+      assigneeId: null,
+      assignedTeam: null,
+      assignedAt: null,
+      assignedBy: null,
+      triagedAt: null,
+      slaDueAt: null,
+      slaBreachedAt: null,
+      ...overrides,
+    }) as WeakSignal;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SignalSlaService,
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: SchedulerRegistry, useValue: { addCronJob: jest.fn() } },
+        { provide: getRepositoryToken(WeakSignal), useValue: mockWeakSignalRepository },
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        { provide: AlertOrchestratorService, useValue: mockAlertOrchestrator },
+        { provide: SignalActivityService, useValue: mockActivityService },
+      ],
+    }).compile();
+
+    service = module.get<SignalSlaService>(SignalSlaService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should use configured hours per severity with defaults for the rest', () => {
+    expect(service.getPolicy()).toEqual({ critical: 4, high: 12, medium: 72, low: 168 });
+  });
+
+  it('should start the clock from the severity and only bring it forward on re-detection', () => {
+    const signal = buildSignal({ severity: 'medium' });
+    service.startClock(signal, now);
+    expect(signal.slaDueAt).toEqual(new Date(now.getTime() + 72 * HOUR_MS));
+
+    // Escalated to critical an hour later: due 4h from then
+    const later = new Date(now.getTime() + HOUR_MS);
+    signal.severity = 'critical';
+    service.refreshClock(signal, later);
+    expect(signal.slaDueAt).toEqual(new Date(later.getTime() + 4 * HOUR_MS));
+
+    // Downgraded again: the earlier deadline stays
+    signal.severity = 'low';
+    service.refreshClock(signal, new Date(later.getTime() + HOUR_MS));
+    expect(signal.slaDueAt).toEqual(new Date(later.getTime() + 4 * HOUR_MS));
+  });
+
+  it('should report on track, at risk, breached and met', () => {
+    const dueAt = new Date(now.getTime() + 4 * HOUR_MS);
+
+    expect(service.getSlaStatus(buildSignal({ slaDueAt: dueAt }), now)).toBe('on_track');
+    expect(service.getSlaStatus(buildSignal({ slaDueAt: dueAt }), new Date(dueAt.getTime() - 30 * 60 * 1000))).toBe('at_risk');
+    expect(service.getSlaStatus(buildSignal({ slaDueAt: dueAt }), new Date(dueAt.getTime() + 1))).toBe('breached');
+    expect(service.getSlaStatus(buildSignal({ status: 'investigating', slaDueAt: dueAt, triagedAt: now }), now)).toBe('met');
+    expect(service.getSlaStatus(buildSignal({ slaDueAt: null }), now)).toBeNull();
+  });
+
+  it('should record a late triage as a breach', () => {
+    const signal = buildSignal({ slaDueAt: new Date(now.getTime() - HOUR_MS) });
+
+    service.markTriaged(signal, now);
+
+    expect(signal.triagedAt).toEqual(now);
+    expect(signal.slaBreachedAt).toEqual(now);
+  });
+
+  it('should alert each breach once, only for the instance that claims it', async () => {
+    const first = buildSignal({ id: 1, slaDueAt: new Date(now.getTime() - HOUR_MS) });
+    const second = buildSignal({ id: 2, slaDueAt: new Date(now.getTime() - 2 * HOUR_MS) });
+    mockWeakSignalRepository.find.mockResolvedValueOnce([second, first]);
+    mockWeakSignalRepository.update
+      .mockResolvedValueOnce({ affected: 1 })
+      .mockResolvedValueOnce({ affected: 0 });
+
+    const breached = await service.detectBreaches(now);
+
+    expect(breached).toEqual([second]);
+    expect(second.slaBreachedAt).toEqual(now);
+    expect(mockAlertOrchestrator.processSlaBreach).toHaveBeenCalledTimes(1);
+    expect(mockAlertOrchestrator.processSlaBreach).toHaveBeenCalledWith(second);
+  });
+
+  it('should assign users of the tenant and reject others', async () => {
+    mockWeakSignalRepository.findOne
+      .mockResolvedValueOnce(buildSignal({}))
+      .mockResolvedValueOnce(buildSignal({}));
+    mockUserRepository.findOne.mockResolvedValueOnce({ id: 7, tenantId: 1 });
+
+    const assigned = await service.assign(1, 1, { assigneeId: 7, team: ' SRE ' }, 3);
+
+    expect(mockUserRepository.findOne).toHaveBeenCalledWith({ where: { id: 7, tenantId: 1 } });
+    expect(assigned).toMatchObject({ assigneeId: 7, assignedTeam: 'SRE', assignedBy: 3 });
+    expect(assigned.assignedAt).toBeInstanceOf(Date);
+    expect(mockActivityService.record).toHaveBeenCalledWith(
+      1,
+      { weakSignalId: 1 },
+      'assignment_changed',
+      { previousAssigneeId: null, assigneeId: 7, previousTeam: null, team: 'SRE' },
+      3,
+    );
+
+    mockUserRepository.findOne.mockResolvedValueOnce(null);
+    await expect(service.assign(1, 1, { assigneeId: 99 }, 3)).rejects.toThrow(BadRequestException);
+
+    mockWeakSignalRepository.findOne.mockResolvedValueOnce(null);
+    await expect(service.assign(1, 404, { team: 'SRE' }, 3)).rejects.toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,251 @@
+import { Injectable, Logger, OnModuleInit, BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, IsNull, LessThanOrEqual } from 'typeorm';
+import { CronJob } from 'cron';
+import { WeakSignal } from '../entities/weak-signal.entity';
+import { User } from '../../users/entities/user.entity';
+import { AlertOrchestratorService } from '../../email/services/alert-orchestrator.service';
+import { SlaPolicy, SlaStatus } from '../interfaces/sla.interface';
+import { SignalActivityService } from './signal-activity.service';
+
+const DEFAULT_SLA_HOURS: SlaPolicy = {
+  critical: 4,
+  high: 24,
+  medium: 72,
+  low: 168,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Share of the SLA window left below which a new signal is at risk
+ */
+const AT_RISK_REMAINING_SHARE = 0.25;
+
+/**
+ * Signals checked per breach scan, so a backlog is worked off over several scans
+ */
+const BREACH_BATCH_SIZE = 500;
+
+/**
+ * Ownership and triage SLAs of weak signals. A signal must leave the new status within the
+ * SLA hours of its severity; signals still new after the deadline are marked as breached
+ * and handed to the alert engine.
+ */
+@Injectable()
+export class SignalSlaService implements OnModuleInit {
+  private readonly logger = new Logger(SignalSlaService.name);
+  private readonly enabled: boolean;
+  private readonly cronSchedule: string;
+  private readonly policy: SlaPolicy;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    @InjectRepository(WeakSignal)
+    private readonly weakSignalRepository: Repository<WeakSignal>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly alertOrchestratorService: AlertOrchestratorService,
+    private readonly signalActivityService: SignalActivityService,
+  ) {
+    this.enabled = this.configService.get<string>('WEAK_SIGNAL_SLA_ENABLED') !== 'false';
+    this.cronSchedule = this.configService.get<string>('WEAK_SIGNAL_SLA_CHECK_CRON_SCHEDULE') || '0 */5 * * * *';
+    this.policy = {
+      critical: this.readHours('WEAK_SIGNAL_SLA_HOURS_CRITICAL', DEFAULT_SLA_HOURS.critical),
+      high: this.readHours('WEAK_SIGNAL_SLA_HOURS_HIGH', DEFAULT_SLA_HOURS.high),
+      medium: this.readHours('WEAK_SIGNAL_SLA_HOURS_MEDIUM', DEFAULT_SLA_HOURS.medium),
+      low: this.readHours('WEAK_SIGNAL_SLA_HOURS_LOW', DEFAULT_SLA_HOURS.low),
+    };
+  }
+
+  onModuleInit() {
+    if (!this.enabled) {
+      this.logger.log('Weak signal SLA checks are disabled');
+      return;
+    }
+
+    try {
+      const job = new CronJob(this.cronSchedule, () => {
+        this.detectBreaches().catch(error => this.logger.error(`SLA check failed: ${error.message}`, error.stack));
+      });
+
+      this.schedulerRegistry.addCronJob('weak-signal-sla-check', job);
+      job.start();
+
+      this.logger.log(`Weak signal SLA check started with schedule: ${this.cronSchedule}`);
+    } catch (error) {
+      this.logger.error(`Failed to start weak signal SLA check: ${error.message}`, error.stack);
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  getPolicy(): SlaPolicy {
+    return { ...this.policy };
+  }
+
+  /**
+   * Start a fresh SLA window for a signal that (re-)entered the new status
+   */
+  startClock(signal: WeakSignal, now: Date = new Date()): void {
+    signal.slaDueAt = new Date(now.getTime() + this.policy[signal.severity] * HOUR_MS);
+    signal.slaBreachedAt = null;
+    signal.triagedAt = null;
+  }
+
+  /**
+   * Keep the deadline of a re-detected signal in line with its current severity.
+   * An escalation never extends the deadline, it can only bring it forward.
+   */
+  refreshClock(signal: WeakSignal, now: Date = new Date()): void {
+    if (signal.status !== 'new') {
+      return;
+    }
+
+    if (!signal.slaDueAt) {
+      this.startClock(signal, now);
+      return;
+    }
+
+    const severityDeadline = new Date(now.getTime() + this.policy[signal.severity] * HOUR_MS);
+    if (severityDeadline.getTime() < new Date(signal.slaDueAt).getTime()) {
+      signal.slaDueAt = severityDeadline;
+    }
+  }
+
+  /**
+   * Record that a signal left the new status, which stops its SLA clock.
+   * A late triage counts as a breach even if no breach scan caught it in between.
+   */
+  markTriaged(signal: WeakSignal, now: Date = new Date()): void {
+    signal.triagedAt = now;
+    if (signal.slaDueAt && !signal.slaBreachedAt && now.getTime() > new Date(signal.slaDueAt).getTime()) {
+      signal.slaBreachedAt = now;
+    }
+  }
+
+  getSlaStatus(signal: WeakSignal, now: Date = new Date()): SlaStatus | null {
+    if (!signal.slaDueAt) {
+      return null;
+    }
+
+    const dueAt = new Date(signal.slaDueAt).getTime();
+
+    if (signal.status !== 'new') {
+      if (!signal.triagedAt) {
+        return null;
+      }
+      return new Date(signal.triagedAt).getTime() <= dueAt ? 'met' : 'breached';
+    }
+
+    if (signal.slaBreachedAt || now.getTime() > dueAt) {
+      return 'breached';
+    }
+
+    const windowMs = this.policy[signal.severity] * HOUR_MS;
+    return dueAt - now.getTime() <= windowMs * AT_RISK_REMAINING_SHARE ? 'at_risk' : 'on_track';
+  }
+
+  /**
+   * Assign a signal to a user and/or a team. Null clears the assignee or team.
+   */
+  async assign(
+    tenantId: number,
+    signalId: number,
+    assignment: { assigneeId?: number | null; team?: string | null },
+    assignedBy: number | null,
+  ): Promise<WeakSignal> {
+    const signal = await this.weakSignalRepository.findOne({ where: { id: signalId, tenantId } });
+    if (!signal) {
+      throw new NotFoundException('Weak signal not found');
+    }
+
+    const previousAssigneeId = signal.assigneeId;
+    const previousTeam = signal.assignedTeam;
+
+    if (assignment.assigneeId !== undefined) {
+      if (assignment.assigneeId !== null) {
+        const user = await this.userRepository.findOne({ where: { id: assignment.assigneeId, tenantId } });
+        if (!user) {
+          throw new BadRequestException(`User ${assignment.assigneeId} does not belong to this tenant`);
+        }
+      }
+      signal.assigneeId = assignment.assigneeId;
+    }
+
+    if (assignment.team !== undefined) {
+      signal.assignedTeam = assignment.team ? assignment.team.trim() : null;
+    }
+
+    const isAssigned = signal.assigneeId !== null || signal.assignedTeam !== null;
+    signal.assignedAt = isAssigned ? new Date() : null;
+    signal.assignedBy = isAssigned ? assignedBy : null;
+
+    this.logger.log(
+      `Signal ${signalId} assigned to ${signal.assigneeId !== null ? `user ${signal.assigneeId}` : 'no user'}` +
+      `${signal.assignedTeam ? ` / team ${signal.assignedTeam}` : ''}`,
+    );
+
+    const saved = await this.weakSignalRepository.save(signal);
+
+    await this.signalActivityService.record(
+      tenantId,
+      { weakSignalId: signalId },
+      'assignment_changed',
+      { previousAssigneeId, assigneeId: saved.assigneeId, previousTeam, team: saved.assignedTeam },
+      assignedBy,
+    );
+
+    return saved;
+  }
+
+  /**
+   * Mark new signals past their SLA deadline as breached and surface each breach to the
+   * alert engine once. Safe to run on several instances: a breach is only claimed by the
+   * instance whose conditional update succeeds.
+   */
+  async detectBreaches(now: Date = new Date(), tenantId?: number): Promise<WeakSignal[]> {
+    const candidates = await this.weakSignalRepository.find({
+      where: {
+        ...(tenantId !== undefined ? { tenantId } : {}),
+        status: 'new',
+        slaDueAt: LessThanOrEqual(now),
+        slaBreachedAt: IsNull(),
+      },
+      order: { slaDueAt: 'ASC' },
+      take: BREACH_BATCH_SIZE,
+    });
+
+    const breached: WeakSignal[] = [];
+
+    for (const signal of candidates) {
+      const result = await this.weakSignalRepository.update(
+        { id: signal.id, status: 'new', slaBreachedAt: IsNull() },
+        { slaBreachedAt: now },
+      );
+      if (!result.affected) {
+        continue;
+      }
+
+      signal.slaBreachedAt = now;
+      breached.push(signal);
+      await this.alertOrchestratorService.processSlaBreach(signal);
+    }
+
+    if (breached.length > 0) {
+      this.logger.warn(`${breached.length} weak signals breached their triage SLA`);
+    }
+
+    return breached;
+  }
+
+  private readHours(key: string, fallback: number): number {
+    const hours = parseFloat(this.configService.get<string>(key) || '');
+    return isFinite(hours) && hours > 0 ? hours : fallback;
+  }
+}
@@ -0,0 +1,75 @@
+import { Injectable } from '@nestjs/common';
+import { HypothesisDraft, HypothesisLlmProvider, HypothesisLlmRequest } from '../interfaces/hypothesis-llm.interface';
+
+/**
+ * Offline provider that answers with a deterministic, schema-valid draft built from
+ * the request context. Used in development and tests where no model is reachable.
+ */
+@Injectable()
+export class StubHypothesisProvider implements HypothesisLlmProvider {
+  readonly name = 'stub' as const;
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async getModelName(): Promise<string> {
+    return 'local-stub-v1';
+  }
+
+  async complete(request: HypothesisLlmRequest): Promise<string> {
+    const { signal, context, hypothesisType } = request;
+    const relatedSignals = context.signals.filter(s => s.id !== signal.id.toString());
+    const recentEvents = context.timeline.slice(0, 3);
+
+    const draft: HypothesisDraft = {
+      hypothesis: `The ${signal.signalType.replace(/_/g, ' ')} "${signal.title}" may be related to ` +
+        `${relatedSignals.length} recent signals and ${recentEvents.length} timeline events (${hypothesisType}).`,
+      confidence: Math.min(80, 40 + relatedSignals.length * 5 + recentEvents.length * 5),
+      reasoningSteps: [
+        {
+          step: 1,
+          thought: 'Reviewing the signal and related signals in the same category',
+          evidence: relatedSignals.map(s => `signal:${s.id}`),
+          conclusion: `${relatedSignals.length} related signals found`,
+        },
+        {
+          step: 2,
+          thought: 'Checking recent timeline events around the detection date',
+          evidence: recentEvents.map(e => `event:${e.eventId}`),
+          conclusion: `${recentEvents.length} recent events may be relevant`,
+        },
+      ],
+      alternatives: ['The signals may be coincidental'],
+      limitations: ['Generated by the offline stub provider'],
+      supportingEvidence: relatedSignals.map(s => ({
+        type: 'related_signal',
+        description: s.description,
+        strength: 60,
+        source: s.type,
+        timestamp: s.timestamp,
+      })),
+      guardrails: {
+        notClaimingRootCause: true,
+        disclaimers: ['This hypothesis has not been validated'],
+        requiresValidation: ['Manual review of related signals'],
+        assumptions: ['Context data is complete for the analyzed period'],
+        limitations: ['Relationships are inferred from co-occurrence only'],
+      },
+      validationSteps: [
+        {
+          step: 1,
+          action: 'Review the related signals and timeline events',
+          expectedOutcome: 'Confirm or rule out a shared cause',
+          difficulty: 'easy',
+        },
+      ],
+      predictedImpact: {
+        potentialConsequences: ['Signal may recur if unaddressed'],
+        mitigationSuggestions: ['Monitor related signals'],
+      },
+    };
+
+    return JSON.stringify(draft);
+  }
+}
@@ -0,0 +1,118 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { TextSimilarityService } from './text-similarity.service';
+import { LocalSimilarityService } from './local-similarity.service';
+import { EmbeddingSimilarityService } from './embedding-similarity.service';
+
+describe('TextSimilarityService', () => {
+  let service: TextSimilarityService;
+
+  const config: Record<string, string> = {};
+
+  const mockConfigService = {
+    get: jest.fn((key: string) => config[key]),
+  };
+
+  const mockEmbeddingService = {
+    name: 'openai',
+    isAvailable: jest.fn(() => true),
+    findSimilarPairs: jest.fn(),
+  };
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TextSimilarityService,
+        LocalSimilarityService,
+        { provide: EmbeddingSimilarityService, useValue: mockEmbeddingService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    return module.get<TextSimilarityService>(TextSimilarityService);
+  };
+
+  const item = (id: string, text: string, daysAgo: number) => ({
+    id,
+    text,
+    date: new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000),
+  });
+
+  beforeEach(async () => {
+    for (const key of Object.keys(config)) {
+      delete config[key];
+    }
+    service = await createService();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should group paraphrased texts with the local backend', async () => {
+    const groups = await service.groupBySimilarity(
+      [
+        item('1', 'DB connection pool exhausted', 5),
+        item('2', 'Database connection pool exhaustion on checkout', 3),
+        item('3', 'Login page shows wrong logo colour', 2),
+      ],
+      'jira',
+    );
+
+    const grouped = Object.values(groups).map(group => group.map(i => i.id).sort());
+    expect(grouped).toContainEqual(['1', '2']);
+    expect(grouped).toContainEqual(['3']);
+    expect(mockEmbeddingService.findSimilarPairs).not.toHaveBeenCalled();
+  });
+
+  it('should keep group signatures stable across runs', async () => {
+    const items = [item('1', 'Payment service timeout', 4), item('2', 'Payment service timeouts', 1)];
+
+    const first = await service.groupBySimilarity(items, 'servicenow');
+    const second = await service.groupBySimilarity([...items].reverse(), 'servicenow');
+
+    expect(Object.keys(first)).toEqual(Object.keys(second));
+  });
+
+  it('should apply per-source threshold overrides', async () => {
+    config.WEAK_SIGNAL_SIMILARITY_THRESHOLD_JIRA = '0.99';
+    service = await createService();
+
+    expect(service.getThreshold('jira')).toBe(0.99);
+    expect(service.getThreshold('timeline')).toBe(0.6);
+
+    const groups = await service.groupBySimilarity(
+      [item('1', 'DB connection pool exhausted', 5), item('2', 'Database connection pool exhaustion on checkout', 3)],
+      'jira',
+    );
+    expect(Object.keys(groups)).toHaveLength(2);
+  });
+
+  it('should fall back to the local backend when embeddings fail', async () => {
+    config.WEAK_SIGNAL_SIMILARITY_BACKEND = 'openai';
+    service = await createService();
+    mockEmbeddingService.findSimilarPairs.mockRejectedValueOnce(new Error('network unreachable'));
+
+    const groups = await service.groupBySimilarity(
+      [item('1', 'DB connection pool exhausted', 5), item('2', 'Database connection pool exhaustion on checkout', 3)],
+      'jira',
+      { tenantId: 1 },
+    );
+
+    expect(mockEmbeddingService.findSimilarPairs).toHaveBeenCalledWith(expect.any(Array), 0.85, 1);
+    expect(Object.values(groups)).toHaveLength(1);
+  });
+
+  it('should use embedding pairs when the openai backend is configured', async () => {
+    config.WEAK_SIGNAL_SIMILARITY_BACKEND = 'openai';
+    service = await createService();
+    mockEmbeddingService.findSimilarPairs.mockResolvedValueOnce([{ a: 0, b: 1, score: 0.93 }]);
+
+    const groups = await service.groupBySimilarity(
+      [item('1', 'Checkout page hangs', 5), item('2', 'Cart freezes during payment', 3)],
+      'jira',
+    );
+
+    expect(Object.values(groups)).toHaveLength(1);
+  });
+});
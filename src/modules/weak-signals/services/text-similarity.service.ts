@@ -0,0 +1,173 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LocalSimilarityService } from './local-similarity.service';
+import { EmbeddingSimilarityService } from './embedding-similarity.service';
+import {
+  SimilarityBackend,
+  SimilarityBackendName,
+  SimilarityItem,
+  SimilarPair,
+} from '../interfaces/similarity.interface';
+
+/**
+ * Default similarity thresholds per backend and source. Embedding cosines run much
+ * higher than TF-IDF cosines for unrelated text, so each backend has its own scale.
+ */
+const DEFAULT_THRESHOLDS: Record<SimilarityBackendName, Record<string, number>> = {
+  local: { default: 0.5, jira: 0.5, servicenow: 0.5, timeline: 0.6 },
+  openai: { default: 0.85, jira: 0.85, servicenow: 0.85, timeline: 0.88 },
+};
+
+/**
+ * Number of most frequent terms that name a group.
+ */
+const SIGNATURE_TERMS = 3;
+
+@Injectable()
+export class TextSimilarityService {
+  private readonly logger = new Logger(TextSimilarityService.name);
+  private readonly backendName: SimilarityBackendName;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly localSimilarityService: LocalSimilarityService,
+    private readonly embeddingSimilarityService: EmbeddingSimilarityService,
+  ) {
+    const configured = this.configService.get<string>('WEAK_SIGNAL_SIMILARITY_BACKEND') || 'local';
+    this.backendName = configured === 'openai' ? 'openai' : 'local';
+  }
+
+  /**
+   * Group items whose text means the same thing. Keys are stable signatures built
+   * from the group's most frequent terms, so the same group keeps its key across runs.
+   */
+  async groupBySimilarity(
+    items: SimilarityItem[],
+    source: string,
+    options?: { threshold?: number; tenantId?: number },
+  ): Promise<Record<string, SimilarityItem[]>> {
+    if (items.length === 0) {
+      return {};
+    }
+
+    const texts = items.map(item => item.text || '');
+    let backend = this.resolveBackend();
+    let pairs: SimilarPair[];
+
+    try {
+      pairs = await backend.findSimilarPairs(texts, options?.threshold ?? this.getThreshold(source, backend.name), options?.tenantId);
+    } catch (error) {
+      this.logger.warn(`Similarity backend "${backend.name}" failed for ${source}, falling back to local: ${error.message}`);
+      backend = this.localSimilarityService;
+      pairs = await backend.findSimilarPairs(texts, this.getThreshold(source, backend.name));
+    }
+
+    const clusters = this.clusterPairs(items, pairs);
+
+    const groups: Record<string, SimilarityItem[]> = {};
+    for (const cluster of clusters) {
+      const signature = this.generateGroupSignature(cluster);
+      groups[signature] = [...(groups[signature] || []), ...cluster];
+    }
+
+    this.logger.debug(`Grouped ${items.length} ${source} items into ${Object.keys(groups).length} groups using ${backend.name} backend`);
+
+    return groups;
+  }
+
+  /**
+   * Similarity threshold for a source, overridable with WEAK_SIGNAL_SIMILARITY_THRESHOLD_<SOURCE>
+   */
+  getThreshold(source: string, backendName: SimilarityBackendName = this.backendName): number {
+    if (backendName === this.backendName) {
+      const override = this.configService.get<string>(`WEAK_SIGNAL_SIMILARITY_THRESHOLD_${source.toUpperCase()}`);
+      if (override && !isNaN(parseFloat(override))) {
+        return parseFloat(override);
+      }
+    }
+
+    const defaults = DEFAULT_THRESHOLDS[backendName];
+    return defaults[source] ?? defaults.default;
+  }
+
+  /**
+   * Configured backend, or the local one when it is not usable here
+   */
+  private resolveBackend(): SimilarityBackend {
+    if (this.backendName === 'openai' && this.embeddingSimilarityService.isAvailable()) {
+      return this.embeddingSimilarityService;
+    }
+    return this.localSimilarityService;
+  }
+
+  /**
+   * Greedy single-link clustering in chronological order: an item joins the group
+   * containing its most similar earlier item, otherwise it starts a new group.
+   */
+  private clusterPairs(items: SimilarityItem[], pairs: SimilarPair[]): SimilarityItem[][] {
+    const neighbours = new Map<number, SimilarPair[]>();
+    for (const pair of pairs) {
+      for (const index of [pair.a, pair.b]) {
+        if (!neighbours.has(index)) {
+          neighbours.set(index, []);
+        }
+        neighbours.get(index)!.push(pair);
+      }
+    }
+
+    const order = items
+      .map((item, index) => ({ item, index }))
+      .sort((x, y) => new Date(x.item.date).getTime() - new Date(y.item.date).getTime());
+
+    const groupOf = new Map<number, number>();
+    const clusters: number[][] = [];
+
+    for (const { index } of order) {
+      let bestGroup = -1;
+      let bestScore = 0;
+
+      for (const pair of neighbours.get(index) || []) {
+        const other = pair.a === index ? pair.b : pair.a;
+        const group = groupOf.get(other);
+        if (group !== undefined && pair.score > bestScore) {
+          bestScore = pair.score;
+          bestGroup = group;
+        }
+      }
+
+      if (bestGroup === -1) {
+        bestGroup = clusters.length;
+        clusters.push([]);
+      }
+
+      clusters[bestGroup].push(index);
+      groupOf.set(index, bestGroup);
+    }
+
+    return clusters.map(cluster => cluster.map(index => items[index]));
+  }
+
+  /**
+   * Name a group after the terms most of its members share
+   */
+  private generateGroupSignature(group: SimilarityItem[]): string {
+    const termCounts = new Map<string, number>();
+    for (const item of group) {
+      for (const token of new Set(this.localSimilarityService.tokenize(item.text))) {
+        termCounts.set(token, (termCounts.get(token) || 0) + 1);
+      }
+    }
+
+    const terms = [...termCounts.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, SIGNATURE_TERMS)
+      .map(([term]) => term)
+      .sort();
+
+    if (terms.length === 0) {
+      return `text_${group[0].id}`;
+    }
+
+    return terms.join('_');
+  }
+}
@@ -1,6 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, MoreThan, Between } from 'typeorm';
+import { Repository, Between } from 'typeorm';
 import { MetricValue } from '../../kpi/entities/metric-value.entity';
 import { JiraIssue } from '../../jira/entities/jira-issue.entity';
 import { ServiceNowIncident } from '../../servicenow/entities/servicenow-incident.entity';
@@ -9,6 +9,10 @@ import { TeamsMessage } from '../../teams/entities/teams-message.entity';
 import { GmailMessage } from '../../gmail/entities/gmail-message.entity';
 import { OutlookMessage } from '../../outlook/entities/outlook-message.entity';
 import { TimelineEvent } from '../../timeline/entities/timeline-event.entity';
+import { DEFAULT_DETECTION_SETTINGS } from './detection-settings.service';
+import { AccelerationFactors } from '../interfaces/detection-settings.interface';
+import { DailyCounts, DetectionAggregates, MessageSource, VolumeSeries } from '../interfaces/detection-aggregate.interface';
+import { CriticalThreshold } from '../interfaces/forecast.interface';
 
 export interface TrendAcceleration {
   accelerationId: string;
@@ -29,6 +33,7 @@ export interface TrendAcceleration {
     source: string;
   }[];
   riskIndicators: string[];
+  criticalThreshold?: CriticalThreshold | null; // KPI metrics only, from MetricDefinition.thresholds.critical
 }
 
 @Injectable()
@@ -55,24 +60,44 @@ export class TrendAccelerationService {
   ) {}
 
   /**
-   * Detect trend accelerations across different metrics
+   * Detect trend accelerations across different metrics.
+   * asOf replays detection at a past date, ignoring data created after it.
    */
-  async detectTrendAccelerations(tenantId: number, daysBack: number = 30): Promise<TrendAcceleration[]> {
+  async detectTrendAccelerations(
+    tenantId: number,
+    daysBack: number = 30,
+    factors: AccelerationFactors = DEFAULT_DETECTION_SETTINGS.accelerationFactors,
+    asOf: Date = new Date(),
+  ): Promise<TrendAcceleration[]> {
     this.logger.log(`Detecting trend accelerations for tenant ${tenantId} over last ${daysBack} days`);
 
-    const accelerations: TrendAcceleration[] = [];
-
-    // Analyze different types of metrics
-    const [metricAccelerations, issueAccelerations, incidentAccelerations, communicationAccelerations, eventAccelerations] = await Promise.all([
-      this.analyzeMetricTrends(tenantId, daysBack),
-      this.analyzeIssueTrends(tenantId, daysBack),
-      this.analyzeIncidentTrends(tenantId, daysBack),
-      this.analyzeCommunicationTrends(tenantId, daysBack),
-      this.analyzeEventTrends(tenantId, daysBack),
+    // Analyze KPI metrics and the daily volume of each source
+    const [metricAccelerations, volumes] = await Promise.all([
+      this.analyzeMetricTrends(tenantId, daysBack, asOf, factors),
+      this.loadVolumes(tenantId, daysBack, asOf),
     ]);
 
-    accelerations.push(...metricAccelerations, ...issueAccelerations, ...incidentAccelerations, ...communicationAccelerations, ...eventAccelerations);
+    return this.sortAccelerations([...metricAccelerations, ...this.analyzeVolumeTrends(volumes, factors)]);
+  }
+
+  /**
+   * Detect trend accelerations from the rolling daily volumes of an incremental run.
+   * KPI metrics are low volume and are still read directly.
+   */
+  async detectTrendAccelerationsFromAggregates(
+    tenantId: number,
+    daysBack: number,
+    factors: AccelerationFactors,
+    aggregates: DetectionAggregates,
+  ): Promise<TrendAcceleration[]> {
+    this.logger.log(`Detecting trend accelerations for tenant ${tenantId} from rolling aggregates`);
+
+    const metricAccelerations = await this.analyzeMetricTrends(tenantId, daysBack, aggregates.asOf, factors);
+
+    return this.sortAccelerations([...metricAccelerations, ...this.analyzeVolumeTrends(aggregates.volumes, factors)]);
+  }
 
+  private sortAccelerations(accelerations: TrendAcceleration[]): TrendAcceleration[] {
     // Sort by severity and confidence
     accelerations.sort((a, b) => {
       const severityOrder = { critical: 0, high: 1, medium: 2, low: 3 };
@@ -89,16 +114,21 @@ export class TrendAccelerationService {
   /**
    * Analyze KPI metric trends
    */
-  private async analyzeMetricTrends(tenantId: number, daysBack: number): Promise<TrendAcceleration[]> {
+  private async analyzeMetricTrends(
+    tenantId: number,
+    daysBack: number,
+    asOf: Date,
+    factors: AccelerationFactors,
+  ): Promise<TrendAcceleration[]> {
     const accelerations: TrendAcceleration[] = [];
-    const startDate = new Date();
+    const startDate = new Date(asOf);
     startDate.setDate(startDate.getDate() - daysBack);
 
     // Get all metric values
     const metricValues = await this.metricValueRepository.find({
       where: {
         tenantId,
-        periodStart: MoreThan(startDate),
+        periodStart: Between(startDate, asOf),
       },
       order: { periodStart: 'ASC' },
       relations: ['metricDefinition'],
@@ -122,10 +152,12 @@ export class TrendAccelerationService {
         values.map(v => ({ timestamp: v.periodStart, value: v.value })),
         metricKey,
         values[0].metricDefinition?.name || metricKey,
-        'kpi'
+        'kpi',
+        factors
       );
 
       if (acceleration) {
+        acceleration.criticalThreshold = values[0].metricDefinition?.thresholds?.critical ?? null;
         accelerations.push(acceleration);
       }
     }
@@ -134,262 +166,160 @@ export class TrendAccelerationService {
   }
 
   /**
-   * Analyze Jira issue trends
-   */
-  private async analyzeIssueTrends(tenantId: number, daysBack: number): Promise<TrendAcceleration[]> {
-    const accelerations: TrendAcceleration[] = [];
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - daysBack);
-
-    const issues = await this.jiraIssueRepository.find({
-      where: {
-        tenantId,
-        jiraCreatedAt: MoreThan(startDate),
-      },
-      order: { jiraCreatedAt: 'ASC' },
-    });
-
-    // Calculate daily issue creation rate
-    const dailyCounts = this.aggregateByDay(issues.map(i => i.jiraCreatedAt || i.createdAt));
-
-    const acceleration = this.detectAccelerationInTimeSeries(dailyCounts, 'jira_issue_rate', 'Jira Issue Creation Rate', 'jira');
-
-    if (acceleration) {
-      accelerations.push(acceleration);
-    }
-
-    // Analyze critical issue rate
-    const criticalIssues = issues.filter(i => {
-      const priority = (i.priority || '').toLowerCase();
-      return priority.includes('critical') || priority.includes('blocker');
-    });
-
-    if (criticalIssues.length > 5) {
-      const criticalDailyCounts = this.aggregateByDay(criticalIssues.map(i => i.jiraCreatedAt || i.createdAt));
-      const criticalAcceleration = this.detectAccelerationInTimeSeries(
-        criticalDailyCounts,
-        'jira_critical_rate',
-        'Critical Jira Issues Rate',
-        'jira'
-      );
-
-      if (criticalAcceleration) {
-        accelerations.push(criticalAcceleration);
-      }
-    }
-
-    return accelerations;
-  }
-
-  /**
-   * Analyze ServiceNow incident trends
+   * Load the daily volume of each source in the window. Also the volume series of lag analysis.
    */
-  private async analyzeIncidentTrends(tenantId: number, daysBack: number): Promise<TrendAcceleration[]> {
-    const accelerations: TrendAcceleration[] = [];
-    const startDate = new Date();
+  async loadVolumes(
+    tenantId: number,
+    daysBack: number,
+    asOf: Date,
+  ): Promise<Partial<Record<VolumeSeries, DailyCounts>>> {
+    const startDate = new Date(asOf);
     startDate.setDate(startDate.getDate() - daysBack);
 
-    const incidents = await this.serviceNowIncidentRepository.find({
-      where: {
-        tenantId,
-        sysCreatedOn: MoreThan(startDate),
-      },
-      order: { sysCreatedOn: 'ASC' },
-    });
-
-    // Calculate daily incident rate
-    const dailyCounts = this.aggregateByDay(incidents.map(i => i.sysCreatedOn || i.createdAt));
-
-    const acceleration = this.detectAccelerationInTimeSeries(
-      dailyCounts,
-      'servicenow_incident_rate',
-      'ServiceNow Incident Rate',
-      'servicenow'
-    );
-
-    if (acceleration) {
-      accelerations.push(acceleration);
-    }
-
-    // Analyze P1 incident rate
-    const p1Incidents = incidents.filter(i => i.priority === '1');
-
-    if (p1Incidents.length > 3) {
-      const p1DailyCounts = this.aggregateByDay(p1Incidents.map(i => i.sysCreatedOn || i.createdAt));
-      const p1Acceleration = this.detectAccelerationInTimeSeries(
-        p1DailyCounts,
-        'servicenow_p1_rate',
-        'P1 Incident Rate',
-        'servicenow'
-      );
-
-      if (p1Acceleration) {
-        accelerations.push(p1Acceleration);
-      }
-    }
-
-    return accelerations;
-  }
-
-  /**
-   * Analyze communication (Slack/Teams) trends
-   */
-  private async analyzeCommunicationTrends(tenantId: number, daysBack: number): Promise<TrendAcceleration[]> {
-    const accelerations: TrendAcceleration[] = [];
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - daysBack);
-
-    const [slackMessages, teamsMessages, gmailMessages, outlookMessages] = await Promise.all([
+    const [issues, incidents, slackMessages, teamsMessages, gmailMessages, outlookMessages, events] = await Promise.all([
+      this.jiraIssueRepository.find({
+        where: {
+          tenantId,
+          jiraCreatedAt: Between(startDate, asOf),
+        },
+        order: { jiraCreatedAt: 'ASC' },
+      }),
+      this.serviceNowIncidentRepository.find({
+        where: {
+          tenantId,
+          sysCreatedOn: Between(startDate, asOf),
+        },
+        order: { sysCreatedOn: 'ASC' },
+      }),
       this.slackMessageRepository.find({
         where: {
           tenantId,
-          slackCreatedAt: MoreThan(startDate),
+          slackCreatedAt: Between(startDate, asOf),
         },
         order: { slackCreatedAt: 'ASC' },
       }),
       this.teamsMessageRepository.find({
         where: {
           tenantId,
-          createdDateTime: MoreThan(startDate),
+          createdDateTime: Between(startDate, asOf),
         },
         order: { createdDateTime: 'ASC' },
       }),
       this.gmailMessageRepository.find({
         where: {
           tenantId,
-          gmailCreatedAt: MoreThan(startDate),
+          gmailCreatedAt: Between(startDate, asOf),
         },
         order: { gmailCreatedAt: 'ASC' },
       }),
       this.outlookMessageRepository.find({
         where: {
           tenantId,
-          outlookCreatedAt: MoreThan(startDate),
+          outlookCreatedAt: Between(startDate, asOf),
         },
         order: { outlookCreatedAt: 'ASC' },
       }),
+      this.timelineEventRepository.find({
+        where: {
+          tenantId,
+          eventDate: Between(startDate, asOf),
+          isActive: true,
+        },
+        order: { eventDate: 'ASC' },
+      }),
     ]);
 
     this.logger.debug(`Communication data found: Slack=${slackMessages.length}, Teams=${teamsMessages.length}, Gmail=${gmailMessages.length}, Outlook=${outlookMessages.length} messages (${daysBack} days back from ${startDate.toISOString()})`);
 
-    // Analyze Slack message rate
-    if (slackMessages.length > 10) {
-      const slackDailyCounts = this.aggregateByDay(slackMessages.map(m => m.slackCreatedAt || m.createdAt));
-      const slackAcceleration = this.detectAccelerationInTimeSeries(
-        slackDailyCounts,
-        'slack_message_rate',
-        'Slack Message Activity Rate',
-        'slack'
-      );
-
-      if (slackAcceleration) {
-        accelerations.push(slackAcceleration);
-      }
-    }
+    const criticalIssues = issues.filter(i => {
+      const priority = (i.priority || '').toLowerCase();
+      return priority.includes('critical') || priority.includes('blocker');
+    });
 
-    // Analyze Teams message rate
-    if (teamsMessages.length > 10) {
-      const teamsDailyCounts = this.aggregateByDay(teamsMessages.map(m => m.createdDateTime || m.createdAt));
-      const teamsAcceleration = this.detectAccelerationInTimeSeries(
-        teamsDailyCounts,
-        'teams_message_rate',
-        'Teams Message Activity Rate',
-        'teams'
-      );
+    return {
+      jira: this.countByDay(issues.map(i => i.jiraCreatedAt || i.createdAt)),
+      jira_critical: this.countByDay(criticalIssues.map(i => i.jiraCreatedAt || i.createdAt)),
+      servicenow: this.countByDay(incidents.map(i => i.sysCreatedOn || i.createdAt)),
+      servicenow_p1: this.countByDay(incidents.filter(i => i.priority === '1').map(i => i.sysCreatedOn || i.createdAt)),
+      slack: this.countByDay(slackMessages.map(m => m.slackCreatedAt || m.createdAt)),
+      teams: this.countByDay(teamsMessages.map(m => m.createdDateTime || m.createdAt)),
+      gmail: this.countByDay(gmailMessages.map(m => m.gmailCreatedAt || m.createdAt)),
+      outlook: this.countByDay(outlookMessages.map(m => m.outlookCreatedAt || m.createdAt)),
+      timeline_high_impact: this.countByDay(events.filter(e => e.impactLevel === 'high').map(e => e.eventDate)),
+    };
+  }
 
-      if (teamsAcceleration) {
-        accelerations.push(teamsAcceleration);
+  /**
+   * Analyze issue, incident, communication and timeline event volumes
+   */
+  private analyzeVolumeTrends(
+    volumes: Partial<Record<VolumeSeries, DailyCounts>>,
+    factors: AccelerationFactors,
+  ): TrendAcceleration[] {
+    const accelerations: TrendAcceleration[] = [];
+    const total = (series: VolumeSeries) => Object.values(volumes[series] || {}).reduce((sum, count) => sum + count, 0);
+    const analyze = (counts: DailyCounts, metricKey: string, metricName: string, source: string) => {
+      const acceleration = this.detectAccelerationInTimeSeries(this.toTimeSeries(counts), metricKey, metricName, source, factors);
+      if (acceleration) {
+        accelerations.push(acceleration);
       }
-    }
-
-    // Analyze Gmail message rate
-    if (gmailMessages.length > 10) {
-      const gmailDailyCounts = this.aggregateByDay(gmailMessages.map(m => m.gmailCreatedAt || m.createdAt));
-      const gmailAcceleration = this.detectAccelerationInTimeSeries(
-        gmailDailyCounts,
-        'gmail_message_rate',
-        'Gmail Message Activity Rate',
-        'gmail'
-      );
+      return acceleration;
+    };
 
-      if (gmailAcceleration) {
-        this.logger.log(`Created Gmail trend acceleration signal with ${gmailMessages.length} messages`);
-        accelerations.push(gmailAcceleration);
-      }
+    // Jira issue creation rate, and the critical issue rate once there are enough critical issues
+    analyze(volumes.jira || {}, 'jira_issue_rate', 'Jira Issue Creation Rate', 'jira');
+    if (total('jira_critical') > 5) {
+      analyze(volumes.jira_critical || {}, 'jira_critical_rate', 'Critical Jira Issues Rate', 'jira');
     }
 
-    // Analyze Outlook message rate
-    if (outlookMessages.length > 10) {
-      const outlookDailyCounts = this.aggregateByDay(outlookMessages.map(m => m.outlookCreatedAt || m.createdAt));
-      const outlookAcceleration = this.detectAccelerationInTimeSeries(
-        outlookDailyCounts,
-        'outlook_message_rate',
-        'Outlook Message Activity Rate',
-        'outlook'
-      );
+    // ServiceNow incident rate and P1 incident rate
+    analyze(volumes.servicenow || {}, 'servicenow_incident_rate', 'ServiceNow Incident Rate', 'servicenow');
+    if (total('servicenow_p1') > 3) {
+      analyze(volumes.servicenow_p1 || {}, 'servicenow_p1_rate', 'P1 Incident Rate', 'servicenow');
+    }
 
-      if (outlookAcceleration) {
-        this.logger.log(`Created Outlook trend acceleration signal with ${outlookMessages.length} messages`);
-        accelerations.push(outlookAcceleration);
+    // Message activity per communication channel
+    const channels: { series: MessageSource; name: string }[] = [
+      { series: 'slack', name: 'Slack' },
+      { series: 'teams', name: 'Teams' },
+      { series: 'gmail', name: 'Gmail' },
+      { series: 'outlook', name: 'Outlook' },
+    ];
+
+    for (const channel of channels) {
+      const messageCount = total(channel.series);
+      if (messageCount > 10) {
+        const acceleration = analyze(
+          volumes[channel.series] || {},
+          `${channel.series}_message_rate`,
+          `${channel.name} Message Activity Rate`,
+          channel.series,
+        );
+        if (acceleration && (channel.series === 'gmail' || channel.series === 'outlook')) {
+          this.logger.log(`Created ${channel.name} trend acceleration signal with ${messageCount} messages`);
+        }
       }
     }
 
-    // Analyze combined communication activity
-    if (slackMessages.length + teamsMessages.length + gmailMessages.length + outlookMessages.length > 10) {
-      const allMessages = [
-        ...slackMessages.map(m => m.slackCreatedAt || m.createdAt),
-        ...teamsMessages.map(m => m.createdDateTime || m.createdAt),
-        ...gmailMessages.map(m => m.gmailCreatedAt || m.createdAt),
-        ...outlookMessages.map(m => m.outlookCreatedAt || m.createdAt),
-      ];
-      const combinedDailyCounts = this.aggregateByDay(allMessages);
-      const combinedAcceleration = this.detectAccelerationInTimeSeries(
-        combinedDailyCounts,
+    // Combined communication activity
+    if (channels.reduce((sum, channel) => sum + total(channel.series), 0) > 10) {
+      const combined: DailyCounts = {};
+      for (const channel of channels) {
+        for (const [day, count] of Object.entries(volumes[channel.series] || {})) {
+          combined[day] = (combined[day] || 0) + count;
+        }
+      }
+      analyze(
+        combined,
         'communication_activity_rate',
         'Overall Communication Activity Rate',
-        'slack' // Use slack as primary source for combined communication
+        'slack', // Use slack as primary source for combined communication
       );
-
-      if (combinedAcceleration) {
-        accelerations.push(combinedAcceleration);
-      }
     }
 
-    return accelerations;
-  }
-
-  /**
-   * Analyze timeline event trends
-   */
-  private async analyzeEventTrends(tenantId: number, daysBack: number): Promise<TrendAcceleration[]> {
-    const accelerations: TrendAcceleration[] = [];
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - daysBack);
-
-    const events = await this.timelineEventRepository.find({
-      where: {
-        tenantId,
-        eventDate: MoreThan(startDate),
-        isActive: true,
-      },
-      order: { eventDate: 'ASC' },
-    });
-
-    // High impact events
-    const highImpactEvents = events.filter(e => e.impactLevel === 'high');
-
-    if (highImpactEvents.length > 3) {
-      const dailyCounts = this.aggregateByDay(highImpactEvents.map(e => e.eventDate));
-      const acceleration = this.detectAccelerationInTimeSeries(
-        dailyCounts,
-        'high_impact_event_rate',
-        'High Impact Event Rate',
-        'timeline'
-      );
-
-      if (acceleration) {
-        accelerations.push(acceleration);
-      }
+    // High impact timeline events
+    if (total('timeline_high_impact') > 3) {
+      analyze(volumes.timeline_high_impact || {}, 'high_impact_event_rate', 'High Impact Event Rate', 'timeline');
     }
 
     return accelerations;
@@ -402,7 +332,8 @@ export class TrendAccelerationService {
     timeSeries: { timestamp: Date; value: number }[],
     metricKey: string,
     metricName: string,
-    source: string
+    source: string,
+    factors: AccelerationFactors,
   ): TrendAcceleration | null {
     if (timeSeries.length < 10) return null;
 
@@ -437,15 +368,15 @@ export class TrendAccelerationService {
       : 1;
 
     // Only report if there's significant acceleration
-    if (accelerationFactor < 1.5 || Math.abs(changeRate) < 15) {
+    if (accelerationFactor < factors.minFactor || Math.abs(changeRate) < factors.minChangeRate) {
       return null;
     }
 
     // Determine severity
     let severity: 'critical' | 'high' | 'medium' | 'low';
-    if (accelerationFactor > 4 || Math.abs(changeRate) > 100) severity = 'critical';
-    else if (accelerationFactor > 3 || Math.abs(changeRate) > 50) severity = 'high';
-    else if (accelerationFactor > 2 || Math.abs(changeRate) > 30) severity = 'medium';
+    if (accelerationFactor > factors.criticalFactor || Math.abs(changeRate) > 100) severity = 'critical';
+    else if (accelerationFactor > factors.highFactor || Math.abs(changeRate) > 50) severity = 'high';
+    else if (accelerationFactor > factors.mediumFactor || Math.abs(changeRate) > 30) severity = 'medium';
     else severity = 'low';
 
     // Calculate confidence
@@ -464,7 +395,7 @@ export class TrendAccelerationService {
 
     // Build risk indicators
     const riskIndicators: string[] = [];
-    if (accelerationFactor > 3) riskIndicators.push('Rapid acceleration detected');
+    if (accelerationFactor > factors.highFactor) riskIndicators.push('Rapid acceleration detected');
     if (Math.abs(changeRate) > 50) riskIndicators.push('Significant deviation from baseline');
     if (recentTrend.r2 > 0.7) riskIndicators.push('Strong trending pattern');
     if (predictedEscalationTime) riskIndicators.push(`May escalate by ${predictedEscalationTime.toLocaleDateString()}`);
@@ -534,17 +465,25 @@ export class TrendAccelerationService {
   }
 
   /**
-   * Aggregate events by day
+   * Count events by day
    */
-  private aggregateByDay(dates: Date[]): { timestamp: Date; value: number }[] {
-    const dailyMap: Record<string, number> = {};
+  private countByDay(dates: Date[]): DailyCounts {
+    const dailyMap: DailyCounts = {};
 
     for (const date of dates) {
       const dayKey = date.toISOString().split('T')[0];
       dailyMap[dayKey] = (dailyMap[dayKey] || 0) + 1;
     }
 
+    return dailyMap;
+  }
+
+  /**
+   * Days with activity as a time series, in date order
+   */
+  private toTimeSeries(dailyMap: DailyCounts): { timestamp: Date; value: number }[] {
     return Object.entries(dailyMap)
+      .filter(([, count]) => count > 0)
       .sort(([a], [b]) => a.localeCompare(b))
       .map(([dateStr, count]) => ({
         timestamp: new Date(dateStr),
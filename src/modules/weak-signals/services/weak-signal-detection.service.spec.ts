@@ -3,7 +3,15 @@ import { getRepositoryToken } from '@nestjs/typeorm';
 import { WeakSignalDetectionService } from './weak-signal-detection.service';
 import { PatternExtractionService } from './pattern-extraction.service';
 import { TrendAccelerationService } from './trend-acceleration.service';
+import { AnomalyDetectionService } from './anomaly-detection.service';
+import { SignalCorrelationService } from './signal-correlation.service';
+import { DetectionSettingsService, DEFAULT_DETECTION_SETTINGS } from './detection-settings.service';
+import { SignalFeedbackService } from './signal-feedback.service';
+import { SignalForecastService } from './signal-forecast.service';
+import { SignalSlaService } from './signal-sla.service';
+import { SignalActivityService } from './signal-activity.service';
 import { WeakSignal } from '../entities/weak-signal.entity';
+import { WeakSignalHistory } from '../entities/weak-signal-history.entity';
 
 describe('WeakSignalDetectionService', () => {
   let service: WeakSignalDetectionService;
@@ -13,7 +21,7 @@ describe('WeakSignalDetectionService', () => {
 
   const mockWeakSignalRepository = {
     save: jest.fn(),
-    find: jest.fn(),
+    find: jest.fn().mockResolvedValue([]),
     findOne: jest.fn(),
     createQueryBuilder: jest.fn(() => ({
       where: jest.fn().mockReturnThis(),
@@ -24,6 +32,12 @@ describe('WeakSignalDetectionService', () => {
     })),
   };
 
+  const mockHistoryRepository = {
+    create: jest.fn((entry) => entry),
+    save: jest.fn((entries) => Promise.resolve(entries)),
+    find: jest.fn().mockResolvedValue([]),
+  };
+
   const mockPatternService = {
     extractRecurringPatterns: jest.fn(),
   };
@@ -32,6 +46,22 @@ describe('WeakSignalDetectionService', () => {
     detectTrendAccelerations: jest.fn(),
   };
 
+  const mockAnomalyService = {
+    detectAnomalies: jest.fn().mockResolvedValue([]),
+  };
+
+  const mockCorrelationService = {
+    buildCorrelationClusters: jest.fn().mockResolvedValue([]),
+  };
+
+  const mockDetectionSettingsService = {
+    getSettings: jest.fn().mockResolvedValue(DEFAULT_DETECTION_SETTINGS),
+  };
+
+  const mockFeedbackService = {
+    applyFeedback: jest.fn((tenantId, signals) => Promise.resolve(signals)),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -40,6 +70,10 @@ describe('WeakSignalDetectionService', () => {
           provide: getRepositoryToken(WeakSignal),
           useValue: mockWeakSignalRepository,
         },
+        {
+          provide: getRepositoryToken(WeakSignalHistory),
+          useValue: mockHistoryRepository,
+        },
         {
           provide: PatternExtractionService,
           useValue: mockPatternService,
@@ -48,6 +82,31 @@ describe('WeakSignalDetectionService', () => {
           provide: TrendAccelerationService,
           useValue: mockTrendService,
         },
+        {
+          provide: AnomalyDetectionService,
+          useValue: mockAnomalyService,
+        },
+        {
+          provide: SignalCorrelationService,
+          useValue: mockCorrelationService,
+        },
+        {
+          provide: DetectionSettingsService,
+          useValue: mockDetectionSettingsService,
+        },
+        {
+          provide: SignalFeedbackService,
+          useValue: mockFeedbackService,
+        },
+        SignalForecastService,
+        {
+          provide: SignalSlaService,
+          useValue: { startClock: jest.fn(), refreshClock: jest.fn(), markTriaged: jest.fn() },
+        },
+        {
+          provide: SignalActivityService,
+          useValue: { record: jest.fn() },
+        },
       ],
     }).compile();
 
@@ -122,8 +181,15 @@ describe('WeakSignalDetectionService', () => {
 
       expect(result).toBeDefined();
       expect(result.length).toBe(2); // 1 pattern + 1 acceleration
-      expect(mockPatternService.extractRecurringPatterns).toHaveBeenCalledWith(1, 90);
-      expect(mockTrendService.detectTrendAccelerations).toHaveBeenCalledWith(1, 30);
+      // Both detectors get the tenant settings; no as-of date outside of backtests
+      expect(mockDetectionSettingsService.getSettings).toHaveBeenCalledWith(1);
+      expect(mockPatternService.extractRecurringPatterns).toHaveBeenCalledWith(1, 90, DEFAULT_DETECTION_SETTINGS, undefined);
+      expect(mockTrendService.detectTrendAccelerations).toHaveBeenCalledWith(
+        1,
+        90,
+        DEFAULT_DETECTION_SETTINGS.accelerationFactors,
+        undefined,
+      );
       expect(mockWeakSignalRepository.save).toHaveBeenCalled();
     });
 
@@ -136,6 +202,226 @@ describe('WeakSignalDetectionService', () => {
 
       expect(result).toEqual([]);
     });
+
+    it('should only run the detectors enabled in the tenant settings', async () => {
+      const settings = { ...DEFAULT_DETECTION_SETTINGS, enabledDetectors: ['pattern' as const] };
+      mockDetectionSettingsService.getSettings.mockResolvedValueOnce(settings);
+      mockPatternService.extractRecurringPatterns.mockResolvedValue([]);
+
+      await service.detectWeakSignals(1, 90);
+
+      expect(mockDetectionSettingsService.getSettings).toHaveBeenCalledWith(1);
+      expect(mockPatternService.extractRecurringPatterns).toHaveBeenCalledWith(1, 90, settings, undefined);
+      expect(mockTrendService.detectTrendAccelerations).not.toHaveBeenCalled();
+      expect(mockAnomalyService.detectAnomalies).not.toHaveBeenCalled();
+      expect(mockCorrelationService.buildCorrelationClusters).not.toHaveBeenCalled();
+    });
+
+    it('should grade pattern severity with the tenant severity scoring', async () => {
+      const settings = {
+        ...DEFAULT_DETECTION_SETTINGS,
+        severityScoring: { criticalScore: 12, highScore: 10, mediumScore: 2, recurrenceWeight: 0 },
+      };
+      mockDetectionSettingsService.getSettings.mockResolvedValueOnce(settings);
+      mockPatternService.extractRecurringPatterns.mockResolvedValue([
+        {
+          patternId: 'scored-pattern',
+          type: 'issue_recurrence' as const,
+          description: 'Scored pattern',
+          occurrences: 10,
+          frequency: 'daily' as const,
+          lastOccurrence: new Date(),
+          predictedNext: null,
+          similarities: [],
+          confidenceScore: 90,
+          evidence: [{ source: 'jira', sourceId: '1', timestamp: new Date(), relevanceScore: 80 }],
+        },
+      ]);
+      mockTrendService.detectTrendAccelerations.mockResolvedValue([]);
+      mockWeakSignalRepository.save.mockImplementation((signals) => Promise.resolve(signals));
+
+      const result = await service.detectWeakSignals(1, 90);
+
+      // 3 (occurrences) + 3 (daily) + 2 (confidence) = 8, which is only medium with these thresholds
+      expect(result[0].severity).toBe('medium');
+    });
+
+    it('should convert anomalies into anomaly_detection signals', async () => {
+      const anomalyDate = new Date('2026-10-15T00:00:00.000Z');
+
+      mockPatternService.extractRecurringPatterns.mockResolvedValue([]);
+      mockTrendService.detectTrendAccelerations.mockResolvedValue([]);
+      mockAnomalyService.detectAnomalies.mockResolvedValueOnce([
+        {
+          anomalyId: 'anomaly_servicenow_incident_volume_2026-10-15',
+          metric: 'ServiceNow Incident Volume',
+          metricKey: 'servicenow_incident_volume',
+          source: 'servicenow',
+          description: 'ServiceNow Incident Volume spiked',
+          anomalyDate,
+          observed: 18,
+          expected: 4,
+          deviation: 1.48,
+          robustZScore: 9.4,
+          changeRate: 350,
+          baselinePoints: 10,
+          seasonality: 'day_of_week' as const,
+          timeWindow: '30 days',
+          severity: 'critical' as const,
+          confidenceScore: 90,
+          evidence: [{ timestamp: anomalyDate, value: 18, expected: 4, source: 'servicenow' }],
+          riskIndicators: ['Extreme deviation from seasonal baseline'],
+        },
+      ]);
+      mockWeakSignalRepository.save.mockImplementation((signals) => Promise.resolve(signals));
+
+      const result = await service.detectWeakSignals(1, 90);
+
+      expect(mockAnomalyService.detectAnomalies).toHaveBeenCalledWith(1, 90, undefined);
+      expect(result).toHaveLength(1);
+      expect(result[0].signalType).toBe('anomaly_detection');
+      expect(result[0].severity).toBe('critical');
+      expect(result[0].category).toBe('Operations');
+      expect(result[0].trendData?.baseline).toBe(4);
+      expect(result[0].trendData?.current).toBe(18);
+      expect(result[0].explainability.primaryReason).toContain('robust deviations');
+      expect(result[0].metadata?.anomalyId).toBe('anomaly_servicenow_incident_volume_2026-10-15');
+    });
+
+    it('should persist correlation clusters and link their members', async () => {
+      const patternFor = (patternId: string, source: string) => ({
+        patternId,
+        type: 'issue_recurrence' as const,
+        description: 'Recurring pattern',
+        occurrences: 3,
+        frequency: 'weekly' as const,
+        lastOccurrence: new Date(),
+        predictedNext: null,
+        similarities: [],
+        confidenceScore: 70,
+        evidence: [{ source, sourceId: '1', timestamp: new Date(), relevanceScore: 80 }],
+      });
+      mockPatternService.extractRecurringPatterns.mockResolvedValue([patternFor('p1', 'jira'), patternFor('p2', 'slack')]);
+      mockTrendService.detectTrendAccelerations.mockResolvedValue([]);
+      mockAnomalyService.detectAnomalies.mockResolvedValueOnce([]);
+
+      const members = [
+        { id: 11, signalType: 'pattern_recurring', metadata: { patternId: 'p1' } },
+        { id: 12, signalType: 'pattern_recurring', metadata: { patternId: 'p2' } },
+      ];
+      const cluster = { signalType: 'correlation_cluster', metadata: { memberSignalIds: [11, 12] } };
+
+      mockWeakSignalRepository.save
+        .mockResolvedValueOnce(members)
+        .mockResolvedValueOnce([{ ...cluster, id: 20 }])
+        .mockImplementation((signals) => Promise.resolve(signals));
+      mockCorrelationService.buildCorrelationClusters.mockResolvedValueOnce([cluster]);
+
+      const result = await service.detectWeakSignals(1, 90);
+
+      expect(mockCorrelationService.buildCorrelationClusters).toHaveBeenCalledWith(1, members);
+      expect(result).toHaveLength(3);
+      expect(result[2].signalType).toBe('correlation_cluster');
+      expect(members[0].metadata).toEqual({ patternId: 'p1', correlationClusterId: 20 });
+      expect(members[1].metadata).toEqual({ patternId: 'p2', correlationClusterId: 20 });
+    });
+  });
+
+  describe('merging re-detections', () => {
+    const pattern = {
+      patternId: 'servicenow_recurring_abc',
+      type: 'incident_recurrence' as const,
+      description: 'Recurring incident pattern: "VPN down"',
+      occurrences: 6,
+      frequency: 'weekly' as const,
+      lastOccurrence: new Date('2026-10-14T00:00:00.000Z'),
+      predictedNext: null,
+      similarities: ['VPN down'],
+      confidenceScore: 82,
+      evidence: [
+        { source: 'servicenow', sourceId: '1', timestamp: new Date('2026-10-14T00:00:00.000Z'), relevanceScore: 85 },
+      ],
+    };
+
+    beforeEach(() => {
+      mockPatternService.extractRecurringPatterns.mockResolvedValue([pattern]);
+      mockTrendService.detectTrendAccelerations.mockResolvedValue([]);
+      mockAnomalyService.detectAnomalies.mockResolvedValue([]);
+      mockWeakSignalRepository.save.mockImplementation((signals) =>
+        Promise.resolve(Array.isArray(signals) ? signals.map((s, i) => ({ ...s, id: s.id || 100 + i })) : signals)
+      );
+    });
+
+    it('should update the existing signal and keep its triage state', async () => {
+      const fresh = await service.detectWeakSignals(1, 90);
+      const existing = {
+        ...fresh[0],
+        id: 7,
+        status: 'investigating',
+        investigationNotes: 'Checking VPN concentrator',
+        confidenceScore: 60,
+        patternData: { ...fresh[0].patternData, occurrences: 4 },
+        detectionCount: 2,
+        metadata: { ...fresh[0].metadata, correlationClusterId: 3 },
+      };
+      mockWeakSignalRepository.find
+        .mockResolvedValueOnce([]) // legacy backfill
+        .mockResolvedValueOnce([existing]);
+      mockHistoryRepository.save.mockClear();
+
+      const result = await service.detectWeakSignals(1, 90, 42);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].id).toBe(7);
+      expect(result[0].status).toBe('investigating');
+      expect(result[0].investigationNotes).toBe('Checking VPN concentrator');
+      expect(result[0].detectionCount).toBe(3);
+      expect(Number(result[0].confidenceScore)).toBe(82);
+      expect(result[0].patternData?.occurrences).toBe(6);
+      expect(result[0].metadata?.correlationClusterId).toBe(3);
+
+      const [history] = mockHistoryRepository.save.mock.calls[0];
+      expect(history[0]).toMatchObject({ weakSignalId: 7, detectionRunId: 42, changeType: 'updated' });
+      expect(history[0].changes).toEqual(
+        expect.arrayContaining([
+          { field: 'confidenceScore', previous: 60, current: 82 },
+          { field: 'occurrences', previous: 4, current: 6 },
+        ])
+      );
+    });
+
+    it('should record a created entry for a first detection', async () => {
+      const result = await service.detectWeakSignals(1, 90, 42);
+
+      expect(result[0].fingerprint).toHaveLength(64);
+      expect(result[0].detectionCount).toBe(1);
+      const [history] = mockHistoryRepository.save.mock.calls[0];
+      expect(history[0]).toMatchObject({ detectionRunId: 42, changeType: 'created', changes: [] });
+    });
+
+    it('should collapse duplicate detections within a single run', async () => {
+      mockPatternService.extractRecurringPatterns.mockResolvedValue([pattern, { ...pattern, confidenceScore: 90 }]);
+
+      const result = await service.detectWeakSignals(1, 90);
+
+      expect(result).toHaveLength(1);
+      expect(Number(result[0].confidenceScore)).toBe(90);
+    });
+  });
+
+  describe('computeFingerprint', () => {
+    it('should ignore the timestamp embedded in acceleration ids', () => {
+      const base = {
+        signalType: 'trend_acceleration',
+        affectedEntities: [{ type: 'metric', id: 'jira_issue_creation_rate', name: 'jira', impactLevel: 'high' }],
+        trendData: { metric: 'Jira Issue Creation Rate' },
+      } as WeakSignal;
+
+      const first = service.computeFingerprint({ ...base, metadata: { accelerationId: 'trend_accel_jira_1' } } as WeakSignal);
+      const second = service.computeFingerprint({ ...base, metadata: { accelerationId: 'trend_accel_jira_2' } } as WeakSignal);
+
+      expect(first).toBe(second);
+    });
   });
 
   describe('getWeakSignals', () => {
@@ -169,7 +455,98 @@ describe('WeakSignalDetectionService', () => {
 
       expect(result).toEqual(mockSignals);
       expect(mockQueryBuilder.where).toHaveBeenCalled();
-      expect(mockQueryBuilder.andWhere).toHaveBeenCalledTimes(3);
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledTimes(4);
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('signal.status NOT IN (:...inactiveStatuses)', {
+        inactiveStatuses: ['resolved', 'expired'],
+      });
+    });
+
+    it('should include resolved and expired signals when requested', async () => {
+      const mockQueryBuilder = {
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        orderBy: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        getMany: jest.fn().mockResolvedValue([]),
+      };
+
+      mockWeakSignalRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+      await service.getWeakSignals(1, { includeInactive: true });
+
+      expect(mockQueryBuilder.andWhere).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getWeakSignalsPage', () => {
+    const buildQueryBuilder = (signals: any[], total: number) => ({
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      addOrderBy: jest.fn().mockReturnThis(),
+      setParameter: jest.fn().mockReturnThis(),
+      offset: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue(signals),
+      getManyAndCount: jest.fn().mockResolvedValue([signals, total]),
+    });
+
+    it('should return one page with the total of all matches', async () => {
+      const signals = [{ id: 21 }, { id: 22 }];
+      const mockQueryBuilder = buildQueryBuilder(signals, 42);
+      mockWeakSignalRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+      const result = await service.getWeakSignalsPage(1, {
+        page: 3,
+        limit: 10,
+        sortBy: 'confidence',
+        sortOrder: 'ASC',
+        category: 'delivery',
+        source: 'jira',
+        affectedEntityType: 'metric',
+        affectedEntityId: 'deployment_frequency',
+        search: '100%_done',
+      });
+
+      expect(result).toEqual({ signals, total: 42 });
+      expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith('signal.confidenceScore', 'ASC');
+      expect(mockQueryBuilder.addOrderBy).toHaveBeenCalledWith('signal.id', 'ASC');
+      expect(mockQueryBuilder.offset).toHaveBeenCalledWith(20);
+      expect(mockQueryBuilder.limit).toHaveBeenCalledWith(10);
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('signal.category = :category', { category: 'delivery' });
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('JSON_CONTAINS(signal.sourceSignals, :sourceSignal)', {
+        sourceSignal: '{"source":"jira"}',
+      });
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('JSON_CONTAINS(signal.affectedEntities, :affectedEntity)', {
+        affectedEntity: '{"type":"metric","id":"deployment_frequency"}',
+      });
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        'MATCH(signal.title, signal.description, signal.explainabilityText) AGAINST (:search IN BOOLEAN MODE)',
+        { search: '+100* +done*' },
+      );
+    });
+
+    it('should rank and page by triage priority in the database', async () => {
+      const signals = [{ id: 2 }, { id: 3 }];
+      const mockQueryBuilder = buildQueryBuilder(signals, 3);
+      mockWeakSignalRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+      const result = await service.getWeakSignalsPage(1, { page: 1, limit: 2, sortBy: 'triage' });
+
+      expect(result).toEqual({ signals, total: 3 });
+      expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith(expect.stringContaining('signal.breachProbability'), 'DESC');
+      expect(mockQueryBuilder.setParameter).toHaveBeenCalledWith('triageAsOf', expect.any(Date));
+      expect(mockQueryBuilder.limit).toHaveBeenCalledWith(2);
+      expect(mockQueryBuilder.getMany).not.toHaveBeenCalled();
+    });
+
+    it('should not search when the text has no words', async () => {
+      const mockQueryBuilder = buildQueryBuilder([], 0);
+      mockWeakSignalRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+      await service.getWeakSignalsPage(1, { search: '+-*"' });
+
+      expect(mockQueryBuilder.andWhere).not.toHaveBeenCalledWith(expect.stringContaining('MATCH'), expect.anything());
     });
   });
 
@@ -192,6 +569,35 @@ describe('WeakSignalDetectionService', () => {
       expect(result.validatedAt).toBeDefined();
     });
 
+    it('should remember the evidence strength when dismissing', async () => {
+      const mockSignal = {
+        id: 1,
+        tenantId: 1,
+        status: 'new',
+        severity: 'medium',
+        confidenceScore: 72,
+        sourceSignals: [{}, {}],
+        patternData: { occurrences: 4 },
+        trendData: null,
+        metadata: { patternId: 'p1' },
+      };
+
+      mockWeakSignalRepository.findOne.mockResolvedValue(mockSignal);
+      mockWeakSignalRepository.save.mockImplementation((signal) => Promise.resolve(signal));
+
+      const result = await service.updateWeakSignalStatus(1, 1, 'dismissed', 123);
+
+      expect(result.metadata?.dismissedSnapshot).toEqual({
+        severity: 'medium',
+        confidenceScore: 72,
+        occurrences: 4,
+        evidenceCount: 2,
+        currentValue: null,
+      });
+      expect(result.metadata?.patternId).toBe('p1');
+      expect(result.metadata?.dismissalCount).toBe(1);
+    });
+
     it('should throw error if signal not found', async () => {
       mockWeakSignalRepository.findOne.mockResolvedValue(null);
 
@@ -1,9 +1,22 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Repository, In, IsNull, SelectQueryBuilder } from 'typeorm';
+import * as crypto from 'crypto';
 import { WeakSignal, SignalType, SignalSeverity } from '../entities/weak-signal.entity';
+import { WeakSignalHistory } from '../entities/weak-signal-history.entity';
 import { PatternExtractionService, RecurringPattern } from './pattern-extraction.service';
 import { TrendAccelerationService, TrendAcceleration } from './trend-acceleration.service';
+import { AnomalyDetectionService, AnomalyDetection } from './anomaly-detection.service';
+import { SignalCorrelationService } from './signal-correlation.service';
+import { INACTIVE_SIGNAL_STATUSES } from './signal-lifecycle.service';
+import { DetectionSettingsService } from './detection-settings.service';
+import { SignalFeedbackService } from './signal-feedback.service';
+import { SignalForecastService } from './signal-forecast.service';
+import { SignalSlaService } from './signal-sla.service';
+import { SignalActivityService } from './signal-activity.service';
+import { DetectionSettings, SeverityScoring } from '../interfaces/detection-settings.interface';
+import { DetectionAggregates } from '../interfaces/detection-aggregate.interface';
+import { WeakSignalFilters, WeakSignalSortField } from '../interfaces/weak-signal-query.interface';
 
 @Injectable()
 export class WeakSignalDetectionService {
@@ -12,29 +25,130 @@ export class WeakSignalDetectionService {
   constructor(
     @InjectRepository(WeakSignal)
     private readonly weakSignalRepository: Repository<WeakSignal>,
+    @InjectRepository(WeakSignalHistory)
+    private readonly signalHistoryRepository: Repository<WeakSignalHistory>,
     private readonly patternExtractionService: PatternExtractionService,
     private readonly trendAccelerationService: TrendAccelerationService,
+    private readonly anomalyDetectionService: AnomalyDetectionService,
+    private readonly signalCorrelationService: SignalCorrelationService,
+    private readonly detectionSettingsService: DetectionSettingsService,
+    private readonly signalFeedbackService: SignalFeedbackService,
+    private readonly signalForecastService: SignalForecastService,
+    private readonly signalSlaService: SignalSlaService,
+    private readonly signalActivityService: SignalActivityService,
   ) {}
 
   /**
-   * Detect all weak signals for a tenant
+   * Detect all weak signals for a tenant using its detection settings
+   * Re-detections are merged into existing signals by fingerprint and recorded in the signal history.
+   * With aggregates, detectors read the rolling aggregates of an incremental run instead of source rows.
    */
-  async detectWeakSignals(tenantId: number, daysBack: number = 90): Promise<WeakSignal[]> {
+  async detectWeakSignals(
+    tenantId: number,
+    daysBack: number = 90,
+    detectionRunId?: number,
+    aggregates?: DetectionAggregates,
+    settings?: DetectionSettings,
+  ): Promise<WeakSignal[]> {
     this.logger.log(`Starting weak signal detection for tenant ${tenantId}`);
 
-    // Run pattern extraction and trend detection in parallel
+    settings = settings || await this.detectionSettingsService.getSettings(tenantId);
+
+    await this.backfillFingerprints(tenantId);
+
+    // Re-weight by analyst feedback and drop signals that keep getting dismissed
+    const signals = await this.signalFeedbackService.applyFeedback(
+      tenantId,
+      aggregates
+        ? await this.generateSignalsFromAggregates(tenantId, daysBack, settings, aggregates)
+        : await this.generateSignals(tenantId, daysBack, settings),
+    );
+
+    // Merge with signals from previous runs and save
+    const savedSignals = await this.mergeAndSaveSignals(tenantId, signals, detectionRunId ?? null);
+
+    // Cluster co-occurring signals across sources; members need IDs first
+    const clusters = settings.enabledDetectors.includes('correlation')
+      ? await this.signalCorrelationService.buildCorrelationClusters(tenantId, savedSignals)
+      : [];
+    if (clusters.length > 0) {
+      const savedClusters = await this.mergeAndSaveSignals(tenantId, clusters, detectionRunId ?? null);
+      await this.linkClusterMembers(savedSignals, savedClusters);
+      savedSignals.push(...savedClusters);
+    }
+
+    this.logger.log(`Detected and saved ${savedSignals.length} weak signals (${clusters.length} correlation clusters)`);
+
+    return savedSignals;
+  }
+
+  /**
+   * Run the enabled detectors and convert their findings into unsaved, fingerprinted signals.
+   * With asOf, detection is replayed at a past date using only data created before it.
+   * Correlation clusters are not included because they are built from saved signals.
+   */
+  async generateSignals(
+    tenantId: number,
+    daysBack: number,
+    settings: DetectionSettings,
+    asOf?: Date,
+  ): Promise<WeakSignal[]> {
+    const enabled = new Set(settings.enabledDetectors);
+
+    // Run the enabled detectors in parallel
+    const [patterns, accelerations, anomalies] = await Promise.all([
+      enabled.has('pattern')
+        ? this.patternExtractionService.extractRecurringPatterns(tenantId, daysBack, settings, asOf)
+        : Promise.resolve([]),
+      enabled.has('trend')
+        ? this.trendAccelerationService.detectTrendAccelerations(tenantId, daysBack, settings.accelerationFactors, asOf)
+        : Promise.resolve([]),
+      enabled.has('anomaly')
+        ? this.anomalyDetectionService.detectAnomalies(tenantId, daysBack, asOf)
+        : Promise.resolve([]),
+    ]);
+
+    return this.buildSignals(tenantId, settings, patterns, accelerations, anomalies);
+  }
+
+  /**
+   * Same as generateSignals, but the detectors read the rolling aggregates of an incremental run
+   */
+  async generateSignalsFromAggregates(
+    tenantId: number,
+    daysBack: number,
+    settings: DetectionSettings,
+    aggregates: DetectionAggregates,
+  ): Promise<WeakSignal[]> {
+    const enabled = new Set(settings.enabledDetectors);
+
     const [patterns, accelerations] = await Promise.all([
-      this.patternExtractionService.extractRecurringPatterns(tenantId, daysBack),
-      this.trendAccelerationService.detectTrendAccelerations(tenantId, daysBack),
+      enabled.has('pattern')
+        ? this.patternExtractionService.extractRecurringPatternsFromAggregates(tenantId, aggregates, settings)
+        : Promise.resolve([]),
+      enabled.has('trend')
+        ? this.trendAccelerationService.detectTrendAccelerationsFromAggregates(tenantId, daysBack, settings.accelerationFactors, aggregates)
+        : Promise.resolve([]),
     ]);
+    const anomalies = enabled.has('anomaly') ? this.anomalyDetectionService.detectAnomaliesFromAggregates(aggregates) : [];
+
+    return this.buildSignals(tenantId, settings, patterns, accelerations, anomalies);
+  }
 
-    this.logger.log(`Found ${patterns.length} patterns and ${accelerations.length} accelerations`);
+  private async buildSignals(
+    tenantId: number,
+    settings: DetectionSettings,
+    patterns: RecurringPattern[],
+    accelerations: TrendAcceleration[],
+    anomalies: AnomalyDetection[],
+  ): Promise<WeakSignal[]> {
+    this.logger.log(`Found ${patterns.length} patterns, ${accelerations.length} accelerations and ${anomalies.length} anomalies`);
 
     const signals: WeakSignal[] = [];
 
     // Convert patterns to weak signals
     for (const pattern of patterns) {
-      const signal = await this.createWeakSignalFromPattern(tenantId, pattern);
+      const signal = await this.createWeakSignalFromPattern(tenantId, pattern, settings);
       signals.push(signal);
     }
 
@@ -44,14 +158,231 @@ export class WeakSignalDetectionService {
       signals.push(signal);
     }
 
-    // Save all signals
-    const savedSignals = await this.weakSignalRepository.save(signals);
+    // Convert anomalies to weak signals
+    for (const anomaly of anomalies) {
+      const signal = await this.createWeakSignalFromAnomaly(tenantId, anomaly);
+      signals.push(signal);
+    }
+
+    for (const signal of signals) {
+      signal.fingerprint = this.computeFingerprint(signal);
+    }
+
+    return signals;
+  }
+
+  /**
+   * Insert new signals and merge re-detections into the existing rows with the same fingerprint.
+   * Triage state (status, notes, validation, escalation) of existing signals is preserved.
+   */
+  private async mergeAndSaveSignals(
+    tenantId: number,
+    detected: WeakSignal[],
+    detectionRunId: number | null,
+  ): Promise<WeakSignal[]> {
+    if (detected.length === 0) {
+      return [];
+    }
+
+    // Collapse duplicates within this pass, keeping the most confident detection
+    const detectedByFingerprint = new Map<string, WeakSignal>();
+    for (const signal of detected) {
+      signal.fingerprint = this.computeFingerprint(signal);
+      const current = detectedByFingerprint.get(signal.fingerprint);
+      if (!current || Number(signal.confidenceScore) > Number(current.confidenceScore)) {
+        detectedByFingerprint.set(signal.fingerprint, signal);
+      }
+    }
+
+    const existingSignals = await this.weakSignalRepository.find({
+      where: { tenantId, fingerprint: In([...detectedByFingerprint.keys()]) },
+      order: { id: 'ASC' },
+    });
+
+    // Legacy duplicates may share a fingerprint; merge into the triaged one, else the oldest
+    const existingByFingerprint = new Map<string, WeakSignal>();
+    for (const signal of existingSignals) {
+      const current = existingByFingerprint.get(signal.fingerprint!);
+      if (!current || (current.status === 'new' && signal.status !== 'new')) {
+        existingByFingerprint.set(signal.fingerprint!, signal);
+      }
+    }
+
+    const now = new Date();
+    const toSave: WeakSignal[] = [];
+    const previousSnapshots = new Map<string, WeakSignalHistory['snapshot']>();
+
+    for (const [fingerprint, fresh] of detectedByFingerprint) {
+      const existing = existingByFingerprint.get(fingerprint);
+
+      if (!existing) {
+        fresh.lastDetectedAt = now;
+        fresh.detectionCount = 1;
+        fresh.detectedConfidenceScore = fresh.confidenceScore;
+        fresh.missedRuns = 0;
+        this.signalSlaService.startClock(fresh, now);
+        toSave.push(fresh);
+        continue;
+      }
+
+      previousSnapshots.set(fingerprint, this.buildHistorySnapshot(existing));
+      this.mergeIntoExisting(existing, fresh, now);
+      // An escalated severity may bring the triage deadline of an untriaged signal forward
+      this.signalSlaService.refreshClock(existing, now);
+      toSave.push(existing);
+    }
+
+    const savedSignals = await this.weakSignalRepository.save(toSave);
+
+    const history = savedSignals.map(signal => {
+      const snapshot = this.buildHistorySnapshot(signal);
+      const previous = previousSnapshots.get(signal.fingerprint!);
+      const changes = previous
+        ? (Object.keys(snapshot) as (keyof WeakSignalHistory['snapshot'])[])
+          .filter(field => previous[field] !== snapshot[field])
+          .map(field => ({ field, previous: previous[field], current: snapshot[field] }))
+        : [];
+
+      return this.signalHistoryRepository.create({
+        tenantId,
+        weakSignalId: signal.id,
+        detectionRunId,
+        changeType: !previous ? 'created' : changes.length > 0 ? 'updated' : 'unchanged',
+        snapshot,
+        changes,
+        recordedAt: now,
+      });
+    });
 
-    this.logger.log(`Detected and saved ${savedSignals.length} weak signals`);
+    await this.signalHistoryRepository.save(history);
+
+    this.logger.log(
+      `Merged detections for tenant ${tenantId}: ${toSave.length - previousSnapshots.size} new, ${previousSnapshots.size} re-detected`
+    );
 
     return savedSignals;
   }
 
+  /**
+   * Refresh an existing signal with the latest detection while keeping its triage state
+   */
+  private mergeIntoExisting(existing: WeakSignal, fresh: WeakSignal, detectedAt: Date): void {
+    existing.title = fresh.title;
+    existing.description = fresh.description;
+    existing.severity = fresh.severity;
+    existing.confidenceScore = fresh.confidenceScore;
+    existing.sourceSignals = fresh.sourceSignals;
+    existing.patternData = fresh.patternData;
+    existing.trendData = fresh.trendData;
+    existing.forecast = fresh.forecast ?? null;
+    existing.breachProbability = fresh.breachProbability ?? null;
+    existing.expectedBreachAt = fresh.expectedBreachAt ?? null;
+    existing.explainability = fresh.explainability;
+    existing.affectedEntities = fresh.affectedEntities;
+    existing.category = fresh.category;
+    existing.metadata = { ...(existing.metadata || {}), ...(fresh.metadata || {}) };
+    existing.lastDetectedAt = detectedAt;
+    existing.detectionCount = (existing.detectionCount || 1) + 1;
+    existing.detectedConfidenceScore = fresh.confidenceScore;
+    existing.missedRuns = 0;
+  }
+
+  /**
+   * Compact view of a signal used to track how it evolves between runs
+   */
+  private buildHistorySnapshot(signal: WeakSignal): WeakSignalHistory['snapshot'] {
+    return {
+      severity: signal.severity,
+      confidenceScore: Number(signal.confidenceScore),
+      occurrences: signal.patternData ? Number(signal.patternData.occurrences) : null,
+      evidenceCount: (signal.sourceSignals || []).length,
+      currentValue: signal.trendData ? Number(signal.trendData.current) : null,
+    };
+  }
+
+  /**
+   * Stable fingerprint of what a signal is about, independent of when it was detected
+   */
+  computeFingerprint(signal: WeakSignal): string {
+    const metadata = signal.metadata || {};
+    let identity: string;
+    let entityKeys = (signal.affectedEntities || []).map(e => `${e.type}:${e.id}`).sort();
+
+    switch (signal.signalType) {
+      case 'pattern_recurring':
+        identity = metadata.patternId;
+        break;
+      case 'anomaly_detection':
+        identity = metadata.anomalyId;
+        break;
+      case 'trend_acceleration':
+        // accelerationId embeds a timestamp, so key on the metric instead
+        identity = (signal.affectedEntities || []).find(e => e.type === 'metric')?.id || signal.trendData?.metric || '';
+        break;
+      case 'correlation_cluster':
+        // Clusters are anchored on their earliest member so they survive new members joining
+        identity = `anchor_${Math.min(...(metadata.memberSignalIds || [0]))}`;
+        entityKeys = [];
+        break;
+      default:
+        identity = '';
+    }
+
+    return crypto
+      .createHash('sha256')
+      .update(`${signal.signalType}|${identity || signal.title}|${entityKeys.join(',')}`)
+      .digest('hex');
+  }
+
+  /**
+   * Assign fingerprints to signals created before fingerprinting existed
+   */
+  private async backfillFingerprints(tenantId: number): Promise<void> {
+    const legacySignals = await this.weakSignalRepository.find({
+      where: { tenantId, fingerprint: IsNull() },
+    });
+
+    if (legacySignals.length === 0) {
+      return;
+    }
+
+    for (const signal of legacySignals) {
+      signal.fingerprint = this.computeFingerprint(signal);
+    }
+
+    await this.weakSignalRepository.save(legacySignals);
+    this.logger.log(`Backfilled fingerprints for ${legacySignals.length} weak signals of tenant ${tenantId}`);
+  }
+
+  /**
+   * Get the detection history of a signal, newest first
+   */
+  async getSignalHistory(tenantId: number, weakSignalId: number): Promise<WeakSignalHistory[]> {
+    return await this.signalHistoryRepository.find({
+      where: { tenantId, weakSignalId },
+      order: { recordedAt: 'DESC', id: 'DESC' },
+    });
+  }
+
+  /**
+   * Point member signals back at the correlation cluster that contains them
+   */
+  private async linkClusterMembers(signals: WeakSignal[], clusters: WeakSignal[]): Promise<void> {
+    const updated: WeakSignal[] = [];
+
+    for (const cluster of clusters) {
+      const memberIds: number[] = cluster.metadata?.memberSignalIds || [];
+      for (const signal of signals.filter(s => memberIds.includes(s.id))) {
+        signal.metadata = { ...(signal.metadata || {}), correlationClusterId: cluster.id };
+        updated.push(signal);
+      }
+    }
+
+    if (updated.length > 0) {
+      await this.weakSignalRepository.save(updated);
+    }
+  }
+
   /**
    * Delete all weak signals for a tenant
    */
@@ -66,12 +397,9 @@ export class WeakSignalDetectionService {
    */
   async getWeakSignals(
     tenantId: number,
-    options?: {
-      signalType?: SignalType;
-      severity?: SignalSeverity;
-      status?: string;
-      minConfidence?: number;
+    options?: WeakSignalFilters & {
       limit?: number;
+      sortBy?: 'detectedAt' | 'triage';
     }
   ): Promise<WeakSignal[]> {
     const queryBuilder = this.weakSignalRepository
@@ -79,27 +407,152 @@ export class WeakSignalDetectionService {
       .where('signal.tenantId = :tenantId', { tenantId })
       .orderBy('signal.detectedAt', 'DESC');
 
-    if (options?.signalType) {
+    this.applySignalFilters(queryBuilder, options || {});
+
+    if (options?.sortBy === 'triage') {
+      this.orderForTriage(queryBuilder, 'DESC');
+    }
+
+    if (options?.limit) {
+      queryBuilder.limit(options.limit);
+    }
+
+    return await queryBuilder.getMany();
+  }
+
+  /**
+   * One page of weak signals with the total number of matches, for the triage list
+   */
+  async getWeakSignalsPage(
+    tenantId: number,
+    options: WeakSignalFilters & {
+      page?: number;
+      limit?: number;
+      sortBy?: WeakSignalSortField;
+      sortOrder?: 'ASC' | 'DESC';
+    },
+  ): Promise<{ signals: WeakSignal[]; total: number }> {
+    const page = options.page || 1;
+    const limit = options.limit || 50;
+    const sortOrder = options.sortOrder || 'DESC';
+
+    const queryBuilder = this.weakSignalRepository
+      .createQueryBuilder('signal')
+      .where('signal.tenantId = :tenantId', { tenantId });
+
+    this.applySignalFilters(queryBuilder, options);
+
+    switch (options.sortBy) {
+      case 'triage':
+        this.orderForTriage(queryBuilder, sortOrder);
+        break;
+      case 'severity':
+        queryBuilder
+          .orderBy(
+            "CASE signal.severity WHEN 'critical' THEN 4 WHEN 'high' THEN 3 WHEN 'medium' THEN 2 ELSE 1 END",
+            sortOrder,
+          )
+          .addOrderBy('signal.confidenceScore', sortOrder);
+        break;
+      case 'confidence':
+        queryBuilder.orderBy('signal.confidenceScore', sortOrder);
+        break;
+      case 'lastDetectedAt':
+        queryBuilder.orderBy('signal.lastDetectedAt', sortOrder);
+        break;
+      default:
+        queryBuilder.orderBy('signal.detectedAt', sortOrder);
+    }
+
+    // Ties are broken by id so pages do not overlap
+    const [signals, total] = await queryBuilder
+      .addOrderBy('signal.id', sortOrder)
+      .offset((page - 1) * limit)
+      .limit(limit)
+      .getManyAndCount();
+
+    return { signals, total };
+  }
+
+  private applySignalFilters(queryBuilder: SelectQueryBuilder<WeakSignal>, options: WeakSignalFilters): void {
+    if (options.signalType) {
       queryBuilder.andWhere('signal.signalType = :signalType', { signalType: options.signalType });
     }
 
-    if (options?.severity) {
+    if (options.severity) {
       queryBuilder.andWhere('signal.severity = :severity', { severity: options.severity });
     }
 
-    if (options?.status) {
+    if (options.status) {
       queryBuilder.andWhere('signal.status = :status', { status: options.status });
+    } else if (!options.includeInactive) {
+      // Resolved and expired signals are no longer part of the triage queue
+      queryBuilder.andWhere('signal.status NOT IN (:...inactiveStatuses)', { inactiveStatuses: INACTIVE_SIGNAL_STATUSES });
     }
 
-    if (options?.minConfidence) {
+    if (options.minConfidence) {
       queryBuilder.andWhere('signal.confidenceScore >= :minConfidence', { minConfidence: options.minConfidence });
     }
 
-    if (options?.limit) {
-      queryBuilder.limit(options.limit);
+    if (options.category) {
+      queryBuilder.andWhere('signal.category = :category', { category: options.category });
     }
 
-    return await queryBuilder.getMany();
+    if (options.affectedEntityId || options.affectedEntityType) {
+      // JSON_CONTAINS matches entities that have at least the given type and id
+      const entity: Record<string, string> = {};
+      if (options.affectedEntityType) entity.type = options.affectedEntityType;
+      if (options.affectedEntityId) entity.id = options.affectedEntityId;
+      queryBuilder.andWhere('JSON_CONTAINS(signal.affectedEntities, :affectedEntity)', {
+        affectedEntity: JSON.stringify(entity),
+      });
+    }
+
+    if (options.source) {
+      queryBuilder.andWhere('JSON_CONTAINS(signal.sourceSignals, :sourceSignal)', {
+        sourceSignal: JSON.stringify({ source: options.source }),
+      });
+    }
+
+    if (options.detectedFrom) {
+      queryBuilder.andWhere('signal.detectedAt >= :detectedFrom', { detectedFrom: options.detectedFrom });
+    }
+
+    if (options.detectedTo) {
+      queryBuilder.andWhere('signal.detectedAt <= :detectedTo', { detectedTo: options.detectedTo });
+    }
+
+    if (options.assigneeId !== undefined) {
+      queryBuilder.andWhere('signal.assigneeId = :assigneeId', { assigneeId: options.assigneeId });
+    }
+
+    if (options.assignedTeam) {
+      queryBuilder.andWhere('signal.assignedTeam = :assignedTeam', { assignedTeam: options.assignedTeam });
+    }
+
+    if (options.slaBreached !== undefined) {
+      queryBuilder.andWhere(options.slaBreached ? 'signal.slaBreachedAt IS NOT NULL' : 'signal.slaBreachedAt IS NULL');
+    }
+
+    if (options.search) {
+      // Every word must match, as a prefix; boolean mode operators in the input are dropped
+      const words = options.search.split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 0);
+      if (words.length > 0) {
+        queryBuilder.andWhere(
+          'MATCH(signal.title, signal.description, signal.explainabilityText) AGAINST (:search IN BOOLEAN MODE)',
+          { search: words.map(word => `+${word}*`).join(' ') },
+        );
+      }
+    }
+  }
+
+  /**
+   * Order by triage priority, computed by the database so limits and pages apply to the ranked list
+   */
+  private orderForTriage(queryBuilder: SelectQueryBuilder<WeakSignal>, sortOrder: 'ASC' | 'DESC'): void {
+    queryBuilder
+      .orderBy(this.signalForecastService.triagePriorityExpression('signal'), sortOrder)
+      .setParameter('triageAsOf', new Date());
   }
 
   /**
@@ -126,6 +579,14 @@ export class WeakSignalDetectionService {
       throw new Error('Weak signal not found');
     }
 
+    const previousStatus = signal.status;
+
+    if (signal.status === 'new' && status !== 'new') {
+      this.signalSlaService.markTriaged(signal);
+    } else if (signal.status !== 'new' && status === 'new') {
+      this.signalSlaService.startClock(signal);
+    }
+
     signal.status = status as any;
 
     if (status === 'validated' || status === 'escalated') {
@@ -138,24 +599,50 @@ export class WeakSignalDetectionService {
       }
     }
 
+    if (status === 'dismissed') {
+      // Remember how strong the evidence was so a re-detection can reopen it only if it got stronger
+      signal.metadata = {
+        ...(signal.metadata || {}),
+        dismissedSnapshot: this.buildHistorySnapshot(signal),
+        dismissalCount: Number(signal.metadata?.dismissalCount || 0) + 1,
+      };
+    }
+
+    signal.resolvedAt = status === 'resolved' ? new Date() : null;
+
     if (notes) {
       signal.investigationNotes = notes;
     }
 
-    return await this.weakSignalRepository.save(signal);
+    const saved = await this.weakSignalRepository.save(signal);
+
+    // The feed keeps every transition with its notes, which investigationNotes only holds until the next update
+    await this.signalActivityService.record(
+      tenantId,
+      { weakSignalId: id },
+      'status_changed',
+      { previousStatus, status, notes: notes || null },
+      userId ?? null,
+    );
+
+    return saved;
   }
 
   /**
    * Create weak signal from recurring pattern
    */
-  private async createWeakSignalFromPattern(tenantId: number, pattern: RecurringPattern): Promise<WeakSignal> {
+  private async createWeakSignalFromPattern(
+    tenantId: number,
+    pattern: RecurringPattern,
+    settings: DetectionSettings,
+  ): Promise<WeakSignal> {
     const signal = new WeakSignal();
 
     signal.tenantId = tenantId;
     signal.signalType = 'pattern_recurring';
     signal.title = this.generatePatternTitle(pattern);
     signal.description = pattern.description;
-    signal.severity = this.calculateSeverityFromPattern(pattern);
+    signal.severity = this.calculateSeverityFromPattern(pattern, settings.severityScoring);
     signal.confidenceScore = Number(pattern.confidenceScore);
     signal.status = 'new';
 
@@ -166,14 +653,23 @@ export class WeakSignalDetectionService {
       relevanceScore: e.relevanceScore,
     }));
 
+    // Prefer the forecast of daily occurrences over lastOccurrence + average interval
+    const forecast = this.signalForecastService.forecastPattern(pattern);
+    const predictedNext = forecast?.predictedNextOccurrence
+      || (pattern.predictedNext ? pattern.predictedNext.toISOString() : null);
+
     signal.patternData = {
       occurrences: Number(pattern.occurrences),
       frequency: pattern.frequency,
       lastOccurrence: pattern.lastOccurrence.toISOString(),
-      predictedNext: pattern.predictedNext ? pattern.predictedNext.toISOString() : null,
+      predictedNext,
       similarities: pattern.similarities,
     };
 
+    signal.forecast = forecast;
+    signal.breachProbability = null;
+    signal.expectedBreachAt = null;
+
     signal.trendData = null;
 
     signal.explainability = this.generatePatternExplainability(pattern);
@@ -224,6 +720,11 @@ export class WeakSignalDetectionService {
       timeWindow: acceleration.timeWindow,
     };
 
+    const forecast = this.signalForecastService.forecastAcceleration(acceleration);
+    signal.forecast = forecast;
+    signal.breachProbability = forecast?.breachProbability ?? null;
+    signal.expectedBreachAt = forecast?.expectedBreachAt ? new Date(forecast.expectedBreachAt) : null;
+
     signal.explainability = this.generateAccelerationExplainability(acceleration);
 
     signal.affectedEntities = this.extractAffectedEntitiesFromMetric(acceleration.metricKey);
@@ -232,7 +733,59 @@ export class WeakSignalDetectionService {
 
     signal.metadata = {
       accelerationId: acceleration.accelerationId,
-      predictedEscalationTime: acceleration.predictedEscalationTime?.toISOString(),
+      // The forecast's expected breach replaces the doubling-time heuristic when the metric has a critical threshold
+      predictedEscalationTime: forecast?.expectedBreachAt || acceleration.predictedEscalationTime?.toISOString(),
+    };
+
+    signal.detectedAt = new Date();
+
+    return signal;
+  }
+
+  /**
+   * Create weak signal from anomaly
+   */
+  private async createWeakSignalFromAnomaly(tenantId: number, anomaly: AnomalyDetection): Promise<WeakSignal> {
+    const signal = new WeakSignal();
+
+    signal.tenantId = tenantId;
+    signal.signalType = 'anomaly_detection';
+    signal.title = this.generateAnomalyTitle(anomaly);
+    signal.description = anomaly.description;
+    signal.severity = anomaly.severity;
+    signal.confidenceScore = Number(anomaly.confidenceScore);
+    signal.status = 'new';
+
+    signal.sourceSignals = anomaly.evidence.map(e => ({
+      source: e.source,
+      sourceId: `${e.source}_${e.timestamp.toISOString().split('T')[0]}`,
+      timestamp: e.timestamp.toISOString(),
+      relevanceScore: e.timestamp.getTime() === anomaly.anomalyDate.getTime() ? 95 : 60,
+    }));
+
+    signal.patternData = null;
+
+    signal.trendData = {
+      metric: anomaly.metric,
+      baseline: Number(anomaly.expected),
+      current: Number(anomaly.observed),
+      changeRate: Number(anomaly.changeRate),
+      accelerationFactor: anomaly.expected > 0 ? Number(anomaly.observed) / Number(anomaly.expected) : Number(anomaly.observed),
+      timeWindow: anomaly.timeWindow,
+    };
+
+    signal.explainability = this.generateAnomalyExplainability(anomaly);
+
+    signal.affectedEntities = this.extractAffectedEntitiesFromMetric(anomaly.metricKey);
+
+    signal.category = this.categorizeMetric(anomaly.metricKey);
+
+    signal.metadata = {
+      anomalyId: anomaly.anomalyId,
+      anomalyDate: anomaly.anomalyDate.toISOString(),
+      robustZScore: Number(anomaly.robustZScore.toFixed(2)),
+      baselineDeviation: Number(anomaly.deviation.toFixed(2)),
+      seasonality: anomaly.seasonality,
     };
 
     signal.detectedAt = new Date();
@@ -316,10 +869,50 @@ export class WeakSignalDetectionService {
     };
   }
 
+  /**
+   * Generate explainability for anomaly
+   */
+  private generateAnomalyExplainability(anomaly: AnomalyDetection): WeakSignal['explainability'] {
+    const anomalyDay = anomaly.anomalyDate.toLocaleDateString();
+    const primaryReason = `${anomaly.metric} reached ${anomaly.observed} on ${anomalyDay}, ${anomaly.robustZScore.toFixed(1)} robust deviations above the expected ${anomaly.expected.toFixed(1)}`;
+
+    const contributingFactors: string[] = [];
+    contributingFactors.push(`Observed value: ${anomaly.observed}`);
+    contributingFactors.push(`Expected value (baseline median): ${anomaly.expected.toFixed(2)}`);
+    contributingFactors.push(`Robust z-score: ${anomaly.robustZScore.toFixed(2)} (threshold 3.5)`);
+    contributingFactors.push(
+      anomaly.seasonality === 'day_of_week'
+        ? `Baseline built from ${anomaly.baselinePoints} previous days on the same weekday`
+        : `Baseline built from ${anomaly.baselinePoints} previous days (not enough history for weekday seasonality)`
+    );
+
+    const evidencePoints = anomaly.evidence.map(e => ({
+      description: `Value ${e.value} on ${e.timestamp.toLocaleDateString()} (expected ${e.expected.toFixed(1)})`,
+      weight: e.timestamp.getTime() === anomaly.anomalyDate.getTime() ? 0.95 : 0.5,
+      source: e.source,
+    }));
+
+    const riskIndicators = [...anomaly.riskIndicators];
+
+    const contextualFactors: string[] = [];
+    contextualFactors.push(`Time window: ${anomaly.timeWindow}`);
+    contextualFactors.push('Detection method: median/MAD robust z-score');
+    contextualFactors.push(`Severity: ${anomaly.severity}`);
+    contextualFactors.push(`Confidence: ${Number(anomaly.confidenceScore).toFixed(1)}%`);
+
+    return {
+      primaryReason,
+      contributingFactors,
+      evidencePoints,
+      riskIndicators,
+      contextualFactors,
+    };
+  }
+
   /**
    * Calculate severity from pattern
    */
-  private calculateSeverityFromPattern(pattern: RecurringPattern): SignalSeverity {
+  private calculateSeverityFromPattern(pattern: RecurringPattern, scoring: SeverityScoring): SignalSeverity {
     let score = 0;
 
     // Occurrences weight
@@ -337,11 +930,11 @@ export class WeakSignalDetectionService {
     else if (pattern.confidenceScore > 70) score += 1;
 
     // Pattern type weight
-    if (pattern.type === 'incident_recurrence' || pattern.type === 'issue_recurrence') score += 2;
+    if (pattern.type === 'incident_recurrence' || pattern.type === 'issue_recurrence') score += scoring.recurrenceWeight;
 
-    if (score >= 8) return 'critical';
-    if (score >= 6) return 'high';
-    if (score >= 4) return 'medium';
+    if (score >= scoring.criticalScore) return 'critical';
+    if (score >= scoring.highScore) return 'high';
+    if (score >= scoring.mediumScore) return 'medium';
     return 'low';
   }
 
@@ -413,6 +1006,14 @@ export class WeakSignalDetectionService {
     }
   }
 
+  /**
+   * Generate title for anomaly
+   */
+  private generateAnomalyTitle(anomaly: AnomalyDetection): string {
+    const multiple = anomaly.expected > 0 ? anomaly.observed / anomaly.expected : anomaly.observed;
+    return `Unusual Spike: ${anomaly.metric} ${multiple.toFixed(1)}x Expected on ${anomaly.anomalyDate.toLocaleDateString()}`;
+  }
+
   /**
    * Extract affected entities from evidence
    */
@@ -1,14 +1,29 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit, NotFoundException, BadRequestException } from '@nestjs/common';
 import { SchedulerRegistry } from '@nestjs/schedule';
 import { CronJob } from 'cron';
 import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, MoreThan } from 'typeorm';
+import { Repository, MoreThan, In } from 'typeorm';
 import { WeakSignalDetectionService } from './weak-signal-detection.service';
 import { HypothesisGenerationService } from './hypothesis-generation.service';
-import { DetectionRun } from '../entities/detection-run.entity';
+import { SignalLifecycleService } from './signal-lifecycle.service';
+import { DetectionSettingsService } from './detection-settings.service';
+import { DetectionAggregateService } from './detection-aggregate.service';
+import { DetectionJobQueueService, JobCancelledError } from './detection-job-queue.service';
+import { DetectionRun, DetectionRunStatus } from '../entities/detection-run.entity';
 import { WeakSignal } from '../entities/weak-signal.entity';
 import { Tenant } from '../../tenants/entities/tenant.entity';
+import { JobContext, QueueJob } from '../interfaces/job-queue.interface';
+
+const ACTIVE_RUN_STATUSES: DetectionRunStatus[] = ['queued', 'running'];
+
+/**
+ * Detection requested through the API rather than by the schedule
+ */
+export interface DetectionRequest {
+  daysBack?: number;
+  regenerate?: boolean; // delete the tenant's signals before detecting
+}
 
 @Injectable()
 export class WeakSignalSchedulerService implements OnModuleInit {
@@ -17,12 +32,18 @@ export class WeakSignalSchedulerService implements OnModuleInit {
   private readonly cronSchedule: string;
   private readonly daysBack: number;
   private readonly deduplicationHours: number;
+  private readonly incrementalDetection: boolean;
+  private readonly workerEnabled: boolean;
 
   constructor(
     private readonly configService: ConfigService,
     private readonly schedulerRegistry: SchedulerRegistry,
     private readonly detectionService: WeakSignalDetectionService,
     private readonly hypothesisService: HypothesisGenerationService,
+    private readonly lifecycleService: SignalLifecycleService,
+    private readonly detectionSettingsService: DetectionSettingsService,
+    private readonly detectionAggregateService: DetectionAggregateService,
+    private readonly jobQueue: DetectionJobQueueService,
     @InjectRepository(DetectionRun)
     private readonly detectionRunRepository: Repository<DetectionRun>,
     @InjectRepository(WeakSignal)
@@ -34,27 +55,43 @@ export class WeakSignalSchedulerService implements OnModuleInit {
     this.cronSchedule = this.configService.get<string>('WEAK_SIGNAL_DETECTION_CRON_SCHEDULE') || '0 0 */6 * * *';
     this.daysBack = parseInt(this.configService.get<string>('WEAK_SIGNAL_DETECTION_DAYS_BACK') || '90', 10);
     this.deduplicationHours = parseInt(this.configService.get<string>('WEAK_SIGNAL_DETECTION_DEDUPLICATION_HOURS') || '6', 10);
+    this.incrementalDetection = this.configService.get<string>('WEAK_SIGNAL_INCREMENTAL_DETECTION') !== 'false';
+    this.workerEnabled = this.configService.get<string>('WEAK_SIGNAL_JOB_WORKER_ENABLED') !== 'false';
 
     this.logger.log(`Weak Signal Detection Scheduler initialized:`);
     this.logger.log(`- Enabled: ${this.isEnabled}`);
     this.logger.log(`- Schedule: ${this.cronSchedule}`);
     this.logger.log(`- Days Back: ${this.daysBack}`);
     this.logger.log(`- Deduplication Hours: ${this.deduplicationHours}`);
+    this.logger.log(`- Incremental: ${this.incrementalDetection}`);
+    this.logger.log(`- Job Worker: ${this.workerEnabled} (${this.jobQueue.getDriverName()} queue)`);
   }
 
   /**
-   * Initialize the dynamic cron job when the module loads
+   * Register the queue job handlers, then start this instance's queue worker and the dynamic cron job.
    * Add a delay to ensure TypeORM has fully initialized all entity metadata
    */
   async onModuleInit() {
-    if (!this.isEnabled) {
-      this.logger.log('Weak signal detection cron job is disabled');
+    this.jobQueue.registerHandler('detection', (job, context) => this.handleDetectionJob(job, context));
+    this.jobQueue.registerHandler('hypothesis_generation', (job, context) => this.handleHypothesisJob(job, context));
+
+    if (!this.isEnabled && !this.workerEnabled) {
+      this.logger.log('Weak signal detection cron job and job worker are disabled');
       return;
     }
 
     // Wait for TypeORM to fully initialize (5 seconds delay)
     await new Promise(resolve => setTimeout(resolve, 5000));
 
+    if (this.workerEnabled) {
+      this.jobQueue.startWorker();
+    }
+
+    if (!this.isEnabled) {
+      this.logger.log('Weak signal detection cron job is disabled');
+      return;
+    }
+
     try {
       const job = new CronJob(this.cronSchedule, () => {
         this.runScheduledDetection();
@@ -70,11 +107,11 @@ export class WeakSignalSchedulerService implements OnModuleInit {
   }
 
   /**
-   * Run weak signal detection on a schedule
+   * Queue weak signal detection for all tenants on a schedule
    * Uses dynamic cron expression from environment variable
    */
   async runScheduledDetection() {
-    this.logger.log('Starting scheduled weak signal detection for all tenants');
+    this.logger.log('Queueing scheduled weak signal detection for all tenants');
 
     try {
       // Get all active tenants
@@ -85,35 +122,42 @@ export class WeakSignalSchedulerService implements OnModuleInit {
       this.logger.log(`Found ${tenants.length} active tenants to process`);
       this.logger.log(`Tenant IDs: [${tenants.map(t => t.id).join(', ')}]`);
 
-      // Process each tenant
+      // Queue each tenant; the workers of all instances pick the jobs up
       for (const tenant of tenants) {
         this.logger.log(`Processing tenant ${tenant.id} (${tenant.name})`);
         try {
           await this.runDetectionForTenant(tenant.id);
         } catch (error) {
-          this.logger.error(`Failed to run detection for tenant ${tenant.id}: ${error.message}`, error.stack);
+          this.logger.error(`Failed to queue detection for tenant ${tenant.id}: ${error.message}`, error.stack);
         }
       }
 
-      this.logger.log('Scheduled weak signal detection completed for all tenants');
+      this.logger.log('Scheduled weak signal detection queued for all tenants');
     } catch (error) {
       this.logger.error(`Failed to run scheduled detection: ${error.message}`, error.stack);
     }
   }
 
   /**
-   * Run detection for a specific tenant with deduplication
+   * Queue detection for a specific tenant with deduplication.
+   * Returns the queued run, or the active or most recent run when detection is skipped.
    */
   async runDetectionForTenant(tenantId: number): Promise<DetectionRun | null> {
-    this.logger.log(`Starting weak signal detection for tenant ${tenantId}`);
-
     // Check for recent runs to prevent duplicate analysis
     const shouldRun = await this.shouldRunDetection(tenantId);
     if (!shouldRun) {
-      this.logger.log(`Skipping detection for tenant ${tenantId} - recent run found within deduplication window`);
+      this.logger.log(`Skipping detection for tenant ${tenantId} - active or recent run found within deduplication window`);
+
+      const activeRun = await this.detectionRunRepository.findOne({
+        where: {
+          tenantId,
+          status: In(ACTIVE_RUN_STATUSES),
+        },
+        order: { startedAt: 'DESC' },
+      });
 
       // Return the most recent run
-      const recentRun = await this.detectionRunRepository.findOne({
+      const recentRun = activeRun || await this.detectionRunRepository.findOne({
         where: {
           tenantId,
           status: 'completed',
@@ -124,46 +168,128 @@ export class WeakSignalSchedulerService implements OnModuleInit {
       return recentRun || null;
     }
 
-    const startTime = Date.now();
-    const startedAt = new Date();
+    return await this.enqueueRun(tenantId, this.daysBack);
+  }
 
-    // Create detection run record
-    const detectionRun = this.detectionRunRepository.create({
-      tenantId,
-      status: 'running',
-      startedAt,
-      daysAnalyzed: this.daysBack,
-      detectionSummary: {
-        byType: {},
-        bySeverity: {},
-        bySource: {},
-      },
+  /**
+   * Queue detection requested through the API. The deduplication window does not apply;
+   * jobs of the tenant still run one at a time.
+   */
+  async queueDetection(tenantId: number, request: DetectionRequest = {}): Promise<DetectionRun> {
+    const daysBack = request.daysBack ?? this.daysBack;
+    return await this.enqueueRun(tenantId, daysBack, {
+      daysBack,
+      regenerate: request.regenerate === true,
+      skipDeduplication: true,
     });
+  }
+
+  /**
+   * Cancel a queued or running detection run. Queued runs are cancelled right away;
+   * running ones stop at their next checkpoint.
+   */
+  async cancelRun(tenantId: number, runId: number): Promise<DetectionRun> {
+    const detectionRun = await this.detectionRunRepository.findOne({ where: { id: runId, tenantId } });
+    if (!detectionRun) {
+      throw new NotFoundException(`Detection run ${runId} not found`);
+    }
+
+    if (!ACTIVE_RUN_STATUSES.includes(detectionRun.status)) {
+      throw new BadRequestException(`Detection run ${runId} is already ${detectionRun.status}`);
+    }
+
+    const result = detectionRun.jobId ? await this.jobQueue.cancel(detectionRun.jobId) : 'removed';
+
+    detectionRun.cancelRequestedAt = new Date();
+    if (result === 'removed' || detectionRun.status === 'queued') {
+      detectionRun.status = 'cancelled';
+      detectionRun.stage = 'cancelled';
+      detectionRun.completedAt = new Date();
+    }
 
     await this.detectionRunRepository.save(detectionRun);
 
-    try {
-      // Run weak signal detection
-      this.logger.log(`Running weak signal detection for tenant ${tenantId} (${this.daysBack} days back)`);
-      const signals = await this.detectionService.detectWeakSignals(tenantId, this.daysBack);
+    this.logger.log(`Cancellation of detection run ${runId} for tenant ${tenantId}: ${result}`);
 
-      this.logger.log(`Detected ${signals.length} weak signals for tenant ${tenantId}`);
+    return detectionRun;
+  }
 
-      // Generate hypotheses for new critical and high severity signals
-      let hypothesesCount = 0;
-      const criticalAndHighSignals = signals.filter(s => ['critical', 'high'].includes(s.severity));
+  /**
+   * Queue worker handler that runs one detection run
+   */
+  private async handleDetectionJob(job: QueueJob, context: JobContext): Promise<void> {
+    const tenantId = job.tenantId;
+    const detectionRun = await this.detectionRunRepository.findOne({
+      where: { id: job.payload.detectionRunId, tenantId },
+    });
+
+    // Cancelled while waiting, or marked stale by a later deduplication check
+    if (!detectionRun || !ACTIVE_RUN_STATUSES.includes(detectionRun.status)) {
+      this.logger.log(`Skipping detection job ${job.id} - run ${job.payload.detectionRunId} is no longer active`);
+      return;
+    }
 
-      this.logger.log(`Generating hypotheses for ${criticalAndHighSignals.length} critical/high severity signals`);
+    // Another instance may have completed a run while this one was waiting for the tenant lock
+    if (!job.payload.skipDeduplication && await this.hasRecentCompletedRun(tenantId)) {
+      detectionRun.status = 'cancelled';
+      detectionRun.stage = 'cancelled';
+      detectionRun.completedAt = new Date();
+      detectionRun.errorMessage = 'Skipped - recent run found within deduplication window';
+      await this.detectionRunRepository.save(detectionRun);
+      return;
+    }
 
-      for (const signal of criticalAndHighSignals) {
-        try {
-          const hypotheses = await this.hypothesisService.generateHypothesesForSignal(tenantId, signal.id);
-          hypothesesCount += hypotheses.length;
-        } catch (error) {
-          this.logger.error(`Failed to generate hypotheses for signal ${signal.id}: ${error.message}`);
-        }
+    const startTime = Date.now();
+    const startedAt = new Date();
+
+    detectionRun.status = 'running';
+    detectionRun.startedAt = startedAt;
+    detectionRun.attempts = context.attempt;
+    detectionRun.errorMessage = null;
+    await this.reportProgress(detectionRun, 5, 'starting');
+
+    try {
+      const daysBack: number = job.payload.daysBack ?? this.daysBack;
+      if (job.payload.regenerate) {
+        await this.reportProgress(detectionRun, 5, 'deleting');
+        await this.detectionService.deleteAllSignals(tenantId);
+      }
+
+      // Run weak signal detection
+      this.logger.log(`Running weak signal detection for tenant ${tenantId} (${daysBack} days back)`);
+      const settings = await this.detectionSettingsService.getSettings(tenantId);
+      let signals: WeakSignal[];
+      if (this.canRunIncrementally(daysBack)) {
+        // Only rows ingested since the previous run are read; detectors work on the rolling aggregates
+        await this.reportProgress(detectionRun, 10, 'aggregating');
+        const refresh = await this.detectionAggregateService.refresh(tenantId, this.daysBack, settings, startedAt);
+
+        detectionRun.mode = refresh.rebuilt ? 'full' : 'incremental';
+        detectionRun.watermark = refresh.watermark;
+        detectionRun.recordsProcessed = refresh.recordsProcessed;
+
+        await context.checkpoint();
+        await this.reportProgress(detectionRun, 40, 'detecting');
+        signals = await this.detectionService.detectWeakSignals(
+          tenantId,
+          this.daysBack,
+          detectionRun.id,
+          refresh.aggregates,
+          settings,
+        );
+      } else {
+        await context.checkpoint();
+        await this.reportProgress(detectionRun, 10, 'detecting');
+        signals = await this.detectionService.detectWeakSignals(tenantId, daysBack, detectionRun.id, undefined, settings);
       }
 
+      this.logger.log(`Detected ${signals.length} weak signals for tenant ${tenantId}`);
+
+      // Resolve, expire, decay and reopen signals based on this run
+      await context.checkpoint();
+      await this.reportProgress(detectionRun, 80, 'lifecycle');
+      const lifecycleSummary = await this.lifecycleService.applyLifecycle(tenantId, signals, detectionRun.id, settings.enabledDetectors);
+
       // Calculate summary statistics
       const detectionSummary = this.calculateDetectionSummary(signals);
 
@@ -171,42 +297,127 @@ export class WeakSignalSchedulerService implements OnModuleInit {
       detectionRun.status = 'completed';
       detectionRun.completedAt = new Date();
       detectionRun.signalsDetected = signals.length;
-      detectionRun.hypothesesGenerated = hypothesesCount;
       detectionRun.detectionSummary = detectionSummary;
+      detectionRun.lifecycleSummary = lifecycleSummary;
       detectionRun.durationMs = Date.now() - startTime;
+      await this.reportProgress(detectionRun, 100, 'completed');
 
-      await this.detectionRunRepository.save(detectionRun);
+      // Generate hypotheses for new critical and high severity signals in a separate job
+      const criticalAndHighSignals = signals.filter(s => ['critical', 'high'].includes(s.severity));
+      if (criticalAndHighSignals.length > 0) {
+        this.logger.log(`Queueing hypothesis generation for ${criticalAndHighSignals.length} critical/high severity signals`);
+        await this.jobQueue.enqueue('hypothesis_generation', tenantId, {
+          detectionRunId: detectionRun.id,
+          signalIds: criticalAndHighSignals.map(s => s.id),
+        });
+      }
 
       this.logger.log(
         `Weak signal detection completed for tenant ${tenantId}: ` +
-        `${signals.length} signals, ${hypothesesCount} hypotheses, ` +
-        `duration: ${detectionRun.durationMs}ms`
+        `${signals.length} signals, duration: ${detectionRun.durationMs}ms`
       );
-
-      return detectionRun;
     } catch (error) {
-      // Mark run as failed
-      detectionRun.status = 'failed';
-      detectionRun.completedAt = new Date();
-      detectionRun.errorMessage = error.message;
       detectionRun.durationMs = Date.now() - startTime;
 
+      if (error instanceof JobCancelledError) {
+        detectionRun.status = 'cancelled';
+        detectionRun.stage = 'cancelled';
+        detectionRun.completedAt = new Date();
+      } else if (!context.isLastAttempt) {
+        // The queue retries the job with backoff
+        detectionRun.status = 'queued';
+        detectionRun.stage = 'retrying';
+        detectionRun.errorMessage = error.message;
+      } else {
+        // Mark run as failed
+        detectionRun.status = 'failed';
+        detectionRun.completedAt = new Date();
+        detectionRun.errorMessage = error.message;
+      }
+
       await this.detectionRunRepository.save(detectionRun);
 
-      this.logger.error(`Weak signal detection failed for tenant ${tenantId}: ${error.message}`, error.stack);
+      if (!(error instanceof JobCancelledError)) {
+        this.logger.error(`Weak signal detection failed for tenant ${tenantId}: ${error.message}`, error.stack);
+      }
 
       throw error;
     }
   }
 
   /**
-   * Check if detection should run based on deduplication window
+   * Queue worker handler that generates hypotheses for the critical and high signals of a run
    */
-  private async shouldRunDetection(tenantId: number): Promise<boolean> {
+  private async handleHypothesisJob(job: QueueJob, context: JobContext): Promise<void> {
+    const signalIds: number[] = job.payload.signalIds || [];
+    let hypothesesCount = 0;
+
+    this.logger.log(`Generating hypotheses for ${signalIds.length} critical/high severity signals`);
+
+    try {
+      for (const signalId of signalIds) {
+        await context.checkpoint();
+        try {
+          const hypotheses = await this.hypothesisService.generateHypothesesForSignal(job.tenantId, signalId);
+          hypothesesCount += hypotheses.length;
+        } catch (error) {
+          this.logger.error(`Failed to generate hypotheses for signal ${signalId}: ${error.message}`);
+        }
+      }
+    } finally {
+      if (job.payload.detectionRunId && hypothesesCount > 0) {
+        await this.detectionRunRepository.increment({ id: job.payload.detectionRunId }, 'hypothesesGenerated', hypothesesCount);
+      }
+    }
+  }
+
+  /**
+   * Create a queued detection run and its job; startedAt is reset when a worker picks the job up
+   */
+  private async enqueueRun(tenantId: number, daysBack: number, options: Record<string, any> = {}): Promise<DetectionRun> {
+    const detectionRun = this.detectionRunRepository.create({
+      tenantId,
+      status: 'queued',
+      mode: this.canRunIncrementally(daysBack) ? 'incremental' : 'full',
+      startedAt: new Date(),
+      daysAnalyzed: daysBack,
+      progress: 0,
+      stage: 'queued',
+      detectionSummary: {
+        byType: {},
+        bySeverity: {},
+        bySource: {},
+      },
+    });
+
+    await this.detectionRunRepository.save(detectionRun);
+
+    const job = await this.jobQueue.enqueue('detection', tenantId, { detectionRunId: detectionRun.id, ...options });
+    detectionRun.jobId = job.id;
+    await this.detectionRunRepository.save(detectionRun);
+
+    this.logger.log(`Queued weak signal detection run ${detectionRun.id} for tenant ${tenantId}`);
+
+    return detectionRun;
+  }
+
+  /**
+   * The rolling aggregates cover the configured window only
+   */
+  private canRunIncrementally(daysBack: number): boolean {
+    return this.incrementalDetection && daysBack === this.daysBack;
+  }
+
+  private async reportProgress(detectionRun: DetectionRun, progress: number, stage: string): Promise<void> {
+    detectionRun.progress = progress;
+    detectionRun.stage = stage;
+    await this.detectionRunRepository.save(detectionRun);
+  }
+
+  private async hasRecentCompletedRun(tenantId: number): Promise<boolean> {
     const deduplicationThreshold = new Date();
     deduplicationThreshold.setHours(deduplicationThreshold.getHours() - this.deduplicationHours);
 
-    // Check for any completed runs within the deduplication window
     const recentRun = await this.detectionRunRepository.findOne({
       where: {
         tenantId,
@@ -216,42 +427,48 @@ export class WeakSignalSchedulerService implements OnModuleInit {
       order: { completedAt: 'DESC' },
     });
 
-    // If there's a recent run, skip
-    if (recentRun) {
-      this.logger.debug(
-        `Found recent detection run for tenant ${tenantId} completed at ${recentRun.completedAt}`
-      );
+    return !!recentRun;
+  }
+
+  /**
+   * Check if detection should run based on deduplication window
+   */
+  private async shouldRunDetection(tenantId: number): Promise<boolean> {
+    // Check for any completed runs within the deduplication window
+    if (await this.hasRecentCompletedRun(tenantId)) {
+      this.logger.debug(`Found recent detection run for tenant ${tenantId} within the deduplication window`);
       return false;
     }
 
-    // Check for any running jobs
-    const runningJob = await this.detectionRunRepository.findOne({
+    // Check for any queued or running jobs
+    const activeJob = await this.detectionRunRepository.findOne({
       where: {
         tenantId,
-        status: 'running',
+        status: In(ACTIVE_RUN_STATUSES),
       },
       order: { startedAt: 'DESC' },
     });
 
-    if (runningJob) {
-      // Check if the running job is stale (more than 1 hour old)
-      const oneHourAgo = new Date();
-      oneHourAgo.setHours(oneHourAgo.getHours() - 1);
+    if (activeJob) {
+      // Running jobs are stale after an hour; queued jobs once the deduplication window has passed
+      const staleAfterHours = activeJob.status === 'running' ? 1 : this.deduplicationHours;
+      const staleThreshold = new Date();
+      staleThreshold.setHours(staleThreshold.getHours() - staleAfterHours);
 
-      if (runningJob.startedAt < oneHourAgo) {
+      if (activeJob.startedAt < staleThreshold) {
         this.logger.warn(
-          `Found stale running detection job for tenant ${tenantId}, will mark as failed and start new run`
+          `Found stale ${activeJob.status} detection job for tenant ${tenantId}, will mark as failed and start new run`
         );
 
-        runningJob.status = 'failed';
-        runningJob.completedAt = new Date();
-        runningJob.errorMessage = 'Job marked as stale and failed';
-        await this.detectionRunRepository.save(runningJob);
+        activeJob.status = 'failed';
+        activeJob.completedAt = new Date();
+        activeJob.errorMessage = 'Job marked as stale and failed';
+        await this.detectionRunRepository.save(activeJob);
 
         return true;
       }
 
-      this.logger.debug(`Found active running detection job for tenant ${tenantId}`);
+      this.logger.debug(`Found active ${activeJob.status} detection job for tenant ${tenantId}`);
       return false;
     }
 
@@ -299,6 +516,18 @@ export class WeakSignalSchedulerService implements OnModuleInit {
     });
   }
 
+  /**
+   * Get a single detection run, including its progress
+   */
+  async getRun(tenantId: number, runId: number): Promise<DetectionRun> {
+    const detectionRun = await this.detectionRunRepository.findOne({ where: { id: runId, tenantId } });
+    if (!detectionRun) {
+      throw new NotFoundException(`Detection run ${runId} not found`);
+    }
+
+    return detectionRun;
+  }
+
   /**
    * Get detection run statistics for a tenant
    */
@@ -3,10 +3,44 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { WeakSignal } from './entities/weak-signal.entity';
 import { Hypothesis } from './entities/hypothesis.entity';
 import { DetectionRun } from './entities/detection-run.entity';
+import { WeakSignalHistory } from './entities/weak-signal-history.entity';
+import { DetectionProfile } from './entities/detection-profile.entity';
+import { BacktestRun } from './entities/backtest-run.entity';
+import { SignalFeedbackWeight } from './entities/signal-feedback-weight.entity';
+import { SeriesRelationship } from './entities/series-relationship.entity';
+import { SignalComment } from './entities/signal-comment.entity';
+import { SignalActivity } from './entities/signal-activity.entity';
+import { DetectionAggregate } from './entities/detection-aggregate.entity';
+import { DetectionState } from './entities/detection-state.entity';
 import { PatternExtractionService } from './services/pattern-extraction.service';
 import { TrendAccelerationService } from './services/trend-acceleration.service';
+import { AnomalyDetectionService } from './services/anomaly-detection.service';
+import { SignalCorrelationService } from './services/signal-correlation.service';
+import { SignalLifecycleService } from './services/signal-lifecycle.service';
+import { DetectionSettingsService } from './services/detection-settings.service';
+import { BacktestService } from './services/backtest.service';
+import { SignalFeedbackService } from './services/signal-feedback.service';
+import { DetectionAggregateService } from './services/detection-aggregate.service';
+import { SignalForecastService } from './services/signal-forecast.service';
+import { LagAnalysisService } from './services/lag-analysis.service';
+import { SignalSlaService } from './services/signal-sla.service';
+import { SignalActivityService } from './services/signal-activity.service';
+import { SignalCommentService } from './services/signal-comment.service';
+import { InMemoryJobQueueDriver } from './services/in-memory-job-queue-driver.service';
+import { RedisJobQueueDriver } from './services/redis-job-queue-driver.service';
+import { DetectionJobQueueService } from './services/detection-job-queue.service';
+import { LocalSimilarityService } from './services/local-similarity.service';
+import { EmbeddingSimilarityService } from './services/embedding-similarity.service';
+import { TextSimilarityService } from './services/text-similarity.service';
+import { ChatbotModule } from '../chatbot/chatbot.module';
+import { StorageModule } from '../storage/storage.module';
+import { EmailModule } from '../email/email.module';
 import { WeakSignalDetectionService } from './services/weak-signal-detection.service';
 import { HypothesisGenerationService } from './services/hypothesis-generation.service';
+import { HypothesisLlmService } from './services/hypothesis-llm.service';
+import { HypothesisValidationService } from './services/hypothesis-validation.service';
+import { OpenAIHypothesisProvider } from './services/openai-hypothesis-provider.service';
+import { StubHypothesisProvider } from './services/stub-hypothesis-provider.service';
 import { WeakSignalSchedulerService } from './services/weak-signal-scheduler.service';
 import { WeakSignalsController } from './controllers/weak-signals.controller';
 import { HypothesesController } from './controllers/hypotheses.controller';
@@ -22,6 +56,10 @@ import { TimelineEvent } from '../timeline/entities/timeline-event.entity';
 import { MetricValue } from '../kpi/entities/metric-value.entity';
 import { MetricDefinition } from '../kpi/entities/metric-definition.entity';
 import { Tenant } from '../tenants/entities/tenant.entity';
+import { User } from '../users/entities/user.entity';
+import { ActionItem } from '../action-center/entities/action-item.entity';
+import { GraphNode } from '../privacy/entities/graph-node.entity';
+import { GraphEdge } from '../privacy/entities/graph-edge.entity';
 
 @Module({
   imports: [
@@ -29,6 +67,15 @@ import { Tenant } from '../tenants/entities/tenant.entity';
       WeakSignal,
       Hypothesis,
       DetectionRun,
+      WeakSignalHistory,
+      DetectionProfile,
+      BacktestRun,
+      SignalFeedbackWeight,
+      SeriesRelationship,
+      SignalComment,
+      SignalActivity,
+      DetectionAggregate,
+      DetectionState,
       JiraIssue,
       ServiceNowIncident,
       SlackMessage,
@@ -39,14 +86,43 @@ import { Tenant } from '../tenants/entities/tenant.entity';
       MetricValue,
       MetricDefinition,
       Tenant,
+      User,
+      ActionItem,
+      GraphNode,
+      GraphEdge,
     ]),
+    ChatbotModule,
+    StorageModule,
+    EmailModule,
   ],
   controllers: [WeakSignalsController, HypothesesController],
   providers: [
+    DetectionSettingsService,
+    LocalSimilarityService,
+    EmbeddingSimilarityService,
+    TextSimilarityService,
     PatternExtractionService,
     TrendAccelerationService,
+    AnomalyDetectionService,
+    SignalCorrelationService,
+    SignalLifecycleService,
+    SignalFeedbackService,
+    SignalForecastService,
+    LagAnalysisService,
+    SignalActivityService,
+    SignalCommentService,
+    SignalSlaService,
+    DetectionAggregateService,
     WeakSignalDetectionService,
+    BacktestService,
+    OpenAIHypothesisProvider,
+    StubHypothesisProvider,
+    HypothesisLlmService,
     HypothesisGenerationService,
+    HypothesisValidationService,
+    InMemoryJobQueueDriver,
+    RedisJobQueueDriver,
+    DetectionJobQueueService,
     WeakSignalSchedulerService,
   ],
   exports: [WeakSignalDetectionService, HypothesisGenerationService, WeakSignalSchedulerService],